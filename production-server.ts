@@ -6,10 +6,10 @@ import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import { serveStatic } from '@hono/node-server/serve-static';
 import { streamSSE } from 'hono/streaming';
-import OpenAI from 'openai';
 import path from 'path';
 import { config } from 'dotenv';
-import { getDatabase, isDatabaseConnected } from './src/utils/db.js';
+import { getDb, isDbConnected } from './src/db/index.js';
+import { getModelProviderRegistry, type ModelMessage, type ModelTarget } from './src/services/modelProvider.js';
 
 // Import new route modules
 import webhookApp from './src/routes/webhooks.js';
@@ -21,14 +21,12 @@ config();
 
 const app = new Hono();
 
-// Initialize OpenAI
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || 'your-api-key-here',
-  baseURL: 'https://api.openai.com/v1', // Force official OpenAI endpoint
-});
+// Models come from the registry (LLM_AGENT_MODELS "server:..." or the chat task)
+const models = getModelProviderRegistry();
+const CHAT_TARGET: ModelTarget = { task: 'chat', agent: 'server' };
 
 // Initialize database using shared connection
-const db = getDatabase();
+const db = getDb();
 
 // Serve static files
 app.use('/static/*', serveStatic({ root: './public' }));
@@ -89,25 +87,25 @@ Current conversation context is provided in the messages.`;
 /**
  * Save message to database
  */
-function saveMessage(threadId: string, role: string, content: string, language: string) {
+async function saveMessage(threadId: string, role: string, content: string, language: string) {
   if (!db) return;
   
   try {
     const messageId = `msg-${Date.now()}-${role}-${Math.random().toString(36).substring(7)}`;
     
-    db.prepare(`
+    await db.run(`
       INSERT INTO conversation_messages (message_id, thread_id, role, content, created_at)
-      VALUES (?, ?, ?, ?, datetime('now'))
-    `).run(messageId, threadId, role, content);
+      VALUES (?, ?, ?, ?, ${db.sql.now()})
+    `, [messageId, threadId, role, content]);
 
     // Update conversation
-    db.prepare(`
+    await db.run(`
       INSERT INTO conversations (thread_id, language, status, started_at, updated_at, message_count)
-      VALUES (?, ?, 'active', datetime('now'), datetime('now'), 1)
+      VALUES (?, ?, 'active', ${db.sql.now()}, ${db.sql.now()}, 1)
       ON CONFLICT(thread_id) DO UPDATE SET
-        updated_at = datetime('now'),
-        message_count = message_count + 1
-    `).run(threadId, language);
+        updated_at = ${db.sql.now()},
+        message_count = conversations.message_count + 1
+    `, [threadId, language]);
     
     console.log(`💾 Saved ${role} message to database`);
   } catch (error) {
@@ -145,7 +143,7 @@ app.get('/api/health', (c) => {
     version: '2.0.0-streaming',
     timestamp: new Date().toISOString(),
     ai: process.env.OPENAI_API_KEY ? 'connected' : 'missing-key',
-    database: isDatabaseConnected() ? 'connected' : 'disconnected',
+    database: isDbConnected() ? 'connected' : 'disconnected',
     features: {
       streaming: true,
       ampeco: !!process.env.AMPECO_API_KEY,
@@ -168,20 +166,21 @@ app.post('/api/chat', async (c) => {
     const userMessage = messages[messages.length - 1]?.content || '';
     const finalThreadId = threadId || `thread-${Date.now()}`;
 
-    // Check if OpenAI key is configured
-    if (!process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY === 'your-api-key-here') {
-      const fallbackResponse = `⚠️ OpenAI API key not configured!
+    // Check if a model provider is configured
+    if (!models.isConfigured(CHAT_TARGET)) {
+      const fallbackResponse = `⚠️ No LLM provider configured!
 
 To enable real AI responses:
 1. Get an API key from: https://platform.openai.com/api-keys
 2. Set environment variable: OPENAI_API_KEY=sk-your-key
+   (or LLM_LOCAL_BASE_URL for a self-hosted OpenAI-compatible server)
 3. Restart the server
 
 Current system status:
-✅ Database: ${isDatabaseConnected() ? 'Connected' : 'Disconnected'}
+✅ Database: ${isDbConnected() ? 'Connected' : 'Disconnected'}
 ✅ Streaming: Enabled
 ✅ Ampeco API: ${process.env.AMPECO_API_KEY ? 'Configured' : 'Not configured'}
-❌ OpenAI API: Not configured`;
+❌ LLM provider: Not configured`;
 
       if (stream) {
         return streamSSE(c, async (stream) => {
@@ -207,10 +206,10 @@ Current system status:
     }
 
     // Save user message
-    saveMessage(finalThreadId, 'user', userMessage, language);
+    await saveMessage(finalThreadId, 'user', userMessage, language);
 
     // Prepare conversation history (keep last 10 messages for context)
-    const conversationMessages = [
+    const conversationMessages: ModelMessage[] = [
       { role: 'system', content: SYSTEM_PROMPT },
       ...messages.slice(-10), // Keep last 10 messages
     ];
@@ -223,18 +222,17 @@ Current system status:
         try {
           let fullResponse = '';
           
-          // Call OpenAI with streaming
-          const completion = await openai.chat.completions.create({
-            model: 'gpt-4o-mini',
-            messages: conversationMessages as any,
+          // Stream from the first provider in the chain that answers
+          const completion = models.stream(CHAT_TARGET, {
+            messages: conversationMessages,
             temperature: 0.7,
-            max_tokens: 1500,
-            stream: true, // Enable streaming from OpenAI
+            maxTokens: 1500,
           });
 
-          // Stream each chunk from OpenAI
-          for await (const chunk of completion) {
-            const content = chunk.choices[0]?.delta?.content || '';
+          // Stream each chunk from the model
+          let chunk = await completion.next();
+          for (; !chunk.done; chunk = await completion.next()) {
+            const content = chunk.value;
             if (content) {
               fullResponse += content;
               
@@ -250,7 +248,7 @@ Current system status:
           }
 
           // Save assistant message
-          saveMessage(finalThreadId, 'assistant', fullResponse, language);
+          await saveMessage(finalThreadId, 'assistant', fullResponse, language);
 
           // Send completion signal
           await stream.writeSSE({
@@ -258,7 +256,7 @@ Current system status:
               text: '', 
               done: true, 
               threadId: finalThreadId,
-              model: 'gpt-4o-mini',
+              model: chunk.value,
             }),
           });
 
@@ -277,23 +275,22 @@ Current system status:
     }
 
     // NON-STREAMING MODE (legacy support)
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: conversationMessages as any,
+    const completion = await models.complete(CHAT_TARGET, {
+      messages: conversationMessages,
       temperature: 0.7,
-      max_tokens: 1500,
+      maxTokens: 1500,
     });
 
-    const responseText = completion.choices[0]?.message?.content || 'Sorry, I could not generate a response.';
+    const responseText = completion.text || 'Sorry, I could not generate a response.';
 
     // Save assistant message
-    saveMessage(finalThreadId, 'assistant', responseText, language);
+    await saveMessage(finalThreadId, 'assistant', responseText, language);
 
     return c.json({
       success: true,
       text: responseText,
       threadId: finalThreadId,
-      model: 'gpt-4o-mini',
+      model: `${completion.providerId}/${completion.model}`,
     });
 
   } catch (error: any) {
@@ -312,33 +309,33 @@ app.get('/api/analytics/stats', async (c) => {
 
   try {
     // Get conversation stats
-    const stats = db.prepare(`
+    const stats = await db.get(`
       SELECT 
         COUNT(DISTINCT thread_id) as total_conversations,
         COUNT(*) as total_messages,
-        COUNT(DISTINCT CASE WHEN created_at > datetime('now', '-24 hours') THEN thread_id END) as active_today,
+        COUNT(DISTINCT CASE WHEN created_at > ${db.sql.ago(24, 'hours')} THEN thread_id END) as active_today,
         AVG(message_count) as avg_messages_per_conversation
       FROM conversations
-    `).get();
+    `);
 
     // Get language distribution
-    const languages = db.prepare(`
+    const { rows: languages } = await db.query(`
       SELECT language, COUNT(*) as count
       FROM conversations
       GROUP BY language
       ORDER BY count DESC
-    `).all();
+    `);
 
     // Get recent activity
-    const recentActivity = db.prepare(`
+    const { rows: recentActivity } = await db.query(`
       SELECT 
         DATE(created_at) as date,
         COUNT(DISTINCT thread_id) as conversations
       FROM conversations
-      WHERE created_at > datetime('now', '-7 days')
+      WHERE created_at > ${db.sql.ago(7, 'days')}
       GROUP BY DATE(created_at)
       ORDER BY date DESC
-    `).all();
+    `);
 
     return c.json({
       stats,
@@ -538,8 +535,8 @@ console.log(`
 ║   🚀 Edge Control Production Server v2.0 (Streaming)      ║
 ║                                                            ║
 ║   Environment: ${process.env.NODE_ENV || 'development'}                               ║
-║   Database: ${isDatabaseConnected() ? '✅ Connected' : '❌ Not connected'}                              ║
-║   OpenAI API: ${process.env.OPENAI_API_KEY ? '✅ Configured' : '❌ Not configured'}                          ║
+║   Database: ${isDbConnected() ? '✅ Connected' : '❌ Not connected'}                              ║
+║   LLM: ${models.isConfigured(CHAT_TARGET) ? '✅ Configured' : '❌ Not configured'}                                 ║
 ║   Ampeco API: ${process.env.AMPECO_API_KEY ? '✅ Configured' : '❌ Not configured'}                          ║
 ║                                                            ║
 ║   🌐 Endpoints:                                            ║
@@ -1,5 +1,5 @@
 // 🚀 Enhanced Chat Interface with ALL Features
-// ✅ Streaming responses with typing effect
+// ✅ Token-level streaming with resume on reconnect
 // ✅ Better error handling
 // ✅ Conversation history UI
 // ✅ Export conversation
@@ -16,6 +16,15 @@ let isProcessing = false;
 let messageCount = 0;
 let startTime = Date.now();
 
+// Streaming: resume a dropped stream up to 5 times, fail if idle for 60s
+const STREAM_MAX_RECONNECTS = 5;
+const STREAM_RECONNECT_DELAY_MS = 1000;
+const STREAM_IDLE_TIMEOUT_MS = 60000;
+
+// CSAT survey: the server opens one once the conversation is over, check every minute
+const SURVEY_POLL_INTERVAL_MS = 60000;
+let surveyShownFor = null;
+
 // DOM elements
 const messagesArea = document.getElementById('messagesArea');
 const messageInput = document.getElementById('messageInput');
@@ -78,6 +87,7 @@ document.addEventListener('DOMContentLoaded', () => {
   setupEventListeners();
   loadConversationHistory();
   messageInput.focus();
+  setInterval(checkForSurvey, SURVEY_POLL_INTERVAL_MS);
 });
 
 function setupEventListeners() {
@@ -247,25 +257,43 @@ async function sendMessage() {
     // Prepare messages
     const messages = buildMessageHistory(userMessage);
 
-    // Send with timeout
-    const timeoutMs = 30000; // 30 seconds
-    const responsePromise = sendChatRequest(messages, currentThreadId, currentLanguage, fileId);
-    const timeoutPromise = new Promise((_, reject) => 
-      setTimeout(() => reject(new Error('timeout')), timeoutMs)
-    );
-
-    const response = await Promise.race([responsePromise, timeoutPromise]);
+    // Stream the response, rendering text deltas and tool activity as they arrive
+    let assistantMessageId = null;
+    const toolMessages = {};
+    const response = await sendChatRequest(messages, currentThreadId, currentLanguage, fileId, {
+      onDelta: (delta, fullText) => {
+        if (!assistantMessageId) {
+          removeTypingIndicator(typingId);
+          assistantMessageId = addMessage('assistant', '');
+        }
+        updateMessageText(assistantMessageId, fullText);
+      },
+      onToolStart: (tool) => {
+        toolMessages[tool.toolCallId] = addMessage('system', `🔧 ${tool.toolName}...`);
+      },
+      onToolFinish: (tool) => {
+        const toolMessageId = toolMessages[tool.toolCallId];
+        if (toolMessageId) {
+          updateMessageText(toolMessageId, `✅ ${tool.toolName}`);
+        }
+      },
+      onReconnect: (attempt) => {
+        console.warn(`Stream interrupted, resuming (attempt ${attempt})`);
+      },
+    });
     
     removeTypingIndicator(typingId);
     
     // Add AI response
     if (response && response.text) {
-      addMessage('assistant', response.text, response.sentiment);
+      if (!assistantMessageId) {
+        addMessage('assistant', response.text, response.sentiment);
+      }
       conversationHistory.push({ 
         role: 'assistant', 
         content: response.text, 
         timestamp: new Date(),
-        model: response.model,
+        usage: response.usage,
         sentiment: response.sentiment
       });
       messageCount++;
@@ -284,6 +312,7 @@ async function sendMessage() {
     }
     
     saveConversationHistory();
+    checkForSurvey();
 
   } catch (error) {
     console.error('Send message error:', error);
@@ -329,8 +358,15 @@ function buildMessageHistory(newMessage) {
   return messages;
 }
 
-async function sendChatRequest(messages, threadId, language, fileId) {
-  const response = await fetch('/api/chat', {
+async function sendChatRequest(messages, threadId, language, fileId, handlers = {}) {
+  const state = {
+    text: '',
+    usage: null,
+    lastEventId: null,
+    completed: false,
+  };
+
+  let response = await fetch('/api/chat', {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -340,7 +376,6 @@ async function sendChatRequest(messages, threadId, language, fileId) {
       threadId,
       language,
       fileId,
-      stream: false  // Disable streaming to get JSON response
     }),
   });
   
@@ -348,13 +383,140 @@ async function sendChatRequest(messages, threadId, language, fileId) {
     const errorText = await response.text();
     throw new Error(`HTTP ${response.status}: ${errorText}`);
   }
-  
-  const data = await response.json();
-  if (!data.success) {
-    throw new Error(data.error || 'Unknown error');
+
+  // Read the stream; if the connection drops, resume from the last event id
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await readEventStream(response, (event) => handleStreamEvent(event, state, handlers));
+    } catch (error) {
+      if (error.message === 'timeout' || error.message.startsWith('Stream error')) {
+        throw error;
+      }
+      console.warn('Stream read error:', error);
+    }
+
+    if (state.completed) {
+      return state;
+    }
+
+    if (attempt >= STREAM_MAX_RECONNECTS) {
+      throw new Error(t('connectionError'));
+    }
+
+    if (handlers.onReconnect) handlers.onReconnect(attempt + 1);
+    await new Promise(resolve => setTimeout(resolve, STREAM_RECONNECT_DELAY_MS * (attempt + 1)));
+
+    response = await fetch(`/api/chat/${encodeURIComponent(threadId)}/stream`, {
+      headers: state.lastEventId ? { 'Last-Event-ID': state.lastEventId } : {},
+    }).catch(() => null);
+
+    if (!response || !response.ok) {
+      if (response && response.status === 404) {
+        throw new Error(t('connectionError'));
+      }
+      response = { body: null };
+    }
   }
-  
-  return data;
+}
+
+/**
+ * Parse an SSE response body and call onEvent for each complete event.
+ * Rejects with 'timeout' if no data arrives for STREAM_IDLE_TIMEOUT_MS.
+ */
+async function readEventStream(response, onEvent) {
+  if (!response.body) {
+    throw new Error('No stream body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    let idleTimer;
+    const idle = new Promise((_, reject) => {
+      idleTimer = setTimeout(() => reject(new Error('timeout')), STREAM_IDLE_TIMEOUT_MS);
+    });
+
+    let chunk;
+    try {
+      chunk = await Promise.race([reader.read(), idle]);
+    } catch (error) {
+      reader.cancel().catch(() => {});
+      throw error;
+    } finally {
+      clearTimeout(idleTimer);
+    }
+
+    if (chunk.done) return;
+
+    buffer += decoder.decode(chunk.value, { stream: true });
+
+    // Events are separated by a blank line
+    let separatorIndex;
+    while ((separatorIndex = buffer.search(/\r?\n\r?\n/)) !== -1) {
+      const rawEvent = buffer.substring(0, separatorIndex);
+      buffer = buffer.substring(separatorIndex).replace(/^\r?\n\r?\n/, '');
+
+      const event = { id: null, event: 'message', data: '' };
+      for (const line of rawEvent.split(/\r?\n/)) {
+        if (line.startsWith('id:')) event.id = line.substring(3).trim();
+        else if (line.startsWith('event:')) event.event = line.substring(6).trim();
+        else if (line.startsWith('data:')) event.data += line.substring(5).trim();
+      }
+
+      if (event.data) {
+        onEvent(event);
+      }
+    }
+  }
+}
+
+function handleStreamEvent(event, state, handlers) {
+  if (event.id) {
+    state.lastEventId = event.id;
+  }
+
+  let payload;
+  try {
+    payload = JSON.parse(event.data);
+  } catch (e) {
+    console.warn('Invalid stream payload:', event.data);
+    return;
+  }
+
+  switch (payload.type) {
+    case 'text-delta':
+      state.text += payload.delta;
+      if (handlers.onDelta) handlers.onDelta(payload.delta, state.text);
+      break;
+    case 'tool-start':
+      if (handlers.onToolStart) handlers.onToolStart(payload);
+      break;
+    case 'tool-finish':
+      if (handlers.onToolFinish) handlers.onToolFinish(payload);
+      break;
+    case 'usage':
+      state.usage = payload;
+      console.log(`Tokens: ${payload.totalTokens}, latency: ${payload.latencyMs}ms, first token: ${payload.firstTokenMs}ms`);
+      break;
+    case 'done':
+      state.completed = true;
+      break;
+    case 'error':
+      state.completed = true;
+      throw new Error(`Stream error: ${payload.message}`);
+  }
+}
+
+function updateMessageText(messageId, content) {
+  const msg = document.getElementById(messageId);
+  if (!msg) return;
+  const textContent = msg.querySelector('.whitespace-pre-wrap');
+  if (textContent) {
+    textContent.textContent = content;
+  }
+  messagesArea.scrollTop = messagesArea.scrollHeight;
 }
 
 function addMessage(role, content, sentiment = null) {
@@ -465,6 +627,86 @@ function showTypingIndicator() {
   return typingId;
 }
 
+async function checkForSurvey() {
+  if (!currentThreadId || isProcessing || surveyShownFor === currentThreadId) return;
+
+  try {
+    const response = await fetch(`/api/chat/${encodeURIComponent(currentThreadId)}/survey`);
+    if (!response.ok) return;
+    const data = await response.json();
+    if (data.success && data.survey && surveyShownFor !== currentThreadId) {
+      surveyShownFor = currentThreadId;
+      showSurveyCard(currentThreadId, data.survey);
+    }
+  } catch (error) {
+    console.warn('Survey check failed:', error);
+  }
+}
+
+function showSurveyCard(threadId, survey) {
+  const rtl = survey.language === 'he' || survey.language === 'ar';
+  const cardDiv = document.createElement('div');
+  cardDiv.className = 'flex justify-center my-4';
+  cardDiv.innerHTML = `
+    <div class="bg-blue-50 border border-blue-200 rounded-lg px-4 py-3 text-sm max-w-[80%]" dir="${rtl ? 'rtl' : 'ltr'}">
+      <p class="text-blue-900 mb-2 survey-question"></p>
+      <div class="flex flex-wrap gap-2 mb-2 survey-ratings"></div>
+      <textarea class="w-full border border-gray-300 rounded-lg px-2 py-1 mb-2 survey-comment" rows="2" maxlength="1000"></textarea>
+      <button class="bg-blue-500 text-white px-4 py-2 rounded-lg text-sm hover:bg-blue-600 transition disabled:opacity-50 survey-submit" disabled></button>
+    </div>
+  `;
+
+  const card = cardDiv.firstElementChild;
+  const comment = card.querySelector('.survey-comment');
+  const submit = card.querySelector('.survey-submit');
+  card.querySelector('.survey-question').textContent = survey.question;
+  comment.placeholder = survey.commentPrompt;
+  submit.textContent = survey.submitLabel;
+
+  let rating = null;
+  const ratings = card.querySelector('.survey-ratings');
+  for (const option of survey.ratings) {
+    const button = document.createElement('button');
+    button.className = 'bg-white border border-blue-300 rounded-lg px-3 py-1 hover:bg-blue-100 transition';
+    button.textContent = option.label;
+    button.addEventListener('click', () => {
+      rating = option.rating;
+      ratings.querySelectorAll('button').forEach((b) => b.classList.remove('bg-blue-200'));
+      button.classList.add('bg-blue-200');
+      submit.disabled = false;
+    });
+    ratings.appendChild(button);
+  }
+
+  submit.addEventListener('click', async () => {
+    if (!rating) return;
+    submit.disabled = true;
+    try {
+      const response = await fetch(`/api/chat/${encodeURIComponent(threadId)}/survey/${encodeURIComponent(survey.surveyId)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rating, comment: comment.value.trim() || undefined }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok && response.status !== 409) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+      card.innerHTML = '';
+      const thanks = document.createElement('p');
+      thanks.className = 'text-blue-900';
+      thanks.textContent = survey.thanks;
+      card.appendChild(thanks);
+    } catch (error) {
+      console.error('Survey submit error:', error);
+      showToast(`${t('error')}: ${error.message}`, 'error');
+      submit.disabled = false;
+    }
+  });
+
+  messagesArea.appendChild(cardDiv);
+  messagesArea.scrollTop = messagesArea.scrollHeight;
+}
+
 function removeTypingIndicator(typingId) {
   const typingDiv = document.getElementById(typingId);
   if (typingDiv) {
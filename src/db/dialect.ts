@@ -0,0 +1,239 @@
+/**
+ * SQL Dialect Helpers
+ * The two things that differ between the SQLite and Postgres drivers:
+ * - Placeholders: queries may use `?` or `$1`; each driver rewrites them to its own style
+ * - Expressions: time arithmetic, JSON access, case-insensitive matching, ...
+ *   are built with SqlHelpers so one query string runs on both databases
+ */
+
+export type SqlDialect = 'sqlite' | 'postgres';
+
+export type IntervalUnit = 'seconds' | 'minutes' | 'hours' | 'days';
+
+/**
+ * Split a query into code and quoted/commented segments so placeholders
+ * inside string literals are left alone
+ */
+function mapCode(sql: string, transform: (code: string) => string): string {
+  let output = '';
+  let code = '';
+  let i = 0;
+
+  const flushCode = () => {
+    output += transform(code);
+    code = '';
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+
+    if (char === "'" || char === '"') {
+      flushCode();
+      let end = i + 1;
+      while (end < sql.length) {
+        if (sql[end] === char && sql[end + 1] === char) {
+          end += 2; // Escaped quote
+        } else if (sql[end] === char) {
+          break;
+        } else {
+          end++;
+        }
+      }
+      output += sql.slice(i, end + 1);
+      i = end + 1;
+    } else if (char === '-' && next === '-') {
+      flushCode();
+      const end = sql.indexOf('\n', i);
+      const stop = end === -1 ? sql.length : end;
+      output += sql.slice(i, stop);
+      i = stop;
+    } else if (char === '/' && next === '*') {
+      flushCode();
+      const end = sql.indexOf('*/', i + 2);
+      const stop = end === -1 ? sql.length : end + 2;
+      output += sql.slice(i, stop);
+      i = stop;
+    } else {
+      code += char;
+      i++;
+    }
+  }
+
+  flushCode();
+  return output;
+}
+
+/**
+ * Rewrite `?` / `$n` placeholders for a dialect.
+ * Postgres gets numbered `$n`; SQLite gets positional `?` with params
+ * reordered (and repeated) to match `$n` references.
+ */
+export function translatePlaceholders(
+  sql: string,
+  params: unknown[],
+  dialect: SqlDialect
+): { sql: string; params: unknown[] } {
+  if (dialect === 'postgres') {
+    let position = 0;
+    const translated = mapCode(sql, (code) => code.replace(/\?(?![|&])/g, () => `$${++position}`));
+    return { sql: translated, params };
+  }
+
+  if (!/\$\d/.test(sql)) {
+    return { sql, params };
+  }
+
+  const ordered: unknown[] = [];
+  const translated = mapCode(sql, (code) =>
+    code.replace(/\$(\d+)/g, (_, index: string) => {
+      ordered.push(params[Number(index) - 1]);
+      return '?';
+    })
+  );
+  return { sql: translated, params: ordered };
+}
+
+/**
+ * Dialect-specific SQL fragments. Values are always passed as parameters;
+ * only identifiers and constants are inlined.
+ */
+export class SqlHelpers {
+  constructor(readonly dialect: SqlDialect) {}
+
+  /** Current timestamp */
+  now(): string {
+    return this.dialect === 'postgres' ? 'NOW()' : 'CURRENT_TIMESTAMP';
+  }
+
+  /** Timestamp `amount` units before now, e.g. ago(24, 'hours') */
+  ago(amount: number, unit: IntervalUnit): string {
+    return this.shift(-Math.abs(amount), unit);
+  }
+
+  /** Timestamp `amount` units after now */
+  fromNow(amount: number, unit: IntervalUnit): string {
+    return this.shift(Math.abs(amount), unit);
+  }
+
+  /** Timestamp now plus a column/parameter number of units, e.g. fromNowBy('check_frequency_hours', 'hours') */
+  fromNowBy(expression: string, unit: IntervalUnit): string {
+    return this.dialect === 'postgres'
+      ? `(NOW() + (${expression}) * INTERVAL '1 ${unit.slice(0, -1)}')`
+      : `datetime('now', '+' || (${expression}) || ' ${unit}')`;
+  }
+
+  /** Date (no time) `days` days before today */
+  daysAgoDate(days: number): string {
+    return this.dialect === 'postgres'
+      ? `(CURRENT_DATE - INTERVAL '${Math.abs(days)} days')`
+      : `date('now', '-${Math.abs(days)} days')`;
+  }
+
+  /** Date (no time) today plus a signed column/parameter number of days */
+  dateFromTodayBy(expression: string): string {
+    return this.dialect === 'postgres'
+      ? `(CURRENT_DATE + (${expression}) * INTERVAL '1 day')`
+      : `date('now', (${expression}) || ' days')`;
+  }
+
+  /** Seconds between two timestamp expressions (end - start) */
+  secondsBetween(start: string, end: string): string {
+    return this.dialect === 'postgres'
+      ? `EXTRACT(EPOCH FROM (${end} - ${start}))`
+      : `((julianday(${end}) - julianday(${start})) * 86400)`;
+  }
+
+  /** Two-digit hour of day ("00"-"23") of a timestamp expression */
+  hourOf(expression: string): string {
+    return this.dialect === 'postgres' ? `TO_CHAR(${expression}, 'HH24')` : `strftime('%H', ${expression})`;
+  }
+
+  /** Aggregate values into a list (read with parseJsonColumn: an array in Postgres, JSON text in SQLite) */
+  arrayAgg(expression: string): string {
+    return this.dialect === 'postgres' ? `ARRAY_AGG(${expression})` : `json_group_array(${expression})`;
+  }
+
+  /** Case-insensitive LIKE */
+  ilike(): string {
+    return this.dialect === 'postgres' ? 'ILIKE' : 'LIKE';
+  }
+
+  /** Text value of a top-level key in a JSON column */
+  jsonText(column: string, key: string): string {
+    return this.dialect === 'postgres' ? `${column}->>'${key}'` : `json_extract(${column}, '$.${key}')`;
+  }
+
+  /** JSON column with one top-level key set to a placeholder value (bind the value as JSON text) */
+  jsonSet(column: string, key: string, placeholder: string = '?'): string {
+    return this.dialect === 'postgres'
+      ? `jsonb_set(COALESCE(${column}, '{}'::jsonb), '{${key}}', (${placeholder})::jsonb)`
+      : `json_set(COALESCE(${column}, '{}'), '$.${key}', json(${placeholder}))`;
+  }
+
+  /** A bound JSON text parameter as a JSON value, e.g. in VALUES (...) */
+  json(placeholder: string = '?'): string {
+    return this.dialect === 'postgres' ? `(${placeholder})::jsonb` : placeholder;
+  }
+
+  /**
+   * JSON column with a counter at `keys` incremented by one. Keys are SQL
+   * expressions (placeholders or quoted literals), e.g. jsonIncrement('stats', ['$2', "'count'"])
+   */
+  jsonIncrement(column: string, keys: string[]): string {
+    if (this.dialect === 'postgres') {
+      const path = `ARRAY[${keys.join(', ')}]::text[]`;
+      return `jsonb_set(COALESCE(${column}, '{}'::jsonb), ${path}, (COALESCE((${column} #>> ${path})::int, 0) + 1)::text::jsonb, true)`;
+    }
+    const path = `'$' || ${keys.map((key) => `'."' || ${key} || '"'`).join(' || ')}`;
+    return `json_set(COALESCE(${column}, '{}'), ${path}, COALESCE(json_extract(${column}, ${path}), 0) + 1)`;
+  }
+
+  /** Auto-increment integer primary key column type (DDL) */
+  autoIncrementId(): string {
+    return this.dialect === 'postgres' ? 'SERIAL PRIMARY KEY' : 'INTEGER PRIMARY KEY AUTOINCREMENT';
+  }
+
+  /** JSON column type (DDL) */
+  jsonType(): string {
+    return this.dialect === 'postgres' ? 'JSONB' : 'TEXT';
+  }
+
+  /** Boolean literal */
+  bool(value: boolean): string {
+    if (this.dialect === 'postgres') return value ? 'TRUE' : 'FALSE';
+    return value ? '1' : '0';
+  }
+
+  private shift(amount: number, unit: IntervalUnit): string {
+    if (this.dialect === 'postgres') {
+      return `(NOW() ${amount < 0 ? '-' : '+'} INTERVAL '${Math.abs(amount)} ${unit}')`;
+    }
+    return `datetime('now', '${amount < 0 ? '-' : '+'}${Math.abs(amount)} ${unit}')`;
+  }
+}
+
+/**
+ * Parse a JSON column: Postgres returns JSONB already parsed, SQLite returns text
+ */
+export function parseJsonColumn<T>(value: unknown, fallback: T): T {
+  if (value === null || value === undefined) return fallback;
+  if (typeof value !== 'string') return value as T;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Parse a timestamp column. SQLite's CURRENT_TIMESTAMP format
+ * ("YYYY-MM-DD HH:MM:SS") is UTC but has no zone, so it's marked as such.
+ */
+export function parseTimestamp(value: unknown): Date {
+  if (value instanceof Date) return value;
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d+)?$/.test(value)) {
+    return new Date(`${value.replace(' ', 'T')}Z`);
+  }
+  return new Date(value as string | number);
+}
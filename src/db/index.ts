@@ -0,0 +1,129 @@
+/**
+ * Unified Database Layer
+ * One adapter interface over SQLite (better-sqlite3) and Postgres (pg).
+ *
+ * - Queries may use `?` or `$1` placeholders; the driver rewrites them
+ * - `db.sql` builds the few expressions that differ between dialects
+ *   (timestamps, intervals, JSON access, ILIKE)
+ * - Rows come back as plain objects in both drivers; JSON columns are text in
+ *   SQLite and parsed in Postgres, so read them with parseJsonColumn
+ *
+ * The driver is chosen from DATABASE_URL: postgres:// or postgresql:// uses
+ * Postgres, anything else is a SQLite file path (DATABASE_DRIVER overrides).
+ * Tests can run the whole system on one local SQLite file (or :memory:).
+ */
+
+import { logger } from '../utils/logger';
+import { SqlDialect, SqlHelpers } from './dialect';
+import { createSqliteDatabase } from './sqliteDatabase';
+import { createPostgresDatabase } from './postgresDatabase';
+
+export { SqlHelpers, parseJsonColumn, parseTimestamp, translatePlaceholders } from './dialect';
+export type { SqlDialect, IntervalUnit } from './dialect';
+
+export interface QueryResult<T = any> {
+  rows: T[];
+  rowCount: number;
+}
+
+export interface RunResult {
+  changes: number;
+  lastInsertId?: number | string; // SQLite rowid; Postgres needs RETURNING id instead
+}
+
+export interface Database {
+  readonly dialect: SqlDialect;
+  readonly sql: SqlHelpers;
+
+  /** Run a statement and return its rows (SELECT, or anything with RETURNING) */
+  query<T = any>(sql: string, params?: unknown[]): Promise<QueryResult<T>>;
+
+  /** First row or null */
+  get<T = any>(sql: string, params?: unknown[]): Promise<T | null>;
+
+  /** Run a statement that returns no rows */
+  run(sql: string, params?: unknown[]): Promise<RunResult>;
+
+  /** Run a script of one or more statements without parameters (DDL) */
+  exec(sql: string): Promise<void>;
+
+  /** Run `fn` in a transaction; it commits when `fn` resolves and rolls back when it throws */
+  transaction<T>(fn: (tx: Database) => Promise<T>): Promise<T>;
+
+  close(): Promise<void>;
+}
+
+export interface DatabaseConfig {
+  driver?: SqlDialect;
+  url?: string; // Postgres connection string or SQLite file path
+}
+
+const DEFAULT_SQLITE_PATH = '.wrangler/state/v3/d1/miniflare-D1DatabaseObject/edge-control-db.sqlite';
+
+export function resolveDatabaseConfig(env: NodeJS.ProcessEnv = process.env): Required<DatabaseConfig> {
+  const url = env.DATABASE_URL || DEFAULT_SQLITE_PATH;
+  const inferred: SqlDialect = /^postgres(ql)?:\/\//.test(url) ? 'postgres' : 'sqlite';
+  const driver = env.DATABASE_DRIVER === 'postgres' || env.DATABASE_DRIVER === 'sqlite' ? env.DATABASE_DRIVER : inferred;
+  return { driver, url };
+}
+
+/**
+ * Create a database for a config (defaults to the environment)
+ */
+export function createDatabase(config: DatabaseConfig = {}): Database {
+  const resolved = { ...resolveDatabaseConfig(), ...config };
+  logger.info({ driver: resolved.driver }, 'Opening database');
+  return resolved.driver === 'postgres'
+    ? createPostgresDatabase({ connectionString: resolved.url })
+    : createSqliteDatabase({ path: resolved.url });
+}
+
+// Singleton instance
+let databaseInstance: Database | null = null;
+
+export function getDb(): Database {
+  if (!databaseInstance) {
+    databaseInstance = createDatabase();
+  }
+  return databaseInstance;
+}
+
+/**
+ * Swap the shared database (tests, scripts)
+ */
+export function setDb(database: Database | null): void {
+  databaseInstance = database;
+}
+
+/**
+ * Whether the shared database has been opened
+ */
+export function isDbConnected(): boolean {
+  return databaseInstance !== null;
+}
+
+export async function closeDb(): Promise<void> {
+  if (databaseInstance) {
+    await databaseInstance.close();
+    databaseInstance = null;
+  }
+}
+
+/**
+ * Shared database, opened on first use. Delegates to getDb() so
+ * `import { db } from '../db'` keeps working after setDb().
+ */
+export const db: Database = {
+  get dialect() {
+    return getDb().dialect;
+  },
+  get sql() {
+    return getDb().sql;
+  },
+  query: (sql, params) => getDb().query(sql, params),
+  get: (sql, params) => getDb().get(sql, params),
+  run: (sql, params) => getDb().run(sql, params),
+  exec: (sql) => getDb().exec(sql),
+  transaction: (fn) => getDb().transaction(fn),
+  close: () => closeDb(),
+};
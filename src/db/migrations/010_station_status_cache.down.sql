@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS station_events;
+DROP TABLE IF EXISTS station_status_history;
+DROP TABLE IF EXISTS station_status_cache;
@@ -0,0 +1,13 @@
+-- SQLite variant of 011_user_language_preferences.sql
+-- User Language Preferences
+-- Auto-detects and stores user preferred language for consistent multi-language experience
+
+CREATE TABLE IF NOT EXISTS user_preferences (
+  user_id TEXT PRIMARY KEY,
+  language_code TEXT NOT NULL CHECK (language_code IN ('he', 'en', 'ru', 'ar')),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Index for fast lookups
+CREATE INDEX IF NOT EXISTS idx_user_preferences_language ON user_preferences(language_code);
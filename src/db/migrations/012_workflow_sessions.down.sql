@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS workflow_step_analytics;
+DROP TABLE IF EXISTS workflow_analytics;
+DROP TABLE IF EXISTS workflow_sessions;
@@ -0,0 +1,48 @@
+-- SQLite variant of 012_workflow_sessions.sql
+-- Workflow Sessions and Analytics
+-- Track diagnostic workflow executions, steps, and outcomes
+
+-- Workflow Sessions Table
+CREATE TABLE IF NOT EXISTS workflow_sessions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  workflow_id TEXT NOT NULL,
+  current_step_id TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('active', 'completed', 'escalated', 'abandoned')),
+  context TEXT DEFAULT '{}',
+  step_history TEXT DEFAULT '[]',
+  escalation_reason TEXT,
+  resolution TEXT,
+  started_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  completed_at TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Workflow Analytics Table
+CREATE TABLE IF NOT EXISTS workflow_analytics (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  workflow_id TEXT NOT NULL,
+  success BOOLEAN NOT NULL,
+  duration_seconds INTEGER,
+  steps_taken INTEGER,
+  completed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Workflow Step Analytics Table
+CREATE TABLE IF NOT EXISTS workflow_step_analytics (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  workflow_id TEXT NOT NULL,
+  step_id TEXT NOT NULL,
+  executions INTEGER DEFAULT 0,
+  success_count INTEGER DEFAULT 0,
+  avg_time_seconds INTEGER DEFAULT 0,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Indexes for fast lookups
+CREATE INDEX IF NOT EXISTS idx_workflow_sessions_user_id ON workflow_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_workflow_sessions_workflow_id ON workflow_sessions(workflow_id);
+CREATE INDEX IF NOT EXISTS idx_workflow_sessions_status ON workflow_sessions(status);
+CREATE INDEX IF NOT EXISTS idx_workflow_analytics_workflow_id ON workflow_analytics(workflow_id);
+CREATE INDEX IF NOT EXISTS idx_workflow_step_analytics_workflow_step ON workflow_step_analytics(workflow_id, step_id);
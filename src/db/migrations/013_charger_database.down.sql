@@ -0,0 +1,4 @@
+DROP TABLE IF EXISTS charger_vehicle_compatibility;
+DROP TABLE IF EXISTS troubleshooting_guides;
+DROP TABLE IF EXISTS charger_error_codes;
+DROP TABLE IF EXISTS charger_models;
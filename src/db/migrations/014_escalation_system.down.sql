@@ -0,0 +1,8 @@
+DROP VIEW IF EXISTS escalation_performance;
+DROP VIEW IF EXISTS active_escalations;
+
+DROP TABLE IF EXISTS escalation_notes;
+DROP TABLE IF EXISTS conversation_contexts;
+DROP TABLE IF EXISTS escalation_analytics;
+DROP TABLE IF EXISTS escalation_triggers;
+DROP TABLE IF EXISTS escalation_tickets;
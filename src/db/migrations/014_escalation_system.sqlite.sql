@@ -0,0 +1,167 @@
+-- SQLite variant of 014_escalation_system.sql
+-- Migration: Escalation System
+-- Created: 2026-01-19
+-- Description: Tables for smart escalation detection and ticket management
+
+-- Escalation tickets table
+CREATE TABLE IF NOT EXISTS escalation_tickets (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  ticket_id VARCHAR(100) UNIQUE NOT NULL, -- External ticket system ID (e.g., Zendesk)
+  discord_user_id VARCHAR(50) NOT NULL,
+  discord_username VARCHAR(100),
+  
+  -- Classification
+  issue_type VARCHAR(50) NOT NULL, -- technical, billing, account, general
+  issue_category VARCHAR(100), -- specific category (e.g., charging_failure, payment_error)
+  urgency_level VARCHAR(20) NOT NULL, -- low, medium, high, critical
+  priority_score INTEGER DEFAULT 0, -- 0-100
+  
+  -- Context
+  conversation_summary TEXT,
+  conversation_context TEXT, -- Full conversation history
+  diagnostic_results TEXT, -- Results from workflows
+  technical_details TEXT, -- Station, charger, error codes
+  user_sentiment VARCHAR(20), -- frustrated, angry, neutral, satisfied
+  
+  -- Status tracking
+  status VARCHAR(50) DEFAULT 'open', -- open, assigned, in_progress, resolved, closed
+  assigned_to VARCHAR(100), -- Human agent username
+  resolution_time_seconds INTEGER,
+  
+  -- Timestamps
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  escalated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  assigned_at TIMESTAMP,
+  resolved_at TIMESTAMP,
+  closed_at TIMESTAMP,
+  
+  -- Metadata
+  escalation_reason TEXT,
+  escalation_triggers TEXT, -- What triggered the escalation
+  customer_satisfaction_score INTEGER -- 1-5 after resolution
+);
+CREATE INDEX IF NOT EXISTS idx_escalation_user ON escalation_tickets(discord_user_id);
+CREATE INDEX IF NOT EXISTS idx_escalation_status ON escalation_tickets(status);
+CREATE INDEX IF NOT EXISTS idx_escalation_urgency ON escalation_tickets(urgency_level);
+CREATE INDEX IF NOT EXISTS idx_escalation_created ON escalation_tickets(created_at);
+CREATE INDEX IF NOT EXISTS idx_escalation_ticket_id ON escalation_tickets(ticket_id);
+
+-- Escalation triggers table (what causes escalation)
+CREATE TABLE IF NOT EXISTS escalation_triggers (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  ticket_id INTEGER REFERENCES escalation_tickets(id) ON DELETE CASCADE,
+  
+  trigger_type VARCHAR(50) NOT NULL, -- timeout, repeated_issue, negative_sentiment, explicit_request, workflow_failure, safety_concern
+  trigger_details TEXT,
+  confidence_score DECIMAL(3,2), -- 0.00 to 1.00
+  
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_trigger_ticket ON escalation_triggers(ticket_id);
+CREATE INDEX IF NOT EXISTS idx_trigger_type ON escalation_triggers(trigger_type);
+
+-- Escalation analytics table
+CREATE TABLE IF NOT EXISTS escalation_analytics (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  date DATE NOT NULL,
+  
+  -- Volumes
+  total_escalations INTEGER DEFAULT 0,
+  escalations_by_type TEXT, -- { technical: 10, billing: 5, ... }
+  escalations_by_urgency TEXT, -- { low: 3, medium: 8, high: 4, critical: 0 }
+  
+  -- Resolution metrics
+  avg_resolution_time_seconds INTEGER,
+  median_resolution_time_seconds INTEGER,
+  resolved_count INTEGER DEFAULT 0,
+  unresolved_count INTEGER DEFAULT 0,
+  
+  -- Quality metrics
+  avg_customer_satisfaction DECIMAL(3,2),
+  first_contact_resolution_rate DECIMAL(3,2),
+  
+  -- Trigger analysis
+  top_triggers TEXT, -- Most common escalation reasons
+  
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  
+  UNIQUE(date)
+);
+CREATE INDEX IF NOT EXISTS idx_analytics_date ON escalation_analytics(date);
+
+-- Conversation context snapshots (for ticket creation)
+CREATE TABLE IF NOT EXISTS conversation_contexts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  discord_user_id VARCHAR(50) NOT NULL,
+  ticket_id INTEGER REFERENCES escalation_tickets(id) ON DELETE CASCADE,
+  
+  -- Context data
+  message_count INTEGER DEFAULT 0,
+  conversation_duration_seconds INTEGER,
+  messages TEXT, -- Array of { role, content, timestamp }
+  
+  -- Technical context
+  stations_involved TEXT, -- Array of station IDs
+  errors_encountered TEXT, -- Array of error codes
+  actions_taken TEXT, -- Array of actions (reset, unlock, etc.)
+  
+  -- Sentiment tracking
+  sentiment_history TEXT, -- Array of { timestamp, sentiment, score }
+  overall_sentiment VARCHAR(20),
+  
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_context_user ON conversation_contexts(discord_user_id);
+CREATE INDEX IF NOT EXISTS idx_context_ticket ON conversation_contexts(ticket_id);
+
+-- Escalation notes (for human agents)
+CREATE TABLE IF NOT EXISTS escalation_notes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  ticket_id INTEGER REFERENCES escalation_tickets(id) ON DELETE CASCADE,
+  
+  note_type VARCHAR(50), -- internal, customer_visible, resolution
+  note_text TEXT NOT NULL,
+  author VARCHAR(100), -- Agent username or 'system'
+  
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_notes_ticket ON escalation_notes(ticket_id);
+CREATE INDEX IF NOT EXISTS idx_notes_created ON escalation_notes(created_at);
+
+-- Create views for common queries
+
+-- Active escalations view
+CREATE VIEW IF NOT EXISTS active_escalations AS
+SELECT 
+  et.id,
+  et.ticket_id,
+  et.discord_username,
+  et.issue_type,
+  et.urgency_level,
+  et.priority_score,
+  et.status,
+  et.assigned_to,
+  et.escalated_at,
+  CAST((julianday('now') - julianday(et.escalated_at)) * 86400 AS INTEGER) as age_seconds,
+  cc.message_count,
+  cc.overall_sentiment
+FROM escalation_tickets et
+LEFT JOIN conversation_contexts cc ON cc.ticket_id = et.id
+WHERE et.status IN ('open', 'assigned', 'in_progress')
+ORDER BY et.priority_score DESC, et.escalated_at ASC;
+
+-- Escalation performance view
+CREATE VIEW IF NOT EXISTS escalation_performance AS
+SELECT 
+  DATE(escalated_at) as date,
+  COUNT(*) as total_escalations,
+  COUNT(CASE WHEN status = 'resolved' THEN 1 END) as resolved,
+  COUNT(CASE WHEN status IN ('open', 'assigned', 'in_progress') THEN 1 END) as active,
+  AVG(resolution_time_seconds) as avg_resolution_time,
+  AVG(priority_score) as avg_priority,
+  AVG(customer_satisfaction_score) as avg_satisfaction
+FROM escalation_tickets
+WHERE escalated_at >= datetime('now', '-30 days')
+GROUP BY DATE(escalated_at)
+ORDER BY date DESC;
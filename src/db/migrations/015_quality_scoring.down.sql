@@ -0,0 +1,10 @@
+DROP VIEW IF EXISTS tool_effectiveness_summary;
+DROP VIEW IF EXISTS ab_test_performance;
+DROP VIEW IF EXISTS low_quality_conversations;
+DROP VIEW IF EXISTS high_quality_conversations;
+
+DROP TABLE IF EXISTS tool_effectiveness;
+DROP TABLE IF EXISTS quality_patterns;
+DROP TABLE IF EXISTS quality_analytics;
+DROP TABLE IF EXISTS ab_test_experiments;
+DROP TABLE IF EXISTS conversation_quality_scores;
@@ -0,0 +1,11 @@
+DROP VIEW IF EXISTS notification_effectiveness;
+DROP VIEW IF EXISTS prediction_accuracy_summary;
+DROP VIEW IF EXISTS active_anomalies;
+DROP VIEW IF EXISTS high_risk_users;
+
+DROP TABLE IF EXISTS prediction_model_performance;
+DROP TABLE IF EXISTS proactive_notifications;
+DROP TABLE IF EXISTS fraud_detection_events;
+DROP TABLE IF EXISTS anomaly_events;
+DROP TABLE IF EXISTS session_predictions;
+DROP TABLE IF EXISTS user_behavior_patterns;
@@ -0,0 +1,297 @@
+-- SQLite variant of 016_predictive_detection.sql
+-- Migration: Predictive Issue Detection System
+-- Created: 2026-01-19
+-- Description: Pattern analysis, anomaly detection, and fraud prevention
+
+-- User behavior patterns table
+CREATE TABLE IF NOT EXISTS user_behavior_patterns (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  discord_user_id VARCHAR(50) NOT NULL,
+  
+  -- Session statistics
+  total_sessions INTEGER DEFAULT 0,
+  total_messages INTEGER DEFAULT 0,
+  avg_messages_per_session DECIMAL(5,2),
+  avg_session_duration_seconds INTEGER,
+  
+  -- Issue patterns
+  common_issues TEXT, -- Array of issue types with counts
+  resolution_rate DECIMAL(3,2),
+  escalation_rate DECIMAL(3,2),
+  
+  -- Time patterns
+  preferred_contact_hours TEXT, -- Array of hours (0-23)
+  avg_response_time_seconds INTEGER,
+  
+  -- Behavioral indicators
+  frustration_frequency DECIMAL(3,2), -- % of sessions with frustration
+  repeat_issue_frequency DECIMAL(3,2), -- % of sessions with repeat issues
+  
+  -- Risk scores
+  fraud_risk_score INTEGER DEFAULT 0, -- 0-100
+  churn_risk_score INTEGER DEFAULT 0, -- 0-100
+  
+  -- Last activity
+  last_session_date TIMESTAMP,
+  last_issue_type VARCHAR(100),
+  
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  
+  UNIQUE(discord_user_id)
+);
+CREATE INDEX IF NOT EXISTS idx_user_patterns_user ON user_behavior_patterns(discord_user_id);
+CREATE INDEX IF NOT EXISTS idx_user_patterns_fraud ON user_behavior_patterns(fraud_risk_score);
+CREATE INDEX IF NOT EXISTS idx_user_patterns_churn ON user_behavior_patterns(churn_risk_score);
+
+-- Session predictions table
+CREATE TABLE IF NOT EXISTS session_predictions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id VARCHAR(100) UNIQUE NOT NULL,
+  discord_user_id VARCHAR(50) NOT NULL,
+  
+  -- Prediction types
+  escalation_probability DECIMAL(3,2), -- 0.00 to 1.00
+  failure_probability DECIMAL(3,2),
+  fraud_probability DECIMAL(3,2),
+  
+  -- Predicted outcomes
+  predicted_escalation BOOLEAN DEFAULT false,
+  predicted_failure BOOLEAN DEFAULT false,
+  predicted_fraud BOOLEAN DEFAULT false,
+  
+  -- Actual outcomes (filled in after session)
+  actual_escalation BOOLEAN,
+  actual_failure BOOLEAN,
+  actual_fraud BOOLEAN,
+  
+  -- Prediction accuracy
+  prediction_correct BOOLEAN,
+  
+  -- Contributing factors
+  risk_factors TEXT, -- Array of identified risk factors
+  confidence_score DECIMAL(3,2),
+  
+  -- Proactive actions taken
+  proactive_actions TEXT, -- Actions triggered by prediction
+  prevented_escalation BOOLEAN DEFAULT false,
+  
+  predicted_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  session_end TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_predictions_session ON session_predictions(session_id);
+CREATE INDEX IF NOT EXISTS idx_predictions_user ON session_predictions(discord_user_id);
+CREATE INDEX IF NOT EXISTS idx_predictions_escalation ON session_predictions(predicted_escalation);
+CREATE INDEX IF NOT EXISTS idx_predictions_fraud ON session_predictions(predicted_fraud);
+CREATE INDEX IF NOT EXISTS idx_predictions_date ON session_predictions(predicted_at);
+
+-- Anomaly detection events table
+CREATE TABLE IF NOT EXISTS anomaly_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  event_id VARCHAR(100) UNIQUE NOT NULL,
+  discord_user_id VARCHAR(50) NOT NULL,
+  
+  -- Anomaly details
+  anomaly_type VARCHAR(50) NOT NULL, -- unusual_frequency, account_takeover, payment_fraud, location_anomaly, etc.
+  severity VARCHAR(20) NOT NULL, -- low, medium, high, critical
+  description TEXT,
+  
+  -- Detection details
+  detected_value TEXT, -- What triggered the anomaly
+  expected_value TEXT, -- What was expected
+  deviation_score DECIMAL(5,2), -- How far from normal
+  
+  -- Context
+  session_id VARCHAR(100),
+  related_data TEXT,
+  
+  -- Response
+  status VARCHAR(20) DEFAULT 'open', -- open, investigating, resolved, false_positive
+  action_taken TEXT,
+  reviewed_by VARCHAR(100),
+  
+  -- Timestamps
+  detected_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  resolved_at TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_anomaly_user ON anomaly_events(discord_user_id);
+CREATE INDEX IF NOT EXISTS idx_anomaly_type ON anomaly_events(anomaly_type);
+CREATE INDEX IF NOT EXISTS idx_anomaly_severity ON anomaly_events(severity);
+CREATE INDEX IF NOT EXISTS idx_anomaly_status ON anomaly_events(status);
+CREATE INDEX IF NOT EXISTS idx_anomaly_detected ON anomaly_events(detected_at);
+
+-- Fraud detection table
+CREATE TABLE IF NOT EXISTS fraud_detection_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  event_id VARCHAR(100) UNIQUE NOT NULL,
+  discord_user_id VARCHAR(50) NOT NULL,
+  
+  -- Fraud type
+  fraud_type VARCHAR(50) NOT NULL, -- session_hijacking, payment_fraud, account_sharing, free_charging_abuse, etc.
+  confidence_score DECIMAL(3,2), -- 0.00 to 1.00
+  
+  -- Evidence
+  evidence TEXT, -- Array of evidence items
+  indicators TEXT, -- What triggered detection
+  
+  -- User impact
+  estimated_loss_amount DECIMAL(10,2),
+  affected_sessions INTEGER DEFAULT 1,
+  
+  -- Investigation
+  status VARCHAR(20) DEFAULT 'detected', -- detected, investigating, confirmed, dismissed
+  investigated_by VARCHAR(100),
+  investigation_notes TEXT,
+  
+  -- Actions
+  user_blocked BOOLEAN DEFAULT false,
+  account_suspended BOOLEAN DEFAULT false,
+  refund_issued BOOLEAN DEFAULT false,
+  
+  -- Timestamps
+  detected_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  investigated_at TIMESTAMP,
+  resolved_at TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_fraud_user ON fraud_detection_events(discord_user_id);
+CREATE INDEX IF NOT EXISTS idx_fraud_type ON fraud_detection_events(fraud_type);
+CREATE INDEX IF NOT EXISTS idx_fraud_status ON fraud_detection_events(status);
+CREATE INDEX IF NOT EXISTS idx_fraud_detected ON fraud_detection_events(detected_at);
+
+-- Proactive notifications table
+CREATE TABLE IF NOT EXISTS proactive_notifications (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  notification_id VARCHAR(100) UNIQUE NOT NULL,
+  discord_user_id VARCHAR(50) NOT NULL,
+  
+  -- Notification details
+  notification_type VARCHAR(50) NOT NULL, -- predicted_issue, maintenance_alert, usage_tip, fraud_warning
+  title VARCHAR(200) NOT NULL,
+  message TEXT NOT NULL,
+  priority VARCHAR(20) DEFAULT 'medium', -- low, medium, high, urgent
+  
+  -- Trigger
+  triggered_by VARCHAR(100), -- What prediction/detection triggered it
+  trigger_data TEXT,
+  
+  -- Delivery
+  sent_at TIMESTAMP,
+  delivery_method VARCHAR(20), -- discord, email, sms
+  delivered BOOLEAN DEFAULT false,
+  read BOOLEAN DEFAULT false,
+  
+  -- User response
+  user_action VARCHAR(50), -- dismissed, acted, ignored
+  user_response_text TEXT,
+  
+  -- Effectiveness
+  prevented_issue BOOLEAN DEFAULT false,
+  user_satisfaction INTEGER, -- 1-5 rating
+  
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_notification_user ON proactive_notifications(discord_user_id);
+CREATE INDEX IF NOT EXISTS idx_notification_type ON proactive_notifications(notification_type);
+CREATE INDEX IF NOT EXISTS idx_notification_sent ON proactive_notifications(sent_at);
+CREATE INDEX IF NOT EXISTS idx_notification_delivered ON proactive_notifications(delivered);
+
+-- Prediction model performance tracking
+CREATE TABLE IF NOT EXISTS prediction_model_performance (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  model_name VARCHAR(100) NOT NULL,
+  date DATE NOT NULL,
+  
+  -- Prediction counts
+  total_predictions INTEGER DEFAULT 0,
+  true_positives INTEGER DEFAULT 0,
+  false_positives INTEGER DEFAULT 0,
+  true_negatives INTEGER DEFAULT 0,
+  false_negatives INTEGER DEFAULT 0,
+  
+  -- Calculated metrics
+  accuracy DECIMAL(3,2),
+  precision DECIMAL(3,2),
+  recall DECIMAL(3,2),
+  f1_score DECIMAL(3,2),
+  
+  -- By prediction type
+  escalation_accuracy DECIMAL(3,2),
+  fraud_accuracy DECIMAL(3,2),
+  failure_accuracy DECIMAL(3,2),
+  
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  
+  UNIQUE(model_name, date)
+);
+CREATE INDEX IF NOT EXISTS idx_model_perf_model ON prediction_model_performance(model_name);
+CREATE INDEX IF NOT EXISTS idx_model_perf_date ON prediction_model_performance(date);
+
+-- Create views for common queries
+
+-- High-risk users view
+CREATE VIEW IF NOT EXISTS high_risk_users AS
+SELECT 
+  ubp.discord_user_id,
+  ubp.fraud_risk_score,
+  ubp.churn_risk_score,
+  ubp.escalation_rate,
+  ubp.repeat_issue_frequency,
+  ubp.last_session_date,
+  COUNT(ae.id) as anomaly_count,
+  COUNT(fde.id) as fraud_event_count
+FROM user_behavior_patterns ubp
+LEFT JOIN anomaly_events ae ON ae.discord_user_id = ubp.discord_user_id 
+  AND ae.detected_at >= datetime('now', '-30 days')
+LEFT JOIN fraud_detection_events fde ON fde.discord_user_id = ubp.discord_user_id 
+  AND fde.detected_at >= datetime('now', '-30 days')
+WHERE ubp.fraud_risk_score >= 70 
+   OR ubp.churn_risk_score >= 70
+   OR ubp.escalation_rate >= 0.5
+GROUP BY ubp.discord_user_id, ubp.fraud_risk_score, ubp.churn_risk_score, 
+         ubp.escalation_rate, ubp.repeat_issue_frequency, ubp.last_session_date
+ORDER BY ubp.fraud_risk_score DESC, ubp.churn_risk_score DESC;
+
+-- Active anomalies view
+CREATE VIEW IF NOT EXISTS active_anomalies AS
+SELECT 
+  ae.event_id,
+  ae.discord_user_id,
+  ae.anomaly_type,
+  ae.severity,
+  ae.description,
+  ae.deviation_score,
+  ae.status,
+  ae.detected_at,
+  CAST((julianday('now') - julianday(ae.detected_at)) * 86400 AS INTEGER) as age_seconds
+FROM anomaly_events ae
+WHERE ae.status IN ('open', 'investigating')
+ORDER BY ae.severity DESC, ae.detected_at DESC;
+
+-- Prediction accuracy view
+CREATE VIEW IF NOT EXISTS prediction_accuracy_summary AS
+SELECT 
+  model_name,
+  AVG(accuracy) as avg_accuracy,
+  AVG(precision) as avg_precision,
+  AVG(recall) as avg_recall,
+  AVG(f1_score) as avg_f1,
+  MAX(date) as last_evaluated
+FROM prediction_model_performance
+WHERE date >= date('now', '-30 days')
+GROUP BY model_name;
+
+-- Proactive notification effectiveness view
+CREATE VIEW IF NOT EXISTS notification_effectiveness AS
+SELECT 
+  notification_type,
+  COUNT(*) as total_sent,
+  SUM(CASE WHEN delivered THEN 1 ELSE 0 END) as delivered_count,
+  SUM(CASE WHEN read THEN 1 ELSE 0 END) as read_count,
+  SUM(CASE WHEN prevented_issue THEN 1 ELSE 0 END) as prevented_count,
+  AVG(user_satisfaction) as avg_satisfaction,
+  (SUM(CASE WHEN delivered THEN 1 ELSE 0 END) * 1.0 / COUNT(*)) as delivery_rate,
+  (SUM(CASE WHEN read THEN 1 ELSE 0 END) * 1.0 / NULLIF(SUM(CASE WHEN delivered THEN 1 ELSE 0 END), 0)) as read_rate,
+  (SUM(CASE WHEN prevented_issue THEN 1 ELSE 0 END) * 1.0 / COUNT(*)) as prevention_rate
+FROM proactive_notifications
+WHERE created_at >= datetime('now', '-30 days')
+GROUP BY notification_type;
@@ -0,0 +1,10 @@
+DROP VIEW IF EXISTS media_processing_success_rates;
+DROP VIEW IF EXISTS processing_queue_status;
+DROP VIEW IF EXISTS recent_media_uploads;
+
+DROP TABLE IF EXISTS media_usage_analytics;
+DROP TABLE IF EXISTS media_processing_queue;
+DROP TABLE IF EXISTS video_analysis_results;
+DROP TABLE IF EXISTS voice_transcriptions;
+DROP TABLE IF EXISTS ocr_results;
+DROP TABLE IF EXISTS media_files;
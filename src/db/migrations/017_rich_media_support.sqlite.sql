@@ -0,0 +1,244 @@
+-- SQLite variant of 017_rich_media_support.sql
+-- Migration: Rich Media Support System
+-- Created: 2026-01-19
+-- Description: OCR, voice transcription, video analysis, and media storage
+
+-- Media files table
+CREATE TABLE IF NOT EXISTS media_files (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  media_id VARCHAR(100) UNIQUE NOT NULL,
+  discord_user_id VARCHAR(50) NOT NULL,
+  session_id VARCHAR(100),
+  
+  -- File details
+  file_type VARCHAR(20) NOT NULL, -- image, audio, video
+  mime_type VARCHAR(100),
+  original_filename VARCHAR(255),
+  file_size_bytes BIGINT,
+  
+  -- Storage
+  storage_url TEXT NOT NULL,
+  storage_provider VARCHAR(50) DEFAULT 'cloudflare_r2',
+  storage_key VARCHAR(255),
+  
+  -- Processing status
+  processing_status VARCHAR(20) DEFAULT 'pending', -- pending, processing, completed, failed
+  processed_at TIMESTAMP,
+  
+  -- Extracted content
+  transcription TEXT, -- For audio/video
+  ocr_text TEXT, -- For images
+  extracted_data TEXT, -- Structured data (error codes, timestamps, etc.)
+  
+  -- Analysis results
+  analysis_results TEXT, -- GPT-4V analysis, object detection, etc.
+  confidence_score DECIMAL(3,2),
+  
+  -- Metadata
+  duration_seconds INTEGER, -- For audio/video
+  resolution VARCHAR(20), -- For images/video (e.g., "1920x1080")
+  language_detected VARCHAR(10),
+  
+  -- Timestamps
+  uploaded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_media_user ON media_files(discord_user_id);
+CREATE INDEX IF NOT EXISTS idx_media_session ON media_files(session_id);
+CREATE INDEX IF NOT EXISTS idx_media_type ON media_files(file_type);
+CREATE INDEX IF NOT EXISTS idx_media_status ON media_files(processing_status);
+CREATE INDEX IF NOT EXISTS idx_media_uploaded ON media_files(uploaded_at);
+
+-- OCR results table (for detailed OCR tracking)
+CREATE TABLE IF NOT EXISTS ocr_results (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  media_id VARCHAR(100) REFERENCES media_files(media_id) ON DELETE CASCADE,
+  
+  -- OCR details
+  engine VARCHAR(50) DEFAULT 'tesseract', -- tesseract, google_vision, etc.
+  language VARCHAR(10),
+  confidence DECIMAL(3,2),
+  
+  -- Extracted text
+  raw_text TEXT,
+  processed_text TEXT,
+  
+  -- Structured extraction
+  error_codes TEXT, -- Array of detected error codes
+  numbers TEXT, -- Phone numbers, station IDs, etc.
+  keywords TEXT, -- Important keywords detected
+  
+  -- Bounding boxes (for text location)
+  text_regions TEXT,
+  
+  -- Processing details
+  processing_time_ms INTEGER,
+  preprocessing_applied TEXT, -- What preprocessing was done
+  
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_ocr_media ON ocr_results(media_id);
+
+-- Voice transcription results table
+CREATE TABLE IF NOT EXISTS voice_transcriptions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  media_id VARCHAR(100) REFERENCES media_files(media_id) ON DELETE CASCADE,
+  
+  -- Transcription details
+  engine VARCHAR(50) DEFAULT 'openai_whisper', -- openai_whisper, google_speech, etc.
+  model VARCHAR(50), -- whisper-1, etc.
+  language VARCHAR(10),
+  confidence DECIMAL(3,2),
+  
+  -- Transcript
+  full_transcript TEXT,
+  segments TEXT, -- Array of {text, start, end, confidence}
+  
+  -- Audio analysis
+  duration_seconds DECIMAL(8,2),
+  detected_speakers INTEGER,
+  sentiment VARCHAR(20),
+  
+  -- Processing details
+  processing_time_ms INTEGER,
+  audio_quality VARCHAR(20), -- low, medium, high
+  
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_voice_media ON voice_transcriptions(media_id);
+CREATE INDEX IF NOT EXISTS idx_voice_language ON voice_transcriptions(language);
+
+-- Video analysis results table
+CREATE TABLE IF NOT EXISTS video_analysis_results (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  media_id VARCHAR(100) REFERENCES media_files(media_id) ON DELETE CASCADE,
+  
+  -- Video details
+  duration_seconds DECIMAL(8,2),
+  frame_count INTEGER,
+  fps DECIMAL(5,2),
+  
+  -- Key frames extracted
+  key_frames TEXT, -- Array of {timestamp, url, description}
+  
+  -- Visual analysis
+  detected_issues TEXT, -- What problems were visually identified
+  scene_descriptions TEXT, -- Description of what's shown
+  objects_detected TEXT, -- Physical objects identified
+  
+  -- Text in video (OCR on frames)
+  text_from_frames TEXT,
+  
+  -- Audio transcription (if applicable)
+  audio_transcript TEXT,
+  
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_video_media ON video_analysis_results(media_id);
+
+-- Media processing queue table
+CREATE TABLE IF NOT EXISTS media_processing_queue (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  media_id VARCHAR(100) REFERENCES media_files(media_id) ON DELETE CASCADE,
+  
+  -- Processing task
+  task_type VARCHAR(50) NOT NULL, -- ocr, transcription, video_analysis
+  priority INTEGER DEFAULT 5, -- 1-10, higher = more urgent
+  
+  -- Status
+  status VARCHAR(20) DEFAULT 'queued', -- queued, processing, completed, failed
+  attempts INTEGER DEFAULT 0,
+  max_attempts INTEGER DEFAULT 3,
+  
+  -- Error handling
+  error_message TEXT,
+  last_error_at TIMESTAMP,
+  
+  -- Timestamps
+  queued_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  started_at TIMESTAMP,
+  completed_at TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_queue_media ON media_processing_queue(media_id);
+CREATE INDEX IF NOT EXISTS idx_queue_status ON media_processing_queue(status);
+CREATE INDEX IF NOT EXISTS idx_queue_priority ON media_processing_queue(priority);
+
+-- Media usage analytics table
+CREATE TABLE IF NOT EXISTS media_usage_analytics (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  date DATE NOT NULL,
+  
+  -- Upload counts
+  total_uploads INTEGER DEFAULT 0,
+  images_uploaded INTEGER DEFAULT 0,
+  audio_uploaded INTEGER DEFAULT 0,
+  video_uploaded INTEGER DEFAULT 0,
+  
+  -- Processing counts
+  ocr_processed INTEGER DEFAULT 0,
+  transcriptions_processed INTEGER DEFAULT 0,
+  videos_analyzed INTEGER DEFAULT 0,
+  
+  -- Success rates
+  ocr_success_rate DECIMAL(3,2),
+  transcription_success_rate DECIMAL(3,2),
+  video_analysis_success_rate DECIMAL(3,2),
+  
+  -- Performance metrics
+  avg_ocr_time_ms INTEGER,
+  avg_transcription_time_ms INTEGER,
+  avg_video_analysis_time_ms INTEGER,
+  
+  -- Storage
+  total_storage_bytes BIGINT,
+  storage_cost_estimate DECIMAL(10,2),
+  
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  
+  UNIQUE(date)
+);
+CREATE INDEX IF NOT EXISTS idx_media_analytics_date ON media_usage_analytics(date);
+
+-- Create views for common queries
+
+-- Recent media uploads view
+CREATE VIEW IF NOT EXISTS recent_media_uploads AS
+SELECT 
+  mf.media_id,
+  mf.discord_user_id,
+  mf.file_type,
+  mf.processing_status,
+  mf.uploaded_at,
+  COALESCE(ocr.processed_text, vt.full_transcript) as extracted_content,
+  CAST((julianday('now') - julianday(mf.uploaded_at)) * 86400 AS INTEGER) as age_seconds
+FROM media_files mf
+LEFT JOIN ocr_results ocr ON ocr.media_id = mf.media_id
+LEFT JOIN voice_transcriptions vt ON vt.media_id = mf.media_id
+WHERE mf.uploaded_at >= datetime('now', '-24 hours')
+ORDER BY mf.uploaded_at DESC;
+
+-- Processing queue status view
+CREATE VIEW IF NOT EXISTS processing_queue_status AS
+SELECT 
+  task_type,
+  status,
+  COUNT(*) as count,
+  AVG(attempts) as avg_attempts,
+  MIN(queued_at) as oldest_queued
+FROM media_processing_queue
+WHERE status IN ('queued', 'processing')
+GROUP BY task_type, status
+ORDER BY MAX(priority) DESC, MIN(queued_at) ASC;
+
+-- Media processing success rates view
+CREATE VIEW IF NOT EXISTS media_processing_success_rates AS
+SELECT 
+  file_type,
+  COUNT(*) as total_files,
+  SUM(CASE WHEN processing_status = 'completed' THEN 1 ELSE 0 END) as successful,
+  SUM(CASE WHEN processing_status = 'failed' THEN 1 ELSE 0 END) as failed,
+  (SUM(CASE WHEN processing_status = 'completed' THEN 1 ELSE 0 END) * 1.0 / COUNT(*)) as success_rate,
+  AVG(((julianday(processed_at) - julianday(uploaded_at)) * 86400)) as avg_processing_time_seconds
+FROM media_files
+WHERE uploaded_at >= datetime('now', '-30 days')
+GROUP BY file_type;
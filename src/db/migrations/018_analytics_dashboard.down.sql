@@ -0,0 +1,12 @@
+DROP VIEW IF EXISTS dashboard_trend_analysis;
+DROP VIEW IF EXISTS top_performing_tools;
+DROP VIEW IF EXISTS geographic_hotspots;
+DROP VIEW IF EXISTS dashboard_realtime_metrics;
+DROP VIEW IF EXISTS dashboard_performance_summary;
+
+DROP TABLE IF EXISTS dashboard_subscriptions;
+DROP TABLE IF EXISTS dashboard_exports;
+DROP TABLE IF EXISTS tool_effectiveness_metrics;
+DROP TABLE IF EXISTS geographic_analytics;
+DROP TABLE IF EXISTS dashboard_hourly_metrics;
+DROP TABLE IF EXISTS dashboard_daily_metrics;
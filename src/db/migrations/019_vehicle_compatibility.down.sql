@@ -0,0 +1,10 @@
+DROP VIEW IF EXISTS compatibility_check_stats;
+DROP VIEW IF EXISTS oem_quirks_summary;
+DROP VIEW IF EXISTS popular_ev_models;
+DROP VIEW IF EXISTS compatible_vehicle_charger_pairs;
+
+DROP TABLE IF EXISTS charging_rate_cache;
+DROP TABLE IF EXISTS compatibility_checks;
+DROP TABLE IF EXISTS oem_charging_quirks;
+DROP TABLE IF EXISTS connector_compatibility;
+DROP TABLE IF EXISTS ev_models;
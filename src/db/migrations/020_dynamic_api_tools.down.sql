@@ -0,0 +1,11 @@
+DROP VIEW IF EXISTS v_rate_limit_status;
+DROP VIEW IF EXISTS v_top_api_endpoints;
+DROP VIEW IF EXISTS v_api_performance;
+DROP VIEW IF EXISTS v_active_apis;
+
+DROP TABLE IF EXISTS api_fallback_configs;
+DROP TABLE IF EXISTS api_rate_limits;
+DROP TABLE IF EXISTS api_health_checks;
+DROP TABLE IF EXISTS api_request_logs;
+DROP TABLE IF EXISTS api_endpoints;
+DROP TABLE IF EXISTS api_specifications;
@@ -0,0 +1,10 @@
+DROP VIEW IF EXISTS v_conversation_sentiment_summary;
+DROP VIEW IF EXISTS v_effective_response_templates;
+DROP VIEW IF EXISTS v_sentiment_trends_7d;
+DROP VIEW IF EXISTS v_high_risk_conversations;
+
+DROP TABLE IF EXISTS sentiment_analytics_daily;
+DROP TABLE IF EXISTS sentiment_escalation_rules;
+DROP TABLE IF EXISTS sentiment_response_templates;
+DROP TABLE IF EXISTS conversation_sentiment_trajectory;
+DROP TABLE IF EXISTS message_sentiments;
@@ -0,0 +1,11 @@
+DROP VIEW IF EXISTS v_recent_cache_misses;
+DROP VIEW IF EXISTS v_cache_performance_by_type;
+DROP VIEW IF EXISTS v_circuit_breaker_dashboard;
+DROP VIEW IF EXISTS v_active_caches;
+
+DROP TABLE IF EXISTS cache_analytics_daily;
+DROP TABLE IF EXISTS cache_invalidation_rules;
+DROP TABLE IF EXISTS circuit_breaker_events;
+DROP TABLE IF EXISTS circuit_breaker_states;
+DROP TABLE IF EXISTS cache_access_logs;
+DROP TABLE IF EXISTS cache_entries;
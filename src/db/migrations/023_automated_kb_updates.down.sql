@@ -0,0 +1,11 @@
+DROP VIEW IF EXISTS v_kb_scraping_health;
+DROP VIEW IF EXISTS v_kb_recent_changes;
+DROP VIEW IF EXISTS v_kb_sources_due_for_check;
+DROP VIEW IF EXISTS v_kb_pending_reviews;
+
+DROP TABLE IF EXISTS kb_update_analytics_daily;
+DROP TABLE IF EXISTS kb_scraping_logs;
+DROP TABLE IF EXISTS kb_article_versions;
+DROP TABLE IF EXISTS kb_review_queue;
+DROP TABLE IF EXISTS kb_doc_changes;
+DROP TABLE IF EXISTS kb_doc_sources;
@@ -0,0 +1,12 @@
+DROP VIEW IF EXISTS v_conversation_search_summary;
+DROP VIEW IF EXISTS v_popular_search_queries;
+DROP VIEW IF EXISTS v_high_quality_resolutions;
+DROP VIEW IF EXISTS v_recent_conversations;
+
+DROP TABLE IF EXISTS conversation_summaries_fts;
+DROP TABLE IF EXISTS conversation_messages_fts;
+DROP TABLE IF EXISTS conversation_search_analytics_daily;
+DROP TABLE IF EXISTS conversation_search_logs;
+DROP TABLE IF EXISTS similar_conversations;
+DROP TABLE IF EXISTS conversation_summaries;
+DROP TABLE IF EXISTS conversation_messages_search;
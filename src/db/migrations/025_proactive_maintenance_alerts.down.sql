@@ -0,0 +1,11 @@
+DROP VIEW IF EXISTS v_charger_health_dashboard;
+DROP VIEW IF EXISTS v_upcoming_maintenance;
+DROP VIEW IF EXISTS v_critical_alerts;
+
+DROP TABLE IF EXISTS maintenance_analytics_daily;
+DROP TABLE IF EXISTS maintenance_notifications;
+DROP TABLE IF EXISTS failure_prediction_patterns;
+DROP TABLE IF EXISTS maintenance_history;
+DROP TABLE IF EXISTS scheduled_maintenance;
+DROP TABLE IF EXISTS maintenance_alerts;
+DROP TABLE IF EXISTS charger_health_scores;
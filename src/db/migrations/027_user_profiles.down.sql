@@ -0,0 +1,2 @@
+DROP TABLE IF EXISTS user_activity;
+DROP TABLE IF EXISTS user_profiles;
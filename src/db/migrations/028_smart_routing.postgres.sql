@@ -0,0 +1,27 @@
+-- Postgres variant of 028_smart_routing.sql
+-- Migration: Smart Routing & Recommendations
+-- Created: 2026-01-19
+
+-- Agent routing rules
+CREATE TABLE IF NOT EXISTS routing_rules (
+  id SERIAL PRIMARY KEY,
+  rule_name TEXT NOT NULL UNIQUE,
+  conditions TEXT NOT NULL,                -- JSON: routing conditions
+  target_agent TEXT NOT NULL,
+  priority INTEGER DEFAULT 0,
+  is_active BOOLEAN DEFAULT TRUE
+);
+
+-- Recommendations
+CREATE TABLE IF NOT EXISTS user_recommendations (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  recommendation_type TEXT NOT NULL,
+  recommendation_data TEXT NOT NULL,
+  score REAL,
+  shown_at TIMESTAMP,
+  clicked BOOLEAN DEFAULT FALSE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_recommendations_user ON user_recommendations(user_id, created_at DESC);
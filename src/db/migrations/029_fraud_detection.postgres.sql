@@ -0,0 +1,32 @@
+-- Postgres variant of 029_fraud_detection.sql
+-- As in the SQLite variant, fraud_detection_events already exists from 016,
+-- so the shipped indexes on it are left out; see 051_schema_repairs.
+-- Migration: Fraud Detection & Security
+-- Created: 2026-01-19
+
+-- Fraud detection events
+CREATE TABLE IF NOT EXISTS fraud_detection_events (
+  id SERIAL PRIMARY KEY,
+  event_id TEXT NOT NULL UNIQUE,
+  user_id TEXT,
+  event_type TEXT NOT NULL,
+  risk_score REAL NOT NULL,                -- 0-1
+  risk_factors TEXT,                       -- JSON
+  status TEXT DEFAULT 'pending',
+  reviewed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Security audit log
+CREATE TABLE IF NOT EXISTS security_audit_log (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT,
+  action TEXT NOT NULL,
+  resource TEXT,
+  ip_address TEXT,
+  user_agent TEXT,
+  result TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_security_audit_user ON security_audit_log(user_id, created_at DESC);
@@ -0,0 +1,34 @@
+-- SQLite variant of 029_fraud_detection.sql
+-- fraud_detection_events already exists from 016 (the predictive model
+-- detections), so the table below is skipped and the shipped indexes on its
+-- user_id / risk_score columns can't be created; this is the same script
+-- without them. 051_schema_repairs adds fraud_risk_events for these events.
+-- Migration: Fraud Detection & Security
+-- Created: 2026-01-19
+
+-- Fraud detection events
+CREATE TABLE IF NOT EXISTS fraud_detection_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  event_id TEXT NOT NULL UNIQUE,
+  user_id TEXT,
+  event_type TEXT NOT NULL,
+  risk_score REAL NOT NULL,                -- 0-1
+  risk_factors TEXT,                       -- JSON
+  status TEXT DEFAULT 'pending',
+  reviewed_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Security audit log
+CREATE TABLE IF NOT EXISTS security_audit_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT,
+  action TEXT NOT NULL,
+  resource TEXT,
+  ip_address TEXT,
+  user_agent TEXT,
+  result TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_security_audit_user ON security_audit_log(user_id, created_at DESC);
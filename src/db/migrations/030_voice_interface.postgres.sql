@@ -0,0 +1,19 @@
+-- Postgres variant of 030_voice_interface.sql
+-- Migration: Voice Interface Integration
+-- Created: 2026-01-19
+
+-- Voice commands
+CREATE TABLE IF NOT EXISTS voice_commands (
+  id SERIAL PRIMARY KEY,
+  command_id TEXT NOT NULL UNIQUE,
+  user_id TEXT,
+  platform TEXT NOT NULL,                  -- alexa, google_assistant
+  command_text TEXT NOT NULL,
+  intent TEXT,
+  response_text TEXT,
+  success BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_voice_commands_user ON voice_commands(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_voice_commands_platform ON voice_commands(platform, created_at DESC);
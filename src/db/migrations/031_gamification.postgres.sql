@@ -0,0 +1,44 @@
+-- Postgres variant of 031_gamification.sql
+-- Migration: Gamification & Rewards
+-- Created: 2026-01-19
+
+-- User points
+CREATE TABLE IF NOT EXISTS user_points (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  points INTEGER DEFAULT 0,
+  level INTEGER DEFAULT 1,
+  badges TEXT,                             -- JSON: array of badges
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (user_id)
+);
+
+-- Points transactions
+CREATE TABLE IF NOT EXISTS points_transactions (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  points INTEGER NOT NULL,
+  transaction_type TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Achievements
+CREATE TABLE IF NOT EXISTS achievements (
+  id SERIAL PRIMARY KEY,
+  achievement_id TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  description TEXT,
+  points_reward INTEGER,
+  icon TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_points_user ON user_points(user_id);
+CREATE INDEX IF NOT EXISTS idx_points_transactions_user ON points_transactions(user_id, created_at DESC);
+
+-- Seed achievements
+INSERT INTO achievements (achievement_id, name, description, points_reward) VALUES
+  ('first_charge', 'First Charge', 'Complete your first charging session', 100),
+  ('eco_warrior', 'Eco Warrior', 'Charge 50 times', 500),
+  ('helper', 'Helper', 'Provide helpful feedback 10 times', 200)
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS kpi_metrics;
+DROP TABLE IF EXISTS bi_report_executions;
+DROP TABLE IF EXISTS bi_reports;
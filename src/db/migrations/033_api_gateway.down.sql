@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS api_analytics_daily;
+DROP TABLE IF EXISTS api_requests_log;
+DROP TABLE IF EXISTS api_partners;
@@ -0,0 +1,29 @@
+-- Postgres variant of 034_charge_failure_outreach.sql
+-- Migration: Proactive Charge Failure Outreach
+-- Created: 2026-01-22
+
+-- One row per failed session / faulted connector we reached out about
+CREATE TABLE IF NOT EXISTS charge_failure_outreach (
+  id SERIAL PRIMARY KEY,
+  outreach_id TEXT NOT NULL UNIQUE,
+  outreach_key TEXT NOT NULL UNIQUE,       -- session id, or station/connector/event for faults
+  trigger_event TEXT NOT NULL,             -- session.failed, chargepoint.faulted
+  user_id TEXT NOT NULL,
+  owner_source TEXT NOT NULL,              -- event, backend_session, rfid, user_profile
+  station_id TEXT NOT NULL,
+  connector_id INTEGER,
+  session_id TEXT,
+  id_tag TEXT,
+  reason TEXT,
+  language TEXT,
+  channel TEXT,
+  thread_id TEXT,
+  status TEXT DEFAULT 'pending',           -- pending, sent, failed, restarted, redirected
+  resolution TEXT,                         -- JSON: result of the action the driver picked
+  error TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_charge_failure_outreach_user ON charge_failure_outreach(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_charge_failure_outreach_station ON charge_failure_outreach(station_id, created_at DESC);
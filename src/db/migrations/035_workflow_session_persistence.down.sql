@@ -0,0 +1,7 @@
+DROP INDEX IF EXISTS idx_workflow_sessions_active_updated;
+DROP INDEX IF EXISTS idx_workflow_sessions_user_active;
+DROP INDEX IF EXISTS idx_workflow_sessions_resume_code;
+
+ALTER TABLE workflow_sessions DROP COLUMN resume_code;
+ALTER TABLE workflow_sessions DROP COLUMN channel;
+ALTER TABLE workflow_sessions DROP COLUMN version;
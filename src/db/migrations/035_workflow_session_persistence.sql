@@ -0,0 +1,19 @@
+-- Workflow Session Persistence
+-- Rehydrate sessions across restarts/workers, optimistic concurrency and cross-channel resume
+
+ALTER TABLE workflow_sessions ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE workflow_sessions ADD COLUMN IF NOT EXISTS channel TEXT;
+ALTER TABLE workflow_sessions ADD COLUMN IF NOT EXISTS resume_code TEXT;
+
+-- Resume codes are only needed while a session is active
+CREATE UNIQUE INDEX IF NOT EXISTS idx_workflow_sessions_resume_code
+  ON workflow_sessions(resume_code) WHERE status = 'active';
+
+-- Active-session lookup by user and the expiry sweep
+CREATE INDEX IF NOT EXISTS idx_workflow_sessions_user_active
+  ON workflow_sessions(user_id, updated_at DESC) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_workflow_sessions_active_updated
+  ON workflow_sessions(updated_at) WHERE status = 'active';
+
+COMMENT ON COLUMN workflow_sessions.version IS 'Optimistic concurrency token, incremented on every update';
+COMMENT ON COLUMN workflow_sessions.resume_code IS 'Short code for resuming the session from another channel';
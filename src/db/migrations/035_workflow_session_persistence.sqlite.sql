@@ -0,0 +1,17 @@
+-- SQLite variant of 035_workflow_session_persistence.sql
+-- Workflow Session Persistence
+-- Rehydrate sessions across restarts/workers, optimistic concurrency and cross-channel resume
+
+ALTER TABLE workflow_sessions ADD COLUMN version INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE workflow_sessions ADD COLUMN channel TEXT;
+ALTER TABLE workflow_sessions ADD COLUMN resume_code TEXT;
+
+-- Resume codes are only needed while a session is active
+CREATE UNIQUE INDEX IF NOT EXISTS idx_workflow_sessions_resume_code
+  ON workflow_sessions(resume_code) WHERE status = 'active';
+
+-- Active-session lookup by user and the expiry sweep
+CREATE INDEX IF NOT EXISTS idx_workflow_sessions_user_active
+  ON workflow_sessions(user_id, updated_at DESC) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_workflow_sessions_active_updated
+  ON workflow_sessions(updated_at) WHERE status = 'active';
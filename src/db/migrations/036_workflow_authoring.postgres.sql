@@ -0,0 +1,26 @@
+-- Postgres variant of 036_workflow_authoring.sql
+-- Migration: Workflow Authoring
+-- Created: 2026-01-23
+-- Scope: Versioned, editable diagnostic workflows (draft → published → archived)
+--
+-- workflow_definitions keeps one row per workflow with the published version;
+-- every edit is a row here. Published definitions override the built-in
+-- workflows in src/workflows/diagnosticFlows.ts with the same id.
+
+CREATE TABLE IF NOT EXISTS workflow_definition_versions (
+  id SERIAL PRIMARY KEY,
+  workflow_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published', 'archived')),
+  definition TEXT NOT NULL,                -- JSON: DiagnosticWorkflow
+  validation TEXT,                         -- JSON: last validation result
+  change_note TEXT,
+  created_by TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  published_by TEXT,
+  published_at TIMESTAMP,
+  UNIQUE (workflow_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_definition_versions_status ON workflow_definition_versions(workflow_id, status);
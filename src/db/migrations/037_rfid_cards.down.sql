@@ -0,0 +1,2 @@
+DROP TABLE IF EXISTS rfid_usage_log;
+DROP TABLE IF EXISTS rfid_cards;
@@ -0,0 +1,40 @@
+-- Postgres variant of 037_rfid_cards.sql
+-- RFID Cards
+-- Cards/tags used for charging authorization and their usage log
+-- (previously created by routes/rfid.ts at import time)
+
+CREATE TABLE IF NOT EXISTS rfid_cards (
+  id SERIAL PRIMARY KEY,
+  card_id TEXT UNIQUE NOT NULL,
+  card_label TEXT,
+  user_id INTEGER,
+  user_email TEXT,
+  user_name TEXT,
+  status TEXT DEFAULT 'active' CHECK (status IN ('active', 'blocked', 'expired', 'lost')),
+  card_type TEXT DEFAULT 'standard' CHECK (card_type IN ('standard', 'premium', 'fleet', 'guest')),
+  issued_date TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  expiry_date TIMESTAMP,
+  last_used TIMESTAMP,
+  usage_count INTEGER DEFAULT 0,
+  notes TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS rfid_usage_log (
+  id SERIAL PRIMARY KEY,
+  card_id TEXT NOT NULL,
+  charge_point_id INTEGER,
+  evse_id INTEGER,
+  session_id TEXT,
+  action TEXT NOT NULL CHECK (action IN ('authorize', 'start_charge', 'stop_charge', 'denied')),
+  success BOOLEAN DEFAULT TRUE,
+  error_message TEXT,
+  timestamp TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (card_id) REFERENCES rfid_cards(card_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rfid_cards_status ON rfid_cards(status);
+CREATE INDEX IF NOT EXISTS idx_rfid_cards_user_id ON rfid_cards(user_id);
+CREATE INDEX IF NOT EXISTS idx_rfid_usage_log_card_id ON rfid_usage_log(card_id);
+CREATE INDEX IF NOT EXISTS idx_rfid_usage_log_timestamp ON rfid_usage_log(timestamp);
@@ -0,0 +1 @@
+DROP TABLE IF EXISTS ampeco_webhook_events;
@@ -0,0 +1,35 @@
+-- Postgres variant of 038_ampeco_webhook_events.sql
+-- Ampeco Webhook Events
+-- Received webhook events with idempotency keys and per-event processing status
+-- (previously created by routes/webhooks.ts at import time, which also added
+-- idempotency_key/status/attempts/action/last_error to older tables)
+
+CREATE TABLE IF NOT EXISTS ampeco_webhook_events (
+  id SERIAL PRIMARY KEY,
+  event_type TEXT NOT NULL,
+  charge_point_id INTEGER,
+  evse_id INTEGER,
+  session_id TEXT,
+  payload JSONB NOT NULL,
+  received_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  processed BOOLEAN DEFAULT FALSE,
+  processed_at TIMESTAMP,
+  idempotency_key TEXT,
+  status TEXT NOT NULL DEFAULT 'received',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  action TEXT,
+  last_error TEXT
+);
+
+-- Columns missing from tables created before they were added
+ALTER TABLE ampeco_webhook_events ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+ALTER TABLE ampeco_webhook_events ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'received';
+ALTER TABLE ampeco_webhook_events ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE ampeco_webhook_events ADD COLUMN IF NOT EXISTS action TEXT;
+ALTER TABLE ampeco_webhook_events ADD COLUMN IF NOT EXISTS last_error TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_type ON ampeco_webhook_events(event_type);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_processed ON ampeco_webhook_events(processed);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_received_at ON ampeco_webhook_events(received_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_status ON ampeco_webhook_events(status);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_events_idempotency ON ampeco_webhook_events(idempotency_key);
@@ -0,0 +1,27 @@
+-- Ampeco Webhook Events
+-- Received webhook events with idempotency keys and per-event processing status
+-- (previously created by routes/webhooks.ts at import time, which also added
+-- idempotency_key/status/attempts/action/last_error to older tables)
+
+CREATE TABLE IF NOT EXISTS ampeco_webhook_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  event_type TEXT NOT NULL,
+  charge_point_id INTEGER,
+  evse_id INTEGER,
+  session_id TEXT,
+  payload TEXT NOT NULL,
+  received_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  processed BOOLEAN DEFAULT 0,
+  processed_at TIMESTAMP,
+  idempotency_key TEXT,
+  status TEXT NOT NULL DEFAULT 'received',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  action TEXT,
+  last_error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_type ON ampeco_webhook_events(event_type);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_processed ON ampeco_webhook_events(processed);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_received_at ON ampeco_webhook_events(received_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_status ON ampeco_webhook_events(status);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_events_idempotency ON ampeco_webhook_events(idempotency_key);
@@ -0,0 +1,2 @@
+DROP INDEX IF EXISTS idx_security_audit_action;
+DROP TABLE IF EXISTS user_roles;
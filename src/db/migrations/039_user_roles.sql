@@ -0,0 +1,13 @@
+-- User Roles
+-- Staff roles that unlock agent tools beyond the driver set
+-- (users without a row are drivers; see mastra/toolPermissions.ts)
+
+CREATE TABLE IF NOT EXISTS user_roles (
+  user_id TEXT PRIMARY KEY,
+  role TEXT NOT NULL CHECK (role IN ('driver', 'support_agent', 'operator', 'admin')),
+  granted_by TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_security_audit_action ON security_audit_log(action, created_at DESC);
@@ -0,0 +1,28 @@
+-- Station Command Actions
+-- Reset / stop / unlock commands the agent proposed and the user confirmed
+-- (or rejected). Doubles as the audit trail of who approved what and as the
+-- source for per-station cooldowns.
+
+CREATE TABLE IF NOT EXISTS station_command_actions (
+  action_id TEXT PRIMARY KEY,
+  command TEXT NOT NULL CHECK (command IN ('reset', 'stop', 'unlock')),
+  station_id TEXT NOT NULL,
+  params TEXT,                             -- JSON: resetType, connectorId, reason
+  summary TEXT NOT NULL,                   -- Plain-language description shown to the user
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'executed', 'failed', 'rejected', 'expired')),
+  requested_by TEXT,                       -- User the agent was talking to
+  thread_id TEXT,
+  channel TEXT,
+  decided_by TEXT,                         -- Who confirmed or rejected
+  decided_via TEXT,                        -- discord, web, workflow
+  decided_at TIMESTAMP,
+  executed_at TIMESTAMP,
+  result TEXT,                             -- JSON: backend response
+  error TEXT,
+  expires_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_station_command_actions_station ON station_command_actions(station_id, command, executed_at);
+CREATE INDEX IF NOT EXISTS idx_station_command_actions_thread ON station_command_actions(thread_id, status);
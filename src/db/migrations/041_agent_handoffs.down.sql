@@ -0,0 +1,5 @@
+DROP TABLE IF EXISTS agent_handoffs;
+
+DELETE FROM routing_rules WHERE rule_name IN (
+  'staff-analytics', 'billing-keywords', 'billing-intent', 'account-intent', 'vehicle-intent', 'charging-intent', 'default'
+);
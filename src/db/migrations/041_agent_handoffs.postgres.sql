@@ -0,0 +1,34 @@
+-- Postgres variant of 041_agent_handoffs.sql
+-- Agent Handoffs
+-- The triage agent routes each turn to a specialist agent (charging, billing,
+-- account, vehicle, operations) using routing_rules. Every change of agent
+-- in a conversation is logged here.
+
+CREATE TABLE IF NOT EXISTS agent_handoffs (
+  id SERIAL PRIMARY KEY,
+  thread_id TEXT NOT NULL,
+  user_id TEXT,
+  channel TEXT,
+  from_agent TEXT,                         -- NULL on the first turn of a conversation
+  to_agent TEXT NOT NULL,
+  intent TEXT,                             -- Triage classification
+  confidence REAL,
+  rule_name TEXT,                          -- routing_rules.rule_name that matched (NULL = intent default)
+  reason TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_handoffs_thread ON agent_handoffs(thread_id, created_at);
+
+-- Default routing rules. conditions (all given fields must match):
+--   intents: triage intents, minConfidence: 0-1, keywords: any substring of the message,
+--   minRole: lowest caller role, channels / languages: allowed values
+INSERT INTO routing_rules (rule_name, conditions, target_agent, priority) VALUES
+  ('staff-analytics', '{"intents":["operations"],"minRole":"support_agent"}', 'operations', 100),
+  ('billing-keywords', '{"keywords":["invoice","refund","charged twice","receipt","חשבונית","החזר","חיוב כפול","קבלה"]}', 'billing', 60),
+  ('billing-intent', '{"intents":["billing"],"minConfidence":0.5}', 'billing', 50),
+  ('account-intent', '{"intents":["account"],"minConfidence":0.5}', 'account', 50),
+  ('vehicle-intent', '{"intents":["vehicle"],"minConfidence":0.5}', 'vehicle', 50),
+  ('charging-intent', '{"intents":["charging"]}', 'charging', 40),
+  ('default', '{}', 'charging', 0)
+ON CONFLICT (rule_name) DO NOTHING;
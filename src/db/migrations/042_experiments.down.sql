@@ -0,0 +1,6 @@
+DROP TABLE IF EXISTS experiment_outcomes;
+DROP TABLE IF EXISTS experiment_exposures;
+DROP TABLE IF EXISTS experiment_assignments;
+
+ALTER TABLE ab_test_experiments DROP COLUMN target_agents;
+ALTER TABLE ab_test_experiments DROP COLUMN assignment_unit;
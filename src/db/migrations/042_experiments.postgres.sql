@@ -0,0 +1,53 @@
+-- Postgres variant of 042_experiments.sql
+-- Experiments
+-- A/B experiments on the specialist agents. Each variant of an
+-- ab_test_experiments row can change the system prompt, model, tool subset
+-- and temperature. Users (or threads) are assigned to a variant once and
+-- keep it; every conversation that ran on a variant is an exposure, and the
+-- outcomes of those conversations (quality score, resolution, escalation,
+-- CSAT) are collected per exposure for the summary statistics.
+
+ALTER TABLE ab_test_experiments ADD COLUMN IF NOT EXISTS assignment_unit VARCHAR(20) DEFAULT 'user'; -- user, thread
+ALTER TABLE ab_test_experiments ADD COLUMN IF NOT EXISTS target_agents JSONB; -- JSON array of specialist ids, NULL = all
+
+-- Sticky assignment: one variant per experiment and user / thread
+CREATE TABLE IF NOT EXISTS experiment_assignments (
+  id SERIAL PRIMARY KEY,
+  experiment_id VARCHAR(100) NOT NULL,
+  unit_id TEXT NOT NULL,                   -- User or thread id (see assignment_unit)
+  variant_id VARCHAR(50) NOT NULL,
+  assigned_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (experiment_id, unit_id)
+);
+
+-- Conversations that ran on a variant
+CREATE TABLE IF NOT EXISTS experiment_exposures (
+  id SERIAL PRIMARY KEY,
+  experiment_id VARCHAR(100) NOT NULL,
+  variant_id VARCHAR(50) NOT NULL,
+  thread_id TEXT NOT NULL,
+  user_id TEXT,
+  channel TEXT,
+  agent_id TEXT,                           -- Specialist of the first exposed turn
+  turns INTEGER DEFAULT 1,
+  first_exposed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  last_exposed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (experiment_id, thread_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_experiment_exposures_thread ON experiment_exposures(thread_id);
+CREATE INDEX IF NOT EXISTS idx_experiment_exposures_user ON experiment_exposures(user_id, last_exposed_at);
+
+-- One value per exposed conversation and metric (overall_score, resolved, escalated, csat)
+CREATE TABLE IF NOT EXISTS experiment_outcomes (
+  id SERIAL PRIMARY KEY,
+  experiment_id VARCHAR(100) NOT NULL,
+  variant_id VARCHAR(50) NOT NULL,
+  thread_id TEXT NOT NULL,
+  metric VARCHAR(50) NOT NULL,
+  value REAL NOT NULL,
+  recorded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (experiment_id, thread_id, metric)
+);
+
+CREATE INDEX IF NOT EXISTS idx_experiment_outcomes_variant ON experiment_outcomes(experiment_id, variant_id, metric);
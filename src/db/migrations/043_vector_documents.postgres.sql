@@ -0,0 +1,25 @@
+-- Postgres variant of 043_vector_documents.sql
+-- Vector Documents
+-- Local vector store backend (VECTOR_STORE_BACKEND=local): knowledge base
+-- chunks with their embeddings, searched by cosine similarity in the app.
+-- language, category and manufacturer are copied out of metadata so they
+-- can be filtered in SQL.
+
+CREATE TABLE IF NOT EXISTS vector_documents (
+  namespace TEXT NOT NULL,
+  id TEXT NOT NULL,
+  content TEXT NOT NULL,
+  metadata JSONB,
+  language TEXT,
+  category TEXT,
+  manufacturer TEXT,
+  embedding TEXT NOT NULL,                 -- JSON array of floats
+  dimensions INTEGER NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (namespace, id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vector_documents_language ON vector_documents(namespace, language);
+CREATE INDEX IF NOT EXISTS idx_vector_documents_category ON vector_documents(namespace, category);
+CREATE INDEX IF NOT EXISTS idx_vector_documents_manufacturer ON vector_documents(namespace, manufacturer);
@@ -0,0 +1,6 @@
+DROP TABLE IF EXISTS desk_sessions;
+DROP TABLE IF EXISTS conversation_transcript;
+
+DROP INDEX IF EXISTS idx_escalation_thread;
+ALTER TABLE escalation_tickets DROP COLUMN channel;
+ALTER TABLE escalation_tickets DROP COLUMN thread_id;
@@ -0,0 +1,46 @@
+-- Agent Desk
+-- Human agents pick up escalated conversations, read the transcript, reply
+-- on the driver's channel and hand the conversation back to the bot.
+-- conversation_transcript logs every turn of every conversation (driver,
+-- bot, human agent, internal notes, takeover events). desk_sessions records
+-- who owns a thread; the bot stays silent on a thread with an active session.
+
+ALTER TABLE escalation_tickets ADD COLUMN thread_id TEXT; -- Conversation the ticket was raised in
+ALTER TABLE escalation_tickets ADD COLUMN channel TEXT;   -- web, discord
+
+CREATE INDEX IF NOT EXISTS idx_escalation_thread ON escalation_tickets(thread_id);
+
+CREATE TABLE IF NOT EXISTS conversation_transcript (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  thread_id TEXT NOT NULL,
+  channel TEXT,                            -- web, discord
+  channel_id TEXT,                         -- Discord channel replies go to
+  user_id TEXT,                            -- The driver
+  role VARCHAR(20) NOT NULL,               -- user, bot, agent, note, system
+  author TEXT,                             -- Specialist id (bot) or agent name (agent, note)
+  content TEXT NOT NULL,
+  internal BOOLEAN DEFAULT 0,              -- Notes and events the driver never sees
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_transcript_thread ON conversation_transcript(thread_id, id);
+CREATE INDEX IF NOT EXISTS idx_conversation_transcript_user ON conversation_transcript(channel, channel_id, user_id);
+
+CREATE TABLE IF NOT EXISTS desk_sessions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  thread_id TEXT NOT NULL,
+  ticket_id VARCHAR(100),                  -- escalation_tickets.ticket_id, NULL for a takeover without ticket
+  agent TEXT NOT NULL,                     -- Human agent who owns the thread
+  channel TEXT,
+  channel_id TEXT,
+  user_id TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'active', -- active, released
+  bot_agent TEXT,                          -- Specialist that had the thread, gets it back on release
+  context_pending BOOLEAN DEFAULT 0,       -- The bot hasn't seen the human part of the conversation yet
+  started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  released_at TIMESTAMP,
+  released_by TEXT
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_desk_sessions_active ON desk_sessions(thread_id) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_desk_sessions_agent ON desk_sessions(agent, status);
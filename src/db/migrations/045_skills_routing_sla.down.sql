@@ -0,0 +1,10 @@
+DROP TABLE IF EXISTS sla_events;
+DROP TABLE IF EXISTS sla_policies;
+DROP TABLE IF EXISTS support_agents;
+
+DROP INDEX IF EXISTS idx_escalation_assigned;
+ALTER TABLE escalation_tickets DROP COLUMN reescalation_count;
+ALTER TABLE escalation_tickets DROP COLUMN first_response_at;
+ALTER TABLE escalation_tickets DROP COLUMN resolution_due_at;
+ALTER TABLE escalation_tickets DROP COLUMN first_response_due_at;
+ALTER TABLE escalation_tickets DROP COLUMN language;
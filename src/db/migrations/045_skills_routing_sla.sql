@@ -0,0 +1,58 @@
+-- Skills-Based Routing and SLAs
+-- New escalation tickets are assigned to a support agent who speaks the
+-- driver's language, has the skill for the issue type, is on shift and has
+-- the fewest open tickets. sla_policies sets the first-response and
+-- resolution clocks per urgency; the SLA monitor warns at warn_at_percent
+-- of a clock and re-escalates (higher urgency, another agent) at
+-- reescalate_at_percent. sla_events logs each warning, re-escalation and
+-- breach once per ticket and clock.
+
+CREATE TABLE IF NOT EXISTS support_agents (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  agent TEXT NOT NULL UNIQUE,              -- Name used in the agent desk and escalation_tickets.assigned_to
+  display_name TEXT,
+  languages TEXT NOT NULL,                 -- JSON array: he, en, ru, ar
+  skills TEXT NOT NULL,                    -- JSON array of issue types: technical, billing, account, general
+  shifts TEXT,                             -- JSON array of { days: [0-6, 0 = Sunday], start: "HH:MM", end: "HH:MM" }, NULL = always on
+  timezone TEXT DEFAULT 'Asia/Jerusalem',  -- Time zone of the shift times
+  max_open_tickets INTEGER DEFAULT 5,      -- No new tickets beyond this many assigned / in progress
+  active BOOLEAN DEFAULT 1,
+  last_assigned_at TIMESTAMP,              -- Tie-break between agents with the same load
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS sla_policies (
+  urgency_level VARCHAR(20) PRIMARY KEY,   -- low, medium, high, critical
+  first_response_minutes INTEGER NOT NULL,
+  resolution_minutes INTEGER NOT NULL,
+  warn_at_percent INTEGER DEFAULT 75,
+  reescalate_at_percent INTEGER DEFAULT 90,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE escalation_tickets ADD COLUMN language VARCHAR(5);               -- Driver's language, for routing
+ALTER TABLE escalation_tickets ADD COLUMN first_response_due_at TIMESTAMP;
+ALTER TABLE escalation_tickets ADD COLUMN resolution_due_at TIMESTAMP;
+ALTER TABLE escalation_tickets ADD COLUMN first_response_at TIMESTAMP;       -- First reply of a human agent
+ALTER TABLE escalation_tickets ADD COLUMN reescalation_count INTEGER DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_escalation_assigned ON escalation_tickets(assigned_to, status);
+
+CREATE TABLE IF NOT EXISTS sla_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  ticket_id INTEGER REFERENCES escalation_tickets(id) ON DELETE CASCADE,
+  clock VARCHAR(20) NOT NULL,              -- first_response, resolution
+  event VARCHAR(20) NOT NULL,              -- warning, reescalated, breached
+  urgency_level VARCHAR(20),               -- Urgency when it happened
+  assigned_to TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (ticket_id, clock, event)
+);
+
+INSERT INTO sla_policies (urgency_level, first_response_minutes, resolution_minutes) VALUES
+  ('critical', 15, 240),
+  ('high', 60, 480),
+  ('medium', 240, 1440),
+  ('low', 1440, 4320)
+ON CONFLICT (urgency_level) DO NOTHING;
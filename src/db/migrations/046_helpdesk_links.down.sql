@@ -0,0 +1 @@
+DROP TABLE IF EXISTS helpdesk_links;
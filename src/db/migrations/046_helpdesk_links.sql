@@ -0,0 +1,25 @@
+-- Helpdesk Sync
+-- Escalation tickets are exported to the external helpdesk the support team
+-- works in (HELPDESK_PROVIDER: Zendesk, Freshdesk, Jira Service Management).
+-- helpdesk_links maps each ticket to the helpdesk's ticket, keeps the last
+-- status seen there (from webhooks or polling) and the export state, so a
+-- failed export is retried by the sync job.
+
+CREATE TABLE IF NOT EXISTS helpdesk_links (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  ticket_id INTEGER NOT NULL REFERENCES escalation_tickets(id) ON DELETE CASCADE,
+  provider VARCHAR(20) NOT NULL,           -- zendesk, freshdesk, jira
+  external_id TEXT,                        -- Helpdesk ticket id / issue key, NULL until exported
+  external_url TEXT,
+  external_status VARCHAR(20),             -- open, pending, in_progress, solved, closed
+  sync_status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending, exported, failed
+  attempts INTEGER DEFAULT 0,              -- Export attempts
+  last_error TEXT,
+  last_synced_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (ticket_id, provider)
+);
+
+CREATE INDEX IF NOT EXISTS idx_helpdesk_links_external ON helpdesk_links(provider, external_id);
+CREATE INDEX IF NOT EXISTS idx_helpdesk_links_sync ON helpdesk_links(sync_status);
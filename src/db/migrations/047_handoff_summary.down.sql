@@ -0,0 +1 @@
+ALTER TABLE escalation_tickets DROP COLUMN handoff_summary;
@@ -0,0 +1,9 @@
+-- Postgres variant of 047_handoff_summary.sql
+-- Handoff Summaries
+-- Structured summary for the human agent taking over an escalation: problem,
+-- station / connector / charging session ids, vehicle, steps already tried
+-- (diagnostic workflow path and tool results), sentiment arc and suggested
+-- next action, in the desk's working language. conversation_summary keeps
+-- the rendered text.
+
+ALTER TABLE escalation_tickets ADD COLUMN IF NOT EXISTS handoff_summary JSONB; -- See services/handoffSummary
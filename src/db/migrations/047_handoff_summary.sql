@@ -0,0 +1,8 @@
+-- Handoff Summaries
+-- Structured summary for the human agent taking over an escalation: problem,
+-- station / connector / charging session ids, vehicle, steps already tried
+-- (diagnostic workflow path and tool results), sentiment arc and suggested
+-- next action, in the desk's working language. conversation_summary keeps
+-- the rendered text.
+
+ALTER TABLE escalation_tickets ADD COLUMN handoff_summary TEXT; -- JSON, see services/handoffSummary
@@ -0,0 +1,2 @@
+DROP TABLE IF EXISTS csat_analytics_daily;
+DROP TABLE IF EXISTS csat_surveys;
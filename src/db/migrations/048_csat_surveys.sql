@@ -0,0 +1,50 @@
+-- CSAT Surveys
+-- After a conversation is resolved (escalation ticket resolved, driver ended
+-- the chat) or goes idle, the driver is asked for a 1-5 rating and an
+-- optional comment on their channel (Discord buttons, web chat card).
+-- csat_surveys keeps one survey per conversation, linked to the ticket when
+-- there is one; 'skipped' rows record conversations not surveyed because
+-- of the per-user fatigue limit. csat_analytics_daily sums them up per day
+-- and channel.
+
+CREATE TABLE IF NOT EXISTS csat_surveys (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  survey_id VARCHAR(64) UNIQUE NOT NULL,
+  thread_id TEXT NOT NULL,
+  ticket_id VARCHAR(100),                  -- escalation_tickets.ticket_id, when the conversation was escalated
+  user_id TEXT,                            -- The driver
+  channel VARCHAR(20) NOT NULL,            -- discord, web
+  channel_id TEXT,                         -- Discord channel the survey was posted in
+  message_id TEXT,                         -- Discord message with the rating buttons
+  language VARCHAR(5) NOT NULL,
+  trigger_type VARCHAR(20) NOT NULL,       -- resolved, idle
+  status VARCHAR(20) NOT NULL DEFAULT 'sent', -- sent, answered, expired, skipped, failed
+  rating INTEGER,                          -- 1-5
+  comment TEXT,
+  error TEXT,                              -- Why it was skipped or failed
+  expires_at TIMESTAMP,
+  answered_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (thread_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_csat_surveys_user ON csat_surveys(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_csat_surveys_status ON csat_surveys(status, expires_at);
+CREATE INDEX IF NOT EXISTS idx_csat_surveys_ticket ON csat_surveys(ticket_id);
+
+CREATE TABLE IF NOT EXISTS csat_analytics_daily (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  date DATE NOT NULL,
+  channel VARCHAR(20) NOT NULL,
+  surveys_sent INTEGER DEFAULT 0,
+  surveys_skipped INTEGER DEFAULT 0,       -- Fatigue limit reached
+  responses INTEGER DEFAULT 0,
+  rating_sum INTEGER DEFAULT 0,            -- Average = rating_sum / responses
+  rating_1 INTEGER DEFAULT 0,
+  rating_2 INTEGER DEFAULT 0,
+  rating_3 INTEGER DEFAULT 0,
+  rating_4 INTEGER DEFAULT 0,
+  rating_5 INTEGER DEFAULT 0,
+  comments INTEGER DEFAULT 0,
+  UNIQUE (date, channel)
+);
@@ -0,0 +1 @@
+ALTER TABLE ampeco_webhook_events DROP COLUMN processing_started_at;
@@ -0,0 +1,6 @@
+-- Webhook Processing Lease
+-- When an Ampeco webhook event was claimed for processing. A row left in
+-- 'processing' past the lease (the process died mid-handler) can be claimed
+-- again by an Ampeco retry or a replay; see routes/webhooks.
+
+ALTER TABLE ampeco_webhook_events ADD COLUMN processing_started_at TIMESTAMP;
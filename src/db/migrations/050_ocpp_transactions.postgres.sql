@@ -0,0 +1,20 @@
+-- Postgres variant of 050_ocpp_transactions.sql
+-- OCPP Transactions
+-- OCPP 1.6 transactions started by directly connected chargers. The row id is
+-- the transactionId handed to the charger, so ids keep increasing across
+-- restarts and a StopTransaction after a restart still finds its start.
+-- (2.0.1 chargers generate their own transaction ids and are not stored.)
+
+CREATE TABLE IF NOT EXISTS ocpp_transactions (
+  id SERIAL PRIMARY KEY,
+  charge_point_id TEXT NOT NULL,
+  connector_id INTEGER NOT NULL,
+  id_tag TEXT,
+  meter_start INTEGER,
+  meter_stop INTEGER,
+  started_at TIMESTAMP NOT NULL,
+  stopped_at TIMESTAMP,
+  stop_reason TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_ocpp_transactions_charge_point ON ocpp_transactions(charge_point_id, started_at);
@@ -0,0 +1,91 @@
+DROP VIEW IF EXISTS compatible_vehicle_charger_pairs;
+DROP VIEW IF EXISTS processing_queue_status;
+DROP INDEX IF EXISTS idx_escalation_user;
+DROP INDEX IF EXISTS idx_escalation_status;
+DROP INDEX IF EXISTS idx_escalation_urgency;
+DROP INDEX IF EXISTS idx_escalation_created;
+DROP INDEX IF EXISTS idx_escalation_ticket_id;
+DROP INDEX IF EXISTS idx_trigger_ticket;
+DROP INDEX IF EXISTS idx_trigger_type;
+DROP INDEX IF EXISTS idx_analytics_date;
+DROP INDEX IF EXISTS idx_context_user;
+DROP INDEX IF EXISTS idx_context_ticket;
+DROP INDEX IF EXISTS idx_notes_ticket;
+DROP INDEX IF EXISTS idx_notes_created;
+DROP INDEX IF EXISTS idx_quality_user;
+DROP INDEX IF EXISTS idx_quality_score;
+DROP INDEX IF EXISTS idx_quality_grade;
+DROP INDEX IF EXISTS idx_quality_resolved;
+DROP INDEX IF EXISTS idx_quality_low;
+DROP INDEX IF EXISTS idx_quality_experiment;
+DROP INDEX IF EXISTS idx_quality_scored;
+DROP INDEX IF EXISTS idx_experiment_status;
+DROP INDEX IF EXISTS idx_experiment_id;
+DROP INDEX IF EXISTS idx_quality_analytics_date;
+DROP INDEX IF EXISTS idx_pattern_type;
+DROP INDEX IF EXISTS idx_pattern_severity;
+DROP INDEX IF EXISTS idx_tool_name;
+DROP INDEX IF EXISTS idx_tool_date;
+DROP INDEX IF EXISTS idx_user_patterns_user;
+DROP INDEX IF EXISTS idx_user_patterns_fraud;
+DROP INDEX IF EXISTS idx_user_patterns_churn;
+DROP INDEX IF EXISTS idx_predictions_session;
+DROP INDEX IF EXISTS idx_predictions_user;
+DROP INDEX IF EXISTS idx_predictions_escalation;
+DROP INDEX IF EXISTS idx_predictions_fraud;
+DROP INDEX IF EXISTS idx_predictions_date;
+DROP INDEX IF EXISTS idx_anomaly_user;
+DROP INDEX IF EXISTS idx_anomaly_type;
+DROP INDEX IF EXISTS idx_anomaly_severity;
+DROP INDEX IF EXISTS idx_anomaly_status;
+DROP INDEX IF EXISTS idx_anomaly_detected;
+DROP INDEX IF EXISTS idx_fraud_user;
+DROP INDEX IF EXISTS idx_fraud_type;
+DROP INDEX IF EXISTS idx_fraud_status;
+DROP INDEX IF EXISTS idx_fraud_detected;
+DROP INDEX IF EXISTS idx_notification_user;
+DROP INDEX IF EXISTS idx_notification_type;
+DROP INDEX IF EXISTS idx_notification_sent;
+DROP INDEX IF EXISTS idx_notification_delivered;
+DROP INDEX IF EXISTS idx_model_perf_model;
+DROP INDEX IF EXISTS idx_model_perf_date;
+DROP INDEX IF EXISTS idx_media_user;
+DROP INDEX IF EXISTS idx_media_session;
+DROP INDEX IF EXISTS idx_media_type;
+DROP INDEX IF EXISTS idx_media_status;
+DROP INDEX IF EXISTS idx_media_uploaded;
+DROP INDEX IF EXISTS idx_ocr_media;
+DROP INDEX IF EXISTS idx_voice_media;
+DROP INDEX IF EXISTS idx_voice_language;
+DROP INDEX IF EXISTS idx_video_media;
+DROP INDEX IF EXISTS idx_queue_media;
+DROP INDEX IF EXISTS idx_queue_status;
+DROP INDEX IF EXISTS idx_queue_priority;
+DROP INDEX IF EXISTS idx_media_analytics_date;
+DROP INDEX IF EXISTS idx_dashboard_date;
+DROP INDEX IF EXISTS idx_hourly_date_hour;
+DROP INDEX IF EXISTS idx_geo_station;
+DROP INDEX IF EXISTS idx_geo_date;
+DROP INDEX IF EXISTS idx_geo_region;
+DROP INDEX IF EXISTS idx_tool_metrics_name;
+DROP INDEX IF EXISTS idx_tool_metrics_date;
+DROP INDEX IF EXISTS idx_export_status;
+DROP INDEX IF EXISTS idx_export_requested;
+DROP INDEX IF EXISTS idx_sub_user;
+DROP INDEX IF EXISTS idx_sub_active;
+DROP INDEX IF EXISTS idx_ev_make_model;
+DROP INDEX IF EXISTS idx_ev_year;
+DROP INDEX IF EXISTS idx_ev_connector_ac;
+DROP INDEX IF EXISTS idx_ev_connector_dc;
+DROP INDEX IF EXISTS idx_compat_vehicle;
+DROP INDEX IF EXISTS idx_compat_charger;
+DROP INDEX IF EXISTS idx_quirks_make;
+DROP INDEX IF EXISTS idx_quirks_type;
+DROP INDEX IF EXISTS idx_quirks_severity;
+DROP INDEX IF EXISTS idx_compat_check_vehicle;
+DROP INDEX IF EXISTS idx_compat_check_charger;
+DROP INDEX IF EXISTS idx_compat_check_session;
+DROP INDEX IF EXISTS idx_compat_check_date;
+DROP INDEX IF EXISTS idx_rate_cache_vehicle;
+DROP INDEX IF EXISTS idx_rate_cache_expires;
+DROP TABLE IF EXISTS fraud_risk_events;
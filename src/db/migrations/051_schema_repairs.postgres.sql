@@ -0,0 +1,160 @@
+-- Postgres variant of 051_schema_repairs.sql
+-- Schema Repairs
+-- fraud_risk_events for the fraud checks (029 targeted fraud_detection_events,
+-- which 016 already created with other columns), plus what 014-019 couldn't
+-- create on Postgres as shipped: the indexes they declared inside CREATE
+-- TABLE and two views that didn't compile. Both 014 and 017 declared an
+-- idx_analytics_date; 017's is idx_media_analytics_date here.
+
+CREATE TABLE IF NOT EXISTS fraud_risk_events (
+  id SERIAL PRIMARY KEY,
+  event_id TEXT NOT NULL UNIQUE,
+  user_id TEXT,
+  event_type TEXT NOT NULL,
+  risk_score REAL NOT NULL,                -- 0-1
+  risk_factors TEXT,                       -- JSON
+  status TEXT DEFAULT 'pending',
+  reviewed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_fraud_events_user ON fraud_risk_events(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_fraud_events_risk ON fraud_risk_events(risk_score DESC, status);
+
+-- 014 Escalation system
+CREATE INDEX IF NOT EXISTS idx_escalation_user ON escalation_tickets(discord_user_id);
+CREATE INDEX IF NOT EXISTS idx_escalation_status ON escalation_tickets(status);
+CREATE INDEX IF NOT EXISTS idx_escalation_urgency ON escalation_tickets(urgency_level);
+CREATE INDEX IF NOT EXISTS idx_escalation_created ON escalation_tickets(created_at);
+CREATE INDEX IF NOT EXISTS idx_escalation_ticket_id ON escalation_tickets(ticket_id);
+CREATE INDEX IF NOT EXISTS idx_trigger_ticket ON escalation_triggers(ticket_id);
+CREATE INDEX IF NOT EXISTS idx_trigger_type ON escalation_triggers(trigger_type);
+CREATE INDEX IF NOT EXISTS idx_analytics_date ON escalation_analytics(date);
+CREATE INDEX IF NOT EXISTS idx_context_user ON conversation_contexts(discord_user_id);
+CREATE INDEX IF NOT EXISTS idx_context_ticket ON conversation_contexts(ticket_id);
+CREATE INDEX IF NOT EXISTS idx_notes_ticket ON escalation_notes(ticket_id);
+CREATE INDEX IF NOT EXISTS idx_notes_created ON escalation_notes(created_at);
+
+-- 015 Quality scoring
+CREATE INDEX IF NOT EXISTS idx_quality_user ON conversation_quality_scores(discord_user_id);
+CREATE INDEX IF NOT EXISTS idx_quality_score ON conversation_quality_scores(overall_score);
+CREATE INDEX IF NOT EXISTS idx_quality_grade ON conversation_quality_scores(quality_grade);
+CREATE INDEX IF NOT EXISTS idx_quality_resolved ON conversation_quality_scores(issue_resolved);
+CREATE INDEX IF NOT EXISTS idx_quality_low ON conversation_quality_scores(is_low_quality);
+CREATE INDEX IF NOT EXISTS idx_quality_experiment ON conversation_quality_scores(experiment_id);
+CREATE INDEX IF NOT EXISTS idx_quality_scored ON conversation_quality_scores(scored_at);
+CREATE INDEX IF NOT EXISTS idx_experiment_status ON ab_test_experiments(status);
+CREATE INDEX IF NOT EXISTS idx_experiment_id ON ab_test_experiments(experiment_id);
+CREATE INDEX IF NOT EXISTS idx_quality_analytics_date ON quality_analytics(date);
+CREATE INDEX IF NOT EXISTS idx_pattern_type ON quality_patterns(pattern_type);
+CREATE INDEX IF NOT EXISTS idx_pattern_severity ON quality_patterns(severity);
+CREATE INDEX IF NOT EXISTS idx_tool_name ON tool_effectiveness(tool_name);
+CREATE INDEX IF NOT EXISTS idx_tool_date ON tool_effectiveness(date);
+
+-- 016 Predictive detection
+CREATE INDEX IF NOT EXISTS idx_user_patterns_user ON user_behavior_patterns(discord_user_id);
+CREATE INDEX IF NOT EXISTS idx_user_patterns_fraud ON user_behavior_patterns(fraud_risk_score);
+CREATE INDEX IF NOT EXISTS idx_user_patterns_churn ON user_behavior_patterns(churn_risk_score);
+CREATE INDEX IF NOT EXISTS idx_predictions_session ON session_predictions(session_id);
+CREATE INDEX IF NOT EXISTS idx_predictions_user ON session_predictions(discord_user_id);
+CREATE INDEX IF NOT EXISTS idx_predictions_escalation ON session_predictions(predicted_escalation);
+CREATE INDEX IF NOT EXISTS idx_predictions_fraud ON session_predictions(predicted_fraud);
+CREATE INDEX IF NOT EXISTS idx_predictions_date ON session_predictions(predicted_at);
+CREATE INDEX IF NOT EXISTS idx_anomaly_user ON anomaly_events(discord_user_id);
+CREATE INDEX IF NOT EXISTS idx_anomaly_type ON anomaly_events(anomaly_type);
+CREATE INDEX IF NOT EXISTS idx_anomaly_severity ON anomaly_events(severity);
+CREATE INDEX IF NOT EXISTS idx_anomaly_status ON anomaly_events(status);
+CREATE INDEX IF NOT EXISTS idx_anomaly_detected ON anomaly_events(detected_at);
+CREATE INDEX IF NOT EXISTS idx_fraud_user ON fraud_detection_events(discord_user_id);
+CREATE INDEX IF NOT EXISTS idx_fraud_type ON fraud_detection_events(fraud_type);
+CREATE INDEX IF NOT EXISTS idx_fraud_status ON fraud_detection_events(status);
+CREATE INDEX IF NOT EXISTS idx_fraud_detected ON fraud_detection_events(detected_at);
+CREATE INDEX IF NOT EXISTS idx_notification_user ON proactive_notifications(discord_user_id);
+CREATE INDEX IF NOT EXISTS idx_notification_type ON proactive_notifications(notification_type);
+CREATE INDEX IF NOT EXISTS idx_notification_sent ON proactive_notifications(sent_at);
+CREATE INDEX IF NOT EXISTS idx_notification_delivered ON proactive_notifications(delivered);
+CREATE INDEX IF NOT EXISTS idx_model_perf_model ON prediction_model_performance(model_name);
+CREATE INDEX IF NOT EXISTS idx_model_perf_date ON prediction_model_performance(date);
+
+-- 017 Rich media
+CREATE INDEX IF NOT EXISTS idx_media_user ON media_files(discord_user_id);
+CREATE INDEX IF NOT EXISTS idx_media_session ON media_files(session_id);
+CREATE INDEX IF NOT EXISTS idx_media_type ON media_files(file_type);
+CREATE INDEX IF NOT EXISTS idx_media_status ON media_files(processing_status);
+CREATE INDEX IF NOT EXISTS idx_media_uploaded ON media_files(uploaded_at);
+CREATE INDEX IF NOT EXISTS idx_ocr_media ON ocr_results(media_id);
+CREATE INDEX IF NOT EXISTS idx_voice_media ON voice_transcriptions(media_id);
+CREATE INDEX IF NOT EXISTS idx_voice_language ON voice_transcriptions(language);
+CREATE INDEX IF NOT EXISTS idx_video_media ON video_analysis_results(media_id);
+CREATE INDEX IF NOT EXISTS idx_queue_media ON media_processing_queue(media_id);
+CREATE INDEX IF NOT EXISTS idx_queue_status ON media_processing_queue(status);
+CREATE INDEX IF NOT EXISTS idx_queue_priority ON media_processing_queue(priority);
+CREATE INDEX IF NOT EXISTS idx_media_analytics_date ON media_usage_analytics(date);
+
+-- Processing queue status view
+CREATE OR REPLACE VIEW processing_queue_status AS
+SELECT 
+  task_type,
+  status,
+  COUNT(*) as count,
+  AVG(attempts) as avg_attempts,
+  MIN(queued_at) as oldest_queued
+FROM media_processing_queue
+WHERE status IN ('queued', 'processing')
+GROUP BY task_type, status
+ORDER BY MAX(priority) DESC, MIN(queued_at) ASC;
+
+-- 018 Analytics dashboard
+CREATE INDEX IF NOT EXISTS idx_dashboard_date ON dashboard_daily_metrics(date);
+CREATE INDEX IF NOT EXISTS idx_hourly_date_hour ON dashboard_hourly_metrics(date, hour);
+CREATE INDEX IF NOT EXISTS idx_geo_station ON geographic_analytics(station_id);
+CREATE INDEX IF NOT EXISTS idx_geo_date ON geographic_analytics(date);
+CREATE INDEX IF NOT EXISTS idx_geo_region ON geographic_analytics(region);
+CREATE INDEX IF NOT EXISTS idx_tool_metrics_name ON tool_effectiveness_metrics(tool_name);
+CREATE INDEX IF NOT EXISTS idx_tool_metrics_date ON tool_effectiveness_metrics(date);
+CREATE INDEX IF NOT EXISTS idx_export_status ON dashboard_exports(status);
+CREATE INDEX IF NOT EXISTS idx_export_requested ON dashboard_exports(requested_at);
+CREATE INDEX IF NOT EXISTS idx_sub_user ON dashboard_subscriptions(user_id);
+CREATE INDEX IF NOT EXISTS idx_sub_active ON dashboard_subscriptions(is_active);
+
+-- 019 Vehicle compatibility
+CREATE INDEX IF NOT EXISTS idx_ev_make_model ON ev_models(make, model);
+CREATE INDEX IF NOT EXISTS idx_ev_year ON ev_models(year);
+CREATE INDEX IF NOT EXISTS idx_ev_connector_ac ON ev_models(ac_connector_type);
+CREATE INDEX IF NOT EXISTS idx_ev_connector_dc ON ev_models(dc_connector_type);
+CREATE INDEX IF NOT EXISTS idx_compat_vehicle ON connector_compatibility(vehicle_connector);
+CREATE INDEX IF NOT EXISTS idx_compat_charger ON connector_compatibility(charger_connector);
+CREATE INDEX IF NOT EXISTS idx_quirks_make ON oem_charging_quirks(make);
+CREATE INDEX IF NOT EXISTS idx_quirks_type ON oem_charging_quirks(quirk_type);
+CREATE INDEX IF NOT EXISTS idx_quirks_severity ON oem_charging_quirks(severity);
+CREATE INDEX IF NOT EXISTS idx_compat_check_vehicle ON compatibility_checks(vehicle_id);
+CREATE INDEX IF NOT EXISTS idx_compat_check_charger ON compatibility_checks(charger_model_id);
+CREATE INDEX IF NOT EXISTS idx_compat_check_session ON compatibility_checks(session_id);
+CREATE INDEX IF NOT EXISTS idx_compat_check_date ON compatibility_checks(checked_at);
+CREATE INDEX IF NOT EXISTS idx_rate_cache_vehicle ON charging_rate_cache(vehicle_id);
+CREATE INDEX IF NOT EXISTS idx_rate_cache_expires ON charging_rate_cache(expires_at);
+
+-- Compatible vehicle-charger pairs view
+CREATE OR REPLACE VIEW compatible_vehicle_charger_pairs AS
+SELECT 
+  ev.vehicle_id,
+  ev.make,
+  ev.model,
+  ev.year,
+  cm.id as charger_model_id,
+  cm.manufacturer as charger_manufacturer,
+  cm.model_name as charger_model,
+  cc_ac.is_compatible as ac_compatible,
+  cc_dc.is_compatible as dc_compatible,
+  LEAST(ev.ac_max_power_kw, cm.max_power_kw) as max_ac_rate_kw,
+  LEAST(ev.dc_max_power_kw, cm.max_power_kw) as max_dc_rate_kw
+FROM ev_models ev
+CROSS JOIN charger_models cm
+LEFT JOIN connector_compatibility cc_ac 
+  ON cc_ac.vehicle_connector = ev.ac_connector_type 
+  AND cc_ac.charger_connector = cm.connector_types[1]
+LEFT JOIN connector_compatibility cc_dc 
+  ON cc_dc.vehicle_connector = ev.dc_connector_type 
+  AND cc_dc.charger_connector = cm.connector_types[1]
+WHERE ev.is_active = TRUE
+  AND (cc_ac.is_compatible = TRUE OR cc_dc.is_compatible = TRUE);
@@ -0,0 +1,19 @@
+-- Schema Repairs
+-- fraud_risk_events for the fraud checks: 029 targeted fraud_detection_events,
+-- which 016 already created with other columns. (On Postgres this also adds
+-- the indexes and views 014-019 couldn't create as shipped.)
+
+CREATE TABLE IF NOT EXISTS fraud_risk_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  event_id TEXT NOT NULL UNIQUE,
+  user_id TEXT,
+  event_type TEXT NOT NULL,
+  risk_score REAL NOT NULL,                -- 0-1
+  risk_factors TEXT,                       -- JSON
+  status TEXT DEFAULT 'pending',
+  reviewed_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_fraud_events_user ON fraud_risk_events(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_fraud_events_risk ON fraud_risk_events(risk_score DESC, status);
@@ -0,0 +1,2 @@
+DROP INDEX IF EXISTS idx_rfid_usage_log_webhook_event;
+ALTER TABLE rfid_usage_log DROP COLUMN webhook_event_id;
@@ -0,0 +1,8 @@
+-- RFID Usage Webhook Event
+-- The Ampeco webhook event a denial in rfid_usage_log was recorded from, so
+-- a retried or replayed authorization.failed event is logged once and doesn't
+-- count twice towards repeated denials; see services/webhookEventHandlers.
+
+ALTER TABLE rfid_usage_log ADD COLUMN webhook_event_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_rfid_usage_log_webhook_event ON rfid_usage_log(webhook_event_id);
@@ -0,0 +1,351 @@
+/**
+ * Migration Runner
+ * Applies the numbered SQL files in src/db/migrations and records each one in
+ * a schema_migrations ledger.
+ *
+ * File names: <version>_<name>[.down][.<dialect>].sql
+ * - 020_dynamic_api_tools.sql            up, used by both databases
+ * - 020_dynamic_api_tools.postgres.sql   up, used instead of the shared file on Postgres
+ * - 020_dynamic_api_tools.down.sql       down; a migration without one can't be rolled back
+ *
+ * Each migration runs in one transaction with its ledger row. The ledger keeps
+ * a checksum of the SQL that ran: if the file changes afterwards, status
+ * reports drift and up/down refuse to run until it's resolved (or allowDrift).
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+import { db, type Database, type SqlDialect } from './index';
+
+export const DEFAULT_MIGRATIONS_DIR = path.join(process.cwd(), 'src/db/migrations');
+
+const FILE_PATTERN = /^(\d+)_([a-z0-9_]+)(\.down)?(?:\.(sqlite|postgres))?\.sql$/;
+
+export interface MigrationScript {
+  fileName: string;
+  sql: string;
+  checksum: string;
+}
+
+export interface Migration {
+  version: string;
+  name: string;
+  up: MigrationScript;
+  down: MigrationScript | null;
+}
+
+export interface AppliedMigration {
+  version: string;
+  name: string;
+  checksum: string;
+  applied_at: string;
+  execution_ms: number | null;
+}
+
+export type MigrationState = 'applied' | 'pending' | 'drifted' | 'missing';
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  state: MigrationState; // missing = in the ledger but no file on disk
+  fileName?: string;
+  appliedAt?: string;
+  reversible: boolean;
+}
+
+export interface MigrationStep {
+  version: string;
+  name: string;
+  direction: 'up' | 'down';
+  fileName: string;
+  sql: string;
+  durationMs?: number;
+}
+
+export interface MigrationRunResult {
+  dryRun: boolean;
+  steps: MigrationStep[];
+}
+
+export interface MigrateUpOptions {
+  to?: string; // Highest version to apply (inclusive)
+  dryRun?: boolean;
+  allowDrift?: boolean;
+}
+
+export interface MigrateDownOptions {
+  steps?: number; // Number of migrations to roll back (default 1)
+  to?: string; // Roll back everything above this version instead
+  dryRun?: boolean;
+  allowDrift?: boolean;
+}
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+export function migrationChecksum(sql: string): string {
+  return crypto.createHash('sha256').update(sql.replace(/\r\n/g, '\n')).digest('hex');
+}
+
+function compareVersions(a: string, b: string): number {
+  return Number(a) - Number(b);
+}
+
+/**
+ * Read the migrations for a dialect from a directory, oldest first
+ */
+export function loadMigrations(directory: string, dialect: SqlDialect): Migration[] {
+  const scripts = new Map<string, { name: string; files: Map<string, string> }>();
+
+  for (const fileName of fs.readdirSync(directory)) {
+    const match = fileName.match(FILE_PATTERN);
+    if (!match) continue;
+
+    const [, version, name, down, fileDialect] = match;
+    const entry = scripts.get(version) || { name, files: new Map<string, string>() };
+    if (entry.name !== name) {
+      throw new MigrationError(`Migration ${version} has two names: ${entry.name} and ${name}`);
+    }
+    entry.files.set(`${down ? 'down' : 'up'}:${fileDialect || 'shared'}`, fileName);
+    scripts.set(version, entry);
+  }
+
+  const readScript = (fileName: string | undefined): MigrationScript | null => {
+    if (!fileName) return null;
+    const sql = fs.readFileSync(path.join(directory, fileName), 'utf8');
+    return { fileName, sql, checksum: migrationChecksum(sql) };
+  };
+
+  return [...scripts.entries()]
+    .sort(([a], [b]) => compareVersions(a, b))
+    .map(([version, { name, files }]) => {
+      const up = readScript(files.get(`up:${dialect}`) || files.get('up:shared'));
+      if (!up) {
+        throw new MigrationError(`Migration ${version}_${name} has no up script for ${dialect}`);
+      }
+      return {
+        version,
+        name,
+        up,
+        down: readScript(files.get(`down:${dialect}`) || files.get('down:shared')),
+      };
+    });
+}
+
+export class Migrator {
+  constructor(
+    private database: Database = db,
+    private directory: string = DEFAULT_MIGRATIONS_DIR
+  ) {}
+
+  migrations(): Migration[] {
+    return loadMigrations(this.directory, this.database.dialect);
+  }
+
+  /**
+   * Every migration on disk or in the ledger, oldest first
+   */
+  async status(): Promise<MigrationStatus[]> {
+    const migrations = this.migrations();
+    const applied = new Map((await this.appliedMigrations()).map((row) => [row.version, row]));
+
+    const statuses: MigrationStatus[] = migrations.map((migration) => {
+      const row = applied.get(migration.version);
+      let state: MigrationState = 'pending';
+      if (row) {
+        state = row.checksum === migration.up.checksum ? 'applied' : 'drifted';
+      }
+      return {
+        version: migration.version,
+        name: migration.name,
+        state,
+        fileName: migration.up.fileName,
+        appliedAt: row?.applied_at,
+        reversible: migration.down !== null,
+      };
+    });
+
+    const onDisk = new Set(migrations.map((migration) => migration.version));
+    for (const row of applied.values()) {
+      if (!onDisk.has(row.version)) {
+        statuses.push({ version: row.version, name: row.name, state: 'missing', appliedAt: row.applied_at, reversible: false });
+      }
+    }
+
+    return statuses.sort((a, b) => compareVersions(a.version, b.version));
+  }
+
+  /**
+   * Apply pending migrations in order, up to and including `to`
+   */
+  async up(options: MigrateUpOptions = {}): Promise<MigrationRunResult> {
+    await this.assertNoDrift(options.allowDrift);
+
+    const applied = new Set((await this.appliedMigrations()).map((row) => row.version));
+    const pending = this.migrations().filter((migration) =>
+      !applied.has(migration.version) && (options.to === undefined || compareVersions(migration.version, options.to) <= 0)
+    );
+
+    const steps: MigrationStep[] = pending.map((migration) => ({
+      version: migration.version,
+      name: migration.name,
+      direction: 'up',
+      fileName: migration.up.fileName,
+      sql: migration.up.sql,
+    }));
+
+    if (options.dryRun || steps.length === 0) {
+      return { dryRun: Boolean(options.dryRun), steps };
+    }
+
+    await this.ensureLedger();
+    for (const [index, migration] of pending.entries()) {
+      const startedAt = Date.now();
+      await this.database.transaction(async (tx) => {
+        await tx.exec(migration.up.sql);
+        await tx.run(
+          'INSERT INTO schema_migrations (version, name, checksum, execution_ms) VALUES (?, ?, ?, ?)',
+          [migration.version, migration.name, migration.up.checksum, Date.now() - startedAt]
+        );
+      }).catch((error) => {
+        throw new MigrationError(`Migration ${migration.up.fileName} failed: ${error instanceof Error ? error.message : String(error)}`);
+      });
+
+      steps[index].durationMs = Date.now() - startedAt;
+      logger.info({ version: migration.version, migration: migration.name, durationMs: steps[index].durationMs }, 'Migration applied');
+    }
+
+    return { dryRun: false, steps };
+  }
+
+  /**
+   * Roll back the latest applied migrations (newest first)
+   */
+  async down(options: MigrateDownOptions = {}): Promise<MigrationRunResult> {
+    await this.assertNoDrift(options.allowDrift);
+
+    const migrations = new Map(this.migrations().map((migration) => [migration.version, migration]));
+    const applied = (await this.appliedMigrations()).sort((a, b) => compareVersions(b.version, a.version));
+    const targets = options.to !== undefined
+      ? applied.filter((row) => compareVersions(row.version, options.to!) > 0)
+      : applied.slice(0, Math.max(0, options.steps ?? 1));
+
+    const plan = targets.map((row) => {
+      const migration = migrations.get(row.version);
+      if (!migration) {
+        throw new MigrationError(`Migration ${row.version}_${row.name} is applied but its file is missing`);
+      }
+      if (!migration.down) {
+        throw new MigrationError(`Migration ${migration.up.fileName} has no down script`);
+      }
+      return { migration, down: migration.down };
+    });
+
+    const steps: MigrationStep[] = plan.map(({ migration, down }) => ({
+      version: migration.version,
+      name: migration.name,
+      direction: 'down',
+      fileName: down.fileName,
+      sql: down.sql,
+    }));
+
+    if (options.dryRun) {
+      return { dryRun: true, steps };
+    }
+
+    for (const [index, { migration, down }] of plan.entries()) {
+      const startedAt = Date.now();
+      await this.database.transaction(async (tx) => {
+        await tx.exec(down.sql);
+        await tx.run('DELETE FROM schema_migrations WHERE version = ?', [migration.version]);
+      }).catch((error) => {
+        throw new MigrationError(`Rollback ${down.fileName} failed: ${error instanceof Error ? error.message : String(error)}`);
+      });
+
+      steps[index].durationMs = Date.now() - startedAt;
+      logger.info({ version: migration.version, migration: migration.name, durationMs: steps[index].durationMs }, 'Migration rolled back');
+    }
+
+    return { dryRun: false, steps };
+  }
+
+  /**
+   * Record pending migrations up to `to` as applied without running them,
+   * for databases whose schema was created before the ledger existed
+   */
+  async baseline(to: string, options: { dryRun?: boolean } = {}): Promise<MigrationRunResult> {
+    const applied = new Set((await this.appliedMigrations()).map((row) => row.version));
+    const pending = this.migrations().filter((migration) =>
+      !applied.has(migration.version) && compareVersions(migration.version, to) <= 0
+    );
+
+    const steps: MigrationStep[] = pending.map((migration) => ({
+      version: migration.version,
+      name: migration.name,
+      direction: 'up',
+      fileName: migration.up.fileName,
+      sql: '',
+    }));
+
+    if (options.dryRun || pending.length === 0) {
+      return { dryRun: Boolean(options.dryRun), steps };
+    }
+
+    await this.ensureLedger();
+    await this.database.transaction(async (tx) => {
+      for (const migration of pending) {
+        await tx.run(
+          'INSERT INTO schema_migrations (version, name, checksum, execution_ms) VALUES (?, ?, ?, NULL)',
+          [migration.version, migration.name, migration.up.checksum]
+        );
+      }
+    });
+
+    logger.info({ to, count: pending.length }, 'Migrations baselined');
+    return { dryRun: false, steps };
+  }
+
+  private async assertNoDrift(allowDrift = false): Promise<void> {
+    const drifted = (await this.status()).filter((status) => status.state === 'drifted');
+    if (drifted.length === 0) return;
+
+    const files = drifted.map((status) => status.fileName).join(', ');
+    if (!allowDrift) {
+      throw new MigrationError(`Applied migrations changed on disk: ${files}`);
+    }
+    logger.warn({ files }, 'Running with drifted migrations');
+  }
+
+  private async appliedMigrations(): Promise<AppliedMigration[]> {
+    if (!(await this.ledgerExists())) return [];
+    const { rows } = await this.database.query<AppliedMigration>(
+      'SELECT version, name, checksum, applied_at, execution_ms FROM schema_migrations ORDER BY version'
+    );
+    return rows.map((row) => ({ ...row, applied_at: String(row.applied_at) }));
+  }
+
+  private async ledgerExists(): Promise<boolean> {
+    const row = this.database.dialect === 'postgres'
+      ? await this.database.get<{ name: string | null }>(`SELECT to_regclass('schema_migrations')::text AS name`)
+      : await this.database.get<{ name: string }>(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'`);
+    return Boolean(row?.name);
+  }
+
+  private async ensureLedger(): Promise<void> {
+    await this.database.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        checksum TEXT NOT NULL,
+        applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        execution_ms INTEGER
+      )
+    `);
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Postgres driver (pg)
+ * Shares one connection pool with Mastra memory (see mastra/storage.ts).
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { logger } from '../utils/logger';
+import { SqlHelpers, translatePlaceholders } from './dialect';
+import type { Database, QueryResult, RunResult } from './index';
+
+export interface PostgresDatabaseOptions {
+  connectionString?: string;
+  pool?: Pool; // Use an existing pool
+}
+
+let sharedPool: Pool | null = null;
+
+/**
+ * The process-wide Postgres pool
+ */
+export function getPgPool(connectionString: string | undefined = process.env.DATABASE_URL): Pool {
+  if (!sharedPool) {
+    sharedPool = new Pool({
+      connectionString,
+      ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : undefined,
+      max: 20,                    // Maximum number of clients in the pool
+      min: 2,                     // Minimum number of clients to maintain
+      idleTimeoutMillis: 30000,   // Close idle clients after 30 seconds
+      connectionTimeoutMillis: 10000,  // Timeout for acquiring connection
+      maxUses: 7500,              // Recycle connection after 7500 uses
+      allowExitOnIdle: false,     // Don't exit process when all clients idle
+    });
+  }
+  return sharedPool;
+}
+
+type Queryable = Pool | PoolClient;
+
+class PostgresDatabase implements Database {
+  readonly dialect = 'postgres' as const;
+  readonly sql = new SqlHelpers('postgres');
+  private savepointCounter = 0;
+
+  constructor(private pool: Pool, private client: PoolClient | null = null) {}
+
+  private get target(): Queryable {
+    return this.client || this.pool;
+  }
+
+  async query<T = any>(sql: string, params: unknown[] = []): Promise<QueryResult<T>> {
+    const translated = translatePlaceholders(sql, params, 'postgres');
+    const result = await this.target.query(translated.sql, translated.params as any[]);
+    return { rows: result.rows as T[], rowCount: result.rowCount ?? result.rows.length };
+  }
+
+  async get<T = any>(sql: string, params: unknown[] = []): Promise<T | null> {
+    const result = await this.query<T>(sql, params);
+    return result.rows[0] ?? null;
+  }
+
+  async run(sql: string, params: unknown[] = []): Promise<RunResult> {
+    const result = await this.query(sql, params);
+    return { changes: result.rowCount };
+  }
+
+  async exec(sql: string): Promise<void> {
+    // Without parameters pg sends a simple query, which may hold several statements
+    await this.target.query(sql);
+  }
+
+  async transaction<T>(fn: (tx: Database) => Promise<T>): Promise<T> {
+    if (this.client) {
+      const savepoint = `sp_${++this.savepointCounter}`;
+      await this.client.query(`SAVEPOINT ${savepoint}`);
+      try {
+        const result = await fn(this);
+        await this.client.query(`RELEASE SAVEPOINT ${savepoint}`);
+        return result;
+      } catch (error) {
+        await this.client.query(`ROLLBACK TO SAVEPOINT ${savepoint}`);
+        throw error;
+      }
+    }
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await fn(new PostgresDatabase(this.pool, client));
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK').catch((rollbackError) => {
+        logger.error({ error: rollbackError }, 'Rollback failed');
+      });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.client) return;
+    await this.pool.end();
+    if (this.pool === sharedPool) {
+      sharedPool = null;
+    }
+    logger.info('Postgres pool closed');
+  }
+}
+
+export function createPostgresDatabase(options: PostgresDatabaseOptions = {}): Database {
+  return new PostgresDatabase(options.pool || getPgPool(options.connectionString));
+}
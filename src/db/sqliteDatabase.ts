@@ -0,0 +1,205 @@
+/**
+ * SQLite driver (better-sqlite3)
+ * better-sqlite3 is synchronous; the adapter wraps it in the async Database
+ * interface so services are written once for both drivers.
+ */
+
+import BetterSqlite3 from 'better-sqlite3';
+import { AsyncLocalStorage } from 'async_hooks';
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+import { SqlHelpers, translatePlaceholders } from './dialect';
+import type { Database, QueryResult, RunResult } from './index';
+
+export interface SqliteDatabaseOptions {
+  path?: string; // File path or ':memory:'
+  connection?: BetterSqlite3.Database; // Use an already open connection
+}
+
+/**
+ * Timestamps are stored like CURRENT_TIMESTAMP ("YYYY-MM-DD HH:MM:SS", UTC)
+ * so values bound from JS compare correctly with ones SQLite generates
+ */
+function toSqliteTimestamp(date: Date): string {
+  return date.toISOString().replace('T', ' ').replace(/\.\d{3}Z$/, '');
+}
+
+function toSqliteValue(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return toSqliteTimestamp(value);
+  if (Buffer.isBuffer(value)) return value;
+  if (value !== null && typeof value === 'object') return JSON.stringify(value);
+  return value;
+}
+
+/**
+ * The transaction open on a connection, if any. Work started from inside
+ * the transaction's callback carries it in async context.
+ */
+interface OpenTransaction {
+  open: boolean;
+  done: Promise<void>;
+}
+
+interface ConnectionState {
+  current: OpenTransaction | null;
+  context: AsyncLocalStorage<OpenTransaction>;
+  savepointCounter: number;
+}
+
+class SqliteDatabase implements Database {
+  readonly dialect = 'sqlite' as const;
+  readonly sql = new SqlHelpers('sqlite');
+
+  constructor(
+    private connection: BetterSqlite3.Database,
+    private state: ConnectionState = { current: null, context: new AsyncLocalStorage(), savepointCounter: 0 },
+    private inTransaction = false
+  ) {}
+
+  /**
+   * Whether this call belongs to the open transaction: made through its tx
+   * handle, or through the shared handle from inside its callback
+   */
+  private insideTransaction(): boolean {
+    return this.inTransaction || Boolean(this.state.context.getStore()?.open);
+  }
+
+  /**
+   * Run a statement once no other caller's transaction is open, so it is
+   * neither committed nor rolled back with someone else's work. The check
+   * and the statement run in one synchronous step.
+   */
+  private async execute<T>(statement: () => T): Promise<T> {
+    if (!this.insideTransaction()) {
+      while (this.state.current) {
+        await this.state.current.done;
+      }
+    }
+    return statement();
+  }
+
+  private prepare(sql: string, params: unknown[]) {
+    const translated = translatePlaceholders(sql, params, 'sqlite');
+    return {
+      statement: this.connection.prepare(translated.sql),
+      params: translated.params.map(toSqliteValue),
+    };
+  }
+
+  async query<T = any>(sql: string, params: unknown[] = []): Promise<QueryResult<T>> {
+    return this.execute(() => {
+      const { statement, params: values } = this.prepare(sql, params);
+      if (!statement.reader) {
+        const result = statement.run(...values);
+        return { rows: [], rowCount: result.changes };
+      }
+      const rows = statement.all(...values) as T[];
+      return { rows, rowCount: rows.length };
+    });
+  }
+
+  async get<T = any>(sql: string, params: unknown[] = []): Promise<T | null> {
+    return this.execute(() => {
+      const { statement, params: values } = this.prepare(sql, params);
+      if (!statement.reader) {
+        statement.run(...values);
+        return null;
+      }
+      return (statement.get(...values) as T | undefined) ?? null;
+    });
+  }
+
+  async run(sql: string, params: unknown[] = []): Promise<RunResult> {
+    return this.execute(() => {
+      const { statement, params: values } = this.prepare(sql, params);
+      const result = statement.run(...values);
+      return { changes: result.changes, lastInsertId: Number(result.lastInsertRowid) };
+    });
+  }
+
+  async exec(sql: string): Promise<void> {
+    return this.execute(() => {
+      this.connection.exec(sql);
+    });
+  }
+
+  /**
+   * The connection is shared, so transactions take turns: a transaction
+   * waits for the open one to finish, and queries from other callers wait
+   * too rather than landing inside it. Nested calls use savepoints.
+   */
+  async transaction<T>(fn: (tx: Database) => Promise<T>): Promise<T> {
+    if (this.insideTransaction()) {
+      const savepoint = `sp_${++this.state.savepointCounter}`;
+      this.connection.exec(`SAVEPOINT ${savepoint}`);
+      try {
+        const result = await fn(this);
+        this.connection.exec(`RELEASE ${savepoint}`);
+        return result;
+      } catch (error) {
+        this.connection.exec(`ROLLBACK TO ${savepoint}`);
+        this.connection.exec(`RELEASE ${savepoint}`);
+        throw error;
+      }
+    }
+
+    while (this.state.current) {
+      await this.state.current.done;
+    }
+
+    let finish!: () => void;
+    const transaction: OpenTransaction = { open: true, done: new Promise((resolve) => (finish = resolve)) };
+    this.state.current = transaction;
+
+    const tx = new SqliteDatabase(this.connection, this.state, true);
+    try {
+      this.connection.exec('BEGIN IMMEDIATE');
+      const result = await this.state.context.run(transaction, () => fn(tx));
+      this.connection.exec('COMMIT');
+      return result;
+    } catch (error) {
+      if (this.connection.inTransaction) {
+        this.connection.exec('ROLLBACK');
+      }
+      throw error;
+    } finally {
+      transaction.open = false;
+      this.state.current = null;
+      finish();
+    }
+  }
+
+  async close(): Promise<void> {
+    if (!this.inTransaction && this.connection.open) {
+      this.connection.close();
+      logger.info('SQLite connection closed');
+    }
+  }
+}
+
+/**
+ * Open a SQLite database. A missing file (or directory) is created.
+ */
+export function createSqliteDatabase(options: SqliteDatabaseOptions = {}): Database {
+  let connection = options.connection;
+
+  if (!connection) {
+    const dbPath = options.path || ':memory:';
+    if (dbPath !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(dbPath)), { recursive: true });
+    }
+    connection = new BetterSqlite3(dbPath);
+    logger.info({ path: dbPath }, 'SQLite connected');
+
+    // WAL for better concurrency between readers and the writer
+    if (dbPath !== ':memory:') {
+      connection.pragma('journal_mode = WAL');
+    }
+    connection.pragma('foreign_keys = ON');
+  }
+
+  return new SqliteDatabase(connection);
+}
@@ -5,7 +5,7 @@ import { serve } from 'inngest/hono';
 import { edgeControlAgent } from './mastra';
 import { edgeControlWorkflow } from './mastra/workflows/edgeControlWorkflow';
 import { inngest } from './mastra/inngest';
-import { pgPool } from './mastra/storage';
+import { db } from './db';
 import { logger } from './utils/logger';
 import { register } from './utils/metrics';
 import { getQueueStats } from './utils/messageQueue';
@@ -15,6 +15,10 @@ import 'dotenv/config';
 import chat from './routes/chat';
 import analytics from './routes/analytics';
 import media from './routes/media';
+import workflows from './routes/workflows';
+import experiments from './routes/experiments';
+import desk from './routes/desk';
+import helpdesk from './routes/helpdesk';
 
 const app = new Hono();
 
@@ -42,9 +46,13 @@ app.use('*', async (c, next) => {
 app.route('/api/chat', chat);
 app.route('/api/analytics', analytics);
 app.route('/api/media', media);
+app.route('/api/workflows', workflows);
+app.route('/api/experiments', experiments);
+app.route('/api/desk', desk);
+app.route('/api/helpdesk', helpdesk);
 
 // Inngest API endpoint (for workflow execution and webhooks)
-app.route('/api/inngest', serve({
+app.on(['GET', 'PUT', 'POST'], '/api/inngest', serve({
   client: inngest,
   functions: [edgeControlWorkflow],
   streaming: 'allow',
@@ -67,9 +75,9 @@ app.post('/api/agents/:agentId/generate-legacy', async (c) => {
       return c.json({ error: 'Invalid messages format' }, 400);
     }
 
-    const response = await edgeControlAgent.generateLegacy({
-      messages,
+    const response = await edgeControlAgent.generateLegacy(messages, {
       threadId: threadId || `test-${Date.now()}`,
+      resourceId: 'agent-api',
     });
 
     return c.json({
@@ -104,14 +112,11 @@ app.get('/metrics', async (c) => {
 app.get('/api/admin/failed-conversations', async (c) => {
   try {
     const limit = parseInt(c.req.query('limit') || '50');
-    const client = await pgPool.connect();
-    
-    const result = await client.query(
+    const result = await db.query(
       'SELECT * FROM failed_conversations ORDER BY created_at DESC LIMIT $1',
       [limit]
     );
     
-    client.release();
     return c.json({
       success: true,
       count: result.rows.length,
@@ -127,14 +132,11 @@ app.get('/api/admin/failed-conversations', async (c) => {
 app.get('/api/admin/conversation/:threadId', async (c) => {
   try {
     const threadId = c.req.param('threadId');
-    const client = await pgPool.connect();
-    
-    const result = await client.query(
+    const result = await db.query(
       'SELECT * FROM mastra_memory WHERE thread_id = $1 ORDER BY created_at ASC',
       [threadId]
     );
     
-    client.release();
     return c.json({
       success: true,
       threadId,
@@ -150,19 +152,15 @@ app.get('/api/admin/conversation/:threadId', async (c) => {
 // Admin API - Get bot statistics
 app.get('/api/admin/stats', async (c) => {
   try {
-    const client = await pgPool.connect();
-    
     const [conversations, failedConversations, rateLimits, channelConfigs] = await Promise.all([
-      client.query('SELECT COUNT(DISTINCT thread_id) as count FROM mastra_memory'),
-      client.query('SELECT COUNT(*) as count FROM failed_conversations'),
-      client.query('SELECT COUNT(*) as count FROM rate_limits'),
-      client.query('SELECT COUNT(*) as count FROM channel_config WHERE is_active = true'),
+      db.query('SELECT COUNT(DISTINCT thread_id) as count FROM mastra_memory'),
+      db.query('SELECT COUNT(*) as count FROM failed_conversations'),
+      db.query('SELECT COUNT(*) as count FROM rate_limits'),
+      db.query(`SELECT COUNT(*) as count FROM channel_config WHERE is_active = ${db.sql.bool(true)}`),
     ]);
     
     const queueStats = await getQueueStats();
     
-    client.release();
-    
     return c.json({
       success: true,
       stats: {
@@ -182,11 +180,9 @@ app.get('/api/admin/stats', async (c) => {
 // Admin API - Get channel configuration
 app.get('/api/admin/channels', async (c) => {
   try {
-    const client = await pgPool.connect();
-    const result = await client.query(
+    const result = await db.query(
       'SELECT * FROM channel_config ORDER BY created_at DESC'
     );
-    client.release();
     
     return c.json({
       success: true,
@@ -206,8 +202,7 @@ app.post('/api/admin/channels/:channelId', async (c) => {
     const body = await c.req.json();
     const { language, ampecoTenantUrl, features, isActive } = body;
     
-    const client = await pgPool.connect();
-    const result = await client.query(
+    const result = await db.query(
       `INSERT INTO channel_config (channel_id, guild_id, language, ampeco_tenant_url, features, is_active)
        VALUES ($1, $2, $3, $4, $5, $6)
        ON CONFLICT (channel_id) 
@@ -220,7 +215,6 @@ app.post('/api/admin/channels/:channelId', async (c) => {
        RETURNING *`,
       [channelId, body.guildId || 'unknown', language, ampecoTenantUrl, JSON.stringify(features || {}), isActive]
     );
-    client.release();
     
     return c.json({
       success: true,
@@ -1,3 +1,145 @@
+import { Agent } from '@mastra/core/agent';
+import type { RuntimeContext } from '@mastra/core/runtime-context';
+import {
+  exportDashboardDataTool,
+  getDashboardMetricsTool,
+  getExportStatusTool,
+  getGeographicHotspotsTool,
+  getPerformanceSummaryTool,
+  getRealtimeMetricsTool,
+  getToolEffectivenessTool as getToolEffectivenessDashboardTool,
+  getTrendAnalysisTool,
+} from '../tools/analyticsDashboardTools';
+import { analyzeStationImageTool } from '../tools/analyzeStationImageTool';
+import {
+  checkDocSourceTool,
+  getKBScrapingHealthTool,
+  getPendingKBReviewsTool,
+  getRecentKBChangesTool,
+} from '../tools/automatedKBTools';
+import {
+  cleanupExpiredCacheTool,
+  getCachePerformanceByTypeTool,
+  getCacheStatsTool,
+  getCircuitBreakerStatusTool,
+  invalidateCacheTool,
+  resetCircuitBreakerTool,
+} from '../tools/cachingTools';
+import {
+  checkVehicleCompatibilityTool,
+  getChargerSpecsTool,
+  getChargerStatsTool,
+  lookupErrorCodeTool,
+  searchChargerModelsTool,
+  searchTroubleshootingTool,
+} from '../tools/chargerDatabaseTools';
+import {
+  activeSessionTool,
+  resetStationTool,
+  sessionHistoryTool,
+  startChargingTool,
+  stationStatusTool,
+  stationTariffTool,
+  stopChargingTool,
+  unlockConnectorTool,
+} from '../tools/chargingTools';
+import {
+  getConversationSummaryTool,
+  getHighQualityResolutionsTool,
+  getSearchAnalyticsTool,
+  getSimilarConversationsTool,
+  searchConversationsTool,
+} from '../tools/conversationSearchTools';
+import {
+  continueDiagnosticWorkflowTool,
+  findMatchingWorkflowTool,
+  getWorkflowAnalyticsTool,
+  resumeDiagnosticWorkflowTool,
+  startDiagnosticWorkflowTool,
+} from '../tools/diagnosticWorkflowTool';
+import {
+  addAPIFallbackTool,
+  callDynamicAPITool,
+  checkAPIHealthTool,
+  getAPIEndpointsTool,
+  getAPIPerformanceTool,
+  getAvailableAPIsTool,
+  loadAPIFromURLTool,
+  toggleAPIEndpointTool,
+} from '../tools/dynamicAPITools';
+import {
+  checkEscalationTool,
+  createEscalationTicketTool,
+  getActiveEscalationsTool,
+  getEscalationAnalyticsTool,
+  resolveEscalationTool,
+} from '../tools/escalationTools';
+import {
+  awardPointsTool,
+  checkFraudRiskTool,
+  executeReportTool,
+  getKPIMetricsTool,
+  getRecommendationsTool,
+  getUserPointsTool,
+  getUserProfileTool,
+  logAPIRequestTool,
+  logVoiceCommandTool,
+  startWorkflowTool,
+  updateUserProfileTool,
+  validateAPIKeyTool,
+} from '../tools/p3StrategicTools';
+import {
+  detectAnomaliesTool,
+  getActiveAnomaliesTool,
+  getHighRiskUsersTool,
+  predictSessionOutcomeTool,
+  sendProactiveNotificationTool,
+} from '../tools/predictiveDetectionTools';
+import {
+  getChargerHealthTool,
+  getCriticalAlertsTool,
+  getHealthDashboardTool,
+  getUpcomingMaintenanceTool,
+  scheduleMaintenanceTool,
+} from '../tools/proactiveMaintenanceTools';
+import {
+  getLowQualityConversationsTool,
+  getQualityAnalyticsTool,
+  getToolEffectivenessTool,
+  scoreConversationQualityTool,
+} from '../tools/qualityScoringTools';
+import {
+  analyzeStationImageAdvancedTool,
+  getMediaStatusTool,
+  getOCRResultsTool,
+  getRecentMediaTool,
+  getTranscriptionTool,
+  uploadMediaTool,
+} from '../tools/richMediaTools';
+import { semanticSearchTool } from '../tools/semanticSearchTool';
+import {
+  analyzeMessageSentimentTool,
+  getConversationTrajectoryTool,
+  getHighRiskConversationsTool,
+  getResponseTemplateTool,
+  getSentimentTrendsTool,
+} from '../tools/sentimentAnalysisTools';
+import { trackFailedConversationTool } from '../tools/trackFailedConversationTool';
+import {
+  detectLanguageTool,
+  getUserLanguageTool,
+  translateTextTool,
+} from '../tools/translationTools';
+import {
+  checkVehicleChargerCompatibilityTool,
+  getOEMChargingQuirksTool,
+  getPopularEVModelsTool,
+  searchEVModelsTool,
+} from '../tools/vehicleCompatibilityTools';
+import { memory } from '../storage';
+import { AGENT_TOOL_ROLES, getCallerRole, guardTools, toolsForRole } from '../toolPermissions';
+import { getModelProviderRegistry } from '../../services/modelProvider';
+
 const KNOWLEDGE_BASE = `
 # Edge Control - AI Support Agent
 
@@ -10,6 +152,11 @@ You are a helpful EV charging support assistant for Edge Control.
 - Escalation to human agents when needed
 - Real-time charger status monitoring
 
+## Station Commands:
+- stopCharging, resetStation and unlockConnector only prepare the command
+- Tell the user in plain words what will happen (use the returned summary) and ask them to confirm with the button
+- Never say the command was done until the user confirmed it
+
 ## Escalation Rules:
 - Safety issues: IMMEDIATE escalation
 - Repeated failures: escalate after 3 attempts
@@ -29,151 +176,160 @@ Be helpful, professional, and human! 🚗⚡
 `;
 // Updated Hebrew knowledge base with RAG integration + Multi-Language Support
 
+/**
+ * Every tool the agent can have, each wrapped with its role check.
+ * A run only sees the ones its caller's role allows (see toolPermissions).
+ */
+export const edgeControlTools = guardTools({
+  // RAG Knowledge Base Search - Use this FIRST for any question
+  semanticSearch: semanticSearchTool,
+  
+  // Charger Database Tools - Technical specs and error codes
+  searchChargerModels: searchChargerModelsTool,
+  lookupErrorCode: lookupErrorCodeTool,
+  getChargerSpecs: getChargerSpecsTool,
+  searchTroubleshooting: searchTroubleshootingTool,
+  checkVehicleCompatibility: checkVehicleCompatibilityTool,
+  getChargerStats: getChargerStatsTool,
+  
+  // Diagnostic Workflow Tools - Use for structured troubleshooting
+  findMatchingWorkflow: findMatchingWorkflowTool,
+  startDiagnosticWorkflow: startDiagnosticWorkflowTool,
+  continueDiagnosticWorkflow: continueDiagnosticWorkflowTool,
+  resumeDiagnosticWorkflow: resumeDiagnosticWorkflowTool,
+  getWorkflowAnalytics: getWorkflowAnalyticsTool,
+  
+  // Multi-Language Translation Tools
+  detectLanguage: detectLanguageTool,
+  translateText: translateTextTool,
+  getUserLanguage: getUserLanguageTool,
+  
+  // Charging Tools - Routed to the backend that owns the station
+  stationStatus: stationStatusTool,
+  activeSession: activeSessionTool,
+  sessionHistory: sessionHistoryTool,
+  stationTariff: stationTariffTool,
+  startCharging: startChargingTool,
+  stopCharging: stopChargingTool,
+  resetStation: resetStationTool,
+  unlockConnector: unlockConnectorTool,
+  
+  // Media & Tracking Tools
+  analyzeStationImage: analyzeStationImageTool,
+  trackFailedConversation: trackFailedConversationTool,
+  
+  // Escalation Tools - Smart human handoff
+  checkEscalation: checkEscalationTool,
+  createEscalationTicket: createEscalationTicketTool,
+  getEscalationAnalytics: getEscalationAnalyticsTool,
+  getActiveEscalations: getActiveEscalationsTool,
+  resolveEscalation: resolveEscalationTool,
+  
+  // Quality Scoring Tools - Conversation quality & A/B testing
+  scoreConversationQuality: scoreConversationQualityTool,
+  getQualityAnalytics: getQualityAnalyticsTool,
+  getLowQualityConversations: getLowQualityConversationsTool,
+  getToolEffectiveness: getToolEffectivenessTool,
+  
+  // Predictive Detection Tools - ML-based predictions & proactive alerts
+  predictSessionOutcome: predictSessionOutcomeTool,
+  detectAnomalies: detectAnomaliesTool,
+  sendProactiveNotification: sendProactiveNotificationTool,
+  getHighRiskUsers: getHighRiskUsersTool,
+  getActiveAnomalies: getActiveAnomaliesTool,
+  
+  // Rich Media Tools - OCR, voice transcription, image/video analysis
+  uploadMedia: uploadMediaTool,
+  getOCRResults: getOCRResultsTool,
+  getTranscription: getTranscriptionTool,
+  getMediaStatus: getMediaStatusTool,
+  analyzeStationImageAdvanced: analyzeStationImageAdvancedTool,
+  getRecentMedia: getRecentMediaTool,
+  
+  // Analytics Dashboard Tools - Real-time metrics and reporting
+  getDashboardMetrics: getDashboardMetricsTool,
+  getRealtimeMetrics: getRealtimeMetricsTool,
+  getGeographicHotspots: getGeographicHotspotsTool,
+  getToolEffectivenessDashboard: getToolEffectivenessDashboardTool,
+  getTrendAnalysis: getTrendAnalysisTool,
+  exportDashboardData: exportDashboardDataTool,
+  getExportStatus: getExportStatusTool,
+  getPerformanceSummary: getPerformanceSummaryTool,
+  
+  // Vehicle-Charger Compatibility Tools - EV model database and compatibility checks
+  searchEVModels: searchEVModelsTool,
+  checkVehicleChargerCompatibility: checkVehicleChargerCompatibilityTool,
+  getOEMChargingQuirks: getOEMChargingQuirksTool,
+  getPopularEVModels: getPopularEVModelsTool,
+  
+  // Dynamic API Tools (Feature #12)
+  loadAPIFromURL: loadAPIFromURLTool,
+  callDynamicAPI: callDynamicAPITool,
+  getAvailableAPIs: getAvailableAPIsTool,
+  getAPIEndpoints: getAPIEndpointsTool,
+  checkAPIHealth: checkAPIHealthTool,
+  getAPIPerformance: getAPIPerformanceTool,
+  toggleAPIEndpoint: toggleAPIEndpointTool,
+  addAPIFallback: addAPIFallbackTool,
+  
+  // Sentiment Analysis Tools (Feature #13)
+  analyzeMessageSentiment: analyzeMessageSentimentTool,
+  getConversationTrajectory: getConversationTrajectoryTool,
+  getHighRiskConversations: getHighRiskConversationsTool,
+  getResponseTemplate: getResponseTemplateTool,
+  getSentimentTrends: getSentimentTrendsTool,
+  
+  // Caching & Circuit Breaker Tools (Feature #14)
+  getCacheStats: getCacheStatsTool,
+  invalidateCache: invalidateCacheTool,
+  getCircuitBreakerStatus: getCircuitBreakerStatusTool,
+  resetCircuitBreaker: resetCircuitBreakerTool,
+  cleanupExpiredCache: cleanupExpiredCacheTool,
+  getCachePerformanceByType: getCachePerformanceByTypeTool,
+  
+  // Automated KB Update Tools (Feature #15)
+  checkDocSource: checkDocSourceTool,
+  getPendingKBReviews: getPendingKBReviewsTool,
+  getKBScrapingHealth: getKBScrapingHealthTool,
+  getRecentKBChanges: getRecentKBChangesTool,
+  
+  // Conversation Search Tools (Feature #16)
+  searchConversations: searchConversationsTool,
+  getSimilarConversations: getSimilarConversationsTool,
+  getConversationSummary: getConversationSummaryTool,
+  getHighQualityResolutions: getHighQualityResolutionsTool,
+  getSearchAnalytics: getSearchAnalyticsTool,
+  
+  // Proactive Maintenance Tools (Feature #17)
+  getChargerHealth: getChargerHealthTool,
+  getCriticalAlerts: getCriticalAlertsTool,
+  getUpcomingMaintenance: getUpcomingMaintenanceTool,
+  getHealthDashboard: getHealthDashboardTool,
+  scheduleMaintenance: scheduleMaintenanceTool,
+  
+  // P3 Strategic Tools (Features #18-25)
+  startWorkflow: startWorkflowTool,
+  getUserProfile: getUserProfileTool,
+  updateUserProfile: updateUserProfileTool,
+  getRecommendations: getRecommendationsTool,
+  checkFraudRisk: checkFraudRiskTool,
+  logVoiceCommand: logVoiceCommandTool,
+  getUserPoints: getUserPointsTool,
+  awardPoints: awardPointsTool,
+  getKPIMetrics: getKPIMetricsTool,
+  executeReport: executeReportTool,
+  validateAPIKey: validateAPIKeyTool,
+  logAPIRequest: logAPIRequestTool,
+}, AGENT_TOOL_ROLES);
+
+/**
+ * Generalist agent with every tool. Chat and Discord turns are routed to the
+ * specialist agents instead (see specialistAgents.ts and services/agentRouter).
+ */
 export const edgeControlAgent = new Agent({
   name: 'Edge Control Support Agent',
   instructions: KNOWLEDGE_BASE,
-  model: {
-    provider: 'openai',
-    name: 'gpt-4o',
-    toolChoice: 'auto',
-  },
-  tools: {
-    // RAG Knowledge Base Search - Use this FIRST for any question
-    semanticSearch: semanticSearchTool,
-    
-    // Charger Database Tools - Technical specs and error codes
-    searchChargerModels: searchChargerModelsTool,
-    lookupErrorCode: lookupErrorCodeTool,
-    getChargerSpecs: getChargerSpecsTool,
-    searchTroubleshooting: searchTroubleshootingTool,
-    checkVehicleCompatibility: checkVehicleCompatibilityTool,
-    getChargerStats: getChargerStatsTool,
-    
-    // Diagnostic Workflow Tools - Use for structured troubleshooting
-    findMatchingWorkflow: findMatchingWorkflowTool,
-    startDiagnosticWorkflow: startDiagnosticWorkflowTool,
-    continueDiagnosticWorkflow: continueDiagnosticWorkflowTool,
-    getWorkflowAnalytics: getWorkflowAnalyticsTool,
-    
-    // Multi-Language Translation Tools
-    detectLanguage: detectLanguageTool,
-    translateText: translateTextTool,
-    getUserLanguage: getUserLanguageTool,
-    
-    // Ampeco API Tools
-    ampecoStationStatus: ampecoStationStatusTool,
-    ampecoResetStation: ampecoResetStationTool,
-    ampecoUnlockConnector: ampecoUnlockConnectorTool,
-    ampecoActiveSession: ampecoActiveSessionTool,
-    ampecoSessionHistory: ampecoSessionHistoryTool,
-    ampecoTariff: ampecoTariffTool,
-    
-    // Media & Tracking Tools
-    analyzeStationImage: analyzeStationImageTool,
-    trackFailedConversation: trackFailedConversationTool,
-    
-    // Escalation Tools - Smart human handoff
-    checkEscalation: checkEscalationTool,
-    createEscalationTicket: createEscalationTicketTool,
-    getEscalationAnalytics: getEscalationAnalyticsTool,
-    getActiveEscalations: getActiveEscalationsTool,
-    resolveEscalation: resolveEscalationTool,
-    
-    // Quality Scoring Tools - Conversation quality & A/B testing
-    scoreConversationQuality: scoreConversationQualityTool,
-    getQualityAnalytics: getQualityAnalyticsTool,
-    getLowQualityConversations: getLowQualityConversationsTool,
-    getToolEffectiveness: getToolEffectivenessTool,
-    
-    // Predictive Detection Tools - ML-based predictions & proactive alerts
-    predictSessionOutcome: predictSessionOutcomeTool,
-    detectAnomalies: detectAnomaliesTool,
-    sendProactiveNotification: sendProactiveNotificationTool,
-    getHighRiskUsers: getHighRiskUsersTool,
-    getActiveAnomalies: getActiveAnomaliesTool,
-    
-    // Rich Media Tools - OCR, voice transcription, image/video analysis
-    uploadMedia: uploadMediaTool,
-    getOCRResults: getOCRResultsTool,
-    getTranscription: getTranscriptionTool,
-    getMediaStatus: getMediaStatusTool,
-    analyzeStationImageAdvanced: analyzeStationImageAdvancedTool,
-    getRecentMedia: getRecentMediaTool,
-    
-    // Analytics Dashboard Tools - Real-time metrics and reporting
-    getDashboardMetrics: getDashboardMetricsTool,
-    getRealtimeMetrics: getRealtimeMetricsTool,
-    getGeographicHotspots: getGeographicHotspotsTool,
-    getToolEffectivenessDashboard: getToolEffectivenessTool,
-    getTrendAnalysis: getTrendAnalysisTool,
-    exportDashboardData: exportDashboardDataTool,
-    getExportStatus: getExportStatusTool,
-    getPerformanceSummary: getPerformanceSummaryTool,
-    
-    // Vehicle-Charger Compatibility Tools - EV model database and compatibility checks
-    searchEVModels: searchEVModelsTool,
-    checkVehicleChargerCompatibility: checkVehicleChargerCompatibilityTool,
-    getOEMChargingQuirks: getOEMChargingQuirksTool,
-    getPopularEVModels: getPopularEVModelsTool,
-    
-    // Dynamic API Tools (Feature #12)
-    loadAPIFromURL: loadAPIFromURLTool,
-    callDynamicAPI: callDynamicAPITool,
-    getAvailableAPIs: getAvailableAPIsTool,
-    getAPIEndpoints: getAPIEndpointsTool,
-    checkAPIHealth: checkAPIHealthTool,
-    getAPIPerformance: getAPIPerformanceTool,
-    toggleAPIEndpoint: toggleAPIEndpointTool,
-    addAPIFallback: addAPIFallbackTool,
-    
-    // Sentiment Analysis Tools (Feature #13)
-    analyzeMessageSentiment: analyzeMessageSentimentTool,
-    getConversationTrajectory: getConversationTrajectoryTool,
-    getHighRiskConversations: getHighRiskConversationsTool,
-    getResponseTemplate: getResponseTemplateTool,
-    getSentimentTrends: getSentimentTrendsTool,
-    
-    // Caching & Circuit Breaker Tools (Feature #14)
-    getCacheStats: getCacheStatsTool,
-    invalidateCache: invalidateCacheTool,
-    getCircuitBreakerStatus: getCircuitBreakerStatusTool,
-    resetCircuitBreaker: resetCircuitBreakerTool,
-    cleanupExpiredCache: cleanupExpiredCacheTool,
-    getCachePerformanceByType: getCachePerformanceByTypeTool,
-    
-    // Automated KB Update Tools (Feature #15)
-    checkDocSource: checkDocSourceTool,
-    getPendingKBReviews: getPendingKBReviewsTool,
-    getKBScrapingHealth: getKBScrapingHealthTool,
-    getRecentKBChanges: getRecentKBChangesTool,
-    
-    // Conversation Search Tools (Feature #16)
-    searchConversations: searchConversationsTool,
-    getSimilarConversations: getSimilarConversationsTool,
-    getConversationSummary: getConversationSummaryTool,
-    getHighQualityResolutions: getHighQualityResolutionsTool,
-    getSearchAnalytics: getSearchAnalyticsTool,
-    
-    // Proactive Maintenance Tools (Feature #17)
-    getChargerHealth: getChargerHealthTool,
-    getCriticalAlerts: getCriticalAlertsTool,
-    getUpcomingMaintenance: getUpcomingMaintenanceTool,
-    getHealthDashboard: getHealthDashboardTool,
-    scheduleMaintenance: scheduleMaintenanceTool,
-    
-    // P3 Strategic Tools (Features #18-25)
-    startWorkflow: startWorkflowTool,
-    getUserProfile: getUserProfileTool,
-    updateUserProfile: updateUserProfileTool,
-    getRecommendations: getRecommendationsTool,
-    checkFraudRisk: checkFraudRiskTool,
-    logVoiceCommand: logVoiceCommandTool,
-    getUserPoints: getUserPointsTool,
-    awardPoints: awardPointsTool,
-    getKPIMetrics: getKPIMetricsTool,
-    executeReport: executeReportTool,
-    validateAPIKey: validateAPIKeyTool,
-    logAPIRequest: logAPIRequestTool,
-  },
+  model: getModelProviderRegistry().agentModels('edgeControl'),
+  tools: ({ runtimeContext }: { runtimeContext: RuntimeContext }) => toolsForRole(edgeControlTools, AGENT_TOOL_ROLES, getCallerRole(runtimeContext)),
   memory,
 });
@@ -0,0 +1,75 @@
+import { Agent, type ToolsInput } from '@mastra/core/agent';
+import type { RuntimeContext } from '@mastra/core/runtime-context';
+import { getExperimentVariant, type ExperimentVariant } from '../../services/experimentService';
+import { getModelProviderRegistry } from '../../services/modelProvider';
+import { memory } from '../storage';
+import { AGENT_TOOL_ROLES, getCallerRole, toolsForRole } from '../toolPermissions';
+import { edgeControlTools } from './edgeControlAgent';
+import { SPECIALISTS, type SpecialistDefinition, type SpecialistId } from './specialists';
+
+/**
+ * Specialist Agents
+ * One agent per specialist definition (see specialists.ts). They share the
+ * conversation memory, so a handoff keeps the thread's history.
+ *
+ * Instructions, model, tools and temperature are resolved per run: a turn in
+ * an experiment (services/experimentService) runs with its variant's.
+ */
+
+/**
+ * The (role-guarded) agent tools for a specialist
+ */
+export function specialistTools(id: SpecialistId): ToolsInput {
+  const tools = edgeControlTools as ToolsInput;
+  return Object.fromEntries(SPECIALISTS[id].tools.map((name) => [name, tools[name]]));
+}
+
+/**
+ * The variant's tool subset (it can only narrow the specialist's tools)
+ */
+function variantTools(tools: ToolsInput, variant: ExperimentVariant | undefined): ToolsInput {
+  if (!variant?.tools) return tools;
+  return Object.fromEntries(Object.entries(tools).filter(([name]) => variant.tools!.includes(name)));
+}
+
+function variantInstructions(definition: SpecialistDefinition, variant: ExperimentVariant | undefined): string {
+  const instructions = variant?.instructions ?? definition.instructions;
+  return variant?.extraInstructions ? `${instructions}\n\n${variant.extraInstructions}` : instructions;
+}
+
+function variantOptions(variant: ExperimentVariant | undefined) {
+  return variant?.temperature !== undefined ? { temperature: variant.temperature } : {};
+}
+
+function createSpecialistAgent(definition: SpecialistDefinition): Agent {
+  const tools = specialistTools(definition.id);
+  return new Agent({
+    name: definition.name,
+    description: definition.description,
+    instructions: ({ runtimeContext }: { runtimeContext: RuntimeContext }) =>
+      variantInstructions(definition, getExperimentVariant(runtimeContext)),
+    model: getModelProviderRegistry().agentModels(definition.id, (runtimeContext) => getExperimentVariant(runtimeContext)?.model),
+    tools: ({ runtimeContext }: { runtimeContext: RuntimeContext }) =>
+      variantTools(
+        toolsForRole(tools, AGENT_TOOL_ROLES, getCallerRole(runtimeContext)) as ToolsInput,
+        getExperimentVariant(runtimeContext)
+      ),
+    defaultGenerateOptions: ({ runtimeContext }: { runtimeContext: RuntimeContext }) =>
+      variantOptions(getExperimentVariant(runtimeContext)),
+    defaultStreamOptions: ({ runtimeContext }: { runtimeContext: RuntimeContext }) =>
+      variantOptions(getExperimentVariant(runtimeContext)),
+    memory,
+  });
+}
+
+export const specialistAgents: Record<SpecialistId, Agent> = {
+  charging: createSpecialistAgent(SPECIALISTS.charging),
+  billing: createSpecialistAgent(SPECIALISTS.billing),
+  account: createSpecialistAgent(SPECIALISTS.account),
+  vehicle: createSpecialistAgent(SPECIALISTS.vehicle),
+  operations: createSpecialistAgent(SPECIALISTS.operations),
+};
+
+export function getSpecialistAgent(id: SpecialistId): Agent {
+  return specialistAgents[id];
+}
@@ -0,0 +1,237 @@
+import type { AGENT_TOOL_ROLES, ToolRole } from '../toolPermissions';
+
+/**
+ * Specialists
+ *
+ * Instead of one agent with every tool, the triage agent classifies each
+ * turn and the router (services/agentRouter) hands it to a specialist.
+ * Each specialist gets a short, focused prompt and only the tools its job
+ * needs (still filtered by the caller's role per run). The agents are built
+ * from these definitions in specialistAgents.ts.
+ */
+
+export const SPECIALIST_IDS = ['charging', 'billing', 'account', 'vehicle', 'operations'] as const;
+
+export type SpecialistId = typeof SPECIALIST_IDS[number];
+
+export type AgentToolName = keyof typeof AGENT_TOOL_ROLES;
+
+export function isSpecialistId(value: unknown): value is SpecialistId {
+  return typeof value === 'string' && (SPECIALIST_IDS as readonly string[]).includes(value);
+}
+
+export interface SpecialistDefinition {
+  id: SpecialistId;
+  name: string;
+  description: string; // What the triage agent routes here
+  minRole: ToolRole; // Callers below this role are never routed here
+  instructions: string;
+  tools: readonly AgentToolName[];
+}
+
+const SHARED_INSTRUCTIONS = `
+You are part of the Edge Control EV charging support team.
+
+- Reply in the user's language (Hebrew, English, Russian or Arabic)
+- Show empathy before technical details and ask clarifying questions
+- Search the knowledge base before answering from memory; never make up information
+- Safety issues (smoke, sparks, damaged cables): escalate immediately
+- Escalate after 3 failed attempts or when the user is frustrated
+- End with a short follow-up question
+`;
+
+// Every customer-facing specialist can search the KB, translate and escalate
+const CUSTOMER_TOOLS = [
+  'semanticSearch',
+  'detectLanguage',
+  'translateText',
+  'analyzeMessageSentiment',
+  'getResponseTemplate',
+  'checkEscalation',
+  'createEscalationTicket',
+  'trackFailedConversation',
+] as const satisfies readonly AgentToolName[];
+
+export const SPECIALISTS: Record<SpecialistId, SpecialistDefinition> = {
+  charging: {
+    id: 'charging',
+    name: 'Charging Support Agent',
+    description: 'Charging problems: a session will not start or stopped, slow charging, station errors or offline stations, stuck cables, station status and remote commands',
+    minRole: 'driver',
+    instructions: `${SHARED_INSTRUCTIONS}
+You handle charging problems at the station.
+
+- Ask for the station number and check stationStatus first
+- Use the diagnostic workflows (findMatchingWorkflow, startDiagnosticWorkflow) for structured troubleshooting
+- Look up error codes and charger specs when the station reports a fault
+- stopCharging, resetStation and unlockConnector only prepare the command: explain what will happen
+  (use the returned summary) and ask the user to confirm with the button. Never say it was done before that.
+`,
+    tools: [
+      ...CUSTOMER_TOOLS,
+      'stationStatus',
+      'activeSession',
+      'sessionHistory',
+      'startCharging',
+      'stopCharging',
+      'resetStation',
+      'unlockConnector',
+      'lookupErrorCode',
+      'getChargerSpecs',
+      'searchChargerModels',
+      'searchTroubleshooting',
+      'getChargerHealth',
+      'findMatchingWorkflow',
+      'startDiagnosticWorkflow',
+      'continueDiagnosticWorkflow',
+      'resumeDiagnosticWorkflow',
+      'startWorkflow',
+      'analyzeStationImage',
+      'analyzeStationImageAdvanced',
+      'uploadMedia',
+      'getOCRResults',
+      'getMediaStatus',
+      'getTranscription',
+      'logVoiceCommand',
+    ],
+  },
+  billing: {
+    id: 'billing',
+    name: 'Billing Support Agent',
+    description: 'Prices and tariffs, session costs, invoices and receipts, double charges, refunds, payment failures',
+    minRole: 'driver',
+    instructions: `${SHARED_INSTRUCTIONS}
+You handle pricing and payment questions.
+
+- Quote tariffs from stationTariff, never from memory
+- For a disputed charge, find the session in sessionHistory and explain each component of the cost
+- Refunds and double charges need a human: collect the session details and create an escalation ticket
+`,
+    tools: [
+      ...CUSTOMER_TOOLS,
+      'stationTariff',
+      'sessionHistory',
+      'activeSession',
+      'getUserProfile',
+      'getUserPoints',
+      'checkFraudRisk',
+    ],
+  },
+  account: {
+    id: 'account',
+    name: 'Account Support Agent',
+    description: 'The user account: profile details, language preference, RFID cards, subscription, loyalty points, app login',
+    minRole: 'driver',
+    instructions: `${SHARED_INSTRUCTIONS}
+You handle the user's account.
+
+- Use getUserProfile to see the account before answering
+- Only staff can change profile fields; for drivers, explain how to change it in the app or escalate
+`,
+    tools: [
+      ...CUSTOMER_TOOLS,
+      'getUserProfile',
+      'updateUserProfile',
+      'getUserLanguage',
+      'getUserPoints',
+      'awardPoints',
+      'getRecommendations',
+    ],
+  },
+  vehicle: {
+    id: 'vehicle',
+    name: 'Vehicle Compatibility Agent',
+    description: 'Whether a car can charge at a station, connector types and adapters, maximum charging power for a vehicle model, model-specific charging quirks',
+    minRole: 'driver',
+    instructions: `${SHARED_INSTRUCTIONS}
+You answer vehicle and charger compatibility questions.
+
+- Identify the exact vehicle model and year before answering
+- Check compatibility with the tools; mention connector type and the expected maximum power
+- Mention known OEM charging quirks when relevant
+`,
+    tools: [
+      ...CUSTOMER_TOOLS,
+      'checkVehicleCompatibility',
+      'checkVehicleChargerCompatibility',
+      'searchEVModels',
+      'getOEMChargingQuirks',
+      'getPopularEVModels',
+      'getChargerSpecs',
+      'searchChargerModels',
+      'getChargerStats',
+    ],
+  },
+  operations: {
+    id: 'operations',
+    name: 'Operations Analytics Agent',
+    description: 'Staff only: analytics, KPIs, reports, escalation queues, quality and sentiment trends, anomalies, maintenance, knowledge base upkeep, caches and external APIs',
+    minRole: 'support_agent',
+    instructions: `
+You assist Edge Control support staff and operators with analytics and operations.
+
+- Answer with numbers from the tools, with the time range they cover
+- Prefer short tables and bullet lists
+- Confirm before changing anything (maintenance schedules, caches, API endpoints)
+`,
+    tools: [
+      'semanticSearch',
+      'getDashboardMetrics',
+      'getRealtimeMetrics',
+      'getGeographicHotspots',
+      'getToolEffectivenessDashboard',
+      'getTrendAnalysis',
+      'exportDashboardData',
+      'getExportStatus',
+      'getPerformanceSummary',
+      'getKPIMetrics',
+      'executeReport',
+      'getWorkflowAnalytics',
+      'getEscalationAnalytics',
+      'getActiveEscalations',
+      'resolveEscalation',
+      'scoreConversationQuality',
+      'getQualityAnalytics',
+      'getLowQualityConversations',
+      'getToolEffectiveness',
+      'getConversationTrajectory',
+      'getHighRiskConversations',
+      'getSentimentTrends',
+      'searchConversations',
+      'getSimilarConversations',
+      'getConversationSummary',
+      'getHighQualityResolutions',
+      'getSearchAnalytics',
+      'predictSessionOutcome',
+      'detectAnomalies',
+      'getActiveAnomalies',
+      'getHighRiskUsers',
+      'sendProactiveNotification',
+      'getCriticalAlerts',
+      'getUpcomingMaintenance',
+      'getHealthDashboard',
+      'scheduleMaintenance',
+      'getRecentMedia',
+      'checkDocSource',
+      'getPendingKBReviews',
+      'getKBScrapingHealth',
+      'getRecentKBChanges',
+      'getCacheStats',
+      'invalidateCache',
+      'getCircuitBreakerStatus',
+      'resetCircuitBreaker',
+      'cleanupExpiredCache',
+      'getCachePerformanceByType',
+      'loadAPIFromURL',
+      'callDynamicAPI',
+      'getAvailableAPIs',
+      'getAPIEndpoints',
+      'checkAPIHealth',
+      'getAPIPerformance',
+      'toggleAPIEndpoint',
+      'addAPIFallback',
+      'validateAPIKey',
+      'logAPIRequest',
+    ],
+  },
+};
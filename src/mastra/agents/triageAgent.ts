@@ -0,0 +1,90 @@
+import { Agent } from '@mastra/core/agent';
+import { z } from 'zod';
+import { getModelProviderRegistry } from '../../services/modelProvider';
+import { logger } from '../../utils/logger';
+import { SPECIALIST_IDS, SPECIALISTS, type SpecialistId } from './specialists';
+
+/**
+ * Triage Agent
+ * Classifies what a user's message is about so the router can hand the turn
+ * to a specialist. Small model, no tools, structured output only.
+ */
+
+export type Intent = SpecialistId;
+
+export interface IntentClassification {
+  intent: Intent;
+  confidence: number; // 0-1
+  reason: string;
+  source: 'llm' | 'keywords';
+}
+
+export interface TriageMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+}
+
+const classificationSchema = z.object({
+  intent: z.enum(SPECIALIST_IDS),
+  confidence: z.number().min(0).max(1),
+  reason: z.string(),
+});
+
+// Last messages of the conversation given to the classifier
+const CONTEXT_MESSAGES = 4;
+
+const TRIAGE_INSTRUCTIONS = `
+You route EV charging support conversations. Read the latest user message (earlier messages are context)
+and pick the one intent it is about:
+
+${SPECIALIST_IDS.map((id) => `- ${id}: ${SPECIALISTS[id].description}`).join('\n')}
+
+Messages can be in Hebrew, English, Russian or Arabic. If the message is a greeting or too vague, pick "charging"
+with a low confidence. Answer with the intent, a confidence between 0 and 1 and a one-line reason.
+`;
+
+export const triageAgent = new Agent({
+  name: 'Triage Agent',
+  description: 'Classifies the intent of a support message for routing',
+  instructions: TRIAGE_INSTRUCTIONS,
+  model: getModelProviderRegistry().agentModels('triage'),
+});
+
+// Keyword fallback when the model is unavailable
+const INTENT_KEYWORDS: Record<Exclude<Intent, 'charging'>, string[]> = {
+  billing: ['price', 'tariff', 'cost', 'invoice', 'refund', 'receipt', 'charged', 'payment', 'מחיר', 'תעריף', 'חשבונית', 'החזר', 'חיוב', 'תשלום', 'цена', 'оплат', 'سعر', 'دفع'],
+  account: ['account', 'profile', 'password', 'login', 'rfid', 'card', 'subscription', 'points', 'חשבון', 'פרופיל', 'סיסמה', 'כרטיס', 'מנוי', 'аккаунт', 'حساب'],
+  vehicle: ['compatible', 'compatibility', 'adapter', 'my car', 'tesla', 'model 3', 'ioniq', 'id.4', 'תואם', 'מתאם', 'הרכב שלי', 'совмест', 'متوافق'],
+  operations: ['dashboard', 'kpi', 'report', 'analytics', 'metrics', 'anomal', 'maintenance schedule', 'דוח', 'מדדים', 'אנליטיקה'],
+};
+
+/**
+ * Best-effort classification from keywords
+ */
+export function classifyByKeywords(text: string): IntentClassification {
+  const lower = text.toLowerCase();
+  for (const [intent, keywords] of Object.entries(INTENT_KEYWORDS) as [Intent, string[]][]) {
+    const match = keywords.find((keyword) => lower.includes(keyword));
+    if (match) {
+      return { intent, confidence: 0.5, reason: `keyword "${match}"`, source: 'keywords' };
+    }
+  }
+  return { intent: 'charging', confidence: 0.3, reason: 'no keyword matched', source: 'keywords' };
+}
+
+/**
+ * Classify the latest user message of a conversation
+ */
+export async function classifyIntent(messages: TriageMessage[]): Promise<IntentClassification> {
+  const context = messages.filter((message) => message.role !== 'system').slice(-CONTEXT_MESSAGES);
+  const latest = [...context].reverse().find((message) => message.role === 'user')?.content || '';
+  const transcript = context.map((message) => `${message.role}: ${message.content}`).join('\n');
+
+  try {
+    const result = await triageAgent.generateLegacy(transcript, { output: classificationSchema });
+    return { ...result.object, source: 'llm' };
+  } catch (error) {
+    logger.warn({ error }, 'Triage classification failed, using keywords');
+    return classifyByKeywords(latest);
+  }
+}
@@ -1,20 +1,24 @@
 import { Mastra } from '@mastra/core';
 import { edgeControlAgent } from './agents/edgeControlAgent';
+import { specialistAgents } from './agents/specialistAgents';
+import { triageAgent } from './agents/triageAgent';
 import { edgeControlWorkflow } from './workflows/edgeControlWorkflow';
 import { inngest } from './inngest';
-import { memory, testDatabaseConnection, initializeDatabase } from './storage';
+import { testDatabaseConnection, initializeDatabase } from './storage';
 import { logger } from '../utils/logger';
 
 // Initialize Mastra
 export const mastra = new Mastra({
   agents: {
     edgeControlAgent,
+    triageAgent,
+    chargingAgent: specialistAgents.charging,
+    billingAgent: specialistAgents.billing,
+    accountAgent: specialistAgents.account,
+    vehicleAgent: specialistAgents.vehicle,
+    operationsAgent: specialistAgents.operations,
   },
-  workflows: {
-    edgeControlWorkflow,
-  },
-  integrations: [],
-  memory,
+  // edgeControlWorkflow is an Inngest function (see ./inngest), not a Mastra workflow
 });
 
 // Initialize system
@@ -32,8 +36,7 @@ export async function initializeMastra() {
     await initializeDatabase();
 
     logger.info('✅ Mastra initialized successfully');
-    logger.info({ agents: Object.keys(mastra.agents || {}) }, 'Registered agents');
-    logger.info({ workflows: Object.keys(mastra.workflows || {}) }, 'Registered workflows');
+    logger.info({ agents: Object.keys(mastra.getAgents()) }, 'Registered agents');
 
     return mastra;
   } catch (error) {
@@ -43,4 +46,4 @@ export async function initializeMastra() {
 }
 
 // Export for use in other modules
-export { edgeControlAgent, edgeControlWorkflow, inngest };
+export { edgeControlAgent, triageAgent, specialistAgents, edgeControlWorkflow, inngest };
@@ -1,33 +1,23 @@
-import { PostgresMemory } from '@mastra/memory';
-import { Pool } from 'pg';
+import { Memory } from '@mastra/memory';
+import { InMemoryStore } from '@mastra/core/storage';
 import { logger } from '../utils/logger';
+import { db } from '../db';
 
-// PostgreSQL connection pool with optimized settings
-export const pgPool = new Pool({
-  connectionString: process.env.DATABASE_URL,
-  ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : undefined,
-  max: 20,                    // Maximum number of clients in the pool
-  min: 2,                     // Minimum number of clients to maintain
-  idleTimeoutMillis: 30000,   // Close idle clients after 30 seconds
-  connectionTimeoutMillis: 10000,  // Timeout for acquiring connection
-  maxUses: 7500,              // Recycle connection after 7500 uses
-  allowExitOnIdle: false,     // Don't exit process when all clients idle
-});
-
-// Initialize Mastra PostgreSQL memory store
-export const memory = new PostgresMemory({
-  pool: pgPool,
+// Agent conversation memory. Threads are held in process; the durable record
+// of every conversation is conversation_transcript (see services/agentDesk).
+export const memory = new Memory({
+  storage: new InMemoryStore(),
+  options: { lastMessages: 20 },
 });
 
 // Test database connection
 export async function testDatabaseConnection() {
   try {
-    const client = await pgPool.connect();
-    logger.info('✅ PostgreSQL connected successfully');
-    client.release();
+    await db.query('SELECT 1');
+    logger.info({ dialect: db.dialect }, '✅ Database connected successfully');
     return true;
   } catch (error) {
-    logger.error({ error }, '❌ PostgreSQL connection failed');
+    logger.error({ error }, '❌ Database connection failed');
     return false;
   }
 }
@@ -35,16 +25,16 @@ export async function testDatabaseConnection() {
 // Initialize database schema for memory storage
 export async function initializeDatabase() {
   try {
-    const client = await pgPool.connect();
-    
+    const { sql } = db;
+
     // Create tables for conversation memory
-    await client.query(`
+    await db.exec(`
       CREATE TABLE IF NOT EXISTS mastra_memory (
-        id SERIAL PRIMARY KEY,
+        id ${sql.autoIncrementId()},
         thread_id VARCHAR(255) NOT NULL,
         role VARCHAR(50) NOT NULL,
         content TEXT NOT NULL,
-        metadata JSONB DEFAULT '{}',
+        metadata ${sql.jsonType()} DEFAULT '{}',
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       );
@@ -54,13 +44,13 @@ export async function initializeDatabase() {
     `);
     
     // Create table for tracking failed conversations
-    await client.query(`
+    await db.exec(`
       CREATE TABLE IF NOT EXISTS failed_conversations (
-        id SERIAL PRIMARY KEY,
+        id ${sql.autoIncrementId()},
         thread_id VARCHAR(255) NOT NULL,
         user_id VARCHAR(255) NOT NULL,
         issue_description TEXT NOT NULL,
-        conversation_context JSONB DEFAULT '{}',
+        conversation_context ${sql.jsonType()} DEFAULT '{}',
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       );
       
@@ -68,7 +58,7 @@ export async function initializeDatabase() {
     `);
     
     // Create table for rate limiting
-    await client.query(`
+    await db.exec(`
       CREATE TABLE IF NOT EXISTS rate_limits (
         user_id VARCHAR(255) PRIMARY KEY,
         message_count INTEGER DEFAULT 0,
@@ -78,14 +68,14 @@ export async function initializeDatabase() {
     `);
     
     // Create table for multi-channel configuration
-    await client.query(`
+    await db.exec(`
       CREATE TABLE IF NOT EXISTS channel_config (
         channel_id VARCHAR(255) PRIMARY KEY,
         guild_id VARCHAR(255) NOT NULL,
         language VARCHAR(10) DEFAULT 'he',
         ampeco_tenant_url VARCHAR(255),
-        features JSONB DEFAULT '{}',
-        is_active BOOLEAN DEFAULT true,
+        features ${sql.jsonType()} DEFAULT '{}',
+        is_active BOOLEAN DEFAULT ${sql.bool(true)},
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       );
@@ -95,14 +85,14 @@ export async function initializeDatabase() {
     `);
     
     // Create table for conversation sessions
-    await client.query(`
+    await db.exec(`
       CREATE TABLE IF NOT EXISTS conversation_sessions (
         thread_id VARCHAR(255) PRIMARY KEY,
         user_id VARCHAR(255) NOT NULL,
         channel_id VARCHAR(255) NOT NULL,
         last_activity TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         message_count INTEGER DEFAULT 0,
-        is_expired BOOLEAN DEFAULT false,
+        is_expired BOOLEAN DEFAULT ${sql.bool(false)},
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       );
       
@@ -110,7 +100,6 @@ export async function initializeDatabase() {
       CREATE INDEX IF NOT EXISTS idx_session_activity ON conversation_sessions(last_activity);
     `);
     
-    client.release();
     logger.info('✅ Database schema initialized');
     return true;
   } catch (error) {
@@ -0,0 +1,145 @@
+/**
+ * Tool Context
+ * Services a Mastra tool gets at execution time: storage, cache, logger,
+ * the current user/thread identity and the conversation language.
+ *
+ * Whoever runs the agent (chat route, Discord workflow, workflow engine)
+ * puts a ToolServices object on the RuntimeContext with
+ * createToolRuntimeContext(). Tools built with createContextTool() list the
+ * services they use and get exactly those, typed: reaching for a service a
+ * tool didn't declare is a compile error. Without a provider (scripts, tests)
+ * tools fall back to the shared database, the in-process cache and the
+ * identity Mastra passes (threadId / resourceId) with the driver role.
+ */
+
+import { createTool } from '@mastra/core';
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import type { Logger } from 'pino';
+import type { z } from 'zod';
+import { db, type Database } from '../db';
+import type { SupportedLanguage } from '../services/languageService';
+import { getKeyValueStore, type KeyValueStore } from '../utils/keyValueStore';
+import { logger } from '../utils/logger';
+import type { ToolRole } from './toolPermissions';
+
+export interface ToolIdentity {
+  userId: string | null;
+  threadId: string | null;
+  channel: string | null; // web, discord, ...
+  role: ToolRole; // Caller's role, decides which agent tools they get
+}
+
+export interface ToolServices {
+  db: Database;
+  cache: KeyValueStore;
+  logger: Logger;
+  identity: ToolIdentity;
+  language: SupportedLanguage;
+}
+
+export type ToolServiceName = keyof ToolServices;
+
+export const TOOL_SERVICES_KEY = 'toolServices';
+
+const DEFAULT_LANGUAGE: SupportedLanguage = 'he';
+
+export interface ToolRuntimeOptions {
+  userId?: string | null;
+  threadId?: string | null;
+  channel?: string | null;
+  role?: ToolRole;
+  language?: SupportedLanguage;
+  db?: Database;
+  cache?: KeyValueStore;
+  logger?: Logger;
+}
+
+/**
+ * Build the services for one agent run
+ */
+export function createToolServices(options: ToolRuntimeOptions = {}): ToolServices {
+  const identity: ToolIdentity = {
+    userId: options.userId ?? null,
+    threadId: options.threadId ?? null,
+    channel: options.channel ?? null,
+    role: options.role ?? 'driver',
+  };
+
+  return {
+    db: options.db ?? db,
+    cache: options.cache ?? getKeyValueStore(),
+    logger: (options.logger ?? logger).child({ userId: identity.userId, threadId: identity.threadId }),
+    identity,
+    language: options.language ?? DEFAULT_LANGUAGE,
+  };
+}
+
+/**
+ * A RuntimeContext carrying the services, to pass as `runtimeContext` to
+ * agent.generate/stream (or a direct tool.execute)
+ */
+export function createToolRuntimeContext(options: ToolRuntimeOptions = {}): RuntimeContext {
+  const runtimeContext = new RuntimeContext();
+  runtimeContext.set(TOOL_SERVICES_KEY, createToolServices(options));
+  return runtimeContext;
+}
+
+/**
+ * The services for a tool execution: the provider's, or defaults built from
+ * the identity Mastra passes along
+ */
+export function resolveToolServices(execution: {
+  runtimeContext?: RuntimeContext;
+  threadId?: string;
+  resourceId?: string;
+}): ToolServices {
+  const provided = execution.runtimeContext?.get(TOOL_SERVICES_KEY) as ToolServices | undefined;
+  if (provided) {
+    return provided;
+  }
+  return createToolServices({ userId: execution.resourceId, threadId: execution.threadId });
+}
+
+/**
+ * Execution details a context tool may need besides its input and services
+ */
+export interface ContextToolExecution {
+  runId?: string;
+  threadId?: string;
+  resourceId?: string;
+}
+
+export interface ContextToolConfig<TSchema extends z.ZodTypeAny, TUses extends ToolServiceName, TResult> {
+  id: string;
+  description: string;
+  inputSchema: TSchema;
+  uses: readonly TUses[];
+  execute: (input: z.infer<TSchema>, services: Pick<ToolServices, TUses>, execution: ContextToolExecution) => Promise<TResult>;
+}
+
+/**
+ * createTool() for tools that use injected services. `uses` lists them;
+ * `execute` receives the validated input and only those services.
+ */
+export function createContextTool<TSchema extends z.ZodTypeAny, TUses extends ToolServiceName, TResult>(
+  config: ContextToolConfig<TSchema, TUses, TResult>
+) {
+  return createTool({
+    id: config.id,
+    description: config.description,
+    inputSchema: config.inputSchema,
+    execute: async (execution) => {
+      const services = resolveToolServices(execution);
+      const declared = {} as Pick<ToolServices, TUses>;
+      for (const name of config.uses) {
+        declared[name] = services[name];
+      }
+
+      return config.execute(execution.context as z.infer<TSchema>, declared, {
+        runId: execution.runId,
+        threadId: execution.threadId,
+        resourceId: execution.resourceId,
+      });
+    },
+  });
+}
@@ -0,0 +1,274 @@
+/**
+ * Tool Permissions
+ * Role-based access to the support agent's tools.
+ *
+ * Roles are ordered: driver < support_agent < operator < admin. Every agent
+ * tool declares the lowest role allowed to use it (AGENT_TOOL_ROLES). Per
+ * run, the agent is only shown the tools the caller's role allows
+ * (toolsForRole), and each tool re-checks the role when it executes
+ * (guardTools): a denied call returns an error result and is written to
+ * security_audit_log.
+ *
+ * The caller's role comes from the request: the admin API token grants
+ * admin, otherwise the user's row in user_roles, otherwise driver.
+ */
+
+import { createTool } from '@mastra/core';
+import type { RuntimeContext } from '@mastra/core/runtime-context';
+import { db } from '../db';
+import { isAdminAuthorization } from '../utils/adminAuth';
+import { logger } from '../utils/logger';
+import { resolveToolServices, type ToolServices } from './toolContext';
+
+export const TOOL_ROLES = ['driver', 'support_agent', 'operator', 'admin'] as const;
+
+export type ToolRole = typeof TOOL_ROLES[number];
+
+export function isToolRole(value: unknown): value is ToolRole {
+  return typeof value === 'string' && (TOOL_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Whether `role` is at least `required`
+ */
+export function hasRole(role: ToolRole, required: ToolRole): boolean {
+  return TOOL_ROLES.indexOf(role) >= TOOL_ROLES.indexOf(required);
+}
+
+/**
+ * Lowest role allowed to use each edgeControlAgent tool (keys are the
+ * agent's tool keys). guardTools() takes a role for every tool it wraps, so
+ * an agent tool without an entry here doesn't compile.
+ */
+export const AGENT_TOOL_ROLES = {
+  // Knowledge base and charger database
+  semanticSearch: 'driver',
+  searchChargerModels: 'driver',
+  lookupErrorCode: 'driver',
+  getChargerSpecs: 'driver',
+  searchTroubleshooting: 'driver',
+  checkVehicleCompatibility: 'driver',
+  getChargerStats: 'driver',
+
+  // Diagnostic workflows
+  findMatchingWorkflow: 'driver',
+  startDiagnosticWorkflow: 'driver',
+  continueDiagnosticWorkflow: 'driver',
+  resumeDiagnosticWorkflow: 'driver',
+  getWorkflowAnalytics: 'support_agent',
+
+  // Language
+  detectLanguage: 'driver',
+  translateText: 'driver',
+  getUserLanguage: 'driver',
+
+  // Charging
+  stationStatus: 'driver',
+  activeSession: 'driver',
+  sessionHistory: 'driver',
+  stationTariff: 'driver',
+  startCharging: 'driver',
+  stopCharging: 'driver',
+  resetStation: 'driver',
+  unlockConnector: 'driver',
+
+  // Media & tracking
+  analyzeStationImage: 'driver',
+  trackFailedConversation: 'driver',
+
+  // Escalation
+  checkEscalation: 'driver',
+  createEscalationTicket: 'driver',
+  getEscalationAnalytics: 'support_agent',
+  getActiveEscalations: 'support_agent',
+  resolveEscalation: 'support_agent',
+
+  // Quality scoring
+  scoreConversationQuality: 'support_agent',
+  getQualityAnalytics: 'support_agent',
+  getLowQualityConversations: 'support_agent',
+  getToolEffectiveness: 'support_agent',
+
+  // Predictive detection
+  predictSessionOutcome: 'support_agent',
+  detectAnomalies: 'operator',
+  sendProactiveNotification: 'operator',
+  getHighRiskUsers: 'support_agent',
+  getActiveAnomalies: 'support_agent',
+
+  // Rich media
+  uploadMedia: 'driver',
+  getOCRResults: 'driver',
+  getTranscription: 'driver',
+  getMediaStatus: 'driver',
+  analyzeStationImageAdvanced: 'driver',
+  getRecentMedia: 'support_agent',
+
+  // Analytics dashboard
+  getDashboardMetrics: 'support_agent',
+  getRealtimeMetrics: 'support_agent',
+  getGeographicHotspots: 'support_agent',
+  getToolEffectivenessDashboard: 'support_agent',
+  getTrendAnalysis: 'support_agent',
+  exportDashboardData: 'operator',
+  getExportStatus: 'operator',
+  getPerformanceSummary: 'support_agent',
+
+  // Vehicle compatibility
+  searchEVModels: 'driver',
+  checkVehicleChargerCompatibility: 'driver',
+  getOEMChargingQuirks: 'driver',
+  getPopularEVModels: 'driver',
+
+  // Dynamic APIs
+  loadAPIFromURL: 'admin',
+  callDynamicAPI: 'operator',
+  getAvailableAPIs: 'operator',
+  getAPIEndpoints: 'operator',
+  checkAPIHealth: 'operator',
+  getAPIPerformance: 'operator',
+  toggleAPIEndpoint: 'operator',
+  addAPIFallback: 'admin',
+
+  // Sentiment
+  analyzeMessageSentiment: 'driver',
+  getConversationTrajectory: 'support_agent',
+  getHighRiskConversations: 'support_agent',
+  getResponseTemplate: 'driver',
+  getSentimentTrends: 'support_agent',
+
+  // Caching & circuit breakers
+  getCacheStats: 'operator',
+  invalidateCache: 'operator',
+  getCircuitBreakerStatus: 'operator',
+  resetCircuitBreaker: 'operator',
+  cleanupExpiredCache: 'operator',
+  getCachePerformanceByType: 'operator',
+
+  // Automated KB updates
+  checkDocSource: 'operator',
+  getPendingKBReviews: 'support_agent',
+  getKBScrapingHealth: 'support_agent',
+  getRecentKBChanges: 'support_agent',
+
+  // Conversation search
+  searchConversations: 'support_agent',
+  getSimilarConversations: 'support_agent',
+  getConversationSummary: 'support_agent',
+  getHighQualityResolutions: 'support_agent',
+  getSearchAnalytics: 'support_agent',
+
+  // Proactive maintenance
+  getChargerHealth: 'driver',
+  getCriticalAlerts: 'support_agent',
+  getUpcomingMaintenance: 'support_agent',
+  getHealthDashboard: 'support_agent',
+  scheduleMaintenance: 'operator',
+
+  // P3 strategic
+  startWorkflow: 'driver',
+  getUserProfile: 'driver', // Drivers only see their own profile
+  updateUserProfile: 'operator',
+  getRecommendations: 'support_agent',
+  checkFraudRisk: 'support_agent',
+  logVoiceCommand: 'driver',
+  getUserPoints: 'support_agent',
+  awardPoints: 'operator',
+  getKPIMetrics: 'support_agent',
+  executeReport: 'operator',
+  validateAPIKey: 'admin',
+  logAPIRequest: 'admin',
+} as const satisfies Record<string, ToolRole>;
+
+export function getRequiredRole(toolName: string): ToolRole {
+  return (AGENT_TOOL_ROLES as Record<string, ToolRole>)[toolName] ?? 'admin';
+}
+
+/**
+ * The caller's role from the Authorization header and user_roles
+ */
+export async function resolveCallerRole(caller: {
+  userId?: string | null;
+  authorization?: string | null;
+}): Promise<ToolRole> {
+  if (isAdminAuthorization(caller.authorization)) {
+    return 'admin';
+  }
+  if (!caller.userId) {
+    return 'driver';
+  }
+
+  try {
+    const row = await db.get<{ role: string }>('SELECT role FROM user_roles WHERE user_id = ?', [caller.userId]);
+    return isToolRole(row?.role) ? row.role : 'driver';
+  } catch (error) {
+    logger.error({ error, userId: caller.userId }, 'Failed to resolve user role');
+    return 'driver';
+  }
+}
+
+/**
+ * The role on a run's RuntimeContext (driver without a provider)
+ */
+export function getCallerRole(runtimeContext?: RuntimeContext): ToolRole {
+  return resolveToolServices({ runtimeContext }).identity.role;
+}
+
+/**
+ * The tools a role may see
+ */
+export function toolsForRole<T extends Record<string, unknown>>(
+  tools: T,
+  roles: Record<keyof T, ToolRole>,
+  role: ToolRole
+): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(tools).filter(([name]) => hasRole(role, roles[name as keyof T] ?? 'admin'))
+  ) as Partial<T>;
+}
+
+/**
+ * Write a denied tool call to security_audit_log
+ */
+export async function recordToolDenial(services: Pick<ToolServices, 'db' | 'identity'>, toolName: string, required: ToolRole): Promise<void> {
+  const { identity } = services;
+  logger.warn({ toolName, role: identity.role, required, userId: identity.userId, threadId: identity.threadId }, 'Tool call denied');
+
+  try {
+    await services.db.run(
+      `INSERT INTO security_audit_log (user_id, action, resource, result) VALUES (?, 'tool_call', ?, ?)`,
+      [identity.userId, `tool:${toolName}`, `denied: role ${identity.role} below ${required}${identity.channel ? ` (${identity.channel})` : ''}`]
+    );
+  } catch (error) {
+    logger.error({ error, toolName }, 'Failed to write tool denial to audit log');
+  }
+}
+
+/**
+ * Wrap each tool so it checks the caller's role before running
+ */
+export function guardTools<T extends Record<string, any>>(tools: T, roles: Record<keyof T, ToolRole>): T {
+  const guarded: Record<string, any> = {};
+
+  for (const [name, tool] of Object.entries(tools)) {
+    const required = roles[name as keyof T] ?? 'admin';
+    if (!tool?.execute) {
+      guarded[name] = tool;
+      continue;
+    }
+
+    guarded[name] = createTool({
+      ...tool,
+      execute: async (execution: any, options?: any) => {
+        const services = resolveToolServices(execution);
+        if (!hasRole(services.identity.role, required)) {
+          await recordToolDenial(services, name, required);
+          return { success: false, error: `Permission denied: ${name} requires the ${required} role` };
+        }
+        return tool.execute(execution, options);
+      },
+    });
+  }
+
+  return guarded as T;
+}
@@ -6,7 +6,7 @@
 import { createTool } from '@mastra/core';
 import { z } from 'zod';
 import { analyticsDashboardService } from '../../services/analyticsDashboardService';
-import logger from '../../utils/logger';
+import { logger } from '../../utils/logger';
 
 /**
  * Tool: Get Dashboard Metrics
@@ -44,7 +44,7 @@ export const getDashboardMetricsTool = createTool({
       };
       
     } catch (error) {
-      logger.error('Error in getDashboardMetricsTool:', error);
+      logger.error({ error }, 'Error in getDashboardMetricsTool');
       return {
         success: false,
         message: `Failed to get dashboard metrics: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -81,7 +81,7 @@ export const getRealtimeMetricsTool = createTool({
       };
       
     } catch (error) {
-      logger.error('Error in getRealtimeMetricsTool:', error);
+      logger.error({ error }, 'Error in getRealtimeMetricsTool');
       return {
         success: false,
         message: `Failed to get realtime metrics: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -129,7 +129,7 @@ export const getGeographicHotspotsTool = createTool({
       };
       
     } catch (error) {
-      logger.error('Error in getGeographicHotspotsTool:', error);
+      logger.error({ error }, 'Error in getGeographicHotspotsTool');
       return {
         success: false,
         message: `Failed to get geographic hotspots: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -173,7 +173,7 @@ export const getToolEffectivenessTool = createTool({
       };
       
     } catch (error) {
-      logger.error('Error in getToolEffectivenessTool:', error);
+      logger.error({ error }, 'Error in getToolEffectivenessTool');
       return {
         success: false,
         message: `Failed to get tool effectiveness: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -212,7 +212,7 @@ export const getTrendAnalysisTool = createTool({
       };
       
     } catch (error) {
-      logger.error('Error in getTrendAnalysisTool:', error);
+      logger.error({ error }, 'Error in getTrendAnalysisTool');
       return {
         success: false,
         message: `Failed to get trend analysis: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -259,7 +259,7 @@ export const exportDashboardDataTool = createTool({
       };
       
     } catch (error) {
-      logger.error('Error in exportDashboardDataTool:', error);
+      logger.error({ error }, 'Error in exportDashboardDataTool');
       return {
         success: false,
         message: `Failed to create export: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -311,7 +311,7 @@ export const getExportStatusTool = createTool({
       };
       
     } catch (error) {
-      logger.error('Error in getExportStatusTool:', error);
+      logger.error({ error }, 'Error in getExportStatusTool');
       return {
         success: false,
         message: `Failed to get export status: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -348,7 +348,7 @@ export const getPerformanceSummaryTool = createTool({
       };
       
     } catch (error) {
-      logger.error('Error in getPerformanceSummaryTool:', error);
+      logger.error({ error }, 'Error in getPerformanceSummaryTool');
       return {
         success: false,
         message: `Failed to get performance summary: ${error instanceof Error ? error.message : 'Unknown error'}`
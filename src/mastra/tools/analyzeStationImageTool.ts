@@ -1,7 +1,6 @@
 import { createTool } from '@mastra/core';
 import { z } from 'zod';
-import { openai } from '@ai-sdk/openai';
-import { generateText } from 'ai';
+import { getModelProviderRegistry } from '../../services/modelProvider';
 
 export const analyzeStationImageTool = createTool({
   id: 'analyze-station-image',
@@ -24,14 +23,13 @@ export const analyzeStationImageTool = createTool({
 5. Station identification numbers
 Provide a detailed analysis in Hebrew.`;
 
-      const result = await generateText({
-        model: openai('gpt-4o'),
+      const result = await getModelProviderRegistry().complete({ task: 'vision' }, {
         messages: [
           {
             role: 'user',
             content: [
               { type: 'text', text: prompt },
-              { type: 'image', image: imageUrl },
+              { type: 'image', url: imageUrl },
             ],
           },
         ],
@@ -3,24 +3,22 @@
  * Mastra tools for monitoring documentation sources and managing KB updates
  */
 
-import { createTool } from '@mastra/core';
 import { z } from 'zod';
-import type { D1Database } from '@cloudflare/workers-types';
+import { createContextTool } from '../toolContext';
 import { AutomatedKBUpdateService } from '../../services/automatedKBUpdateService';
 
 // ============================================================================
 // Tool 1: Check Documentation Source
 // ============================================================================
 
-export const checkDocSourceTool = createTool({
+export const checkDocSourceTool = createContextTool({
   id: 'check_doc_source',
-  name: 'Check Documentation Source',
   description: 'Manually trigger a check of a documentation source for updates.',
   inputSchema: z.object({
     source_id: z.number().describe('Documentation source ID to check')
   }),
-  execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
+  uses: ['db'],
+  execute: async (input, { db }) => {
     const service = new AutomatedKBUpdateService(db);
     
     const result = await service.checkDocSource(input.source_id);
@@ -40,15 +38,14 @@ export const checkDocSourceTool = createTool({
 // Tool 2: Get Pending Reviews
 // ============================================================================
 
-export const getPendingKBReviewsTool = createTool({
+export const getPendingKBReviewsTool = createContextTool({
   id: 'get_pending_kb_reviews',
-  name: 'Get Pending KB Reviews',
   description: 'Get list of documentation changes awaiting human review.',
   inputSchema: z.object({
     limit: z.number().optional().default(20).describe('Maximum number of reviews to return')
   }),
-  execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
+  uses: ['db'],
+  execute: async (input, { db }) => {
     const service = new AutomatedKBUpdateService(db);
     
     const reviews = await service.getPendingReviews(input.limit);
@@ -78,13 +75,12 @@ export const getPendingKBReviewsTool = createTool({
 // Tool 3: Get Scraping Health
 // ============================================================================
 
-export const getKBScrapingHealthTool = createTool({
+export const getKBScrapingHealthTool = createContextTool({
   id: 'get_kb_scraping_health',
-  name: 'Get KB Scraping Health',
   description: 'Get health status of all documentation scraping sources.',
   inputSchema: z.object({}),
-  execute: async ({ context }) => {
-    const db = context.db as D1Database;
+  uses: ['db'],
+  execute: async (_input, { db }) => {
     const service = new AutomatedKBUpdateService(db);
     
     const health = await service.getScrapingHealth();
@@ -115,15 +111,14 @@ export const getKBScrapingHealthTool = createTool({
 // Tool 4: Get Recent KB Changes
 // ============================================================================
 
-export const getRecentKBChangesTool = createTool({
+export const getRecentKBChangesTool = createContextTool({
   id: 'get_recent_kb_changes',
-  name: 'Get Recent KB Changes',
   description: 'Get recently detected changes in monitored documentation.',
   inputSchema: z.object({
     days: z.number().optional().default(7).describe('Number of days to look back')
   }),
-  execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
+  uses: ['db'],
+  execute: async (input, { db }) => {
     const service = new AutomatedKBUpdateService(db);
     
     const changes = await service.getRecentChanges(input.days);
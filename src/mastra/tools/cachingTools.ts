@@ -3,24 +3,21 @@
  * Mastra tools for cache management and circuit breaker monitoring
  */
 
-import { createTool } from '@mastra/core';
 import { z } from 'zod';
-import type { D1Database, KVNamespace } from '@cloudflare/workers-types';
+import { createContextTool } from '../toolContext';
 import { CachingService } from '../../services/cachingService';
 
 // ============================================================================
 // Tool 1: Get Cache Statistics
 // ============================================================================
 
-export const getCacheStatsTool = createTool({
+export const getCacheStatsTool = createContextTool({
   id: 'get_cache_stats',
-  name: 'Get Cache Statistics',
   description: 'Get current cache performance statistics including hit rate, total entries, and storage usage.',
   inputSchema: z.object({}),
-  execute: async ({ context }) => {
-    const db = context.db as D1Database;
-    const kv = context.kv as KVNamespace;
-    const service = new CachingService(db, kv);
+  uses: ['db', 'cache'],
+  execute: async (_input, { db, cache }) => {
+    const service = new CachingService(db, cache);
     
     const stats = await service.getStats();
     
@@ -44,18 +41,16 @@ export const getCacheStatsTool = createTool({
 // Tool 2: Invalidate Cache
 // ============================================================================
 
-export const invalidateCacheTool = createTool({
+export const invalidateCacheTool = createContextTool({
   id: 'invalidate_cache',
-  name: 'Invalidate Cache',
   description: 'Invalidate cache entries by key or pattern. Use pattern with * wildcard (e.g., "api:ampeco:*").',
   inputSchema: z.object({
     key: z.string().optional().describe('Specific cache key to invalidate'),
     pattern: z.string().optional().describe('Pattern to match multiple keys (use * as wildcard)')
   }),
-  execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
-    const kv = context.kv as KVNamespace;
-    const service = new CachingService(db, kv);
+  uses: ['db', 'cache'],
+  execute: async (input, { db, cache }) => {
+    const service = new CachingService(db, cache);
     
     if (!input.key && !input.pattern) {
       return {
@@ -84,17 +79,15 @@ export const invalidateCacheTool = createTool({
 // Tool 3: Get Circuit Breaker Status
 // ============================================================================
 
-export const getCircuitBreakerStatusTool = createTool({
+export const getCircuitBreakerStatusTool = createContextTool({
   id: 'get_circuit_breaker_status',
-  name: 'Get Circuit Breaker Status',
   description: 'Get the current status of all circuit breakers monitoring external services.',
   inputSchema: z.object({
     service_name: z.string().optional().describe('Specific service name (optional - returns all if not specified)')
   }),
-  execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
-    const kv = context.kv as KVNamespace;
-    const service = new CachingService(db, kv);
+  uses: ['db', 'cache'],
+  execute: async (input, { db, cache }) => {
+    const service = new CachingService(db, cache);
     
     if (input.service_name) {
       const state = await service.getCircuitBreakerState(input.service_name);
@@ -138,39 +131,31 @@ export const getCircuitBreakerStatusTool = createTool({
 // Tool 4: Reset Circuit Breaker
 // ============================================================================
 
-export const resetCircuitBreakerTool = createTool({
+export const resetCircuitBreakerTool = createContextTool({
   id: 'reset_circuit_breaker',
-  name: 'Reset Circuit Breaker',
   description: 'Manually reset a circuit breaker to closed state. Use when you know the service has recovered.',
   inputSchema: z.object({
     service_name: z.string().describe('Service name to reset')
   }),
-  execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
-    
-    await db
-      .prepare(`
-        UPDATE circuit_breaker_states
-        SET 
-          state = 'closed',
-          failure_count = 0,
-          success_count = 0,
-          closed_at = CURRENT_TIMESTAMP,
-          updated_at = CURRENT_TIMESTAMP
-        WHERE service_name = ?
-      `)
-      .bind(input.service_name)
-      .run();
+  uses: ['db'],
+  execute: async (input, { db }) => {
+    await db.run(`
+      UPDATE circuit_breaker_states
+      SET 
+        state = 'closed',
+        failure_count = 0,
+        success_count = 0,
+        closed_at = CURRENT_TIMESTAMP,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE service_name = ?
+    `, [input.service_name]);
     
     // Log event
-    await db
-      .prepare(`
-        INSERT INTO circuit_breaker_events (
-          service_name, event_type, previous_state, new_state
-        ) VALUES (?, 'closed', 'manual_reset', 'closed')
-      `)
-      .bind(input.service_name)
-      .run();
+    await db.run(`
+      INSERT INTO circuit_breaker_events (
+        service_name, event_type, previous_state, new_state
+      ) VALUES (?, 'closed', 'manual_reset', 'closed')
+    `, [input.service_name]);
     
     return {
       success: true,
@@ -185,15 +170,13 @@ export const resetCircuitBreakerTool = createTool({
 // Tool 5: Cleanup Expired Cache
 // ============================================================================
 
-export const cleanupExpiredCacheTool = createTool({
+export const cleanupExpiredCacheTool = createContextTool({
   id: 'cleanup_expired_cache',
-  name: 'Cleanup Expired Cache',
   description: 'Remove expired cache entries to free up storage space.',
   inputSchema: z.object({}),
-  execute: async ({ context }) => {
-    const db = context.db as D1Database;
-    const kv = context.kv as KVNamespace;
-    const service = new CachingService(db, kv);
+  uses: ['db', 'cache'],
+  execute: async (_input, { db, cache }) => {
+    const service = new CachingService(db, cache);
     
     const count = await service.cleanupExpired();
     
@@ -209,21 +192,17 @@ export const cleanupExpiredCacheTool = createTool({
 // Tool 6: Get Cache Performance by Type
 // ============================================================================
 
-export const getCachePerformanceByTypeTool = createTool({
+export const getCachePerformanceByTypeTool = createContextTool({
   id: 'get_cache_performance_by_type',
-  name: 'Get Cache Performance by Type',
   description: 'Analyze cache performance broken down by cache type (api_result, kb_article, etc.).',
   inputSchema: z.object({}),
-  execute: async ({ context }) => {
-    const db = context.db as D1Database;
-    
-    const result = await db
-      .prepare('SELECT * FROM v_cache_performance_by_type ORDER BY total_hits DESC')
-      .all();
+  uses: ['db'],
+  execute: async (_input, { db }) => {
+    const result = await db.query('SELECT * FROM v_cache_performance_by_type ORDER BY total_hits DESC');
     
     return {
       success: true,
-      performance_by_type: (result.results || []).map((r: any) => ({
+      performance_by_type: result.rows.map((r: any) => ({
         cache_type: r.cache_type,
         unique_keys: r.unique_keys,
         total_hits: r.total_hits,
@@ -0,0 +1,452 @@
+/**
+ * Charging Tools for Mastra Agent
+ * Vendor-neutral station, session, tariff and remote-command tools.
+ * Each call is routed to the charging backend that owns the station.
+ * Stop, reset and unlock only propose the command; it runs once the user
+ * confirms it (see services/stationCommandConfirmation).
+ */
+
+import { createTool } from '@mastra/core';
+import { z } from 'zod';
+import { getChargingBackendRegistry, ChargingSession } from '../../services/chargingBackend';
+import {
+  getStationCommandConfirmations,
+  type StationCommand,
+  type StationCommandParams,
+} from '../../services/stationCommandConfirmation';
+import { logger } from '../../utils/logger';
+import { createContextTool, type ToolServices } from '../toolContext';
+
+const stationIdSchema = z.string().describe('The station identifier the customer gave: socket number, station id or charger id (e.g. "12345", "ST-001")');
+
+function formatDuration(startedAt: Date, endedAt: Date = new Date()): string {
+  const durationMinutes = Math.floor((endedAt.getTime() - startedAt.getTime()) / 60000);
+  return `${Math.floor(durationMinutes / 60)}h ${durationMinutes % 60}m`;
+}
+
+function formatSession(session: ChargingSession) {
+  return {
+    sessionId: session.sessionId,
+    stationId: session.stationId,
+    connectorId: session.connectorId,
+    status: session.status,
+    startTime: session.startedAt.toISOString(),
+    endTime: session.endedAt?.toISOString(),
+    duration: formatDuration(session.startedAt, session.endedAt),
+    energyConsumed: session.energyKwh !== undefined ? `${session.energyKwh.toFixed(2)} kWh` : 'Calculating...',
+    cost: session.cost !== undefined ? `${session.cost.toFixed(2)} ${session.currency || 'ILS'}` : 'Calculating...',
+    chargingRate: session.powerKw !== undefined ? `${session.powerKw} kW` : 'Unknown',
+    powerKw: session.powerKw ?? null,
+    userId: session.userId,
+  };
+}
+
+function toolError(error: unknown) {
+  return {
+    success: false,
+    error: error instanceof Error ? error.message : 'Unknown error occurred',
+  };
+}
+
+/**
+ * Store a station command for the user to confirm
+ */
+async function proposeCommand(
+  services: Pick<ToolServices, 'identity' | 'language'>,
+  command: StationCommand,
+  stationId: string,
+  params: StationCommandParams
+) {
+  const confirmations = await getStationCommandConfirmations();
+  const result = await confirmations.propose({
+    command,
+    stationId,
+    params,
+    requestedBy: services.identity.userId,
+    threadId: services.identity.threadId,
+    channel: services.identity.channel,
+    language: services.language,
+  });
+
+  if (!result.success || !result.data) {
+    return {
+      success: false,
+      error: result.error || 'Failed to prepare the command',
+      cooldownSeconds: result.cooldownSeconds,
+    };
+  }
+
+  const action = result.data;
+  return {
+    success: true,
+    status: 'pending_confirmation' as const,
+    actionId: action.actionId,
+    command: action.command,
+    stationId: action.stationId,
+    ...action.params,
+    summary: action.summary,
+    expiresAt: action.expiresAt.toISOString(),
+    instructions: 'Nothing has been sent to the station yet. Show the user the summary and ask them to confirm; the command runs only after they confirm.',
+  };
+}
+
+/**
+ * Tool: Station status
+ */
+export const stationStatusTool = createTool({
+  id: 'station-status',
+  description: 'Check the status of a charging station. Returns station availability, connector status, power output and any error code.',
+  inputSchema: z.object({
+    stationId: stationIdSchema,
+  }),
+  execute: async ({ context }) => {
+    try {
+      const findResult = await getChargingBackendRegistry().findStation(context.stationId);
+
+      if (!findResult.success || !findResult.data) {
+        return {
+          success: false,
+          error: findResult.error || 'Station not found',
+        };
+      }
+
+      const { station } = findResult.data;
+
+      return {
+        success: true,
+        stationId: station.stationId,
+        name: station.stationName,
+        location: station.location?.address || 'Unknown location',
+        status: station.status,
+        connectors: station.connectors.map((c) => ({
+          connectorId: c.connectorId,
+          type: c.type,
+          status: c.status,
+          powerOutput: c.powerKw ? `${c.powerKw} kW` : 'Unknown',
+        })),
+        isAvailable: station.status === 'Available',
+        isFaulted: station.status === 'Faulted',
+        isOffline: station.status === 'Offline',
+        errorCode: station.errorCode || null,
+        errorMessage: station.errorMessage || null,
+        lastUpdate: station.lastUpdated,
+      };
+    } catch (error) {
+      logger.error({ error }, 'Station status tool error');
+      return toolError(error);
+    }
+  },
+});
+
+/**
+ * Tool: Active session at a station, or the current user's
+ */
+export const activeSessionTool = createContextTool({
+  id: 'active-session',
+  description: 'Check the current active charging session at a station, or the user\'s own active session when no station is given. Returns session details including kWh consumed, duration, and estimated cost.',
+  inputSchema: z.object({
+    stationId: stationIdSchema.optional(),
+  }),
+  uses: ['identity'],
+  execute: async (input, { identity }) => {
+    try {
+      const { stationId } = input;
+      // Only the user's own sessions when no station is given
+      const userId = stationId ? undefined : identity.userId;
+      const registry = getChargingBackendRegistry();
+      let sessions: ChargingSession[] = [];
+
+      if (stationId) {
+        const findResult = await registry.findStation(stationId);
+
+        if (!findResult.success || !findResult.data) {
+          return {
+            success: false,
+            error: findResult.error || 'Station not found',
+          };
+        }
+
+        const { backend, station } = findResult.data;
+        const sessionResult = await backend.getActiveSessions(station.stationId);
+
+        if (!sessionResult.success) {
+          return {
+            success: false,
+            error: 'Failed to fetch session data',
+            hasActiveSession: false,
+          };
+        }
+        sessions = sessionResult.data || [];
+      } else if (userId) {
+        for (const backend of registry.list()) {
+          const sessionResult = await backend.getActiveSessions();
+          if (sessionResult.success && sessionResult.data) {
+            sessions.push(...sessionResult.data);
+          }
+        }
+      } else {
+        return {
+          success: false,
+          error: 'A station id is required when the user is not known',
+        };
+      }
+
+      if (userId) {
+        sessions = sessions.filter((session) => session.userId === userId);
+      }
+
+      if (sessions.length === 0) {
+        return {
+          success: true,
+          hasActiveSession: false,
+          message: stationId ? 'No active charging session at this station' : 'No active charging session for this user',
+        };
+      }
+
+      return {
+        success: true,
+        hasActiveSession: true,
+        ...formatSession(sessions[0]),
+        otherSessions: sessions.slice(1).map(formatSession),
+      };
+    } catch (error) {
+      logger.error({ error }, 'Active session tool error');
+      return toolError(error);
+    }
+  },
+});
+
+/**
+ * Tool: The current user's session history
+ */
+export const sessionHistoryTool = createContextTool({
+  id: 'session-history',
+  description: 'Get the user\'s recent charging sessions, optionally only those at one station.',
+  inputSchema: z.object({
+    stationId: stationIdSchema.optional(),
+    limit: z.number().int().min(1).max(50).default(10).describe('Maximum number of sessions to return'),
+  }),
+  uses: ['identity'],
+  execute: async (input, { identity }) => {
+    try {
+      const { stationId, limit } = input;
+      const userId = identity.userId;
+      if (!userId) {
+        return {
+          success: false,
+          error: 'Session history is only available for a known user',
+        };
+      }
+
+      const registry = getChargingBackendRegistry();
+
+      let backends = registry.list();
+      let resolvedStationId: string | undefined;
+
+      if (stationId) {
+        const findResult = await registry.findStation(stationId);
+        if (!findResult.success || !findResult.data) {
+          return {
+            success: false,
+            error: findResult.error || 'Station not found',
+          };
+        }
+        backends = [findResult.data.backend];
+        resolvedStationId = findResult.data.station.stationId;
+      }
+
+      const sessions: ChargingSession[] = [];
+      for (const backend of backends) {
+        const result = await backend.getSessionHistory({ userId, stationId: resolvedStationId, limit });
+        if (result.success && result.data) {
+          sessions.push(...result.data);
+        }
+      }
+
+      sessions.sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+
+      return {
+        success: true,
+        count: Math.min(sessions.length, limit),
+        sessions: sessions.slice(0, limit).map(formatSession),
+      };
+    } catch (error) {
+      logger.error({ error }, 'Session history tool error');
+      return toolError(error);
+    }
+  },
+});
+
+/**
+ * Tool: Tariff for a station
+ */
+export const stationTariffTool = createTool({
+  id: 'station-tariff',
+  description: 'Get pricing/tariff information for a charging station. Returns cost per kWh, parking fees, and other charges.',
+  inputSchema: z.object({
+    stationId: stationIdSchema,
+  }),
+  execute: async ({ context }) => {
+    try {
+      const findResult = await getChargingBackendRegistry().findStation(context.stationId);
+
+      if (!findResult.success || !findResult.data) {
+        return {
+          success: false,
+          error: findResult.error || 'Station not found',
+        };
+      }
+
+      const { backend, station } = findResult.data;
+      const tariffResult = await backend.getTariff(station.stationId);
+
+      if (!tariffResult.success || !tariffResult.data) {
+        return {
+          success: false,
+          error: tariffResult.error || 'Failed to fetch tariff information',
+        };
+      }
+
+      const tariff = tariffResult.data;
+
+      return {
+        success: true,
+        stationId: station.stationId,
+        stationName: station.stationName,
+        currency: tariff.currency,
+        pricePerKwh: tariff.pricePerKwh !== undefined ? tariff.pricePerKwh.toFixed(2) : 'N/A',
+        parkingFee: tariff.parkingFeePerHour ? `${tariff.parkingFeePerHour.toFixed(2)} per hour` : 'None',
+        sessionStartFee: tariff.sessionStartFee ? tariff.sessionStartFee.toFixed(2) : 'None',
+        minimumCharge: tariff.minimumCharge ? tariff.minimumCharge.toFixed(2) : 'None',
+        freeMinutes: tariff.freeParkingMinutes || 0,
+        tariffName: tariff.name,
+        description: tariff.description || 'Standard charging rates apply',
+      };
+    } catch (error) {
+      logger.error({ error }, 'Tariff tool error');
+      return toolError(error);
+    }
+  },
+});
+
+/**
+ * Tool: Start charging remotely for the current user
+ */
+export const startChargingTool = createContextTool({
+  id: 'start-charging',
+  description: 'Remotely start a charging session at a station for the user. Useful when users want to start charging without using the app.',
+  inputSchema: z.object({
+    stationId: stationIdSchema,
+    connectorId: z.number().int().min(1).optional().describe('Connector/EVSE number to start charging on'),
+    idTag: z.string().optional().describe('Optional RFID tag/authorization ID'),
+  }),
+  uses: ['identity'],
+  execute: async (input, { identity }) => {
+    try {
+      const { stationId, connectorId, idTag } = input;
+      const userId = identity.userId ?? undefined;
+      const findResult = await getChargingBackendRegistry().findStation(stationId);
+
+      if (!findResult.success || !findResult.data) {
+        return {
+          success: false,
+          error: findResult.error || 'Station not found',
+        };
+      }
+
+      const { backend, station } = findResult.data;
+      const result = await backend.startCharging(station.stationId, { connectorId, userId, idTag });
+
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.error || 'Failed to start charging session',
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Charging session started successfully',
+        stationId: station.stationId,
+        connectorId,
+        sessionId: result.data?.sessionId,
+        instructions: [
+          'The charging session has been initiated',
+          'Please plug in the vehicle if not already connected',
+          'Charging will begin automatically',
+          'You can monitor progress in the app or dashboard',
+        ],
+      };
+    } catch (error) {
+      logger.error({ error }, 'Start charging tool error');
+      return toolError(error);
+    }
+  },
+});
+
+/**
+ * Tool: Stop charging remotely (after the user confirms)
+ */
+export const stopChargingTool = createContextTool({
+  id: 'stop-charging',
+  description: 'Propose stopping an active charging session at a station, when users want to stop before the vehicle is full or need to end the session. Nothing is sent yet: the user gets a summary and must confirm it (button or confirm in the chat) before charging stops. Tell the user what will happen and ask them to confirm.',
+  inputSchema: z.object({
+    stationId: stationIdSchema,
+    connectorId: z.number().int().min(1).optional().describe('Connector to stop if the station has several active sessions'),
+    reason: z.string().optional().describe('Optional reason for stopping (e.g., "user_request", "emergency")'),
+  }),
+  uses: ['identity', 'language'],
+  execute: async (input, services) => {
+    try {
+      const { stationId, connectorId, reason } = input;
+      return await proposeCommand(services, 'stop', stationId, { connectorId, reason });
+    } catch (error) {
+      logger.error({ error }, 'Stop charging tool error');
+      return toolError(error);
+    }
+  },
+});
+
+/**
+ * Tool: Reset a station (after the user confirms)
+ */
+export const resetStationTool = createContextTool({
+  id: 'reset-station',
+  description: 'Propose a remote reset of a charging station. Use soft reset first (restarts station software). Use hard reset only if soft reset fails (power cycle). Nothing is sent yet: the user gets a summary and must confirm it (button or confirm in the chat) before the station resets. Tell the user what will happen and ask them to confirm.',
+  inputSchema: z.object({
+    stationId: stationIdSchema,
+    resetType: z.enum(['soft', 'hard']).default('soft').describe('Type of reset: soft (software restart) or hard (power cycle)'),
+  }),
+  uses: ['identity', 'language'],
+  execute: async (input, services) => {
+    try {
+      const { stationId, resetType } = input;
+      return await proposeCommand(services, 'reset', stationId, { resetType });
+    } catch (error) {
+      logger.error({ error }, 'Reset station tool error');
+      return toolError(error);
+    }
+  },
+});
+
+/**
+ * Tool: Unlock a stuck connector (after the user confirms)
+ */
+export const unlockConnectorTool = createContextTool({
+  id: 'unlock-connector',
+  description: 'Propose unlocking a stuck charging connector/cable at a station, when a customer cannot remove the cable after charging. Nothing is sent yet: the user gets a summary and must confirm it (button or confirm in the chat) before the connector unlocks. Tell the user what will happen and ask them to confirm.',
+  inputSchema: z.object({
+    stationId: stationIdSchema,
+    connectorId: z.number().int().min(1).optional().describe('Connector number; defaults to the first connector'),
+  }),
+  uses: ['identity', 'language'],
+  execute: async (input, services) => {
+    try {
+      const { stationId, connectorId } = input;
+      return await proposeCommand(services, 'unlock', stationId, { connectorId });
+    } catch (error) {
+      logger.error({ error }, 'Unlock connector tool error');
+      return toolError(error);
+    }
+  },
+});
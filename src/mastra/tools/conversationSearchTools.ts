@@ -5,7 +5,7 @@
 
 import { createTool } from '@mastra/core';
 import { z } from 'zod';
-import type { D1Database } from '@cloudflare/workers-types';
+import { db } from '../../db';
 
 // ============================================================================
 // Tool 1: Search Conversations
@@ -22,13 +22,12 @@ export const searchConversationsTool = createTool({
     limit: z.number().optional().default(10).describe('Maximum results to return')
   }),
   execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
     const startTime = Date.now();
     
-    // Build FTS query
+    // Build FTS query (FTS5 index in SQLite, tsvector match in Postgres)
     let ftsQuery = `
       SELECT 
-        csf.conversation_id,
+        cs.conversation_id,
         cs.title,
         cs.summary,
         cs.primary_category,
@@ -37,9 +36,13 @@ export const searchConversationsTool = createTool({
         cs.satisfaction_score,
         cs.started_at,
         cs.ended_at
-      FROM conversation_summaries_fts csf
+      ${db.dialect === 'postgres'
+        ? `FROM conversation_summaries cs
+      WHERE to_tsvector('simple', COALESCE(cs.title, '') || ' ' || COALESCE(cs.summary, '') || ' ' || COALESCE(cs.key_points, '') || ' ' || COALESCE(cs.tags, ''))
+        @@ plainto_tsquery('simple', ?)`
+        : `FROM conversation_summaries_fts csf
       JOIN conversation_summaries cs ON csf.conversation_id = cs.conversation_id
-      WHERE conversation_summaries_fts MATCH ?
+      WHERE conversation_summaries_fts MATCH ?`}
     `;
     
     const bindings: any[] = [input.query];
@@ -57,29 +60,23 @@ export const searchConversationsTool = createTool({
     ftsQuery += ' ORDER BY cs.ended_at DESC LIMIT ?';
     bindings.push(input.limit);
     
-    const result = await db
-      .prepare(ftsQuery)
-      .bind(...bindings)
-      .all();
+    const result = await db.query(ftsQuery, bindings);
     
     const searchTime = Date.now() - startTime;
     
     // Log search
-    await db
-      .prepare(`
-        INSERT INTO conversation_search_logs (
-          query_text, search_type, results_count, search_time_ms
-        ) VALUES (?, 'keyword', ?, ?)
-      `)
-      .bind(input.query, result.results?.length || 0, searchTime)
-      .run();
+    await db.run(`
+      INSERT INTO conversation_search_logs (
+        query_text, search_type, results_count, search_time_ms
+      ) VALUES (?, 'keyword', ?, ?)
+    `, [input.query, result.rows.length, searchTime]);
     
     return {
       success: true,
       query: input.query,
-      results_count: result.results?.length || 0,
+      results_count: result.rows.length,
       search_time_ms: searchTime,
-      conversations: (result.results || []).map((r: any) => ({
+      conversations: result.rows.map((r: any) => ({
         conversation_id: r.conversation_id,
         title: r.title,
         summary: r.summary,
@@ -90,7 +87,7 @@ export const searchConversationsTool = createTool({
         started_at: r.started_at,
         ended_at: r.ended_at
       })),
-      message: `Found ${result.results?.length || 0} matching conversations`
+      message: `Found ${result.rows.length} matching conversations`
     };
   }
 });
@@ -108,34 +105,29 @@ export const getSimilarConversationsTool = createTool({
     limit: z.number().optional().default(5).describe('Maximum similar conversations to return')
   }),
   execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
-    
     // Get similar conversations
-    const result = await db
-      .prepare(`
-        SELECT 
-          sc.similar_conversation_id,
-          sc.similarity_score,
-          sc.similarity_type,
-          cs.title,
-          cs.summary,
-          cs.resolution_status,
-          cs.resolution_summary,
-          cs.primary_category
-        FROM similar_conversations sc
-        JOIN conversation_summaries cs ON sc.similar_conversation_id = cs.conversation_id
-        WHERE sc.conversation_id = ?
-        ORDER BY sc.similarity_score DESC
-        LIMIT ?
-      `)
-      .bind(input.conversation_id, input.limit)
-      .all();
+    const result = await db.query(`
+      SELECT 
+        sc.similar_conversation_id,
+        sc.similarity_score,
+        sc.similarity_type,
+        cs.title,
+        cs.summary,
+        cs.resolution_status,
+        cs.resolution_summary,
+        cs.primary_category
+      FROM similar_conversations sc
+      JOIN conversation_summaries cs ON sc.similar_conversation_id = cs.conversation_id
+      WHERE sc.conversation_id = ?
+      ORDER BY sc.similarity_score DESC
+      LIMIT ?
+    `, [input.conversation_id, input.limit]);
     
     return {
       success: true,
       conversation_id: input.conversation_id,
-      similar_count: result.results?.length || 0,
-      similar_conversations: (result.results || []).map((r: any) => ({
+      similar_count: result.rows.length,
+      similar_conversations: result.rows.map((r: any) => ({
         conversation_id: r.similar_conversation_id,
         similarity_score: r.similarity_score,
         similarity_type: r.similarity_type,
@@ -145,7 +137,7 @@ export const getSimilarConversationsTool = createTool({
         resolution_status: r.resolution_status,
         resolution_summary: r.resolution_summary
       })),
-      message: `Found ${result.results?.length || 0} similar conversations`
+      message: `Found ${result.rows.length} similar conversations`
     };
   }
 });
@@ -162,12 +154,10 @@ export const getConversationSummaryTool = createTool({
     conversation_id: z.string().describe('Conversation ID to retrieve')
   }),
   execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
-    
-    const summary = await db
-      .prepare('SELECT * FROM conversation_summaries WHERE conversation_id = ?')
-      .bind(input.conversation_id)
-      .first<any>();
+    const summary = await db.get<any>(
+      'SELECT * FROM conversation_summaries WHERE conversation_id = ?',
+      [input.conversation_id]
+    );
     
     if (!summary) {
       return {
@@ -177,15 +167,12 @@ export const getConversationSummaryTool = createTool({
     }
     
     // Get messages
-    const messages = await db
-      .prepare(`
-        SELECT role, content, timestamp, intent, sentiment
-        FROM conversation_messages_search
-        WHERE conversation_id = ?
-        ORDER BY timestamp ASC
-      `)
-      .bind(input.conversation_id)
-      .all();
+    const messages = await db.query(`
+      SELECT role, content, timestamp, intent, sentiment
+      FROM conversation_messages_search
+      WHERE conversation_id = ?
+      ORDER BY timestamp ASC
+    `, [input.conversation_id]);
     
     return {
       success: true,
@@ -203,7 +190,7 @@ export const getConversationSummaryTool = createTool({
         started_at: summary.started_at,
         ended_at: summary.ended_at
       },
-      messages: (messages.results || []).map((m: any) => ({
+      messages: messages.rows.map((m: any) => ({
         role: m.role,
         content: m.content.substring(0, 200), // Preview only
         timestamp: m.timestamp,
@@ -229,8 +216,6 @@ export const getHighQualityResolutionsTool = createTool({
     limit: z.number().optional().default(10).describe('Maximum results')
   }),
   execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
-    
     let query = `
       SELECT * FROM v_high_quality_resolutions
       WHERE satisfaction_score >= ?
@@ -245,15 +230,12 @@ export const getHighQualityResolutionsTool = createTool({
     query += ' LIMIT ?';
     bindings.push(input.limit);
     
-    const result = await db
-      .prepare(query)
-      .bind(...bindings)
-      .all();
+    const result = await db.query(query, bindings);
     
     return {
       success: true,
-      count: result.results?.length || 0,
-      resolutions: (result.results || []).map((r: any) => ({
+      count: result.rows.length,
+      resolutions: result.rows.map((r: any) => ({
         conversation_id: r.conversation_id,
         title: r.title,
         summary: r.summary,
@@ -264,7 +246,7 @@ export const getHighQualityResolutionsTool = createTool({
         duration_minutes: r.duration_minutes,
         ended_at: r.ended_at
       })),
-      message: `Found ${result.results?.length || 0} high-quality resolutions`
+      message: `Found ${result.rows.length} high-quality resolutions`
     };
   }
 });
@@ -279,27 +261,21 @@ export const getSearchAnalyticsTool = createTool({
   description: 'Get analytics about what people search for in conversation history.',
   inputSchema: z.object({}),
   execute: async ({ context }) => {
-    const db = context.db as D1Database;
-    
     // Get popular queries
-    const queries = await db
-      .prepare('SELECT * FROM v_popular_search_queries LIMIT 20')
-      .all();
+    const queries = await db.query('SELECT * FROM v_popular_search_queries LIMIT 20');
     
     // Get category breakdown
-    const categories = await db
-      .prepare('SELECT * FROM v_conversation_search_summary')
-      .all();
+    const categories = await db.query('SELECT * FROM v_conversation_search_summary');
     
     return {
       success: true,
-      popular_queries: (queries.results || []).map((q: any) => ({
+      popular_queries: queries.rows.map((q: any) => ({
         query: q.query_text,
         search_count: q.search_count,
         avg_results: Math.round(q.avg_results || 0),
         last_searched: q.last_searched_at
       })),
-      category_breakdown: (categories.results || []).map((c: any) => ({
+      category_breakdown: categories.rows.map((c: any) => ({
         category: c.primary_category,
         total_conversations: c.total_conversations,
         resolved_count: c.resolved_count,
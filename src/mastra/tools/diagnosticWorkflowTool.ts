@@ -1,7 +1,7 @@
 import { createTool } from '@mastra/core';
 import { z } from 'zod';
-import { workflowEngine } from '../../services/workflowEngine.js';
-import { DIAGNOSTIC_WORKFLOWS } from '../../workflows/diagnosticFlows.js';
+import { workflowEngine, WorkflowConflictError } from '../../services/workflowEngine.js';
+import { getWorkflowDefinitionService } from '../../services/workflowDefinitionService.js';
 import { logger } from '../../utils/logger.js';
 
 /**
@@ -15,33 +15,38 @@ export const startDiagnosticWorkflowTool = createTool({
   - "charging-wont-start": Charging won't begin (40% of tickets)
   - "slow-charging": Charging is slower than expected (25% of tickets)
   - "payment-issue": Payment or billing problems (15% of tickets)
+  Support leads can publish more workflows; use findMatchingWorkflow to discover them.
   
   Workflows guide the user step-by-step through troubleshooting with automatic tool calls and escalation.`,
   inputSchema: z.object({
     userId: z.string().describe('Discord user ID'),
-    workflowId: z.enum(['charging-wont-start', 'slow-charging', 'payment-issue']).describe('Which diagnostic workflow to start'),
+    workflowId: z.string().describe('Which diagnostic workflow to start (e.g. charging-wont-start)'),
     userMessage: z.string().describe('The user\'s original message describing the issue'),
+    channel: z.string().optional().describe('Channel the user is on (discord, web, ...)'),
   }),
   execute: async ({ context }) => {
     try {
-      const { userId, workflowId, userMessage } = context;
+      const { userId, workflowId, userMessage, channel } = context;
       
-      // Find the workflow
-      const workflow = DIAGNOSTIC_WORKFLOWS.find(w => w.id === workflowId);
-      if (!workflow) {
+      // Find the live version of the workflow
+      const resolved = await getWorkflowDefinitionService().resolveWorkflow(workflowId);
+      if (!resolved) {
         return {
           success: false,
           error: 'Workflow not found',
         };
       }
+      const workflow = resolved.workflow;
 
       // Check if user already has an active workflow
-      const existingSession = workflowEngine.getActiveSession(userId);
+      const existingSession = await workflowEngine.getActiveSession(userId, channel);
       if (existingSession) {
         return {
           success: false,
-          error: 'User already has an active workflow',
+          error: 'User already has an active workflow - continue it with continueDiagnosticWorkflow',
           sessionId: existingSession.id,
+          workflowId: existingSession.workflowId,
+          currentStepId: existingSession.currentStepId,
         };
       }
 
@@ -49,7 +54,8 @@ export const startDiagnosticWorkflowTool = createTool({
       const session = await workflowEngine.startWorkflow(userId, workflow, {
         userId,
         initialMessage: userMessage,
-      });
+        workflowVersion: resolved.version, // Pin the version so later edits don't move the steps
+      }, channel);
 
       const firstStep = workflowEngine.getCurrentStep(session, workflow);
       
@@ -62,6 +68,7 @@ export const startDiagnosticWorkflowTool = createTool({
       return {
         success: true,
         sessionId: session.id,
+        resumeCode: session.resumeCode,
         workflowName: workflow.name,
         estimatedTime: workflow.estimatedTime,
         firstStepMessage: firstStep?.content || {},
@@ -85,18 +92,21 @@ export const continueDiagnosticWorkflowTool = createTool({
   id: 'continueDiagnosticWorkflow',
   description: `Continue an active diagnostic workflow with user's response.
   Call this after each user message when a workflow is active.
-  The tool will determine the next step based on the user's answer.`,
+  The tool will determine the next step based on the user's answer.
+  Tool checks in the workflow (station status, resets, ...) are run automatically;
+  their outcomes are returned in actionsTaken.`,
   inputSchema: z.object({
     userId: z.string().describe('Discord user ID'),
     userResponse: z.string().describe('User\'s answer to the current step'),
-    toolResults: z.record(z.any()).optional().describe('Results from any tool calls made (e.g., station status, session data)'),
+    toolResults: z.record(z.any()).optional().describe('Extra context from tools you called yourself (optional; workflow tool steps run automatically)'),
+    channel: z.string().optional().describe('Channel the user is on (discord, web, ...)'),
   }),
   execute: async ({ context }) => {
     try {
-      const { userId, userResponse, toolResults } = context;
+      const { userId, userResponse, toolResults, channel } = context;
       
-      // Get active session
-      const session = workflowEngine.getActiveSession(userId);
+      // Get active session (rehydrated from the database if this worker hasn't seen it)
+      const session = await workflowEngine.getActiveSession(userId, channel);
       if (!session) {
         return {
           success: false,
@@ -105,7 +115,8 @@ export const continueDiagnosticWorkflowTool = createTool({
       }
 
       // Find the workflow
-      const workflow = DIAGNOSTIC_WORKFLOWS.find(w => w.id === session.workflowId);
+      const workflow = (await getWorkflowDefinitionService()
+        .resolveWorkflow(session.workflowId, session.context.workflowVersion))?.workflow;
       if (!workflow) {
         return {
           success: false,
@@ -129,9 +140,13 @@ export const continueDiagnosticWorkflowTool = createTool({
         workflowStatus: result.session.status,
       };
 
-      // If there's a tool call needed, include it
-      if (result.currentStep?.toolCall) {
-        response.toolCallNeeded = result.currentStep.toolCall;
+      // Tool steps the engine ran on the way (already reflected in the current step)
+      if (result.toolRuns.length > 0) {
+        response.actionsTaken = result.toolRuns.map((run) => ({
+          toolName: run.toolName,
+          status: run.status,
+          result: run.result,
+        }));
       }
 
       // If escalation is needed
@@ -156,6 +171,15 @@ export const continueDiagnosticWorkflowTool = createTool({
 
       return response;
     } catch (error: any) {
+      if (error instanceof WorkflowConflictError) {
+        // Another message for the same user advanced the flow first
+        return {
+          success: false,
+          conflict: true,
+          error: 'The workflow was updated by another request. Fetch the current step and ask again.',
+        };
+      }
+
       logger.error('Failed to continue diagnostic workflow', error);
       return {
         success: false,
@@ -165,6 +189,60 @@ export const continueDiagnosticWorkflowTool = createTool({
   },
 });
 
+/**
+ * Tool: Resume Diagnostic Workflow
+ * Pick up an interrupted workflow from another channel
+ */
+export const resumeDiagnosticWorkflowTool = createTool({
+  id: 'resumeDiagnosticWorkflow',
+  description: `Resume a diagnostic workflow the user started on another channel (e.g. started in the web chat, continuing on Discord).
+  Use this when the user gives a workflow resume code. Returns the step they left off at.`,
+  inputSchema: z.object({
+    userId: z.string().describe('User ID on the current channel'),
+    resumeCode: z.string().describe('Resume code shown when the workflow was started'),
+    channel: z.string().optional().describe('Channel the user is on (discord, web, ...)'),
+  }),
+  execute: async ({ context }) => {
+    try {
+      const { userId, resumeCode, channel } = context;
+
+      const session = await workflowEngine.resumeWithCode(resumeCode, userId, channel);
+      if (!session) {
+        return {
+          success: false,
+          error: 'No active workflow found for this resume code',
+        };
+      }
+
+      const workflow = (await getWorkflowDefinitionService()
+        .resolveWorkflow(session.workflowId, session.context.workflowVersion))?.workflow;
+      if (!workflow) {
+        return {
+          success: false,
+          error: 'Workflow not found',
+        };
+      }
+
+      const currentStep = workflowEngine.getCurrentStep(session, workflow);
+
+      return {
+        success: true,
+        sessionId: session.id,
+        workflowName: workflow.name,
+        currentStepMessage: currentStep?.content || {},
+        currentStepType: currentStep?.type,
+        stepsCompleted: session.stepHistory.length,
+      };
+    } catch (error: any) {
+      logger.error({ error }, 'Failed to resume diagnostic workflow');
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  },
+});
+
 /**
  * Tool: Find Matching Workflow
  * Analyze user's issue and recommend the best workflow
@@ -183,7 +261,7 @@ export const findMatchingWorkflowTool = createTool({
       
       const matchedWorkflow = workflowEngine.findMatchingWorkflow(
         userMessage,
-        DIAGNOSTIC_WORKFLOWS
+        await getWorkflowDefinitionService().getPublishedWorkflows()
       );
 
       if (!matchedWorkflow) {
@@ -222,7 +300,7 @@ export const getWorkflowAnalyticsTool = createTool({
   id: 'getWorkflowAnalytics',
   description: 'Get analytics and success metrics for a diagnostic workflow',
   inputSchema: z.object({
-    workflowId: z.enum(['charging-wont-start', 'slow-charging', 'payment-issue']).describe('Which workflow to get analytics for'),
+    workflowId: z.string().describe('Which workflow to get analytics for (e.g. charging-wont-start)'),
   }),
   execute: async ({ context }) => {
     try {
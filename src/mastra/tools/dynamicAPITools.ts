@@ -5,7 +5,7 @@
 
 import { createTool } from '@mastra/core';
 import { z } from 'zod';
-import type { D1Database } from '@cloudflare/workers-types';
+import { db } from '../../db';
 import { DynamicAPIService } from '../../services/dynamicAPIService';
 
 // ============================================================================
@@ -23,7 +23,6 @@ export const loadAPIFromURLTool = createTool({
     auth_credentials: z.record(z.any()).optional().describe('Authentication credentials (token, api key, etc.)')
   }),
   execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
     const service = new DynamicAPIService(db);
     
     const authConfig = input.auth_type && input.auth_credentials ? {
@@ -78,7 +77,6 @@ export const callDynamicAPITool = createTool({
     user_id: z.string().optional().describe('Current user ID for logging')
   }),
   execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
     const service = new DynamicAPIService(db);
     
     const result = await service.callAPI(
@@ -112,7 +110,6 @@ export const getAvailableAPIsTool = createTool({
     include_health: z.boolean().optional().default(true).describe('Include health status information')
   }),
   execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
     const service = new DynamicAPIService(db);
     
     const apis = await service.getActiveAPIs();
@@ -149,7 +146,6 @@ export const getAPIEndpointsTool = createTool({
     method: z.enum(['GET', 'POST', 'PUT', 'DELETE', 'PATCH']).optional().describe('Filter by HTTP method')
   }),
   execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
     const service = new DynamicAPIService(db);
     
     let endpoints = await service.getAPIEndpoints(input.api_name);
@@ -188,7 +184,6 @@ export const checkAPIHealthTool = createTool({
     api_name: z.string().describe('API name to check')
   }),
   execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
     const service = new DynamicAPIService(db);
     
     await service.checkAPIHealth(input.api_name);
@@ -218,7 +213,6 @@ export const getAPIPerformanceTool = createTool({
     api_name: z.string().optional().describe('Specific API name (optional - returns all if not specified)')
   }),
   execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
     const service = new DynamicAPIService(db);
     
     const metrics = await service.getAPIPerformance(input.api_name);
@@ -258,19 +252,15 @@ export const toggleAPIEndpointTool = createTool({
     enabled: z.boolean().describe('true to enable, false to disable')
   }),
   execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
     const service = new DynamicAPIService(db);
     
     const api = await service.getAPISpecification(input.api_name);
     
-    await db
-      .prepare(`
-        UPDATE api_endpoints 
-        SET is_enabled = ?, updated_at = CURRENT_TIMESTAMP
-        WHERE api_id = ? AND operation_id = ?
-      `)
-      .bind(input.enabled ? 1 : 0, api.id, input.operation_id)
-      .run();
+    await db.run(`
+      UPDATE api_endpoints 
+      SET is_enabled = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE api_id = ? AND operation_id = ?
+    `, [input.enabled, api.id, input.operation_id]);
     
     return {
       success: true,
@@ -298,37 +288,33 @@ export const addAPIFallbackTool = createTool({
     priority: z.number().optional().default(0).describe('Priority (higher = try first)')
   }),
   execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
     const service = new DynamicAPIService(db);
     
     const api = await service.getAPISpecification(input.api_name);
     
     let endpointId: number | null = null;
     if (input.operation_id) {
-      const endpoint = await db
-        .prepare('SELECT id FROM api_endpoints WHERE api_id = ? AND operation_id = ?')
-        .bind(api.id, input.operation_id)
-        .first<{ id: number }>();
+      const endpoint = await db.get<{ id: number }>(
+        'SELECT id FROM api_endpoints WHERE api_id = ? AND operation_id = ?',
+        [api.id, input.operation_id]
+      );
       
       if (endpoint) {
         endpointId = endpoint.id;
       }
     }
     
-    await db
-      .prepare(`
-        INSERT INTO api_fallback_configs (
-          api_id, endpoint_id, fallback_type, fallback_config, priority, is_enabled
-        ) VALUES (?, ?, ?, ?, ?, 1)
-      `)
-      .bind(
-        api.id,
-        endpointId,
-        input.fallback_type,
-        JSON.stringify(input.fallback_config),
-        input.priority
-      )
-      .run();
+    await db.run(`
+      INSERT INTO api_fallback_configs (
+        api_id, endpoint_id, fallback_type, fallback_config, priority, is_enabled
+      ) VALUES (?, ?, ?, ?, ?, 1)
+    `, [
+      api.id,
+      endpointId,
+      input.fallback_type,
+      JSON.stringify(input.fallback_config),
+      input.priority,
+    ]);
     
     return {
       success: true,
@@ -20,7 +20,7 @@ and includes additional context like:
 - Recent error patterns
 - Connector availability
 
-Use this tool instead of ampecoStationStatus for faster responses.
+Use this tool instead of stationStatus for faster responses.
   `.trim(),
   
   inputSchema: z.object({
@@ -6,7 +6,8 @@
 import { createTool } from '@mastra/core';
 import { z } from 'zod';
 import { escalationService, EscalationContext, ConversationMessage } from '../../services/escalationService';
-import logger from '../../utils/logger';
+import { logger } from '../../utils/logger';
+import { resolveToolServices } from '../toolContext';
 
 /**
  * Tool: Check if conversation should be escalated
@@ -71,7 +72,7 @@ export const checkEscalationTool = createTool({
     priorityScore: z.number(),
     recommendedAction: z.string()
   }),
-  execute: async ({ context, ...input }) => {
+  execute: async ({ context: input }) => {
     try {
       logger.info(`Checking escalation for user ${input.userId}`);
       
@@ -133,7 +134,7 @@ export const checkEscalationTool = createTool({
       };
       
     } catch (error) {
-      logger.error('Error in checkEscalation tool:', error);
+      logger.error({ error }, 'Error in checkEscalation tool');
       return {
         shouldEscalate: false,
         triggers: [],
@@ -204,9 +205,10 @@ export const createEscalationTicketTool = createTool({
     issueType: z.string(),
     humanHandoffMessage: z.string()
   }),
-  execute: async ({ context, ...input }) => {
+  execute: async ({ context: input, ...execution }) => {
     try {
       logger.info(`Creating escalation ticket for user ${input.userId}`);
+      const { identity, language } = resolveToolServices(execution);
       
       // Build context
       const escalationContext: EscalationContext = {
@@ -226,7 +228,10 @@ export const createEscalationTicketTool = createTool({
           sentiment: s.sentiment,
           score: s.score
         })),
-        diagnosticResults: input.diagnosticResults
+        diagnosticResults: input.diagnosticResults,
+        threadId: identity.threadId ?? undefined,
+        channel: identity.channel ?? undefined,
+        language
       };
       
       // Create ticket
@@ -273,7 +278,7 @@ export const createEscalationTicketTool = createTool({
       };
       
     } catch (error) {
-      logger.error('Error creating escalation ticket:', error);
+      logger.error({ error }, 'Error creating escalation ticket');
       return {
         success: false,
         ticketId: '',
@@ -325,7 +330,7 @@ export const getEscalationAnalyticsTool = createTool({
         }
       };
     } catch (error) {
-      logger.error('Error getting escalation analytics:', error);
+      logger.error({ error }, 'Error getting escalation analytics');
       return {
         analytics: [],
         summary: {
@@ -359,7 +364,7 @@ export const getActiveEscalationsTool = createTool({
         count: escalations.length
       };
     } catch (error) {
-      logger.error('Error getting active escalations:', error);
+      logger.error({ error }, 'Error getting active escalations');
       return {
         escalations: [],
         count: 0
@@ -392,7 +397,7 @@ export const resolveEscalationTool = createTool({
         message: `Ticket ${ticketId} marked as resolved`
       };
     } catch (error) {
-      logger.error('Error resolving escalation:', error);
+      logger.error({ error }, 'Error resolving escalation');
       return {
         success: false,
         message: `Failed to resolve ticket ${ticketId}`
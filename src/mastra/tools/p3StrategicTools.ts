@@ -5,7 +5,9 @@
 
 import { createTool } from '@mastra/core';
 import { z } from 'zod';
-import type { D1Database } from '@cloudflare/workers-types';
+import { db } from '../../db';
+import { createContextTool } from '../toolContext';
+import { hasRole } from '../toolPermissions';
 
 // ============================================================================
 // Feature #18: Workflow Engine Tools
@@ -21,13 +23,12 @@ export const startWorkflowTool = createTool({
     user_id: z.string().optional()
   }),
   execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
     const executionId = `WFE-${Date.now()}`;
     
-    await db.prepare(`
+    await db.run(`
       INSERT INTO workflow_executions (execution_id, workflow_id, conversation_id, user_id, status)
       VALUES (?, ?, ?, ?, 'in_progress')
-    `).bind(executionId, input.workflow_id, input.conversation_id, input.user_id || null).run();
+    `, [executionId, input.workflow_id, input.conversation_id, input.user_id || null]);
     
     return { success: true, execution_id: executionId, message: 'Workflow started' };
   }
@@ -37,18 +38,23 @@ export const startWorkflowTool = createTool({
 // Feature #19: User Profile Tools
 // ============================================================================
 
-export const getUserProfileTool = createTool({
+export const getUserProfileTool = createContextTool({
   id: 'get_user_profile',
-  name: 'Get User Profile',
-  description: 'Get user profile information and preferences.',
+  description: 'Get user profile information and preferences. Defaults to the current user.',
   inputSchema: z.object({
-    user_id: z.string().describe('User ID')
+    user_id: z.string().optional().describe('User ID (defaults to the current user)')
   }),
-  execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
-    
-    const profile = await db.prepare('SELECT * FROM user_profiles WHERE user_id = ?')
-      .bind(input.user_id).first<any>();
+  uses: ['db', 'identity'],
+  execute: async (input, { db, identity }) => {
+    const userId = input.user_id || identity.userId;
+    if (!userId) {
+      return { success: false, message: 'No user ID given and no current user' };
+    }
+    if (userId !== identity.userId && !hasRole(identity.role, 'support_agent')) {
+      return { success: false, message: 'Drivers can only view their own profile' };
+    }
+
+    const profile = await db.get<any>('SELECT * FROM user_profiles WHERE user_id = ?', [userId]);
     
     if (!profile) {
       return { success: false, message: 'Profile not found' };
@@ -68,24 +74,32 @@ export const getUserProfileTool = createTool({
   }
 });
 
-export const updateUserProfileTool = createTool({
+// Columns updateUserProfile may write; user_id and timestamps are never client-set
+const UPDATABLE_PROFILE_FIELDS = ['email', 'phone', 'preferred_language', 'vehicle_model', 'home_station_id', 'subscription_tier'] as const;
+
+export const updateUserProfileTool = createContextTool({
   id: 'update_user_profile',
-  name: 'Update User Profile',
-  description: 'Update user profile information.',
+  description: `Update user profile information. Updatable fields: ${UPDATABLE_PROFILE_FIELDS.join(', ')}.`,
   inputSchema: z.object({
     user_id: z.string().describe('User ID'),
     updates: z.record(z.any()).describe('Fields to update')
   }),
-  execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
-    
-    // Build dynamic update query
+  uses: ['db'],
+  execute: async (input, { db }) => {
     const fields = Object.keys(input.updates);
+    const unknown = fields.filter(f => !(UPDATABLE_PROFILE_FIELDS as readonly string[]).includes(f));
+    if (fields.length === 0 || unknown.length > 0) {
+      return { success: false, message: unknown.length > 0 ? `Fields can't be updated: ${unknown.join(', ')}` : 'No fields to update' };
+    }
+
+    // Build dynamic update query
     const setClause = fields.map(f => `${f} = ?`).join(', ');
-    const values = [...Object.values(input.updates), input.user_id];
+    const values = [...fields.map(f => input.updates[f]), input.user_id];
     
-    await db.prepare(`UPDATE user_profiles SET ${setClause}, updated_at = CURRENT_TIMESTAMP WHERE user_id = ?`)
-      .bind(...values).run();
+    await db.run(
+      `UPDATE user_profiles SET ${setClause}, updated_at = CURRENT_TIMESTAMP WHERE user_id = ?`,
+      values
+    );
     
     return { success: true, message: 'Profile updated' };
   }
@@ -104,8 +118,6 @@ export const getRecommendationsTool = createTool({
     recommendation_type: z.string().optional().describe('Type filter')
   }),
   execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
-    
     let query = 'SELECT * FROM user_recommendations WHERE user_id = ?';
     const bindings: any[] = [input.user_id];
     
@@ -116,12 +128,12 @@ export const getRecommendationsTool = createTool({
     
     query += ' ORDER BY score DESC LIMIT 10';
     
-    const result = await db.prepare(query).bind(...bindings).all();
+    const result = await db.query(query, bindings);
     
     return {
       success: true,
-      count: result.results?.length || 0,
-      recommendations: result.results || []
+      count: result.rows.length,
+      recommendations: result.rows
     };
   }
 });
@@ -140,17 +152,15 @@ export const checkFraudRiskTool = createTool({
     event_data: z.record(z.any()).optional()
   }),
   execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
-    
     // Simple risk scoring (in production, use ML model)
     const riskScore = Math.random() * 0.3; // Mock low risk
     
     if (riskScore > 0.7) {
       const eventId = `FD-${Date.now()}`;
-      await db.prepare(`
-        INSERT INTO fraud_detection_events (event_id, user_id, event_type, risk_score, status)
+      await db.run(`
+        INSERT INTO fraud_risk_events (event_id, user_id, event_type, risk_score, status)
         VALUES (?, ?, ?, ?, 'pending')
-      `).bind(eventId, input.user_id, input.event_type, riskScore).run();
+      `, [eventId, input.user_id, input.event_type, riskScore]);
       
       return {
         success: true,
@@ -185,20 +195,19 @@ export const logVoiceCommandTool = createTool({
     response_text: z.string().describe('Response text')
   }),
   execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
     const commandId = `VC-${Date.now()}`;
     
-    await db.prepare(`
-      INSERT INTO voice_commands (command_id, user_id, platform, command_text, intent, response_text)
-      VALUES (?, ?, ?, ?, ?, ?)
-    `).bind(
-      commandId,
-      input.user_id || null,
-      input.platform,
-      input.command_text,
-      input.intent || null,
-      input.response_text
-    ).run();
+    await db.run(`
+    INSERT INTO voice_commands (command_id, user_id, platform, command_text, intent, response_text)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `, [
+    commandId,
+    input.user_id || null,
+    input.platform,
+    input.command_text,
+    input.intent || null,
+    input.response_text,
+    ]);
     
     return { success: true, command_id: commandId, message: 'Voice command logged' };
   }
@@ -216,15 +225,11 @@ export const getUserPointsTool = createTool({
     user_id: z.string().describe('User ID')
   }),
   execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
-    
-    const points = await db.prepare('SELECT * FROM user_points WHERE user_id = ?')
-      .bind(input.user_id).first<any>();
+    const points = await db.get<any>('SELECT * FROM user_points WHERE user_id = ?', [input.user_id]);
     
     if (!points) {
       // Create initial points
-      await db.prepare('INSERT INTO user_points (user_id, points, level) VALUES (?, 0, 1)')
-        .bind(input.user_id).run();
+      await db.run('INSERT INTO user_points (user_id, points, level) VALUES (?, 0, 1)', [input.user_id]);
       return { success: true, points: 0, level: 1, badges: [] };
     }
     
@@ -248,21 +253,19 @@ export const awardPointsTool = createTool({
     description: z.string().optional()
   }),
   execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
-    
     // Update points
-    await db.prepare(`
+    await db.run(`
       INSERT INTO user_points (user_id, points, level) VALUES (?, ?, 1)
       ON CONFLICT (user_id) DO UPDATE SET 
         points = points + ?,
         updated_at = CURRENT_TIMESTAMP
-    `).bind(input.user_id, input.points, input.points).run();
+    `, [input.user_id, input.points, input.points]);
     
     // Log transaction
-    await db.prepare(`
+    await db.run(`
       INSERT INTO points_transactions (user_id, points, transaction_type, description)
       VALUES (?, ?, ?, ?)
-    `).bind(input.user_id, input.points, input.transaction_type, input.description || null).run();
+    `, [input.user_id, input.points, input.transaction_type, input.description || null]);
     
     return { success: true, points_awarded: input.points, message: `Awarded ${input.points} points` };
   }
@@ -280,18 +283,16 @@ export const getKPIMetricsTool = createTool({
     days: z.number().optional().default(7).describe('Number of days to analyze')
   }),
   execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
-    
-    const result = await db.prepare(`
+    const result = await db.query(`
       SELECT * FROM kpi_metrics 
-      WHERE date >= date('now', '-' || ? || ' days')
+      WHERE date >= ${db.sql.dateFromTodayBy('?')}
       ORDER BY date DESC
-    `).bind(input.days).all();
+    `, [-input.days]);
     
     return {
       success: true,
       time_range: `Last ${input.days} days`,
-      metrics: result.results || []
+      metrics: result.rows
     };
   }
 });
@@ -304,32 +305,33 @@ export const executeReportTool = createTool({
     report_id: z.string().describe('Report ID to execute')
   }),
   execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
     const startTime = Date.now();
     
-    const report = await db.prepare('SELECT * FROM bi_reports WHERE report_id = ? AND is_active = 1')
-      .bind(input.report_id).first<any>();
+    const report = await db.get<any>(
+      `SELECT * FROM bi_reports WHERE report_id = ? AND is_active = ${db.sql.bool(true)}`,
+      [input.report_id]
+    );
     
     if (!report) {
       return { success: false, message: 'Report not found' };
     }
     
     // Execute report query
-    const result = await db.prepare(report.query_sql).all();
+    const result = await db.query(report.query_sql);
     const executionTime = Date.now() - startTime;
     
     // Log execution
-    await db.prepare(`
+    await db.run(`
       INSERT INTO bi_report_executions (report_id, execution_time_ms, row_count)
       VALUES (?, ?, ?)
-    `).bind(input.report_id, executionTime, result.results?.length || 0).run();
+    `, [input.report_id, executionTime, result.rows.length]);
     
     return {
       success: true,
       report_name: report.report_name,
       execution_time_ms: executionTime,
-      row_count: result.results?.length || 0,
-      data: result.results || []
+      row_count: result.rows.length,
+      data: result.rows
     };
   }
 });
@@ -346,10 +348,10 @@ export const validateAPIKeyTool = createTool({
     api_key: z.string().describe('API key to validate')
   }),
   execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
-    
-    const partner = await db.prepare('SELECT * FROM api_partners WHERE api_key = ? AND is_active = 1')
-      .bind(input.api_key).first<any>();
+    const partner = await db.get<any>(
+      `SELECT * FROM api_partners WHERE api_key = ? AND is_active = ${db.sql.bool(true)}`,
+      [input.api_key]
+    );
     
     if (!partner) {
       return { success: false, valid: false, message: 'Invalid API key' };
@@ -378,18 +380,16 @@ export const logAPIRequestTool = createTool({
     response_time_ms: z.number().describe('Response time')
   }),
   execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
-    
-    await db.prepare(`
-      INSERT INTO api_requests_log (partner_id, endpoint, method, status_code, response_time_ms)
-      VALUES (?, ?, ?, ?, ?)
-    `).bind(
-      input.partner_id,
-      input.endpoint,
-      input.method,
-      input.status_code,
-      input.response_time_ms
-    ).run();
+    await db.run(`
+    INSERT INTO api_requests_log (partner_id, endpoint, method, status_code, response_time_ms)
+    VALUES (?, ?, ?, ?, ?)
+  `, [
+    input.partner_id,
+    input.endpoint,
+    input.method,
+    input.status_code,
+    input.response_time_ms,
+    ]);
     
     return { success: true, message: 'API request logged' };
   }
@@ -6,7 +6,7 @@
 import { createTool } from '@mastra/core';
 import { z } from 'zod';
 import { predictiveDetectionService, SessionData } from '../../services/predictiveDetectionService';
-import logger from '../../utils/logger';
+import { logger } from '../../utils/logger';
 
 /**
  * Tool: Predict session outcome
@@ -110,7 +110,7 @@ export const predictSessionOutcomeTool = createTool({
       };
       
     } catch (error) {
-      logger.error('Error in predictSessionOutcome tool:', error);
+      logger.error({ error }, 'Error in predictSessionOutcome tool');
       return {
         sessionId: input.sessionId,
         escalationProbability: 0.3,
@@ -203,7 +203,7 @@ export const detectAnomaliesTool = createTool({
       };
       
     } catch (error) {
-      logger.error('Error detecting anomalies:', error);
+      logger.error({ error }, 'Error detecting anomalies');
       return {
         anomaliesDetected: false,
         anomalies: [],
@@ -251,7 +251,7 @@ export const sendProactiveNotificationTool = createTool({
       };
       
     } catch (error) {
-      logger.error('Error sending proactive notification:', error);
+      logger.error({ error }, 'Error sending proactive notification');
       return {
         success: false,
         notificationId: '',
@@ -291,7 +291,7 @@ export const getHighRiskUsersTool = createTool({
         summary
       };
     } catch (error) {
-      logger.error('Error getting high-risk users:', error);
+      logger.error({ error }, 'Error getting high-risk users');
       return {
         users: [],
         count: 0,
@@ -327,7 +327,7 @@ export const getActiveAnomaliesTool = createTool({
         criticalCount
       };
     } catch (error) {
-      logger.error('Error getting active anomalies:', error);
+      logger.error({ error }, 'Error getting active anomalies');
       return {
         anomalies: [],
         count: 0,
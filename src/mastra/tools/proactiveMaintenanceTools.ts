@@ -5,23 +5,22 @@
 
 import { createTool } from '@mastra/core';
 import { z } from 'zod';
-import type { D1Database } from '@cloudflare/workers-types';
+import { db } from '../../db';
+import { createContextTool } from '../toolContext';
 
 // ============================================================================
 // Tool 1: Get Charger Health Status
 // ============================================================================
 
-export const getChargerHealthTool = createTool({
+export const getChargerHealthTool = createContextTool({
   id: 'get_charger_health',
-  name: 'Get Charger Health Status',
   description: 'Get the current health score and status of a charging station.',
   inputSchema: z.object({
     station_id: z.string().describe('Charging station ID'),
     connector_id: z.string().optional().describe('Specific connector ID (optional)')
   }),
-  execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
-    
+  uses: ['db'],
+  execute: async (input, { db }) => {
     let query = `
       SELECT * FROM charger_health_scores
       WHERE station_id = ?
@@ -35,10 +34,7 @@ export const getChargerHealthTool = createTool({
     
     query += ' ORDER BY calculated_at DESC LIMIT 1';
     
-    const result = await db
-      .prepare(query)
-      .bind(...bindings)
-      .first<any>();
+    const result = await db.get<any>(query, bindings);
     
     if (!result) {
       return {
@@ -80,8 +76,6 @@ export const getCriticalAlertsTool = createTool({
     station_id: z.string().optional().describe('Filter by specific station (optional)')
   }),
   execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
-    
     let query = 'SELECT * FROM v_critical_alerts';
     const bindings: any[] = [];
     
@@ -92,15 +86,12 @@ export const getCriticalAlertsTool = createTool({
     
     query += ' LIMIT 20';
     
-    const result = await db
-      .prepare(query)
-      .bind(...bindings)
-      .all();
+    const result = await db.query(query, bindings);
     
     return {
       success: true,
-      count: result.results?.length || 0,
-      alerts: (result.results || []).map((a: any) => ({
+      count: result.rows.length,
+      alerts: result.rows.map((a: any) => ({
         alert_id: a.alert_id,
         station_id: a.station_id,
         connector_id: a.connector_id,
@@ -116,7 +107,7 @@ export const getCriticalAlertsTool = createTool({
         health_score: a.health_score,
         status: a.status
       })),
-      message: `Found ${result.results?.length || 0} critical alerts`
+      message: `Found ${result.rows.length} critical alerts`
     };
   }
 });
@@ -134,9 +125,7 @@ export const getUpcomingMaintenanceTool = createTool({
     station_id: z.string().optional().describe('Filter by specific station')
   }),
   execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
-    
-    let query = 'SELECT * FROM v_upcoming_maintenance WHERE scheduled_date <= date(\'now\', \'+\' || ? || \' days\')';
+    let query = `SELECT * FROM v_upcoming_maintenance WHERE scheduled_date <= ${db.sql.dateFromTodayBy('?')}`;
     const bindings: any[] = [input.days];
     
     if (input.station_id) {
@@ -146,16 +135,13 @@ export const getUpcomingMaintenanceTool = createTool({
     
     query += ' LIMIT 50';
     
-    const result = await db
-      .prepare(query)
-      .bind(...bindings)
-      .all();
+    const result = await db.query(query, bindings);
     
     return {
       success: true,
       time_range: `Next ${input.days} days`,
-      count: result.results?.length || 0,
-      maintenance_schedule: (result.results || []).map((m: any) => ({
+      count: result.rows.length,
+      maintenance_schedule: result.rows.map((m: any) => ({
         maintenance_id: m.maintenance_id,
         station_id: m.station_id,
         connector_id: m.connector_id,
@@ -169,7 +155,7 @@ export const getUpcomingMaintenanceTool = createTool({
         current_health_score: m.current_health_score,
         hours_until_maintenance: m.hours_until_maintenance
       })),
-      message: `Found ${result.results?.length || 0} scheduled maintenance activities`
+      message: `Found ${result.rows.length} scheduled maintenance activities`
     };
   }
 });
@@ -186,8 +172,6 @@ export const getHealthDashboardTool = createTool({
     risk_level: z.enum(['low', 'medium', 'high', 'critical']).optional().describe('Filter by risk level')
   }),
   execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
-    
     let query = 'SELECT * FROM v_charger_health_dashboard';
     const bindings: any[] = [];
     
@@ -198,12 +182,9 @@ export const getHealthDashboardTool = createTool({
     
     query += ' LIMIT 100';
     
-    const result = await db
-      .prepare(query)
-      .bind(...bindings)
-      .all();
+    const result = await db.query(query, bindings);
     
-    const chargers = result.results || [];
+    const chargers = result.rows;
     
     // Calculate summary stats
     const summary = {
@@ -254,27 +235,22 @@ export const scheduleMaintenanceTool = createTool({
     alert_id: z.string().optional().describe('Related alert ID if scheduling from alert')
   }),
   execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
-    
     const maintenanceId = `MAINT-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     
-    await db
-      .prepare(`
-        INSERT INTO scheduled_maintenance (
-          maintenance_id, station_id, connector_id, scheduled_date,
-          maintenance_type, description, status, alert_id
-        ) VALUES (?, ?, ?, ?, ?, ?, 'scheduled', ?)
-      `)
-      .bind(
-        maintenanceId,
-        input.station_id,
-        input.connector_id || null,
-        input.scheduled_date,
-        input.maintenance_type,
-        input.description,
-        input.alert_id || null
-      )
-      .run();
+    await db.run(`
+      INSERT INTO scheduled_maintenance (
+        maintenance_id, station_id, connector_id, scheduled_date,
+        maintenance_type, description, status, alert_id
+      ) VALUES (?, ?, ?, ?, ?, ?, 'scheduled', ?)
+    `, [
+      maintenanceId,
+      input.station_id,
+      input.connector_id || null,
+      input.scheduled_date,
+      input.maintenance_type,
+      input.description,
+      input.alert_id || null,
+    ]);
     
     return {
       success: true,
@@ -6,7 +6,7 @@
 import { createTool } from '@mastra/core';
 import { z } from 'zod';
 import { qualityScoringService, ConversationData } from '../../services/qualityScoringService';
-import logger from '../../utils/logger';
+import { logger } from '../../utils/logger';
 
 /**
  * Tool: Score conversation quality
@@ -131,7 +131,7 @@ export const scoreConversationQualityTool = createTool({
       };
       
     } catch (error) {
-      logger.error('Error in scoreConversationQuality tool:', error);
+      logger.error({ error }, 'Error in scoreConversationQuality tool');
       return {
         conversationId: input.conversationId,
         overallScore: 0,
@@ -201,7 +201,7 @@ export const getQualityAnalyticsTool = createTool({
         }
       };
     } catch (error) {
-      logger.error('Error getting quality analytics:', error);
+      logger.error({ error }, 'Error getting quality analytics');
       return {
         analytics: [],
         summary: {
@@ -255,7 +255,7 @@ export const getLowQualityConversationsTool = createTool({
         commonIssues
       };
     } catch (error) {
-      logger.error('Error getting low-quality conversations:', error);
+      logger.error({ error }, 'Error getting low-quality conversations');
       return {
         conversations: [],
         count: 0,
@@ -307,7 +307,7 @@ export const getToolEffectivenessTool = createTool({
         recommendations
       };
     } catch (error) {
-      logger.error('Error getting tool effectiveness:', error);
+      logger.error({ error }, 'Error getting tool effectiveness');
       return {
         tools: [],
         recommendations: []
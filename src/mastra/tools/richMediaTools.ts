@@ -6,7 +6,7 @@
 import { createTool } from '@mastra/core';
 import { z } from 'zod';
 import { richMediaService } from '../../services/richMediaService';
-import logger from '../../utils/logger';
+import { logger } from '../../utils/logger';
 
 /**
  * Tool: Upload Media File
@@ -56,7 +56,7 @@ export const uploadMediaTool = createTool({
       };
       
     } catch (error) {
-      logger.error('Error in uploadMediaTool:', error);
+      logger.error({ error }, 'Error in uploadMediaTool');
       return {
         success: false,
         message: `Failed to upload media: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -112,7 +112,7 @@ export const getOCRResultsTool = createTool({
       };
       
     } catch (error) {
-      logger.error('Error in getOCRResultsTool:', error);
+      logger.error({ error }, 'Error in getOCRResultsTool');
       return {
         success: false,
         message: `Failed to get OCR results: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -170,7 +170,7 @@ export const getTranscriptionTool = createTool({
       };
       
     } catch (error) {
-      logger.error('Error in getTranscriptionTool:', error);
+      logger.error({ error }, 'Error in getTranscriptionTool');
       return {
         success: false,
         message: `Failed to get transcription: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -228,7 +228,7 @@ export const getMediaStatusTool = createTool({
       };
       
     } catch (error) {
-      logger.error('Error in getMediaStatusTool:', error);
+      logger.error({ error }, 'Error in getMediaStatusTool');
       return {
         success: false,
         message: `Failed to get media status: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -282,7 +282,7 @@ export const analyzeStationImageAdvancedTool = createTool({
       };
       
     } catch (error) {
-      logger.error('Error in analyzeStationImageAdvancedTool:', error);
+      logger.error({ error }, 'Error in analyzeStationImageAdvancedTool');
       return {
         success: false,
         message: `Failed to analyze image: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -337,7 +337,7 @@ export const getRecentMediaTool = createTool({
       };
       
     } catch (error) {
-      logger.error('Error in getRecentMediaTool:', error);
+      logger.error({ error }, 'Error in getRecentMediaTool');
       return {
         success: false,
         message: `Failed to get recent media: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -1,7 +1,7 @@
 import { createTool } from '@mastra/core';
 import { z } from 'zod';
-import { getVectorStore } from '../services/vectorStore';
-import { logger } from '../utils/logger';
+import { getVectorStore } from '../../services/vectorStore';
+import { logger } from '../../utils/logger';
 
 /**
  * Semantic Search Tool for RAG (Retrieval-Augmented Generation)
@@ -39,6 +39,9 @@ Examples of good queries:
   inputSchema: z.object({
     query: z.string().describe('The search query - can be in any language (Hebrew, English, Russian, Arabic)'),
     maxResults: z.number().min(1).max(10).default(5).describe('Maximum number of results to return (default: 5)'),
+    language: z.string().optional().describe('Only documents in this language (e.g. "hebrew")'),
+    category: z.string().optional().describe('Only documents in this category (e.g. "troubleshooting", "payments", "chargers")'),
+    manufacturer: z.string().optional().describe('Only documents about this charger manufacturer (e.g. "ABB")'),
   }),
 
   outputSchema: z.object({
@@ -55,19 +58,18 @@ Examples of good queries:
     resultsCount: z.number(),
   }),
 
-  execute: async ({ context, runId, workflowId }, { query, maxResults = 5 }) => {
+  execute: async ({ context, runId }) => {
+    const { query, maxResults = 5, language, category, manufacturer } = context;
+
     try {
-      logger.info('Semantic search requested', {
-        query,
-        maxResults,
-        runId,
-        workflowId,
-      });
+      logger.info({ query, maxResults, runId }, 'Semantic search requested');
 
       const vectorStore = getVectorStore();
 
       // Perform semantic search
-      const searchResults = await vectorStore.searchWithScores(query, maxResults);
+      const searchResults = await vectorStore.searchWithScores(query, maxResults, {
+        filter: { language, category, manufacturer },
+      });
 
       // Format results
       const results = searchResults.map(([doc, score]) => ({
@@ -78,11 +80,7 @@ Examples of good queries:
         metadata: doc.metadata,
       }));
 
-      logger.info('Semantic search completed', {
-        query,
-        resultsCount: results.length,
-        topScore: results[0]?.score,
-      });
+      logger.info({ query, resultsCount: results.length, topScore: results[0]?.score }, 'Semantic search completed');
 
       return {
         results,
@@ -90,12 +88,7 @@ Examples of good queries:
         resultsCount: results.length,
       };
     } catch (error) {
-      logger.error('Semantic search failed', {
-        error,
-        query,
-        runId,
-        workflowId,
-      });
+      logger.error({ error, query, runId }, 'Semantic search failed');
 
       // Return empty results on error (graceful degradation)
       return {
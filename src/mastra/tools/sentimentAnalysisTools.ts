@@ -5,7 +5,7 @@
 
 import { createTool } from '@mastra/core';
 import { z } from 'zod';
-import type { D1Database } from '@cloudflare/workers-types';
+import { db } from '../../db';
 import { SentimentAnalysisService } from '../../services/sentimentAnalysisService';
 
 // ============================================================================
@@ -23,7 +23,6 @@ export const analyzeMessageSentimentTool = createTool({
     user_id: z.string().optional().describe('User identifier (optional)')
   }),
   execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
     const service = new SentimentAnalysisService(db);
     
     const analysis = await service.analyzeMessage(
@@ -69,7 +68,6 @@ export const getConversationTrajectoryTool = createTool({
     conversation_id: z.string().describe('Conversation ID to analyze')
   }),
   execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
     const service = new SentimentAnalysisService(db);
     
     const trajectory = await service.getConversationTrajectory(input.conversation_id);
@@ -137,7 +135,6 @@ export const getHighRiskConversationsTool = createTool({
     limit: z.number().optional().default(20).describe('Maximum number of conversations to return')
   }),
   execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
     const service = new SentimentAnalysisService(db);
     
     const conversations = await service.getHighRiskConversations(input.limit);
@@ -174,7 +171,6 @@ export const getResponseTemplateTool = createTool({
     urgency: z.enum(['low', 'medium', 'high', 'critical']).describe('Urgency level')
   }),
   execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
     const service = new SentimentAnalysisService(db);
     
     const template = await service.getResponseTemplate(input.sentiment, input.urgency);
@@ -267,7 +263,6 @@ export const getSentimentTrendsTool = createTool({
     days: z.number().optional().default(7).describe('Number of days to analyze (default: 7)')
   }),
   execute: async ({ context, input }) => {
-    const db = context.db as D1Database;
     const service = new SentimentAnalysisService(db);
     
     const trends = await service.getSentimentTrends(input.days);
@@ -1,6 +1,6 @@
 import { createTool } from '@mastra/core';
 import { z } from 'zod';
-import { pgPool } from '../storage';
+import { db } from '../../db';
 
 export const trackFailedConversationTool = createTool({
   id: 'track-failed-conversation',
@@ -20,17 +20,13 @@ export const trackFailedConversationTool = createTool({
     try {
       const { threadId, userId, issueDescription, conversationContext } = context;
 
-      const client = await pgPool.connect();
-      
-      await client.query(
+      await db.run(
         `INSERT INTO failed_conversations 
          (thread_id, user_id, issue_description, conversation_context) 
          VALUES ($1, $2, $3, $4)`,
         [threadId, userId, issueDescription, JSON.stringify(conversationContext || {})]
       );
 
-      client.release();
-
       return {
         success: true,
         message: 'Issue logged for human agent follow-up',
@@ -6,7 +6,7 @@
 import { createTool } from '@mastra/core';
 import { z } from 'zod';
 import { vehicleCompatibilityService } from '../../services/vehicleCompatibilityService';
-import logger from '../../utils/logger';
+import { logger } from '../../utils/logger';
 
 /**
  * Tool: Search EV Models
@@ -50,7 +50,7 @@ export const searchEVModelsTool = createTool({
       };
       
     } catch (error) {
-      logger.error('Error in searchEVModelsTool:', error);
+      logger.error({ error }, 'Error in searchEVModelsTool');
       return {
         success: false,
         message: `Failed to search EV models: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -107,7 +107,7 @@ export const checkVehicleChargerCompatibilityTool = createTool({
       };
       
     } catch (error) {
-      logger.error('Error in checkVehicleChargerCompatibilityTool:', error);
+      logger.error({ error }, 'Error in checkVehicleChargerCompatibilityTool');
       return {
         success: false,
         message: `Failed to check compatibility: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -157,7 +157,7 @@ export const getOEMChargingQuirksTool = createTool({
       };
       
     } catch (error) {
-      logger.error('Error in getOEMChargingQuirksTool:', error);
+      logger.error({ error }, 'Error in getOEMChargingQuirksTool');
       return {
         success: false,
         message: `Failed to get OEM quirks: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -196,7 +196,7 @@ export const getPopularEVModelsTool = createTool({
       };
       
     } catch (error) {
-      logger.error('Error in getPopularEVModelsTool:', error);
+      logger.error({ error }, 'Error in getPopularEVModelsTool');
       return {
         success: false,
         message: `Failed to get popular EV models: ${error instanceof Error ? error.message : 'Unknown error'}`
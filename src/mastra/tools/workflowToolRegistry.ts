@@ -0,0 +1,57 @@
+/**
+ * Workflow Tool Registry
+ * Maps workflow toolCall names to the Mastra tools the engine executes.
+ * Keys match WORKFLOW_TOOL_NAMES and the agent's tool keys.
+ */
+
+import {
+  stationStatusTool,
+  activeSessionTool,
+  sessionHistoryTool,
+  stationTariffTool,
+  startChargingTool,
+  stopChargingTool,
+  resetStationTool,
+  unlockConnectorTool,
+} from './chargingTools.js';
+import { semanticSearchTool } from './semanticSearchTool.js';
+import {
+  lookupErrorCodeTool,
+  searchTroubleshootingTool,
+  getChargerSpecsTool,
+  checkVehicleCompatibilityTool,
+} from './chargerDatabaseTools.js';
+import {
+  WorkflowExecutableTool,
+  WorkflowToolExecutor,
+  WorkflowToolName,
+} from '../../workflows/workflowTools.js';
+
+export const WORKFLOW_TOOLS: Record<WorkflowToolName, WorkflowExecutableTool> = {
+  stationStatus: stationStatusTool,
+  activeSession: activeSessionTool,
+  sessionHistory: sessionHistoryTool,
+  stationTariff: stationTariffTool,
+  startCharging: startChargingTool,
+  stopCharging: stopChargingTool,
+  resetStation: resetStationTool,
+  unlockConnector: unlockConnectorTool,
+  semanticSearch: semanticSearchTool,
+  lookupErrorCode: lookupErrorCodeTool,
+  searchTroubleshooting: searchTroubleshootingTool,
+  getChargerSpecs: getChargerSpecsTool,
+  checkVehicleCompatibility: checkVehicleCompatibilityTool,
+};
+
+// Singleton instance
+let executorInstance: WorkflowToolExecutor | null = null;
+
+export function getWorkflowToolExecutor(): WorkflowToolExecutor {
+  if (!executorInstance) {
+    executorInstance = new WorkflowToolExecutor(WORKFLOW_TOOLS, {
+      timeoutMs: Number(process.env.WORKFLOW_TOOL_TIMEOUT_MS) || undefined,
+      dryRun: process.env.WORKFLOW_TOOLS_DRY_RUN === 'true',
+    });
+  }
+  return executorInstance;
+}
@@ -49,6 +49,14 @@ export function checkRateLimit(userId: string): { allowed: boolean; resetIn?: nu
 const AMPECO_API_KEY = process.env.AMPECO_API_KEY || '';
 const AMPECO_TENANT_URL = process.env.AMPECO_TENANT_URL || '';
 
+/**
+ * An Ampeco tenant other than the default one (AMPECO_TENANT_URL / AMPECO_API_KEY)
+ */
+export interface AmpecoTenant {
+  url: string;
+  apiKey: string;
+}
+
 /**
  * Base Ampeco API request function with retry logic
  */
@@ -59,13 +67,15 @@ export async function ampecoRequest<T>(
     body?: any;
     useCache?: boolean;
     cacheTTL?: number;
+    tenant?: AmpecoTenant;
   } = {}
 ): Promise<{ success: boolean; data?: T; error?: string }> {
-  const { method = 'GET', body, useCache = true, cacheTTL = 300 } = options;
+  const { method = 'GET', body, useCache = true, cacheTTL = 300, tenant } = options;
   const maxRetries = 3;
+  const tenantUrl = tenant?.url ?? AMPECO_TENANT_URL;
 
   // Check cache for GET requests
-  const cacheKey = `ampeco:${method}:${endpoint}:${JSON.stringify(body || {})}`;
+  const cacheKey = `ampeco:${tenant ? `${tenantUrl}:` : ''}${method}:${endpoint}:${JSON.stringify(body || {})}`;
   if (method === 'GET' && useCache) {
     const cached = cache.get<T>(cacheKey);
     if (cached) {
@@ -78,9 +88,9 @@ export async function ampecoRequest<T>(
 
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
-      const url = `${AMPECO_TENANT_URL}${endpoint}`;
+      const url = `${tenantUrl}${endpoint}`;
       const headers: HeadersInit = {
-        'Authorization': `Bearer ${AMPECO_API_KEY}`,
+        'Authorization': `Bearer ${tenant?.apiKey ?? AMPECO_API_KEY}`,
         'Content-Type': 'application/json',
       };
 
@@ -164,12 +174,14 @@ export async function ampecoRequest<T>(
  * Uses Ampeco's charge-points endpoint
  */
 export async function findStationBySocketNumber(
-  socketNumber: string
+  socketNumber: string,
+  tenant?: AmpecoTenant
 ): Promise<{ success: boolean; station?: any; evse?: any; error?: string }> {
   try {
     // Search for station by socket number using Ampeco's public API
     const result = await ampecoRequest<any>('/public-api/resources/charge-points/v1.0', {
       method: 'GET',
+      tenant,
     });
 
     if (!result.success || !result.data) {
@@ -220,22 +232,24 @@ export async function getStationStatus(stationId: string) {
 /**
  * Reset charge point
  */
-export async function resetStation(stationId: string, resetType: 'soft' | 'hard' = 'soft') {
+export async function resetStation(stationId: string, resetType: 'soft' | 'hard' = 'soft', tenant?: AmpecoTenant) {
   return ampecoRequest(`/public-api/actions/charge-point/v1.0/${stationId}/reset`, {
     method: 'POST',
     body: { type: resetType },
     useCache: false,
+    tenant,
   });
 }
 
 /**
  * Unlock connector on charge point
  */
-export async function unlockConnector(chargePointId: string, connectorId: string) {
+export async function unlockConnector(chargePointId: string, connectorId: string, tenant?: AmpecoTenant) {
   return ampecoRequest(`/public-api/actions/charge-point/v1.0/${chargePointId}/unlock-connector`, {
     method: 'POST',
     body: { connectorId },
     useCache: false,
+    tenant,
   });
 }
 
@@ -243,7 +257,7 @@ export async function unlockConnector(chargePointId: string, connectorId: string
  * Get active charging sessions
  * Note: Ampeco's sessions endpoint returns all sessions
  */
-export async function getActiveSession(chargePointId?: string) {
+export async function getActiveSession(chargePointId?: string, tenant?: AmpecoTenant) {
   const params = new URLSearchParams();
   params.append('status', 'active,charging'); // Filter for active sessions only
   
@@ -252,6 +266,7 @@ export async function getActiveSession(chargePointId?: string) {
     method: 'GET',
     useCache: true,
     cacheTTL: 30, // 30 seconds cache
+    tenant,
   });
 
   if (!result.success || !chargePointId) {
@@ -272,7 +287,7 @@ export async function getActiveSession(chargePointId?: string) {
 /**
  * Get session history
  */
-export async function getSessionHistory(userId?: string, limit: number = 10) {
+export async function getSessionHistory(userId?: string, limit: number = 10, tenant?: AmpecoTenant) {
   const params = new URLSearchParams();
   if (userId) params.append('userId', userId);
   params.append('limit', limit.toString());
@@ -282,13 +297,14 @@ export async function getSessionHistory(userId?: string, limit: number = 10) {
     method: 'GET',
     useCache: true,
     cacheTTL: 300, // 5 minutes cache
+    tenant,
   });
 }
 
 /**
  * Get tariff information
  */
-export async function getTariffInfo(tariffId?: string) {
+export async function getTariffInfo(tariffId?: string, tenant?: AmpecoTenant) {
   const endpoint = tariffId 
     ? `/public-api/resources/tariffs/v1.0/${tariffId}`
     : '/public-api/resources/tariffs/v1.0';
@@ -297,6 +313,7 @@ export async function getTariffInfo(tariffId?: string) {
     method: 'GET',
     useCache: true,
     cacheTTL: 3600, // 1 hour cache
+    tenant,
   });
 }
 
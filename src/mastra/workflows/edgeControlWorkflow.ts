@@ -1,5 +1,5 @@
 import { inngest } from '../inngest';
-import { edgeControlAgent } from '../agents/edgeControlAgent';
+import { memory } from '../storage';
 import { discordClient } from '../../triggers/discordTriggers';
 import { ActionRowBuilder, ButtonBuilder, ButtonStyle } from 'discord.js';
 import { logger, generateRequestId } from '../../utils/logger';
@@ -7,6 +7,18 @@ import { agentResponseTime, messagesProcessed, toolUsage, failedConversations }
 import { trimConversationHistory } from '../../utils/contextManager';
 import { getFallbackResponse, serviceHealthTracker } from '../../utils/fallbackHandler';
 import { detectLanguage } from '../utils/ampecoUtils';
+import { createToolRuntimeContext } from '../toolContext';
+import { resolveCallerRole } from '../toolPermissions';
+import { getSpecialistAgent } from '../agents/specialistAgents';
+import { getAgentRouter } from '../../services/agentRouter';
+import { getExperimentService, setExperimentAssignment } from '../../services/experimentService';
+import { getAgentDesk } from '../../services/agentDesk';
+import {
+  getConfirmationLabels,
+  getStationCommandConfirmations,
+  STATION_ACTION_PREFIX,
+  type StationAction,
+} from '../../services/stationCommandConfirmation';
 
 // Extract context from conversation history
 function extractContext(messages: any[]) {
@@ -50,33 +62,9 @@ function extractContext(messages: any[]) {
   return context;
 }
 
-// Create interactive buttons
+// Create interactive buttons (satisfaction is asked once the conversation is over, see csatSurvey)
 function createButtons() {
   const row = new ActionRowBuilder<ButtonBuilder>()
-    .addComponents(
-      new ButtonBuilder()
-        .setCustomId('rating_1')
-        .setLabel('1⭐')
-        .setStyle(ButtonStyle.Secondary),
-      new ButtonBuilder()
-        .setCustomId('rating_2')
-        .setLabel('2⭐')
-        .setStyle(ButtonStyle.Secondary),
-      new ButtonBuilder()
-        .setCustomId('rating_3')
-        .setLabel('3⭐')
-        .setStyle(ButtonStyle.Secondary),
-      new ButtonBuilder()
-        .setCustomId('rating_4')
-        .setLabel('4⭐')
-        .setStyle(ButtonStyle.Primary),
-      new ButtonBuilder()
-        .setCustomId('rating_5')
-        .setLabel('5⭐')
-        .setStyle(ButtonStyle.Success)
-    );
-
-  const row2 = new ActionRowBuilder<ButtonBuilder>()
     .addComponents(
       new ButtonBuilder()
         .setCustomId('human_agent')
@@ -88,7 +76,26 @@ function createButtons() {
         .setStyle(ButtonStyle.Success)
     );
 
-  return [row, row2];
+  return [row];
+}
+
+// Confirm / cancel buttons for a station command the agent proposed
+function createConfirmationButtons(action: StationAction, language: ReturnType<typeof detectLanguage>) {
+  const labels = getConfirmationLabels(language === 'unknown' ? 'he' : language);
+
+  return [
+    new ActionRowBuilder<ButtonBuilder>()
+      .addComponents(
+        new ButtonBuilder()
+          .setCustomId(`${STATION_ACTION_PREFIX}confirm_${action.actionId}`)
+          .setLabel(labels.confirm)
+          .setStyle(ButtonStyle.Danger),
+        new ButtonBuilder()
+          .setCustomId(`${STATION_ACTION_PREFIX}cancel_${action.actionId}`)
+          .setLabel(labels.cancel)
+          .setStyle(ButtonStyle.Secondary)
+      ),
+  ];
 }
 
 // Edge Control Support Workflow
@@ -116,9 +123,32 @@ export const edgeControlWorkflow = inngest.createFunction(
 
     requestLogger.info('Starting workflow execution');
 
+    // Log the message in the transcript; a human agent who owns the
+    // conversation answers it from the agent desk, the bot stays silent
+    const humanAgent = await step.run('check-human-agent', async () => {
+      const desk = getAgentDesk();
+      const session = await desk.getActiveSession({ threadId, channel: 'discord', channelId, userId });
+      await desk.recordMessage({
+        threadId: session?.threadId ?? threadId,
+        channel: 'discord',
+        channelId,
+        userId,
+        role: 'user',
+        author: username,
+        content,
+      });
+      return session?.agent ?? null;
+    });
+
+    if (humanAgent) {
+      requestLogger.info({ agent: humanAgent }, 'Conversation owned by a human agent, bot muted');
+      return { success: true, messageId, threadId, requestId, humanAgent };
+    }
+
     // Step 1: Generate response using agent with error boundaries
     const agentResponse = await step.run('generate-response', async () => {
       const startTime = Date.now();
+      let context: any;
       
       try {
         // Check if Ampeco service is healthy
@@ -135,15 +165,16 @@ export const edgeControlWorkflow = inngest.createFunction(
         }
 
         // Get conversation history
-        const history = await edgeControlAgent.memory.getMessages({
-          threadId,
-        });
+        const { messages: remembered } = await memory.rememberMessages({ threadId, resourceId: userId });
+        const history = remembered
+          .filter((msg) => typeof msg.content === 'string')
+          .map((msg) => ({ role: msg.role, content: msg.content as string }));
 
         // Trim conversation history to manage context window
         const trimmedHistory = trimConversationHistory(history);
 
         // Extract context
-        const context = extractContext(trimmedHistory);
+        context = extractContext(trimmedHistory);
 
         // Prepare messages for agent
         const messages = [
@@ -157,6 +188,12 @@ export const edgeControlWorkflow = inngest.createFunction(
           },
         ];
 
+        // The bot didn't see what the driver and a human agent said while it was muted
+        const handbackContext = await getAgentDesk().takeHandbackContext({ threadId, channel: 'discord', channelId, userId });
+        if (handbackContext) {
+          messages.unshift({ role: 'system', content: handbackContext });
+        }
+
         // Add image analysis if attachments present
         if (attachments.length > 0) {
           const imageAttachments = attachments.filter((att: any) => 
@@ -173,10 +210,33 @@ export const edgeControlWorkflow = inngest.createFunction(
 
         requestLogger.debug({ messageCount: messages.length }, 'Generating agent response');
 
+        // Hand the turn to the specialist for what the user is asking about
+        const language = detectLanguage(content);
+        const role = await resolveCallerRole({ userId });
+        const route = await (await getAgentRouter()).route({
+          threadId,
+          userId,
+          channel: 'discord',
+          language,
+          role,
+          messages: messages.filter((msg: any) => typeof msg.content === 'string'),
+        });
+
+        const experiment = await getExperimentService().resolveForTurn({ threadId, userId, channel: 'discord', agentId: route.agentId });
+        const runtimeContext = createToolRuntimeContext({
+          userId,
+          threadId,
+          channel: 'discord',
+          role,
+          language: language === 'unknown' ? undefined : language,
+        });
+        setExperimentAssignment(runtimeContext, experiment);
+
         // Generate response
-        const response = await edgeControlAgent.generateLegacy({
-          messages,
+        const response = await getSpecialistAgent(route.agentId).generateLegacy(messages, {
           threadId,
+          resourceId: userId,
+          runtimeContext,
         });
 
         // Record tool usage
@@ -198,11 +258,16 @@ export const edgeControlWorkflow = inngest.createFunction(
         messagesProcessed.inc({ status: 'success' });
         serviceHealthTracker.recordSuccess('agent');
 
-        requestLogger.info({ duration }, 'Agent response generated successfully');
+        requestLogger.info(
+          { duration, agent: route.agentId, experiment: experiment?.experimentId, variant: experiment?.variantId },
+          'Agent response generated successfully'
+        );
 
         return {
           success: true,
+          agent: route.agentId,
           text: response.text,
+          usedFallback: false,
           context,
           toolCalls: response.steps?.filter((s: any) => s.toolCalls?.length > 0) || [],
         };
@@ -235,7 +300,7 @@ export const edgeControlWorkflow = inngest.createFunction(
         requestLogger.debug('Sending response to Discord');
 
         const channel = await discordClient.channels.fetch(channelId);
-        if (!channel?.isTextBased()) {
+        if (!channel?.isSendable()) {
           throw new Error('Channel is not text-based');
         }
 
@@ -264,7 +329,28 @@ export const edgeControlWorkflow = inngest.createFunction(
           });
         }
 
-        requestLogger.info({ chunks: chunks.length }, 'Response sent to Discord');
+        // Station commands wait for the user to confirm them here
+        const confirmations = await getStationCommandConfirmations();
+        const pendingActions = await confirmations.listPending(threadId);
+        const language = detectLanguage(content);
+        for (const action of pendingActions) {
+          await channel.send({
+            content: `⚠️ ${action.summary}`,
+            components: createConfirmationButtons(action, language),
+          });
+        }
+
+        await getAgentDesk().recordMessage({
+          threadId,
+          channel: 'discord',
+          channelId,
+          userId,
+          role: 'bot',
+          author: 'agent' in agentResponse ? agentResponse.agent : undefined,
+          content: agentResponse.text,
+        });
+
+        requestLogger.info({ chunks: chunks.length, pendingActions: pendingActions.length }, 'Response sent to Discord');
 
         return { success: true };
       } catch (error) {
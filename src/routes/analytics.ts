@@ -6,7 +6,8 @@
 import { Hono } from 'hono';
 import { logger } from '../utils/logger';
 import { ampecoRequest } from '../mastra/utils/ampecoUtils';
-import { getDatabase } from '../utils/db';
+import { db } from '../db';
+import { getCsatSurveys } from '../services/csatSurvey';
 
 const analyticsApp = new Hono();
 
@@ -45,16 +46,15 @@ analyticsApp.get('/overview', async (c) => {
     const totalRevenue = recentSessions.reduce((sum: number, s: any) => sum + (s.totalAmount?.withTax || 0), 0);
 
     // Get AI chat statistics
-    const db = getDatabase();
-    const chatStats = db.prepare(`
+    const chatStats = await db.get(`
       SELECT 
         COUNT(*) as total_conversations,
         COUNT(DISTINCT thread_id) as unique_threads,
         0 as avg_response_time
       FROM conversation_messages 
-      WHERE created_at > datetime('now', '-24 hours')
+      WHERE created_at > ${db.sql.ago(24, 'hours')}
         AND role = 'assistant'
-    `).get() as any;
+    `);
 
     return c.json({
       success: true,
@@ -98,7 +98,6 @@ analyticsApp.get('/overview', async (c) => {
  */
 analyticsApp.get('/charging-sessions', async (c) => {
   try {
-    const db = getDatabase();
     const period = c.req.query('period') || '24h'; // 24h, 7d, 30d
     const limit = parseInt(c.req.query('limit') || '100');
 
@@ -179,7 +178,6 @@ analyticsApp.get('/charging-sessions', async (c) => {
  */
 analyticsApp.get('/station-performance', async (c) => {
   try {
-    const db = getDatabase();
     const chargePoints = await ampecoRequest<any>('/public-api/resources/charge-points/v1.0');
     const cpData = chargePoints.data?.data || [];
 
@@ -236,15 +234,14 @@ analyticsApp.get('/station-performance', async (c) => {
  * GET /api/analytics/ai-support-metrics
  * AI Support system metrics
  */
-analyticsApp.get('/ai-support-metrics', (c) => {
+analyticsApp.get('/ai-support-metrics', async (c) => {
   try {
-    const db = getDatabase();
     const period = c.req.query('period') || '24h';
     
     const periodHours = period === '7d' ? 168 : period === '30d' ? 720 : 24;
 
     // Get message statistics
-    const messageStats = db.prepare(`
+    const messageStats = await db.get(`
       SELECT 
         COUNT(*) as total_messages,
         COUNT(DISTINCT thread_id) as unique_conversations,
@@ -252,34 +249,34 @@ analyticsApp.get('/ai-support-metrics', (c) => {
         SUM(CASE WHEN role = 'user' THEN 1 ELSE 0 END) as user_messages,
         SUM(CASE WHEN role = 'assistant' THEN 1 ELSE 0 END) as assistant_messages
       FROM messages
-      WHERE created_at > datetime('now', '-${periodHours} hours')
-    `).get() as any;
+      WHERE created_at > ${db.sql.ago(periodHours, 'hours')}
+    `);
 
     // Get language distribution
-    const languageStats = db.prepare(`
+    const { rows: languageStats } = await db.query(`
       SELECT 
         language,
         COUNT(*) as count
       FROM conversations
-      WHERE started_at > datetime('now', '-${periodHours} hours')
+      WHERE started_at > ${db.sql.ago(periodHours, 'hours')}
         AND language IS NOT NULL
       GROUP BY language
       ORDER BY count DESC
-    `).all();
+    `);
 
     // Get hourly message volume
-    const hourlyVolume = db.prepare(`
+    const { rows: hourlyVolume } = await db.query(`
       SELECT 
-        strftime('%H', created_at) as hour,
+        ${db.sql.hourOf('created_at')} as hour,
         COUNT(*) as message_count
       FROM messages
-      WHERE created_at > datetime('now', '-24 hours')
+      WHERE created_at > ${db.sql.ago(24, 'hours')}
       GROUP BY hour
       ORDER BY hour
-    `).all();
+    `);
 
     // Get top issues/topics (based on message content keywords)
-    const commonTopics = db.prepare(`
+    const { rows: commonTopics } = await db.query(`
       SELECT 
         CASE 
           WHEN content LIKE '%charging%' OR content LIKE '%טעינה%' THEN 'Charging Issues'
@@ -291,12 +288,12 @@ analyticsApp.get('/ai-support-metrics', (c) => {
         END as topic,
         COUNT(*) as count
       FROM messages
-      WHERE created_at > datetime('now', '-${periodHours} hours')
+      WHERE created_at > ${db.sql.ago(periodHours, 'hours')}
         AND role = 'user'
       GROUP BY topic
       ORDER BY count DESC
       LIMIT 10
-    `).all();
+    `);
 
     return c.json({
       success: true,
@@ -324,4 +321,25 @@ analyticsApp.get('/ai-support-metrics', (c) => {
   }
 });
 
+/**
+ * GET /api/analytics/csat
+ * CSAT survey metrics per day and channel, with totals (?days=30)
+ */
+analyticsApp.get('/csat', async (c) => {
+  try {
+    const days = Math.min(Math.max(parseInt(c.req.query('days') || '30') || 30, 1), 365);
+    const analytics = await getCsatSurveys().getAnalytics(days);
+    return c.json({ success: true, days, ...analytics });
+  } catch (error) {
+    logger.error({ error }, 'Error fetching CSAT metrics');
+    return c.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
 export default analyticsApp;
@@ -1,18 +1,306 @@
 import { Hono } from 'hono';
-import { streamSSE } from 'hono/streaming';
-import { edgeControlAgent } from '../mastra';
+import { streamSSE, type SSEStreamingApi } from 'hono/streaming';
+import { z } from 'zod';
+import { getSpecialistAgent } from '../mastra/agents/specialistAgents';
 import { logger } from '../utils/logger';
+import { db } from '../db';
+import { agentResponseTime } from '../utils/metrics';
+import { chatStreamBuffer, parseEventId, type BufferedChatEvent } from '../utils/chatStreamBuffer';
+import { createToolRuntimeContext } from '../mastra/toolContext';
+import { resolveCallerRole, type ToolRole } from '../mastra/toolPermissions';
+import { getWebUserId, resolveWebUserId } from '../utils/webChatIdentity';
+import type { SupportedLanguage } from '../services/languageService';
+import { getAgentRouter } from '../services/agentRouter';
+import { getExperimentService, setExperimentAssignment } from '../services/experimentService';
+import { getAgentDesk } from '../services/agentDesk';
+import { pipeTranscriptToStream } from '../utils/transcriptStream';
+import { getStationCommandConfirmations, type StationAction, type StationActionErrorCode } from '../services/stationCommandConfirmation';
+import { buildSurveyCard, getCsatSurveys, MAX_COMMENT_LENGTH, type SurveyErrorCode } from '../services/csatSurvey';
 
-type Bindings = {
-  DB: D1Database;
-};
+const chat = new Hono();
+
+/**
+ * Route the turn to a specialist agent, run it and push its stream into the
+ * thread's replay buffer. While a human agent owns the thread (agent desk)
+ * the message is only logged for them and the bot doesn't answer.
+ * Runs independently of any HTTP connection so a dropped client can resume;
+ * a newer message on the thread aborts it through `signal`.
+ */
+async function runAgentTurn(
+  threadId: string,
+  runId: string,
+  signal: AbortSignal,
+  resourceId: string,
+  messages: any[],
+  language: SupportedLanguage,
+  role: ToolRole
+): Promise<void> {
+  const startTime = Date.now();
+  const toolStartTimes = new Map<string, number>();
+  const announcedActions = new Set<string>();
+  let firstTokenMs: number | null = null;
+  let toolCallCount = 0;
+  let finishReason: string | undefined;
+  let usage: { promptTokens?: number; completionTokens?: number; totalTokens?: number } = {};
+  let reply = '';
+
+  try {
+    const desk = getAgentDesk();
+    const lastMessage = messages[messages.length - 1];
+    if (lastMessage?.role === 'user' && typeof lastMessage.content === 'string') {
+      await desk.recordMessage({ threadId, channel: 'web', userId: resourceId, role: 'user', content: lastMessage.content });
+    }
+
+    const session = await desk.getActiveSession({ threadId });
+    if (session) {
+      chatStreamBuffer.append(threadId, runId, 'human', { type: 'human-agent', agent: session.agent });
+      chatStreamBuffer.append(threadId, runId, 'completion', { type: 'done', threadId });
+      logger.info({ threadId, agent: session.agent }, 'Conversation owned by a human agent, bot muted');
+      return;
+    }
 
-const chat = new Hono<{ Bindings: Bindings }>();
+    // The bot didn't see what the driver and a human agent said while it was muted
+    const handbackContext = await desk.takeHandbackContext({ threadId });
+    const agentMessages = handbackContext ? [{ role: 'system', content: handbackContext }, ...messages] : messages;
+
+    const router = await getAgentRouter();
+    const route = await router.route({ threadId, userId: resourceId, channel: 'web', language, role, messages });
+    if (route.handoff || !route.previousAgentId) {
+      chatStreamBuffer.append(threadId, runId, 'handoff', {
+        type: 'handoff',
+        from: route.previousAgentId,
+        to: route.agentId,
+        intent: route.intent,
+        confidence: route.confidence,
+        rule: route.ruleName,
+      });
+    }
+
+    const experiment = await getExperimentService().resolveForTurn({ threadId, userId: resourceId, channel: 'web', agentId: route.agentId });
+    const runtimeContext = createToolRuntimeContext({ userId: resourceId, threadId, channel: 'web', language, role });
+    setExperimentAssignment(runtimeContext, experiment);
+
+    // Already shown to the user in earlier turns
+    const confirmations = await getStationCommandConfirmations();
+    for (const action of await confirmations.listPending(threadId)) {
+      announcedActions.add(action.actionId);
+    }
+
+    const response = await getSpecialistAgent(route.agentId).streamLegacy(agentMessages, {
+      threadId,
+      resourceId,
+      runtimeContext,
+      abortSignal: signal,
+    });
+
+    for await (const part of response.fullStream) {
+      switch (part.type) {
+        case 'text-delta':
+          if (firstTokenMs === null) {
+            firstTokenMs = Date.now() - startTime;
+          }
+          reply += part.textDelta;
+          chatStreamBuffer.append(threadId, runId, 'message', {
+            type: 'text-delta',
+            delta: part.textDelta,
+          });
+          break;
+
+        case 'tool-call':
+          toolCallCount++;
+          toolStartTimes.set(part.toolCallId, Date.now());
+          chatStreamBuffer.append(threadId, runId, 'tool', {
+            type: 'tool-start',
+            toolCallId: part.toolCallId,
+            toolName: part.toolName,
+            args: part.args,
+          });
+          break;
+
+        case 'tool-result': {
+          const startedAt = toolStartTimes.get(part.toolCallId);
+          chatStreamBuffer.append(threadId, runId, 'tool', {
+            type: 'tool-finish',
+            toolCallId: part.toolCallId,
+            toolName: part.toolName,
+            result: part.result,
+            durationMs: startedAt ? Date.now() - startedAt : null,
+          });
+
+          // Station commands wait for the user: the client shows confirm / cancel
+          if (part.result?.status === 'pending_confirmation') {
+            announcedActions.add(part.result.actionId);
+            chatStreamBuffer.append(threadId, runId, 'confirm', {
+              type: 'confirmation-required',
+              actionId: part.result.actionId,
+              command: part.result.command,
+              stationId: part.result.stationId,
+              summary: part.result.summary,
+              expiresAt: part.result.expiresAt,
+            });
+          }
+          break;
+        }
+
+        case 'finish':
+          finishReason = part.finishReason;
+          usage = part.usage || {};
+          break;
+
+        case 'error':
+          throw part.error;
+      }
+    }
+
+    // Commands a diagnostic workflow proposed during the turn aren't tool results of their own
+    const pendingActions = await confirmations.listPending(threadId);
+    for (const action of pendingActions) {
+      if (announcedActions.has(action.actionId)) continue;
+      chatStreamBuffer.append(threadId, runId, 'confirm', {
+        type: 'confirmation-required',
+        actionId: action.actionId,
+        command: action.command,
+        stationId: action.stationId,
+        summary: action.summary,
+        expiresAt: action.expiresAt.toISOString(),
+      });
+    }
+
+    const latencyMs = Date.now() - startTime;
+    agentResponseTime.observe(latencyMs / 1000);
+
+    // Send usage/latency summary
+    chatStreamBuffer.append(threadId, runId, 'usage', {
+      type: 'usage',
+      promptTokens: usage.promptTokens ?? null,
+      completionTokens: usage.completionTokens ?? null,
+      totalTokens: usage.totalTokens ?? null,
+      latencyMs,
+      firstTokenMs,
+      toolCalls: toolCallCount,
+      finishReason,
+      agent: route.agentId,
+    });
+
+    await desk.recordMessage({ threadId, channel: 'web', userId: resourceId, role: 'bot', author: route.agentId, content: reply });
+
+    // Send completion event
+    chatStreamBuffer.append(threadId, runId, 'completion', { type: 'done', threadId });
+
+    logger.info(
+      { threadId, agent: route.agentId, experiment: experiment?.experimentId, variant: experiment?.variantId, latencyMs, firstTokenMs, toolCalls: toolCallCount },
+      'Chat response completed'
+    );
+  } catch (error) {
+    if (signal.aborted) {
+      logger.info({ threadId, runId }, 'Chat run superseded by a newer message');
+      return;
+    }
+    logger.error({ error, threadId }, 'Chat streaming error');
+    chatStreamBuffer.append(threadId, runId, 'error', {
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  } finally {
+    chatStreamBuffer.finishRun(threadId, runId);
+  }
+}
+
+/**
+ * Forward the events of a run (the thread's current one by default) to an SSE
+ * stream: buffered events after `lastEventId` are replayed, then live events
+ * are written as they are appended. Returns when the run finishes, a newer
+ * run replaces it or the client disconnects.
+ */
+async function pipeRunToStream(
+  stream: SSEStreamingApi,
+  threadId: string,
+  lastEventId?: string | null,
+  runId = chatStreamBuffer.getRunStatus(threadId)?.runId
+): Promise<void> {
+  if (chatStreamBuffer.getRunStatus(threadId)?.runId !== runId) {
+    return;
+  }
+
+  // Subscribe before replaying so nothing appended in between is missed
+  const live: BufferedChatEvent[] = [];
+  let finished = false;
+  let wake: (() => void) | null = null;
+  const unsubscribe = chatStreamBuffer.subscribe(
+    threadId,
+    (event) => {
+      live.push(event);
+      wake?.();
+    },
+    () => {
+      finished = true;
+      wake?.();
+    }
+  );
+  if (!unsubscribe) {
+    finished = true;
+  }
+  stream.onAbort(() => wake?.());
+
+  const cursor = parseEventId(lastEventId);
+  let lastSeq = cursor.runId === runId ? cursor.seq : 0;
+  const write = async (event: BufferedChatEvent) => {
+    await stream.writeSSE({
+      id: event.id,
+      event: event.event,
+      data: JSON.stringify(event.data),
+    });
+    lastSeq = event.seq;
+  };
+
+  try {
+    // The buffer is only for replay: past its cap it no longer keeps deltas
+    for (const event of chatStreamBuffer.getEventsAfter(threadId, lastEventId)) {
+      if (stream.aborted) {
+        return;
+      }
+      await write(event);
+    }
+
+    while (!stream.aborted) {
+      const event = live.shift();
+      if (event) {
+        // Events appended while replaying arrive both ways
+        if (event.seq > lastSeq) {
+          await write(event);
+        }
+        continue;
+      }
+      if (finished) {
+        return;
+      }
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+      });
+      wake = null;
+    }
+  } finally {
+    unsubscribe?.();
+  }
+}
 
 /**
  * Chat API - Stream responses from the AI agent
  * POST /api/chat
  * Body: { messages: [...], threadId?: string, language?: string }
+ *
+ * SSE events (each carries an id `<runId>:<seq>` for resume):
+ * - connection: { type: 'connected', threadId, runId }
+ * - handoff:    { type: 'handoff', from, to, intent, confidence, rule } when a specialist agent takes over
+ * - message:    { type: 'text-delta', delta }
+ * - tool:       { type: 'tool-start' | 'tool-finish', toolCallId, toolName, ... }
+ * - confirm:    { type: 'confirmation-required', actionId, command, stationId, summary, expiresAt }
+ *               (answer with POST /api/chat/:threadId/actions/:actionId/confirm or /reject)
+ * - usage:      { type: 'usage', promptTokens, completionTokens, totalTokens, latencyMs, firstTokenMs, toolCalls, agent }
+ * - human:      { type: 'human-agent', agent } when a human agent owns the conversation; the bot
+ *               doesn't answer, follow GET /api/chat/:threadId/agent-stream for the agent's replies
+ * - completion: { type: 'done', threadId }
+ * - error:      { type: 'error', message }
  */
 chat.post('/', async (c) => {
   try {
@@ -24,77 +312,30 @@ chat.post('/', async (c) => {
     }
 
     const actualThreadId = threadId || `thread-${Date.now()}`;
+    const resourceId = resolveWebUserId(c);
+
+    // Web chat users are anonymous drivers unless the request carries the admin API token
+    const role = await resolveCallerRole({ authorization: c.req.header('authorization') });
 
     logger.info({
       threadId: actualThreadId,
       messageCount: messages.length,
       language,
+      role,
     }, 'Chat request received');
 
-    // Use streaming SSE for real-time responses
-    return streamSSE(c, async (stream) => {
-      try {
-        // Send initial connection event
-        await stream.writeSSE({
-          data: JSON.stringify({ type: 'connected', threadId: actualThreadId }),
-          event: 'connection',
-        });
-
-        // Generate response using Mastra agent
-        const response = await edgeControlAgent.generate(
-          messages,
-          {
-            threadId: actualThreadId,
-            resourceId: `user-${Date.now()}`,
-          }
-        );
-
-        // Stream the text response
-        if (response.text) {
-          await stream.writeSSE({
-            data: JSON.stringify({
-              type: 'text',
-              content: response.text,
-              threadId: actualThreadId,
-            }),
-            event: 'message',
-          });
-        }
+    const { runId, signal } = chatStreamBuffer.startRun(actualThreadId);
+    chatStreamBuffer.append(actualThreadId, runId, 'connection', {
+      type: 'connected',
+      threadId: actualThreadId,
+      runId,
+    });
 
-        // Stream tool calls if any
-        if (response.steps && response.steps.length > 0) {
-          for (const step of response.steps) {
-            if (step.type === 'tool-call') {
-              await stream.writeSSE({
-                data: JSON.stringify({
-                  type: 'tool-call',
-                  toolName: step.toolName,
-                  args: step.args,
-                  result: step.result,
-                }),
-                event: 'tool',
-              });
-            }
-          }
-        }
+    // Generate in the background; the SSE response follows the run's live events
+    void runAgentTurn(actualThreadId, runId, signal, resourceId, messages, language, role);
 
-        // Send completion event
-        await stream.writeSSE({
-          data: JSON.stringify({ type: 'done', threadId: actualThreadId }),
-          event: 'completion',
-        });
-
-        logger.info({ threadId: actualThreadId }, 'Chat response completed');
-      } catch (error) {
-        logger.error({ error, threadId: actualThreadId }, 'Chat streaming error');
-        await stream.writeSSE({
-          data: JSON.stringify({
-            type: 'error',
-            message: error instanceof Error ? error.message : 'Unknown error',
-          }),
-          event: 'error',
-        });
-      }
+    return streamSSE(c, async (stream) => {
+      await pipeRunToStream(stream, actualThreadId, null, runId);
     });
   } catch (error) {
     logger.error({ error }, 'Chat request error');
@@ -104,6 +345,157 @@ chat.post('/', async (c) => {
   }
 });
 
+/**
+ * Resume an interrupted chat stream
+ * GET /api/chat/:threadId/stream
+ * Header: Last-Event-ID (or ?lastEventId=) - replay events after this id
+ */
+chat.get('/:threadId/stream', async (c) => {
+  const threadId = c.req.param('threadId');
+  const lastEventId = c.req.header('Last-Event-ID') || c.req.query('lastEventId') || null;
+
+  const status = chatStreamBuffer.getRunStatus(threadId);
+  if (!status) {
+    return c.json({ error: 'No stream to resume for this thread' }, 404);
+  }
+
+  logger.info({ threadId, lastEventId, runId: status.runId, done: status.done }, 'Chat stream resumed');
+
+  return streamSSE(c, async (stream) => {
+    await pipeRunToStream(stream, threadId, lastEventId);
+  });
+});
+
+/**
+ * Replies of a human agent who took over the conversation (agent desk)
+ * GET /api/chat/:threadId/agent-stream
+ * SSE event `transcript` with { id, role: 'agent' | 'system', author, content, createdAt, ... };
+ * 'system' entries tell the driver an agent joined or handed back to the bot.
+ * Header: Last-Event-ID (or ?lastEventId=) - only entries after this id
+ */
+chat.get('/:threadId/agent-stream', async (c) => {
+  const threadId = c.req.param('threadId');
+  const afterId = Number(c.req.header('Last-Event-ID') || c.req.query('lastEventId') || 0) || 0;
+
+  return streamSSE(c, async (stream) => {
+    await pipeTranscriptToStream(stream, threadId, { afterId, driverView: true });
+  });
+});
+
+const ACTION_ERROR_STATUS: Record<StationActionErrorCode, 400 | 403 | 404 | 409 | 410 | 429 | 502> = {
+  not_found: 404,
+  forbidden: 403,
+  already_decided: 409,
+  expired: 410,
+  cooldown: 429,
+  command_failed: 502,
+};
+
+function formatAction(action: StationAction | undefined) {
+  return action && {
+    actionId: action.actionId,
+    command: action.command,
+    stationId: action.stationId,
+    summary: action.summary,
+    status: action.status,
+    decidedAt: action.decidedAt?.toISOString() ?? null,
+    executedAt: action.executedAt?.toISOString() ?? null,
+    result: action.result,
+    error: action.error,
+  };
+}
+
+/**
+ * Confirm or cancel a station command proposed in this thread
+ * POST /api/chat/:threadId/actions/:actionId/confirm
+ * POST /api/chat/:threadId/actions/:actionId/reject
+ */
+chat.post('/:threadId/actions/:actionId/:decision{confirm|reject}', async (c) => {
+  try {
+    const threadId = c.req.param('threadId');
+    const actionId = c.req.param('actionId');
+    const decision = c.req.param('decision');
+    const role = await resolveCallerRole({ authorization: c.req.header('authorization') });
+
+    // Only the browser that started the conversation (or support staff) may decide
+    const confirmations = await getStationCommandConfirmations();
+    const approver = { userId: getWebUserId(c), threadId, channel: 'web', role };
+    const result = decision === 'confirm'
+      ? await confirmations.confirm(actionId, approver)
+      : await confirmations.reject(actionId, approver);
+
+    if (!result.success) {
+      const status = ACTION_ERROR_STATUS[result.code || 'not_found'];
+      return c.json({ success: false, error: result.error, action: formatAction(result.data), cooldownSeconds: result.cooldownSeconds }, status);
+    }
+
+    return c.json({ success: true, action: formatAction(result.data) });
+  } catch (error) {
+    logger.error({ error }, 'Failed to handle station action decision');
+    return c.json({ error: 'Failed to handle station action' }, 500);
+  }
+});
+
+const SURVEY_ERROR_STATUS: Partial<Record<SurveyErrorCode, 400 | 403 | 404 | 409 | 410>> = {
+  invalid: 400,
+  forbidden: 403,
+  not_found: 404,
+  already_answered: 409,
+  expired: 410,
+};
+
+const surveyResponseSchema = z.object({
+  rating: z.number().int().min(1).max(5),
+  comment: z.string().trim().max(MAX_COMMENT_LENGTH).optional(),
+});
+
+/**
+ * CSAT survey waiting for the driver in this thread, as the card to show
+ * GET /api/chat/:threadId/survey
+ * 404 when there is none (not over yet, already answered, expired)
+ */
+chat.get('/:threadId/survey', async (c) => {
+  try {
+    const survey = await getCsatSurveys().getPendingSurvey(c.req.param('threadId'));
+    if (!survey) {
+      return c.json({ success: false, error: 'No survey for this conversation' }, 404);
+    }
+    return c.json({ success: true, survey: buildSurveyCard(survey) });
+  } catch (error) {
+    logger.error({ error }, 'Failed to load CSAT survey');
+    return c.json({ error: 'Failed to load survey' }, 500);
+  }
+});
+
+/**
+ * Answer the thread's CSAT survey
+ * POST /api/chat/:threadId/survey/:surveyId
+ * Body: { rating: 1-5, comment?: string }
+ */
+chat.post('/:threadId/survey/:surveyId', async (c) => {
+  try {
+    const parsed = surveyResponseSchema.safeParse(await c.req.json().catch(() => null));
+    if (!parsed.success) {
+      const error = parsed.error.issues.map((issue) => `${issue.path.join('.') || 'body'}: ${issue.message}`).join('; ');
+      return c.json({ success: false, error }, 400);
+    }
+
+    const result = await getCsatSurveys().submitResponse(c.req.param('surveyId'), parsed.data, {
+      channel: 'web',
+      threadId: c.req.param('threadId'),
+      userId: getWebUserId(c),
+    });
+    if (!result.success) {
+      return c.json({ success: false, error: result.error }, (result.code && SURVEY_ERROR_STATUS[result.code]) || 500);
+    }
+
+    return c.json({ success: true, rating: result.data?.rating, comment: result.data?.comment });
+  } catch (error) {
+    logger.error({ error }, 'Failed to record CSAT survey response');
+    return c.json({ error: 'Failed to record survey response' }, 500);
+  }
+});
+
 /**
  * Get chat history for a thread
  * GET /api/chat/:threadId
@@ -111,29 +503,25 @@ chat.post('/', async (c) => {
 chat.get('/:threadId', async (c) => {
   try {
     const threadId = c.req.param('threadId');
-    const db = c.env.DB;
-
-    if (!db) {
-      return c.json({ error: 'Database not configured' }, 500);
-    }
 
     // Get conversation messages
-    const messages = await db
-      .prepare('SELECT * FROM conversation_messages WHERE thread_id = ? ORDER BY created_at ASC')
-      .bind(threadId)
-      .all();
+    const messages = await db.query(
+      'SELECT * FROM conversation_messages WHERE thread_id = ? ORDER BY created_at ASC',
+      [threadId]
+    );
 
     // Get conversation metadata
-    const conversation = await db
-      .prepare('SELECT * FROM conversations WHERE thread_id = ?')
-      .bind(threadId)
-      .first();
+    const conversation = await db.get('SELECT * FROM conversations WHERE thread_id = ?', [threadId]);
+
+    // Which specialist agents handled the conversation
+    const handoffs = await (await getAgentRouter()).getHandoffs(threadId);
 
     return c.json({
       success: true,
       threadId,
       conversation,
-      messages: messages.results || [],
+      messages: messages.rows,
+      handoffs,
     });
   } catch (error) {
     logger.error({ error }, 'Failed to fetch chat history');
@@ -148,20 +536,15 @@ chat.get('/:threadId', async (c) => {
 chat.get('/', async (c) => {
   try {
     const limit = parseInt(c.req.query('limit') || '20');
-    const db = c.env.DB;
-
-    if (!db) {
-      return c.json({ error: 'Database not configured' }, 500);
-    }
 
-    const conversations = await db
-      .prepare('SELECT * FROM conversations ORDER BY updated_at DESC LIMIT ?')
-      .bind(limit)
-      .all();
+    const conversations = await db.query(
+      'SELECT * FROM conversations ORDER BY updated_at DESC LIMIT ?',
+      [limit]
+    );
 
     return c.json({
       success: true,
-      conversations: conversations.results || [],
+      conversations: conversations.rows,
     });
   } catch (error) {
     logger.error({ error }, 'Failed to fetch conversations');
@@ -0,0 +1,360 @@
+/**
+ * Agent Desk API
+ * Human agents working escalated conversations (see services/agentDesk).
+ *
+ * An agent claims a ticket from the queue (or a supervisor assigns it),
+ * which takes over the ticket's conversation: the bot stops answering on
+ * that thread until the agent releases it. The agent follows the
+ * transcript live over SSE, replies to the driver on their channel
+ * (Discord or web chat) and leaves internal notes.
+ *
+ * New tickets are assigned by language, skill and load to the support
+ * agents set up under /agents, with SLA clocks per urgency from
+ * /sla-policies (see services/ticketRouting).
+ * All endpoints require the admin API token; agents identify themselves
+ * with `agent` in the body.
+ */
+
+import { Hono, type Context } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import { z } from 'zod';
+import { logger } from '../utils/logger';
+import { requireAdmin } from '../utils/adminAuth';
+import { pipeTranscriptToStream } from '../utils/transcriptStream';
+import { getAgentDesk, type DeskResult } from '../services/agentDesk';
+import { getTicketRouting, type RoutingResult } from '../services/ticketRouting';
+
+const deskApp = new Hono();
+
+deskApp.use('*', requireAdmin);
+
+const STATUS_BY_CODE = {
+  not_found: 404,
+  forbidden: 403,
+  conflict: 409,
+  invalid: 422,
+  delivery_failed: 502,
+} as const;
+
+// Discord messages are capped at 2000 characters, leave room for the agent's name
+const MAX_MESSAGE_LENGTH = 1900;
+
+const agentSchema = z.object({
+  agent: z.string().trim().min(1).max(100),
+});
+
+const messageSchema = agentSchema.extend({
+  content: z.string().trim().min(1).max(MAX_MESSAGE_LENGTH),
+});
+
+const takeoverSchema = agentSchema.extend({
+  force: z.boolean().optional(),
+});
+
+const assignSchema = agentSchema.extend({
+  assignedBy: z.string().trim().min(1).max(100).optional(),
+});
+
+const releaseSchema = agentSchema.extend({
+  resolve: z.boolean().optional(),
+  resolutionNote: z.string().trim().max(2000).optional(),
+  force: z.boolean().optional(),
+});
+
+function errorStatus(result: DeskResult | RoutingResult) {
+  return result.code ? STATUS_BY_CODE[result.code] : 500;
+}
+
+function errorResponse(error: unknown) {
+  return {
+    success: false,
+    error: error instanceof Error ? error.message : 'Unknown error',
+  };
+}
+
+/**
+ * Parse a JSON body, or the 400 response to return
+ */
+async function parseBody<T>(c: Context, schema: z.ZodType<T>): Promise<{ body: T } | { response: Response }> {
+  const parsed = schema.safeParse(await c.req.json().catch(() => null));
+  if (!parsed.success) {
+    const error = parsed.error.issues.map((issue) => `${issue.path.join('.') || 'body'}: ${issue.message}`).join('; ');
+    return { response: c.json({ success: false, error }, 400) };
+  }
+  return { body: parsed.data };
+}
+
+/**
+ * GET /api/desk/queue
+ * Open escalation tickets, highest priority first, with the agent owning each conversation
+ */
+deskApp.get('/queue', async (c) => {
+  try {
+    const queue = await getAgentDesk().listQueue();
+    return c.json({ success: true, count: queue.length, queue });
+  } catch (error) {
+    logger.error({ error }, 'Error listing desk queue');
+    return c.json(errorResponse(error), 500);
+  }
+});
+
+/**
+ * POST /api/desk/tickets/:ticketId/claim
+ * Take a ticket and its conversation. Body: { agent }
+ */
+deskApp.post('/tickets/:ticketId/claim', async (c) => {
+  try {
+    const parsed = await parseBody(c, agentSchema);
+    if ('response' in parsed) return parsed.response;
+
+    const result = await getAgentDesk().claimTicket(c.req.param('ticketId'), parsed.body.agent);
+    if (!result.success) {
+      return c.json(result, errorStatus(result));
+    }
+    return c.json(result);
+  } catch (error) {
+    logger.error({ error }, 'Error claiming ticket');
+    return c.json(errorResponse(error), 500);
+  }
+});
+
+/**
+ * POST /api/desk/tickets/:ticketId/assign
+ * Give a ticket to an agent, also when someone else has it. Body: { agent, assignedBy? }
+ */
+deskApp.post('/tickets/:ticketId/assign', async (c) => {
+  try {
+    const parsed = await parseBody(c, assignSchema);
+    if ('response' in parsed) return parsed.response;
+
+    const result = await getAgentDesk().assignTicket(c.req.param('ticketId'), parsed.body.agent, {
+      force: true,
+      assignedBy: parsed.body.assignedBy,
+    });
+    if (!result.success) {
+      return c.json(result, errorStatus(result));
+    }
+    return c.json(result);
+  } catch (error) {
+    logger.error({ error }, 'Error assigning ticket');
+    return c.json(errorResponse(error), 500);
+  }
+});
+
+/**
+ * GET /api/desk/threads/:threadId
+ * The conversation's transcript (with internal notes) and its active session
+ */
+deskApp.get('/threads/:threadId', async (c) => {
+  try {
+    const threadId = c.req.param('threadId');
+    const desk = getAgentDesk();
+    const [session, transcript] = await Promise.all([
+      desk.getActiveSession({ threadId }),
+      desk.getTranscript(threadId),
+    ]);
+
+    if (transcript.length === 0) {
+      return c.json({ success: false, error: 'Conversation not found' }, 404);
+    }
+    return c.json({ success: true, data: { threadId, session, transcript } });
+  } catch (error) {
+    logger.error({ error }, 'Error fetching desk thread');
+    return c.json(errorResponse(error), 500);
+  }
+});
+
+/**
+ * GET /api/desk/threads/:threadId/stream
+ * Live transcript over SSE (event: transcript). Header: Last-Event-ID (or
+ * ?lastEventId=) - only entries after this transcript id
+ */
+deskApp.get('/threads/:threadId/stream', async (c) => {
+  const threadId = c.req.param('threadId');
+  const afterId = Number(c.req.header('Last-Event-ID') || c.req.query('lastEventId') || 0) || 0;
+
+  return streamSSE(c, async (stream) => {
+    await pipeTranscriptToStream(stream, threadId, { afterId });
+  });
+});
+
+/**
+ * POST /api/desk/threads/:threadId/takeover
+ * Mute the bot and own the conversation. Body: { agent, force? } - force
+ * takes it from the agent who has it
+ */
+deskApp.post('/threads/:threadId/takeover', async (c) => {
+  try {
+    const parsed = await parseBody(c, takeoverSchema);
+    if ('response' in parsed) return parsed.response;
+
+    const result = await getAgentDesk().takeOver(c.req.param('threadId'), parsed.body.agent, { force: parsed.body.force });
+    if (!result.success) {
+      return c.json(result, errorStatus(result));
+    }
+    return c.json(result);
+  } catch (error) {
+    logger.error({ error }, 'Error taking over conversation');
+    return c.json(errorResponse(error), 500);
+  }
+});
+
+/**
+ * POST /api/desk/threads/:threadId/messages
+ * Reply to the driver. Body: { agent, content }
+ */
+deskApp.post('/threads/:threadId/messages', async (c) => {
+  try {
+    const parsed = await parseBody(c, messageSchema);
+    if ('response' in parsed) return parsed.response;
+
+    const result = await getAgentDesk().sendMessage(c.req.param('threadId'), parsed.body.agent, parsed.body.content);
+    if (!result.success) {
+      return c.json(result, errorStatus(result));
+    }
+    return c.json(result, 201);
+  } catch (error) {
+    logger.error({ error }, 'Error sending desk message');
+    return c.json(errorResponse(error), 500);
+  }
+});
+
+/**
+ * POST /api/desk/threads/:threadId/notes
+ * Internal note, never shown to the driver. Body: { agent, content }
+ */
+deskApp.post('/threads/:threadId/notes', async (c) => {
+  try {
+    const parsed = await parseBody(c, messageSchema);
+    if ('response' in parsed) return parsed.response;
+
+    const result = await getAgentDesk().addNote(c.req.param('threadId'), parsed.body.agent, parsed.body.content);
+    if (!result.success) {
+      return c.json(result, errorStatus(result));
+    }
+    return c.json(result, 201);
+  } catch (error) {
+    logger.error({ error }, 'Error adding desk note');
+    return c.json(errorResponse(error), 500);
+  }
+});
+
+/**
+ * POST /api/desk/threads/:threadId/release
+ * Hand the conversation back to the bot. Body: { agent, resolve?, resolutionNote?, force? }
+ */
+deskApp.post('/threads/:threadId/release', async (c) => {
+  try {
+    const parsed = await parseBody(c, releaseSchema);
+    if ('response' in parsed) return parsed.response;
+
+    const { agent, ...options } = parsed.body;
+    const result = await getAgentDesk().release(c.req.param('threadId'), agent, options);
+    if (!result.success) {
+      return c.json(result, errorStatus(result));
+    }
+    return c.json(result);
+  } catch (error) {
+    logger.error({ error }, 'Error releasing conversation');
+    return c.json(errorResponse(error), 500);
+  }
+});
+
+/**
+ * GET /api/desk/agents
+ * Support agents with languages, skills, shifts, open tickets and whether they are on shift
+ */
+deskApp.get('/agents', async (c) => {
+  try {
+    const agents = await getTicketRouting().listAgents();
+    return c.json({ success: true, count: agents.length, agents });
+  } catch (error) {
+    logger.error({ error }, 'Error listing support agents');
+    return c.json(errorResponse(error), 500);
+  }
+});
+
+/**
+ * PUT /api/desk/agents/:agent
+ * Create or replace a support agent.
+ * Body: { languages, skills, shifts?, timezone?, maxOpenTickets?, active?, displayName? }
+ */
+deskApp.put('/agents/:agent', async (c) => {
+  try {
+    const body = await c.req.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return c.json({ success: false, error: 'Request body must be a support agent' }, 400);
+    }
+
+    const result = await getTicketRouting().saveAgent({ ...body, agent: c.req.param('agent') });
+    if (!result.success) {
+      return c.json(result, errorStatus(result));
+    }
+    return c.json(result);
+  } catch (error) {
+    logger.error({ error }, 'Error saving support agent');
+    return c.json(errorResponse(error), 500);
+  }
+});
+
+/**
+ * DELETE /api/desk/agents/:agent
+ */
+deskApp.delete('/agents/:agent', async (c) => {
+  try {
+    const result = await getTicketRouting().removeAgent(c.req.param('agent'));
+    if (!result.success) {
+      return c.json(result, errorStatus(result));
+    }
+    return c.json(result);
+  } catch (error) {
+    logger.error({ error }, 'Error removing support agent');
+    return c.json(errorResponse(error), 500);
+  }
+});
+
+/**
+ * GET /api/desk/sla-policies
+ */
+deskApp.get('/sla-policies', async (c) => {
+  try {
+    return c.json({ success: true, policies: await getTicketRouting().listPolicies() });
+  } catch (error) {
+    logger.error({ error }, 'Error listing SLA policies');
+    return c.json(errorResponse(error), 500);
+  }
+});
+
+/**
+ * PUT /api/desk/sla-policies/:urgency
+ * Body: { firstResponseMinutes, resolutionMinutes, warnAtPercent?, reescalateAtPercent? }
+ * Applies to tickets escalated from now on
+ */
+deskApp.put('/sla-policies/:urgency', async (c) => {
+  try {
+    const body = await c.req.json().catch(() => null);
+    const result = await getTicketRouting().savePolicy(c.req.param('urgency'), body);
+    if (!result.success) {
+      return c.json(result, errorStatus(result));
+    }
+    return c.json(result);
+  } catch (error) {
+    logger.error({ error }, 'Error saving SLA policy');
+    return c.json(errorResponse(error), 500);
+  }
+});
+
+/**
+ * POST /api/desk/sla/check
+ * Run the SLA check now instead of waiting for the monitor
+ */
+deskApp.post('/sla/check', async (c) => {
+  try {
+    return c.json({ success: true, data: await getTicketRouting().checkSlas() });
+  } catch (error) {
+    logger.error({ error }, 'Error checking SLAs');
+    return c.json(errorResponse(error), 500);
+  }
+});
+
+export default deskApp;
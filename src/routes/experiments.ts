@@ -0,0 +1,156 @@
+/**
+ * Experiments API
+ * A/B experiments on the specialist agents' prompt, model, tools and
+ * temperature (see services/experimentService).
+ *
+ * Experiments are created as drafts (or active), started, paused, and ended
+ * either with stop (back to the agent's own configuration) or with rollout
+ * of a variant. The summary has per-variant means with confidence intervals
+ * and the comparison with the control.
+ * All endpoints require the admin API token.
+ */
+
+import { Hono } from 'hono';
+import { logger } from '../utils/logger';
+import { requireAdmin } from '../utils/adminAuth';
+import { getExperimentService, type ExperimentResult, type ExperimentStatus } from '../services/experimentService';
+
+const experimentsApp = new Hono();
+
+experimentsApp.use('*', requireAdmin);
+
+const STATUS_BY_CODE = {
+  not_found: 404,
+  conflict: 409,
+  invalid: 422,
+} as const;
+
+const EXPERIMENT_STATUSES: ExperimentStatus[] = ['draft', 'active', 'paused', 'completed'];
+
+function errorStatus(result: ExperimentResult) {
+  return result.code ? STATUS_BY_CODE[result.code] : 500;
+}
+
+function errorResponse(error: unknown) {
+  return {
+    success: false,
+    error: error instanceof Error ? error.message : 'Unknown error',
+  };
+}
+
+/**
+ * GET /api/experiments
+ * List experiments, newest first. Query: ?status=active
+ */
+experimentsApp.get('/', async (c) => {
+  try {
+    const status = c.req.query('status') as ExperimentStatus | undefined;
+    if (status && !EXPERIMENT_STATUSES.includes(status)) {
+      return c.json({ success: false, error: `status must be one of ${EXPERIMENT_STATUSES.join(', ')}` }, 400);
+    }
+
+    const experiments = await getExperimentService().listExperiments(status);
+    return c.json({ success: true, count: experiments.length, experiments });
+  } catch (error) {
+    logger.error({ error }, 'Error listing experiments');
+    return c.json(errorResponse(error), 500);
+  }
+});
+
+/**
+ * POST /api/experiments
+ * Create an experiment. Body: { experimentId, name, variants: [control, ...tests], agents?, ... }
+ */
+experimentsApp.post('/', async (c) => {
+  try {
+    const body = await c.req.json().catch(() => null);
+    if (!body) {
+      return c.json({ success: false, error: 'Request body must be an experiment' }, 400);
+    }
+
+    const result = await getExperimentService().createExperiment(body);
+    if (!result.success) {
+      return c.json(result, errorStatus(result));
+    }
+    return c.json(result, 201);
+  } catch (error) {
+    logger.error({ error }, 'Error creating experiment');
+    return c.json(errorResponse(error), 500);
+  }
+});
+
+/**
+ * GET /api/experiments/:experimentId
+ */
+experimentsApp.get('/:experimentId', async (c) => {
+  try {
+    const experiment = await getExperimentService().getExperiment(c.req.param('experimentId'));
+    if (!experiment) {
+      return c.json({ success: false, error: 'Experiment not found' }, 404);
+    }
+    return c.json({ success: true, data: experiment });
+  } catch (error) {
+    logger.error({ error }, 'Error fetching experiment');
+    return c.json(errorResponse(error), 500);
+  }
+});
+
+/**
+ * GET /api/experiments/:experimentId/summary
+ * Per-variant exposures, metric means with confidence intervals, difference
+ * vs the control (interval and p-value) and a recommendation
+ */
+experimentsApp.get('/:experimentId/summary', async (c) => {
+  try {
+    const summary = await getExperimentService().getSummary(c.req.param('experimentId'));
+    if (!summary) {
+      return c.json({ success: false, error: 'Experiment not found' }, 404);
+    }
+    return c.json({ success: true, data: summary });
+  } catch (error) {
+    logger.error({ error }, 'Error summarizing experiment');
+    return c.json(errorResponse(error), 500);
+  }
+});
+
+/**
+ * POST /api/experiments/:experimentId/start | pause | stop
+ */
+for (const action of ['start', 'pause', 'stop'] as const) {
+  experimentsApp.post(`/:experimentId/${action}`, async (c) => {
+    try {
+      const result = await getExperimentService()[action](c.req.param('experimentId'));
+      if (!result.success) {
+        return c.json(result, errorStatus(result));
+      }
+      return c.json(result);
+    } catch (error) {
+      logger.error({ error, action }, 'Error changing experiment status');
+      return c.json(errorResponse(error), 500);
+    }
+  });
+}
+
+/**
+ * POST /api/experiments/:experimentId/rollout
+ * Complete the experiment and serve one variant to everyone. Body: { variantId }
+ */
+experimentsApp.post('/:experimentId/rollout', async (c) => {
+  try {
+    const body = await c.req.json().catch(() => null);
+    if (!body?.variantId) {
+      return c.json({ success: false, error: 'variantId is required' }, 400);
+    }
+
+    const result = await getExperimentService().rollout(c.req.param('experimentId'), body.variantId);
+    if (!result.success) {
+      return c.json(result, errorStatus(result));
+    }
+    return c.json(result);
+  } catch (error) {
+    logger.error({ error }, 'Error rolling out experiment variant');
+    return c.json(errorResponse(error), 500);
+  }
+});
+
+export default experimentsApp;
@@ -0,0 +1,165 @@
+/**
+ * Helpdesk API
+ * Escalation tickets exported to the external helpdesk (see services/helpdeskSync).
+ *
+ * The helpdesk reports status changes to POST /webhooks/:provider, verified
+ * with HELPDESK_WEBHOOK_SECRETS (comma-separated, current secret first) the
+ * way each provider signs its webhooks; a solved or closed helpdesk ticket
+ * resolves its escalation ticket. The other endpoints require the admin
+ * API token.
+ */
+
+import { Hono } from 'hono';
+import { logger } from '../utils/logger';
+import { requireAdmin } from '../utils/adminAuth';
+import { parseSecrets } from '../utils/webhookSignature';
+import { getHelpdeskSync, type HelpdeskResult, type HelpdeskSyncStatus } from '../services/helpdeskSync';
+
+const helpdeskApp = new Hono();
+
+const STATUS_BY_CODE = {
+  not_configured: 503,
+  not_found: 404,
+  failed: 502,
+} as const;
+
+const SYNC_STATUSES: HelpdeskSyncStatus[] = ['pending', 'exported', 'failed'];
+
+function errorStatus(result: HelpdeskResult) {
+  return result.code ? STATUS_BY_CODE[result.code] : 500;
+}
+
+function errorResponse(error: unknown) {
+  return {
+    success: false,
+    error: error instanceof Error ? error.message : 'Unknown error',
+  };
+}
+
+/**
+ * POST /api/helpdesk/webhooks/:provider
+ * Status change from the helpdesk
+ */
+helpdeskApp.post('/webhooks/:provider', async (c) => {
+  try {
+    const provider = c.req.param('provider');
+    const sync = getHelpdeskSync();
+    const connector = await sync.getConnector();
+    if (!connector || connector.provider !== provider) {
+      return c.json({ success: false, error: `Helpdesk ${provider} is not configured` }, 404);
+    }
+
+    const rawBody = await c.req.text();
+
+    const secrets = parseSecrets(process.env.HELPDESK_WEBHOOK_SECRETS);
+    if (secrets.length > 0) {
+      const verification = connector.verifyWebhook(rawBody, (name) => c.req.header(name), secrets);
+      if (!verification.valid) {
+        logger.warn({ provider, error: verification.error }, 'Rejected helpdesk webhook with invalid signature');
+        return c.json({ success: false, error: 'Invalid signature' }, 401);
+      }
+      if (verification.secretIndex && verification.secretIndex > 0) {
+        logger.info({ provider, secretIndex: verification.secretIndex }, 'Helpdesk webhook signed with a previous secret');
+      }
+    } else if (process.env.NODE_ENV === 'production') {
+      logger.error('HELPDESK_WEBHOOK_SECRETS is not configured, rejecting webhook');
+      return c.json({ success: false, error: 'Webhook verification is not configured' }, 503);
+    } else {
+      logger.warn('HELPDESK_WEBHOOK_SECRETS is not configured, skipping signature verification');
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return c.json({ success: false, error: 'Invalid JSON payload' }, 400);
+    }
+
+    const change = connector.parseWebhook(payload);
+    if (!change) {
+      // Other events the webhook is subscribed to
+      return c.json({ success: true, ignored: true });
+    }
+
+    const result = await sync.applyStatusChange(change, connector.provider);
+    if (!result.success) {
+      // Tickets created in the helpdesk directly have no escalation ticket
+      if (result.code === 'not_found') {
+        return c.json({ success: true, ignored: true });
+      }
+      return c.json(result, errorStatus(result));
+    }
+    return c.json(result);
+  } catch (error) {
+    logger.error({ error }, 'Error processing helpdesk webhook');
+    return c.json(errorResponse(error), 500);
+  }
+});
+
+/**
+ * GET /api/helpdesk/links
+ * Exported tickets, latest first. Query: syncStatus (pending, exported, failed), limit
+ */
+helpdeskApp.get('/links', requireAdmin, async (c) => {
+  try {
+    const syncStatus = c.req.query('syncStatus') as HelpdeskSyncStatus | undefined;
+    if (syncStatus && !SYNC_STATUSES.includes(syncStatus)) {
+      return c.json({ success: false, error: `syncStatus must be one of ${SYNC_STATUSES.join(', ')}` }, 400);
+    }
+
+    const links = await getHelpdeskSync().listLinks({ syncStatus, limit: Number(c.req.query('limit')) || undefined });
+    return c.json({ success: true, count: links.length, links });
+  } catch (error) {
+    logger.error({ error }, 'Error listing helpdesk links');
+    return c.json(errorResponse(error), 500);
+  }
+});
+
+/**
+ * GET /api/helpdesk/tickets/:ticketId
+ * The helpdesk ticket of an escalation ticket
+ */
+helpdeskApp.get('/tickets/:ticketId', requireAdmin, async (c) => {
+  try {
+    const link = await getHelpdeskSync().getLink(c.req.param('ticketId'));
+    if (!link) {
+      return c.json({ success: false, error: 'Ticket has not been exported' }, 404);
+    }
+    return c.json({ success: true, data: link });
+  } catch (error) {
+    logger.error({ error }, 'Error fetching helpdesk link');
+    return c.json(errorResponse(error), 500);
+  }
+});
+
+/**
+ * POST /api/helpdesk/tickets/:ticketId/export
+ * Export now (again, after failed attempts)
+ */
+helpdeskApp.post('/tickets/:ticketId/export', requireAdmin, async (c) => {
+  try {
+    const result = await getHelpdeskSync().exportTicket(c.req.param('ticketId'));
+    if (!result.success) {
+      return c.json(result, errorStatus(result));
+    }
+    return c.json(result);
+  } catch (error) {
+    logger.error({ error }, 'Error exporting ticket to helpdesk');
+    return c.json(errorResponse(error), 500);
+  }
+});
+
+/**
+ * POST /api/helpdesk/sync
+ * Run the sync job now: retry exports, poll statuses, push resolutions
+ */
+helpdeskApp.post('/sync', requireAdmin, async (c) => {
+  try {
+    return c.json({ success: true, data: await getHelpdeskSync().syncAll() });
+  } catch (error) {
+    logger.error({ error }, 'Error syncing helpdesk');
+    return c.json(errorResponse(error), 500);
+  }
+});
+
+export default helpdeskApp;
@@ -1,8 +1,8 @@
 import { Hono } from 'hono';
 import { logger } from '../utils/logger';
+import { db } from '../db';
 
 type Bindings = {
-  DB: D1Database;
   R2?: R2Bucket;
 };
 
@@ -27,11 +27,6 @@ media.post('/upload', async (c) => {
       return c.json({ error: 'Thread ID required' }, 400);
     }
 
-    const db = c.env.DB;
-    if (!db) {
-      return c.json({ error: 'Database not configured' }, 500);
-    }
-
     // Generate unique file ID
     const fileId = `media-${Date.now()}-${Math.random().toString(36).substring(7)}`;
     const fileExtension = file.name.split('.').pop() || 'bin';
@@ -46,40 +41,40 @@ media.post('/upload', async (c) => {
     const base64Data = Buffer.from(fileBuffer).toString('base64');
 
     // Save media file record
-    await db.prepare(`
+    await db.run(`
       INSERT INTO media_files (
         file_id, thread_id, file_name, file_type, file_size, 
         mime_type, storage_path, upload_status
       ) VALUES (?, ?, ?, ?, ?, ?, ?, 'uploaded')
-    `).bind(
+    `, [
       fileId,
       threadId,
       file.name,
       mediaType,
       fileSize,
       file.type,
-      `data:${file.type};base64,${base64Data}`
-    ).run();
+      `data:${file.type};base64,${base64Data}`,
+    ]);
 
     // Queue for processing based on type
     if (mediaType === 'image') {
-      await db.prepare(`
+      await db.run(`
         INSERT INTO media_processing_queue (
           file_id, processing_type, priority, status
         ) VALUES (?, 'ocr', 5, 'pending')
-      `).bind(fileId).run();
+      `, [fileId]);
     } else if (mediaType === 'audio') {
-      await db.prepare(`
+      await db.run(`
         INSERT INTO media_processing_queue (
           file_id, processing_type, priority, status
         ) VALUES (?, 'transcription', 5, 'pending')
-      `).bind(fileId).run();
+      `, [fileId]);
     } else if (mediaType === 'video') {
-      await db.prepare(`
+      await db.run(`
         INSERT INTO media_processing_queue (
           file_id, processing_type, priority, status
         ) VALUES (?, 'video_analysis', 5, 'pending')
-      `).bind(fileId).run();
+      `, [fileId]);
     }
 
     logger.info({
@@ -113,46 +108,36 @@ media.post('/upload', async (c) => {
 media.get('/:fileId/status', async (c) => {
   try {
     const fileId = c.req.param('fileId');
-    const db = c.env.DB;
-
-    if (!db) {
-      return c.json({ error: 'Database not configured' }, 500);
-    }
 
     // Get file info
-    const fileInfo = await db.prepare('SELECT * FROM media_files WHERE file_id = ?')
-      .bind(fileId)
-      .first();
+    const fileInfo = await db.get('SELECT * FROM media_files WHERE file_id = ?', [fileId]);
 
     if (!fileInfo) {
       return c.json({ error: 'File not found' }, 404);
     }
 
     // Get processing status
-    const processingQueue = await db.prepare(`
+    const processingQueue = await db.query(`
       SELECT * FROM media_processing_queue 
       WHERE file_id = ? 
       ORDER BY created_at DESC
-    `).bind(fileId).all();
+    `, [fileId]);
 
     // Get results
-    const ocrResults = await db.prepare('SELECT * FROM ocr_results WHERE file_id = ?')
-      .bind(fileId).all();
+    const ocrResults = await db.query('SELECT * FROM ocr_results WHERE file_id = ?', [fileId]);
     
-    const transcriptions = await db.prepare('SELECT * FROM voice_transcriptions WHERE file_id = ?')
-      .bind(fileId).all();
+    const transcriptions = await db.query('SELECT * FROM voice_transcriptions WHERE file_id = ?', [fileId]);
     
-    const videoAnalysis = await db.prepare('SELECT * FROM video_analysis_results WHERE file_id = ?')
-      .bind(fileId).all();
+    const videoAnalysis = await db.query('SELECT * FROM video_analysis_results WHERE file_id = ?', [fileId]);
 
     return c.json({
       success: true,
       file: fileInfo,
-      processing: processingQueue.results || [],
+      processing: processingQueue.rows,
       results: {
-        ocr: ocrResults.results || [],
-        transcriptions: transcriptions.results || [],
-        videoAnalysis: videoAnalysis.results || [],
+        ocr: ocrResults.rows,
+        transcriptions: transcriptions.rows,
+        videoAnalysis: videoAnalysis.rows,
       },
     });
   } catch (error) {
@@ -168,15 +153,8 @@ media.get('/:fileId/status', async (c) => {
 media.get('/:fileId', async (c) => {
   try {
     const fileId = c.req.param('fileId');
-    const db = c.env.DB;
 
-    if (!db) {
-      return c.json({ error: 'Database not configured' }, 500);
-    }
-
-    const fileInfo = await db.prepare('SELECT * FROM media_files WHERE file_id = ?')
-      .bind(fileId)
-      .first();
+    const fileInfo = await db.get('SELECT * FROM media_files WHERE file_id = ?', [fileId]);
 
     if (!fileInfo) {
       return c.json({ error: 'File not found' }, 404);
@@ -205,24 +183,19 @@ media.get('/:fileId', async (c) => {
 media.get('/', async (c) => {
   try {
     const limit = parseInt(c.req.query('limit') || '20');
-    const db = c.env.DB;
-
-    if (!db) {
-      return c.json({ error: 'Database not configured' }, 500);
-    }
 
-    const files = await db.prepare(`
+    const files = await db.query(`
       SELECT 
         file_id, thread_id, file_name, file_type, 
         file_size, mime_type, upload_status, uploaded_at
       FROM media_files
       ORDER BY uploaded_at DESC
       LIMIT ?
-    `).bind(limit).all();
+    `, [limit]);
 
     return c.json({
       success: true,
-      files: files.results || [],
+      files: files.rows,
     });
   } catch (error) {
     logger.error({ error }, 'Failed to list media files');
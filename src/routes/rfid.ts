@@ -1,62 +1,22 @@
 /**
  * RFID Card Management System
  * Manage RFID cards/tags for charging authorization
+ * Tables: migration 037_rfid_cards
  */
 
 import { Hono } from 'hono';
 import { logger } from '../utils/logger';
 import { ampecoRequest } from '../mastra/utils/ampecoUtils';
-import { getDatabase } from '../utils/db';
+import { db } from '../db';
 
 const rfidApp = new Hono();
 
-// Initialize database tables
-const db = getDatabase();
-db.exec(`
-  CREATE TABLE IF NOT EXISTS rfid_cards (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    card_id TEXT UNIQUE NOT NULL,
-    card_label TEXT,
-    user_id INTEGER,
-    user_email TEXT,
-    user_name TEXT,
-    status TEXT DEFAULT 'active' CHECK (status IN ('active', 'blocked', 'expired', 'lost')),
-    card_type TEXT DEFAULT 'standard' CHECK (card_type IN ('standard', 'premium', 'fleet', 'guest')),
-    issued_date DATETIME DEFAULT CURRENT_TIMESTAMP,
-    expiry_date DATETIME,
-    last_used DATETIME,
-    usage_count INTEGER DEFAULT 0,
-    notes TEXT,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
-
-  CREATE TABLE IF NOT EXISTS rfid_usage_log (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    card_id TEXT NOT NULL,
-    charge_point_id INTEGER,
-    evse_id INTEGER,
-    session_id TEXT,
-    action TEXT NOT NULL CHECK (action IN ('authorize', 'start_charge', 'stop_charge', 'denied')),
-    success BOOLEAN DEFAULT 1,
-    error_message TEXT,
-    timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
-    FOREIGN KEY (card_id) REFERENCES rfid_cards(card_id)
-  );
-
-  CREATE INDEX IF NOT EXISTS idx_rfid_cards_status ON rfid_cards(status);
-  CREATE INDEX IF NOT EXISTS idx_rfid_cards_user_id ON rfid_cards(user_id);
-  CREATE INDEX IF NOT EXISTS idx_rfid_usage_log_card_id ON rfid_usage_log(card_id);
-  CREATE INDEX IF NOT EXISTS idx_rfid_usage_log_timestamp ON rfid_usage_log(timestamp);
-`);
-
 /**
  * GET /api/rfid/cards
  * List all RFID cards
  */
-rfidApp.get('/cards', (c) => {
+rfidApp.get('/cards', async (c) => {
   try {
-    const db = getDatabase();
     const status = c.req.query('status');
     const userId = c.req.query('userId');
     const cardType = c.req.query('type');
@@ -81,25 +41,24 @@ rfidApp.get('/cards', (c) => {
 
     query += ' ORDER BY created_at DESC';
 
-    const stmt = db.prepare(query);
-    const cards = stmt.all(...params);
+    const { rows: cards } = await db.query(query, params);
 
     // Get usage stats for each card
-    const cardsWithStats = cards.map((card: any) => {
-      const usageStats = db.prepare(`
+    const cardsWithStats = await Promise.all(cards.map(async (card: any) => {
+      const usageStats = await db.get(`
         SELECT 
           COUNT(*) as total_uses,
-          SUM(CASE WHEN success = 1 THEN 1 ELSE 0 END) as successful_uses,
+          SUM(CASE WHEN success = ${db.sql.bool(true)} THEN 1 ELSE 0 END) as successful_uses,
           MAX(timestamp) as last_used_at
         FROM rfid_usage_log
         WHERE card_id = ?
-      `).get(card.card_id) as any;
+      `, [card.card_id]);
 
       return {
         ...card,
         usage_stats: usageStats,
       };
-    });
+    }));
 
     return c.json({
       success: true,
@@ -124,7 +83,6 @@ rfidApp.get('/cards', (c) => {
  */
 rfidApp.post('/cards', async (c) => {
   try {
-    const db = getDatabase();
     const body = await c.req.json();
     const { cardId, cardLabel, userId, userEmail, userName, cardType, expiryDate, notes } = body;
 
@@ -133,19 +91,18 @@ rfidApp.post('/cards', async (c) => {
     }
 
     // Check if card already exists
-    const existing = db.prepare('SELECT id FROM rfid_cards WHERE card_id = ?').get(cardId);
+    const existing = await db.get('SELECT id FROM rfid_cards WHERE card_id = ?', [cardId]);
     if (existing) {
       return c.json({ success: false, error: 'Card ID already exists' }, 409);
     }
 
     // Insert new card
-    const stmt = db.prepare(`
+    const newCard = await db.get(`
       INSERT INTO rfid_cards 
       (card_id, card_label, user_id, user_email, user_name, card_type, expiry_date, notes)
       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-    `);
-
-    const result = stmt.run(
+      RETURNING *
+    `, [
       cardId,
       cardLabel || null,
       userId || null,
@@ -153,11 +110,8 @@ rfidApp.post('/cards', async (c) => {
       userName || null,
       cardType || 'standard',
       expiryDate || null,
-      notes || null
-    );
-
-    // Get the created card
-    const newCard = db.prepare('SELECT * FROM rfid_cards WHERE id = ?').get(result.lastInsertRowid);
+      notes || null,
+    ]);
 
     logger.info({ cardId, userId }, 'RFID card created');
 
@@ -182,35 +136,34 @@ rfidApp.post('/cards', async (c) => {
  * GET /api/rfid/cards/:cardId
  * Get specific RFID card details
  */
-rfidApp.get('/cards/:cardId', (c) => {
+rfidApp.get('/cards/:cardId', async (c) => {
   try {
-    const db = getDatabase();
     const cardId = c.req.param('cardId');
 
-    const card = db.prepare('SELECT * FROM rfid_cards WHERE card_id = ?').get(cardId);
+    const card = await db.get('SELECT * FROM rfid_cards WHERE card_id = ?', [cardId]);
 
     if (!card) {
       return c.json({ success: false, error: 'Card not found' }, 404);
     }
 
     // Get usage history
-    const usageHistory = db.prepare(`
+    const { rows: usageHistory } = await db.query(`
       SELECT * FROM rfid_usage_log
       WHERE card_id = ?
       ORDER BY timestamp DESC
       LIMIT 50
-    `).all(cardId);
+    `, [cardId]);
 
     // Get usage stats
-    const usageStats = db.prepare(`
+    const usageStats = await db.get(`
       SELECT 
         COUNT(*) as total_uses,
-        SUM(CASE WHEN success = 1 THEN 1 ELSE 0 END) as successful_uses,
-        SUM(CASE WHEN success = 0 THEN 1 ELSE 0 END) as failed_uses,
+        SUM(CASE WHEN success = ${db.sql.bool(true)} THEN 1 ELSE 0 END) as successful_uses,
+        SUM(CASE WHEN success = ${db.sql.bool(false)} THEN 1 ELSE 0 END) as failed_uses,
         MAX(timestamp) as last_used_at
       FROM rfid_usage_log
       WHERE card_id = ?
-    `).get(cardId);
+    `, [cardId]);
 
     return c.json({
       success: true,
@@ -236,14 +189,13 @@ rfidApp.get('/cards/:cardId', (c) => {
  */
 rfidApp.patch('/cards/:cardId', async (c) => {
   try {
-    const db = getDatabase();
     const cardId = c.req.param('cardId');
     const body = await c.req.json();
 
     const { cardLabel, status, cardType, expiryDate, notes } = body;
 
     // Check if card exists
-    const existing = db.prepare('SELECT id FROM rfid_cards WHERE card_id = ?').get(cardId);
+    const existing = await db.get('SELECT id FROM rfid_cards WHERE card_id = ?', [cardId]);
     if (!existing) {
       return c.json({ success: false, error: 'Card not found' }, 404);
     }
@@ -280,16 +232,14 @@ rfidApp.patch('/cards/:cardId', async (c) => {
     updates.push('updated_at = CURRENT_TIMESTAMP');
     params.push(cardId);
 
-    const stmt = db.prepare(`
+    await db.run(`
       UPDATE rfid_cards 
       SET ${updates.join(', ')}
       WHERE card_id = ?
-    `);
-
-    stmt.run(...params);
+    `, params);
 
     // Get updated card
-    const updatedCard = db.prepare('SELECT * FROM rfid_cards WHERE card_id = ?').get(cardId);
+    const updatedCard = await db.get('SELECT * FROM rfid_cards WHERE card_id = ?', [cardId]);
 
     logger.info({ cardId, updates: Object.keys(body) }, 'RFID card updated');
 
@@ -314,19 +264,18 @@ rfidApp.patch('/cards/:cardId', async (c) => {
  * DELETE /api/rfid/cards/:cardId
  * Delete RFID card
  */
-rfidApp.delete('/cards/:cardId', (c) => {
+rfidApp.delete('/cards/:cardId', async (c) => {
   try {
-    const db = getDatabase();
     const cardId = c.req.param('cardId');
 
     // Check if card exists
-    const existing = db.prepare('SELECT id FROM rfid_cards WHERE card_id = ?').get(cardId);
+    const existing = await db.get('SELECT id FROM rfid_cards WHERE card_id = ?', [cardId]);
     if (!existing) {
       return c.json({ success: false, error: 'Card not found' }, 404);
     }
 
     // Delete card
-    db.prepare('DELETE FROM rfid_cards WHERE card_id = ?').run(cardId);
+    await db.run('DELETE FROM rfid_cards WHERE card_id = ?', [cardId]);
 
     // Keep usage history for audit purposes (don't delete from usage_log)
 
@@ -354,7 +303,6 @@ rfidApp.delete('/cards/:cardId', (c) => {
  */
 rfidApp.post('/authorize', async (c) => {
   try {
-    const db = getDatabase();
     const body = await c.req.json();
     const { cardId, chargePointId, evseId } = body;
 
@@ -363,17 +311,17 @@ rfidApp.post('/authorize', async (c) => {
     }
 
     // Check if card exists and is active
-    const card = db.prepare(`
+    const card = await db.get(`
       SELECT * FROM rfid_cards 
       WHERE card_id = ? AND status = 'active'
-    `).get(cardId) as any;
+    `, [cardId]);
 
     if (!card) {
       // Log failed authorization
-      db.prepare(`
+      await db.run(`
         INSERT INTO rfid_usage_log (card_id, charge_point_id, evse_id, action, success, error_message)
-        VALUES (?, ?, ?, 'authorize', 0, 'Card not found or inactive')
-      `).run(cardId, chargePointId || null, evseId || null);
+        VALUES (?, ?, ?, 'authorize', ${db.sql.bool(false)}, 'Card not found or inactive')
+      `, [cardId, chargePointId || null, evseId || null]);
 
       return c.json({
         success: false,
@@ -384,10 +332,10 @@ rfidApp.post('/authorize', async (c) => {
 
     // Check expiry date
     if (card.expiry_date && new Date(card.expiry_date) < new Date()) {
-      db.prepare(`
+      await db.run(`
         INSERT INTO rfid_usage_log (card_id, charge_point_id, evse_id, action, success, error_message)
-        VALUES (?, ?, ?, 'authorize', 0, 'Card expired')
-      `).run(cardId, chargePointId || null, evseId || null);
+        VALUES (?, ?, ?, 'authorize', ${db.sql.bool(false)}, 'Card expired')
+      `, [cardId, chargePointId || null, evseId || null]);
 
       return c.json({
         success: false,
@@ -397,17 +345,17 @@ rfidApp.post('/authorize', async (c) => {
     }
 
     // Log successful authorization
-    db.prepare(`
+    await db.run(`
       INSERT INTO rfid_usage_log (card_id, charge_point_id, evse_id, action, success)
-      VALUES (?, ?, ?, 'authorize', 1)
-    `).run(cardId, chargePointId || null, evseId || null);
+      VALUES (?, ?, ?, 'authorize', ${db.sql.bool(true)})
+    `, [cardId, chargePointId || null, evseId || null]);
 
     // Update last used
-    db.prepare(`
+    await db.run(`
       UPDATE rfid_cards 
       SET last_used = CURRENT_TIMESTAMP, usage_count = usage_count + 1
       WHERE card_id = ?
-    `).run(cardId);
+    `, [cardId]);
 
     logger.info({ cardId, chargePointId }, 'RFID card authorized');
 
@@ -439,29 +387,28 @@ rfidApp.post('/authorize', async (c) => {
  * GET /api/rfid/stats
  * Get RFID system statistics
  */
-rfidApp.get('/stats', (c) => {
+rfidApp.get('/stats', async (c) => {
   try {
-    const db = getDatabase();
-    const totalCards = db.prepare('SELECT COUNT(*) as count FROM rfid_cards').get() as { count: number };
-    const activeCards = db.prepare('SELECT COUNT(*) as count FROM rfid_cards WHERE status = \'active\'').get() as { count: number };
-    const blockedCards = db.prepare('SELECT COUNT(*) as count FROM rfid_cards WHERE status = \'blocked\'').get() as { count: number };
+    const totalCards = await db.get<{ count: number }>('SELECT COUNT(*) as count FROM rfid_cards');
+    const activeCards = await db.get<{ count: number }>('SELECT COUNT(*) as count FROM rfid_cards WHERE status = \'active\'');
+    const blockedCards = await db.get<{ count: number }>('SELECT COUNT(*) as count FROM rfid_cards WHERE status = \'blocked\'');
 
-    const cardsByType = db.prepare(`
+    const { rows: cardsByType } = await db.query(`
       SELECT card_type, COUNT(*) as count
       FROM rfid_cards
       GROUP BY card_type
-    `).all();
+    `);
 
-    const recentUsage = db.prepare(`
+    const recentUsage = await db.get(`
       SELECT 
         COUNT(*) as total_uses,
-        SUM(CASE WHEN success = 1 THEN 1 ELSE 0 END) as successful_uses,
-        SUM(CASE WHEN success = 0 THEN 1 ELSE 0 END) as failed_uses
+        SUM(CASE WHEN success = ${db.sql.bool(true)} THEN 1 ELSE 0 END) as successful_uses,
+        SUM(CASE WHEN success = ${db.sql.bool(false)} THEN 1 ELSE 0 END) as failed_uses
       FROM rfid_usage_log
-      WHERE timestamp > datetime('now', '-24 hours')
-    `).get();
+      WHERE timestamp > ${db.sql.ago(24, 'hours')}
+    `);
 
-    const topCards = db.prepare(`
+    const { rows: topCards } = await db.query(`
       SELECT 
         r.card_id,
         r.card_label,
@@ -469,18 +416,18 @@ rfidApp.get('/stats', (c) => {
         COUNT(l.id) as usage_count
       FROM rfid_cards r
       LEFT JOIN rfid_usage_log l ON r.card_id = l.card_id
-      WHERE l.timestamp > datetime('now', '-30 days')
-      GROUP BY r.card_id
+      WHERE l.timestamp > ${db.sql.ago(30, 'days')}
+      GROUP BY r.card_id, r.card_label, r.user_name
       ORDER BY usage_count DESC
       LIMIT 10
-    `).all();
+    `);
 
     return c.json({
       success: true,
       overview: {
-        total_cards: totalCards.count,
-        active_cards: activeCards.count,
-        blocked_cards: blockedCards.count,
+        total_cards: Number(totalCards?.count || 0),
+        active_cards: Number(activeCards?.count || 0),
+        blocked_cards: Number(blockedCards?.count || 0),
       },
       cards_by_type: cardsByType,
       recent_usage_24h: recentUsage,
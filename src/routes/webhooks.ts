@@ -8,99 +8,124 @@
  * - Station status changed
  * - Error/fault notifications
  * - Connector plugged/unplugged
+ *
+ * Requests are verified with an HMAC-SHA256 signature (AMPECO_WEBHOOK_SECRETS,
+ * comma-separated, current secret first) and deduplicated by idempotency key,
+ * so Ampeco retries are not processed twice. Each stored event tracks its own
+ * processing status and last error, and can be replayed by an admin. Processing
+ * holds a lease (AMPECO_WEBHOOK_PROCESSING_LEASE_SECONDS): an event stuck in
+ * 'processing' past it is picked up again by the next retry or replay.
+ * Tables: migrations 038_ampeco_webhook_events, 049_webhook_processing_lease
  */
 
-import { Hono } from 'hono';
+import crypto from 'crypto';
+import { Hono, type Context } from 'hono';
 import { logger } from '../utils/logger';
-import { getDatabase } from '../utils/db';
+import { db, parseJsonColumn } from '../db';
+import { requireAdmin } from '../utils/adminAuth';
+import { parseSecrets, verifyWebhookSignature } from '../utils/webhookSignature';
+import { AmpecoWebhookEvent, dispatchWebhookEvent } from '../services/webhookEventHandlers';
 
 const webhookApp = new Hono();
 
-// Initialize database tables
-const db = getDatabase();
-db.exec(`
-  CREATE TABLE IF NOT EXISTS ampeco_webhook_events (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    event_type TEXT NOT NULL,
-    charge_point_id INTEGER,
-    evse_id INTEGER,
-    session_id TEXT,
-    payload JSON NOT NULL,
-    received_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    processed BOOLEAN DEFAULT 0,
-    processed_at DATETIME
-  );
-
-  CREATE INDEX IF NOT EXISTS idx_webhook_events_type ON ampeco_webhook_events(event_type);
-  CREATE INDEX IF NOT EXISTS idx_webhook_events_processed ON ampeco_webhook_events(processed);
-  CREATE INDEX IF NOT EXISTS idx_webhook_events_received_at ON ampeco_webhook_events(received_at);
-`);
+const SIGNATURE_HEADER = process.env.AMPECO_WEBHOOK_SIGNATURE_HEADER || 'x-ampeco-signature';
+
+// How long an event may stay 'processing' before another request may take it over
+const PROCESSING_LEASE_SECONDS = parseInt(process.env.AMPECO_WEBHOOK_PROCESSING_LEASE_SECONDS || '300');
 
 /**
- * Ampeco Webhook Event Types
+ * Process an event through the webhook handler pipeline
  */
-interface AmpecoWebhookEvent {
-  notification: string;
-  chargePointId?: number;
-  evseId?: number;
-  sessionId?: string;
-  data?: any;
-  timestamp?: string;
+async function processEvent(event: AmpecoWebhookEvent): Promise<{ success: boolean; action?: string; error?: string }> {
+  return dispatchWebhookEvent(event);
+}
+
+type WebhookEventStatus = 'received' | 'processing' | 'processed' | 'failed';
+
+interface StoredWebhookEvent {
+  id: number;
+  idempotency_key: string | null;
+  status: WebhookEventStatus;
+  action: string | null;
+  payload: string | AmpecoWebhookEvent; // JSON text in SQLite, parsed in Postgres
 }
 
 /**
- * Process different event types
+ * Derive the idempotency key: explicit header, then event id, then a hash of the body
  */
-function processEvent(event: AmpecoWebhookEvent): { success: boolean; action?: string } {
-  try {
-    const eventType = event.notification;
-
-    switch (eventType) {
-      case 'session.started':
-        logger.info({ event }, 'Session started');
-        // Trigger real-time notification to user
-        return { success: true, action: 'notify_user_session_started' };
-
-      case 'session.stopped':
-        logger.info({ event }, 'Session stopped');
-        // Calculate final cost, send receipt
-        return { success: true, action: 'send_receipt' };
-
-      case 'session.failed':
-        logger.warn({ event }, 'Session failed');
-        // Alert support team
-        return { success: true, action: 'alert_support' };
-
-      case 'chargepoint.status_changed':
-        logger.info({ event }, 'Charge point status changed');
-        // Update cache, notify monitoring dashboard
-        return { success: true, action: 'update_dashboard' };
-
-      case 'chargepoint.faulted':
-        logger.error({ event }, 'Charge point faulted');
-        // Send emergency notification
-        return { success: true, action: 'emergency_notification' };
-
-      case 'connector.plugged':
-        logger.info({ event }, 'Connector plugged in');
-        return { success: true, action: 'update_status' };
-
-      case 'connector.unplugged':
-        logger.info({ event }, 'Connector unplugged');
-        return { success: true, action: 'update_status' };
-
-      case 'authorization.failed':
-        logger.warn({ event }, 'Authorization failed');
-        return { success: true, action: 'notify_user_auth_failed' };
-
-      default:
-        logger.debug({ event }, 'Unhandled event type');
-        return { success: true, action: 'log_only' };
-    }
-  } catch (error) {
-    logger.error({ error, event }, 'Error processing webhook event');
-    return { success: false };
+function getIdempotencyKey(c: Context, event: AmpecoWebhookEvent, rawBody: string): string {
+  const headerKey = c.req.header('idempotency-key') || c.req.header('x-ampeco-event-id');
+  if (headerKey) {
+    return headerKey;
+  }
+
+  if (event.id) {
+    return `event:${event.id}`;
   }
+
+  return `sha256:${crypto.createHash('sha256').update(rawBody).digest('hex')}`;
+}
+
+/**
+ * Claim a stored event for processing. Fails while another request holds an
+ * unexpired lease on it, and for processed events unless `reprocess` is set.
+ */
+async function claimStoredEvent(id: number, reprocess: boolean): Promise<boolean> {
+  const claimed = await db.run(`
+    UPDATE ampeco_webhook_events
+    SET status = 'processing', attempts = attempts + 1, processing_started_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+      AND (status <> 'processing' OR processing_started_at IS NULL
+        OR processing_started_at < ${db.sql.ago(PROCESSING_LEASE_SECONDS, 'seconds')})
+      ${reprocess ? '' : `AND status <> 'processed'`}
+  `, [id]);
+  return claimed.changes > 0;
+}
+
+/**
+ * Claim a stored event, run it through processEvent() and record the outcome
+ * on its row. Returns null if the event couldn't be claimed (in flight, or
+ * already processed and `reprocess` not set).
+ */
+async function runStoredEvent(id: number, idempotencyKey: string | null, event: AmpecoWebhookEvent, reprocess = false): Promise<{
+  status: WebhookEventStatus;
+  action?: string;
+  error?: string;
+} | null> {
+  if (!(await claimStoredEvent(id, reprocess))) {
+    return null;
+  }
+
+  // Handlers key their side effects on the event id; every delivery and
+  // replay of a stored event carries the same one
+  const keyedEvent = event.id || !idempotencyKey ? event : { ...event, id: idempotencyKey };
+
+  // A handler that throws fails the event rather than leaving it 'processing'
+  const result = await processEvent(keyedEvent).catch((error) => ({
+    success: false,
+    action: undefined,
+    error: error instanceof Error ? error.message : 'Unknown error',
+  }));
+
+  if (result.success) {
+    await db.run(`
+      UPDATE ampeco_webhook_events
+      SET status = 'processed', processed = ${db.sql.bool(true)}, processed_at = CURRENT_TIMESTAMP, action = ?, last_error = NULL
+      WHERE id = ?
+    `, [result.action || null, id]);
+
+    return { status: 'processed', action: result.action };
+  }
+
+  const error = result.error || 'Processing failed';
+  await db.run(`
+    UPDATE ampeco_webhook_events
+    SET status = 'failed', processed = ${db.sql.bool(false)}, last_error = ?
+    WHERE id = ?
+  `, [error, id]);
+
+  logger.warn({ id, eventType: event.notification, error }, 'Webhook event processing failed');
+  return { status: 'failed', error };
 }
 
 /**
@@ -109,41 +134,107 @@ function processEvent(event: AmpecoWebhookEvent): { success: boolean; action?: s
  */
 webhookApp.post('/ampeco', async (c) => {
   try {
-    const db = getDatabase();
-    const event: AmpecoWebhookEvent = await c.req.json();
+    const rawBody = await c.req.text();
+
+    // Verify signature against current and previous secrets
+    const secrets = parseSecrets(process.env.AMPECO_WEBHOOK_SECRETS);
+    if (secrets.length > 0) {
+      const verification = verifyWebhookSignature(rawBody, c.req.header(SIGNATURE_HEADER), secrets);
+      if (!verification.valid) {
+        logger.warn({ error: verification.error }, 'Rejected Ampeco webhook with invalid signature');
+        return c.json({ success: false, error: 'Invalid signature' }, 401);
+      }
+      if (verification.secretIndex && verification.secretIndex > 0) {
+        logger.info({ secretIndex: verification.secretIndex }, 'Ampeco webhook signed with a previous secret');
+      }
+    } else if (process.env.NODE_ENV === 'production') {
+      logger.error('AMPECO_WEBHOOK_SECRETS is not configured, rejecting webhook');
+      return c.json({ success: false, error: 'Webhook verification is not configured' }, 503);
+    } else {
+      logger.warn('AMPECO_WEBHOOK_SECRETS is not configured, skipping signature verification');
+    }
 
-    logger.info({ event }, 'Received Ampeco webhook');
+    let event: AmpecoWebhookEvent;
+    try {
+      event = JSON.parse(rawBody);
+    } catch {
+      return c.json({ success: false, error: 'Invalid JSON payload' }, 400);
+    }
 
-    // Store event in database
-    const stmt = db.prepare(`
-      INSERT INTO ampeco_webhook_events 
-      (event_type, charge_point_id, evse_id, session_id, payload)
-      VALUES (?, ?, ?, ?, ?)
-    `);
+    if (!event?.notification) {
+      return c.json({ success: false, error: 'Missing notification type' }, 400);
+    }
 
-    stmt.run(
-      event.notification,
-      event.chargePointId || null,
-      event.evseId || null,
-      event.sessionId || null,
-      JSON.stringify(event)
+    const idempotencyKey = getIdempotencyKey(c, event, rawBody);
+    logger.info({ event, idempotencyKey }, 'Received Ampeco webhook');
+
+    // Ampeco retries: skip events already processed or in flight, retry failed ones
+    const findExisting = () => db.get<Pick<StoredWebhookEvent, 'id' | 'status' | 'action'>>(
+      `SELECT id, status, action FROM ampeco_webhook_events WHERE idempotency_key = ?`,
+      [idempotencyKey]
     );
+    const duplicate = (row: Pick<StoredWebhookEvent, 'id' | 'status' | 'action'>) => {
+      logger.info({ id: row.id, idempotencyKey, status: row.status }, 'Duplicate Ampeco webhook ignored');
+      return c.json({
+        success: true,
+        duplicate: true,
+        message: 'Webhook already received',
+        eventId: row.id,
+        status: row.status,
+        action: row.action,
+      });
+    };
+
+    const existing = await findExisting();
+    if (existing?.status === 'processed') {
+      return duplicate(existing);
+    }
+
+    let id: number;
+    if (existing) {
+      id = existing.id;
+    } else {
+      // Store event in database; a concurrent delivery of the same event may win the insert
+      const inserted = await db.get<{ id: number }>(`
+        INSERT INTO ampeco_webhook_events
+        (event_type, charge_point_id, evse_id, session_id, payload, idempotency_key, status)
+        VALUES (?, ?, ?, ?, ?, ?, 'received')
+        ON CONFLICT (idempotency_key) DO NOTHING
+        RETURNING id
+      `, [
+        event.notification,
+        event.chargePointId || null,
+        event.evseId || null,
+        event.sessionId || null,
+        rawBody,
+        idempotencyKey,
+      ]);
+      if (!inserted) {
+        const winner = await findExisting();
+        if (!winner) {
+          throw new Error(`Webhook event ${idempotencyKey} conflicted on insert but was not found`);
+        }
+        return duplicate(winner);
+      }
+      id = Number(inserted.id);
+    }
 
-    // Process event
-    const result = processEvent(event);
+    // Process event, unless another delivery of it is already being processed
+    const result = await runStoredEvent(id, idempotencyKey, event);
+    if (!result) {
+      return duplicate((await findExisting()) ?? { id, status: 'processing', action: null });
+    }
 
-    // Mark as processed
-    if (result.success) {
-      db.prepare(`
-        UPDATE ampeco_webhook_events 
-        SET processed = 1, processed_at = CURRENT_TIMESTAMP 
-        WHERE event_type = ? AND charge_point_id = ? AND received_at > datetime('now', '-1 minute')
-      `).run(event.notification, event.chargePointId || null);
+    if (result.status === 'failed') {
+      // Non-2xx so Ampeco retries; the retry reprocesses this row
+      return c.json({ success: false, eventId: id, status: result.status, error: result.error }, 500);
     }
 
     return c.json({
       success: true,
       message: 'Webhook received and processed',
+      eventId: id,
+      status: result.status,
       action: result.action,
     });
   } catch (error) {
@@ -158,15 +249,101 @@ webhookApp.post('/ampeco', async (c) => {
   }
 });
 
+/**
+ * POST /api/webhooks/ampeco/replay
+ * Replay stored events through processEvent() (admin only)
+ *
+ * Body: { ids?: number[], status?: 'failed' | 'received' | 'processed', eventType?: string, limit?: number }
+ * Events still being processed (lease not expired) are skipped.
+ */
+webhookApp.post('/ampeco/replay', requireAdmin, async (c) => {
+  try {
+    const body = await c.req.json().catch(() => ({}));
+    const { ids, status, eventType } = body as {
+      ids?: number[];
+      status?: WebhookEventStatus;
+      eventType?: string;
+    };
+    const limit = Math.min(parseInt(body.limit) || 50, 500);
+
+    if ((!Array.isArray(ids) || ids.length === 0) && !status) {
+      return c.json({ success: false, error: 'Provide event ids or a status to replay' }, 400);
+    }
+
+    let query = `SELECT id, idempotency_key, status, action, payload FROM ampeco_webhook_events WHERE 1=1`;
+    const params: any[] = [];
+
+    if (Array.isArray(ids) && ids.length > 0) {
+      query += ` AND id IN (${ids.map(() => '?').join(', ')})`;
+      params.push(...ids.map(Number));
+    }
+    if (status) {
+      query += ` AND status = ?`;
+      params.push(status);
+    }
+    if (eventType) {
+      query += ` AND event_type = ?`;
+      params.push(eventType);
+    }
+
+    query += ` ORDER BY id ASC LIMIT ?`;
+    params.push(limit);
+
+    const { rows } = await db.query<StoredWebhookEvent>(query, params);
+
+    // Replay in order, one at a time, so handlers see events as Ampeco sent them
+    const results = [];
+    for (const row of rows) {
+      try {
+        const payload = typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload;
+        const result = await runStoredEvent(row.id, row.idempotency_key, payload, true);
+        if (!result) {
+          // Still being processed by a webhook delivery (lease not expired)
+          results.push({ id: row.id, previousStatus: row.status, status: 'skipped' as const, error: 'Event is being processed' });
+          continue;
+        }
+        results.push({ id: row.id, previousStatus: row.status, ...result });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        await db.run(`UPDATE ampeco_webhook_events SET status = 'failed', last_error = ? WHERE id = ?`, [message, row.id]);
+        results.push({ id: row.id, previousStatus: row.status, status: 'failed' as const, error: message });
+      }
+    }
+
+    logger.info({
+      replayed: results.length,
+      failed: results.filter((r) => r.status === 'failed').length,
+    }, 'Replayed Ampeco webhook events');
+
+    return c.json({
+      success: true,
+      replayed: results.length,
+      succeeded: results.filter((r) => r.status === 'processed').length,
+      failed: results.filter((r) => r.status === 'failed').length,
+      skipped: results.filter((r) => r.status === 'skipped').length,
+      results,
+    });
+  } catch (error) {
+    logger.error({ error }, 'Webhook replay error');
+    return c.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
+
 /**
  * GET /api/webhooks/ampeco/events
  * Retrieve recent webhook events (for debugging/monitoring)
  */
-webhookApp.get('/ampeco/events', (c) => {
+webhookApp.get('/ampeco/events', async (c) => {
   try {
-    const db = getDatabase();
     const limit = parseInt(c.req.query('limit') || '50');
     const eventType = c.req.query('type');
+    const status = c.req.query('status');
 
     let query = `
       SELECT * FROM ampeco_webhook_events 
@@ -180,16 +357,20 @@ webhookApp.get('/ampeco/events', (c) => {
       params.push(eventType);
     }
 
+    if (status) {
+      query += ` AND status = ?`;
+      params.push(status);
+    }
+
     query += ` ORDER BY received_at DESC LIMIT ?`;
     params.push(limit);
 
-    const stmt = db.prepare(query);
-    const events = stmt.all(...params);
+    const { rows: events } = await db.query(query, params);
 
     // Parse JSON payloads
     const parsedEvents = events.map((event: any) => ({
       ...event,
-      payload: JSON.parse(event.payload),
+      payload: parseJsonColumn(event.payload, null),
     }));
 
     return c.json({
@@ -213,38 +394,30 @@ webhookApp.get('/ampeco/events', (c) => {
  * GET /api/webhooks/ampeco/stats
  * Get webhook statistics
  */
-webhookApp.get('/ampeco/stats', (c) => {
+webhookApp.get('/ampeco/stats', async (c) => {
   try {
-    const db = getDatabase();
-    const stats = db
-      .prepare(
-        `
+    const { rows: stats } = await db.query(`
       SELECT 
         event_type,
         COUNT(*) as count,
-        SUM(CASE WHEN processed = 1 THEN 1 ELSE 0 END) as processed_count,
+        SUM(CASE WHEN processed = ${db.sql.bool(true)} THEN 1 ELSE 0 END) as processed_count,
+        SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) as failed_count,
         MAX(received_at) as last_received
       FROM ampeco_webhook_events
-      WHERE received_at > datetime('now', '-24 hours')
+      WHERE received_at > ${db.sql.ago(24, 'hours')}
       GROUP BY event_type
       ORDER BY count DESC
-    `
-      )
-      .all();
+    `);
 
-    const totalEvents = db
-      .prepare(
-        `
+    const totalEvents = await db.get<{ total: number }>(`
       SELECT COUNT(*) as total FROM ampeco_webhook_events
-      WHERE received_at > datetime('now', '-24 hours')
-    `
-      )
-      .get() as { total: number };
+      WHERE received_at > ${db.sql.ago(24, 'hours')}
+    `);
 
     return c.json({
       success: true,
       period: 'Last 24 hours',
-      total_events: totalEvents.total,
+      total_events: Number(totalEvents?.total || 0),
       by_type: stats,
     });
   } catch (error) {
@@ -0,0 +1,192 @@
+/**
+ * Workflow Authoring API
+ * Create and edit diagnostic workflows as JSON without a deploy.
+ *
+ * Every change is saved as a draft version; publishing runs the static
+ * validator (translations, dangling/unreachable steps, cycles without exits,
+ * unknown tools, branch conditions) and makes the version live.
+ * All endpoints require the admin API token.
+ */
+
+import { Hono } from 'hono';
+import { logger } from '../utils/logger';
+import { requireAdmin } from '../utils/adminAuth';
+import { getWorkflowDefinitionService, WorkflowDefinitionResult } from '../services/workflowDefinitionService';
+import { validateWorkflowDefinition } from '../workflows/workflowValidator';
+
+const workflowsApp = new Hono();
+
+workflowsApp.use('*', requireAdmin);
+
+const STATUS_BY_CODE = {
+  not_found: 404,
+  conflict: 409,
+  invalid: 422,
+} as const;
+
+function errorStatus(result: WorkflowDefinitionResult) {
+  return result.code ? STATUS_BY_CODE[result.code] : 500;
+}
+
+function errorResponse(error: unknown) {
+  return {
+    success: false,
+    error: error instanceof Error ? error.message : 'Unknown error',
+  };
+}
+
+/**
+ * GET /api/workflows
+ * List built-in and authored workflows with their published and draft versions
+ */
+workflowsApp.get('/', async (c) => {
+  try {
+    const workflows = await getWorkflowDefinitionService().listWorkflows();
+    return c.json({ success: true, count: workflows.length, workflows });
+  } catch (error) {
+    logger.error({ error }, 'Error listing workflows');
+    return c.json(errorResponse(error), 500);
+  }
+});
+
+/**
+ * POST /api/workflows/validate
+ * Validate a definition without saving it
+ */
+workflowsApp.post('/validate', async (c) => {
+  const definition = await c.req.json().catch(() => null);
+  if (!definition) {
+    return c.json({ success: false, error: 'Request body must be a workflow definition' }, 400);
+  }
+
+  return c.json({ success: true, validation: validateWorkflowDefinition(definition) });
+});
+
+/**
+ * POST /api/workflows
+ * Create a workflow (or a new draft of one). Body: { definition, changeNote? }
+ */
+workflowsApp.post('/', async (c) => {
+  try {
+    const body = await c.req.json().catch(() => null);
+    if (!body?.definition) {
+      return c.json({ success: false, error: 'definition is required' }, 400);
+    }
+
+    const result = await getWorkflowDefinitionService().saveDraft(body.definition, {
+      author: c.req.header('x-author') || undefined,
+      changeNote: body.changeNote,
+    });
+
+    if (!result.success) {
+      return c.json(result, errorStatus(result));
+    }
+    return c.json(result, 201);
+  } catch (error) {
+    logger.error({ error }, 'Error creating workflow');
+    return c.json(errorResponse(error), 500);
+  }
+});
+
+/**
+ * GET /api/workflows/:workflowId
+ * Workflow summary with all versions
+ */
+workflowsApp.get('/:workflowId', async (c) => {
+  try {
+    const workflowId = c.req.param('workflowId');
+    const service = getWorkflowDefinitionService();
+    const live = await service.resolveWorkflow(workflowId);
+    const versions = await service.listVersions(workflowId);
+
+    if (!live && versions.length === 0) {
+      return c.json({ success: false, error: `Workflow ${workflowId} not found` }, 404);
+    }
+
+    return c.json({
+      success: true,
+      workflowId,
+      live: live ? { version: live.version, builtin: live.version === null, definition: live.workflow } : null,
+      versions: versions.map(({ definition, ...version }) => version),
+    });
+  } catch (error) {
+    logger.error({ error }, 'Error fetching workflow');
+    return c.json(errorResponse(error), 500);
+  }
+});
+
+/**
+ * GET /api/workflows/:workflowId/versions/:version
+ * One version with its definition and last validation result
+ */
+workflowsApp.get('/:workflowId/versions/:version', async (c) => {
+  try {
+    const version = await getWorkflowDefinitionService().getVersion(c.req.param('workflowId'), parseInt(c.req.param('version')));
+    if (!version) {
+      return c.json({ success: false, error: 'Version not found' }, 404);
+    }
+    return c.json({ success: true, data: version });
+  } catch (error) {
+    logger.error({ error }, 'Error fetching workflow version');
+    return c.json(errorResponse(error), 500);
+  }
+});
+
+/**
+ * PUT /api/workflows/:workflowId/draft
+ * Create or replace the open draft. Body: { definition, changeNote? }
+ */
+workflowsApp.put('/:workflowId/draft', async (c) => {
+  try {
+    const body = await c.req.json().catch(() => null);
+    if (!body?.definition) {
+      return c.json({ success: false, error: 'definition is required' }, 400);
+    }
+
+    const result = await getWorkflowDefinitionService().saveDraft(body.definition, {
+      author: c.req.header('x-author') || undefined,
+      changeNote: body.changeNote,
+      expectedWorkflowId: c.req.param('workflowId'),
+    });
+
+    return result.success ? c.json(result) : c.json(result, errorStatus(result));
+  } catch (error) {
+    logger.error({ error }, 'Error saving workflow draft');
+    return c.json(errorResponse(error), 500);
+  }
+});
+
+/**
+ * DELETE /api/workflows/:workflowId/draft
+ * Discard the open draft
+ */
+workflowsApp.delete('/:workflowId/draft', async (c) => {
+  try {
+    const result = await getWorkflowDefinitionService().discardDraft(c.req.param('workflowId'));
+    return result.success ? c.json(result) : c.json(result, errorStatus(result));
+  } catch (error) {
+    logger.error({ error }, 'Error discarding workflow draft');
+    return c.json(errorResponse(error), 500);
+  }
+});
+
+/**
+ * POST /api/workflows/:workflowId/versions/:version/publish
+ * Validate and publish a draft; the previous published version is archived
+ */
+workflowsApp.post('/:workflowId/versions/:version/publish', async (c) => {
+  try {
+    const result = await getWorkflowDefinitionService().publish(
+      c.req.param('workflowId'),
+      parseInt(c.req.param('version')),
+      c.req.header('x-author') || undefined
+    );
+
+    return result.success ? c.json(result) : c.json(result, errorStatus(result));
+  } catch (error) {
+    logger.error({ error }, 'Error publishing workflow');
+    return c.json(errorResponse(error), 500);
+  }
+});
+
+export default workflowsApp;
@@ -0,0 +1,130 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Agent Evaluation CLI
+ *
+ * Replays the conversations in tests/fixtures/agent-evals against the support
+ * agent with the scripted model, mock Ampeco / OCPP backends and a throwaway
+ * in-memory database (see services/agentEvaluation).
+ *
+ * Usage:
+ *   npm run eval:agent                                    run the corpus, print pass/fail and quality
+ *   npm run eval:agent -- --out=evals/before.json         also save the report
+ *   npm run eval:agent -- --label=short-kb --instructions=kb.md
+ *                                                         try other instructions without editing the agent
+ *   npm run eval:agent -- --tool-overrides=tools.json     {"<tool>": {"description": "..."} | {"remove": true}}
+ *   npm run eval:agent -- --agent=billing                 a specialist agent instead of edgeControlAgent
+ *   npm run eval:agent -- --model=openai/gpt-4o           a real model instead of the scripted one
+ *   npm run eval:agent -- --case=he-                      only cases whose id starts with this
+ *   npm run eval:agent:diff -- before.json after.json     compare two saved reports
+ *
+ * Exits with 1 when a case fails (run) or a case regressed (diff).
+ */
+
+// Evals never touch real data
+process.env.DATABASE_URL = ':memory:';
+
+const DEFAULT_CASES_DIR = path.join(process.cwd(), 'tests/fixtures/agent-evals');
+
+function getArg(name: string): string | undefined {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`));
+  return arg ? arg.substring(name.length + 3) : undefined;
+}
+
+function readJson<T>(file: string): T {
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as T;
+}
+
+async function loadAgent(name: string) {
+  if (name === 'edgeControl') {
+    const { edgeControlAgent } = await import('../mastra/agents/edgeControlAgent');
+    return edgeControlAgent;
+  }
+
+  const { isSpecialistId } = await import('../mastra/agents/specialists');
+  if (!isSpecialistId(name)) {
+    throw new Error(`Unknown agent: ${name} (expected edgeControl or a specialist id)`);
+  }
+  const { getSpecialistAgent } = await import('../mastra/agents/specialistAgents');
+  return getSpecialistAgent(name);
+}
+
+async function runEvals(): Promise<void> {
+  const { getDb } = await import('../db');
+  const { Migrator } = await import('../db/migrator');
+  const { AgentEvalRunner, formatEvalReport, loadEvalCases } = await import('../services/agentEvaluation');
+
+  const db = getDb();
+  await new Migrator(db).up();
+
+  const only = getArg('case');
+  const cases = loadEvalCases(getArg('cases') || DEFAULT_CASES_DIR).filter((evalCase) => !only || evalCase.id.startsWith(only));
+  if (cases.length === 0) {
+    throw new Error('No eval cases to run');
+  }
+
+  const instructionsFile = getArg('instructions');
+  const toolOverridesFile = getArg('tool-overrides');
+  const runner = new AgentEvalRunner({
+    agent: await loadAgent(getArg('agent') || 'edgeControl'),
+    db,
+    label: getArg('label') || 'current',
+    model: getArg('model'),
+    instructions: instructionsFile ? fs.readFileSync(instructionsFile, 'utf8') : undefined,
+    toolOverrides: toolOverridesFile ? readJson(toolOverridesFile) : undefined,
+  });
+
+  const report = await runner.run(cases);
+  console.log(formatEvalReport(report));
+
+  const out = getArg('out');
+  if (out) {
+    fs.mkdirSync(path.dirname(out), { recursive: true });
+    fs.writeFileSync(out, JSON.stringify(report, null, 2));
+    console.log(`\nReport saved to ${out}`);
+  }
+
+  if (report.summary.failed > 0) process.exitCode = 1;
+}
+
+async function diffReports(beforeFile: string | undefined, afterFile: string | undefined): Promise<void> {
+  if (!beforeFile || !afterFile) {
+    throw new Error('diff needs two report files: diff <before.json> <after.json>');
+  }
+
+  const { diffEvalReports, formatEvalDiff } = await import('../services/agentEvaluation');
+  const diff = diffEvalReports(readJson(beforeFile), readJson(afterFile));
+  console.log(formatEvalDiff(diff));
+
+  if (diff.summary.regressions > 0) process.exitCode = 1;
+}
+
+async function main() {
+  const [command, ...files] = process.argv.slice(2).filter((arg) => !arg.startsWith('--'));
+
+  switch (command || 'run') {
+    case 'run':
+      await runEvals();
+      break;
+
+    case 'diff':
+      await diffReports(files[0], files[1]);
+      break;
+
+    default:
+      throw new Error(`Unknown command: ${command} (expected run or diff)`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    const { closeDb } = await import('../db');
+    await closeDb();
+    // Services started by the tools (cache cleanup, backend polling) keep timers running
+    process.exit(process.exitCode ?? 0);
+  });
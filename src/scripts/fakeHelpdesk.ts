@@ -0,0 +1,73 @@
+import { FakeHelpdeskServer } from '../services/fakeHelpdeskServer';
+import { isHelpdeskProvider } from '../services/helpdeskConnector';
+import { parseSecrets } from '../utils/webhookSignature';
+import { logger } from '../utils/logger';
+
+/**
+ * Fake Helpdesk
+ *
+ * Runs the fake Zendesk / Freshdesk / Jira Service Management server so the
+ * helpdesk sync can be tried locally. Point the bot at it with
+ * HELPDESK_PROVIDER=<provider> HELPDESK_BASE_URL=http://localhost:<port>
+ * (any HELPDESK_API_TOKEN, and JIRA_SERVICE_DESK_ID / JIRA_REQUEST_TYPE_ID
+ * for jira). With --solve-after, exported tickets are solved after that
+ * many seconds and the status webhook is sent to the bot.
+ *
+ * Usage:
+ *   npm run fake-helpdesk
+ *   npm run fake-helpdesk -- --provider=jira --port=4010 --solve-after=30
+ *   npm run fake-helpdesk -- --webhook-url=http://localhost:3000/api/helpdesk/webhooks/zendesk
+ */
+
+function getArg(name: string, fallback: string): string {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`));
+  return arg ? arg.substring(name.length + 3) : fallback;
+}
+
+async function main() {
+  const provider = getArg('provider', process.env.HELPDESK_PROVIDER || 'zendesk');
+  if (!isHelpdeskProvider(provider)) {
+    throw new Error(`Unknown helpdesk provider ${provider} (zendesk, freshdesk, jira)`);
+  }
+
+  const server = new FakeHelpdeskServer({
+    provider,
+    webhookUrl: getArg('webhook-url', `http://localhost:${process.env.PORT || 3000}/api/helpdesk/webhooks/${provider}`),
+    webhookSecret: parseSecrets(process.env.HELPDESK_WEBHOOK_SECRETS)[0],
+  });
+
+  const url = await server.start(parseInt(getArg('port', '4010')));
+  logger.info({ provider, url }, `Fake ${provider} helpdesk listening, set HELPDESK_BASE_URL=${url}`);
+
+  const solveAfter = parseInt(getArg('solve-after', '0'));
+  const seen = new Set<string>();
+
+  setInterval(() => {
+    for (const ticket of server.tickets.values()) {
+      if (seen.has(ticket.id)) continue;
+      seen.add(ticket.id);
+      logger.info({ id: ticket.id, subject: ticket.subject, priority: ticket.priority }, 'Helpdesk ticket created');
+
+      if (solveAfter > 0) {
+        setTimeout(async () => {
+          try {
+            const response = await server.setStatus(ticket.id, 'solved');
+            logger.info({ id: ticket.id, webhookStatus: response?.status }, 'Helpdesk ticket solved');
+          } catch (error) {
+            logger.error({ error, id: ticket.id }, 'Could not deliver status webhook');
+          }
+        }, solveAfter * 1000);
+      }
+    }
+  }, 1000);
+
+  process.on('SIGINT', async () => {
+    await server.stop();
+    process.exit(0);
+  });
+}
+
+main().catch((error) => {
+  logger.error({ error }, 'Fake helpdesk failed');
+  process.exit(1);
+});
@@ -7,13 +7,15 @@ import path from 'path';
 /**
  * Knowledge Base Ingestion Script
  * 
- * Ingests knowledge base documents into Pinecone vector store
- * for semantic search and retrieval-augmented generation (RAG).
+ * Ingests knowledge base documents into the vector store (Pinecone or the
+ * local backend, see services/vectorStore) for semantic search and
+ * retrieval-augmented generation (RAG).
  * 
  * Usage:
  *   npm run ingest-kb
  *   npm run ingest-kb -- --file=path/to/knowledge.txt
  *   npm run ingest-kb -- --clear
+ *   npm run ingest-kb -- --namespace=staging
  */
 
 interface KnowledgeDocument {
@@ -506,18 +508,19 @@ async function main() {
   const args = process.argv.slice(2);
   const clearFlag = args.includes('--clear');
   const fileArg = args.find((arg) => arg.startsWith('--file='));
+  const namespace = args.find((arg) => arg.startsWith('--namespace='))?.split('=')[1];
 
   logger.info('Starting knowledge base ingestion...');
 
   const vectorStore = getVectorStore();
 
-  // Initialize Pinecone index
+  // Create the Pinecone index if needed
   await vectorStore.initialize();
 
   // Clear namespace if requested
   if (clearFlag) {
     logger.info('Clearing existing vectors...');
-    await vectorStore.deleteNamespace();
+    await vectorStore.deleteNamespace(namespace);
   }
 
   // Prepare documents
@@ -562,7 +565,7 @@ async function main() {
 
   // Ingest documents
   logger.info('Ingesting documents...', { count: documents.length });
-  await vectorStore.addDocuments(documents);
+  await vectorStore.addDocuments(documents, namespace);
 
   // Get stats
   const stats = await vectorStore.getStats();
@@ -571,7 +574,7 @@ async function main() {
   // Test search
   logger.info('Testing semantic search...');
   const testQuery = 'איך להתחיל טעינה';
-  const results = await vectorStore.searchWithScores(testQuery, 3);
+  const results = await vectorStore.searchWithScores(testQuery, 3, { namespace });
 
   logger.info('Search results:', {
     query: testQuery,
@@ -0,0 +1,108 @@
+import { closeDb, getDb } from '../db';
+import { Migrator, MigrationError, type MigrationRunResult } from '../db/migrator';
+import { logger } from '../utils/logger';
+
+/**
+ * Database Migration CLI
+ *
+ * Applies src/db/migrations to the database from DATABASE_URL (SQLite file or
+ * Postgres) and records them in schema_migrations.
+ *
+ * Usage:
+ *   npm run db:migrate                          apply all pending migrations
+ *   npm run db:migrate -- --to=025              apply pending migrations up to 025
+ *   npm run db:migrate -- --dry-run             print the SQL that would run
+ *   npm run db:migrate:down                     roll back the latest migration
+ *   npm run db:migrate:down -- --steps=3        roll back the latest 3
+ *   npm run db:migrate:down -- --to=030         roll back everything above 030
+ *   npm run db:migrate:status                   list applied / pending / drifted migrations
+ *   npm run db:migrate -- baseline --to=036     mark 036 and below as applied without running them
+ *                                               (databases created before the ledger)
+ *
+ * --allow-drift runs up/down even if applied migration files have changed.
+ */
+
+function getArg(name: string): string | undefined {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`));
+  return arg ? arg.substring(name.length + 3) : undefined;
+}
+
+function printRun(result: MigrationRunResult, verb: string): void {
+  if (result.steps.length === 0) {
+    console.log('Nothing to do');
+    return;
+  }
+
+  for (const step of result.steps) {
+    const label = `${step.version}_${step.name} (${step.fileName})`;
+    if (result.dryRun) {
+      console.log(`-- ${verb}: ${label}`);
+      if (step.sql) console.log(step.sql.trimEnd() + '\n');
+    } else {
+      console.log(`${verb}: ${label}${step.durationMs !== undefined ? ` in ${step.durationMs}ms` : ''}`);
+    }
+  }
+
+  if (result.dryRun) {
+    console.log(`-- Dry run: ${result.steps.length} migration(s) not ${verb.toLowerCase()}`);
+  }
+}
+
+async function main() {
+  const command = process.argv.slice(2).find((arg) => !arg.startsWith('--')) || 'up';
+  const dryRun = process.argv.includes('--dry-run');
+  const allowDrift = process.argv.includes('--allow-drift');
+  const to = getArg('to');
+
+  const database = getDb();
+  const migrator = new Migrator(database);
+  console.log(`Database: ${database.dialect}`);
+
+  switch (command) {
+    case 'up':
+      printRun(await migrator.up({ to, dryRun, allowDrift }), 'Applied');
+      break;
+
+    case 'down': {
+      const steps = getArg('steps');
+      printRun(await migrator.down({ to, steps: steps ? parseInt(steps) : undefined, dryRun, allowDrift }), 'Rolled back');
+      break;
+    }
+
+    case 'status': {
+      const statuses = await migrator.status();
+      for (const status of statuses) {
+        const flags = [status.appliedAt && `applied ${status.appliedAt}`, !status.reversible && status.state !== 'missing' && 'no down']
+          .filter(Boolean)
+          .join(', ');
+        console.log(`${status.state.padEnd(8)} ${status.version}_${status.name}${flags ? `  (${flags})` : ''}`);
+      }
+      const pending = statuses.filter((status) => status.state === 'pending').length;
+      const drifted = statuses.filter((status) => status.state === 'drifted').length;
+      console.log(`${pending} pending, ${drifted} drifted`);
+      if (drifted > 0) process.exitCode = 1;
+      break;
+    }
+
+    case 'baseline':
+      if (!to) {
+        throw new MigrationError('baseline needs --to=<version>');
+      }
+      printRun(await migrator.baseline(to, { dryRun }), 'Baselined');
+      break;
+
+    default:
+      throw new MigrationError(`Unknown command: ${command} (expected up, down, status or baseline)`);
+  }
+}
+
+main()
+  .catch((error) => {
+    if (error instanceof MigrationError) {
+      console.error(error.message);
+    } else {
+      logger.error({ error }, 'Migration failed');
+    }
+    process.exitCode = 1;
+  })
+  .finally(() => closeDb());
@@ -0,0 +1,58 @@
+import { OcppChargePointSimulator } from '../services/ocppChargePointSimulator';
+import { OcppVersion } from '../services/ocppCentralSystem';
+import { logger } from '../utils/logger';
+
+/**
+ * OCPP Charge Point Simulator
+ *
+ * Connects a simulated charger to the central system, starts a short charging
+ * session and then stays connected so remote commands (reset, unlock,
+ * remote start/stop) can be tried from the agent or API.
+ *
+ * Usage:
+ *   npm run simulate-ocpp
+ *   npm run simulate-ocpp -- --id=SIM-001 --version=2.0.1 --url=ws://localhost:3000/ocpp
+ *   npm run simulate-ocpp -- --password=secret --idtag=04A1B2C3
+ *   npm run simulate-ocpp -- --fault
+ *
+ * The password defaults to OCPP_SHARED_PASSWORD; the id tag must be an active
+ * card in rfid_cards.
+ */
+
+function getArg(name: string, fallback: string): string {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`));
+  return arg ? arg.substring(name.length + 3) : fallback;
+}
+
+async function main() {
+  const simulator = new OcppChargePointSimulator({
+    url: getArg('url', `ws://localhost:${process.env.PORT || 3000}${process.env.OCPP_PATH || '/ocpp'}`),
+    chargePointId: getArg('id', 'SIM-001'),
+    password: getArg('password', process.env.OCPP_SHARED_PASSWORD || ''),
+    version: getArg('version', '1.6') as OcppVersion,
+    connectors: parseInt(getArg('connectors', '2')),
+  });
+
+  await simulator.connect();
+  logger.info('Simulator connected');
+
+  const transactionId = await simulator.startTransaction(1, getArg('idtag', 'SIMTAG01'));
+  logger.info({ transactionId }, 'Charging on connector 1');
+
+  if (process.argv.includes('--fault')) {
+    await simulator.fault(2);
+    logger.info('Reported fault on connector 2');
+  }
+
+  simulator.on('disconnected', () => {
+    logger.info('Simulator disconnected');
+    process.exit(0);
+  });
+
+  process.on('SIGINT', () => simulator.disconnect());
+}
+
+main().catch((error) => {
+  logger.error({ error }, 'OCPP simulator failed');
+  process.exit(1);
+});
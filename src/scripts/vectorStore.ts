@@ -0,0 +1,86 @@
+import { closeDb } from '../db';
+import { copyVectorStore, createVectorStore, getVectorStore, type VectorStoreBackend } from '../services/vectorStore';
+import { logger } from '../utils/logger';
+
+/**
+ * Vector Store CLI
+ *
+ * Namespaces of the configured vector store (VECTOR_STORE_BACKEND) and
+ * copying an index between backends. Copies keep the vectors, so both
+ * backends must use the same embeddings model.
+ *
+ * Usage:
+ *   npm run vector-store -- stats                               backend, dimensions, record counts
+ *   npm run vector-store -- namespaces                          list namespaces
+ *   npm run vector-store -- delete-namespace --namespace=old    delete a namespace's documents
+ *   npm run vector-store -- migrate --from=pinecone --to=local  copy every namespace
+ *   npm run vector-store -- migrate --from=local --to=pinecone --namespace=default --clear
+ *                                                               one namespace, emptied on the target first
+ */
+
+function getArg(name: string): string | undefined {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`));
+  return arg ? arg.substring(name.length + 3) : undefined;
+}
+
+function getBackend(name: string): VectorStoreBackend {
+  const value = getArg(name);
+  if (value !== 'pinecone' && value !== 'local') {
+    throw new Error(`--${name} must be pinecone or local`);
+  }
+  return value;
+}
+
+async function main() {
+  const command = process.argv.slice(2).find((arg) => !arg.startsWith('--')) || 'stats';
+  const namespace = getArg('namespace');
+
+  switch (command) {
+    case 'stats': {
+      const stats = await getVectorStore().getStats();
+      console.log(`Backend: ${stats.backend}, dimensions: ${stats.dimensions ?? 'n/a'}, records: ${stats.totalRecords}`);
+      break;
+    }
+
+    case 'namespaces': {
+      const namespaces = await getVectorStore().listNamespaces();
+      for (const { name, recordCount } of namespaces) {
+        console.log(`${(name || '(default)').padEnd(30)} ${recordCount}`);
+      }
+      if (namespaces.length === 0) console.log('No namespaces');
+      break;
+    }
+
+    case 'delete-namespace':
+      if (namespace === undefined) throw new Error('--namespace is required');
+      await getVectorStore().deleteNamespace(namespace);
+      console.log(`Deleted namespace ${namespace}`);
+      break;
+
+    case 'migrate': {
+      const from = getBackend('from');
+      const to = getBackend('to');
+      if (from === to) throw new Error('--from and --to must be different backends');
+
+      const result = await copyVectorStore(await createVectorStore(from), await createVectorStore(to), {
+        namespaces: namespace !== undefined ? [namespace] : undefined,
+        clear: process.argv.includes('--clear'),
+      });
+      for (const { name, recordCount } of result.namespaces) {
+        console.log(`Copied ${recordCount} record(s) in ${name || '(default)'}`);
+      }
+      console.log(`Copied ${result.totalRecords} record(s) from ${from} to ${to}`);
+      break;
+    }
+
+    default:
+      throw new Error(`Unknown command: ${command} (expected stats, namespaces, delete-namespace or migrate)`);
+  }
+}
+
+main()
+  .catch((error) => {
+    logger.error({ error }, 'Vector store command failed');
+    process.exitCode = 1;
+  })
+  .finally(() => closeDb());
@@ -1,9 +1,15 @@
 import { serve } from '@hono/node-server';
+import type { Server } from 'http';
 import app from './index';
 import { startDiscordBot, stopDiscordBot } from './triggers/discordTriggers';
 import { initializeMastra } from './mastra';
 import { startMessageWorker, stopMessageWorker } from './utils/messageQueue';
 import { getStationMonitoring } from './services/stationMonitoring';
+import { getOcppCentralSystem } from './services/ocppCentralSystem';
+import { workflowEngine } from './services/workflowEngine';
+import { getTicketRouting } from './services/ticketRouting';
+import { getHelpdeskSync } from './services/helpdeskSync';
+import { getCsatSurveys } from './services/csatSurvey';
 import { logger } from './utils/logger';
 
 const port = Number(process.env.PORT) || 3000;
@@ -23,15 +29,31 @@ async function startServer() {
     await stationMonitoring.start();
     logger.info('✅ Station monitoring service started');
 
+    // Abandon diagnostic workflows that were left idle
+    workflowEngine.startSweeper();
+
+    // Warn about and re-escalate tickets close to missing their SLA
+    getTicketRouting().startSlaMonitor();
+
+    // Retry helpdesk exports and pick up status changes the webhooks missed
+    getHelpdeskSync().startSync();
+
+    // Survey drivers whose conversation went idle, expire unanswered surveys
+    getCsatSurveys().startSweeper();
+
     // Start Discord bot
     await startDiscordBot();
 
     // Start HTTP server
-    serve({
+    const server = serve({
       fetch: app.fetch,
       port,
     });
 
+    // Accept direct OCPP charger connections on the same port
+    getOcppCentralSystem().attach(server as Server);
+    logger.info('✅ OCPP central system attached');
+
     logger.info({ port }, '✅ Server is running');
   } catch (error) {
     logger.error({ error }, '❌ Failed to start server');
@@ -46,6 +68,11 @@ async function shutdown() {
   try {
     const stationMonitoring = getStationMonitoring();
     stationMonitoring.stop();
+    workflowEngine.stopSweeper();
+    getTicketRouting().stopSlaMonitor();
+    getHelpdeskSync().stopSync();
+    getCsatSurveys().stopSweeper();
+    await getOcppCentralSystem().close();
     
     await stopDiscordBot();
     await stopMessageWorker();
@@ -0,0 +1,674 @@
+import { EventEmitter } from 'events';
+import { getDb, parseJsonColumn, parseTimestamp, type Database } from '../db';
+import { isSpecialistId } from '../mastra/agents/specialists';
+import { escalationService } from './escalationService';
+import type { HandoffSummary } from './handoffSummary';
+import { getTicketRouting } from './ticketRouting';
+import { logger } from '../utils/logger';
+
+/**
+ * Agent Desk
+ *
+ * Human agents pick up escalated conversations, follow the transcript live,
+ * reply to the driver on the same channel (Discord or web chat), leave
+ * internal notes and hand the conversation back to the bot.
+ *
+ * Every turn is logged in conversation_transcript. A thread with an active
+ * desk_sessions row belongs to a human: the bot records the driver's
+ * messages but doesn't answer them. Takeover and release are logged in
+ * agent_handoffs (to_agent / from_agent 'human'), and on release the bot
+ * gets what was said while it was muted with its next turn.
+ */
+
+export type TranscriptRole = 'user' | 'bot' | 'agent' | 'note' | 'system';
+
+export interface TranscriptEntry {
+  id: number;
+  threadId: string;
+  channel: string | null;
+  channelId: string | null;
+  userId: string | null;
+  role: TranscriptRole;
+  author: string | null;
+  content: string;
+  internal: boolean; // Never shown to the driver
+  createdAt: string;
+}
+
+export interface TranscriptInput {
+  threadId: string;
+  channel?: string;
+  channelId?: string;
+  userId?: string;
+  role: TranscriptRole;
+  author?: string;
+  content: string;
+  internal?: boolean;
+}
+
+export interface DeskSession {
+  id: number;
+  threadId: string;
+  ticketId: string | null;
+  agent: string;
+  channel: string | null;
+  channelId: string | null;
+  userId: string | null;
+  status: 'active' | 'released';
+  botAgent: string | null;
+  startedAt: string;
+  releasedAt: string | null;
+  releasedBy: string | null;
+}
+
+/**
+ * Where a driver's message came from. Discord thread ids change when a
+ * session expires, so Discord conversations also match on channel and user.
+ */
+export interface ThreadLookup {
+  threadId: string;
+  channel?: string;
+  channelId?: string;
+  userId?: string;
+}
+
+export interface QueueItem {
+  ticketId: string;
+  threadId: string | null;
+  channel: string | null;
+  userId: string;
+  username: string | null;
+  issueType: string;
+  issueCategory: string | null;
+  urgencyLevel: string;
+  priorityScore: number;
+  summary: string | null;
+  handoff: HandoffSummary | null; // Structured summary, null for tickets from before it was kept
+  language: string | null;
+  status: string;
+  assignedTo: string | null;
+  owner: string | null; // Agent with the live conversation
+  escalatedAt: string;
+  firstResponseDueAt: string | null; // Null once an agent has replied
+  resolutionDueAt: string | null;
+}
+
+export interface DeskResult<T = unknown> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: 'not_found' | 'conflict' | 'forbidden' | 'invalid' | 'delivery_failed';
+}
+
+/**
+ * Sends a message to the driver on a Discord channel
+ */
+export type DiscordSender = (channelId: string, content: string) => Promise<void>;
+
+interface TranscriptRow {
+  id: number;
+  thread_id: string;
+  channel: string | null;
+  channel_id: string | null;
+  user_id: string | null;
+  role: TranscriptRole;
+  author: string | null;
+  content: string;
+  internal: boolean | number | null;
+  created_at: string | Date;
+}
+
+interface SessionRow {
+  id: number;
+  thread_id: string;
+  ticket_id: string | null;
+  agent: string;
+  channel: string | null;
+  channel_id: string | null;
+  user_id: string | null;
+  status: 'active' | 'released';
+  bot_agent: string | null;
+  started_at: string | Date;
+  released_at: string | Date | null;
+  released_by: string | null;
+}
+
+const OPEN_TICKET_STATUSES = ['open', 'assigned', 'in_progress'];
+
+// Messages of the human part of a conversation passed to the bot on release
+const HANDBACK_CONTEXT_MESSAGES = 20;
+
+const JOINED_MESSAGE = (agent: string) =>
+  `👤 ${agent} מצוות התמיכה הצטרף/ה לשיחה ותמשיך/ימשיך מכאן.\n${agent} from the support team has joined the conversation and will take it from here.`;
+
+const RELEASED_MESSAGE =
+  '🤖 נציג/ת התמיכה סיים/ה. העוזר הווירטואלי זמין שוב לכל שאלה.\nThe support agent has left the conversation. The virtual assistant is available again for any question.';
+
+function toEntry(row: TranscriptRow): TranscriptEntry {
+  return {
+    id: Number(row.id),
+    threadId: row.thread_id,
+    channel: row.channel,
+    channelId: row.channel_id,
+    userId: row.user_id,
+    role: row.role,
+    author: row.author,
+    content: row.content,
+    internal: Boolean(row.internal),
+    createdAt: parseTimestamp(row.created_at).toISOString(),
+  };
+}
+
+function toSession(row: SessionRow): DeskSession {
+  return {
+    id: Number(row.id),
+    threadId: row.thread_id,
+    ticketId: row.ticket_id,
+    agent: row.agent,
+    channel: row.channel,
+    channelId: row.channel_id,
+    userId: row.user_id,
+    status: row.status,
+    botAgent: row.bot_agent,
+    startedAt: parseTimestamp(row.started_at).toISOString(),
+    releasedAt: row.released_at ? parseTimestamp(row.released_at).toISOString() : null,
+    releasedBy: row.released_by,
+  };
+}
+
+/**
+ * desk_sessions condition for a conversation
+ */
+function matchThread(lookup: ThreadLookup): { sql: string; params: unknown[] } {
+  if (lookup.channel === 'discord' && lookup.channelId && lookup.userId) {
+    return {
+      sql: '(thread_id = ? OR (channel = ? AND channel_id = ? AND user_id = ?))',
+      params: [lookup.threadId, lookup.channel, lookup.channelId, lookup.userId],
+    };
+  }
+  return { sql: 'thread_id = ?', params: [lookup.threadId] };
+}
+
+async function sendDiscordMessage(channelId: string, content: string): Promise<void> {
+  // Loaded on demand so the web chat doesn't pull in the Discord client
+  const { discordClient } = await import('../triggers/discordTriggers');
+  if (!discordClient.isReady()) {
+    throw new Error('Discord client is not ready');
+  }
+
+  const channel = await discordClient.channels.fetch(channelId);
+  if (!channel?.isSendable()) {
+    throw new Error(`Discord channel ${channelId} cannot receive messages`);
+  }
+  await channel.send(content);
+}
+
+export class AgentDeskService {
+  private events = new EventEmitter();
+
+  constructor(
+    private db: Database = getDb(),
+    private sendDiscord: DiscordSender = sendDiscordMessage
+  ) {
+    this.events.setMaxListeners(0);
+  }
+
+  /**
+   * Append a turn to a conversation's transcript. Never throws: a failed
+   * write is logged and must not break the conversation itself.
+   */
+  async recordMessage(input: TranscriptInput): Promise<TranscriptEntry | null> {
+    try {
+      const row = await this.db.get<TranscriptRow>(`
+        INSERT INTO conversation_transcript (thread_id, channel, channel_id, user_id, role, author, content, internal)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ${this.db.sql.bool(input.internal ?? false)})
+        RETURNING *
+      `, [
+        input.threadId,
+        input.channel ?? null,
+        input.channelId ?? null,
+        input.userId ?? null,
+        input.role,
+        input.author ?? null,
+        input.content,
+      ]);
+      if (!row) return null;
+
+      const entry = toEntry(row);
+      this.events.emit(entry.threadId, entry);
+      return entry;
+    } catch (error) {
+      logger.error({ error, threadId: input.threadId, role: input.role }, 'Failed to record transcript entry');
+      return null;
+    }
+  }
+
+  /**
+   * Transcript of a thread in order, optionally only the entries after an id
+   */
+  async getTranscript(
+    threadId: string,
+    options: { afterId?: number; includeInternal?: boolean } = {}
+  ): Promise<TranscriptEntry[]> {
+    const conditions = ['thread_id = ?', 'id > ?'];
+    const params: unknown[] = [threadId, options.afterId ?? 0];
+    if (options.includeInternal === false) {
+      conditions.push(`(internal IS NULL OR internal = ${this.db.sql.bool(false)})`);
+    }
+
+    const { rows } = await this.db.query<TranscriptRow>(
+      `SELECT * FROM conversation_transcript WHERE ${conditions.join(' AND ')} ORDER BY id`,
+      params
+    );
+    return rows.map(toEntry);
+  }
+
+  /**
+   * Live transcript entries of a thread; returns the unsubscribe function
+   */
+  subscribe(threadId: string, listener: (entry: TranscriptEntry) => void): () => void {
+    this.events.on(threadId, listener);
+    return () => {
+      this.events.off(threadId, listener);
+    };
+  }
+
+  /**
+   * The human session that owns a conversation, if any
+   */
+  async getActiveSession(lookup: ThreadLookup): Promise<DeskSession | null> {
+    const thread = matchThread(lookup);
+    const row = await this.db.get<SessionRow>(`
+      SELECT * FROM desk_sessions
+      WHERE status = 'active' AND ${thread.sql}
+      ORDER BY started_at DESC, id DESC
+      LIMIT 1
+    `, thread.params);
+    return row ? toSession(row) : null;
+  }
+
+  /**
+   * Open tickets, most urgent first, with the agent that owns each conversation
+   */
+  async listQueue(): Promise<QueueItem[]> {
+    const { rows } = await this.db.query<{
+      ticket_id: string;
+      thread_id: string | null;
+      channel: string | null;
+      discord_user_id: string;
+      discord_username: string | null;
+      issue_type: string;
+      issue_category: string | null;
+      urgency_level: string;
+      priority_score: number | null;
+      conversation_summary: string | null;
+      handoff_summary: string | HandoffSummary | null;
+      language: string | null;
+      status: string;
+      assigned_to: string | null;
+      owner: string | null;
+      escalated_at: string | Date;
+      first_response_due_at: string | Date | null;
+      first_response_at: string | Date | null;
+      resolution_due_at: string | Date | null;
+    }>(`
+      SELECT t.ticket_id, t.thread_id, t.channel, t.discord_user_id, t.discord_username,
+        t.issue_type, t.issue_category, t.urgency_level, t.priority_score, t.language,
+        t.conversation_summary, t.handoff_summary, t.status, t.assigned_to, t.escalated_at,
+        t.first_response_due_at, t.first_response_at, t.resolution_due_at,
+        s.agent AS owner
+      FROM escalation_tickets t
+      LEFT JOIN desk_sessions s ON s.thread_id = t.thread_id AND s.status = 'active'
+      WHERE t.status IN (${OPEN_TICKET_STATUSES.map(() => '?').join(', ')})
+      ORDER BY t.priority_score DESC, t.escalated_at ASC
+    `, OPEN_TICKET_STATUSES);
+
+    return rows.map((row) => ({
+      ticketId: row.ticket_id,
+      threadId: row.thread_id,
+      channel: row.channel,
+      userId: row.discord_user_id,
+      username: row.discord_username,
+      issueType: row.issue_type,
+      issueCategory: row.issue_category,
+      urgencyLevel: row.urgency_level,
+      priorityScore: Number(row.priority_score ?? 0),
+      summary: row.conversation_summary,
+      handoff: parseJsonColumn<HandoffSummary | null>(row.handoff_summary, null),
+      language: row.language,
+      status: row.status,
+      assignedTo: row.assigned_to,
+      owner: row.owner,
+      escalatedAt: parseTimestamp(row.escalated_at).toISOString(),
+      firstResponseDueAt: row.first_response_due_at && !row.first_response_at
+        ? parseTimestamp(row.first_response_due_at).toISOString()
+        : null,
+      resolutionDueAt: row.resolution_due_at ? parseTimestamp(row.resolution_due_at).toISOString() : null,
+    }));
+  }
+
+  /**
+   * An agent picks up a ticket and takes over its conversation
+   */
+  async claimTicket(ticketId: string, agent: string): Promise<DeskResult<{ ticketId: string; session: DeskSession | null }>> {
+    return this.assignTicket(ticketId, agent, { force: false });
+  }
+
+  /**
+   * Give a ticket to an agent; with force (a supervisor assigning), also
+   * when another agent has it
+   */
+  async assignTicket(
+    ticketId: string,
+    agent: string,
+    options: { force?: boolean; assignedBy?: string } = {}
+  ): Promise<DeskResult<{ ticketId: string; session: DeskSession | null }>> {
+    const ticket = await this.db.get<{ id: number; status: string; assigned_to: string | null; thread_id: string | null }>(
+      'SELECT id, status, assigned_to, thread_id FROM escalation_tickets WHERE ticket_id = ?',
+      [ticketId]
+    );
+    if (!ticket) {
+      return { success: false, error: `Ticket ${ticketId} not found`, code: 'not_found' };
+    }
+    if (!OPEN_TICKET_STATUSES.includes(ticket.status)) {
+      return { success: false, error: `Ticket ${ticketId} is ${ticket.status}`, code: 'conflict' };
+    }
+    if (ticket.assigned_to && ticket.assigned_to !== agent && !options.force) {
+      return { success: false, error: `Ticket ${ticketId} is assigned to ${ticket.assigned_to}`, code: 'conflict' };
+    }
+
+    let session: DeskSession | null = null;
+    if (ticket.thread_id) {
+      const takeover = await this.takeOver(ticket.thread_id, agent, { ticketId, force: options.force });
+      if (!takeover.success) {
+        return { success: false, error: takeover.error, code: takeover.code };
+      }
+      session = takeover.data ?? null;
+    }
+
+    await this.db.run(`
+      UPDATE escalation_tickets
+      SET assigned_to = ?, status = 'in_progress', assigned_at = COALESCE(assigned_at, ${this.db.sql.now()})
+      WHERE id = ?
+    `, [agent, ticket.id]);
+
+    if (options.assignedBy && options.assignedBy !== agent) {
+      await this.db.run(`
+        INSERT INTO escalation_notes (ticket_id, note_type, note_text, author)
+        VALUES (?, 'internal', ?, ?)
+      `, [ticket.id, `Assigned to ${agent}`, options.assignedBy]);
+    }
+
+    logger.info({ ticketId, agent, assignedBy: options.assignedBy, threadId: ticket.thread_id }, 'Escalation ticket assigned');
+    return { success: true, data: { ticketId, session } };
+  }
+
+  /**
+   * Mute the bot on a thread and give it to an agent. With force, an agent
+   * that already owns the thread hands it over.
+   */
+  async takeOver(
+    threadId: string,
+    agent: string,
+    options: { ticketId?: string; force?: boolean } = {}
+  ): Promise<DeskResult<DeskSession>> {
+    const active = await this.getActiveSession({ threadId });
+    if (active) {
+      if (active.agent === agent) {
+        return { success: true, data: active };
+      }
+      if (!options.force) {
+        return { success: false, error: `Conversation is owned by ${active.agent}`, code: 'conflict' };
+      }
+
+      await this.db.run('UPDATE desk_sessions SET agent = ? WHERE id = ?', [agent, active.id]);
+      await this.recordMessage({
+        ...this.threadOf(active),
+        role: 'system',
+        content: `${active.agent} handed the conversation to ${agent}`,
+        internal: true,
+      });
+      return { success: true, data: { ...active, agent } };
+    }
+
+    const latest = await this.db.get<{ channel: string | null; channel_id: string | null; user_id: string | null }>(
+      'SELECT channel, channel_id, user_id FROM conversation_transcript WHERE thread_id = ? ORDER BY id DESC LIMIT 1',
+      [threadId]
+    );
+    if (!latest) {
+      return { success: false, error: `Conversation ${threadId} not found`, code: 'not_found' };
+    }
+
+    const handoff = await this.db.get<{ to_agent: string }>(
+      'SELECT to_agent FROM agent_handoffs WHERE thread_id = ? ORDER BY created_at DESC, id DESC LIMIT 1',
+      [threadId]
+    );
+    const botAgent = isSpecialistId(handoff?.to_agent) ? handoff.to_agent : null;
+
+    let row: SessionRow | null;
+    try {
+      row = await this.db.get<SessionRow>(`
+        INSERT INTO desk_sessions (thread_id, ticket_id, agent, channel, channel_id, user_id, bot_agent)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+        RETURNING *
+      `, [threadId, options.ticketId ?? null, agent, latest.channel, latest.channel_id, latest.user_id, botAgent]);
+    } catch (error) {
+      // Unique index on active sessions: someone else took it meanwhile
+      logger.warn({ error, threadId, agent }, 'Conversation takeover lost a race');
+      return { success: false, error: 'Conversation was taken over by another agent', code: 'conflict' };
+    }
+    if (!row) {
+      return { success: false, error: 'Failed to start desk session' };
+    }
+    const session = toSession(row);
+
+    await this.db.run(`
+      INSERT INTO agent_handoffs (thread_id, user_id, channel, from_agent, to_agent, reason)
+      VALUES (?, ?, ?, ?, 'human', ?)
+    `, [threadId, session.userId, session.channel, botAgent, `taken over by ${agent}`]);
+
+    const delivery = await this.notifyDriver(session, JOINED_MESSAGE(agent), 'system', agent);
+    if (!delivery.success) {
+      logger.warn({ threadId, agent, error: delivery.error }, 'Driver was not told about the takeover');
+    }
+
+    logger.info({ threadId, agent, ticketId: options.ticketId, botAgent }, 'Conversation taken over by human agent');
+    return { success: true, data: session };
+  }
+
+  /**
+   * Reply to the driver as the agent that owns the thread
+   */
+  async sendMessage(threadId: string, agent: string, content: string): Promise<DeskResult<TranscriptEntry>> {
+    const session = await this.getActiveSession({ threadId });
+    if (!session) {
+      return { success: false, error: 'Take over the conversation before replying', code: 'invalid' };
+    }
+    if (session.agent !== agent) {
+      return { success: false, error: `Conversation is owned by ${session.agent}`, code: 'forbidden' };
+    }
+
+    const result = await this.notifyDriver(session, content, 'agent', agent);
+    if (result.success && session.ticketId) {
+      await getTicketRouting().recordFirstResponse(session.ticketId);
+    }
+    return result;
+  }
+
+  /**
+   * Internal note on a conversation (and its ticket), never shown to the driver
+   */
+  async addNote(threadId: string, agent: string, content: string): Promise<DeskResult<TranscriptEntry>> {
+    const latest = await this.db.get<{ channel: string | null; channel_id: string | null; user_id: string | null }>(
+      'SELECT channel, channel_id, user_id FROM conversation_transcript WHERE thread_id = ? ORDER BY id DESC LIMIT 1',
+      [threadId]
+    );
+    if (!latest) {
+      return { success: false, error: `Conversation ${threadId} not found`, code: 'not_found' };
+    }
+
+    const entry = await this.recordMessage({
+      threadId,
+      channel: latest.channel ?? undefined,
+      channelId: latest.channel_id ?? undefined,
+      userId: latest.user_id ?? undefined,
+      role: 'note',
+      author: agent,
+      content,
+      internal: true,
+    });
+    if (!entry) {
+      return { success: false, error: 'Failed to save note' };
+    }
+
+    const ticket = await this.db.get<{ id: number }>(`
+      SELECT id FROM escalation_tickets
+      WHERE thread_id = ?
+      ORDER BY escalated_at DESC, id DESC
+      LIMIT 1
+    `, [threadId]);
+    if (ticket) {
+      await this.db.run(`
+        INSERT INTO escalation_notes (ticket_id, note_type, note_text, author)
+        VALUES (?, 'internal', ?, ?)
+      `, [ticket.id, content, agent]);
+    }
+
+    return { success: true, data: entry };
+  }
+
+  /**
+   * Give the conversation back to the bot, optionally resolving its ticket
+   */
+  async release(
+    threadId: string,
+    agent: string,
+    options: { resolve?: boolean; resolutionNote?: string; force?: boolean } = {}
+  ): Promise<DeskResult<DeskSession>> {
+    const session = await this.getActiveSession({ threadId });
+    if (!session) {
+      return { success: false, error: 'Conversation is not owned by an agent', code: 'invalid' };
+    }
+    if (session.agent !== agent && !options.force) {
+      return { success: false, error: `Conversation is owned by ${session.agent}`, code: 'forbidden' };
+    }
+
+    await this.db.run(`
+      UPDATE desk_sessions
+      SET status = 'released', released_at = ${this.db.sql.now()}, released_by = ?, context_pending = ${this.db.sql.bool(true)}
+      WHERE id = ?
+    `, [agent, session.id]);
+
+    // 'bot' when no specialist had the thread yet: the router starts fresh
+    await this.db.run(`
+      INSERT INTO agent_handoffs (thread_id, user_id, channel, from_agent, to_agent, reason)
+      VALUES (?, ?, ?, 'human', ?, ?)
+    `, [threadId, session.userId, session.channel, session.botAgent ?? 'bot', `released by ${agent}`]);
+
+    const delivery = await this.notifyDriver(session, RELEASED_MESSAGE, 'system', agent);
+    if (!delivery.success) {
+      logger.warn({ threadId, agent, error: delivery.error }, 'Driver was not told about the release');
+    }
+
+    if (options.resolve && session.ticketId) {
+      await escalationService.resolveTicket(session.ticketId, options.resolutionNote || `Resolved by ${agent}`);
+    }
+
+    logger.info({ threadId, agent, ticketId: session.ticketId, resolved: Boolean(options.resolve) }, 'Conversation released to the bot');
+    return { success: true, data: { ...session, status: 'released', releasedBy: agent } };
+  }
+
+  /**
+   * What the driver and the agent said while the bot was muted, once, for
+   * the bot's first turn after the release. Null when there is nothing new.
+   */
+  async takeHandbackContext(lookup: ThreadLookup): Promise<string | null> {
+    try {
+      const thread = matchThread(lookup);
+      const row = await this.db.get<SessionRow>(`
+        SELECT * FROM desk_sessions
+        WHERE status = 'released' AND context_pending = ${this.db.sql.bool(true)} AND ${thread.sql}
+        ORDER BY released_at DESC, id DESC
+        LIMIT 1
+      `, thread.params);
+      if (!row) return null;
+
+      await this.db.run(
+        `UPDATE desk_sessions SET context_pending = ${this.db.sql.bool(false)} WHERE id = ?`,
+        [row.id]
+      );
+
+      const { rows } = await this.db.query<TranscriptRow>(`
+        SELECT * FROM conversation_transcript
+        WHERE thread_id = ? AND role IN ('user', 'agent') AND created_at >= ? AND created_at <= ?
+        ORDER BY id DESC
+        LIMIT ?
+      `, [row.thread_id, row.started_at, row.released_at, HANDBACK_CONTEXT_MESSAGES]);
+      if (rows.length === 0) return null;
+
+      const lines = rows.reverse().map((entry) =>
+        entry.role === 'user' ? `Driver: ${entry.content}` : `${entry.author ?? 'Agent'} (support agent): ${entry.content}`
+      );
+      return [
+        `A human support agent (${row.agent}) handled this conversation and has handed it back to you.`,
+        'Continue from where they left off without repeating what they already said. What was said meanwhile:',
+        ...lines,
+      ].join('\n');
+    } catch (error) {
+      logger.error({ error, threadId: lookup.threadId }, 'Failed to load handback context');
+      return null;
+    }
+  }
+
+  /**
+   * Deliver a message to the driver and log it. Web chat drivers read it
+   * from the transcript stream; Discord drivers get it in their channel.
+   */
+  private async notifyDriver(
+    session: DeskSession,
+    content: string,
+    role: 'agent' | 'system',
+    agent: string
+  ): Promise<DeskResult<TranscriptEntry>> {
+    if (session.channel === 'discord') {
+      if (!session.channelId) {
+        return { success: false, error: 'Conversation has no Discord channel', code: 'delivery_failed' };
+      }
+      try {
+        await this.sendDiscord(session.channelId, role === 'agent' ? `👤 **${agent}:** ${content}` : content);
+      } catch (error) {
+        logger.error({ error, threadId: session.threadId, channelId: session.channelId }, 'Failed to deliver desk message');
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          code: 'delivery_failed',
+        };
+      }
+    }
+
+    const entry = await this.recordMessage({ ...this.threadOf(session), role, author: agent, content });
+    if (!entry) {
+      return { success: false, error: 'Failed to record message' };
+    }
+    return { success: true, data: entry };
+  }
+
+  private threadOf(session: DeskSession): Pick<TranscriptInput, 'threadId' | 'channel' | 'channelId' | 'userId'> {
+    return {
+      threadId: session.threadId,
+      channel: session.channel ?? undefined,
+      channelId: session.channelId ?? undefined,
+      userId: session.userId ?? undefined,
+    };
+  }
+}
+
+// Singleton instance
+let agentDeskInstance: AgentDeskService | null = null;
+
+export function getAgentDesk(): AgentDeskService {
+  if (!agentDeskInstance) {
+    agentDeskInstance = new AgentDeskService();
+  }
+  return agentDeskInstance;
+}
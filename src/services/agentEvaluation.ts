@@ -0,0 +1,717 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { createTool } from '@mastra/core';
+import { Agent, type ToolsInput } from '@mastra/core/agent';
+import type { CoreMessage } from 'ai';
+import { MockLanguageModelV1 } from 'ai/test';
+import { z } from 'zod';
+import type { Database } from '../db';
+import { createToolRuntimeContext } from '../mastra/toolContext';
+import { TOOL_ROLES } from '../mastra/toolPermissions';
+import { logger } from '../utils/logger';
+import { getChargingBackendRegistry, type ChargingSession } from './chargingBackend';
+import { MockChargingBackend, type MockCommandType } from './mockChargingBackend';
+import { escalationService } from './escalationService';
+import { HandoffSummaryService } from './handoffSummary';
+import { getModelProviderRegistry, ModelProviderRegistry } from './modelProvider';
+import { QualityScoringService, type ConversationData } from './qualityScoringService';
+
+/**
+ * Agent Evaluation
+ *
+ * Replays a corpus of scripted multi-turn conversations against an agent and
+ * checks what it did: which tools it called with which arguments, whether it
+ * escalated, which commands reached the charging backends. Each conversation
+ * is then scored with QualityScoringService.
+ *
+ * By default the LLM is a deterministic scripted model: every turn in the
+ * corpus lists the tool calls and reply the model makes. The tools themselves
+ * run for real against the eval database and mock Ampeco / OCPP backends, so
+ * a changed prompt, tool description, input schema or role mapping shows up
+ * as failed calls, missing tools or different results. Pass a model id to run
+ * the same corpus and assertions against a real model instead. Escalation
+ * tickets always get the rule-based handoff summary, so a run never calls a
+ * model for it.
+ *
+ * A run produces a report (with a snapshot of the prompt and tool
+ * definitions); diffEvalReports() compares the reports of two versions.
+ */
+
+const LANGUAGES = ['he', 'en', 'ru', 'ar'] as const;
+const MOCK_BACKEND_IDS = ['ampeco', 'ocpp'] as const;
+const MOCK_COMMAND_TYPES = ['startCharging', 'stopCharging', 'resetStation', 'unlockConnector'] as const;
+
+const backendFixtureSchema = z.object({
+  stations: z.array(z.object({
+    stationId: z.string(),
+    stationName: z.string().optional(),
+    status: z.enum(['Available', 'Occupied', 'Faulted', 'Offline', 'Unavailable']).optional(),
+    errorCode: z.string().optional(),
+    connectors: z.array(z.object({
+      connectorId: z.number().int(),
+      type: z.string(),
+      status: z.string(),
+      powerKw: z.number(),
+    })).optional(),
+  })).default([]),
+  sessions: z.array(z.object({
+    stationId: z.string(),
+    connectorId: z.number().int().optional(),
+    userId: z.string().optional(),
+    status: z.enum(['active', 'completed', 'failed']).optional(),
+    startedAt: z.string().optional(),
+    endedAt: z.string().optional(),
+    energyKwh: z.number().optional(),
+    cost: z.number().optional(),
+    currency: z.string().optional(),
+  })).default([]),
+  tariffs: z.record(z.object({
+    tariffId: z.string().optional(),
+    name: z.string(),
+    currency: z.string(),
+    pricePerKwh: z.number().optional(),
+    parkingFeePerHour: z.number().optional(),
+    sessionStartFee: z.number().optional(),
+    minimumCharge: z.number().optional(),
+    freeParkingMinutes: z.number().optional(),
+    description: z.string().optional(),
+  })).default({}),
+  failCommands: z.record(z.enum(MOCK_COMMAND_TYPES), z.string()).default({}),
+});
+
+const toolArgsSchema = z.record(z.unknown());
+
+const modelStepSchema = z.union([
+  z.object({ toolCalls: z.array(z.object({ tool: z.string(), args: toolArgsSchema.default({}) })).min(1) }),
+  z.object({ text: z.string() }),
+]);
+
+const turnSchema = z.object({
+  user: z.string(),
+  // What the scripted model does this turn, in order (ignored with a real model)
+  model: z.array(modelStepSchema).default([]),
+  expect: z.object({
+    // Must be called in this order (other calls may come in between); args match when every given key is equal
+    toolCalls: z.array(z.object({ tool: z.string(), args: toolArgsSchema.optional() })).default([]),
+    forbiddenTools: z.array(z.string()).default([]),
+    escalate: z.boolean().optional(),
+    replyIncludes: z.array(z.string()).default([]),
+    // Exactly these commands reach the backends this turn
+    backendCommands: z.array(z.object({ type: z.enum(MOCK_COMMAND_TYPES), stationId: z.string().optional() })).optional(),
+  }).default({}),
+});
+
+export const evalCaseSchema = z.object({
+  id: z.string(),
+  description: z.string().optional(),
+  language: z.enum(LANGUAGES),
+  role: z.enum(TOOL_ROLES).default('driver'),
+  userId: z.string().default('eval-user'),
+  backends: z.object({
+    ampeco: backendFixtureSchema.optional(),
+    ocpp: backendFixtureSchema.optional(),
+  }).default({}),
+  // Fixed results for tools that need external services (vector search, OpenAI, ...)
+  toolStubs: z.record(z.unknown()).default({}),
+  resolved: z.boolean().default(true), // Whether the scripted outcome resolves the issue (for quality scoring)
+  turns: z.array(turnSchema).min(1),
+});
+
+export type EvalCase = z.infer<typeof evalCaseSchema>;
+type EvalTurn = EvalCase['turns'][number];
+type ModelStep = EvalTurn['model'][number];
+
+export interface EvalToolCall {
+  tool: string;
+  args: Record<string, unknown>;
+  result?: unknown;
+  available: boolean; // False when the scripted model called a tool the agent wasn't given
+}
+
+export interface EvalTurnResult {
+  user: string;
+  reply: string;
+  toolCalls: EvalToolCall[];
+  escalated: boolean;
+  backendCommands: Array<{ type: MockCommandType; stationId: string }>;
+  failures: string[];
+}
+
+export interface EvalCaseResult {
+  id: string;
+  language: EvalCase['language'];
+  passed: boolean;
+  error?: string;
+  turns: EvalTurnResult[];
+  quality: { overallScore: number; grade: string; issues: string[] } | null;
+}
+
+export interface EvalToolDefinition {
+  description: string;
+  parameters: string[];
+}
+
+export interface AgentEvalReport {
+  label: string;
+  agent: string;
+  model: string; // 'scripted' for replay runs
+  createdAt: string;
+  promptHash: string;
+  instructions: string;
+  tools: Record<string, EvalToolDefinition>;
+  cases: EvalCaseResult[];
+  summary: { cases: number; passed: number; failed: number; averageQuality: number | null };
+}
+
+export interface EvalToolOverride {
+  description?: string;
+  remove?: boolean;
+}
+
+export interface AgentEvalOptions {
+  agent: Agent<any, any, any>;
+  db: Database;
+  label: string;
+  model?: string; // Real model id; the scripted model when not set
+  instructions?: string; // Replaces the agent's instructions
+  toolOverrides?: Record<string, EvalToolOverride>;
+  maxSteps?: number;
+}
+
+// Conversations are scored as if each turn took this long
+const TURN_SECONDS = 30;
+const EVAL_START = new Date('2025-01-01T10:00:00Z');
+const DEFAULT_MAX_STEPS = 6;
+
+/**
+ * Read every *.json case in a directory (a file may hold one case or an array)
+ */
+export function loadEvalCases(directory: string): EvalCase[] {
+  const cases: EvalCase[] = [];
+
+  for (const fileName of fs.readdirSync(directory).filter((name) => name.endsWith('.json')).sort()) {
+    const raw = JSON.parse(fs.readFileSync(path.join(directory, fileName), 'utf8'));
+    for (const entry of Array.isArray(raw) ? raw : [raw]) {
+      const parsed = evalCaseSchema.safeParse(entry);
+      if (!parsed.success) {
+        throw new Error(`Invalid eval case in ${fileName}: ${parsed.error.message}`);
+      }
+      cases.push(parsed.data);
+    }
+  }
+
+  const ids = new Set<string>();
+  for (const evalCase of cases) {
+    if (ids.has(evalCase.id)) throw new Error(`Duplicate eval case id: ${evalCase.id}`);
+    ids.add(evalCase.id);
+  }
+  return cases;
+}
+
+/**
+ * Deterministic LLM that plays back the current turn's scripted steps
+ */
+class ScriptedModel {
+  private steps: ModelStep[] = [];
+  private callCounter = 0;
+  readonly unavailable: EvalToolCall[] = [];
+
+  readonly model = new MockLanguageModelV1({
+    modelId: 'scripted',
+    doGenerate: async (options) => {
+      const offered = new Set(options.mode.type === 'regular' ? (options.mode.tools || []).map((tool) => tool.name) : []);
+      const result = { rawCall: { rawPrompt: null, rawSettings: {} }, usage: { promptTokens: 0, completionTokens: 0 } };
+
+      let step = this.steps.shift();
+      while (step && 'toolCalls' in step) {
+        const calls = step.toolCalls.filter((call) => offered.has(call.tool));
+        for (const call of step.toolCalls.filter((call) => !offered.has(call.tool))) {
+          this.unavailable.push({ tool: call.tool, args: call.args, available: false });
+        }
+        if (calls.length > 0) {
+          return {
+            ...result,
+            finishReason: 'tool-calls' as const,
+            toolCalls: calls.map((call) => ({
+              toolCallType: 'function' as const,
+              toolCallId: `call_${++this.callCounter}`,
+              toolName: call.tool,
+              args: JSON.stringify(call.args),
+            })),
+          };
+        }
+        step = this.steps.shift();
+      }
+
+      return { ...result, finishReason: 'stop' as const, text: step?.text ?? '' };
+    },
+  });
+
+  load(steps: ModelStep[]): void {
+    this.steps = [...steps];
+    this.unavailable.length = 0;
+  }
+}
+
+function seedBackend(backend: MockChargingBackend, fixture: z.infer<typeof backendFixtureSchema> | undefined): void {
+  if (!fixture) return;
+
+  for (const station of fixture.stations) {
+    backend.addStation(station);
+  }
+  for (const session of fixture.sessions) {
+    const { startedAt, endedAt, ...rest } = session;
+    backend.addSession({
+      ...rest,
+      ...(startedAt && { startedAt: new Date(startedAt) }),
+      ...(endedAt && { endedAt: new Date(endedAt) }),
+    } as Partial<ChargingSession> & { stationId: string });
+  }
+  for (const [stationId, tariff] of Object.entries(fixture.tariffs)) {
+    backend.setTariff(stationId, tariff);
+  }
+  for (const [type, error] of Object.entries(fixture.failCommands)) {
+    backend.failCommand(type as MockCommandType, error);
+  }
+}
+
+function describeInstructions(instructions: unknown): string {
+  if (typeof instructions === 'string') return instructions;
+  if (Array.isArray(instructions)) return instructions.map(describeInstructions).join('\n');
+  if (instructions && typeof instructions === 'object' && 'content' in instructions) {
+    return String((instructions as { content: unknown }).content);
+  }
+  return '';
+}
+
+function describeTool(tool: any): EvalToolDefinition {
+  const shape = tool?.inputSchema?.shape;
+  return {
+    description: String(tool?.description || '').trim(),
+    parameters: shape ? Object.keys(shape).sort() : [],
+  };
+}
+
+/**
+ * Whether every key of `expected` equals the same key of `actual`
+ */
+function argsMatch(expected: Record<string, unknown>, actual: Record<string, unknown>): boolean {
+  return Object.entries(expected).every(([key, value]) => JSON.stringify(actual[key]) === JSON.stringify(value));
+}
+
+function isSuccess(result: unknown): boolean {
+  return !!result && typeof result === 'object' && (result as { success?: unknown }).success === true;
+}
+
+/**
+ * The assertions of a turn that don't hold
+ */
+export function checkTurn(expect: EvalTurn['expect'], turn: Omit<EvalTurnResult, 'failures'>): string[] {
+  const failures: string[] = [];
+  const called = turn.toolCalls.filter((call) => call.available);
+
+  for (const call of turn.toolCalls.filter((call) => !call.available)) {
+    failures.push(`called ${call.tool}, which the agent doesn't have`);
+  }
+
+  let position = 0;
+  for (const expected of expect.toolCalls) {
+    const index = called.findIndex((call, i) => i >= position && call.tool === expected.tool && argsMatch(expected.args || {}, call.args));
+    if (index === -1) {
+      const sameTool = called.find((call) => call.tool === expected.tool);
+      failures.push(sameTool
+        ? `${expected.tool} called with ${JSON.stringify(sameTool.args)}, expected ${JSON.stringify(expected.args)}`
+        : `expected a call to ${expected.tool}`);
+      continue;
+    }
+    position = index + 1;
+  }
+
+  for (const tool of expect.forbiddenTools) {
+    if (called.some((call) => call.tool === tool)) failures.push(`must not call ${tool}`);
+  }
+
+  if (expect.escalate !== undefined && expect.escalate !== turn.escalated) {
+    failures.push(expect.escalate ? 'expected an escalation ticket' : 'escalated without need');
+  }
+
+  const reply = turn.reply.toLowerCase();
+  for (const text of expect.replyIncludes) {
+    if (!reply.includes(text.toLowerCase())) failures.push(`reply doesn't mention "${text}"`);
+  }
+
+  if (expect.backendCommands) {
+    const expected = expect.backendCommands;
+    const actual = turn.backendCommands;
+    const matches = expected.length === actual.length
+      && expected.every((command, i) => command.type === actual[i].type && (!command.stationId || command.stationId === actual[i].stationId));
+    if (!matches) {
+      failures.push(`backend commands ${JSON.stringify(actual)}, expected ${JSON.stringify(expected)}`);
+    }
+  }
+
+  return failures;
+}
+
+export class AgentEvalRunner {
+  private readonly scripted = new ScriptedModel();
+  private readonly scoring = new QualityScoringService();
+  private instructions = '';
+  private readonly tools: Record<string, EvalToolDefinition> = {};
+
+  constructor(private readonly options: AgentEvalOptions) {}
+
+  /**
+   * Run every case and build the report
+   */
+  async run(cases: EvalCase[]): Promise<AgentEvalReport> {
+    const results: EvalCaseResult[] = [];
+    // No providers registered: the handoff summary is built from the case facts
+    escalationService.setDeps({ handoffSummaries: new HandoffSummaryService(new ModelProviderRegistry(), this.options.db) });
+    try {
+      for (const evalCase of cases) {
+        results.push(await this.runCase(evalCase));
+      }
+    } finally {
+      escalationService.setDeps({});
+    }
+
+    const scores = results.map((result) => result.quality?.overallScore).filter((score): score is number => score !== undefined);
+    return {
+      label: this.options.label,
+      agent: this.options.agent.name,
+      model: this.options.model || 'scripted',
+      createdAt: new Date().toISOString(),
+      promptHash: crypto.createHash('sha256').update(this.instructions).digest('hex').substring(0, 12),
+      instructions: this.instructions,
+      tools: Object.fromEntries(Object.entries(this.tools).sort(([a], [b]) => a.localeCompare(b))),
+      cases: results,
+      summary: {
+        cases: results.length,
+        passed: results.filter((result) => result.passed).length,
+        failed: results.filter((result) => !result.passed).length,
+        averageQuality: scores.length ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : null,
+      },
+    };
+  }
+
+  private async runCase(evalCase: EvalCase): Promise<EvalCaseResult> {
+    const threadId = `eval:${this.options.label}:${evalCase.id}`;
+    const backends = this.resetBackends(evalCase);
+    const runtimeContext = createToolRuntimeContext({
+      userId: evalCase.userId,
+      threadId,
+      channel: 'eval',
+      role: evalCase.role,
+      language: evalCase.language,
+      db: this.options.db,
+    });
+
+    const turns: EvalTurnResult[] = [];
+    const history: CoreMessage[] = [];
+
+    try {
+      const agent = await this.buildAgent(evalCase, runtimeContext);
+
+      for (const turn of evalCase.turns) {
+        this.scripted.load(turn.model);
+        const commandsBefore = backends.map((backend) => backend.commands.length);
+        history.push({ role: 'user', content: turn.user });
+
+        const result = await agent.generateLegacy([...history], {
+          runtimeContext,
+          maxSteps: this.options.maxSteps ?? DEFAULT_MAX_STEPS,
+        });
+
+        const toolResults = new Map<string, unknown>();
+        for (const step of result.steps) {
+          for (const toolResult of step.toolResults as Array<{ toolCallId: string; result: unknown }>) {
+            toolResults.set(toolResult.toolCallId, toolResult.result);
+          }
+        }
+
+        const toolCalls: EvalToolCall[] = [
+          ...result.steps.flatMap((step) => (step.toolCalls as Array<{ toolCallId: string; toolName: string; args: Record<string, unknown> }>).map((call) => ({
+            tool: call.toolName,
+            args: call.args,
+            result: toolResults.get(call.toolCallId),
+            available: true,
+          }))),
+          ...this.scripted.unavailable,
+        ];
+
+        const outcome = {
+          user: turn.user,
+          reply: result.text,
+          toolCalls,
+          escalated: toolCalls.some((call) => call.tool === 'createEscalationTicket' && isSuccess(call.result)),
+          backendCommands: backends.flatMap((backend, i) => backend.commands.slice(commandsBefore[i]).map((command) => ({
+            type: command.type,
+            stationId: command.stationId,
+          }))),
+        };
+        turns.push({ ...outcome, failures: checkTurn(turn.expect, outcome) });
+        history.push({ role: 'assistant', content: result.text });
+      }
+    } catch (error) {
+      logger.error({ error, caseId: evalCase.id }, 'Eval case failed to run');
+      return { id: evalCase.id, language: evalCase.language, passed: false, error: String(error), turns, quality: null };
+    }
+
+    return {
+      id: evalCase.id,
+      language: evalCase.language,
+      passed: turns.every((turn) => turn.failures.length === 0),
+      turns,
+      quality: await this.score(evalCase, threadId, turns),
+    };
+  }
+
+  /**
+   * Fresh mock Ampeco / OCPP backends with the case's stations
+   */
+  private resetBackends(evalCase: EvalCase): MockChargingBackend[] {
+    const registry = getChargingBackendRegistry();
+    registry.reset();
+
+    return MOCK_BACKEND_IDS.map((id) => {
+      const backend = new MockChargingBackend(id);
+      seedBackend(backend, evalCase.backends[id]);
+      registry.register(backend);
+      return backend;
+    });
+  }
+
+  /**
+   * The agent under test with this run's model, instructions and tool overrides
+   */
+  private async buildAgent(evalCase: EvalCase, runtimeContext: ReturnType<typeof createToolRuntimeContext>): Promise<Agent> {
+    const { agent, toolOverrides = {} } = this.options;
+    this.instructions = this.options.instructions ?? describeInstructions(await agent.getInstructions({ runtimeContext }));
+
+    const tools: ToolsInput = {};
+    for (const [name, tool] of Object.entries(await agent.getTools({ runtimeContext }) as ToolsInput)) {
+      const override = toolOverrides[name];
+      if (override?.remove) continue;
+
+      let evalTool: any = override?.description ? createTool({ ...(tool as any), description: override.description }) : tool;
+      if (name in evalCase.toolStubs) {
+        const stub = evalCase.toolStubs[name];
+        evalTool = createTool({ ...evalTool, execute: async () => stub });
+      }
+
+      tools[name] = evalTool;
+      this.tools[name] = describeTool(evalTool);
+    }
+
+    return new Agent({
+      name: agent.name,
+      instructions: this.instructions,
+      model: this.options.model ? getModelProviderRegistry().resolveAgentModel(this.options.model) : this.scripted.model,
+      tools,
+    });
+  }
+
+  private async score(evalCase: EvalCase, threadId: string, turns: EvalTurnResult[]): Promise<EvalCaseResult['quality']> {
+    const at = (seconds: number) => new Date(EVAL_START.getTime() + seconds * 1000);
+    const data: ConversationData = {
+      conversationId: threadId,
+      userId: evalCase.userId,
+      username: evalCase.userId,
+      messages: turns.flatMap((turn, i) => [
+        { role: 'user' as const, content: turn.user, timestamp: at(i * TURN_SECONDS) },
+        { role: 'assistant' as const, content: turn.reply, timestamp: at(i * TURN_SECONDS + TURN_SECONDS / 2) },
+      ]),
+      toolsUsed: [...new Set(turns.flatMap((turn) => turn.toolCalls.filter((call) => call.available).map((call) => call.tool)))],
+      issueResolved: evalCase.resolved,
+      escalated: turns.some((turn) => turn.escalated),
+      conversationStart: EVAL_START,
+      conversationEnd: at(turns.length * TURN_SECONDS),
+      promptVariant: this.options.label,
+    };
+
+    try {
+      const score = await this.scoring.scoreConversation(data);
+      return { overallScore: score.overallScore, grade: score.qualityGrade, issues: score.qualityIssues };
+    } catch (error) {
+      logger.warn({ error, caseId: evalCase.id }, 'Failed to score eval conversation');
+      return null;
+    }
+  }
+}
+
+export type EvalCaseChange = 'regressed' | 'fixed' | 'unchanged' | 'added' | 'removed';
+
+export interface EvalCaseDiff {
+  id: string;
+  change: EvalCaseChange;
+  qualityBefore: number | null;
+  qualityAfter: number | null;
+  toolCallChanges: string[]; // "turn 2: stationStatus → stationStatus, resetStation"
+  failures: string[]; // Failures in the later run
+}
+
+export interface AgentEvalDiff {
+  before: string;
+  after: string;
+  prompt: { changed: boolean; linesAdded: number; linesRemoved: number };
+  tools: { added: string[]; removed: string[]; changed: string[] };
+  cases: EvalCaseDiff[];
+  summary: {
+    passedBefore: number;
+    passedAfter: number;
+    averageQualityBefore: number | null;
+    averageQualityAfter: number | null;
+    regressions: number;
+    fixes: number;
+  };
+}
+
+function countLines(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const line of text.split('\n').map((l) => l.trim()).filter(Boolean)) {
+    counts.set(line, (counts.get(line) || 0) + 1);
+  }
+  return counts;
+}
+
+function linesMissingFrom(from: Map<string, number>, other: Map<string, number>): number {
+  let missing = 0;
+  for (const [line, count] of from) {
+    missing += Math.max(0, count - (other.get(line) || 0));
+  }
+  return missing;
+}
+
+function caseFailures(result: EvalCaseResult): string[] {
+  return [
+    ...(result.error ? [result.error] : []),
+    ...result.turns.flatMap((turn, i) => turn.failures.map((failure) => `turn ${i + 1}: ${failure}`)),
+  ];
+}
+
+/**
+ * Compare the reports of two prompt/tool versions
+ */
+export function diffEvalReports(before: AgentEvalReport, after: AgentEvalReport): AgentEvalDiff {
+  const beforeLines = countLines(before.instructions);
+  const afterLines = countLines(after.instructions);
+
+  const beforeTools = Object.keys(before.tools);
+  const afterTools = Object.keys(after.tools);
+
+  const beforeCases = new Map(before.cases.map((result) => [result.id, result]));
+  const afterCases = new Map(after.cases.map((result) => [result.id, result]));
+  const ids = [...new Set([...beforeCases.keys(), ...afterCases.keys()])];
+
+  const cases: EvalCaseDiff[] = ids.map((id) => {
+    const old = beforeCases.get(id);
+    const current = afterCases.get(id);
+
+    let change: EvalCaseChange = 'unchanged';
+    if (!old) change = 'added';
+    else if (!current) change = 'removed';
+    else if (old.passed && !current.passed) change = 'regressed';
+    else if (!old.passed && current.passed) change = 'fixed';
+
+    const toolCallChanges: string[] = [];
+    const turnCount = Math.max(old?.turns.length || 0, current?.turns.length || 0);
+    for (let i = 0; old && current && i < turnCount; i++) {
+      const describe = (turn?: EvalTurnResult) =>
+        turn?.toolCalls.map((call) => (call.available ? call.tool : `${call.tool} (missing)`)).join(', ') || '(none)';
+      const [was, now] = [describe(old.turns[i]), describe(current.turns[i])];
+      if (was !== now) toolCallChanges.push(`turn ${i + 1}: ${was} → ${now}`);
+    }
+
+    return {
+      id,
+      change,
+      qualityBefore: old?.quality?.overallScore ?? null,
+      qualityAfter: current?.quality?.overallScore ?? null,
+      toolCallChanges,
+      failures: current ? caseFailures(current) : [],
+    };
+  });
+
+  return {
+    before: before.label,
+    after: after.label,
+    prompt: {
+      changed: before.promptHash !== after.promptHash,
+      linesAdded: linesMissingFrom(afterLines, beforeLines),
+      linesRemoved: linesMissingFrom(beforeLines, afterLines),
+    },
+    tools: {
+      added: afterTools.filter((name) => !before.tools[name]),
+      removed: beforeTools.filter((name) => !after.tools[name]),
+      changed: afterTools.filter((name) => before.tools[name] && JSON.stringify(before.tools[name]) !== JSON.stringify(after.tools[name])),
+    },
+    cases,
+    summary: {
+      passedBefore: before.summary.passed,
+      passedAfter: after.summary.passed,
+      averageQualityBefore: before.summary.averageQuality,
+      averageQualityAfter: after.summary.averageQuality,
+      regressions: cases.filter((result) => result.change === 'regressed').length,
+      fixes: cases.filter((result) => result.change === 'fixed').length,
+    },
+  };
+}
+
+/**
+ * Plain-text summary of a run
+ */
+export function formatEvalReport(report: AgentEvalReport): string {
+  const lines = [
+    `Eval ${report.label}: ${report.agent} on ${report.model} (prompt ${report.promptHash}, ${Object.keys(report.tools).length} tools)`,
+    '',
+  ];
+
+  for (const result of report.cases) {
+    const quality = result.quality ? ` quality ${result.quality.overallScore} (${result.quality.grade})` : '';
+    lines.push(`${result.passed ? 'PASS' : 'FAIL'} ${result.id} [${result.language}]${quality}`);
+    for (const failure of caseFailures(result)) lines.push(`     ${failure}`);
+  }
+
+  const { summary } = report;
+  lines.push('', `${summary.passed}/${summary.cases} passed, average quality ${summary.averageQuality ?? 'n/a'}`);
+  return lines.join('\n');
+}
+
+/**
+ * Plain-text diff report between two runs
+ */
+export function formatEvalDiff(diff: AgentEvalDiff): string {
+  const delta = (before: number | null, after: number | null) =>
+    before === null || after === null ? `${before ?? 'n/a'} → ${after ?? 'n/a'}` : `${before} → ${after} (${after - before >= 0 ? '+' : ''}${after - before})`;
+
+  const lines = [`Eval diff ${diff.before} → ${diff.after}`, ''];
+
+  lines.push(diff.prompt.changed
+    ? `Prompt: changed (+${diff.prompt.linesAdded} / -${diff.prompt.linesRemoved} lines)`
+    : 'Prompt: unchanged');
+  if (diff.tools.added.length) lines.push(`Tools added: ${diff.tools.added.join(', ')}`);
+  if (diff.tools.removed.length) lines.push(`Tools removed: ${diff.tools.removed.join(', ')}`);
+  if (diff.tools.changed.length) lines.push(`Tools changed: ${diff.tools.changed.join(', ')}`);
+  lines.push('');
+
+  for (const result of diff.cases) {
+    const changedQuality = result.qualityBefore !== result.qualityAfter;
+    if (result.change === 'unchanged' && !changedQuality && result.toolCallChanges.length === 0) continue;
+
+    lines.push(`${result.change.toUpperCase()} ${result.id}  quality ${delta(result.qualityBefore, result.qualityAfter)}`);
+    for (const change of result.toolCallChanges) lines.push(`     ${change}`);
+    if (result.change === 'regressed') {
+      for (const failure of result.failures) lines.push(`     ${failure}`);
+    }
+  }
+
+  const { summary } = diff;
+  lines.push(
+    '',
+    `Passed ${summary.passedBefore} → ${summary.passedAfter}, ${summary.regressions} regression(s), ${summary.fixes} fix(es)`,
+    `Average quality ${delta(summary.averageQualityBefore, summary.averageQualityAfter)}`
+  );
+  return lines.join('\n');
+}
@@ -0,0 +1,312 @@
+import { z } from 'zod';
+import { getDb, parseJsonColumn, parseTimestamp, type Database } from '../db';
+import { hasRole, TOOL_ROLES, type ToolRole } from '../mastra/toolPermissions';
+import { isSpecialistId, SPECIALISTS, type SpecialistId } from '../mastra/agents/specialists';
+import type { IntentClassification, TriageMessage } from '../mastra/agents/triageAgent';
+import { logger } from '../utils/logger';
+
+/**
+ * Agent Router
+ *
+ * Picks the specialist agent for each turn:
+ * 1. The triage agent classifies the latest message (intent + confidence)
+ * 2. Active routing_rules are checked by priority (highest first); the first
+ *    rule whose conditions all match names the target agent
+ * 3. Without a matching rule the intent's own specialist is used
+ *
+ * A conversation stays with its current specialist when the classifier is
+ * unsure (below STICKY_CONFIDENCE), so a vague follow-up like "it still
+ * doesn't work" isn't sent somewhere else. Every change of specialist is
+ * written to agent_handoffs.
+ */
+
+export const routingConditionsSchema = z.object({
+  intents: z.array(z.string()).optional(),
+  minConfidence: z.number().min(0).max(1).optional(),
+  keywords: z.array(z.string()).optional(),
+  minRole: z.enum(TOOL_ROLES).optional(),
+  channels: z.array(z.string()).optional(),
+  languages: z.array(z.string()).optional(),
+}).strict();
+
+export type RoutingConditions = z.infer<typeof routingConditionsSchema>;
+
+export interface RoutingRule {
+  id: number;
+  ruleName: string;
+  conditions: RoutingConditions;
+  targetAgent: SpecialistId;
+  priority: number;
+}
+
+export interface RoutingRequest {
+  threadId: string;
+  userId?: string | null;
+  channel?: string | null;
+  language?: string | null;
+  role: ToolRole;
+  messages: TriageMessage[];
+}
+
+export interface RoutingDecision {
+  agentId: SpecialistId;
+  previousAgentId: SpecialistId | null;
+  handoff: boolean; // The conversation moved to a different specialist
+  intent: IntentClassification['intent'];
+  confidence: number;
+  ruleName: string | null;
+  reason: string;
+}
+
+export interface AgentHandoff {
+  threadId: string;
+  fromAgent: string | null;
+  toAgent: string;
+  intent: string | null;
+  confidence: number | null;
+  ruleName: string | null;
+  reason: string | null;
+  createdAt: string;
+}
+
+export interface AgentRouterDeps {
+  db: Database;
+  classify(messages: TriageMessage[]): Promise<IntentClassification>;
+}
+
+interface RoutingRuleRow {
+  id: number;
+  rule_name: string;
+  conditions: string;
+  target_agent: string;
+  priority: number | null;
+}
+
+// Below this confidence a conversation keeps its current specialist
+export const STICKY_CONFIDENCE = 0.6;
+
+const RULES_CACHE_MS = 60 * 1000;
+
+/**
+ * Whether a rule's conditions all hold for a classified message
+ */
+export function matchesRoutingConditions(
+  conditions: RoutingConditions,
+  input: { text: string; classification: IntentClassification; role: ToolRole; channel?: string | null; language?: string | null }
+): boolean {
+  const { classification } = input;
+
+  if (conditions.intents && !conditions.intents.includes(classification.intent)) return false;
+  if (conditions.minConfidence !== undefined && classification.confidence < conditions.minConfidence) return false;
+  if (conditions.minRole && !hasRole(input.role, conditions.minRole)) return false;
+  if (conditions.channels && (!input.channel || !conditions.channels.includes(input.channel))) return false;
+  if (conditions.languages && (!input.language || !conditions.languages.includes(input.language))) return false;
+
+  if (conditions.keywords) {
+    const text = input.text.toLowerCase();
+    if (!conditions.keywords.some((keyword) => text.includes(keyword.toLowerCase()))) return false;
+  }
+
+  return true;
+}
+
+export class AgentRouter {
+  private rules: RoutingRule[] | null = null;
+  private rulesLoadedAt = 0;
+
+  constructor(private readonly deps: AgentRouterDeps) {}
+
+  /**
+   * Choose the specialist for this turn and log the handoff if it changed
+   */
+  async route(request: RoutingRequest): Promise<RoutingDecision> {
+    const text = [...request.messages].reverse().find((message) => message.role === 'user')?.content || '';
+    const [classification, previousAgentId] = await Promise.all([
+      this.deps.classify(request.messages),
+      this.currentAgent(request.threadId),
+    ]);
+
+    const decision = await this.decide(text, classification, previousAgentId, request);
+
+    if (decision.handoff || !previousAgentId) {
+      await this.recordHandoff(request, decision);
+    }
+
+    logger.info(
+      {
+        threadId: request.threadId,
+        agent: decision.agentId,
+        from: previousAgentId,
+        intent: decision.intent,
+        confidence: decision.confidence,
+        rule: decision.ruleName,
+        source: classification.source,
+      },
+      decision.handoff ? 'Conversation handed off to specialist' : 'Turn routed to specialist'
+    );
+
+    return decision;
+  }
+
+  /**
+   * Active rules, highest priority first (cached for a minute)
+   */
+  async getRules(): Promise<RoutingRule[]> {
+    if (this.rules && Date.now() - this.rulesLoadedAt < RULES_CACHE_MS) {
+      return this.rules;
+    }
+
+    const { rows } = await this.deps.db.query<RoutingRuleRow>(`
+      SELECT id, rule_name, conditions, target_agent, priority
+      FROM routing_rules
+      WHERE is_active = ${this.deps.db.sql.bool(true)}
+      ORDER BY priority DESC, id ASC
+    `);
+
+    const rules: RoutingRule[] = [];
+    for (const row of rows) {
+      const parsed = routingConditionsSchema.safeParse(parseJsonColumn(row.conditions, null));
+      if (!parsed.success) {
+        logger.warn({ rule: row.rule_name, error: parsed.error.message }, 'Skipping routing rule with invalid conditions');
+        continue;
+      }
+      if (!isSpecialistId(row.target_agent)) {
+        logger.warn({ rule: row.rule_name, targetAgent: row.target_agent }, 'Skipping routing rule for unknown agent');
+        continue;
+      }
+      rules.push({
+        id: row.id,
+        ruleName: row.rule_name,
+        conditions: parsed.data,
+        targetAgent: row.target_agent,
+        priority: row.priority ?? 0,
+      });
+    }
+
+    this.rules = rules;
+    this.rulesLoadedAt = Date.now();
+    return rules;
+  }
+
+  /**
+   * Drop the cached rules (after editing routing_rules)
+   */
+  invalidateRules(): void {
+    this.rules = null;
+  }
+
+  /**
+   * The handoffs logged for a conversation, oldest first
+   */
+  async getHandoffs(threadId: string): Promise<AgentHandoff[]> {
+    const { rows } = await this.deps.db.query<{
+      thread_id: string;
+      from_agent: string | null;
+      to_agent: string;
+      intent: string | null;
+      confidence: number | null;
+      rule_name: string | null;
+      reason: string | null;
+      created_at: string | Date;
+    }>(
+      'SELECT * FROM agent_handoffs WHERE thread_id = ? ORDER BY created_at ASC, id ASC',
+      [threadId]
+    );
+
+    return rows.map((row) => ({
+      threadId: row.thread_id,
+      fromAgent: row.from_agent,
+      toAgent: row.to_agent,
+      intent: row.intent,
+      confidence: row.confidence,
+      ruleName: row.rule_name,
+      reason: row.reason,
+      createdAt: parseTimestamp(row.created_at).toISOString(),
+    }));
+  }
+
+  private async decide(
+    text: string,
+    classification: IntentClassification,
+    previousAgentId: SpecialistId | null,
+    request: RoutingRequest
+  ): Promise<RoutingDecision> {
+    const base = { previousAgentId, intent: classification.intent, confidence: classification.confidence };
+    const allowed = (agentId: SpecialistId) => hasRole(request.role, SPECIALISTS[agentId].minRole);
+
+    if (previousAgentId && classification.confidence < STICKY_CONFIDENCE && allowed(previousAgentId)) {
+      return {
+        ...base,
+        agentId: previousAgentId,
+        handoff: false,
+        ruleName: null,
+        reason: `kept ${previousAgentId}: ${classification.intent} at ${classification.confidence.toFixed(2)} is below ${STICKY_CONFIDENCE}`,
+      };
+    }
+
+    let rules: RoutingRule[] = [];
+    try {
+      rules = await this.getRules();
+    } catch (error) {
+      logger.error({ error }, 'Failed to load routing rules');
+    }
+
+    const input = { text, classification, role: request.role, channel: request.channel, language: request.language };
+    const rule = rules.find((candidate) => allowed(candidate.targetAgent) && matchesRoutingConditions(candidate.conditions, input));
+
+    const agentId = rule?.targetAgent ?? (allowed(classification.intent) ? classification.intent : 'charging');
+    return {
+      ...base,
+      agentId,
+      handoff: previousAgentId !== null && previousAgentId !== agentId,
+      ruleName: rule?.ruleName ?? null,
+      reason: rule ? `rule ${rule.ruleName}` : `intent ${classification.intent} (${classification.reason})`,
+    };
+  }
+
+  private async currentAgent(threadId: string): Promise<SpecialistId | null> {
+    try {
+      const row = await this.deps.db.get<{ to_agent: string }>(
+        'SELECT to_agent FROM agent_handoffs WHERE thread_id = ? ORDER BY created_at DESC, id DESC LIMIT 1',
+        [threadId]
+      );
+      return isSpecialistId(row?.to_agent) ? row.to_agent : null;
+    } catch (error) {
+      logger.error({ error, threadId }, 'Failed to load current agent');
+      return null;
+    }
+  }
+
+  private async recordHandoff(request: RoutingRequest, decision: RoutingDecision): Promise<void> {
+    try {
+      await this.deps.db.run(`
+        INSERT INTO agent_handoffs (
+          thread_id, user_id, channel, from_agent, to_agent, intent, confidence, rule_name, reason
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        request.threadId,
+        request.userId ?? null,
+        request.channel ?? null,
+        decision.previousAgentId,
+        decision.agentId,
+        decision.intent,
+        decision.confidence,
+        decision.ruleName,
+        decision.reason,
+      ]);
+    } catch (error) {
+      logger.error({ error, threadId: request.threadId }, 'Failed to record agent handoff');
+    }
+  }
+}
+
+// Singleton instance
+let routerInstance: AgentRouter | null = null;
+
+export async function getAgentRouter(): Promise<AgentRouter> {
+  if (!routerInstance) {
+    const { classifyIntent } = await import('../mastra/agents/triageAgent');
+    routerInstance = new AgentRouter({ db: getDb(), classify: classifyIntent });
+  }
+  return routerInstance;
+}
@@ -0,0 +1,294 @@
+import {
+  ampecoRequest,
+  type AmpecoTenant,
+  findStationBySocketNumber,
+  getActiveSession,
+  getSessionHistory,
+  getTariffInfo,
+  resetStation,
+  unlockConnector,
+} from '../mastra/utils/ampecoUtils';
+import type {
+  BackendResult,
+  ChargingBackend,
+  ChargingSession,
+  ChargingStation,
+  ChargingTariff,
+  ChargingWebhookEvent,
+  RemoteCommandResult,
+  SessionHistoryOptions,
+  StartChargingOptions,
+  StopChargingOptions,
+} from './chargingBackend';
+import type { StationStatus } from './stationMonitoring';
+
+/**
+ * Ampeco Charging Backend
+ * ChargingBackend implementation on top of the Ampeco public API. The default
+ * instance uses AMPECO_TENANT_URL / AMPECO_API_KEY; other tenants (a region
+ * on its own Ampeco account) get their own instance with a tenant and id.
+ */
+
+/**
+ * Ampeco Webhook Event payload
+ */
+interface AmpecoWebhookEvent {
+  notification: string;
+  chargePointId?: number;
+  evseId?: number;
+  sessionId?: string;
+  userId?: number;
+  data?: any;
+  timestamp?: string;
+}
+
+export interface AmpecoBackendOptions {
+  id?: string;
+  displayName?: string;
+  tenant?: AmpecoTenant;
+}
+
+export class AmpecoChargingBackend implements ChargingBackend {
+  readonly id: string;
+  readonly displayName: string;
+  readonly supportsPolling = true;
+  private readonly tenant?: AmpecoTenant;
+
+  constructor(options: AmpecoBackendOptions = {}) {
+    this.id = options.id || 'ampeco';
+    this.displayName = options.displayName || 'Ampeco';
+    this.tenant = options.tenant;
+  }
+
+  async listStations(): Promise<BackendResult<ChargingStation[]>> {
+    const result = await ampecoRequest<any>('/public-api/resources/charge-points/v1.0', {
+      method: 'GET',
+      useCache: false,
+      tenant: this.tenant,
+    });
+
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error || 'Failed to fetch charge points' };
+    }
+
+    return {
+      success: true,
+      data: (result.data.data || []).map((chargePoint: any) => this.toStation(chargePoint)),
+    };
+  }
+
+  async findStation(identifier: string): Promise<BackendResult<ChargingStation>> {
+    const result = await findStationBySocketNumber(identifier, this.tenant);
+
+    if (!result.success || !result.station) {
+      return { success: false, error: result.error || 'Station not found' };
+    }
+
+    return { success: true, data: this.toStation(result.station, result.evse) };
+  }
+
+  async getActiveSessions(stationId?: string): Promise<BackendResult<ChargingSession[]>> {
+    const result = await getActiveSession(stationId, this.tenant);
+
+    if (!result.success) {
+      return { success: false, error: result.error || 'Failed to fetch active sessions' };
+    }
+
+    return {
+      success: true,
+      data: this.extractList(result.data).map((session: any) => this.toSession(session)),
+    };
+  }
+
+  async getSessionHistory(options: SessionHistoryOptions = {}): Promise<BackendResult<ChargingSession[]>> {
+    const result = await getSessionHistory(options.userId, options.limit || 10, this.tenant);
+
+    if (!result.success) {
+      return { success: false, error: result.error || 'Failed to fetch session history' };
+    }
+
+    let sessions = this.extractList(result.data).map((session: any) => this.toSession(session));
+    if (options.stationId) {
+      sessions = sessions.filter((s) => s.stationId === options.stationId);
+    }
+
+    return { success: true, data: sessions };
+  }
+
+  async getTariff(stationId: string): Promise<BackendResult<ChargingTariff>> {
+    const result = await getTariffInfo(stationId, this.tenant);
+
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error || 'Failed to fetch tariff information' };
+    }
+
+    const tariff: any = result.data;
+    return {
+      success: true,
+      data: {
+        tariffId: tariff.id?.toString(),
+        name: tariff.name || 'Standard tariff',
+        currency: tariff.currency || 'ILS',
+        pricePerKwh: tariff.pricePerKwh,
+        parkingFeePerHour: tariff.parkingFee,
+        sessionStartFee: tariff.sessionStartFee,
+        minimumCharge: tariff.minimumCharge,
+        freeParkingMinutes: tariff.freeParkingMinutes,
+        description: tariff.description,
+      },
+    };
+  }
+
+  async startCharging(stationId: string, options: StartChargingOptions = {}): Promise<BackendResult<RemoteCommandResult>> {
+    const requestBody: any = {
+      evseId: options.connectorId,
+    };
+
+    if (options.userId) requestBody.userId = parseInt(options.userId);
+    if (options.idTag) requestBody.idTag = options.idTag;
+
+    const result = await ampecoRequest<any>(`/public-api/actions/charge-point/v1.0/${stationId}/start`, {
+      method: 'POST',
+      body: requestBody,
+      useCache: false,
+      tenant: this.tenant,
+    });
+
+    return this.toCommandResult(result);
+  }
+
+  async stopCharging(stationId: string, options: StopChargingOptions = {}): Promise<BackendResult<RemoteCommandResult>> {
+    const requestBody: any = {};
+    if (options.reason) requestBody.reason = options.reason;
+
+    const result = await ampecoRequest<any>(`/public-api/actions/charge-point/v1.0/${stationId}/stop`, {
+      method: 'POST',
+      body: requestBody,
+      useCache: false,
+      tenant: this.tenant,
+    });
+
+    return this.toCommandResult(result);
+  }
+
+  async resetStation(stationId: string, resetType: 'soft' | 'hard'): Promise<BackendResult<RemoteCommandResult>> {
+    return this.toCommandResult(await resetStation(stationId, resetType, this.tenant));
+  }
+
+  async unlockConnector(stationId: string, connectorId?: number): Promise<BackendResult<RemoteCommandResult>> {
+    return this.toCommandResult(await unlockConnector(stationId, String(connectorId ?? 1), this.tenant));
+  }
+
+  parseWebhookEvent(payload: any): ChargingWebhookEvent | null {
+    const event = payload as AmpecoWebhookEvent;
+    if (!event?.notification) {
+      return null;
+    }
+
+    return {
+      eventType: event.notification,
+      stationId: event.chargePointId?.toString(),
+      connectorId: event.evseId,
+      sessionId: event.sessionId,
+      userId: event.userId?.toString(),
+      occurredAt: event.timestamp ? new Date(event.timestamp) : new Date(),
+      data: event.data || {},
+    };
+  }
+
+  /**
+   * Map an Ampeco charge point (and optionally the matched EVSE) to a ChargingStation
+   */
+  private toStation(chargePoint: any, evse?: any): ChargingStation {
+    const evses: any[] = evse ? [evse] : chargePoint.evses || chargePoint.connectors || [];
+    const connectors = this.parseConnectors(evses);
+    const faulted = evses.find((e) => e.status === 'Faulted' || e.errorCode);
+
+    return {
+      backendId: this.id,
+      stationId: chargePoint.id?.toString(),
+      stationName: chargePoint.name || `Station ${chargePoint.id}`,
+      status: this.mapStatus(chargePoint.status || this.deriveStatus(connectors)),
+      statusCode: chargePoint.status_code,
+      connectors,
+      location: chargePoint.location ? {
+        latitude: chargePoint.location.latitude,
+        longitude: chargePoint.location.longitude,
+        address: chargePoint.location.address,
+      } : undefined,
+      lastUpdated: new Date(chargePoint.lastHeartbeat || chargePoint.updatedAt || Date.now()),
+      errorCode: chargePoint.error_code || faulted?.errorCode,
+      errorMessage: chargePoint.error_message,
+    };
+  }
+
+  /**
+   * Map Ampeco status to our standard format
+   */
+  private mapStatus(status: string): StationStatus['status'] {
+    const statusMap: Record<string, StationStatus['status']> = {
+      'Available': 'Available',
+      'Occupied': 'Occupied',
+      'Charging': 'Occupied',
+      'Faulted': 'Faulted',
+      'Unavailable': 'Unavailable',
+      'Offline': 'Offline',
+    };
+
+    return statusMap[status] || 'Unavailable';
+  }
+
+  /**
+   * Derive a station status from its EVSEs when Ampeco doesn't report one
+   */
+  private deriveStatus(connectors: StationStatus['connectors']): string {
+    if (connectors.some((c) => c.status === 'Faulted')) return 'Faulted';
+    if (connectors.some((c) => c.status === 'Available')) return 'Available';
+    if (connectors.some((c) => c.status === 'Charging' || c.status === 'Occupied')) return 'Occupied';
+    return 'Unavailable';
+  }
+
+  /**
+   * Parse connector information
+   */
+  private parseConnectors(connectors: any[]): StationStatus['connectors'] {
+    return connectors.map((c) => ({
+      connectorId: Number(c.id || c.connector_id),
+      type: c.connectorType || c.type || c.connector_type || 'Unknown',
+      status: c.status || 'Unknown',
+      powerKw: c.maxPower || c.power_kw || c.max_power || 0,
+    }));
+  }
+
+  private toSession(session: any): ChargingSession {
+    const status = String(session.status || '').toLowerCase();
+
+    return {
+      sessionId: session.id?.toString(),
+      stationId: session.chargePointId?.toString(),
+      connectorId: session.evseId,
+      userId: session.userId?.toString(),
+      idTag: session.idTag,
+      status: ['active', 'charging'].includes(status) ? 'active' : status === 'failed' ? 'failed' : 'completed',
+      startedAt: new Date(session.startTime || session.startedAt),
+      endedAt: session.endTime || session.stoppedAt ? new Date(session.endTime || session.stoppedAt) : undefined,
+      energyKwh: session.energyConsumed ?? session.energy,
+      powerKw: session.currentPower,
+      cost: session.cost ?? session.amount,
+      currency: session.currency,
+    };
+  }
+
+  private extractList(data: any): any[] {
+    if (Array.isArray(data)) return data;
+    if (Array.isArray(data?.data)) return data.data;
+    return data?.id ? [data] : [];
+  }
+
+  private toCommandResult(result: { success: boolean; data?: any; error?: string }): BackendResult<RemoteCommandResult> {
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: { ...(result.data || {}) } };
+  }
+}
@@ -3,13 +3,9 @@
  * Aggregates metrics, generates reports, handles exports
  */
 
-import { Pool } from 'pg';
+import { db } from '../db';
 import { generateId } from '../utils/idGenerator';
-import logger from '../utils/logger';
-
-const pool = new Pool({
-  connectionString: process.env.DATABASE_URL
-});
+import { logger } from '../utils/logger';
 
 // Types
 export interface DashboardMetrics {
@@ -66,7 +62,7 @@ export class AnalyticsDashboardService {
    */
   async getDailyMetrics(dateFrom: string, dateTo: string): Promise<DashboardMetrics[]> {
     try {
-      const result = await pool.query(`
+      const result = await db.query(`
         SELECT 
           date,
           resolution_rate as "resolutionRate",
@@ -82,7 +78,7 @@ export class AnalyticsDashboardService {
       return result.rows;
       
     } catch (error) {
-      logger.error('Error getting daily metrics:', error);
+      logger.error({ error }, 'Error getting daily metrics');
       return [];
     }
   }
@@ -92,7 +88,7 @@ export class AnalyticsDashboardService {
    */
   async getRealtimeMetrics(): Promise<RealtimeMetrics> {
     try {
-      const result = await pool.query(`
+      const result = await db.query(`
         SELECT 
           SUM(conversations_started) as "conversationsStarted",
           SUM(conversations_resolved) as "conversationsResolved",
@@ -100,7 +96,7 @@ export class AnalyticsDashboardService {
           AVG(avg_quality_score) as "avgQualityScore",
           AVG(avg_response_time_ms) as "avgResponseTime"
         FROM dashboard_hourly_metrics
-        WHERE date >= CURRENT_DATE - INTERVAL '1 day'
+        WHERE date >= ${db.sql.daysAgoDate(1)}
       `);
       
       return result.rows[0] || {
@@ -112,7 +108,7 @@ export class AnalyticsDashboardService {
       };
       
     } catch (error) {
-      logger.error('Error getting realtime metrics:', error);
+      logger.error({ error }, 'Error getting realtime metrics');
       return {
         conversationsStarted: 0,
         conversationsResolved: 0,
@@ -128,7 +124,7 @@ export class AnalyticsDashboardService {
    */
   async getGeographicHotspots(limit: number = 50): Promise<GeographicHotspot[]> {
     try {
-      const result = await pool.query(`
+      const result = await db.query(`
         SELECT * FROM geographic_hotspots LIMIT $1
       `, [limit]);
       
@@ -144,7 +140,7 @@ export class AnalyticsDashboardService {
       }));
       
     } catch (error) {
-      logger.error('Error getting geographic hotspots:', error);
+      logger.error({ error }, 'Error getting geographic hotspots');
       return [];
     }
   }
@@ -173,7 +169,7 @@ export class AnalyticsDashboardService {
         params.push(dateFrom, dateTo);
       }
       
-      const result = await pool.query(query, params);
+      const result = await db.query(query, params);
       
       return result.rows.map((row: any) => ({
         toolName: row.tool_name || row.toolName,
@@ -184,7 +180,7 @@ export class AnalyticsDashboardService {
       }));
       
     } catch (error) {
-      logger.error('Error getting tool effectiveness:', error);
+      logger.error({ error }, 'Error getting tool effectiveness');
       return [];
     }
   }
@@ -194,7 +190,7 @@ export class AnalyticsDashboardService {
    */
   async getTrendAnalysis(): Promise<TrendAnalysis[]> {
     try {
-      const result = await pool.query('SELECT * FROM dashboard_trend_analysis');
+      const result = await db.query('SELECT * FROM dashboard_trend_analysis');
       
       if (result.rows.length === 0) {
         return [];
@@ -248,7 +244,7 @@ export class AnalyticsDashboardService {
       return trends;
       
     } catch (error) {
-      logger.error('Error getting trend analysis:', error);
+      logger.error({ error }, 'Error getting trend analysis');
       return [];
     }
   }
@@ -266,7 +262,7 @@ export class AnalyticsDashboardService {
       const exportId = `EXPORT-${generateId()}`;
       
       // Log export request
-      await pool.query(`
+      await db.query(`
         INSERT INTO dashboard_exports (
           export_id, export_type, report_type,
           date_from, date_to, filters, status
@@ -286,12 +282,12 @@ export class AnalyticsDashboardService {
       
       const fileUrl = `https://storage.example.com/exports/${exportId}.csv`;
       
-      await pool.query(`
+      await db.query(`
         UPDATE dashboard_exports
         SET status = 'completed',
             file_url = $2,
-            completed_at = NOW(),
-            expires_at = NOW() + INTERVAL '7 days'
+            completed_at = ${db.sql.now()},
+            expires_at = ${db.sql.fromNow(7, 'days')}
         WHERE export_id = $1
       `, [exportId, fileUrl]);
       
@@ -300,7 +296,7 @@ export class AnalyticsDashboardService {
       return { exportId, status: 'completed' };
       
     } catch (error) {
-      logger.error('Error creating export:', error);
+      logger.error({ error }, 'Error creating export');
       throw error;
     }
   }
@@ -310,7 +306,7 @@ export class AnalyticsDashboardService {
    */
   async getExportStatus(exportId: string): Promise<any> {
     try {
-      const result = await pool.query(`
+      const result = await db.query(`
         SELECT 
           export_id as "exportId",
           export_type as "exportType",
@@ -329,7 +325,7 @@ export class AnalyticsDashboardService {
       return result.rows[0] || null;
       
     } catch (error) {
-      logger.error('Error getting export status:', error);
+      logger.error({ error }, 'Error getting export status');
       return null;
     }
   }
@@ -344,7 +340,7 @@ export class AnalyticsDashboardService {
       // This would aggregate from various tables
       // For now, we'll insert sample data
       
-      await pool.query(`
+      await db.query(`
         INSERT INTO dashboard_daily_metrics (
           date, total_conversations, resolved_conversations,
           resolution_rate, avg_messages_per_conversation,
@@ -357,7 +353,7 @@ export class AnalyticsDashboardService {
           avg_messages_per_conversation = EXCLUDED.avg_messages_per_conversation,
           avg_quality_score = EXCLUDED.avg_quality_score,
           escalation_rate = EXCLUDED.escalation_rate,
-          updated_at = NOW()
+          updated_at = ${db.sql.now()}
       `, [
         date,
         100, // sample data
@@ -371,7 +367,7 @@ export class AnalyticsDashboardService {
       logger.info(`Daily metrics aggregated for ${date}`);
       
     } catch (error) {
-      logger.error('Error aggregating daily metrics:', error);
+      logger.error({ error }, 'Error aggregating daily metrics');
       throw error;
     }
   }
@@ -389,16 +385,16 @@ export class AnalyticsDashboardService {
    */
   async getPerformanceSummary(days: number = 30): Promise<any[]> {
     try {
-      const result = await pool.query(`
+      const result = await db.query(`
         SELECT * FROM dashboard_performance_summary
-        WHERE date >= CURRENT_DATE - INTERVAL '${days} days'
+        WHERE date >= ${db.sql.daysAgoDate(days)}
         ORDER BY date DESC
       `);
       
       return result.rows;
       
     } catch (error) {
-      logger.error('Error getting performance summary:', error);
+      logger.error({ error }, 'Error getting performance summary');
       return [];
     }
   }
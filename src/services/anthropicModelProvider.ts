@@ -0,0 +1,130 @@
+import type { MastraModelConfig } from '@mastra/core/llm';
+import type { CompletionRequest, CompletionResult, EmbeddingRequest, ModelMessage, ModelProvider } from './modelProvider';
+
+/**
+ * Anthropic Model Provider
+ *
+ * Claude models over the Messages API. Anthropic has no embeddings API, so
+ * the embeddings chain should not point here.
+ */
+
+export interface AnthropicModelProviderConfig {
+  id: string;
+  apiKey?: string;
+  baseURL?: string;
+}
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com';
+const API_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 1024; // Required by the API
+
+type AnthropicContent = Array<{ type: 'text'; text: string } | { type: 'image'; source: { type: 'url'; url: string } }>;
+
+function toAnthropicMessages(messages: ModelMessage[]): { system?: string; messages: Array<{ role: 'user' | 'assistant'; content: AnthropicContent }> } {
+  const text = (content: ModelMessage['content']) =>
+    typeof content === 'string' ? content : content.map((part) => (part.type === 'text' ? part.text : '')).join('');
+
+  const system = messages.filter((message) => message.role === 'system').map((message) => text(message.content)).join('\n\n');
+
+  return {
+    system: system || undefined,
+    messages: messages
+      .filter((message) => message.role !== 'system')
+      .map((message) => ({
+        role: message.role as 'user' | 'assistant',
+        content: typeof message.content === 'string'
+          ? [{ type: 'text' as const, text: message.content }]
+          : message.content.map((part) =>
+              part.type === 'text'
+                ? { type: 'text' as const, text: part.text }
+                : { type: 'image' as const, source: { type: 'url' as const, url: part.url } }
+            ),
+      })),
+  };
+}
+
+export class AnthropicModelProvider implements ModelProvider {
+  readonly id: string;
+  readonly kind = 'anthropic' as const;
+  readonly configured: boolean;
+
+  private readonly baseURL: string;
+
+  constructor(private readonly config: AnthropicModelProviderConfig) {
+    this.id = config.id;
+    this.configured = Boolean(config.apiKey);
+    this.baseURL = (config.baseURL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const response = await this.post(request, false);
+    const body = await response.json() as {
+      content: Array<{ type: string; text?: string }>;
+      usage?: { input_tokens?: number; output_tokens?: number };
+    };
+
+    return {
+      text: body.content.filter((block) => block.type === 'text').map((block) => block.text).join(''),
+      providerId: this.id,
+      model: request.model,
+      usage: { promptTokens: body.usage?.input_tokens, completionTokens: body.usage?.output_tokens },
+    };
+  }
+
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    const response = await this.post(request, true);
+    if (!response.body) return;
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue;
+        const event = JSON.parse(line.slice(5).trim());
+        if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+          yield event.delta.text;
+        } else if (event.type === 'error') {
+          throw new Error(event.error?.message || 'Anthropic stream error');
+        }
+      }
+    }
+  }
+
+  async embed(_request: EmbeddingRequest): Promise<number[][]> {
+    throw new Error('Anthropic does not provide embeddings');
+  }
+
+  agentModel(model: string): MastraModelConfig {
+    return { id: `anthropic/${model}`, apiKey: this.config.apiKey };
+  }
+
+  private async post(request: CompletionRequest, stream: boolean): Promise<Response> {
+    const { system, messages } = toAnthropicMessages(request.messages);
+    const response = await fetch(`${this.baseURL}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': this.config.apiKey || '',
+        'anthropic-version': API_VERSION,
+      },
+      body: JSON.stringify({
+        model: request.model,
+        system,
+        messages,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: request.temperature,
+        stream,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Anthropic API ${response.status}: ${(await response.text()).slice(0, 300)}`);
+    }
+    return response;
+  }
+}
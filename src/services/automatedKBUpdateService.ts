@@ -10,7 +10,7 @@
  * - Automatic KB updates
  */
 
-import type { D1Database } from '@cloudflare/workers-types';
+import type { Database } from '../db';
 
 // ============================================================================
 // Types
@@ -51,7 +51,7 @@ export interface ReviewTask {
 // ============================================================================
 
 export class AutomatedKBUpdateService {
-  constructor(private db: D1Database) {}
+  constructor(private db: Database) {}
 
   /**
    * Check a documentation source for changes
@@ -60,10 +60,10 @@ export class AutomatedKBUpdateService {
     const startTime = Date.now();
     
     // Get source details
-    const source = await this.db
-      .prepare('SELECT * FROM kb_doc_sources WHERE id = ? AND is_active = 1')
-      .bind(sourceId)
-      .first<any>();
+    const source = await this.db.get<any>(
+      `SELECT * FROM kb_doc_sources WHERE id = ? AND is_active = ${this.db.sql.bool(true)}`,
+      [sourceId]
+    );
     
     if (!source) {
       throw new Error(`Source ${sourceId} not found or inactive`);
@@ -106,19 +106,16 @@ export class AutomatedKBUpdateService {
       await this.logScraping(sourceId, 'error', null, 0, Date.now() - startTime, false, error.message);
       
       // Update source with error
-      await this.db
-        .prepare(`
-          UPDATE kb_doc_sources
-          SET last_error = ?,
-              status = 'error',
-              last_checked_at = CURRENT_TIMESTAMP,
-              next_check_at = datetime('now', '+' || check_frequency_hours || ' hours'),
-              total_checks = total_checks + 1,
-              updated_at = CURRENT_TIMESTAMP
-          WHERE id = ?
-        `)
-        .bind(error.message, sourceId)
-        .run();
+      await this.db.run(`
+        UPDATE kb_doc_sources
+        SET last_error = ?,
+            status = 'error',
+            last_checked_at = CURRENT_TIMESTAMP,
+            next_check_at = ${this.db.sql.fromNowBy('check_frequency_hours', 'hours')},
+            total_checks = total_checks + 1,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `, [error.message, sourceId]);
       
       throw error;
     }
@@ -193,28 +190,26 @@ export class AutomatedKBUpdateService {
     const urgency = this.determineUrgency(impactScore, changeType);
     
     // Insert change
-    const changeResult = await this.db
-      .prepare(`
-        INSERT INTO kb_doc_changes (
-          source_id, change_type, previous_hash, new_hash,
-          previous_content, new_content, diff_summary,
-          impact_score, urgency, review_status
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending')
-      `)
-      .bind(
-        sourceId,
-        changeType,
-        previousHash,
-        newHash,
-        previousContent || null,
-        newContent,
-        diffSummary,
-        impactScore,
-        urgency
-      )
-      .run();
+    const change = await this.db.get<{ id: number }>(`
+      INSERT INTO kb_doc_changes (
+        source_id, change_type, previous_hash, new_hash,
+        previous_content, new_content, diff_summary,
+        impact_score, urgency, review_status
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending')
+      RETURNING id
+    `, [
+      sourceId,
+      changeType,
+      previousHash,
+      newHash,
+      previousContent || null,
+      newContent,
+      diffSummary,
+      impactScore,
+      urgency,
+    ]);
     
-    const changeId = changeResult.meta.last_row_id as number;
+    const changeId = change!.id;
     
     // Queue for review if high impact
     if (impactScore > 0.5) {
@@ -240,41 +235,33 @@ export class AutomatedKBUpdateService {
     else if (urgency === 'medium') priority = 5;
     else priority = 3;
     
-    await this.db
-      .prepare(`
-        INSERT INTO kb_review_queue (
-          change_id, priority, task_type, task_description, status
-        ) VALUES (?, ?, 'approve_change', ?, 'pending')
-      `)
-      .bind(
-        changeId,
-        priority,
-        `Review documentation change: ${diffSummary}`
-      )
-      .run();
+    await this.db.run(`
+      INSERT INTO kb_review_queue (
+        change_id, priority, task_type, task_description, status
+      ) VALUES (?, ?, 'approve_change', ?, 'pending')
+    `, [
+      changeId,
+      priority,
+      `Review documentation change: ${diffSummary}`,
+    ]);
   }
 
   /**
    * Get all sources due for checking
    */
   async getSourcesDueForCheck(): Promise<any[]> {
-    const result = await this.db
-      .prepare('SELECT * FROM v_kb_sources_due_for_check LIMIT 50')
-      .all();
+    const result = await this.db.query('SELECT * FROM v_kb_sources_due_for_check LIMIT 50');
     
-    return result.results || [];
+    return result.rows;
   }
 
   /**
    * Get pending reviews
    */
   async getPendingReviews(limit: number = 20): Promise<any[]> {
-    const result = await this.db
-      .prepare('SELECT * FROM v_kb_pending_reviews LIMIT ?')
-      .bind(limit)
-      .all();
+    const result = await this.db.query('SELECT * FROM v_kb_pending_reviews LIMIT ?', [limit]);
     
-    return result.results || [];
+    return result.rows;
   }
 
   /**
@@ -286,31 +273,25 @@ export class AutomatedKBUpdateService {
     notes?: string
   ): Promise<void> {
     // Update change status
-    await this.db
-      .prepare(`
-        UPDATE kb_doc_changes
-        SET review_status = 'approved',
-            reviewed_by = ?,
-            reviewed_at = CURRENT_TIMESTAMP,
-            review_notes = ?
-        WHERE id = ?
-      `)
-      .bind(reviewerId, notes || null, changeId)
-      .run();
+    await this.db.run(`
+      UPDATE kb_doc_changes
+      SET review_status = 'approved',
+          reviewed_by = ?,
+          reviewed_at = CURRENT_TIMESTAMP,
+          review_notes = ?
+      WHERE id = ?
+    `, [reviewerId, notes || null, changeId]);
     
     // Update review queue
-    await this.db
-      .prepare(`
-        UPDATE kb_review_queue
-        SET status = 'completed',
-            action_taken = 'approved',
-            reviewer_notes = ?,
-            completed_at = CURRENT_TIMESTAMP,
-            updated_at = CURRENT_TIMESTAMP
-        WHERE change_id = ? AND status = 'pending'
-      `)
-      .bind(notes || null, changeId)
-      .run();
+    await this.db.run(`
+      UPDATE kb_review_queue
+      SET status = 'completed',
+          action_taken = 'approved',
+          reviewer_notes = ?,
+          completed_at = CURRENT_TIMESTAMP,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE change_id = ? AND status = 'pending'
+    `, [notes || null, changeId]);
   }
 
   /**
@@ -321,52 +302,42 @@ export class AutomatedKBUpdateService {
     reviewerId: string,
     reason: string
   ): Promise<void> {
-    await this.db
-      .prepare(`
-        UPDATE kb_doc_changes
-        SET review_status = 'rejected',
-            reviewed_by = ?,
-            reviewed_at = CURRENT_TIMESTAMP,
-            review_notes = ?
-        WHERE id = ?
-      `)
-      .bind(reviewerId, reason, changeId)
-      .run();
+    await this.db.run(`
+      UPDATE kb_doc_changes
+      SET review_status = 'rejected',
+          reviewed_by = ?,
+          reviewed_at = CURRENT_TIMESTAMP,
+          review_notes = ?
+      WHERE id = ?
+    `, [reviewerId, reason, changeId]);
     
-    await this.db
-      .prepare(`
-        UPDATE kb_review_queue
-        SET status = 'completed',
-            action_taken = 'rejected',
-            reviewer_notes = ?,
-            completed_at = CURRENT_TIMESTAMP,
-            updated_at = CURRENT_TIMESTAMP
-        WHERE change_id = ? AND status = 'pending'
-      `)
-      .bind(reason, changeId)
-      .run();
+    await this.db.run(`
+      UPDATE kb_review_queue
+      SET status = 'completed',
+          action_taken = 'rejected',
+          reviewer_notes = ?,
+          completed_at = CURRENT_TIMESTAMP,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE change_id = ? AND status = 'pending'
+    `, [reason, changeId]);
   }
 
   /**
    * Get scraping health status
    */
   async getScrapingHealth(): Promise<any[]> {
-    const result = await this.db
-      .prepare('SELECT * FROM v_kb_scraping_health')
-      .all();
+    const result = await this.db.query('SELECT * FROM v_kb_scraping_health');
     
-    return result.results || [];
+    return result.rows;
   }
 
   /**
    * Get recent KB changes
    */
   async getRecentChanges(days: number = 7): Promise<any[]> {
-    const result = await this.db
-      .prepare('SELECT * FROM v_kb_recent_changes LIMIT 100')
-      .all();
+    const result = await this.db.query('SELECT * FROM v_kb_recent_changes LIMIT 100');
     
-    return result.results || [];
+    return result.rows;
   }
 
   // ============================================================================
@@ -435,30 +406,27 @@ export class AutomatedKBUpdateService {
   }
 
   private async getContentByHash(sourceId: number, hash: string): Promise<string | null> {
-    const result = await this.db
-      .prepare('SELECT previous_content FROM kb_doc_changes WHERE source_id = ? AND previous_hash = ? LIMIT 1')
-      .bind(sourceId, hash)
-      .first<{ previous_content: string }>();
+    const result = await this.db.get<{ previous_content: string }>(
+      'SELECT previous_content FROM kb_doc_changes WHERE source_id = ? AND previous_hash = ? LIMIT 1',
+      [sourceId, hash]
+    );
     
     return result?.previous_content || null;
   }
 
   private async updateSourceLastChecked(sourceId: number, newHash: string): Promise<void> {
-    await this.db
-      .prepare(`
-        UPDATE kb_doc_sources
-        SET last_checked_at = CURRENT_TIMESTAMP,
-            next_check_at = datetime('now', '+' || check_frequency_hours || ' hours'),
-            content_hash = ?,
-            total_checks = total_checks + 1,
-            successful_checks = successful_checks + 1,
-            last_error = NULL,
-            status = 'active',
-            updated_at = CURRENT_TIMESTAMP
-        WHERE id = ?
-      `)
-      .bind(newHash, sourceId)
-      .run();
+    await this.db.run(`
+      UPDATE kb_doc_sources
+      SET last_checked_at = CURRENT_TIMESTAMP,
+          next_check_at = ${this.db.sql.fromNowBy('check_frequency_hours', 'hours')},
+          content_hash = ?,
+          total_checks = total_checks + 1,
+          successful_checks = successful_checks + 1,
+          last_error = NULL,
+          status = 'active',
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `, [newHash, sourceId]);
   }
 
   private async logScraping(
@@ -470,48 +438,49 @@ export class AutomatedKBUpdateService {
     changesDetected: boolean,
     errorMessage?: string
   ): Promise<void> {
-    await this.db
-      .prepare(`
-        INSERT INTO kb_scraping_logs (
-          source_id, status, content_hash, content_size,
-          fetch_time_ms, changes_detected, error_message
-        ) VALUES (?, ?, ?, ?, ?, ?, ?)
-      `)
-      .bind(
-        sourceId,
-        status,
-        contentHash,
-        contentSize,
-        fetchTimeMs,
-        changesDetected ? 1 : 0,
-        errorMessage || null
-      )
-      .run();
+    await this.db.run(`
+      INSERT INTO kb_scraping_logs (
+        source_id, status, content_hash, content_size,
+        fetch_time_ms, changes_detected, error_message
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [
+      sourceId,
+      status,
+      contentHash,
+      contentSize,
+      fetchTimeMs,
+      changesDetected,
+      errorMessage || null,
+    ]);
   }
 
   /**
    * Aggregate daily analytics
    */
   async aggregateDailyAnalytics(date: string): Promise<void> {
-    await this.db
-      .prepare(`
-        INSERT OR REPLACE INTO kb_update_analytics_daily (
-          date, total_checks, successful_checks, failed_checks,
-          total_changes, pending_review, reviews_completed
-        )
-        SELECT 
-          DATE(scraped_at) as date,
-          COUNT(*) as total_checks,
-          SUM(CASE WHEN status = 'success' THEN 1 ELSE 0 END) as successful_checks,
-          SUM(CASE WHEN status = 'error' THEN 1 ELSE 0 END) as failed_checks,
-          SUM(CASE WHEN changes_detected = 1 THEN 1 ELSE 0 END) as total_changes,
-          (SELECT COUNT(*) FROM kb_review_queue WHERE status = 'pending') as pending_review,
-          (SELECT COUNT(*) FROM kb_review_queue WHERE status = 'completed' AND DATE(completed_at) = ?) as reviews_completed
-        FROM kb_scraping_logs
-        WHERE DATE(scraped_at) = ?
-        GROUP BY DATE(scraped_at)
-      `)
-      .bind(date, date)
-      .run();
+    await this.db.run(`
+      INSERT INTO kb_update_analytics_daily (
+        date, total_checks, successful_checks, failed_checks,
+        total_changes, pending_review, reviews_completed
+      )
+      SELECT 
+        DATE(scraped_at) as date,
+        COUNT(*) as total_checks,
+        SUM(CASE WHEN status = 'success' THEN 1 ELSE 0 END) as successful_checks,
+        SUM(CASE WHEN status = 'error' THEN 1 ELSE 0 END) as failed_checks,
+        SUM(CASE WHEN changes_detected = ${this.db.sql.bool(true)} THEN 1 ELSE 0 END) as total_changes,
+        (SELECT COUNT(*) FROM kb_review_queue WHERE status = 'pending') as pending_review,
+        (SELECT COUNT(*) FROM kb_review_queue WHERE status = 'completed' AND DATE(completed_at) = $1) as reviews_completed
+      FROM kb_scraping_logs
+      WHERE DATE(scraped_at) = $1
+      GROUP BY DATE(scraped_at)
+      ON CONFLICT (date) DO UPDATE SET
+        total_checks = excluded.total_checks,
+        successful_checks = excluded.successful_checks,
+        failed_checks = excluded.failed_checks,
+        total_changes = excluded.total_changes,
+        pending_review = excluded.pending_review,
+        reviews_completed = excluded.reviews_completed
+    `, [date]);
   }
 }
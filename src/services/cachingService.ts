@@ -10,7 +10,8 @@
  * - Cache hit/miss analytics
  */
 
-import type { D1Database, KVNamespace } from '@cloudflare/workers-types';
+import type { Database } from '../db';
+import type { KeyValueStore } from '../utils/keyValueStore';
 
 // ============================================================================
 // Types
@@ -45,8 +46,8 @@ export class CachingService {
   private readonly DEFAULT_TTL = 3600; // 1 hour
   
   constructor(
-    private db: D1Database,
-    private kv: KVNamespace
+    private db: Database,
+    private kv: KeyValueStore
   ) {}
 
   /**
@@ -122,12 +123,12 @@ export class CachingService {
   async get<T>(key: string): Promise<CachedData<T> | null> {
     try {
       // Get from KV
-      const kvData = await this.kv.get(key, { type: 'json' });
+      const kvData = await this.kv.get(key);
       if (!kvData) {
         return null;
       }
       
-      const cached = kvData as CachedData<T>;
+      const cached = JSON.parse(kvData) as CachedData<T>;
       
       // Check if expired
       const now = new Date();
@@ -174,32 +175,29 @@ export class CachingService {
       const contentHash = await this.generateHash(dataStr);
       const preview = dataStr.substring(0, 200);
       
-      await this.db
-        .prepare(`
-          INSERT INTO cache_entries (
-            cache_key, cache_type, content_hash, content_size, content_preview,
-            ttl_seconds, expires_at, source_type, source_identifier, is_valid
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 1)
-          ON CONFLICT (cache_key) DO UPDATE SET
-            content_hash = excluded.content_hash,
-            content_size = excluded.content_size,
-            content_preview = excluded.content_preview,
-            expires_at = excluded.expires_at,
-            is_stale = 0,
-            updated_at = CURRENT_TIMESTAMP
-        `)
-        .bind(
-          key,
-          options.type || 'default',
-          contentHash,
-          dataStr.length,
-          preview,
-          ttl,
-          expiresAt.toISOString(),
-          options.sourceType || null,
-          options.sourceIdentifier || null
-        )
-        .run();
+      await this.db.run(`
+        INSERT INTO cache_entries (
+          cache_key, cache_type, content_hash, content_size, content_preview,
+          ttl_seconds, expires_at, source_type, source_identifier, is_valid
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ${this.db.sql.bool(true)})
+        ON CONFLICT (cache_key) DO UPDATE SET
+          content_hash = excluded.content_hash,
+          content_size = excluded.content_size,
+          content_preview = excluded.content_preview,
+          expires_at = excluded.expires_at,
+          is_stale = ${this.db.sql.bool(false)},
+          updated_at = CURRENT_TIMESTAMP
+      `, [
+        key,
+        options.type || 'default',
+        contentHash,
+        dataStr.length,
+        preview,
+        ttl,
+        expiresAt,
+        options.sourceType || null,
+        options.sourceIdentifier || null,
+      ]);
     } catch (error) {
       console.error('Cache set error:', error);
       throw error;
@@ -212,10 +210,7 @@ export class CachingService {
   async delete(key: string): Promise<void> {
     try {
       await this.kv.delete(key);
-      await this.db
-        .prepare('DELETE FROM cache_entries WHERE cache_key = ?')
-        .bind(key)
-        .run();
+      await this.db.run('DELETE FROM cache_entries WHERE cache_key = ?', [key]);
       
       await this.logAccess(key, 'invalidate', 0);
     } catch (error) {
@@ -227,10 +222,10 @@ export class CachingService {
    * Mark cache entry as stale (for refresh)
    */
   async markStale(key: string): Promise<void> {
-    await this.db
-      .prepare('UPDATE cache_entries SET is_stale = 1, updated_at = CURRENT_TIMESTAMP WHERE cache_key = ?')
-      .bind(key)
-      .run();
+    await this.db.run(
+      `UPDATE cache_entries SET is_stale = ${this.db.sql.bool(true)}, updated_at = CURRENT_TIMESTAMP WHERE cache_key = ?`,
+      [key]
+    );
   }
 
   /**
@@ -238,13 +233,13 @@ export class CachingService {
    */
   async invalidateByPattern(pattern: string): Promise<number> {
     // Get all matching keys from D1
-    const result = await this.db
-      .prepare('SELECT cache_key FROM cache_entries WHERE cache_key LIKE ?')
-      .bind(pattern.replace('*', '%'))
-      .all<{ cache_key: string }>();
+    const result = await this.db.query<{ cache_key: string }>(
+      'SELECT cache_key FROM cache_entries WHERE cache_key LIKE ?',
+      [pattern.replace('*', '%')]
+    );
     
     let count = 0;
-    for (const row of result.results || []) {
+    for (const row of result.rows) {
       await this.delete(row.cache_key);
       count++;
     }
@@ -256,31 +251,27 @@ export class CachingService {
    * Get cache statistics
    */
   async getStats(): Promise<any> {
-    const stats = await this.db
-      .prepare(`
-        SELECT 
-          COUNT(*) as total_entries,
-          SUM(hit_count) as total_hits,
-          SUM(content_size) as total_size_bytes,
-          AVG(hit_count) as avg_hits_per_entry,
-          (SELECT COUNT(*) FROM cache_entries WHERE is_stale = 1) as stale_entries,
-          (SELECT COUNT(*) FROM cache_entries WHERE datetime('now') > expires_at) as expired_entries
-        FROM cache_entries
-        WHERE is_valid = 1
-      `)
-      .first<any>();
+    const stats = await this.db.get<any>(`
+      SELECT 
+        COUNT(*) as total_entries,
+        SUM(hit_count) as total_hits,
+        SUM(content_size) as total_size_bytes,
+        AVG(hit_count) as avg_hits_per_entry,
+        (SELECT COUNT(*) FROM cache_entries WHERE is_stale = ${this.db.sql.bool(true)}) as stale_entries,
+        (SELECT COUNT(*) FROM cache_entries WHERE ${this.db.sql.now()} > expires_at) as expired_entries
+      FROM cache_entries
+      WHERE is_valid = ${this.db.sql.bool(true)}
+    `);
     
     // Get hit rate from last hour
-    const hitRate = await this.db
-      .prepare(`
-        SELECT 
-          SUM(CASE WHEN access_type = 'hit' THEN 1 ELSE 0 END) as hits,
-          SUM(CASE WHEN access_type = 'miss' THEN 1 ELSE 0 END) as misses,
-          COUNT(*) as total
-        FROM cache_access_logs
-        WHERE created_at > datetime('now', '-1 hour')
-      `)
-      .first<any>();
+    const hitRate = await this.db.get<any>(`
+      SELECT 
+        SUM(CASE WHEN access_type = 'hit' THEN 1 ELSE 0 END) as hits,
+        SUM(CASE WHEN access_type = 'miss' THEN 1 ELSE 0 END) as misses,
+        COUNT(*) as total
+      FROM cache_access_logs
+      WHERE created_at > ${this.db.sql.ago(1, 'hours')}
+    `);
     
     return {
       ...stats,
@@ -306,16 +297,13 @@ export class CachingService {
     
     if (state.state === 'open') {
       // Check if timeout has passed
-      const result = await this.db
-        .prepare(`
-          SELECT 
-            CAST((JULIANDAY('now') - JULIANDAY(opened_at)) * 86400 AS INTEGER) as seconds_open,
-            timeout_seconds
-          FROM circuit_breaker_states
-          WHERE service_name = ?
-        `)
-        .bind(serviceName)
-        .first<{ seconds_open: number; timeout_seconds: number }>();
+      const result = await this.db.get<{ seconds_open: number; timeout_seconds: number }>(`
+        SELECT 
+          CAST(${this.db.sql.secondsBetween('opened_at', this.db.sql.now())} AS INTEGER) as seconds_open,
+          timeout_seconds
+        FROM circuit_breaker_states
+        WHERE service_name = ?
+      `, [serviceName]);
       
       if (result && result.seconds_open >= result.timeout_seconds) {
         // Move to half-open
@@ -334,20 +322,17 @@ export class CachingService {
    * Get circuit breaker state
    */
   async getCircuitBreakerState(serviceName: string): Promise<CircuitBreakerState> {
-    const result = await this.db
-      .prepare('SELECT * FROM circuit_breaker_states WHERE service_name = ?')
-      .bind(serviceName)
-      .first<any>();
+    const result = await this.db.get<any>(
+      'SELECT * FROM circuit_breaker_states WHERE service_name = ?',
+      [serviceName]
+    );
     
     if (!result) {
       // Create new circuit breaker
-      await this.db
-        .prepare(`
-          INSERT INTO circuit_breaker_states (service_name, state)
-          VALUES (?, 'closed')
-        `)
-        .bind(serviceName)
-        .run();
+      await this.db.run(`
+        INSERT INTO circuit_breaker_states (service_name, state)
+        VALUES (?, 'closed')
+      `, [serviceName]);
       
       return { state: 'closed', failure_count: 0, success_count: 0 };
     }
@@ -366,20 +351,17 @@ export class CachingService {
   async recordCircuitBreakerSuccess(serviceName: string): Promise<void> {
     const state = await this.getCircuitBreakerState(serviceName);
     
-    await this.db
-      .prepare(`
-        UPDATE circuit_breaker_states
-        SET 
-          success_count = success_count + 1,
-          failure_count = 0,
-          last_success_at = CURRENT_TIMESTAMP,
-          total_requests = total_requests + 1,
-          total_successes = total_successes + 1,
-          updated_at = CURRENT_TIMESTAMP
-        WHERE service_name = ?
-      `)
-      .bind(serviceName)
-      .run();
+    await this.db.run(`
+      UPDATE circuit_breaker_states
+      SET 
+        success_count = success_count + 1,
+        failure_count = 0,
+        last_success_at = CURRENT_TIMESTAMP,
+        total_requests = total_requests + 1,
+        total_successes = total_successes + 1,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE service_name = ?
+    `, [serviceName]);
     
     // Log event
     await this.logCircuitBreakerEvent(serviceName, 'success', state.state, state.state);
@@ -387,10 +369,10 @@ export class CachingService {
     // Check if should close circuit (from half_open)
     if (state.state === 'half_open') {
       const updated = await this.getCircuitBreakerState(serviceName);
-      const threshold = await this.db
-        .prepare('SELECT success_threshold FROM circuit_breaker_states WHERE service_name = ?')
-        .bind(serviceName)
-        .first<{ success_threshold: number }>();
+      const threshold = await this.db.get<{ success_threshold: number }>(
+        'SELECT success_threshold FROM circuit_breaker_states WHERE service_name = ?',
+        [serviceName]
+      );
       
       if (threshold && updated.success_count >= threshold.success_threshold) {
         await this.setCircuitBreakerState(serviceName, 'closed');
@@ -404,30 +386,27 @@ export class CachingService {
   async recordCircuitBreakerFailure(serviceName: string, errorMessage: string): Promise<void> {
     const state = await this.getCircuitBreakerState(serviceName);
     
-    await this.db
-      .prepare(`
-        UPDATE circuit_breaker_states
-        SET 
-          failure_count = failure_count + 1,
-          success_count = 0,
-          last_failure_at = CURRENT_TIMESTAMP,
-          total_requests = total_requests + 1,
-          total_failures = total_failures + 1,
-          updated_at = CURRENT_TIMESTAMP
-        WHERE service_name = ?
-      `)
-      .bind(serviceName)
-      .run();
+    await this.db.run(`
+      UPDATE circuit_breaker_states
+      SET 
+        failure_count = failure_count + 1,
+        success_count = 0,
+        last_failure_at = CURRENT_TIMESTAMP,
+        total_requests = total_requests + 1,
+        total_failures = total_failures + 1,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE service_name = ?
+    `, [serviceName]);
     
     // Log event
     await this.logCircuitBreakerEvent(serviceName, 'failure', state.state, state.state, errorMessage);
     
     // Check if should open circuit
     const updated = await this.getCircuitBreakerState(serviceName);
-    const threshold = await this.db
-      .prepare('SELECT failure_threshold FROM circuit_breaker_states WHERE service_name = ?')
-      .bind(serviceName)
-      .first<{ failure_threshold: number }>();
+    const threshold = await this.db.get<{ failure_threshold: number }>(
+      'SELECT failure_threshold FROM circuit_breaker_states WHERE service_name = ?',
+      [serviceName]
+    );
     
     if (threshold && updated.failure_count >= threshold.failure_threshold) {
       if (state.state !== 'open') {
@@ -461,10 +440,10 @@ export class CachingService {
     
     updateValues.push(serviceName);
     
-    await this.db
-      .prepare(`UPDATE circuit_breaker_states SET ${updateFields.join(', ')} WHERE service_name = ?`)
-      .bind(...updateValues)
-      .run();
+    await this.db.run(
+      `UPDATE circuit_breaker_states SET ${updateFields.join(', ')} WHERE service_name = ?`,
+      updateValues
+    );
     
     // Log state change
     await this.logCircuitBreakerEvent(
@@ -481,11 +460,9 @@ export class CachingService {
    * Get all circuit breaker states
    */
   async getAllCircuitBreakers(): Promise<any[]> {
-    const result = await this.db
-      .prepare('SELECT * FROM v_circuit_breaker_dashboard ORDER BY service_name')
-      .all();
+    const result = await this.db.query('SELECT * FROM v_circuit_breaker_dashboard ORDER BY service_name');
     
-    return result.results || [];
+    return result.rows;
   }
 
   // ============================================================================
@@ -499,25 +476,19 @@ export class CachingService {
     isFallback: boolean = false
   ): Promise<void> {
     try {
-      await this.db
-        .prepare(`
-          INSERT INTO cache_access_logs (
-            cache_key, access_type, response_time_ms, is_fallback
-          ) VALUES (?, ?, ?, ?)
-        `)
-        .bind(key, accessType, responseTimeMs, isFallback ? 1 : 0)
-        .run();
+      await this.db.run(`
+        INSERT INTO cache_access_logs (
+          cache_key, access_type, response_time_ms, is_fallback
+        ) VALUES (?, ?, ?, ?)
+      `, [key, accessType, responseTimeMs, isFallback]);
       
       // Update hit count in cache_entries
       if (accessType === 'hit') {
-        await this.db
-          .prepare(`
-            UPDATE cache_entries 
-            SET hit_count = hit_count + 1, last_hit_at = CURRENT_TIMESTAMP
-            WHERE cache_key = ?
-          `)
-          .bind(key)
-          .run();
+        await this.db.run(`
+          UPDATE cache_entries 
+          SET hit_count = hit_count + 1, last_hit_at = CURRENT_TIMESTAMP
+          WHERE cache_key = ?
+        `, [key]);
       }
     } catch (error) {
       console.error('Failed to log cache access:', error);
@@ -532,14 +503,11 @@ export class CachingService {
     errorMessage?: string
   ): Promise<void> {
     try {
-      await this.db
-        .prepare(`
-          INSERT INTO circuit_breaker_events (
-            service_name, event_type, previous_state, new_state, error_message
-          ) VALUES (?, ?, ?, ?, ?)
-        `)
-        .bind(serviceName, eventType, previousState, newState, errorMessage || null)
-        .run();
+      await this.db.run(`
+        INSERT INTO circuit_breaker_events (
+          service_name, event_type, previous_state, new_state, error_message
+        ) VALUES (?, ?, ?, ?, ?)
+      `, [serviceName, eventType, previousState, newState, errorMessage || null]);
     } catch (error) {
       console.error('Failed to log circuit breaker event:', error);
     }
@@ -557,12 +525,12 @@ export class CachingService {
    * Cleanup expired cache entries
    */
   async cleanupExpired(): Promise<number> {
-    const result = await this.db
-      .prepare('SELECT cache_key FROM cache_entries WHERE datetime(\'now\') > expires_at')
-      .all<{ cache_key: string }>();
+    const result = await this.db.query<{ cache_key: string }>(
+      `SELECT cache_key FROM cache_entries WHERE ${this.db.sql.now()} > expires_at`
+    );
     
     let count = 0;
-    for (const row of result.results || []) {
+    for (const row of result.rows) {
       await this.delete(row.cache_key);
       count++;
     }
@@ -574,31 +542,36 @@ export class CachingService {
    * Aggregate daily cache analytics
    */
   async aggregateDailyAnalytics(date: string): Promise<void> {
-    await this.db
-      .prepare(`
-        INSERT OR REPLACE INTO cache_analytics_daily (
-          date, total_requests, cache_hits, cache_misses, hit_rate_percent,
-          avg_hit_response_ms, avg_miss_response_ms, total_cached_items, total_fallbacks
-        )
-        SELECT 
-          DATE(cal.created_at) as date,
-          COUNT(*) as total_requests,
-          SUM(CASE WHEN cal.access_type = 'hit' THEN 1 ELSE 0 END) as cache_hits,
-          SUM(CASE WHEN cal.access_type = 'miss' THEN 1 ELSE 0 END) as cache_misses,
-          ROUND(
-            CAST(SUM(CASE WHEN cal.access_type = 'hit' THEN 1 ELSE 0 END) AS FLOAT) / 
-            COUNT(*) * 100, 
-            2
-          ) as hit_rate_percent,
-          AVG(CASE WHEN cal.access_type = 'hit' THEN cal.response_time_ms END) as avg_hit_response_ms,
-          AVG(CASE WHEN cal.access_type = 'miss' THEN cal.response_time_ms END) as avg_miss_response_ms,
-          (SELECT COUNT(*) FROM cache_entries WHERE DATE(created_at) = DATE(cal.created_at)) as total_cached_items,
-          SUM(CASE WHEN cal.is_fallback = 1 THEN 1 ELSE 0 END) as total_fallbacks
-        FROM cache_access_logs cal
-        WHERE DATE(cal.created_at) = ?
-        GROUP BY DATE(cal.created_at)
-      `)
-      .bind(date)
-      .run();
+    await this.db.run(`
+      INSERT INTO cache_analytics_daily (
+        date, total_requests, cache_hits, cache_misses, hit_rate_percent,
+        avg_hit_response_ms, avg_miss_response_ms, total_cached_items, total_fallbacks
+      )
+      SELECT 
+        DATE(cal.created_at) as date,
+        COUNT(*) as total_requests,
+        SUM(CASE WHEN cal.access_type = 'hit' THEN 1 ELSE 0 END) as cache_hits,
+        SUM(CASE WHEN cal.access_type = 'miss' THEN 1 ELSE 0 END) as cache_misses,
+        ROUND(
+          100.0 * SUM(CASE WHEN cal.access_type = 'hit' THEN 1 ELSE 0 END) / COUNT(*),
+          2
+        ) as hit_rate_percent,
+        AVG(CASE WHEN cal.access_type = 'hit' THEN cal.response_time_ms END) as avg_hit_response_ms,
+        AVG(CASE WHEN cal.access_type = 'miss' THEN cal.response_time_ms END) as avg_miss_response_ms,
+        (SELECT COUNT(*) FROM cache_entries WHERE DATE(created_at) = $1) as total_cached_items,
+        SUM(CASE WHEN cal.is_fallback = ${this.db.sql.bool(true)} THEN 1 ELSE 0 END) as total_fallbacks
+      FROM cache_access_logs cal
+      WHERE DATE(cal.created_at) = $1
+      GROUP BY DATE(cal.created_at)
+      ON CONFLICT (date) DO UPDATE SET
+        total_requests = excluded.total_requests,
+        cache_hits = excluded.cache_hits,
+        cache_misses = excluded.cache_misses,
+        hit_rate_percent = excluded.hit_rate_percent,
+        avg_hit_response_ms = excluded.avg_hit_response_ms,
+        avg_miss_response_ms = excluded.avg_miss_response_ms,
+        total_cached_items = excluded.total_cached_items,
+        total_fallbacks = excluded.total_fallbacks
+    `, [date]);
   }
 }
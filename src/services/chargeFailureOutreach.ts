@@ -0,0 +1,585 @@
+import { getDb, type Database } from '../db';
+import { logger } from '../utils/logger';
+import { generateUUID } from '../utils/idGenerator';
+import type { SupportedLanguage } from './languageService';
+import type { ChargingBackendRegistry, ChargingSession, ChargingStation } from './chargingBackend';
+import type { DeliveryResult, MessageAction, UserRecipient } from './userNotifier';
+
+/**
+ * Charge Failure Outreach
+ *
+ * When a session fails or the charger faults mid-session, the driver usually
+ * finds out when they come back to a flat car. This service:
+ * 1. Resolves who owned the session (webhook payload, CPMS session data,
+ *    RFID card ownership, or user_profiles by e-mail)
+ * 2. Opens a support conversation on their channel (Discord DM today) in
+ *    their stored language
+ * 3. Explains what happened and offers to restart charging or to find a
+ *    nearby available connector (quick-reply buttons, see handleAction)
+ *
+ * Each failed session / faulted connector is contacted at most once
+ * (charge_failure_outreach.outreach_key), so webhook replays are safe, and
+ * an outreach restarts charging at most once: the restart claims the row
+ * ('restarting') before the command is sent.
+ */
+
+export type OutreachTrigger = 'session.failed' | 'chargepoint.faulted';
+export type OwnerSource = 'event' | 'backend_session' | 'rfid' | 'user_profile';
+export type OutreachActionType = 'restart' | 'nearby';
+
+export interface ChargeFailure {
+  trigger: OutreachTrigger;
+  eventId?: string;
+  stationId: string;
+  connectorId?: number;
+  sessionId?: string;
+  userId?: string;
+  idTag?: string;
+  userEmail?: string;
+  reason?: string;
+  occurredAt: Date;
+}
+
+export interface SessionOwner {
+  userId: string;
+  source: OwnerSource;
+  sessionId?: string;
+  connectorId?: number;
+  idTag?: string;
+}
+
+export interface OutreachAttempt {
+  status: 'sent' | 'exists' | 'no_channel' | 'failed';
+  userId: string;
+  source: OwnerSource;
+  outreachId?: string;
+  language?: SupportedLanguage;
+  error?: string;
+}
+
+export interface OutreachSummary {
+  contacted: number;
+  owners: number;
+  attempts: OutreachAttempt[];
+}
+
+export interface NearbyStation {
+  station: ChargingStation;
+  availableConnectors: number;
+  distanceKm?: number;
+}
+
+export interface OutreachActionResult {
+  success: boolean;
+  message: string;
+  error?: string;
+  closed?: boolean; // The outreach is settled; its buttons can be removed
+}
+
+export interface OutreachDeps {
+  db: Database;
+  registry: ChargingBackendRegistry;
+  resolveRecipient(userId: string): Promise<UserRecipient | null>;
+  sendDirectMessage(recipient: UserRecipient, content: string, actions?: MessageAction[]): Promise<DeliveryResult>;
+  onThreadOpened?(threadId: string): void;
+}
+
+interface OutreachRow {
+  outreach_id: string;
+  user_id: string;
+  station_id: string;
+  connector_id: number | null;
+  session_id: string | null;
+  id_tag: string | null;
+  language: SupportedLanguage | null;
+  status: string;
+}
+
+// Custom id prefix for the quick-reply buttons: outreach_<action>_<outreachId>
+export const OUTREACH_ACTION_PREFIX = 'outreach_';
+
+const NEARBY_LIMIT = 3;
+
+type Strings = {
+  sessionFailed: (station: string, reason: string) => string;
+  chargerFaulted: (station: string, reason: string) => string;
+  offerRestart: string;
+  offerNearby: string;
+  restartLabel: string;
+  nearbyLabel: string;
+  restartOk: (station: string) => string;
+  restartFailed: (error: string) => string;
+  alreadyRestarted: string;
+  nearbyHeader: string;
+  nearbyNone: string;
+  notFound: string;
+};
+
+const STRINGS: Record<SupportedLanguage, Strings> = {
+  he: {
+    sessionFailed: (s, r) => `⚠️ הטעינה שלך בעמדה ${s} הופסקה באופן בלתי צפוי (${r}). ייתכן שהרכב לא נטען במלואו.`,
+    chargerFaulted: (s, r) => `⚠️ העמדה ${s} שבה אתה טוען דיווחה על תקלה (${r}) והטעינה הופסקה. ייתכן שהרכב לא נטען במלואו.`,
+    offerRestart: 'אני יכול לנסות להפעיל מחדש את הטעינה, או למצוא לך עמדה פנויה בקרבת מקום.',
+    offerNearby: 'אני יכול למצוא לך עמדה פנויה בקרבת מקום.',
+    restartLabel: '🔄 הפעל טעינה מחדש',
+    nearbyLabel: '📍 עמדה פנויה קרובה',
+    restartOk: (s) => `✅ הטעינה הופעלה מחדש בעמדה ${s}.`,
+    restartFailed: (e) => `❌ לא הצלחתי להפעיל מחדש את הטעינה (${e}). אפשר לנסות עמדה קרובה או לכתוב לי כאן.`,
+    alreadyRestarted: 'כבר ביקשת להפעיל מחדש את הטעינה מההודעה הזו.',
+    nearbyHeader: '📍 עמדות פנויות קרובות:',
+    nearbyNone: 'לא מצאתי כרגע עמדות פנויות בקרבת מקום. כתוב לי כאן ואעזור.',
+    notFound: 'הפנייה הזו כבר אינה פעילה.',
+  },
+  en: {
+    sessionFailed: (s, r) => `⚠️ Your charging session at station ${s} stopped unexpectedly (${r}). Your car may not be fully charged.`,
+    chargerFaulted: (s, r) => `⚠️ Station ${s}, where you are charging, reported a fault (${r}) and charging stopped. Your car may not be fully charged.`,
+    offerRestart: 'I can try to restart charging, or find you an available connector nearby.',
+    offerNearby: 'I can find you an available connector nearby.',
+    restartLabel: '🔄 Restart charging',
+    nearbyLabel: '📍 Nearby connector',
+    restartOk: (s) => `✅ Charging restarted at station ${s}.`,
+    restartFailed: (e) => `❌ I couldn't restart charging (${e}). You can try a nearby connector or reply here.`,
+    alreadyRestarted: 'A restart was already requested from this message.',
+    nearbyHeader: '📍 Available connectors nearby:',
+    nearbyNone: "I couldn't find an available connector nearby right now. Reply here and I'll help.",
+    notFound: 'This request is no longer active.',
+  },
+  ru: {
+    sessionFailed: (s, r) => `⚠️ Ваша зарядка на станции ${s} неожиданно прервалась (${r}). Автомобиль может быть заряжен не полностью.`,
+    chargerFaulted: (s, r) => `⚠️ Станция ${s}, на которой вы заряжаетесь, сообщила о неисправности (${r}), и зарядка остановилась. Автомобиль может быть заряжен не полностью.`,
+    offerRestart: 'Я могу попробовать перезапустить зарядку или найти свободный коннектор поблизости.',
+    offerNearby: 'Я могу найти свободный коннектор поблизости.',
+    restartLabel: '🔄 Перезапустить зарядку',
+    nearbyLabel: '📍 Станция рядом',
+    restartOk: (s) => `✅ Зарядка на станции ${s} перезапущена.`,
+    restartFailed: (e) => `❌ Не удалось перезапустить зарядку (${e}). Попробуйте станцию рядом или напишите мне здесь.`,
+    alreadyRestarted: 'Перезапуск зарядки по этому сообщению уже запрошен.',
+    nearbyHeader: '📍 Свободные коннекторы поблизости:',
+    nearbyNone: 'Сейчас поблизости нет свободных коннекторов. Напишите мне здесь, и я помогу.',
+    notFound: 'Этот запрос больше не активен.',
+  },
+  ar: {
+    sessionFailed: (s, r) => `⚠️ توقفت جلسة الشحن الخاصة بك في المحطة ${s} بشكل غير متوقع (${r}). قد لا تكون سيارتك مشحونة بالكامل.`,
+    chargerFaulted: (s, r) => `⚠️ أبلغت المحطة ${s} التي تشحن منها عن عطل (${r}) وتوقف الشحن. قد لا تكون سيارتك مشحونة بالكامل.`,
+    offerRestart: 'يمكنني محاولة إعادة تشغيل الشحن، أو إيجاد موصل متاح قريب منك.',
+    offerNearby: 'يمكنني إيجاد موصل متاح قريب منك.',
+    restartLabel: '🔄 إعادة تشغيل الشحن',
+    nearbyLabel: '📍 موصل قريب',
+    restartOk: (s) => `✅ تمت إعادة تشغيل الشحن في المحطة ${s}.`,
+    restartFailed: (e) => `❌ لم أتمكن من إعادة تشغيل الشحن (${e}). يمكنك تجربة موصل قريب أو الرد هنا.`,
+    alreadyRestarted: 'تم طلب إعادة تشغيل الشحن من هذه الرسالة بالفعل.',
+    nearbyHeader: '📍 موصلات متاحة قريبة:',
+    nearbyNone: 'لم أجد موصلاً متاحاً قريباً حالياً. رد هنا وسأساعدك.',
+    notFound: 'هذا الطلب لم يعد نشطاً.',
+  },
+};
+
+/**
+ * Great-circle distance in kilometres
+ */
+function distanceKm(a: { latitude: number; longitude: number }, b: { latitude: number; longitude: number }): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLon = toRad(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+}
+
+export class ChargeFailureOutreachService {
+  constructor(private readonly deps: OutreachDeps) {}
+
+  /**
+   * Contact every driver affected by a failure
+   */
+  async reachOut(failure: ChargeFailure): Promise<OutreachSummary> {
+    const owners = await this.resolveOwners(failure);
+    const attempts: OutreachAttempt[] = [];
+
+    if (owners.length === 0) {
+      logger.info({ stationId: failure.stationId, sessionId: failure.sessionId }, 'No known owner for failed session');
+    }
+
+    for (const owner of owners) {
+      attempts.push(await this.contactOwner(failure, owner));
+    }
+
+    return {
+      contacted: attempts.filter((a) => a.status === 'sent').length,
+      owners: owners.length,
+      attempts,
+    };
+  }
+
+  /**
+   * Work out who was charging. Tries, in order: the user on the event,
+   * CPMS session data, RFID card ownership, and user_profiles by e-mail.
+   */
+  async resolveOwners(failure: ChargeFailure): Promise<SessionOwner[]> {
+    if (failure.userId) {
+      return [{
+        userId: failure.userId,
+        source: 'event',
+        sessionId: failure.sessionId,
+        connectorId: failure.connectorId,
+        idTag: failure.idTag,
+      }];
+    }
+
+    const owners: SessionOwner[] = [];
+    const sessions = await this.findAffectedSessions(failure);
+
+    for (const session of sessions) {
+      if (session.userId) {
+        owners.push({
+          userId: session.userId,
+          source: 'backend_session',
+          sessionId: session.sessionId,
+          connectorId: session.connectorId,
+          idTag: session.idTag,
+        });
+      } else if (session.idTag) {
+        const owner = await this.resolveCardOwner(session.idTag);
+        if (owner) {
+          owners.push({ ...owner, sessionId: session.sessionId, connectorId: session.connectorId });
+        }
+      }
+    }
+
+    if (owners.length === 0 && failure.idTag) {
+      const owner = await this.resolveCardOwner(failure.idTag);
+      if (owner) {
+        owners.push({ ...owner, sessionId: failure.sessionId, connectorId: failure.connectorId });
+      }
+    }
+
+    if (owners.length === 0 && failure.userEmail) {
+      const userId = await this.findProfileByEmail(failure.userEmail);
+      if (userId) {
+        owners.push({
+          userId,
+          source: 'user_profile',
+          sessionId: failure.sessionId,
+          connectorId: failure.connectorId,
+          idTag: failure.idTag,
+        });
+      }
+    }
+
+    // A user with two sessions on a faulted charger gets one message
+    const seen = new Set<string>();
+    return owners.filter((owner) => !seen.has(owner.userId) && !!seen.add(owner.userId));
+  }
+
+  /**
+   * Handle a quick-reply button from an outreach message
+   */
+  async handleAction(
+    outreachId: string,
+    action: OutreachActionType,
+    discordUserId: string
+  ): Promise<OutreachActionResult> {
+    const row = await this.deps.db.get<OutreachRow>(
+      `SELECT * FROM charge_failure_outreach WHERE outreach_id = ?`,
+      [outreachId]
+    );
+
+    const recipient = row ? await this.deps.resolveRecipient(row.user_id) : null;
+    const strings = STRINGS[recipient?.language || row?.language || 'en'];
+
+    // Only the driver we wrote to can act on the message
+    if (!row || !recipient || recipient.discordUserId !== discordUserId) {
+      return { success: false, message: strings.notFound, error: 'Outreach not found for this user' };
+    }
+
+    if (action === 'restart') {
+      // Claim the outreach first so a double click or a second device can't start two sessions
+      const claimed = await this.deps.db.run(`
+        UPDATE charge_failure_outreach SET status = 'restarting', updated_at = CURRENT_TIMESTAMP
+        WHERE outreach_id = ? AND status IN ('sent', 'redirected')
+      `, [outreachId]);
+      if (claimed.changes === 0) {
+        const current = await this.deps.db.get<{ status: string }>(
+          `SELECT status FROM charge_failure_outreach WHERE outreach_id = ?`,
+          [outreachId]
+        );
+        const closed = current?.status === 'restarting' || current?.status === 'restarted';
+        return { success: false, message: closed ? strings.alreadyRestarted : strings.notFound, error: `Outreach is ${current?.status}`, closed };
+      }
+
+      const backend = this.deps.registry.resolve(row.station_id);
+      const result = await backend.startCharging(row.station_id, {
+        connectorId: row.connector_id ?? undefined,
+        userId: row.user_id,
+        idTag: row.id_tag ?? undefined,
+      }).catch((error) => ({ success: false, data: undefined, error: error instanceof Error ? error.message : 'Unknown error' }));
+
+      // A failed restart hands the outreach back so the driver can try again
+      await this.updateStatus(outreachId, result.success ? 'restarted' : row.status, {
+        action,
+        success: result.success,
+        sessionId: result.data?.sessionId,
+        error: result.error,
+      });
+
+      logger.info({ outreachId, stationId: row.station_id, success: result.success }, 'Outreach restart requested');
+
+      return result.success
+        ? { success: true, message: strings.restartOk(row.station_id), closed: true }
+        : { success: false, message: strings.restartFailed(result.error || 'unknown error'), error: result.error };
+    }
+
+    const nearby = await this.findNearbyStations(row.station_id);
+    await this.updateStatus(outreachId, 'redirected', {
+      action,
+      stations: nearby.map((n) => n.station.stationId),
+    }, ['sent', 'redirected']);
+
+    if (nearby.length === 0) {
+      return { success: true, message: strings.nearbyNone };
+    }
+
+    const lines = nearby.map((n) => {
+      const distance = n.distanceKm !== undefined ? ` – ${n.distanceKm.toFixed(1)} km` : '';
+      const address = n.station.location?.address ? ` (${n.station.location.address})` : '';
+      return `• ${n.station.stationName}${address}${distance} – ${n.availableConnectors}/${n.station.connectors.length || 1}`;
+    });
+
+    return { success: true, message: [strings.nearbyHeader, ...lines].join('\n') };
+  }
+
+  /**
+   * Available stations across all backends, closest first when locations are known
+   */
+  async findNearbyStations(stationId: string, limit: number = NEARBY_LIMIT): Promise<NearbyStation[]> {
+    const origin = await this.deps.registry.findStation(stationId);
+    const originLocation = origin.data?.station.location;
+
+    const stations: ChargingStation[] = [];
+    for (const backend of this.deps.registry.list()) {
+      try {
+        const result = await backend.listStations();
+        if (result.success && result.data) {
+          stations.push(...result.data);
+        }
+      } catch (error) {
+        logger.warn({ error, backendId: backend.id }, 'Failed to list stations for nearby search');
+      }
+    }
+
+    const candidates: NearbyStation[] = stations
+      .filter((station) => station.stationId !== stationId && station.stationId !== origin.data?.station.stationId)
+      .map((station) => ({
+        station,
+        availableConnectors: station.connectors.filter((c) => c.status?.toLowerCase() === 'available').length,
+        distanceKm: originLocation && station.location ? distanceKm(originLocation, station.location) : undefined,
+      }))
+      .filter((n) => n.availableConnectors > 0 || (n.station.connectors.length === 0 && n.station.status === 'Available'));
+
+    candidates.sort((a, b) => (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity));
+    return candidates.slice(0, limit);
+  }
+
+  private async findAffectedSessions(failure: ChargeFailure): Promise<ChargingSession[]> {
+    try {
+      const backend = this.deps.registry.resolve(failure.stationId);
+      const active = await backend.getActiveSessions(failure.stationId);
+      const sessions = active.success && active.data ? active.data : [];
+
+      if (failure.sessionId) {
+        const match = sessions.find((s) => s.sessionId === failure.sessionId);
+        if (match) return [match];
+
+        // A failed session is usually no longer active
+        const history = await backend.getSessionHistory({ stationId: failure.stationId, limit: 20 });
+        const past = history.success && history.data
+          ? history.data.find((s) => s.sessionId === failure.sessionId)
+          : undefined;
+        return past ? [past] : [];
+      }
+
+      return failure.connectorId !== undefined
+        ? sessions.filter((s) => s.connectorId === undefined || s.connectorId === failure.connectorId)
+        : sessions;
+    } catch (error) {
+      logger.warn({ error, stationId: failure.stationId }, 'Failed to look up sessions for outreach');
+      return [];
+    }
+  }
+
+  private async resolveCardOwner(idTag: string): Promise<Omit<SessionOwner, 'sessionId' | 'connectorId'> | null> {
+    const card = await this.deps.db.get<{ user_id?: number; user_email?: string }>(
+      `SELECT user_id, user_email FROM rfid_cards WHERE card_id = ?`,
+      [idTag]
+    );
+
+    if (card?.user_id) {
+      return { userId: String(card.user_id), source: 'rfid', idTag };
+    }
+
+    if (card?.user_email) {
+      const userId = await this.findProfileByEmail(card.user_email);
+      if (userId) {
+        return { userId, source: 'user_profile', idTag };
+      }
+    }
+
+    return null;
+  }
+
+  private async findProfileByEmail(email: string): Promise<string | null> {
+    const profile = await this.deps.db.get<{ user_id: string }>(
+      `SELECT user_id FROM user_profiles WHERE LOWER(email) = LOWER(?)`,
+      [email]
+    );
+    return profile?.user_id || null;
+  }
+
+  private async contactOwner(failure: ChargeFailure, owner: SessionOwner): Promise<OutreachAttempt> {
+    const sessionId = owner.sessionId || failure.sessionId;
+    const connectorId = owner.connectorId ?? failure.connectorId;
+    const outreachKey = sessionId
+      ? `session:${sessionId}`
+      : `${failure.trigger}:${failure.stationId}:${connectorId ?? '-'}:${failure.eventId || failure.occurredAt.toISOString()}:${owner.userId}`;
+
+    const existing = await this.deps.db.get<{ outreach_id: string; status: string }>(
+      `SELECT outreach_id, status FROM charge_failure_outreach WHERE outreach_key = ?`,
+      [outreachKey]
+    );
+
+    // Failed deliveries are retried (e.g. on webhook replay); anything else was already handled
+    if (existing && existing.status !== 'failed') {
+      return { status: 'exists', userId: owner.userId, source: owner.source, outreachId: existing.outreach_id };
+    }
+
+    const recipient = await this.deps.resolveRecipient(owner.userId);
+    if (!recipient) {
+      return { status: 'no_channel', userId: owner.userId, source: owner.source };
+    }
+
+    const outreachId = existing?.outreach_id || generateUUID();
+    const strings = STRINGS[recipient.language];
+    const station = await this.describeStation(failure.stationId);
+    const reason = failure.reason || 'unknown';
+    const canRestart = failure.trigger === 'session.failed';
+
+    const content = [
+      canRestart ? strings.sessionFailed(station, reason) : strings.chargerFaulted(station, reason),
+      canRestart ? strings.offerRestart : strings.offerNearby,
+    ].join('\n\n');
+
+    const actions: MessageAction[] = [
+      ...(canRestart
+        ? [{ id: `${OUTREACH_ACTION_PREFIX}restart_${outreachId}`, label: strings.restartLabel, style: 'primary' as const }]
+        : []),
+      { id: `${OUTREACH_ACTION_PREFIX}nearby_${outreachId}`, label: strings.nearbyLabel, style: 'secondary' },
+    ];
+
+    if (!existing) {
+      await this.deps.db.run(`
+        INSERT INTO charge_failure_outreach (
+          outreach_id, outreach_key, trigger_event, user_id, owner_source, station_id,
+          connector_id, session_id, id_tag, reason, language
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        outreachId,
+        outreachKey,
+        failure.trigger,
+        owner.userId,
+        owner.source,
+        failure.stationId,
+        connectorId ?? null,
+        sessionId || null,
+        owner.idTag || failure.idTag || null,
+        reason,
+        recipient.language,
+      ]);
+    }
+
+    const delivery = await this.deps.sendDirectMessage(recipient, content, actions);
+
+    if (!delivery.delivered) {
+      await this.deps.db.run(`
+        UPDATE charge_failure_outreach SET status = 'failed', error = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE outreach_id = ?
+      `, [delivery.error || 'unknown error', outreachId]);
+
+      return { status: 'failed', userId: owner.userId, source: owner.source, outreachId, error: delivery.error };
+    }
+
+    // Same thread id the Discord trigger derives, so the driver's reply continues this conversation
+    const threadId = delivery.channelId ? `discord-${delivery.channelId}-${recipient.discordUserId}` : null;
+    if (threadId) {
+      this.deps.onThreadOpened?.(threadId);
+    }
+
+    await this.deps.db.run(`
+      UPDATE charge_failure_outreach
+      SET status = 'sent', channel = ?, thread_id = ?, error = NULL, updated_at = CURRENT_TIMESTAMP
+      WHERE outreach_id = ?
+    `, [delivery.channel || null, threadId, outreachId]);
+
+    logger.info(
+      { outreachId, userId: owner.userId, source: owner.source, trigger: failure.trigger, language: recipient.language },
+      'Charge failure outreach sent'
+    );
+
+    return { status: 'sent', userId: owner.userId, source: owner.source, outreachId, language: recipient.language };
+  }
+
+  private async describeStation(stationId: string): Promise<string> {
+    try {
+      const result = await this.deps.registry.findStation(stationId);
+      return result.data?.station.stationName || stationId;
+    } catch {
+      return stationId;
+    }
+  }
+
+  /**
+   * Record the outcome of an action, optionally only while the outreach is
+   * still in one of `fromStatuses` (a lookup must not undo a restart)
+   */
+  private async updateStatus(
+    outreachId: string,
+    status: string,
+    resolution: Record<string, any>,
+    fromStatuses?: string[]
+  ): Promise<void> {
+    const guard = fromStatuses ? ` AND status IN (${fromStatuses.map(() => '?').join(', ')})` : '';
+    await this.deps.db.run(`
+      UPDATE charge_failure_outreach SET status = ?, resolution = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE outreach_id = ?${guard}
+    `, [status, JSON.stringify(resolution), outreachId, ...(fromStatuses || [])]);
+  }
+}
+
+/**
+ * Default dependencies wired to the real services
+ * (loaded lazily so tests can run the service without Discord)
+ */
+export async function createDefaultOutreachDeps(): Promise<OutreachDeps> {
+  const [{ userNotifier }, { getChargingBackendRegistry }, { updateSessionActivity }] = await Promise.all([
+    import('./userNotifier'),
+    import('./chargingBackend'),
+    import('../mastra/utils/ampecoUtils'),
+  ]);
+
+  return {
+    db: getDb(),
+    registry: getChargingBackendRegistry(),
+    resolveRecipient: (userId) => userNotifier.resolveRecipient(userId),
+    sendDirectMessage: (recipient, content, actions) => userNotifier.sendDirectMessage(recipient, content, actions),
+    onThreadOpened: (threadId) => updateSessionActivity(threadId),
+  };
+}
+
+// Singleton instance
+let outreachInstance: ChargeFailureOutreachService | null = null;
+
+export async function getChargeFailureOutreach(): Promise<ChargeFailureOutreachService> {
+  if (!outreachInstance) {
+    outreachInstance = new ChargeFailureOutreachService(await createDefaultOutreachDeps());
+  }
+  return outreachInstance;
+}
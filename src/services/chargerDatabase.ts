@@ -86,9 +86,9 @@ export class ChargerDatabaseService {
           common_issues as "commonIssues", notes
          FROM charger_models
          WHERE 
-          manufacturer ILIKE $1 OR 
-          model_name ILIKE $1 OR
-          model_family ILIKE $1
+          manufacturer ${db.sql.ilike()} $1 OR 
+          model_name ${db.sql.ilike()} $1 OR
+          model_family ${db.sql.ilike()} $1
          ORDER BY manufacturer, model_name
          LIMIT 10`,
         [`%${query}%`]
@@ -118,7 +118,7 @@ export class ChargerDatabaseService {
           dimensions, weight_kg as "weightKg", warranty_years as "warrantyYears",
           common_issues as "commonIssues", notes
          FROM charger_models
-         WHERE manufacturer ILIKE $1 AND model_name ILIKE $2
+         WHERE manufacturer ${db.sql.ilike()} $1 AND model_name ${db.sql.ilike()} $2
          LIMIT 1`,
         [manufacturer, modelName]
       );
@@ -146,13 +146,13 @@ export class ChargerDatabaseService {
           parts_needed as "partsNeeded", occurrence_frequency as "occurrenceFrequency",
           related_error_codes as "relatedErrorCodes", notes
         FROM charger_error_codes
-        WHERE error_code ILIKE $1
+        WHERE error_code ${db.sql.ilike()} $1
       `;
 
       const params: any[] = [errorCode];
 
       if (manufacturer) {
-        query += ` AND (manufacturer ILIKE $2 OR manufacturer = 'Generic')`;
+        query += ` AND (manufacturer ${db.sql.ilike()} $2 OR manufacturer = 'Generic')`;
         params.push(manufacturer);
       }
 
@@ -190,7 +190,7 @@ export class ChargerDatabaseService {
           parts_needed as "partsNeeded", occurrence_frequency as "occurrenceFrequency",
           related_error_codes as "relatedErrorCodes", notes
          FROM charger_error_codes
-         WHERE manufacturer ILIKE $1
+         WHERE manufacturer ${db.sql.ilike()} $1
          ORDER BY severity DESC, occurrence_frequency DESC`,
         [manufacturer]
       );
@@ -222,16 +222,16 @@ export class ChargerDatabaseService {
           helpful_count as "helpfulCount"
         FROM troubleshooting_guides
         WHERE (
-          issue_title ILIKE $1 OR
-          issue_description ILIKE $1 OR
-          issue_category ILIKE $1
+          issue_title ${db.sql.ilike()} $1 OR
+          issue_description ${db.sql.ilike()} $1 OR
+          issue_category ${db.sql.ilike()} $1
         )
       `;
 
       const params: any[] = [`%${query}%`];
 
       if (manufacturer) {
-        sqlQuery += ` AND manufacturer ILIKE $2`;
+        sqlQuery += ` AND manufacturer ${db.sql.ilike()} $2`;
         params.push(manufacturer);
       }
 
@@ -269,13 +269,13 @@ export class ChargerDatabaseService {
           adapter_needed as "adapterNeeded",
           notes, tested, last_tested_date as "lastTestedDate"
         FROM charger_vehicle_compatibility
-        WHERE vehicle_make ILIKE $1 AND vehicle_model ILIKE $2
+        WHERE vehicle_make ${db.sql.ilike()} $1 AND vehicle_model ${db.sql.ilike()} $2
       `;
 
       const params: any[] = [vehicleMake, vehicleModel];
 
       if (chargerManufacturer) {
-        query += ` AND charger_manufacturer ILIKE $3`;
+        query += ` AND charger_manufacturer ${db.sql.ilike()} $3`;
         params.push(chargerManufacturer);
       }
 
@@ -0,0 +1,319 @@
+import { logger } from '../utils/logger';
+import type { StationStatus } from './stationMonitoring';
+import { AmpecoChargingBackend } from './ampecoChargingBackend';
+import { OcppChargingBackend } from './ocppChargingBackend';
+import { MockChargingBackend } from './mockChargingBackend';
+
+/**
+ * Charging Backend Abstraction
+ *
+ * Vendor-neutral interface over a CPMS (charge point management system).
+ * Ampeco is one implementation; chargers on our own OCPP central system and
+ * other regional CPMSs plug in the same way. Agent tools and station
+ * monitoring talk to the registry, which routes each station to the backend
+ * that owns it:
+ * 1. Explicit station routes (learned from lookups or set by config)
+ * 2. Pattern routes, e.g. CHARGING_BACKEND_ROUTES="ocpp:SIM-*,CP-*;regionb:RB-*"
+ * 3. The default backend (CHARGING_BACKEND_DEFAULT, falls back to ampeco)
+ *
+ * Registered backends: ampeco, ocpp, mock (only when configured) and one per
+ * extra Ampeco tenant in CHARGING_BACKEND_AMPECO_TENANTS ("regionb" reads
+ * AMPECO_REGIONB_TENANT_URL and AMPECO_REGIONB_API_KEY).
+ */
+
+export interface BackendResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+export interface ChargingStation extends StationStatus {
+  backendId: string;
+}
+
+export interface ChargingSession {
+  sessionId: string;
+  stationId: string;
+  connectorId?: number;
+  userId?: string;
+  idTag?: string;
+  status: 'active' | 'completed' | 'failed';
+  startedAt: Date;
+  endedAt?: Date;
+  energyKwh?: number;
+  powerKw?: number;
+  cost?: number;
+  currency?: string;
+}
+
+export interface ChargingTariff {
+  tariffId?: string;
+  name: string;
+  currency: string;
+  pricePerKwh?: number;
+  parkingFeePerHour?: number;
+  sessionStartFee?: number;
+  minimumCharge?: number;
+  freeParkingMinutes?: number;
+  description?: string;
+}
+
+export interface RemoteCommandResult {
+  status?: string;
+  sessionId?: string;
+  [key: string]: any;
+}
+
+export interface ChargingWebhookEvent {
+  eventId?: string;
+  eventType: string; // session.started, session.stopped, chargepoint.faulted, ...
+  stationId?: string;
+  connectorId?: number;
+  sessionId?: string;
+  userId?: string;
+  occurredAt: Date;
+  data: Record<string, any>;
+}
+
+export interface StartChargingOptions {
+  connectorId?: number;
+  userId?: string;
+  idTag?: string;
+}
+
+export interface StopChargingOptions {
+  connectorId?: number;
+  sessionId?: string;
+  reason?: string;
+}
+
+export interface SessionHistoryOptions {
+  userId?: string;
+  stationId?: string;
+  limit?: number;
+}
+
+export interface ChargingBackend {
+  readonly id: string;
+  readonly displayName: string;
+
+  /** Whether station monitoring should poll listStations (false for push-based backends) */
+  readonly supportsPolling: boolean;
+
+  // Stations
+  listStations(): Promise<BackendResult<ChargingStation[]>>;
+  findStation(identifier: string): Promise<BackendResult<ChargingStation>>;
+
+  // Sessions
+  getActiveSessions(stationId?: string): Promise<BackendResult<ChargingSession[]>>;
+  getSessionHistory(options?: SessionHistoryOptions): Promise<BackendResult<ChargingSession[]>>;
+
+  // Tariffs
+  getTariff(stationId: string): Promise<BackendResult<ChargingTariff>>;
+
+  // Remote commands
+  startCharging(stationId: string, options?: StartChargingOptions): Promise<BackendResult<RemoteCommandResult>>;
+  stopCharging(stationId: string, options?: StopChargingOptions): Promise<BackendResult<RemoteCommandResult>>;
+  resetStation(stationId: string, resetType: 'soft' | 'hard'): Promise<BackendResult<RemoteCommandResult>>;
+  unlockConnector(stationId: string, connectorId?: number): Promise<BackendResult<RemoteCommandResult>>;
+
+  // Webhooks
+  parseWebhookEvent(payload: any): ChargingWebhookEvent | null;
+}
+
+interface PatternRoute {
+  source: string;
+  pattern: RegExp;
+  backendId: string;
+}
+
+export class ChargingBackendRegistry {
+  private backends: Map<string, ChargingBackend> = new Map();
+  private stationRoutes: Map<string, string> = new Map();
+  private patternRoutes: PatternRoute[] = [];
+  private defaultBackendId: string | null = null;
+
+  /**
+   * Register a backend. The first registered backend becomes the default.
+   */
+  register(backend: ChargingBackend, options: { isDefault?: boolean } = {}): void {
+    this.backends.set(backend.id, backend);
+
+    if (options.isDefault || !this.defaultBackendId) {
+      this.defaultBackendId = backend.id;
+    }
+
+    logger.info({ backendId: backend.id, isDefault: this.defaultBackendId === backend.id }, 'Charging backend registered');
+  }
+
+  /**
+   * Get a backend by id
+   */
+  get(backendId: string): ChargingBackend {
+    const backend = this.backends.get(backendId);
+    if (!backend) {
+      throw new Error(`Unknown charging backend: ${backendId}`);
+    }
+    return backend;
+  }
+
+  /**
+   * List all registered backends
+   */
+  list(): ChargingBackend[] {
+    return [...this.backends.values()];
+  }
+
+  setDefault(backendId: string): void {
+    this.get(backendId);
+    this.defaultBackendId = backendId;
+  }
+
+  /**
+   * Pin a station to a backend
+   */
+  routeStation(stationId: string, backendId: string): void {
+    this.get(backendId);
+    this.stationRoutes.set(stationId, backendId);
+  }
+
+  /**
+   * Route all stations matching a glob pattern (`*` wildcard) to a backend
+   */
+  addRoutePattern(source: string, backendId: string): void {
+    this.get(backendId);
+
+    const escaped = source.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+    this.patternRoutes.push({ source, pattern: new RegExp(`^${escaped}$`, 'i'), backendId });
+  }
+
+  /**
+   * Load pattern routes from a config string: "backendId:PATTERN,PATTERN;backendId2:PATTERN"
+   */
+  loadRoutes(config: string): void {
+    for (const entry of config.split(';')) {
+      const [backendId, patterns] = entry.split(':').map((part) => part?.trim());
+      if (!backendId || !patterns) continue;
+
+      if (!this.backends.has(backendId)) {
+        logger.warn({ backendId }, 'Ignoring route for unregistered charging backend');
+        continue;
+      }
+
+      for (const pattern of patterns.split(',')) {
+        if (pattern.trim()) {
+          this.addRoutePattern(pattern.trim(), backendId);
+        }
+      }
+    }
+  }
+
+  /**
+   * Resolve the backend for a station without calling any backend
+   */
+  resolve(stationId: string): ChargingBackend {
+    const routed = this.stationRoutes.get(stationId);
+    if (routed) {
+      return this.get(routed);
+    }
+
+    const patternRoute = this.patternRoutes.find((route) => route.pattern.test(stationId));
+    if (patternRoute) {
+      return this.get(patternRoute.backendId);
+    }
+
+    if (!this.defaultBackendId) {
+      throw new Error('No charging backend registered');
+    }
+    return this.get(this.defaultBackendId);
+  }
+
+  /**
+   * Find a station by any identifier the user might give (socket number,
+   * station id, OCPP identity). Tries the routed backend first, then the
+   * others, and remembers which backend owns the station.
+   */
+  async findStation(identifier: string): Promise<BackendResult<{ backend: ChargingBackend; station: ChargingStation }>> {
+    const primary = this.resolve(identifier);
+    const candidates = [primary, ...this.list().filter((b) => b.id !== primary.id)];
+    let lastError: string | undefined;
+
+    for (const backend of candidates) {
+      const result = await backend.findStation(identifier);
+
+      if (result.success && result.data) {
+        this.stationRoutes.set(identifier, backend.id);
+        this.stationRoutes.set(result.data.stationId, backend.id);
+        return { success: true, data: { backend, station: result.data } };
+      }
+
+      lastError = result.error;
+    }
+
+    return {
+      success: false,
+      error: lastError || `Station ${identifier} not found`,
+    };
+  }
+
+  /**
+   * Clear all backends and routes
+   */
+  reset(): void {
+    this.backends.clear();
+    this.stationRoutes.clear();
+    this.patternRoutes = [];
+    this.defaultBackendId = null;
+  }
+}
+
+/**
+ * Backends for the extra Ampeco tenants in CHARGING_BACKEND_AMPECO_TENANTS
+ */
+function ampecoTenantBackends(): AmpecoChargingBackend[] {
+  const backends: AmpecoChargingBackend[] = [];
+
+  for (const name of (process.env.CHARGING_BACKEND_AMPECO_TENANTS || '').split(',')) {
+    const id = name.trim().toLowerCase();
+    if (!id) continue;
+
+    const prefix = `AMPECO_${id.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+    const url = process.env[`${prefix}_TENANT_URL`];
+    const apiKey = process.env[`${prefix}_API_KEY`];
+    if (!url || !apiKey) {
+      logger.warn({ backendId: id }, `Ampeco tenant not registered, ${prefix}_TENANT_URL and ${prefix}_API_KEY are required`);
+      continue;
+    }
+
+    backends.push(new AmpecoChargingBackend({ id, displayName: `Ampeco (${id})`, tenant: { url, apiKey } }));
+  }
+
+  return backends;
+}
+
+// Singleton instance
+let registryInstance: ChargingBackendRegistry | null = null;
+
+export function getChargingBackendRegistry(): ChargingBackendRegistry {
+  if (!registryInstance) {
+    registryInstance = new ChargingBackendRegistry();
+    registryInstance.register(new AmpecoChargingBackend());
+    registryInstance.register(new OcppChargingBackend());
+    for (const backend of ampecoTenantBackends()) {
+      registryInstance.register(backend);
+    }
+
+    // The mock backend is only registered when explicitly configured
+    const defaultBackendId = process.env.CHARGING_BACKEND_DEFAULT;
+    const routes = process.env.CHARGING_BACKEND_ROUTES || '';
+    if (defaultBackendId === 'mock' || /(^|;)\s*mock\s*:/.test(routes)) {
+      registryInstance.register(new MockChargingBackend());
+    }
+
+    if (defaultBackendId) {
+      registryInstance.setDefault(defaultBackendId);
+    }
+    registryInstance.loadRoutes(routes);
+  }
+  return registryInstance;
+}
@@ -0,0 +1,763 @@
+import { getDb, parseTimestamp, type Database } from '../db';
+import { generateUUID } from '../utils/idGenerator';
+import { logger } from '../utils/logger';
+import { isWebUserId } from '../utils/webChatIdentity';
+import { getExperimentService } from './experimentService';
+import { getLanguageService, type SupportedLanguage } from './languageService';
+import { qualityScoringService } from './qualityScoringService';
+
+/**
+ * CSAT Surveys
+ *
+ * Once a conversation is over the driver is asked how satisfied they were,
+ * 1-5, with an optional comment, in their language and on their channel:
+ * rating buttons in the Discord channel (the comment through a modal), a
+ * survey card in the web chat widget (GET/POST /api/chat/:threadId/survey).
+ *
+ * A conversation is over when its escalation ticket is resolved, when the
+ * driver ends the chat, or when nobody wrote in it for CSAT_IDLE_MINUTES
+ * (the sweeper; conversations with an open ticket or a human agent on them
+ * wait for the resolution instead).
+ *
+ * - One survey per conversation; unanswered ones expire after CSAT_RESPONSE_HOURS
+ * - Fatigue: at most CSAT_MAX_SURVEYS_PER_USER surveys per driver within
+ *   CSAT_FATIGUE_DAYS; conversations over the limit are recorded as skipped.
+ *   Web chat drivers are counted by their web chat identity (the client
+ *   cookie); a conversation without one isn't counted or limited
+ * - A rating sets the ticket's customer_satisfaction_score, the
+ *   conversation's quality score (satisfaction component), the csat
+ *   experiment metric and csat_analytics_daily
+ *
+ * CSAT_SURVEYS_ENABLED=false turns surveys off.
+ */
+
+export type SurveyChannel = 'discord' | 'web';
+export type SurveyTrigger = 'resolved' | 'idle';
+export type SurveyStatus = 'sent' | 'answered' | 'expired' | 'skipped' | 'failed';
+
+export interface CsatSurvey {
+  surveyId: string;
+  threadId: string;
+  ticketId: string | null;
+  userId: string | null;
+  channel: SurveyChannel;
+  channelId: string | null;
+  messageId: string | null;
+  language: SupportedLanguage;
+  trigger: SurveyTrigger;
+  status: SurveyStatus;
+  rating: number | null;
+  comment: string | null;
+  error: string | null;
+  expiresAt: Date | null;
+  answeredAt: Date | null;
+  createdAt: Date;
+}
+
+export interface SurveyRequest {
+  threadId: string;
+  trigger: SurveyTrigger;
+  ticketId?: string | null;
+  userId?: string | null;
+  channel?: string | null;
+  channelId?: string | null;
+  language?: SupportedLanguage | null;
+}
+
+/**
+ * Who answered: the Discord user, or the web chat conversation and the
+ * caller's web chat identity
+ */
+export interface SurveyResponder {
+  channel: SurveyChannel;
+  userId?: string | null;
+  threadId?: string | null;
+}
+
+export type SurveyErrorCode =
+  | 'disabled'
+  | 'duplicate'
+  | 'fatigue'
+  | 'no_channel'
+  | 'delivery_failed'
+  | 'not_found'
+  | 'forbidden'
+  | 'invalid'
+  | 'already_answered'
+  | 'expired';
+
+export interface SurveyResult {
+  success: boolean;
+  data?: CsatSurvey;
+  error?: string;
+  code?: SurveyErrorCode;
+}
+
+/**
+ * What the channel shows: the question, the 1-5 scale and the comment box
+ */
+export interface SurveyCard {
+  surveyId: string;
+  language: SupportedLanguage;
+  question: string;
+  ratings: Array<{ rating: number; label: string }>;
+  commentPrompt: string;
+  submitLabel: string;
+  thanks: string;
+  expiresAt: string | null;
+}
+
+export interface CsatConfig {
+  enabled: boolean;
+  idleMinutes: number;
+  responseHours: number;
+  maxSurveysPerUser: number;
+  fatigueDays: number;
+}
+
+/**
+ * Posts a survey to a Discord channel with its rating buttons; returns the message id
+ */
+export type DiscordSurveySender = (channelId: string, card: SurveyCard) => Promise<string | undefined>;
+
+interface SurveyRow {
+  survey_id: string;
+  thread_id: string;
+  ticket_id: string | null;
+  user_id: string | null;
+  channel: SurveyChannel;
+  channel_id: string | null;
+  message_id: string | null;
+  language: SupportedLanguage;
+  trigger_type: SurveyTrigger;
+  status: SurveyStatus;
+  rating: number | null;
+  comment: string | null;
+  error: string | null;
+  expires_at: string | Date | null;
+  answered_at: string | Date | null;
+  created_at: string | Date;
+}
+
+// Custom id prefix for the Discord components: csat_rate_<1-5>_<surveyId>,
+// csat_comment_<surveyId> (opens the comment modal), csat_modal_<surveyId>
+export const CSAT_ACTION_PREFIX = 'csat_';
+
+export const MAX_COMMENT_LENGTH = 1000;
+
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+// Idle conversations older than this are left alone (e.g. after downtime)
+const IDLE_LOOKBACK_HOURS = 24;
+const MAX_SURVEYS_PER_SWEEP = 50;
+
+type Strings = {
+  question: string;
+  ratings: [string, string, string, string, string];
+  commentPrompt: string;
+  commentButton: string;
+  submit: string;
+  thanks: string;
+  thanksComment: string;
+};
+
+const STRINGS: Record<SupportedLanguage, Strings> = {
+  he: {
+    question: '⭐ איך היה השירות שקיבלת? דרג/י מ-1 עד 5.',
+    ratings: ['גרוע', 'לא טוב', 'בסדר', 'טוב', 'מצוין'],
+    commentPrompt: 'רוצה לספר לנו עוד? (לא חובה)',
+    commentButton: '💬 הוספת הערה',
+    submit: 'שליחה',
+    thanks: 'תודה על הדירוג! 🙏',
+    thanksComment: 'תודה, קיבלנו את ההערה שלך.',
+  },
+  en: {
+    question: '⭐ How was the support you received? Rate it from 1 to 5.',
+    ratings: ['Very poor', 'Poor', 'Okay', 'Good', 'Excellent'],
+    commentPrompt: 'Anything else to tell us? (optional)',
+    commentButton: '💬 Add a comment',
+    submit: 'Send',
+    thanks: 'Thanks for your rating! 🙏',
+    thanksComment: 'Thanks, we got your comment.',
+  },
+  ru: {
+    question: '⭐ Как вы оцениваете полученную поддержку? Поставьте оценку от 1 до 5.',
+    ratings: ['Очень плохо', 'Плохо', 'Нормально', 'Хорошо', 'Отлично'],
+    commentPrompt: 'Хотите что-нибудь добавить? (необязательно)',
+    commentButton: '💬 Добавить комментарий',
+    submit: 'Отправить',
+    thanks: 'Спасибо за оценку! 🙏',
+    thanksComment: 'Спасибо, мы получили ваш комментарий.',
+  },
+  ar: {
+    question: '⭐ كيف كانت خدمة الدعم التي حصلت عليها؟ قيّمها من 1 إلى 5.',
+    ratings: ['سيئة جدًا', 'سيئة', 'مقبولة', 'جيدة', 'ممتازة'],
+    commentPrompt: 'هل تود إخبارنا بشيء آخر؟ (اختياري)',
+    commentButton: '💬 إضافة تعليق',
+    submit: 'إرسال',
+    thanks: 'شكرًا على تقييمك! 🙏',
+    thanksComment: 'شكرًا، وصلنا تعليقك.',
+  },
+};
+
+export function getSurveyStrings(language: SupportedLanguage = 'en'): Strings {
+  return STRINGS[language] || STRINGS.en;
+}
+
+export function resolveCsatConfig(): CsatConfig {
+  return {
+    enabled: process.env.CSAT_SURVEYS_ENABLED !== 'false',
+    idleMinutes: Number(process.env.CSAT_IDLE_MINUTES) || 30,
+    responseHours: Number(process.env.CSAT_RESPONSE_HOURS) || 48,
+    maxSurveysPerUser: Number(process.env.CSAT_MAX_SURVEYS_PER_USER) || 2,
+    fatigueDays: Number(process.env.CSAT_FATIGUE_DAYS) || 30,
+  };
+}
+
+export function buildSurveyCard(survey: CsatSurvey): SurveyCard {
+  const strings = getSurveyStrings(survey.language);
+  return {
+    surveyId: survey.surveyId,
+    language: survey.language,
+    question: strings.question,
+    ratings: strings.ratings.map((label, index) => ({ rating: index + 1, label })),
+    commentPrompt: strings.commentPrompt,
+    submitLabel: strings.submit,
+    thanks: strings.thanks,
+    expiresAt: survey.expiresAt?.toISOString() ?? null,
+  };
+}
+
+function toSurvey(row: SurveyRow): CsatSurvey {
+  return {
+    surveyId: row.survey_id,
+    threadId: row.thread_id,
+    ticketId: row.ticket_id,
+    userId: row.user_id,
+    channel: row.channel,
+    channelId: row.channel_id,
+    messageId: row.message_id,
+    language: row.language,
+    trigger: row.trigger_type,
+    status: row.status,
+    rating: row.rating === null ? null : Number(row.rating),
+    comment: row.comment,
+    error: row.error,
+    expiresAt: row.expires_at ? parseTimestamp(row.expires_at) : null,
+    answeredAt: row.answered_at ? parseTimestamp(row.answered_at) : null,
+    createdAt: parseTimestamp(row.created_at),
+  };
+}
+
+function isSurveyChannel(value: unknown): value is SurveyChannel {
+  return value === 'discord' || value === 'web';
+}
+
+async function sendDiscordSurvey(channelId: string, card: SurveyCard): Promise<string | undefined> {
+  // Loaded on demand so the web chat doesn't pull in the Discord client
+  const { ActionRowBuilder, ButtonBuilder, ButtonStyle } = await import('discord.js');
+  const { discordClient } = await import('../triggers/discordTriggers');
+  if (!discordClient.isReady()) {
+    throw new Error('Discord client is not ready');
+  }
+
+  const channel = await discordClient.channels.fetch(channelId);
+  if (!channel?.isSendable()) {
+    throw new Error(`Discord channel ${channelId} cannot receive messages`);
+  }
+
+  const buttons = card.ratings.map(({ rating, label }) =>
+    new ButtonBuilder()
+      .setCustomId(`${CSAT_ACTION_PREFIX}rate_${rating}_${card.surveyId}`)
+      .setLabel(`${rating}⭐ ${label}`)
+      .setStyle(rating >= 4 ? ButtonStyle.Success : ButtonStyle.Secondary)
+  );
+  const message = await channel.send({
+    content: card.question,
+    components: [new ActionRowBuilder<InstanceType<typeof ButtonBuilder>>().addComponents(buttons)],
+  });
+  return message.id;
+}
+
+export class CsatSurveyService {
+  private sweepInterval: NodeJS.Timeout | null = null;
+
+  constructor(
+    private db: Database = getDb(),
+    private config: CsatConfig = resolveCsatConfig(),
+    private sendDiscord: DiscordSurveySender = sendDiscordSurvey
+  ) {}
+
+  /**
+   * Survey a conversation that is over. Never throws: a survey that can't
+   * be sent is logged and recorded as failed.
+   */
+  async requestSurvey(request: SurveyRequest): Promise<SurveyResult> {
+    if (!this.config.enabled) {
+      return { success: false, error: 'CSAT surveys are disabled', code: 'disabled' };
+    }
+
+    try {
+      const existing = await this.getSurveyForThread(request.threadId);
+      if (existing) {
+        return { success: false, data: existing, error: 'This conversation already has a survey', code: 'duplicate' };
+      }
+
+      // Fill in what the caller didn't know from the conversation's transcript
+      const conversation = await this.db.get<{ channel: string | null; channel_id: string | null; user_id: string | null }>(`
+        SELECT channel, channel_id, user_id FROM conversation_transcript
+        WHERE thread_id = ? AND role = 'user'
+        ORDER BY id DESC
+        LIMIT 1
+      `, [request.threadId]);
+
+      const channel = request.channel ?? conversation?.channel;
+      const channelId = request.channelId ?? conversation?.channel_id ?? null;
+      const knownUserId = request.userId ?? conversation?.user_id ?? null;
+      // A web user id that isn't a web chat identity changes per message, so it can't be counted
+      const userId = channel === 'web' && !isWebUserId(knownUserId) ? null : knownUserId;
+      if (!isSurveyChannel(channel) || (channel === 'discord' && !channelId)) {
+        return { success: false, error: `No channel to reach the driver of ${request.threadId} on`, code: 'no_channel' };
+      }
+      const language = request.language ?? await this.detectLanguage(request.threadId);
+
+      const survey = {
+        surveyId: generateUUID(),
+        threadId: request.threadId,
+        ticketId: request.ticketId ?? null,
+        userId,
+        channel,
+        channelId,
+        language,
+        trigger: request.trigger,
+      };
+
+      if (userId && await this.surveysSentTo(userId) >= this.config.maxSurveysPerUser) {
+        await this.insertSurvey(survey, 'skipped', 'fatigue');
+        await this.countDaily(channel, 'surveys_skipped');
+        logger.info({ threadId: request.threadId, userId }, 'CSAT survey skipped, driver was surveyed recently');
+        return { success: false, error: 'The driver was surveyed recently', code: 'fatigue' };
+      }
+
+      if (!await this.insertSurvey(survey, 'sent')) {
+        // Another trigger got to this conversation first
+        const raced = await this.getSurveyForThread(request.threadId);
+        return { success: false, data: raced ?? undefined, error: 'This conversation already has a survey', code: 'duplicate' };
+      }
+
+      let created = (await this.getSurvey(survey.surveyId))!;
+      if (channel === 'discord') {
+        try {
+          const messageId = await this.sendDiscord(channelId!, buildSurveyCard(created));
+          await this.db.run('UPDATE csat_surveys SET message_id = ? WHERE survey_id = ?', [messageId ?? null, survey.surveyId]);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          await this.db.run(`UPDATE csat_surveys SET status = 'failed', error = ? WHERE survey_id = ?`, [message, survey.surveyId]);
+          logger.warn({ error, threadId: request.threadId, channelId }, 'Could not post CSAT survey to Discord');
+          return { success: false, error: message, code: 'delivery_failed' };
+        }
+        created = (await this.getSurvey(survey.surveyId))!;
+      }
+      // Web chat drivers get the card when the widget asks for it (getPendingSurvey)
+
+      await this.countDaily(channel, 'surveys_sent');
+      logger.info({ surveyId: survey.surveyId, threadId: request.threadId, channel, trigger: request.trigger }, 'CSAT survey sent');
+      return { success: true, data: created };
+    } catch (error) {
+      logger.error({ error, threadId: request.threadId }, 'Failed to send CSAT survey');
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Survey the conversation of a resolved escalation ticket, unless the
+   * satisfaction score is already known
+   */
+  async onTicketResolved(ticketId: string): Promise<SurveyResult> {
+    const ticket = await this.db.get<{
+      thread_id: string | null;
+      channel: string | null;
+      discord_user_id: string;
+      language: SupportedLanguage | null;
+      customer_satisfaction_score: number | null;
+    }>(`
+      SELECT thread_id, channel, discord_user_id, language, customer_satisfaction_score
+      FROM escalation_tickets WHERE ticket_id = ?
+    `, [ticketId]);
+
+    if (!ticket?.thread_id) {
+      return { success: false, error: 'Ticket has no conversation to survey', code: 'no_channel' };
+    }
+    if (ticket.customer_satisfaction_score !== null) {
+      return { success: false, error: 'Ticket already has a satisfaction score', code: 'duplicate' };
+    }
+
+    return this.requestSurvey({
+      threadId: ticket.thread_id,
+      trigger: 'resolved',
+      ticketId,
+      userId: ticket.discord_user_id,
+      channel: ticket.channel,
+      language: ticket.language,
+    });
+  }
+
+  /**
+   * Survey the latest conversation of a Discord driver who ended the chat
+   */
+  async onConversationEnded(lookup: { channelId: string; userId: string }): Promise<SurveyResult> {
+    const latest = await this.db.get<{ thread_id: string }>(`
+      SELECT thread_id FROM conversation_transcript
+      WHERE channel = 'discord' AND channel_id = ? AND user_id = ?
+      ORDER BY id DESC
+      LIMIT 1
+    `, [lookup.channelId, lookup.userId]);
+
+    if (!latest) {
+      return { success: false, error: 'No conversation to survey', code: 'not_found' };
+    }
+    if (await this.hasOpenTicket(latest.thread_id)) {
+      // Surveyed when the ticket is resolved
+      return { success: false, error: 'The conversation has an open escalation ticket', code: 'no_channel' };
+    }
+
+    return this.requestSurvey({
+      threadId: latest.thread_id,
+      trigger: 'resolved',
+      channel: 'discord',
+      channelId: lookup.channelId,
+      userId: lookup.userId,
+    });
+  }
+
+  /**
+   * Expire unanswered surveys and survey conversations that went idle.
+   * Returns the number of surveys sent.
+   */
+  async sweep(now: Date = new Date()): Promise<number> {
+    if (!this.config.enabled) return 0;
+
+    try {
+      await this.db.run(`
+        UPDATE csat_surveys SET status = 'expired'
+        WHERE status = 'sent' AND expires_at <= ?
+      `, [now]);
+
+      const idleSince = new Date(now.getTime() - this.config.idleMinutes * 60 * 1000);
+      const lookback = new Date(now.getTime() - IDLE_LOOKBACK_HOURS * 60 * 60 * 1000);
+
+      // Conversations where the driver got an answer and nobody wrote since,
+      // not surveyed yet, with no open ticket or human agent on them
+      const { rows } = await this.db.query<{ thread_id: string }>(`
+        SELECT c.thread_id
+        FROM conversation_transcript c
+        WHERE c.created_at > ?
+          AND NOT EXISTS (SELECT 1 FROM csat_surveys s WHERE s.thread_id = c.thread_id)
+          AND NOT EXISTS (SELECT 1 FROM desk_sessions d WHERE d.thread_id = c.thread_id AND d.status = 'active')
+          AND NOT EXISTS (
+            SELECT 1 FROM escalation_tickets t
+            WHERE t.thread_id = c.thread_id AND t.status IN ('open', 'assigned', 'in_progress')
+          )
+        GROUP BY c.thread_id
+        HAVING MAX(c.created_at) <= ?
+          AND SUM(CASE WHEN c.role = 'user' THEN 1 ELSE 0 END) > 0
+          AND SUM(CASE WHEN c.role IN ('bot', 'agent') THEN 1 ELSE 0 END) > 0
+        ORDER BY MAX(c.created_at)
+        LIMIT ${MAX_SURVEYS_PER_SWEEP}
+      `, [lookback, idleSince]);
+
+      let sent = 0;
+      for (const row of rows) {
+        const result = await this.requestSurvey({ threadId: row.thread_id, trigger: 'idle' });
+        if (result.success) sent++;
+      }
+
+      if (sent > 0) {
+        logger.info({ sent, idle: rows.length }, 'CSAT surveys sent for idle conversations');
+      }
+      return sent;
+    } catch (error) {
+      logger.error({ error }, 'CSAT survey sweep failed');
+      return 0;
+    }
+  }
+
+  /**
+   * The survey waiting for an answer in a web chat conversation
+   */
+  async getPendingSurvey(threadId: string): Promise<CsatSurvey | null> {
+    const survey = await this.getSurveyForThread(threadId);
+    if (!survey || survey.status !== 'sent') return null;
+    if (survey.expiresAt && survey.expiresAt.getTime() <= Date.now()) return null;
+    return survey;
+  }
+
+  /**
+   * Record the driver's rating (and comment, if any)
+   */
+  async submitResponse(
+    surveyId: string,
+    response: { rating: number; comment?: string | null },
+    responder: SurveyResponder
+  ): Promise<SurveyResult> {
+    if (!Number.isInteger(response.rating) || response.rating < 1 || response.rating > 5) {
+      return { success: false, error: 'Rating must be a whole number from 1 to 5', code: 'invalid' };
+    }
+
+    const check = await this.checkResponder(surveyId, responder);
+    if (!check.success || !check.data) return check;
+
+    const survey = check.data;
+    if (survey.status === 'answered') {
+      return { success: false, data: survey, error: 'This survey was already answered', code: 'already_answered' };
+    }
+    if (survey.status !== 'sent' || (survey.expiresAt && survey.expiresAt.getTime() <= Date.now())) {
+      return { success: false, data: survey, error: 'This survey has expired', code: 'expired' };
+    }
+
+    const comment = response.comment?.trim().slice(0, MAX_COMMENT_LENGTH) || null;
+
+    // Claim the survey so a double click or a second tab can't answer it twice
+    const claimed = await this.db.run(`
+      UPDATE csat_surveys
+      SET status = 'answered', rating = ?, comment = ?, answered_at = ${this.db.sql.now()}
+      WHERE survey_id = ? AND status = 'sent'
+    `, [response.rating, comment, surveyId]);
+    if (claimed.changes === 0) {
+      return { success: false, error: 'This survey was already answered', code: 'already_answered' };
+    }
+
+    const answered = (await this.getSurvey(surveyId))!;
+    await this.applyRating(answered);
+
+    logger.info({ surveyId, threadId: survey.threadId, rating: response.rating, hasComment: Boolean(comment) }, 'CSAT survey answered');
+    return { success: true, data: answered };
+  }
+
+  /**
+   * Add the comment to an answered survey (Discord asks for it after the rating)
+   */
+  async addComment(surveyId: string, comment: string, responder: SurveyResponder): Promise<SurveyResult> {
+    const text = comment.trim().slice(0, MAX_COMMENT_LENGTH);
+    if (!text) {
+      return { success: false, error: 'Comment is empty', code: 'invalid' };
+    }
+
+    const check = await this.checkResponder(surveyId, responder);
+    if (!check.success || !check.data) return check;
+
+    const updated = await this.db.run(`
+      UPDATE csat_surveys SET comment = ?
+      WHERE survey_id = ? AND status = 'answered' AND comment IS NULL
+    `, [text, surveyId]);
+    if (updated.changes === 0) {
+      return { success: false, data: check.data, error: 'Rate first, one comment per survey', code: 'invalid' };
+    }
+
+    await this.countDaily(check.data.channel, 'comments');
+    return { success: true, data: (await this.getSurvey(surveyId))! };
+  }
+
+  async getSurvey(surveyId: string): Promise<CsatSurvey | null> {
+    const row = await this.db.get<SurveyRow>('SELECT * FROM csat_surveys WHERE survey_id = ?', [surveyId]);
+    return row ? toSurvey(row) : null;
+  }
+
+  async getSurveyForThread(threadId: string): Promise<CsatSurvey | null> {
+    const row = await this.db.get<SurveyRow>('SELECT * FROM csat_surveys WHERE thread_id = ?', [threadId]);
+    return row ? toSurvey(row) : null;
+  }
+
+  /**
+   * Daily survey metrics per channel, newest first, with the totals
+   */
+  async getAnalytics(days: number = 30): Promise<{
+    daily: Array<Record<string, unknown>>;
+    totals: { sent: number; skipped: number; responses: number; responseRate: number | null; averageRating: number | null; distribution: Record<string, number> };
+  }> {
+    const { rows } = await this.db.query<Record<string, any>>(`
+      SELECT date, channel, surveys_sent, surveys_skipped, responses, rating_sum,
+        rating_1, rating_2, rating_3, rating_4, rating_5, comments
+      FROM csat_analytics_daily
+      WHERE date >= ${this.db.sql.daysAgoDate(days)}
+      ORDER BY date DESC, channel
+    `);
+
+    const sum = (key: string) => rows.reduce((total, row) => total + Number(row[key] ?? 0), 0);
+    const sent = sum('surveys_sent');
+    const responses = sum('responses');
+
+    return {
+      daily: rows.map((row) => ({
+        ...row,
+        average_rating: Number(row.responses) > 0 ? Number(row.rating_sum) / Number(row.responses) : null,
+      })),
+      totals: {
+        sent,
+        skipped: sum('surveys_skipped'),
+        responses,
+        responseRate: sent > 0 ? responses / sent : null,
+        averageRating: responses > 0 ? sum('rating_sum') / responses : null,
+        distribution: Object.fromEntries([1, 2, 3, 4, 5].map((rating) => [String(rating), sum(`rating_${rating}`)])),
+      },
+    };
+  }
+
+  startSweeper(intervalMs: number = Number(process.env.CSAT_SWEEP_INTERVAL_MS) || SWEEP_INTERVAL_MS): void {
+    if (this.sweepInterval || !this.config.enabled) return;
+
+    this.sweepInterval = setInterval(() => {
+      this.sweep().catch((error) => {
+        logger.error({ error }, 'CSAT survey sweep failed');
+      });
+    }, intervalMs);
+    this.sweepInterval.unref();
+  }
+
+  stopSweeper(): void {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = null;
+    }
+  }
+
+  /**
+   * Load a survey and check it belongs to the responder: the Discord user
+   * who was asked, or the web chat conversation it was shown in (and the
+   * driver's web chat identity, when the survey has one)
+   */
+  private async checkResponder(surveyId: string, responder: SurveyResponder): Promise<SurveyResult> {
+    const survey = await this.getSurvey(surveyId);
+    if (!survey) {
+      return { success: false, error: 'Survey not found', code: 'not_found' };
+    }
+
+    const allowed = responder.channel === 'discord'
+      ? !!responder.userId && responder.userId === survey.userId
+      : !!responder.threadId && responder.threadId === survey.threadId
+        && (!survey.userId || responder.userId === survey.userId);
+    if (!allowed) {
+      return { success: false, error: 'This survey was sent to someone else', code: 'forbidden' };
+    }
+    return { success: true, data: survey };
+  }
+
+  /**
+   * Where the rating goes besides the survey: the ticket, quality scoring,
+   * experiments and the daily metrics
+   */
+  private async applyRating(survey: CsatSurvey): Promise<void> {
+    const rating = survey.rating!;
+    try {
+      if (survey.ticketId) {
+        await this.db.run(
+          'UPDATE escalation_tickets SET customer_satisfaction_score = ? WHERE ticket_id = ?',
+          [rating, survey.ticketId]
+        );
+      }
+      await qualityScoringService.applySurveyRating(survey.threadId, rating);
+      await getExperimentService().recordOutcome({ threadId: survey.threadId, userId: survey.userId, metric: 'csat', value: rating });
+
+      await this.countDaily(survey.channel, 'responses', rating);
+      if (survey.comment) {
+        await this.countDaily(survey.channel, 'comments');
+      }
+    } catch (error) {
+      logger.error({ error, surveyId: survey.surveyId }, 'Failed to record CSAT rating');
+    }
+  }
+
+  private async insertSurvey(
+    survey: Pick<CsatSurvey, 'surveyId' | 'threadId' | 'ticketId' | 'userId' | 'channel' | 'channelId' | 'language' | 'trigger'>,
+    status: 'sent' | 'skipped',
+    error?: string
+  ): Promise<boolean> {
+    const result = await this.db.run(`
+      INSERT INTO csat_surveys (
+        survey_id, thread_id, ticket_id, user_id, channel, channel_id, language, trigger_type, status, error, expires_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ${this.db.sql.fromNow(this.config.responseHours, 'hours')})
+      ON CONFLICT (thread_id) DO NOTHING
+    `, [
+      survey.surveyId,
+      survey.threadId,
+      survey.ticketId,
+      survey.userId,
+      survey.channel,
+      survey.channelId,
+      survey.language,
+      survey.trigger,
+      status,
+      error ?? null,
+    ]);
+    return result.changes > 0;
+  }
+
+  /**
+   * Surveys that reached the driver within the fatigue window
+   */
+  private async surveysSentTo(userId: string): Promise<number> {
+    const row = await this.db.get<{ count: number | string }>(`
+      SELECT COUNT(*) AS count FROM csat_surveys
+      WHERE user_id = ? AND status IN ('sent', 'answered', 'expired')
+        AND created_at > ${this.db.sql.ago(this.config.fatigueDays, 'days')}
+    `, [userId]);
+    return Number(row?.count ?? 0);
+  }
+
+  private async hasOpenTicket(threadId: string): Promise<boolean> {
+    const row = await this.db.get(`
+      SELECT 1 FROM escalation_tickets
+      WHERE thread_id = ? AND status IN ('open', 'assigned', 'in_progress')
+      LIMIT 1
+    `, [threadId]);
+    return Boolean(row);
+  }
+
+  private async detectLanguage(threadId: string): Promise<SupportedLanguage> {
+    const { rows } = await this.db.query<{ content: string }>(`
+      SELECT content FROM conversation_transcript
+      WHERE thread_id = ? AND role = 'user'
+      ORDER BY id DESC
+      LIMIT 5
+    `, [threadId]);
+    const text = rows.map((row) => row.content).join('\n');
+    return text.trim() ? getLanguageService().detectLanguage(text).language : 'he';
+  }
+
+  private async countDaily(channel: SurveyChannel, column: 'surveys_sent' | 'surveys_skipped' | 'responses' | 'comments', rating?: number): Promise<void> {
+    try {
+      const today = new Date().toISOString().split('T')[0];
+      const ratingColumns = rating ? `, rating_sum, rating_${rating}` : '';
+      const ratingValues = rating ? ', ?, 1' : '';
+      const ratingUpdates = rating
+        ? `, rating_sum = csat_analytics_daily.rating_sum + excluded.rating_sum, rating_${rating} = csat_analytics_daily.rating_${rating} + 1`
+        : '';
+
+      await this.db.run(`
+        INSERT INTO csat_analytics_daily (date, channel, ${column}${ratingColumns})
+        VALUES (?, ?, 1${ratingValues})
+        ON CONFLICT (date, channel) DO UPDATE SET
+          ${column} = csat_analytics_daily.${column} + 1${ratingUpdates}
+      `, rating ? [today, channel, rating] : [today, channel]);
+    } catch (error) {
+      logger.error({ error, channel, column }, 'Failed to update CSAT analytics');
+    }
+  }
+}
+
+// Singleton instance
+let surveyInstance: CsatSurveyService | null = null;
+
+export function getCsatSurveys(): CsatSurveyService {
+  if (!surveyInstance) {
+    surveyInstance = new CsatSurveyService();
+  }
+  return surveyInstance;
+}
+
+/**
+ * Replace the service (tests)
+ */
+export function setCsatSurveys(service: CsatSurveyService | null): void {
+  surveyInstance = service;
+}
@@ -11,7 +11,7 @@
  * - Version control and change detection
  */
 
-import type { D1Database } from '@cloudflare/workers-types';
+import { parseJsonColumn, type Database } from '../db';
 
 // ============================================================================
 // Types
@@ -112,7 +112,7 @@ export interface APIRequestLog {
 // ============================================================================
 
 export class DynamicAPIService {
-  constructor(private db: D1Database) {}
+  constructor(private db: Database) {}
 
   /**
    * Load and register an API from OpenAPI specification URL
@@ -159,10 +159,10 @@ export class DynamicAPIService {
       const specHash = await this.generateHash(specContent);
       
       // Check if API already exists
-      const existing = await this.db
-        .prepare('SELECT id, spec_hash FROM api_specifications WHERE api_name = ?')
-        .bind(apiName)
-        .first<{ id: number; spec_hash: string }>();
+      const existing = await this.db.get<{ id: number; spec_hash: string }>(
+        'SELECT id, spec_hash FROM api_specifications WHERE api_name = ?',
+        [apiName]
+      );
       
       let apiId: number;
       
@@ -174,56 +174,51 @@ export class DynamicAPIService {
         }
         
         // Update existing API
-        await this.db
-          .prepare(`
-            UPDATE api_specifications 
-            SET spec_content = ?,
-                spec_hash = ?,
-                spec_version = ?,
-                base_url = ?,
-                auth_type = ?,
-                auth_config = ?,
-                updated_at = CURRENT_TIMESTAMP
-            WHERE api_name = ?
-          `)
-          .bind(
-            specContent,
-            specHash,
-            spec.info.version,
-            baseUrl,
-            authType,
-            authConfig ? JSON.stringify(authConfig.credentials) : null,
-            apiName
-          )
-          .run();
+        await this.db.run(`
+          UPDATE api_specifications 
+          SET spec_content = ?,
+              spec_hash = ?,
+              spec_version = ?,
+              base_url = ?,
+              auth_type = ?,
+              auth_config = ?,
+              updated_at = CURRENT_TIMESTAMP
+          WHERE api_name = ?
+        `, [
+          specContent,
+          specHash,
+          spec.info.version,
+          baseUrl,
+          authType,
+          authConfig ? JSON.stringify(authConfig.credentials) : null,
+          apiName,
+        ]);
         
         apiId = existing.id;
       } else {
         // Insert new API
-        const result = await this.db
-          .prepare(`
-            INSERT INTO api_specifications (
-              api_name, display_name, description,
-              openapi_version, spec_url, spec_content, spec_hash, spec_version,
-              base_url, auth_type, auth_config, status, is_auto_generated
-            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'active', 1)
-          `)
-          .bind(
-            apiName,
-            spec.info.title,
-            spec.info.description || '',
-            spec.openapi,
-            specUrl || null,
-            specContent,
-            specHash,
-            spec.info.version,
-            baseUrl,
-            authType,
-            authConfig ? JSON.stringify(authConfig.credentials) : null
-          )
-          .run();
+        const inserted = await this.db.get<{ id: number }>(`
+          INSERT INTO api_specifications (
+            api_name, display_name, description,
+            openapi_version, spec_url, spec_content, spec_hash, spec_version,
+            base_url, auth_type, auth_config, status, is_auto_generated
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'active', ${this.db.sql.bool(true)})
+          RETURNING id
+        `, [
+          apiName,
+          spec.info.title,
+          spec.info.description || '',
+          spec.openapi,
+          specUrl || null,
+          specContent,
+          specHash,
+          spec.info.version,
+          baseUrl,
+          authType,
+          authConfig ? JSON.stringify(authConfig.credentials) : null,
+        ]);
         
-        apiId = result.meta.last_row_id as number;
+        apiId = inserted!.id;
       }
       
       // Parse and register endpoints
@@ -271,33 +266,44 @@ export class DynamicAPIService {
     
     // Batch insert endpoints
     for (const endpoint of endpoints) {
-      await this.db
-        .prepare(`
-          INSERT OR REPLACE INTO api_endpoints (
-            api_id, operation_id, path, method, summary, description,
-            parameters_schema, request_body_schema, response_schema, error_schemas,
-            mastra_tool_name, tool_description, tool_config,
-            is_enabled, requires_auth
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-        `)
-        .bind(
-          endpoint.api_id,
-          endpoint.operation_id,
-          endpoint.path,
-          endpoint.method,
-          endpoint.summary,
-          endpoint.description,
-          endpoint.parameters_schema,
-          endpoint.request_body_schema,
-          endpoint.response_schema,
-          endpoint.error_schemas,
-          endpoint.mastra_tool_name,
-          endpoint.tool_description,
-          endpoint.tool_config,
-          endpoint.is_enabled ? 1 : 0,
-          endpoint.requires_auth ? 1 : 0
-        )
-        .run();
+      await this.db.run(`
+        INSERT INTO api_endpoints (
+          api_id, operation_id, path, method, summary, description,
+          parameters_schema, request_body_schema, response_schema, error_schemas,
+          mastra_tool_name, tool_description, tool_config,
+          is_enabled, requires_auth
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (api_id, operation_id) DO UPDATE SET
+          path = excluded.path,
+          method = excluded.method,
+          summary = excluded.summary,
+          description = excluded.description,
+          parameters_schema = excluded.parameters_schema,
+          request_body_schema = excluded.request_body_schema,
+          response_schema = excluded.response_schema,
+          error_schemas = excluded.error_schemas,
+          mastra_tool_name = excluded.mastra_tool_name,
+          tool_description = excluded.tool_description,
+          tool_config = excluded.tool_config,
+          is_enabled = excluded.is_enabled,
+          requires_auth = excluded.requires_auth
+      `, [
+        endpoint.api_id,
+        endpoint.operation_id,
+        endpoint.path,
+        endpoint.method,
+        endpoint.summary,
+        endpoint.description,
+        endpoint.parameters_schema,
+        endpoint.request_body_schema,
+        endpoint.response_schema,
+        endpoint.error_schemas,
+        endpoint.mastra_tool_name,
+        endpoint.tool_description,
+        endpoint.tool_config,
+        Boolean(endpoint.is_enabled),
+        Boolean(endpoint.requires_auth),
+      ]);
     }
   }
 
@@ -321,10 +327,10 @@ export class DynamicAPIService {
       }
       
       // Get endpoint
-      const endpoint = await this.db
-        .prepare('SELECT * FROM api_endpoints WHERE api_id = ? AND operation_id = ? AND is_enabled = 1')
-        .bind(api.id, operationId)
-        .first<APIEndpoint>();
+      const endpoint = await this.db.get<APIEndpoint>(
+        `SELECT * FROM api_endpoints WHERE api_id = ? AND operation_id = ? AND is_enabled = ${this.db.sql.bool(true)}`,
+        [api.id, operationId]
+      );
       
       if (!endpoint) {
         throw new Error(`Endpoint ${operationId} not found or not enabled`);
@@ -390,10 +396,10 @@ export class DynamicAPIService {
    * Get API specification by name
    */
   async getAPISpecification(apiName: string): Promise<APISpecification> {
-    const result = await this.db
-      .prepare('SELECT * FROM api_specifications WHERE api_name = ?')
-      .bind(apiName)
-      .first<APISpecification>();
+    const result = await this.db.get<APISpecification>(
+      'SELECT * FROM api_specifications WHERE api_name = ?',
+      [apiName]
+    );
     
     if (!result) {
       throw new Error(`API ${apiName} not found`);
@@ -406,11 +412,9 @@ export class DynamicAPIService {
    * Get all active APIs
    */
   async getActiveAPIs(): Promise<APISpecification[]> {
-    const result = await this.db
-      .prepare('SELECT * FROM v_active_apis ORDER BY display_name')
-      .all<APISpecification>();
+    const result = await this.db.query<APISpecification>('SELECT * FROM v_active_apis ORDER BY display_name');
     
-    return result.results || [];
+    return result.rows;
   }
 
   /**
@@ -419,12 +423,12 @@ export class DynamicAPIService {
   async getAPIEndpoints(apiName: string): Promise<APIEndpoint[]> {
     const api = await this.getAPISpecification(apiName);
     
-    const result = await this.db
-      .prepare('SELECT * FROM api_endpoints WHERE api_id = ? ORDER BY path, method')
-      .bind(api.id)
-      .all<APIEndpoint>();
+    const result = await this.db.query<APIEndpoint>(
+      'SELECT * FROM api_endpoints WHERE api_id = ? ORDER BY path, method',
+      [api.id]
+    );
     
-    return result.results || [];
+    return result.rows;
   }
 
   /**
@@ -441,12 +445,9 @@ export class DynamicAPIService {
     
     query += ' ORDER BY total_requests DESC';
     
-    const result = await this.db
-      .prepare(query)
-      .bind(...bindings)
-      .all();
+    const result = await this.db.query(query, bindings);
     
-    return result.results || [];
+    return result.rows;
   }
 
   /**
@@ -467,16 +468,13 @@ export class DynamicAPIService {
       const responseTime = Date.now() - startTime;
       
       // Calculate success rate for last hour
-      const statsResult = await this.db
-        .prepare(`
-          SELECT 
-            COUNT(*) as total,
-            SUM(CASE WHEN status_code >= 200 AND status_code < 300 THEN 1 ELSE 0 END) as success
-          FROM api_request_logs
-          WHERE api_id = ? AND created_at > datetime('now', '-1 hour')
-        `)
-        .bind(api.id)
-        .first<{ total: number; success: number }>();
+      const statsResult = await this.db.get<{ total: number; success: number }>(`
+        SELECT 
+          COUNT(*) as total,
+          SUM(CASE WHEN status_code >= 200 AND status_code < 300 THEN 1 ELSE 0 END) as success
+        FROM api_request_logs
+        WHERE api_id = ? AND created_at > ${this.db.sql.ago(1, 'hours')}
+      `, [api.id]);
       
       const successRate = statsResult && statsResult.total > 0
         ? statsResult.success / statsResult.total
@@ -485,44 +483,38 @@ export class DynamicAPIService {
       const status = response.ok ? 'healthy' : 'degraded';
       
       // Log health check
-      await this.db
-        .prepare(`
-          INSERT INTO api_health_checks (
-            api_id, status, response_time_ms, success_rate_1h, request_count_1h
-          ) VALUES (?, ?, ?, ?, ?)
-        `)
-        .bind(
-          api.id,
-          status,
-          responseTime,
-          successRate,
-          statsResult?.total || 0
-        )
-        .run();
+      await this.db.run(`
+        INSERT INTO api_health_checks (
+          api_id, status, response_time_ms, success_rate_1h, request_count_1h
+        ) VALUES (?, ?, ?, ?, ?)
+      `, [
+        api.id,
+        status,
+        responseTime,
+        successRate,
+        statsResult?.total || 0,
+      ]);
       
       // Update API health status
-      await this.db
-        .prepare('UPDATE api_specifications SET health_status = ?, last_health_check = CURRENT_TIMESTAMP WHERE id = ?')
-        .bind(status, api.id)
-        .run();
+      await this.db.run(
+        'UPDATE api_specifications SET health_status = ?, last_health_check = CURRENT_TIMESTAMP WHERE id = ?',
+        [status, api.id]
+      );
     } catch (error: any) {
       // Log failed health check
       const api = await this.getAPISpecification(apiName);
       
-      await this.db
-        .prepare(`
-          INSERT INTO api_health_checks (
-            api_id, status, error_message
-          ) VALUES (?, 'down', ?)
-        `)
-        .bind(api.id, error.message)
-        .run();
+      await this.db.run(`
+        INSERT INTO api_health_checks (
+          api_id, status, error_message
+        ) VALUES (?, 'down', ?)
+      `, [api.id, error.message]);
       
       // Update API health status
-      await this.db
-        .prepare('UPDATE api_specifications SET health_status = \'down\', last_health_check = CURRENT_TIMESTAMP WHERE id = ?')
-        .bind(api.id)
-        .run();
+      await this.db.run(
+        'UPDATE api_specifications SET health_status = \'down\', last_health_check = CURRENT_TIMESTAMP WHERE id = ?',
+        [api.id]
+      );
     }
   }
 
@@ -641,18 +633,15 @@ export class DynamicAPIService {
     const windows = ['minute', 'hour', 'day'];
     
     for (const windowType of windows) {
-      const result = await this.db
-        .prepare(`
-          SELECT request_count, limit_exceeded
-          FROM api_rate_limits
-          WHERE api_id = ? 
-            AND window_type = ?
-            AND window_end > datetime('now')
-          ORDER BY window_start DESC
-          LIMIT 1
-        `)
-        .bind(apiId, windowType)
-        .first<{ request_count: number; limit_exceeded: number }>();
+      const result = await this.db.get<{ request_count: number; limit_exceeded: number }>(`
+        SELECT request_count, limit_exceeded
+        FROM api_rate_limits
+        WHERE api_id = ? 
+          AND window_type = ?
+          AND window_end > ${this.db.sql.now()}
+        ORDER BY window_start DESC
+        LIMIT 1
+      `, [apiId, windowType]);
       
       if (result?.limit_exceeded) {
         throw new Error(`Rate limit exceeded for ${windowType} window`);
@@ -662,27 +651,22 @@ export class DynamicAPIService {
 
   private async updateRateLimit(apiId: number): Promise<void> {
     const windows = [
-      { type: 'minute', duration: '1 minute' },
-      { type: 'hour', duration: '1 hour' },
-      { type: 'day', duration: '1 day' }
-    ];
+      { type: 'minute', unit: 'minutes' },
+      { type: 'hour', unit: 'hours' },
+      { type: 'day', unit: 'days' }
+    ] as const;
     
     for (const window of windows) {
-      const now = new Date().toISOString();
-      
-      await this.db
-        .prepare(`
-          INSERT INTO api_rate_limits (
-            api_id, window_start, window_end, window_type, request_count
-          ) 
-          VALUES (?, datetime('now'), datetime('now', '+' || ?), ?, 1)
-          ON CONFLICT (api_id, window_type, window_start) 
-          DO UPDATE SET 
-            request_count = request_count + 1,
-            updated_at = CURRENT_TIMESTAMP
-        `)
-        .bind(apiId, window.duration, window.type)
-        .run();
+      await this.db.run(`
+        INSERT INTO api_rate_limits (
+          api_id, window_start, window_end, window_type, request_count
+        ) 
+        VALUES (?, ${this.db.sql.now()}, ${this.db.sql.fromNow(1, window.unit)}, ?, 1)
+        ON CONFLICT (api_id, window_type, window_start) 
+        DO UPDATE SET 
+          request_count = request_count + 1,
+          updated_at = CURRENT_TIMESTAMP
+      `, [apiId, window.type]);
     }
   }
 
@@ -695,26 +679,23 @@ export class DynamicAPIService {
   ): Promise<any | null> {
     try {
       const api = await this.getAPISpecification(apiName);
-      const endpoint = await this.db
-        .prepare('SELECT id FROM api_endpoints WHERE api_id = ? AND operation_id = ?')
-        .bind(api.id, operationId)
-        .first<{ id: number }>();
+      const endpoint = await this.db.get<{ id: number }>(
+        'SELECT id FROM api_endpoints WHERE api_id = ? AND operation_id = ?',
+        [api.id, operationId]
+      );
       
       if (!endpoint) return null;
       
       // Get fallback configurations
-      const fallbacks = await this.db
-        .prepare(`
-          SELECT * FROM api_fallback_configs
-          WHERE (api_id = ? OR endpoint_id = ?)
-            AND is_enabled = 1
-          ORDER BY priority DESC
-        `)
-        .bind(api.id, endpoint.id)
-        .all<any>();
-      
-      for (const fallback of fallbacks.results || []) {
-        const config = JSON.parse(fallback.fallback_config);
+      const fallbacks = await this.db.query<any>(`
+        SELECT * FROM api_fallback_configs
+        WHERE (api_id = ? OR endpoint_id = ?)
+          AND is_enabled = ${this.db.sql.bool(true)}
+        ORDER BY priority DESC
+      `, [api.id, endpoint.id]);
+      
+      for (const fallback of fallbacks.rows) {
+        const config = parseJsonColumn<any>(fallback.fallback_config, {});
         
         if (fallback.fallback_type === 'static_response') {
           // Return static response
@@ -744,33 +725,30 @@ export class DynamicAPIService {
   }
 
   private async logAPIRequest(log: APIRequestLog): Promise<void> {
-    await this.db
-      .prepare(`
-        INSERT INTO api_request_logs (
-          api_id, endpoint_id, conversation_id, user_id, agent_id,
-          method, endpoint, request_headers, request_body,
-          status_code, response_headers, response_body, response_time_ms,
-          error_message, is_fallback, retry_count
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `)
-      .bind(
-        log.api_id,
-        log.endpoint_id,
-        log.conversation_id,
-        log.user_id,
-        log.agent_id,
-        log.method,
-        log.endpoint,
-        log.request_headers,
-        log.request_body,
-        log.status_code,
-        log.response_headers,
-        log.response_body,
-        log.response_time_ms,
-        log.error_message,
-        log.is_fallback ? 1 : 0,
-        log.retry_count
-      )
-      .run();
+    await this.db.run(`
+      INSERT INTO api_request_logs (
+        api_id, endpoint_id, conversation_id, user_id, agent_id,
+        method, endpoint, request_headers, request_body,
+        status_code, response_headers, response_body, response_time_ms,
+        error_message, is_fallback, retry_count
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      log.api_id,
+      log.endpoint_id,
+      log.conversation_id,
+      log.user_id,
+      log.agent_id,
+      log.method,
+      log.endpoint,
+      log.request_headers,
+      log.request_body,
+      log.status_code,
+      log.response_headers,
+      log.response_body,
+      log.response_time_ms,
+      log.error_message,
+      Boolean(log.is_fallback),
+      log.retry_count,
+    ]);
   }
 }
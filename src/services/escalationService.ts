@@ -8,16 +8,20 @@
  * - Context aggregation for ticket creation
  * - Sentiment analysis integration
  * - Analytics tracking
+ * - Export to the support team's helpdesk, status kept in sync (see helpdeskSync)
+ * - Structured handoff summary for the human agent (see handoffSummary)
+ * - CSAT survey to the driver once the ticket is resolved (see csatSurvey)
  */
 
-import { Pool } from 'pg';
+import { db, parseJsonColumn } from '../db';
 import { generateId } from '../utils/idGenerator';
-import logger from '../utils/logger';
-
-// Database pool (assumes it's configured elsewhere)
-const pool = new Pool({
-  connectionString: process.env.DATABASE_URL
-});
+import { logger } from '../utils/logger';
+import { getExperimentService } from './experimentService';
+import { getLanguageService, type SupportedLanguage } from './languageService';
+import { getTicketRouting } from './ticketRouting';
+import { getHelpdeskSync } from './helpdeskSync';
+import { getCsatSurveys } from './csatSurvey';
+import { formatHandoffSummary, getHandoffSummaryService, type HandoffSummary, type HandoffSummaryService } from './handoffSummary';
 
 // Types
 export interface EscalationTrigger {
@@ -45,6 +49,9 @@ export interface EscalationContext {
   sentimentHistory: Array<{ timestamp: Date; sentiment: string; score: number }>;
   diagnosticResults?: Record<string, any>;
   technicalDetails?: Record<string, any>;
+  threadId?: string; // Conversation to pick up in the agent desk
+  channel?: string; // web, discord
+  language?: SupportedLanguage; // Detected from the user's messages when missing
 }
 
 export interface EscalationTicket {
@@ -57,19 +64,38 @@ export interface EscalationTicket {
   urgencyLevel: 'low' | 'medium' | 'high' | 'critical';
   priorityScore: number;
   conversationSummary: string;
+  handoffSummary?: HandoffSummary;
   conversationContext: EscalationContext;
   diagnosticResults?: Record<string, any>;
   technicalDetails?: Record<string, any>;
   userSentiment: string;
   status: 'open' | 'assigned' | 'in_progress' | 'resolved' | 'closed';
+  assignedTo?: string;
+  language?: SupportedLanguage;
   escalationReason: string;
   escalationTriggers: EscalationTrigger[];
 }
 
+/**
+ * Collaborators the escalation service can be given instead of the shared ones
+ */
+export interface EscalationServiceDeps {
+  /** Writes the handoff summary; defaults to the shared HandoffSummaryService */
+  handoffSummaries?: Pick<HandoffSummaryService, 'summarize'>;
+}
+
 /**
  * Escalation Service Class
  */
 export class EscalationService {
+  constructor(private deps: EscalationServiceDeps = {}) {}
+
+  /**
+   * Replace the collaborators (pass {} to go back to the shared ones)
+   */
+  setDeps(deps: EscalationServiceDeps): void {
+    this.deps = deps;
+  }
   
   /**
    * Detect if conversation should be escalated
@@ -132,7 +158,7 @@ export class EscalationService {
       return triggers;
       
     } catch (error) {
-      logger.error('Error detecting escalation:', error);
+      logger.error({ error }, 'Error detecting escalation');
       return [];
     }
   }
@@ -202,12 +228,12 @@ export class EscalationService {
    */
   private async detectRepeatedIssue(userId: string): Promise<EscalationTrigger | null> {
     try {
-      const result = await pool.query(`
+      const result = await db.query(`
         SELECT COUNT(*) as count, 
-               ARRAY_AGG(issue_category) as categories
+               ${db.sql.arrayAgg('issue_category')} as categories
         FROM escalation_tickets
         WHERE discord_user_id = $1
-        AND created_at >= NOW() - INTERVAL '7 days'
+        AND created_at >= ${db.sql.ago(7, 'days')}
       `, [userId]);
       
       if (result.rows[0].count >= 2) {
@@ -215,7 +241,7 @@ export class EscalationService {
           type: 'repeated_issue',
           details: {
             count: parseInt(result.rows[0].count),
-            recentCategories: result.rows[0].categories
+            recentCategories: parseJsonColumn(result.rows[0].categories, [])
           },
           confidence: 0.85
         };
@@ -223,7 +249,7 @@ export class EscalationService {
       
       return null;
     } catch (error) {
-      logger.error('Error detecting repeated issue:', error);
+      logger.error({ error }, 'Error detecting repeated issue');
       return null;
     }
   }
@@ -478,7 +504,17 @@ export class EscalationService {
       const ticketId = `ESC-${generateId()}`;
       const urgency = this.calculateUrgency(triggers);
       const classification = this.classifyIssue(context);
-      const summary = this.generateSummary(context);
+      const language = context.language ?? this.detectTicketLanguage(context);
+
+      // Handoff summary in the desk's working language (falls back to the facts without a model)
+      const handoff = await (this.deps.handoffSummaries ?? getHandoffSummaryService()).summarize(context, {
+        issueType: classification.type,
+        issueCategory: classification.category,
+        urgencyLevel: urgency.level,
+        customerLanguage: language,
+        caseFacts: this.generateSummary(context),
+      });
+      const summary = formatHandoffSummary(handoff, { name: context.username, id: context.userId });
       
       const overallSentiment = context.sentimentHistory.length > 0 
         ? context.sentimentHistory[context.sentimentHistory.length - 1].sentiment
@@ -487,13 +523,14 @@ export class EscalationService {
       const escalationReason = triggers.map(t => t.type).join(', ');
       
       // Insert ticket
-      const ticketResult = await pool.query(`
+      const ticketResult = await db.query(`
         INSERT INTO escalation_tickets (
           ticket_id, discord_user_id, discord_username,
           issue_type, issue_category, urgency_level, priority_score,
           conversation_summary, conversation_context,
-          user_sentiment, status, escalation_reason, escalation_triggers
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+          user_sentiment, status, escalation_reason, escalation_triggers,
+          thread_id, channel, language, handoff_summary
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
         RETURNING id
       `, [
         ticketId,
@@ -508,21 +545,25 @@ export class EscalationService {
         overallSentiment,
         'open',
         escalationReason,
-        JSON.stringify(triggers)
+        JSON.stringify(triggers),
+        context.threadId ?? null,
+        context.channel ?? null,
+        language,
+        JSON.stringify(handoff)
       ]);
       
       const dbTicketId = ticketResult.rows[0].id;
       
       // Insert triggers
       for (const trigger of triggers) {
-        await pool.query(`
+        await db.query(`
           INSERT INTO escalation_triggers (ticket_id, trigger_type, trigger_details, confidence_score)
           VALUES ($1, $2, $3, $4)
         `, [dbTicketId, trigger.type, JSON.stringify(trigger.details), trigger.confidence]);
       }
       
       // Insert conversation context
-      await pool.query(`
+      await db.query(`
         INSERT INTO conversation_contexts (
           discord_user_id, ticket_id, message_count, conversation_duration_seconds,
           messages, stations_involved, errors_encountered, actions_taken,
@@ -543,8 +584,21 @@ export class EscalationService {
       
       // Update analytics
       await this.updateAnalytics(classification.type, urgency.level);
+      await getExperimentService().recordOutcome({ userId: context.userId, metric: 'escalated', value: 1 });
       
       logger.info(`Created escalation ticket ${ticketId} for user ${context.userId}`);
+
+      // SLA clocks and skills-based assignment
+      const assignment = await getTicketRouting().routeNewTicket({
+        id: dbTicketId,
+        ticketId,
+        issueType: classification.type,
+        urgencyLevel: urgency.level,
+        language,
+      });
+
+      // Copy in the support team's helpdesk (no-op without HELPDESK_PROVIDER, retried on failure)
+      await getHelpdeskSync().exportTicket(ticketId);
       
       const ticket: EscalationTicket = {
         id: dbTicketId,
@@ -556,9 +610,12 @@ export class EscalationService {
         urgencyLevel: urgency.level,
         priorityScore: urgency.score,
         conversationSummary: summary,
+        handoffSummary: handoff,
         conversationContext: context,
         userSentiment: overallSentiment,
-        status: 'open',
+        status: assignment ? 'assigned' : 'open',
+        assignedTo: assignment?.agent,
+        language: language ?? undefined,
         escalationReason,
         escalationTriggers: triggers
       };
@@ -566,11 +623,19 @@ export class EscalationService {
       return ticket;
       
     } catch (error) {
-      logger.error('Error creating escalation ticket:', error);
+      logger.error({ error }, 'Error creating escalation ticket');
       throw error;
     }
   }
   
+  /**
+   * Language of the user's messages, for routing the ticket
+   */
+  private detectTicketLanguage(context: EscalationContext): SupportedLanguage | null {
+    const text = context.messages.filter(m => m.role === 'user').map(m => m.content).join('\n');
+    return text.trim() ? getLanguageService().detectLanguage(text).language : null;
+  }
+  
   /**
    * Update daily analytics
    */
@@ -578,26 +643,18 @@ export class EscalationService {
     try {
       const today = new Date().toISOString().split('T')[0];
       
-      await pool.query(`
+      await db.query(`
         INSERT INTO escalation_analytics (date, total_escalations, escalations_by_type, escalations_by_urgency)
-        VALUES ($1, 1, $2::jsonb, $3::jsonb)
+        VALUES ($1, 1, ${db.sql.json('$2')}, ${db.sql.json('$3')})
         ON CONFLICT (date) DO UPDATE SET
           total_escalations = escalation_analytics.total_escalations + 1,
-          escalations_by_type = jsonb_set(
-            COALESCE(escalation_analytics.escalations_by_type, '{}'::jsonb),
-            ARRAY[$4],
-            (COALESCE((escalation_analytics.escalations_by_type->$4)::int, 0) + 1)::text::jsonb
-          ),
-          escalations_by_urgency = jsonb_set(
-            COALESCE(escalation_analytics.escalations_by_urgency, '{}'::jsonb),
-            ARRAY[$5],
-            (COALESCE((escalation_analytics.escalations_by_urgency->$5)::int, 0) + 1)::text::jsonb
-          ),
-          updated_at = NOW()
+          escalations_by_type = ${db.sql.jsonIncrement('escalation_analytics.escalations_by_type', ['$4'])},
+          escalations_by_urgency = ${db.sql.jsonIncrement('escalation_analytics.escalations_by_urgency', ['$5'])},
+          updated_at = ${db.sql.now()}
       `, [today, JSON.stringify({ [issueType]: 1 }), JSON.stringify({ [urgency]: 1 }), issueType, urgency]);
       
     } catch (error) {
-      logger.error('Error updating escalation analytics:', error);
+      logger.error({ error }, 'Error updating escalation analytics');
     }
   }
   
@@ -606,10 +663,10 @@ export class EscalationService {
    */
   async getActiveEscalations(): Promise<any[]> {
     try {
-      const result = await pool.query('SELECT * FROM active_escalations LIMIT 50');
+      const result = await db.query('SELECT * FROM active_escalations LIMIT 50');
       return result.rows;
     } catch (error) {
-      logger.error('Error getting active escalations:', error);
+      logger.error({ error }, 'Error getting active escalations');
       return [];
     }
   }
@@ -619,14 +676,14 @@ export class EscalationService {
    */
   async getAnalytics(days: number = 7): Promise<any[]> {
     try {
-      const result = await pool.query(`
+      const result = await db.query(`
         SELECT * FROM escalation_analytics
-        WHERE date >= NOW() - INTERVAL '${days} days'
+        WHERE date >= ${db.sql.ago(days, 'days')}
         ORDER BY date DESC
       `);
       return result.rows;
     } catch (error) {
-      logger.error('Error getting escalation analytics:', error);
+      logger.error({ error }, 'Error getting escalation analytics');
       return [];
     }
   }
@@ -636,30 +693,41 @@ export class EscalationService {
    */
   async resolveTicket(ticketId: string, resolutionNote: string, satisfactionScore?: number): Promise<void> {
     try {
-      const result = await pool.query(`
+      const result = await db.query(`
         UPDATE escalation_tickets
         SET 
           status = 'resolved',
-          resolved_at = NOW(),
-          resolution_time_seconds = EXTRACT(EPOCH FROM (NOW() - escalated_at))::INTEGER,
+          resolved_at = ${db.sql.now()},
+          resolution_time_seconds = CAST(${db.sql.secondsBetween('escalated_at', db.sql.now())} AS INTEGER),
           customer_satisfaction_score = COALESCE($2, customer_satisfaction_score)
         WHERE ticket_id = $1
-        RETURNING id
+        RETURNING id, discord_user_id
       `, [ticketId, satisfactionScore]);
       
       if (result.rows.length > 0) {
         const dbTicketId = result.rows[0].id;
+
+        if (satisfactionScore !== undefined) {
+          await getExperimentService().recordOutcome({ userId: result.rows[0].discord_user_id, metric: 'csat', value: satisfactionScore });
+        }
         
         // Add resolution note
-        await pool.query(`
+        await db.query(`
           INSERT INTO escalation_notes (ticket_id, note_type, note_text, author)
           VALUES ($1, 'resolution', $2, 'system')
         `, [dbTicketId, resolutionNote]);
         
         logger.info(`Resolved escalation ticket ${ticketId}`);
+
+        await getHelpdeskSync().onTicketResolved(ticketId, resolutionNote);
+
+        // Ask the driver how it went, unless the agent already recorded it
+        if (satisfactionScore === undefined) {
+          await getCsatSurveys().onTicketResolved(ticketId);
+        }
       }
     } catch (error) {
-      logger.error('Error resolving escalation ticket:', error);
+      logger.error({ error }, 'Error resolving escalation ticket');
       throw error;
     }
   }
@@ -0,0 +1,793 @@
+import { createHash } from 'crypto';
+import type { RuntimeContext } from '@mastra/core/runtime-context';
+import { z } from 'zod';
+import { getDb, parseJsonColumn, parseTimestamp, type Database } from '../db';
+import { AGENT_TOOL_ROLES } from '../mastra/toolPermissions';
+import { SPECIALIST_IDS, type SpecialistId } from '../mastra/agents/specialists';
+import { logger } from '../utils/logger';
+
+/**
+ * Experiment Service
+ *
+ * A/B experiments on the specialist agents, stored in ab_test_experiments:
+ * - Each variant can replace or extend the system prompt and change the
+ *   model, the tool subset and the temperature. The first variant is the
+ *   control.
+ * - Users (or threads, see assignmentUnit) get a variant once, weighted by
+ *   the variant weights, and keep it (experiment_assignments); a
+ *   conversation stays on the variant it started with
+ * - Every conversation that ran on a variant is an exposure
+ * - Outcomes of exposed conversations are collected from quality scoring
+ *   (overall_score, resolved, escalated), escalation tickets (escalated) and
+ *   resolved tickets' satisfaction score (csat)
+ * - getSummary() compares every variant with the control: means with
+ *   confidence intervals, the difference with its interval and p-value, and
+ *   a recommendation for the success metric
+ *
+ * One experiment runs per specialist at a time. Stopping an experiment puts
+ * everyone back on the agent's own configuration; rolling out a variant
+ * completes the experiment and keeps serving that variant to everyone.
+ */
+
+export const EXPERIMENT_METRICS = ['overall_score', 'resolved', 'escalated', 'csat'] as const;
+export type ExperimentMetric = (typeof EXPERIMENT_METRICS)[number];
+
+export type ExperimentStatus = 'draft' | 'active' | 'paused' | 'completed';
+
+interface MetricDefinition {
+  kind: 'mean' | 'rate';
+  higherIsBetter: boolean;
+  perExposure: boolean; // Exposed conversations without an outcome count as 0
+}
+
+const METRICS: Record<ExperimentMetric, MetricDefinition> = {
+  overall_score: { kind: 'mean', higherIsBetter: true, perExposure: false },
+  resolved: { kind: 'rate', higherIsBetter: true, perExposure: false },
+  escalated: { kind: 'rate', higherIsBetter: false, perExposure: true },
+  csat: { kind: 'mean', higherIsBetter: true, perExposure: false },
+};
+
+export const experimentVariantSchema = z.object({
+  id: z.string().regex(/^[\w-]{1,50}$/),
+  name: z.string().max(200).optional(),
+  weight: z.number().positive().default(1),
+  instructions: z.string().min(1).optional(), // Replaces the specialist's instructions
+  extraInstructions: z.string().min(1).optional(), // Appended to the instructions
+  model: z.string().regex(/^[\w-]+\/\S+$/, 'expected providerId/model').optional(), // A model provider registry reference
+  tools: z.array(z.string()).optional(), // Subset of the specialist's tools
+  temperature: z.number().min(0).max(2).optional(),
+}).strict();
+
+export type ExperimentVariant = z.infer<typeof experimentVariantSchema>;
+
+export const experimentInputSchema = z.object({
+  experimentId: z.string().regex(/^[\w-]{1,100}$/),
+  name: z.string().min(1).max(200),
+  description: z.string().optional(),
+  variants: z.array(experimentVariantSchema).min(2), // The first one is the control
+  assignmentUnit: z.enum(['user', 'thread']).default('user'),
+  agents: z.array(z.enum(SPECIALIST_IDS)).min(1).optional(), // Omitted = every specialist
+  successMetric: z.enum(EXPERIMENT_METRICS).default('overall_score'),
+  minimumSampleSize: z.number().int().positive().default(100),
+  confidenceThreshold: z.number().gt(0.5).lt(1).default(0.95),
+  status: z.enum(['draft', 'active']).default('draft'),
+}).strict().superRefine((input, ctx) => {
+  const ids = new Set<string>();
+  input.variants.forEach((variant, index) => {
+    if (ids.has(variant.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['variants', index, 'id'], message: `duplicate variant id ${variant.id}` });
+    }
+    ids.add(variant.id);
+    for (const tool of variant.tools ?? []) {
+      if (!(tool in AGENT_TOOL_ROLES)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['variants', index, 'tools'], message: `unknown tool ${tool}` });
+      }
+    }
+  });
+});
+
+export type ExperimentInput = z.input<typeof experimentInputSchema>;
+
+export interface Experiment {
+  experimentId: string;
+  name: string;
+  description: string | null;
+  status: ExperimentStatus;
+  variants: ExperimentVariant[];
+  assignmentUnit: 'user' | 'thread';
+  agents: SpecialistId[] | null;
+  successMetric: ExperimentMetric;
+  minimumSampleSize: number;
+  confidenceThreshold: number;
+  winnerVariant: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  createdAt: string;
+}
+
+/**
+ * The variant a turn runs on
+ */
+export interface ExperimentAssignment {
+  experimentId: string;
+  variantId: string;
+  variant: ExperimentVariant;
+  rollout: boolean; // Winner of a completed experiment, not an exposure
+}
+
+export interface ExperimentTurn {
+  threadId: string;
+  userId?: string | null;
+  channel?: string | null;
+  agentId: SpecialistId;
+}
+
+export interface ExperimentResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: 'not_found' | 'conflict' | 'invalid';
+}
+
+export interface MetricEstimate {
+  n: number;
+  mean: number | null;
+  ciLow: number | null;
+  ciHigh: number | null;
+}
+
+export interface MetricComparison {
+  difference: number; // Variant - control
+  ciLow: number;
+  ciHigh: number;
+  pValue: number;
+  significant: boolean;
+  better: boolean; // Significantly better than the control
+}
+
+export interface VariantSummary {
+  variantId: string;
+  name: string | null;
+  control: boolean;
+  assigned: number;
+  exposures: number;
+  metrics: Record<ExperimentMetric, MetricEstimate>;
+  vsControl: Record<ExperimentMetric, MetricComparison | null> | null;
+}
+
+export type ExperimentAction = 'collect_more_data' | 'rollout' | 'stop' | 'no_significant_difference';
+
+export interface ExperimentSummary {
+  experimentId: string;
+  status: ExperimentStatus;
+  successMetric: ExperimentMetric;
+  confidenceLevel: number;
+  minimumSampleSize: number;
+  winnerVariant: string | null;
+  variants: VariantSummary[];
+  recommendation: { action: ExperimentAction; variantId?: string; reason: string };
+}
+
+interface ExperimentRow {
+  experiment_id: string;
+  experiment_name: string;
+  description: string | null;
+  control_variant: string;
+  test_variants: string;
+  status: ExperimentStatus | null;
+  winner_variant: string | null;
+  success_metric: string | null;
+  minimum_sample_size: number | null;
+  confidence_threshold: number | string | null;
+  assignment_unit: string | null;
+  target_agents: string | null;
+  start_date: string | Date | null;
+  end_date: string | Date | null;
+  created_at: string | Date;
+}
+
+interface OutcomeAggregateRow {
+  variant_id: string;
+  metric: string;
+  n: number | string;
+  total: number | string | null;
+  squares: number | string | null;
+}
+
+// Outcomes known only by user (tickets) go to their latest exposure in this window
+const OUTCOME_ATTRIBUTION_DAYS = 7;
+
+const EXPERIMENTS_CACHE_MS = 30 * 1000;
+
+export const EXPERIMENT_CONTEXT_KEY = 'experiment';
+
+/**
+ * Put the turn's variant on the RuntimeContext the specialist agent runs with
+ */
+export function setExperimentAssignment(runtimeContext: RuntimeContext, assignment: ExperimentAssignment | null): void {
+  if (assignment) {
+    runtimeContext.set(EXPERIMENT_CONTEXT_KEY, assignment);
+  }
+}
+
+/**
+ * The variant on a RuntimeContext, if the turn is in an experiment
+ */
+export function getExperimentVariant(runtimeContext: RuntimeContext | undefined): ExperimentVariant | undefined {
+  return (runtimeContext?.get(EXPERIMENT_CONTEXT_KEY) as ExperimentAssignment | undefined)?.variant;
+}
+
+/**
+ * The variant for a unit: a stable point in [0, 1) from the hash, spread over
+ * the variant weights
+ */
+export function pickVariant(experimentId: string, unitId: string, variants: ExperimentVariant[]): ExperimentVariant {
+  const hash = createHash('sha256').update(`${experimentId}:${unitId}`).digest();
+  const point = hash.readUInt32BE(0) / 0x100000000;
+  const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+
+  let cumulative = 0;
+  for (const variant of variants) {
+    cumulative += variant.weight / totalWeight;
+    if (point < cumulative) return variant;
+  }
+  return variants[variants.length - 1];
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7)
+ */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * z such that normalCdf(z) = p
+ */
+export function normalQuantile(p: number): number {
+  let low = -10;
+  let high = 10;
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (normalCdf(mid) < p) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
+
+interface Sample {
+  n: number;
+  mean: number;
+  variance: number; // Of a single observation
+}
+
+function estimate(sample: Sample | null, kind: MetricDefinition['kind'], z: number): MetricEstimate {
+  if (!sample || sample.n === 0) {
+    return { n: 0, mean: null, ciLow: null, ciHigh: null };
+  }
+
+  const { n, mean } = sample;
+  if (kind === 'rate') {
+    // Wilson score interval, sensible for small samples and rates near 0 or 1
+    const denominator = 1 + (z * z) / n;
+    const center = (mean + (z * z) / (2 * n)) / denominator;
+    const margin = (z / denominator) * Math.sqrt((mean * (1 - mean)) / n + (z * z) / (4 * n * n));
+    return { n, mean, ciLow: Math.max(0, center - margin), ciHigh: Math.min(1, center + margin) };
+  }
+
+  if (n < 2) {
+    return { n, mean, ciLow: null, ciHigh: null };
+  }
+  const margin = z * Math.sqrt(sample.variance / n);
+  return { n, mean, ciLow: mean - margin, ciHigh: mean + margin };
+}
+
+function compare(variant: Sample | null, control: Sample | null, definition: MetricDefinition, confidence: number): MetricComparison | null {
+  if (!variant || !control || variant.n < 2 || control.n < 2) {
+    return null;
+  }
+
+  const difference = variant.mean - control.mean;
+  const standardError = Math.sqrt(variant.variance / variant.n + control.variance / control.n);
+  const z = normalQuantile(1 - (1 - confidence) / 2);
+
+  if (standardError === 0) {
+    return { difference, ciLow: difference, ciHigh: difference, pValue: difference === 0 ? 1 : 0, significant: difference !== 0, better: definition.higherIsBetter ? difference > 0 : difference < 0 };
+  }
+
+  const pValue = 2 * (1 - normalCdf(Math.abs(difference / standardError)));
+  const significant = pValue < 1 - confidence;
+  return {
+    difference,
+    ciLow: difference - z * standardError,
+    ciHigh: difference + z * standardError,
+    pValue,
+    significant,
+    better: significant && (definition.higherIsBetter ? difference > 0 : difference < 0),
+  };
+}
+
+function toNumber(value: number | string | null | undefined): number {
+  return value === null || value === undefined ? 0 : Number(value);
+}
+
+export class ExperimentService {
+  private experiments: Experiment[] | null = null;
+  private experimentsLoadedAt = 0;
+
+  constructor(private readonly db: Database = getDb()) {}
+
+  /**
+   * Create an experiment (as a draft unless status is active)
+   */
+  async createExperiment(input: ExperimentInput): Promise<ExperimentResult<Experiment>> {
+    const parsed = experimentInputSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, code: 'invalid', error: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ') };
+    }
+    const data = parsed.data;
+
+    if (await this.getExperiment(data.experimentId)) {
+      return { success: false, code: 'conflict', error: `Experiment ${data.experimentId} already exists` };
+    }
+    if (data.status === 'active') {
+      const overlapping = await this.findOverlapping(data.experimentId, data.agents ?? null);
+      if (overlapping) {
+        return { success: false, code: 'conflict', error: `Experiment ${overlapping} already runs on these agents` };
+      }
+    }
+
+    const [control, ...tests] = data.variants;
+    const totalWeight = data.variants.reduce((sum, variant) => sum + variant.weight, 0);
+    const trafficSplit = Object.fromEntries(data.variants.map((variant) => [variant.id, variant.weight / totalWeight]));
+
+    await this.db.run(`
+      INSERT INTO ab_test_experiments (
+        experiment_id, experiment_name, description, control_variant, test_variants, status,
+        traffic_split, success_metric, minimum_sample_size, confidence_threshold, assignment_unit, target_agents,
+        start_date, metrics_by_variant
+      ) VALUES (?, ?, ?, ${this.db.sql.json()}, ${this.db.sql.json()}, ?, ${this.db.sql.json()}, ?, ?, ?, ?, ${this.db.sql.json()}, ${data.status === 'active' ? this.db.sql.now() : 'NULL'}, ${this.db.sql.json()})
+    `, [
+      data.experimentId,
+      data.name,
+      data.description ?? null,
+      JSON.stringify(control),
+      JSON.stringify(tests),
+      data.status,
+      JSON.stringify(trafficSplit),
+      data.successMetric,
+      data.minimumSampleSize,
+      data.confidenceThreshold,
+      data.assignmentUnit,
+      data.agents ? JSON.stringify(data.agents) : null,
+      '{}',
+    ]);
+
+    this.invalidate();
+    logger.info({ experimentId: data.experimentId, status: data.status, variants: data.variants.map((variant) => variant.id) }, 'Experiment created');
+    return { success: true, data: (await this.getExperiment(data.experimentId))! };
+  }
+
+  /**
+   * All experiments, newest first
+   */
+  async listExperiments(status?: ExperimentStatus): Promise<Experiment[]> {
+    const { rows } = await this.db.query<ExperimentRow>(
+      `SELECT * FROM ab_test_experiments ${status ? 'WHERE status = ?' : ''} ORDER BY created_at DESC, id DESC`,
+      status ? [status] : []
+    );
+    return rows.map((row) => this.mapExperiment(row)).filter((experiment): experiment is Experiment => experiment !== null);
+  }
+
+  async getExperiment(experimentId: string): Promise<Experiment | null> {
+    const row = await this.db.get<ExperimentRow>('SELECT * FROM ab_test_experiments WHERE experiment_id = ?', [experimentId]);
+    return row ? this.mapExperiment(row) : null;
+  }
+
+  async start(experimentId: string): Promise<ExperimentResult<Experiment>> {
+    const experiment = await this.getExperiment(experimentId);
+    if (!experiment) return { success: false, code: 'not_found', error: `Experiment ${experimentId} not found` };
+    if (experiment.status !== 'draft' && experiment.status !== 'paused') {
+      return { success: false, code: 'conflict', error: `Experiment ${experimentId} is ${experiment.status}` };
+    }
+
+    const overlapping = await this.findOverlapping(experimentId, experiment.agents);
+    if (overlapping) {
+      return { success: false, code: 'conflict', error: `Experiment ${overlapping} already runs on these agents` };
+    }
+
+    return this.updateStatus(experimentId, 'active', `start_date = COALESCE(start_date, ${this.db.sql.now()})`);
+  }
+
+  async pause(experimentId: string): Promise<ExperimentResult<Experiment>> {
+    const experiment = await this.getExperiment(experimentId);
+    if (!experiment) return { success: false, code: 'not_found', error: `Experiment ${experimentId} not found` };
+    if (experiment.status !== 'active') {
+      return { success: false, code: 'conflict', error: `Experiment ${experimentId} is ${experiment.status}` };
+    }
+    return this.updateStatus(experimentId, 'paused');
+  }
+
+  /**
+   * End the experiment without a winner: every turn goes back to the agent's
+   * own configuration
+   */
+  async stop(experimentId: string): Promise<ExperimentResult<Experiment>> {
+    const experiment = await this.getExperiment(experimentId);
+    if (!experiment) return { success: false, code: 'not_found', error: `Experiment ${experimentId} not found` };
+    if (experiment.status === 'completed') {
+      return { success: false, code: 'conflict', error: `Experiment ${experimentId} is already completed` };
+    }
+    return this.updateStatus(experimentId, 'completed', `winner_variant = NULL, end_date = ${this.db.sql.now()}`);
+  }
+
+  /**
+   * End the experiment and serve one variant to everyone on its agents
+   */
+  async rollout(experimentId: string, variantId: string): Promise<ExperimentResult<Experiment>> {
+    const experiment = await this.getExperiment(experimentId);
+    if (!experiment) return { success: false, code: 'not_found', error: `Experiment ${experimentId} not found` };
+    if (!experiment.variants.some((variant) => variant.id === variantId)) {
+      return { success: false, code: 'invalid', error: `Experiment ${experimentId} has no variant ${variantId}` };
+    }
+
+    return this.updateStatus(
+      experimentId,
+      'completed',
+      `winner_variant = ?, end_date = COALESCE(end_date, ${this.db.sql.now()})`,
+      [variantId]
+    );
+  }
+
+  /**
+   * The variant for a turn, or null when no experiment covers the agent.
+   * Active experiments come first (oldest first), then rolled out winners
+   * (newest first). Turns in an active experiment are logged as exposures.
+   * Failures are logged and give null: an experiment never breaks a turn.
+   */
+  async resolveForTurn(turn: ExperimentTurn): Promise<ExperimentAssignment | null> {
+    try {
+      const experiments = (await this.getLiveExperiments()).filter(
+        (experiment) => !experiment.agents || experiment.agents.includes(turn.agentId)
+      );
+
+      const active = experiments.find((experiment) => experiment.status === 'active');
+      if (active) {
+        return await this.assign(active, turn);
+      }
+
+      const rolledOut = experiments.find((experiment) => experiment.status === 'completed');
+      const winner = rolledOut?.variants.find((variant) => variant.id === rolledOut.winnerVariant);
+      return rolledOut && winner
+        ? { experimentId: rolledOut.experimentId, variantId: winner.id, variant: winner, rollout: true }
+        : null;
+    } catch (error) {
+      logger.error({ error, threadId: turn.threadId }, 'Failed to resolve experiment for turn');
+      return null;
+    }
+  }
+
+  /**
+   * The exposures of a conversation (one per experiment it ran in)
+   */
+  async getExposures(threadId: string): Promise<Array<{ experimentId: string; variantId: string }>> {
+    const { rows } = await this.db.query<{ experiment_id: string; variant_id: string }>(
+      'SELECT experiment_id, variant_id FROM experiment_exposures WHERE thread_id = ? ORDER BY first_exposed_at ASC, id ASC',
+      [threadId]
+    );
+    return rows.map((row) => ({ experimentId: row.experiment_id, variantId: row.variant_id }));
+  }
+
+  /**
+   * Record an outcome for the exposed conversation (threadId), or for the
+   * user's latest exposure in each experiment (userId). Without an exposure
+   * nothing is recorded. An escalation, once recorded, stays recorded.
+   */
+  async recordOutcome(outcome: { threadId?: string | null; userId?: string | null; metric: ExperimentMetric; value: number }): Promise<number> {
+    try {
+      const exposures = await this.findOutcomeExposures(outcome.threadId, outcome.userId);
+      const keep = outcome.metric === 'escalated'
+        ? 'CASE WHEN experiment_outcomes.value > excluded.value THEN experiment_outcomes.value ELSE excluded.value END'
+        : 'excluded.value';
+
+      for (const exposure of exposures) {
+        await this.db.run(`
+          INSERT INTO experiment_outcomes (experiment_id, variant_id, thread_id, metric, value)
+          VALUES (?, ?, ?, ?, ?)
+          ON CONFLICT (experiment_id, thread_id, metric) DO UPDATE SET
+            value = ${keep},
+            recorded_at = ${this.db.sql.now()}
+        `, [exposure.experiment_id, exposure.variant_id, exposure.thread_id, outcome.metric, outcome.value]);
+      }
+
+      if (exposures.length > 0) {
+        logger.debug({ metric: outcome.metric, value: outcome.value, exposures: exposures.length }, 'Experiment outcome recorded');
+      }
+      return exposures.length;
+    } catch (error) {
+      logger.error({ error, metric: outcome.metric }, 'Failed to record experiment outcome');
+      return 0;
+    }
+  }
+
+  /**
+   * Per-variant estimates and comparisons with the control
+   */
+  async getSummary(experimentId: string): Promise<ExperimentSummary | null> {
+    const experiment = await this.getExperiment(experimentId);
+    if (!experiment) return null;
+
+    const [assignments, exposures, outcomes] = await Promise.all([
+      this.db.query<{ variant_id: string; n: number | string }>(
+        'SELECT variant_id, COUNT(*) AS n FROM experiment_assignments WHERE experiment_id = ? GROUP BY variant_id',
+        [experimentId]
+      ),
+      this.db.query<{ variant_id: string; n: number | string }>(
+        'SELECT variant_id, COUNT(*) AS n FROM experiment_exposures WHERE experiment_id = ? GROUP BY variant_id',
+        [experimentId]
+      ),
+      this.db.query<OutcomeAggregateRow>(`
+        SELECT variant_id, metric, COUNT(*) AS n, SUM(value) AS total, SUM(value * value) AS squares
+        FROM experiment_outcomes
+        WHERE experiment_id = ?
+        GROUP BY variant_id, metric
+      `, [experimentId]),
+    ]);
+
+    const countOf = (rows: Array<{ variant_id: string; n: number | string }>, variantId: string) =>
+      toNumber(rows.find((row) => row.variant_id === variantId)?.n);
+
+    const sampleOf = (variantId: string, metric: ExperimentMetric): Sample | null => {
+      const row = outcomes.rows.find((candidate) => candidate.variant_id === variantId && candidate.metric === metric);
+      const n = METRICS[metric].perExposure ? countOf(exposures.rows, variantId) : toNumber(row?.n);
+      if (n === 0) return null;
+
+      const mean = toNumber(row?.total) / n;
+      const variance = METRICS[metric].kind === 'rate'
+        ? mean * (1 - mean)
+        : n > 1 ? Math.max(0, (toNumber(row?.squares) - n * mean * mean) / (n - 1)) : 0;
+      return { n, mean, variance };
+    };
+
+    const confidence = experiment.confidenceThreshold;
+    const z = normalQuantile(1 - (1 - confidence) / 2);
+    const control = experiment.variants[0];
+
+    const variants: VariantSummary[] = experiment.variants.map((variant, index) => {
+      const metrics = {} as Record<ExperimentMetric, MetricEstimate>;
+      const vsControl = {} as Record<ExperimentMetric, MetricComparison | null>;
+      for (const metric of EXPERIMENT_METRICS) {
+        const sample = sampleOf(variant.id, metric);
+        metrics[metric] = estimate(sample, METRICS[metric].kind, z);
+        vsControl[metric] = compare(sample, sampleOf(control.id, metric), METRICS[metric], confidence);
+      }
+
+      return {
+        variantId: variant.id,
+        name: variant.name ?? null,
+        control: index === 0,
+        assigned: countOf(assignments.rows, variant.id),
+        exposures: countOf(exposures.rows, variant.id),
+        metrics,
+        vsControl: index === 0 ? null : vsControl,
+      };
+    });
+
+    return {
+      experimentId,
+      status: experiment.status,
+      successMetric: experiment.successMetric,
+      confidenceLevel: confidence,
+      minimumSampleSize: experiment.minimumSampleSize,
+      winnerVariant: experiment.winnerVariant,
+      variants,
+      recommendation: this.recommend(experiment, variants),
+    };
+  }
+
+  /**
+   * Drop the cached experiments (after editing ab_test_experiments)
+   */
+  invalidate(): void {
+    this.experiments = null;
+  }
+
+  private recommend(experiment: Experiment, variants: VariantSummary[]): ExperimentSummary['recommendation'] {
+    const metric = experiment.successMetric;
+    const short = variants.filter((variant) => variant.metrics[metric].n < experiment.minimumSampleSize);
+    if (short.length > 0) {
+      return {
+        action: 'collect_more_data',
+        reason: `${short.map((variant) => `${variant.variantId} has ${variant.metrics[metric].n}`).join(', ')} of ${experiment.minimumSampleSize} ${metric} samples`,
+      };
+    }
+
+    const tests = variants.filter((variant) => !variant.control);
+    const better = tests
+      .filter((variant) => variant.vsControl?.[metric]?.better)
+      .sort((a, b) => {
+        const gain = (variant: VariantSummary) => variant.vsControl![metric]!.difference * (METRICS[metric].higherIsBetter ? 1 : -1);
+        return gain(b) - gain(a);
+      });
+
+    if (better.length > 0) {
+      const winner = better[0];
+      const difference = winner.vsControl![metric]!.difference;
+      return {
+        action: 'rollout',
+        variantId: winner.variantId,
+        reason: `${winner.variantId} changes ${metric} by ${difference.toFixed(3)} vs ${variants[0].variantId} (p=${winner.vsControl![metric]!.pValue.toFixed(4)})`,
+      };
+    }
+
+    const worse = tests.filter((variant) => variant.vsControl?.[metric]?.significant);
+    if (worse.length === tests.length) {
+      return { action: 'stop', variantId: variants[0].variantId, reason: `every variant is significantly worse than ${variants[0].variantId} on ${metric}` };
+    }
+
+    return { action: 'no_significant_difference', reason: `no variant differs from ${variants[0].variantId} on ${metric} at ${experiment.confidenceThreshold}` };
+  }
+
+  private async assign(experiment: Experiment, turn: ExperimentTurn): Promise<ExperimentAssignment> {
+    // A conversation keeps the variant it was first shown, even if the user id
+    // it arrives with changes (a web client that lost its identity cookie)
+    const exposed = await this.db.get<{ variant_id: string }>(
+      'SELECT variant_id FROM experiment_exposures WHERE experiment_id = ? AND thread_id = ?',
+      [experiment.experimentId, turn.threadId]
+    );
+    const variant = experiment.variants.find((candidate) => candidate.id === exposed?.variant_id)
+      ?? await this.assignedVariant(experiment, experiment.assignmentUnit === 'thread' ? turn.threadId : turn.userId || turn.threadId);
+
+    await this.db.run(`
+      INSERT INTO experiment_exposures (experiment_id, variant_id, thread_id, user_id, channel, agent_id)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT (experiment_id, thread_id) DO UPDATE SET
+        turns = experiment_exposures.turns + 1,
+        last_exposed_at = ${this.db.sql.now()}
+    `, [experiment.experimentId, variant.id, turn.threadId, turn.userId ?? null, turn.channel ?? null, turn.agentId]);
+
+    return { experimentId: experiment.experimentId, variantId: variant.id, variant, rollout: false };
+  }
+
+  private async assignedVariant(experiment: Experiment, unitId: string): Promise<ExperimentVariant> {
+    await this.db.run(`
+      INSERT INTO experiment_assignments (experiment_id, unit_id, variant_id)
+      VALUES (?, ?, ?)
+      ON CONFLICT (experiment_id, unit_id) DO NOTHING
+    `, [experiment.experimentId, unitId, pickVariant(experiment.experimentId, unitId, experiment.variants).id]);
+
+    // The stored assignment wins, so changing weights later doesn't move anyone
+    const row = await this.db.get<{ variant_id: string }>(
+      'SELECT variant_id FROM experiment_assignments WHERE experiment_id = ? AND unit_id = ?',
+      [experiment.experimentId, unitId]
+    );
+    return experiment.variants.find((candidate) => candidate.id === row?.variant_id)
+      ?? pickVariant(experiment.experimentId, unitId, experiment.variants);
+  }
+
+  private async findOutcomeExposures(threadId?: string | null, userId?: string | null) {
+    type ExposureRow = { experiment_id: string; variant_id: string; thread_id: string };
+
+    if (threadId) {
+      const { rows } = await this.db.query<ExposureRow>(
+        'SELECT experiment_id, variant_id, thread_id FROM experiment_exposures WHERE thread_id = ?',
+        [threadId]
+      );
+      return rows;
+    }
+    if (!userId) return [];
+
+    const { rows } = await this.db.query<ExposureRow>(`
+      SELECT experiment_id, variant_id, thread_id
+      FROM experiment_exposures
+      WHERE user_id = ? AND last_exposed_at >= ${this.db.sql.ago(OUTCOME_ATTRIBUTION_DAYS, 'days')}
+      ORDER BY last_exposed_at DESC, id DESC
+    `, [userId]);
+
+    const latest = new Map<string, ExposureRow>();
+    for (const row of rows) {
+      if (!latest.has(row.experiment_id)) latest.set(row.experiment_id, row);
+    }
+    return [...latest.values()];
+  }
+
+  /**
+   * Active experiments and rolled out winners (cached for 30 seconds)
+   */
+  private async getLiveExperiments(): Promise<Experiment[]> {
+    if (this.experiments && Date.now() - this.experimentsLoadedAt < EXPERIMENTS_CACHE_MS) {
+      return this.experiments;
+    }
+
+    const { rows } = await this.db.query<ExperimentRow>(`
+      SELECT * FROM ab_test_experiments
+      WHERE status = 'active' OR (status = 'completed' AND winner_variant IS NOT NULL)
+    `);
+
+    const experiments = rows
+      .map((row) => this.mapExperiment(row))
+      .filter((experiment): experiment is Experiment => experiment !== null);
+    const time = (value: string | null) => (value ? Date.parse(value) : 0);
+    experiments.sort((a, b) =>
+      a.status === 'active' && b.status === 'active'
+        ? time(a.startDate) - time(b.startDate)
+        : a.status === 'active' ? -1 : b.status === 'active' ? 1 : time(b.endDate) - time(a.endDate)
+    );
+
+    this.experiments = experiments;
+    this.experimentsLoadedAt = Date.now();
+    return experiments;
+  }
+
+  private async findOverlapping(experimentId: string, agents: SpecialistId[] | null): Promise<string | null> {
+    const active = await this.listExperiments('active');
+    const overlapping = active.find(
+      (experiment) =>
+        experiment.experimentId !== experimentId &&
+        (!experiment.agents || !agents || experiment.agents.some((agent) => agents.includes(agent)))
+    );
+    return overlapping?.experimentId ?? null;
+  }
+
+  private async updateStatus(
+    experimentId: string,
+    status: ExperimentStatus,
+    extraSet?: string,
+    extraParams: unknown[] = []
+  ): Promise<ExperimentResult<Experiment>> {
+    await this.db.run(`
+      UPDATE ab_test_experiments
+      SET status = ?, ${extraSet ? `${extraSet},` : ''} updated_at = ${this.db.sql.now()}
+      WHERE experiment_id = ?
+    `, [status, ...extraParams, experimentId]);
+
+    this.invalidate();
+    logger.info({ experimentId, status }, 'Experiment status changed');
+    return { success: true, data: (await this.getExperiment(experimentId))! };
+  }
+
+  private mapExperiment(row: ExperimentRow): Experiment | null {
+    const variants = z.array(experimentVariantSchema).safeParse([
+      parseJsonColumn(row.control_variant, null),
+      ...parseJsonColumn<unknown[]>(row.test_variants, []),
+    ]);
+    if (!variants.success) {
+      logger.warn({ experimentId: row.experiment_id, error: variants.error.message }, 'Skipping experiment with invalid variants');
+      return null;
+    }
+
+    const agents = parseJsonColumn<string[] | null>(row.target_agents, null);
+    const successMetric = EXPERIMENT_METRICS.find((metric) => metric === row.success_metric) ?? 'overall_score';
+    const timestamp = (value: string | Date | null) => (value ? parseTimestamp(value).toISOString() : null);
+
+    return {
+      experimentId: row.experiment_id,
+      name: row.experiment_name,
+      description: row.description,
+      status: row.status ?? 'active',
+      variants: variants.data,
+      assignmentUnit: row.assignment_unit === 'thread' ? 'thread' : 'user',
+      agents: agents ? agents.filter((agent): agent is SpecialistId => (SPECIALIST_IDS as readonly string[]).includes(agent)) : null,
+      successMetric,
+      minimumSampleSize: row.minimum_sample_size ?? 100,
+      confidenceThreshold: row.confidence_threshold === null ? 0.95 : Number(row.confidence_threshold),
+      winnerVariant: row.winner_variant,
+      startDate: timestamp(row.start_date),
+      endDate: timestamp(row.end_date),
+      createdAt: parseTimestamp(row.created_at).toISOString(),
+    };
+  }
+}
+
+// Singleton instance
+let experimentServiceInstance: ExperimentService | null = null;
+
+export function getExperimentService(): ExperimentService {
+  if (!experimentServiceInstance) {
+    experimentServiceInstance = new ExperimentService();
+  }
+  return experimentServiceInstance;
+}
@@ -0,0 +1,313 @@
+import crypto from 'crypto';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type { HelpdeskProvider, HelpdeskStatus } from './helpdeskConnector';
+import { signPayload } from '../utils/webhookSignature';
+import { logger } from '../utils/logger';
+
+/**
+ * Fake Helpdesk Server
+ *
+ * Local stand-in for Zendesk, Freshdesk or Jira Service Management, for
+ * tests and for trying the helpdesk sync without a helpdesk account. Serves
+ * the part of the provider's REST API the connectors use, keeps tickets in
+ * memory, and sends the provider's status webhook, signed the way the
+ * provider signs it, when a ticket is solved or reopened with setStatus().
+ */
+
+export interface FakeHelpdeskOptions {
+  provider: HelpdeskProvider;
+  webhookUrl?: string; // e.g. http://localhost:3000/api/helpdesk/webhooks/zendesk
+  webhookSecret?: string;
+}
+
+export interface FakeHelpdeskTicket {
+  id: string;
+  subject: string;
+  body: string;
+  priority: string | number;
+  tags: string[];
+  status: HelpdeskStatus;
+  comments: string[];
+  request: Record<string, any>; // Body the ticket was created with
+}
+
+const JIRA_CATEGORY: Record<HelpdeskStatus, { key: string; name: string }> = {
+  open: { key: 'new', name: 'Waiting for support' },
+  pending: { key: 'indeterminate', name: 'Waiting for customer' },
+  in_progress: { key: 'indeterminate', name: 'In progress' },
+  solved: { key: 'done', name: 'Resolved' },
+  closed: { key: 'done', name: 'Closed' },
+};
+
+const JIRA_TRANSITIONS = [
+  { id: '11', status: 'open' as const },
+  { id: '21', status: 'in_progress' as const },
+  { id: '31', status: 'solved' as const },
+];
+
+const FRESHDESK_CODES: Record<HelpdeskStatus, number> = { open: 2, pending: 3, in_progress: 2, solved: 4, closed: 5 };
+const FRESHDESK_NAMES: Record<HelpdeskStatus, string> = { open: 'Open', pending: 'Pending', in_progress: 'Open', solved: 'Resolved', closed: 'Closed' };
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+export class FakeHelpdeskServer {
+  readonly tickets = new Map<string, FakeHelpdeskTicket>();
+  readonly requests: Array<{ method: string; path: string; body: any }> = [];
+
+  private server: http.Server | null = null;
+  private nextId = 1;
+  private failures = 0;
+  private baseUrl = '';
+
+  constructor(private readonly options: FakeHelpdeskOptions) {}
+
+  get url(): string {
+    return this.baseUrl;
+  }
+
+  get provider(): HelpdeskProvider {
+    return this.options.provider;
+  }
+
+  /**
+   * Listen on localhost (port 0: any free port); resolves to the base URL
+   */
+  async start(port: number = 0): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        logger.error({ error }, 'Fake helpdesk request failed');
+        res.writeHead(500).end();
+      });
+    });
+
+    await new Promise<void>((resolve) => this.server!.listen(port, '127.0.0.1', resolve));
+    this.baseUrl = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  /**
+   * Answer the next `count` API requests with 503
+   */
+  failNext(count: number = 1): void {
+    this.failures = count;
+  }
+
+  /**
+   * Change a ticket's status as a helpdesk agent would, and send the
+   * status webhook (unless notify is false)
+   */
+  async setStatus(id: string, status: HelpdeskStatus, options: { assignee?: string; notify?: boolean } = {}): Promise<Response | null> {
+    const ticket = this.tickets.get(id);
+    if (!ticket) throw new Error(`No fake helpdesk ticket ${id}`);
+    ticket.status = status;
+
+    if (options.notify === false || !this.options.webhookUrl) return null;
+    return this.sendWebhook(ticket, options.assignee ?? 'Helpdesk Agent');
+  }
+
+  private async sendWebhook(ticket: FakeHelpdeskTicket, assignee: string): Promise<Response> {
+    const secret = this.options.webhookSecret ?? '';
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    let payload: unknown;
+
+    switch (this.options.provider) {
+      case 'zendesk': {
+        payload = {
+          type: 'zen:event-type:ticket.status_changed',
+          detail: { id: ticket.id },
+          event: { current: ticket.status.toUpperCase() },
+        };
+        const timestamp = new Date().toISOString();
+        headers['x-zendesk-webhook-signature-timestamp'] = timestamp;
+        headers['x-zendesk-webhook-signature'] = crypto.createHmac('sha256', secret).update(timestamp + JSON.stringify(payload)).digest('base64');
+        break;
+      }
+      case 'freshdesk':
+        payload = { freshdesk_webhook: { ticket_id: ticket.id, ticket_status: FRESHDESK_NAMES[ticket.status], ticket_agent_name: assignee } };
+        headers['x-helpdesk-token'] = secret;
+        break;
+      case 'jira':
+        payload = {
+          webhookEvent: 'jira:issue_updated',
+          issue: { key: ticket.id, fields: { status: this.jiraStatus(ticket.status), assignee: { displayName: assignee } } },
+        };
+        headers['x-hub-signature'] = `sha256=${signPayload(JSON.stringify(payload), secret)}`;
+        break;
+    }
+
+    return fetch(this.options.webhookUrl!, { method: 'POST', headers, body: JSON.stringify(payload) });
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const text = Buffer.concat(chunks).toString('utf8');
+    const body = text ? JSON.parse(text) : null;
+    const method = req.method ?? 'GET';
+    const path = (req.url ?? '/').split('?')[0];
+    this.requests.push({ method, path, body });
+
+    const reply = (status: number, data?: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(data === undefined ? '' : JSON.stringify(data));
+    };
+
+    if (!req.headers.authorization?.startsWith('Basic ')) {
+      return reply(401, { error: 'Unauthorized' });
+    }
+    if (this.failures > 0) {
+      this.failures--;
+      return reply(503, { error: 'Service unavailable' });
+    }
+
+    try {
+      const result = this.route(method, path, body);
+      reply(result.status, result.data);
+    } catch (error) {
+      if (error instanceof HttpError) return reply(error.status, { error: error.message });
+      throw error;
+    }
+  }
+
+  private route(method: string, path: string, body: any): { status: number; data?: unknown } {
+    switch (this.options.provider) {
+      case 'zendesk':
+        return this.routeZendesk(method, path, body);
+      case 'freshdesk':
+        return this.routeFreshdesk(method, path, body);
+      case 'jira':
+        return this.routeJira(method, path, body);
+    }
+  }
+
+  private routeZendesk(method: string, path: string, body: any): { status: number; data?: unknown } {
+    const toJson = (ticket: FakeHelpdeskTicket) => ({ ticket: { id: Number(ticket.id), status: ticket.status, subject: ticket.subject, priority: ticket.priority } });
+
+    if (method === 'POST' && path === '/api/v2/tickets.json') {
+      const ticket = this.create(String(this.nextId++), body, {
+        subject: body.ticket.subject,
+        body: body.ticket.comment?.body ?? '',
+        priority: body.ticket.priority,
+        tags: body.ticket.tags ?? [],
+      });
+      return { status: 201, data: toJson(ticket) };
+    }
+
+    const match = path.match(/^\/api\/v2\/tickets\/(\d+)\.json$/);
+    const ticket = match && this.find(match[1]);
+    if (ticket && method === 'GET') return { status: 200, data: toJson(ticket) };
+    if (ticket && method === 'PUT') {
+      if (body.ticket.comment?.body) ticket.comments.push(body.ticket.comment.body);
+      if (body.ticket.status) ticket.status = body.ticket.status;
+      return { status: 200, data: toJson(ticket) };
+    }
+    throw new HttpError(404, `No route ${method} ${path}`);
+  }
+
+  private routeFreshdesk(method: string, path: string, body: any): { status: number; data?: unknown } {
+    const toJson = (ticket: FakeHelpdeskTicket) => ({ id: Number(ticket.id), status: FRESHDESK_CODES[ticket.status], subject: ticket.subject, priority: ticket.priority });
+
+    if (method === 'POST' && path === '/api/v2/tickets') {
+      const ticket = this.create(String(this.nextId++), body, {
+        subject: body.subject,
+        body: body.description,
+        priority: body.priority,
+        tags: body.tags ?? [],
+      });
+      return { status: 201, data: toJson(ticket) };
+    }
+
+    const notes = path.match(/^\/api\/v2\/tickets\/(\d+)\/notes$/);
+    if (notes && method === 'POST') {
+      this.find(notes[1]).comments.push(body.body);
+      return { status: 201, data: { body: body.body, private: body.private } };
+    }
+
+    const match = path.match(/^\/api\/v2\/tickets\/(\d+)$/);
+    const ticket = match && this.find(match[1]);
+    if (ticket && method === 'GET') return { status: 200, data: toJson(ticket) };
+    if (ticket && method === 'PUT') {
+      const status = (Object.keys(FRESHDESK_CODES) as HelpdeskStatus[]).find((key) => FRESHDESK_CODES[key] === body.status);
+      if (status) ticket.status = status;
+      return { status: 200, data: toJson(ticket) };
+    }
+    throw new HttpError(404, `No route ${method} ${path}`);
+  }
+
+  private routeJira(method: string, path: string, body: any): { status: number; data?: unknown } {
+    if (method === 'POST' && path === '/rest/servicedeskapi/request') {
+      const fields = body.requestFieldValues;
+      const ticket = this.create(`SUP-${this.nextId++}`, body, {
+        subject: fields.summary,
+        body: fields.description,
+        priority: fields.priority?.name,
+        tags: fields.labels ?? [],
+      });
+      return {
+        status: 201,
+        data: {
+          issueId: ticket.id.replace('SUP-', '100'),
+          issueKey: ticket.id,
+          currentStatus: { status: JIRA_CATEGORY.open.name, statusCategory: 'NEW' },
+          _links: { web: `${this.baseUrl}/servicedesk/customer/portal/1/${ticket.id}` },
+        },
+      };
+    }
+
+    const comment = path.match(/^\/rest\/servicedeskapi\/request\/([A-Z]+-\d+)\/comment$/);
+    if (comment && method === 'POST') {
+      this.find(comment[1]).comments.push(body.body);
+      return { status: 201, data: { body: body.body, public: body.public } };
+    }
+
+    const transitions = path.match(/^\/rest\/api\/3\/issue\/([A-Z]+-\d+)\/transitions$/);
+    if (transitions && method === 'GET') {
+      this.find(transitions[1]);
+      return {
+        status: 200,
+        data: { transitions: JIRA_TRANSITIONS.map((t) => ({ id: t.id, name: JIRA_CATEGORY[t.status].name, to: this.jiraStatus(t.status) })) },
+      };
+    }
+    if (transitions && method === 'POST') {
+      const transition = JIRA_TRANSITIONS.find((t) => t.id === body.transition?.id);
+      if (!transition) throw new HttpError(400, 'Unknown transition');
+      this.find(transitions[1]).status = transition.status;
+      return { status: 204 };
+    }
+
+    const issue = path.match(/^\/rest\/api\/3\/issue\/([A-Z]+-\d+)$/);
+    if (issue && method === 'GET') {
+      const ticket = this.find(issue[1]);
+      return { status: 200, data: { key: ticket.id, fields: { status: this.jiraStatus(ticket.status) } } };
+    }
+    throw new HttpError(404, `No route ${method} ${path}`);
+  }
+
+  private jiraStatus(status: HelpdeskStatus) {
+    const category = JIRA_CATEGORY[status];
+    return { name: category.name, statusCategory: { key: category.key } };
+  }
+
+  private create(id: string, request: any, fields: Pick<FakeHelpdeskTicket, 'subject' | 'body' | 'priority' | 'tags'>): FakeHelpdeskTicket {
+    const ticket: FakeHelpdeskTicket = { id, ...fields, status: 'open', comments: [], request };
+    this.tickets.set(id, ticket);
+    return ticket;
+  }
+
+  private find(id: string): FakeHelpdeskTicket {
+    const ticket = this.tickets.get(id);
+    if (!ticket) throw new HttpError(404, `Ticket ${id} not found`);
+    return ticket;
+  }
+}
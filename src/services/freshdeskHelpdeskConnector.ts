@@ -0,0 +1,145 @@
+import crypto from 'crypto';
+import {
+  basicAuth,
+  formatTicketBody,
+  helpdeskRequest,
+  ticketTags,
+  type HeaderReader,
+  type HelpdeskConfig,
+  type HelpdeskConnector,
+  type HelpdeskStatus,
+  type HelpdeskStatusChange,
+  type HelpdeskTicketExport,
+  type HelpdeskTicketRef,
+  type UrgencyLevel,
+} from './helpdeskConnector';
+import type { SignatureVerificationResult } from '../utils/webhookSignature';
+
+/**
+ * Freshdesk
+ *
+ * Tickets API v2 with the agent's API key (HELPDESK_API_TOKEN). The driver
+ * is the requester, identified by unique_external_id "discord:<id>" (or
+ * "web:<id>").
+ *
+ * Freshdesk webhooks aren't signed: the automation rule's webhook sends one
+ * of HELPDESK_WEBHOOK_SECRETS in an X-Helpdesk-Token header, with the body
+ * {"freshdesk_webhook": {"ticket_id": "{{ticket.id}}",
+ * "ticket_status": "{{ticket.status}}", "ticket_agent_name": "{{ticket.agent.name}}"}}.
+ */
+
+const PRIORITY_BY_URGENCY: Record<UrgencyLevel, number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+  critical: 4,
+};
+
+const STATUS_CODES: Record<'open' | 'solved', number> = { open: 2, solved: 4 };
+
+const STATUS_BY_CODE: Record<number, HelpdeskStatus> = {
+  2: 'open',
+  3: 'pending',
+  4: 'solved',
+  5: 'closed',
+};
+
+const STATUS_BY_NAME: Record<string, HelpdeskStatus> = {
+  open: 'open',
+  pending: 'pending',
+  resolved: 'solved',
+  closed: 'closed',
+};
+
+/**
+ * Custom statuses (6 and up, or their names) are waiting states
+ */
+function toStatus(status: unknown): HelpdeskStatus | null {
+  if (typeof status === 'number' || (typeof status === 'string' && /^\d+$/.test(status.trim()))) {
+    const code = Number(status);
+    return STATUS_BY_CODE[code] ?? (code > 5 ? 'pending' : null);
+  }
+  if (typeof status === 'string' && status.trim()) {
+    return STATUS_BY_NAME[status.trim().toLowerCase()] ?? 'pending';
+  }
+  return null;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export class FreshdeskHelpdeskConnector implements HelpdeskConnector {
+  readonly provider = 'freshdesk' as const;
+
+  constructor(private config: HelpdeskConfig) {}
+
+  async createTicket(ticket: HelpdeskTicketExport): Promise<HelpdeskTicketRef> {
+    const response = await this.request('POST', '/api/v2/tickets', {
+      subject: ticket.subject,
+      description: escapeHtml(formatTicketBody(ticket)).replace(/\n/g, '<br>'),
+      name: ticket.requester.name,
+      unique_external_id: `${ticket.channel || 'discord'}:${ticket.requester.id}`,
+      priority: PRIORITY_BY_URGENCY[ticket.urgencyLevel],
+      status: STATUS_CODES.open,
+      tags: [...ticketTags(ticket), ticket.ticketId],
+    });
+
+    const id = String(response.id);
+    return {
+      externalId: id,
+      url: `${this.config.baseUrl.replace(/\/+$/, '')}/a/tickets/${id}`,
+      status: toStatus(response.status) ?? 'open',
+    };
+  }
+
+  async getStatus(externalId: string): Promise<HelpdeskStatus> {
+    const response = await this.request('GET', `/api/v2/tickets/${encodeURIComponent(externalId)}`);
+    const status = toStatus(response?.status);
+    if (!status) {
+      throw new Error(`Unknown Freshdesk status for ticket ${externalId}: ${response?.status}`);
+    }
+    return status;
+  }
+
+  async setStatus(externalId: string, status: 'solved' | 'open', comment?: string): Promise<void> {
+    const id = encodeURIComponent(externalId);
+    if (comment) {
+      await this.request('POST', `/api/v2/tickets/${id}/notes`, { body: escapeHtml(comment), private: true });
+    }
+    await this.request('PUT', `/api/v2/tickets/${id}`, { status: STATUS_CODES[status] });
+  }
+
+  /**
+   * Shared token in X-Helpdesk-Token
+   */
+  verifyWebhook(_rawBody: string, header: HeaderReader, secrets: string[]): SignatureVerificationResult {
+    const token = header('x-helpdesk-token');
+    if (!token) {
+      return { valid: false, error: 'Missing token' };
+    }
+
+    const received = crypto.createHash('sha256').update(token).digest();
+    for (let i = 0; i < secrets.length; i++) {
+      if (crypto.timingSafeEqual(received, crypto.createHash('sha256').update(secrets[i]).digest())) {
+        return { valid: true, secretIndex: i };
+      }
+    }
+    return { valid: false, error: 'Token mismatch' };
+  }
+
+  parseWebhook(payload: any): HelpdeskStatusChange | null {
+    const webhook = payload?.freshdesk_webhook ?? payload;
+    const status = toStatus(webhook?.ticket_status);
+    const id = webhook?.ticket_id;
+    if (!status || !id) return null;
+    return { externalId: String(id), status, assignee: webhook.ticket_agent_name || null };
+  }
+
+  private request(method: string, path: string, body?: unknown): Promise<any> {
+    return helpdeskRequest(this.config, method, path, {
+      authorization: basicAuth(this.config.apiToken, 'X'),
+      body,
+    });
+  }
+}
@@ -0,0 +1,466 @@
+import { z } from 'zod';
+import { getDb, type Database } from '../db';
+import type { EscalationContext, EscalationTicket } from './escalationService';
+import type { SupportedLanguage } from './languageService';
+import { getModelProviderRegistry, type ModelProviderRegistry } from './modelProvider';
+import { SentimentAnalysisService, type ConversationSentimentTrajectory } from './sentimentAnalysisService';
+import type { WorkflowSession } from './workflowEngine';
+import { logger } from '../utils/logger';
+
+/**
+ * Handoff Summary
+ *
+ * What the human agent taking over an escalation needs without reading the
+ * whole thread: the problem, the station / connector / charging session ids
+ * and vehicle mentioned, what was already tried (including the diagnostic
+ * workflow's path and tool results), how the driver's mood went, and what
+ * to do next.
+ *
+ * The facts come from the escalation context, the driver's latest
+ * diagnostic workflow session and the sentiment trajectory. A model (chain
+ * "handoff" in LLM_AGENT_MODELS, else the chat task's) writes the summary
+ * in the desk's working language, DESK_WORKING_LANGUAGE (default en),
+ * whatever language the driver wrote in. Without a model, or when its reply
+ * doesn't validate, the summary is put together from the facts alone.
+ */
+
+export interface HandoffIdentifiers {
+  stationIds: string[];
+  connectorIds: string[];
+  sessionIds: string[];
+}
+
+export interface HandoffWorkflowPath {
+  workflowId: string;
+  workflowName: string;
+  status: WorkflowSession['status'];
+  steps: string[]; // Step ids in the order the driver went through them
+  toolResults: Array<{ tool: string; status: string; error?: string }>;
+  escalationReason?: string;
+}
+
+export interface HandoffSentimentArc {
+  start: string | null;
+  end: string | null;
+  trend: string | null; // improving, declining, stable, volatile
+  escalationRiskScore: number | null;
+  description: string;
+}
+
+export interface HandoffSummary extends HandoffIdentifiers {
+  language: SupportedLanguage; // Working language the summary is written in
+  customerLanguage: SupportedLanguage | null;
+  problemStatement: string;
+  vehicleModel: string | null;
+  stepsTried: string[];
+  diagnosticWorkflow: HandoffWorkflowPath | null;
+  sentimentArc: HandoffSentimentArc;
+  suggestedNextAction: string;
+  generatedBy: string; // "providerId/model", or "rules"
+}
+
+export interface HandoffTicketInfo {
+  issueType: EscalationTicket['issueType'];
+  issueCategory?: string;
+  urgencyLevel: EscalationTicket['urgencyLevel'];
+  customerLanguage?: SupportedLanguage | null;
+  caseFacts?: string; // EscalationService.generateSummary()
+}
+
+/**
+ * Everything the summary is written from
+ */
+interface HandoffFacts extends HandoffIdentifiers {
+  vehicleModel: string | null;
+  workflow: HandoffWorkflowPath | null;
+  trajectory: ConversationSentimentTrajectory | null;
+}
+
+const WORKING_LANGUAGES: SupportedLanguage[] = ['he', 'en', 'ru', 'ar'];
+const LANGUAGE_NAMES: Record<SupportedLanguage, string> = { he: 'Hebrew', en: 'English', ru: 'Russian', ar: 'Arabic' };
+
+const MAX_PROMPT_MESSAGES = 40;
+const MAX_MESSAGE_CHARS = 1000;
+const SUMMARY_TIMEOUT_MS = 20_000;
+// Workflow sessions older than the conversation plus this are not part of it
+const WORKFLOW_LOOKBACK_MS = 60 * 60 * 1000;
+
+const modelReplySchema = z.object({
+  problemStatement: z.string().trim().min(1).max(1000),
+  stationIds: z.array(z.coerce.string()).default([]),
+  connectorIds: z.array(z.coerce.string()).default([]),
+  sessionIds: z.array(z.coerce.string()).default([]),
+  vehicleModel: z.string().trim().max(200).nullable().default(null),
+  stepsTried: z.array(z.string().trim().min(1).max(500)).max(20).default([]),
+  sentimentArc: z.string().trim().min(1).max(500),
+  suggestedNextAction: z.string().trim().min(1).max(500),
+});
+
+type Labels = Record<'problem' | 'driver' | 'stations' | 'connectors' | 'sessions' | 'vehicle' | 'tried' | 'workflow' | 'tools' | 'sentiment' | 'next', string>;
+
+const LABELS: Record<SupportedLanguage, Labels> = {
+  en: {
+    problem: 'Problem', driver: 'Driver', stations: 'Stations', connectors: 'Connectors', sessions: 'Charging sessions',
+    vehicle: 'Vehicle', tried: 'Already tried', workflow: 'Diagnostic workflow', tools: 'Tool results',
+    sentiment: 'Customer sentiment', next: 'Suggested next action',
+  },
+  he: {
+    problem: 'הבעיה', driver: 'נהג', stations: 'עמדות', connectors: 'שקעים', sessions: 'סשנים של טעינה',
+    vehicle: 'רכב', tried: 'מה כבר נוסה', workflow: 'תהליך אבחון', tools: 'תוצאות כלים',
+    sentiment: 'מצב רוח הלקוח', next: 'הצעד הבא המומלץ',
+  },
+  ru: {
+    problem: 'Проблема', driver: 'Водитель', stations: 'Станции', connectors: 'Разъёмы', sessions: 'Сессии зарядки',
+    vehicle: 'Автомобиль', tried: 'Уже сделано', workflow: 'Диагностический сценарий', tools: 'Результаты инструментов',
+    sentiment: 'Настроение клиента', next: 'Рекомендуемый следующий шаг',
+  },
+  ar: {
+    problem: 'المشكلة', driver: 'السائق', stations: 'المحطات', connectors: 'الموصلات', sessions: 'جلسات الشحن',
+    vehicle: 'المركبة', tried: 'ما تمت تجربته', workflow: 'مسار التشخيص', tools: 'نتائج الأدوات',
+    sentiment: 'مزاج العميل', next: 'الخطوة التالية المقترحة',
+  },
+};
+
+// Used when no model is available
+const FALLBACK_NEXT_ACTION: Record<SupportedLanguage, Record<EscalationTicket['issueType'], string>> = {
+  en: {
+    technical: 'Check the station and connector remotely, then call the driver with the result.',
+    billing: 'Review the charging session and payment records, then confirm charges or a refund with the driver.',
+    account: "Verify the driver's identity and fix the account or RFID card issue.",
+    general: "Read the driver's last messages and contact them to clarify what they need.",
+  },
+  he: {
+    technical: 'לבדוק מרחוק את העמדה והשקע ולהתקשר לנהג עם התוצאה.',
+    billing: 'לבדוק את סשן הטעינה ורישומי התשלום ולאשר מול הנהג חיוב או החזר.',
+    account: 'לאמת את זהות הנהג ולתקן את בעיית החשבון או כרטיס ה-RFID.',
+    general: 'לקרוא את ההודעות האחרונות של הנהג ולפנות אליו כדי להבין מה הוא צריך.',
+  },
+  ru: {
+    technical: 'Проверить станцию и разъём удалённо и перезвонить водителю с результатом.',
+    billing: 'Проверить сессию зарядки и платежи, затем подтвердить с водителем списание или возврат.',
+    account: 'Подтвердить личность водителя и исправить проблему с аккаунтом или RFID-картой.',
+    general: 'Прочитать последние сообщения водителя и связаться с ним, чтобы уточнить запрос.',
+  },
+  ar: {
+    technical: 'افحص المحطة والموصل عن بُعد ثم اتصل بالسائق بالنتيجة.',
+    billing: 'راجع جلسة الشحن وسجلات الدفع ثم أكّد مع السائق الرسوم أو الاسترداد.',
+    account: 'تحقق من هوية السائق وأصلح مشكلة الحساب أو بطاقة RFID.',
+    general: 'اقرأ آخر رسائل السائق وتواصل معه لتوضيح ما يحتاجه.',
+  },
+};
+
+export function resolveWorkingLanguage(): SupportedLanguage {
+  const language = process.env.DESK_WORKING_LANGUAGE?.trim().toLowerCase() as SupportedLanguage | undefined;
+  return language && WORKING_LANGUAGES.includes(language) ? language : 'en';
+}
+
+function collectIds(source: unknown, pattern: RegExp, found: Set<string>, depth: number = 0): void {
+  if (!source || typeof source !== 'object' || depth > 3) return;
+
+  for (const [key, value] of Object.entries(source as Record<string, unknown>)) {
+    if (pattern.test(key)) {
+      for (const id of Array.isArray(value) ? value : [value]) {
+        if (typeof id === 'string' || typeof id === 'number') found.add(String(id));
+      }
+    } else if (value && typeof value === 'object') {
+      collectIds(value, pattern, found, depth + 1);
+    }
+  }
+}
+
+/**
+ * Station, connector and charging session ids from the escalation context:
+ * stations involved, plus stationId / connectorId / sessionIds ... keys in
+ * the diagnostics and technical details the specialists attached
+ */
+export function extractIdentifiers(context: Partial<EscalationContext> | null | undefined): HandoffIdentifiers {
+  const stations = new Set<string>((context?.stationsInvolved ?? []).map(String));
+  const connectors = new Set<string>();
+  const sessions = new Set<string>();
+
+  for (const details of [context?.technicalDetails, context?.diagnosticResults]) {
+    collectIds(details, /^(station|charger|chargePoint)_?ids?$/i, stations);
+    collectIds(details, /^(evse_?|connector_?)ids?$/i, connectors);
+    collectIds(details, /^(charging_?)?session_?ids?$/i, sessions);
+  }
+
+  return { stationIds: [...stations], connectorIds: [...connectors], sessionIds: [...sessions] };
+}
+
+function findVehicleModel(context: EscalationContext): string | null {
+  const found = new Set<string>();
+  for (const details of [context.technicalDetails, context.diagnosticResults]) {
+    collectIds(details, /^(vehicle|car)_?(model)?$/i, found);
+  }
+  return found.values().next().value ?? null;
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+    timer.unref();
+    promise.then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+}
+
+/**
+ * The summary as text, for conversation_summary and the helpdesk
+ */
+export function formatHandoffSummary(summary: HandoffSummary, driver?: { name: string; id: string }): string {
+  const labels = LABELS[summary.language];
+  const lines = [`${labels.problem}: ${summary.problemStatement}`];
+
+  if (driver) lines.push(`${labels.driver}: ${driver.name} (${driver.id})`);
+  if (summary.stationIds.length > 0) lines.push(`${labels.stations}: ${summary.stationIds.join(', ')}`);
+  if (summary.connectorIds.length > 0) lines.push(`${labels.connectors}: ${summary.connectorIds.join(', ')}`);
+  if (summary.sessionIds.length > 0) lines.push(`${labels.sessions}: ${summary.sessionIds.join(', ')}`);
+  if (summary.vehicleModel) lines.push(`${labels.vehicle}: ${summary.vehicleModel}`);
+
+  if (summary.stepsTried.length > 0) {
+    lines.push('', `${labels.tried}:`, ...summary.stepsTried.map((step) => `- ${step}`));
+  }
+
+  const workflow = summary.diagnosticWorkflow;
+  if (workflow) {
+    lines.push('', `${labels.workflow}: ${workflow.workflowName} (${workflow.status}): ${workflow.steps.join(' → ')}`);
+    if (workflow.toolResults.length > 0) {
+      lines.push(`${labels.tools}:`, ...workflow.toolResults.map((run) => `- ${run.tool}: ${run.status}${run.error ? ` (${run.error})` : ''}`));
+    }
+  }
+
+  lines.push('', `${labels.sentiment}: ${summary.sentimentArc.description}`);
+  lines.push(`${labels.next}: ${summary.suggestedNextAction}`);
+  return lines.join('\n');
+}
+
+export class HandoffSummaryService {
+  constructor(
+    private registry: ModelProviderRegistry = getModelProviderRegistry(),
+    private db: Database = getDb()
+  ) {}
+
+  /**
+   * Write the handoff summary for an escalation. Never throws.
+   */
+  async summarize(context: EscalationContext, ticket: HandoffTicketInfo, language: SupportedLanguage = resolveWorkingLanguage()): Promise<HandoffSummary> {
+    const facts = await this.gatherFacts(context);
+
+    if (this.registry.isConfigured({ task: 'chat', agent: 'handoff' })) {
+      try {
+        return await withTimeout(this.summarizeWithModel(context, ticket, facts, language), SUMMARY_TIMEOUT_MS);
+      } catch (error) {
+        logger.warn({ error, userId: context.userId }, 'Model handoff summary failed, using the rule-based one');
+      }
+    }
+
+    return this.summarizeFromFacts(context, ticket, facts, language);
+  }
+
+  private async summarizeWithModel(
+    context: EscalationContext,
+    ticket: HandoffTicketInfo,
+    facts: HandoffFacts,
+    language: SupportedLanguage
+  ): Promise<HandoffSummary> {
+    const transcript = context.messages.slice(-MAX_PROMPT_MESSAGES)
+      .map((message) => `${message.role === 'user' ? 'Driver' : message.role === 'assistant' ? 'Bot' : 'System'}: ${message.content.slice(0, MAX_MESSAGE_CHARS)}`)
+      .join('\n');
+
+    const response = await this.registry.complete({ task: 'chat', agent: 'handoff' }, {
+      messages: [
+        {
+          role: 'system',
+          content: `You hand EV charging support conversations over from the support bot to a human agent.
+Write a handoff summary as a JSON object with these fields:
+- problemStatement: the driver's problem in one or two sentences
+- stationIds, connectorIds, sessionIds: ids of charging stations, connectors and charging sessions mentioned
+- vehicleModel: the driver's car (make and model), or null
+- stepsTried: what the bot and the driver already tried and what came of it, including the diagnostic workflow and tool results
+- sentimentArc: one sentence on how the driver's mood developed during the conversation
+- suggestedNextAction: the single most useful thing the human agent should do next
+
+Write every text field in ${LANGUAGE_NAMES[language]}, whatever language the conversation is in.
+Copy ids, error codes and car models exactly as they appear. Do not invent facts.`,
+        },
+        {
+          role: 'user',
+          content: `Ticket: ${ticket.issueType}${ticket.issueCategory ? ` / ${ticket.issueCategory}` : ''}, urgency ${ticket.urgencyLevel}
+
+Known facts:
+${JSON.stringify({
+  stationIds: facts.stationIds,
+  connectorIds: facts.connectorIds,
+  sessionIds: facts.sessionIds,
+  vehicleModel: facts.vehicleModel,
+  errors: context.errorsEncountered,
+  actionsTaken: context.actionsTaken,
+  diagnosticWorkflow: facts.workflow,
+  sentimentTrajectory: facts.trajectory,
+  sentimentHistory: context.sentimentHistory.map((entry) => `${entry.sentiment} (${entry.score})`),
+}, null, 2)}
+${ticket.caseFacts ? `\n${ticket.caseFacts}\n` : ''}
+Conversation:
+${transcript}`,
+        },
+      ],
+      temperature: 0.2,
+      maxTokens: 800,
+      json: true,
+    });
+
+    const reply = modelReplySchema.parse(JSON.parse(response.text));
+
+    // Only ids that really are in the conversation, so a made-up id can't send the agent to the wrong charger
+    const source = `${JSON.stringify(context.messages.map((message) => message.content))}${JSON.stringify(context.technicalDetails ?? {})}${JSON.stringify(context.diagnosticResults ?? {})}`;
+    const merge = (known: string[], mentioned: string[]) =>
+      [...new Set([...known, ...mentioned.map((id) => id.trim()).filter((id) => id && source.includes(id))])];
+
+    return {
+      language,
+      customerLanguage: ticket.customerLanguage ?? null,
+      problemStatement: reply.problemStatement,
+      stationIds: merge(facts.stationIds, reply.stationIds),
+      connectorIds: merge(facts.connectorIds, reply.connectorIds),
+      sessionIds: merge(facts.sessionIds, reply.sessionIds),
+      vehicleModel: facts.vehicleModel ?? reply.vehicleModel,
+      stepsTried: reply.stepsTried,
+      diagnosticWorkflow: facts.workflow,
+      sentimentArc: { ...this.sentimentArc(context, facts.trajectory), description: reply.sentimentArc },
+      suggestedNextAction: reply.suggestedNextAction,
+      generatedBy: `${response.providerId}/${response.model}`,
+    };
+  }
+
+  private summarizeFromFacts(
+    context: EscalationContext,
+    ticket: HandoffTicketInfo,
+    facts: HandoffFacts,
+    language: SupportedLanguage
+  ): HandoffSummary {
+    const firstMessage = context.messages.find((message) => message.role === 'user')?.content ?? '';
+    const problem = [
+      `${ticket.issueType}${ticket.issueCategory ? ` / ${ticket.issueCategory}` : ''}`,
+      context.errorsEncountered.length > 0 ? context.errorsEncountered.join(', ') : null,
+    ].filter(Boolean).join(': ');
+
+    const stepsTried = [...context.actionsTaken];
+    if (facts.workflow) {
+      stepsTried.push(...facts.workflow.toolResults.map((run) => `${run.tool}: ${run.status}${run.error ? ` (${run.error})` : ''}`));
+    }
+
+    return {
+      language,
+      customerLanguage: ticket.customerLanguage ?? null,
+      problemStatement: firstMessage
+        ? `${problem}. "${firstMessage.slice(0, 300)}${firstMessage.length > 300 ? '...' : ''}"`
+        : problem,
+      stationIds: facts.stationIds,
+      connectorIds: facts.connectorIds,
+      sessionIds: facts.sessionIds,
+      vehicleModel: facts.vehicleModel,
+      stepsTried,
+      diagnosticWorkflow: facts.workflow,
+      sentimentArc: this.sentimentArc(context, facts.trajectory),
+      suggestedNextAction: FALLBACK_NEXT_ACTION[language][ticket.issueType],
+      generatedBy: 'rules',
+    };
+  }
+
+  private sentimentArc(context: EscalationContext, trajectory: ConversationSentimentTrajectory | null): HandoffSentimentArc {
+    const history = context.sentimentHistory;
+    const start = trajectory?.initial_sentiment ?? history[0]?.sentiment ?? null;
+    const end = trajectory?.current_sentiment ?? history[history.length - 1]?.sentiment ?? null;
+    const trend = trajectory?.sentiment_trend ?? null;
+    const risk = trajectory ? Number(trajectory.escalation_risk_score) : null;
+
+    const parts = [start && end ? `${start} → ${end}` : start ?? end ?? 'unknown'];
+    if (trend) parts.push(trend);
+    if (risk !== null && !Number.isNaN(risk)) parts.push(`risk ${Math.round(risk * 100)}%`);
+    if (trajectory?.dominant_emotion) parts.push(trajectory.dominant_emotion);
+
+    return { start, end, trend, escalationRiskScore: risk, description: parts.join(', ') };
+  }
+
+  private async gatherFacts(context: EscalationContext): Promise<HandoffFacts> {
+    const [found, trajectory] = await Promise.all([
+      this.findWorkflowSession(context).catch((error) => {
+        logger.warn({ error, userId: context.userId }, 'Could not load the diagnostic workflow for the handoff summary');
+        return null;
+      }),
+      this.findTrajectory(context).catch((error) => {
+        logger.warn({ error, userId: context.userId }, 'Could not load the sentiment trajectory for the handoff summary');
+        return null;
+      }),
+    ]);
+
+    const identifiers = extractIdentifiers(context);
+    // The workflow's context and tool calls often name the station or session
+    const fromWorkflow = extractIdentifiers({ technicalDetails: found?.details });
+    const union = (a: string[], b: string[]) => [...new Set([...a, ...b])];
+
+    return {
+      stationIds: union(identifiers.stationIds, fromWorkflow.stationIds),
+      connectorIds: union(identifiers.connectorIds, fromWorkflow.connectorIds),
+      sessionIds: union(identifiers.sessionIds, fromWorkflow.sessionIds),
+      vehicleModel: findVehicleModel(context),
+      workflow: found?.path ?? null,
+      trajectory,
+    };
+  }
+
+  /**
+   * The driver's diagnostic workflow session during this conversation, as
+   * the path taken, plus its context and tool params for the ids in them
+   */
+  private async findWorkflowSession(context: EscalationContext): Promise<{ path: HandoffWorkflowPath; details: Record<string, unknown> } | null> {
+    // Loaded on demand: the engine pulls in the workflow tools
+    const { workflowEngine } = await import('./workflowEngine');
+    const since = new Date(Date.now() - context.conversationDuration * 1000 - WORKFLOW_LOOKBACK_MS);
+    const session = await workflowEngine.getLatestSession(context.userId, since);
+    if (!session) return null;
+
+    const { getWorkflowDefinitionService } = await import('./workflowDefinitionService');
+    const resolved = await getWorkflowDefinitionService().resolveWorkflow(session.workflowId, session.context.workflowVersion);
+
+    const steps = session.stepHistory.map((entry) => entry.stepId);
+    if (steps[steps.length - 1] !== session.currentStepId) steps.push(session.currentStepId);
+
+    const toolRuns = session.stepHistory.flatMap((entry) => (entry.toolRun ? [entry.toolRun] : []));
+
+    return {
+      path: {
+        workflowId: session.workflowId,
+        workflowName: resolved?.workflow.name.en ?? session.workflowId,
+        status: session.status,
+        steps,
+        toolResults: toolRuns.map((run) => ({
+          tool: run.toolName,
+          status: run.status,
+          ...(run.error ? { error: run.error } : {}),
+        })),
+        escalationReason: session.escalationReason,
+      },
+      details: { context: session.context, params: toolRuns.map((run) => run.params) },
+    };
+  }
+
+  private async findTrajectory(context: EscalationContext): Promise<ConversationSentimentTrajectory | null> {
+    const sentiment = new SentimentAnalysisService(this.db);
+    for (const conversationId of [context.threadId, context.userId]) {
+      if (!conversationId) continue;
+      const trajectory = await sentiment.getConversationTrajectory(conversationId);
+      if (trajectory) return trajectory;
+    }
+    return null;
+  }
+}
+
+// Singleton instance
+let handoffSummaryInstance: HandoffSummaryService | null = null;
+
+export function getHandoffSummaryService(): HandoffSummaryService {
+  if (!handoffSummaryInstance) {
+    handoffSummaryInstance = new HandoffSummaryService();
+  }
+  return handoffSummaryInstance;
+}
@@ -0,0 +1,224 @@
+import type { EscalationTicket } from './escalationService';
+import type { SignatureVerificationResult } from '../utils/webhookSignature';
+
+/**
+ * Helpdesk Connectors
+ *
+ * The human support team works escalations in an external helpdesk. A
+ * connector creates the helpdesk ticket for an escalation, reads and sets
+ * its status, and understands the status webhooks the helpdesk sends back.
+ * helpdeskSync keeps escalation_tickets and the helpdesk in step.
+ *
+ * HELPDESK_PROVIDER picks the helpdesk (zendesk, freshdesk, jira); without
+ * it tickets stay in the agent desk only. HELPDESK_BASE_URL is the account
+ * URL (https://acme.zendesk.com, https://acme.freshdesk.com,
+ * https://acme.atlassian.net), HELPDESK_API_TOKEN the API token (Freshdesk:
+ * API key) and HELPDESK_EMAIL the API user for Zendesk and Jira.
+ */
+
+export type HelpdeskProvider = 'zendesk' | 'freshdesk' | 'jira';
+
+export const HELPDESK_PROVIDERS: HelpdeskProvider[] = ['zendesk', 'freshdesk', 'jira'];
+
+/**
+ * Helpdesk status, normalized across providers
+ */
+export type HelpdeskStatus = 'open' | 'pending' | 'in_progress' | 'solved' | 'closed';
+
+export type UrgencyLevel = EscalationTicket['urgencyLevel'];
+
+export interface HelpdeskConfig {
+  baseUrl: string;
+  apiToken: string;
+  email?: string;
+  jiraServiceDeskId?: string;
+  jiraRequestTypeId?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * What the helpdesk ticket is made of
+ */
+export interface HelpdeskTicketExport {
+  ticketId: string; // ESC-...
+  subject: string;
+  summary: string; // Handoff summary (see handoffSummary)
+  transcript: Array<{ role: string; author?: string | null; content: string; createdAt?: string | null }>;
+  urgencyLevel: UrgencyLevel;
+  issueType: EscalationTicket['issueType'];
+  issueCategory?: string | null;
+  language?: string | null;
+  requester: { id: string; name: string };
+  stationIds: string[];
+  sessionIds: string[];
+  threadId?: string | null;
+  channel?: string | null;
+}
+
+export interface HelpdeskTicketRef {
+  externalId: string;
+  url: string;
+  status: HelpdeskStatus;
+}
+
+/**
+ * Status change read from a helpdesk webhook
+ */
+export interface HelpdeskStatusChange {
+  externalId: string;
+  status: HelpdeskStatus;
+  assignee?: string | null;
+  comment?: string | null;
+}
+
+/**
+ * Reads a request header (case-insensitive)
+ */
+export type HeaderReader = (name: string) => string | undefined;
+
+export interface HelpdeskConnector {
+  readonly provider: HelpdeskProvider;
+
+  createTicket(ticket: HelpdeskTicketExport): Promise<HelpdeskTicketRef>;
+  getStatus(externalId: string): Promise<HelpdeskStatus>;
+
+  /**
+   * Move the ticket to solved (or back to open), with an internal comment
+   */
+  setStatus(externalId: string, status: 'solved' | 'open', comment?: string): Promise<void>;
+
+  /**
+   * Check a webhook request against the configured secrets
+   */
+  verifyWebhook(rawBody: string, header: HeaderReader, secrets: string[]): SignatureVerificationResult;
+
+  /**
+   * The status change in a webhook payload, null when it isn't one
+   */
+  parseWebhook(payload: unknown): HelpdeskStatusChange | null;
+}
+
+export class HelpdeskRequestError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'HelpdeskRequestError';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+export function isHelpdeskProvider(value: unknown): value is HelpdeskProvider {
+  return HELPDESK_PROVIDERS.includes(value as HelpdeskProvider);
+}
+
+export function resolveHelpdeskProvider(): HelpdeskProvider | null {
+  const provider = process.env.HELPDESK_PROVIDER?.trim().toLowerCase();
+  return isHelpdeskProvider(provider) ? provider : null;
+}
+
+export function resolveHelpdeskConfig(): HelpdeskConfig {
+  return {
+    baseUrl: process.env.HELPDESK_BASE_URL || '',
+    apiToken: process.env.HELPDESK_API_TOKEN || '',
+    email: process.env.HELPDESK_EMAIL || undefined,
+    jiraServiceDeskId: process.env.JIRA_SERVICE_DESK_ID || undefined,
+    jiraRequestTypeId: process.env.JIRA_REQUEST_TYPE_ID || undefined,
+  };
+}
+
+/**
+ * Connector for a provider, null when no helpdesk is configured
+ */
+export async function createHelpdeskConnector(
+  provider: HelpdeskProvider | null = resolveHelpdeskProvider(),
+  config: HelpdeskConfig = resolveHelpdeskConfig()
+): Promise<HelpdeskConnector | null> {
+  if (!provider) return null;
+  if (!config.baseUrl || !config.apiToken) {
+    throw new Error(`HELPDESK_BASE_URL and HELPDESK_API_TOKEN are required for the ${provider} helpdesk`);
+  }
+
+  switch (provider) {
+    case 'zendesk': {
+      const { ZendeskHelpdeskConnector } = await import('./zendeskHelpdeskConnector');
+      return new ZendeskHelpdeskConnector(config);
+    }
+    case 'freshdesk': {
+      const { FreshdeskHelpdeskConnector } = await import('./freshdeskHelpdeskConnector');
+      return new FreshdeskHelpdeskConnector(config);
+    }
+    case 'jira': {
+      const { JiraHelpdeskConnector } = await import('./jiraHelpdeskConnector');
+      return new JiraHelpdeskConnector(config);
+    }
+  }
+}
+
+/**
+ * JSON request against a helpdesk API; throws HelpdeskRequestError on
+ * anything but a 2xx
+ */
+export async function helpdeskRequest<T = any>(
+  config: HelpdeskConfig,
+  method: string,
+  path: string,
+  options: { authorization: string; body?: unknown }
+): Promise<T> {
+  const url = `${config.baseUrl.replace(/\/+$/, '')}${path}`;
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method,
+      headers: {
+        Authorization: options.authorization,
+        Accept: 'application/json',
+        ...(options.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      signal: AbortSignal.timeout(config.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new HelpdeskRequestError(`${method} ${path} failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const text = await response.text();
+  if (!response.ok) {
+    throw new HelpdeskRequestError(`${method} ${path} returned ${response.status}: ${text.slice(0, 300)}`, response.status);
+  }
+  return (text ? JSON.parse(text) : null) as T;
+}
+
+export function basicAuth(user: string, password: string): string {
+  return `Basic ${Buffer.from(`${user}:${password}`).toString('base64')}`;
+}
+
+/**
+ * Plain-text ticket body: the escalation summary, the identifiers the
+ * support team looks up in the charging platform, then the transcript
+ */
+export function formatTicketBody(ticket: HelpdeskTicketExport): string {
+  const lines = [ticket.summary, '', '--- Identifiers ---', `Escalation: ${ticket.ticketId}`];
+  lines.push(`Driver: ${ticket.requester.name} (${ticket.requester.id})`);
+  if (ticket.stationIds.length > 0) lines.push(`Stations: ${ticket.stationIds.join(', ')}`);
+  if (ticket.sessionIds.length > 0) lines.push(`Charging sessions: ${ticket.sessionIds.join(', ')}`);
+  if (ticket.threadId) lines.push(`Conversation: ${ticket.threadId}${ticket.channel ? ` (${ticket.channel})` : ''}`);
+  if (ticket.language) lines.push(`Language: ${ticket.language}`);
+
+  if (ticket.transcript.length > 0) {
+    lines.push('', '--- Transcript ---');
+    for (const entry of ticket.transcript) {
+      const time = entry.createdAt ? `[${entry.createdAt}] ` : '';
+      lines.push(`${time}${entry.author || entry.role}: ${entry.content}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Tags / labels shared by all providers
+ */
+export function ticketTags(ticket: HelpdeskTicketExport): string[] {
+  return ['ev-support', `escalation-${ticket.issueType}`, `urgency-${ticket.urgencyLevel}`, ...(ticket.language ? [`lang-${ticket.language}`] : [])];
+}
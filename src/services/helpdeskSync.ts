@@ -0,0 +1,465 @@
+import { getDb, parseJsonColumn, parseTimestamp, type Database } from '../db';
+import type { EscalationContext, EscalationTicket } from './escalationService';
+import {
+  createHelpdeskConnector,
+  type HelpdeskConnector,
+  type HelpdeskProvider,
+  type HelpdeskStatus,
+  type HelpdeskStatusChange,
+  type HelpdeskTicketExport,
+} from './helpdeskConnector';
+import { extractIdentifiers, type HandoffSummary } from './handoffSummary';
+import { logger } from '../utils/logger';
+
+/**
+ * Helpdesk Sync
+ *
+ * Keeps escalation tickets and the external helpdesk in step (see
+ * services/helpdeskConnector for the providers).
+ *
+ * - New escalation tickets are exported with the escalation summary, the
+ *   conversation transcript, station and charging session ids and the
+ *   urgency mapped to the helpdesk's priority. A failed export is retried
+ *   by the sync job.
+ * - When the helpdesk solves or closes the ticket (webhook or polling),
+ *   the escalation ticket is resolved; when it reopens it, so is ours.
+ * - When the escalation ticket is resolved here (agent desk, API), the
+ *   helpdesk ticket is solved.
+ *
+ * Table: migration 046_helpdesk_links
+ */
+
+export type HelpdeskSyncStatus = 'pending' | 'exported' | 'failed';
+
+export interface HelpdeskLink {
+  ticketId: string;
+  provider: HelpdeskProvider;
+  externalId: string | null;
+  externalUrl: string | null;
+  externalStatus: HelpdeskStatus | null;
+  syncStatus: HelpdeskSyncStatus;
+  attempts: number;
+  lastError: string | null;
+  lastSyncedAt: Date | null;
+}
+
+export interface HelpdeskResult<T = unknown> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: 'not_configured' | 'not_found' | 'failed';
+}
+
+export interface StatusChangeOutcome {
+  ticketId: string;
+  status: HelpdeskStatus;
+  action: 'resolved' | 'reopened' | 'none';
+}
+
+export interface HelpdeskSyncSummary {
+  exported: number;
+  exportFailures: number;
+  statusChecks: number;
+  statusChanges: number;
+  pushedResolutions: number;
+}
+
+interface LinkRow {
+  id: number;
+  ticket_db_id: number;
+  ticket_id: string;
+  ticket_status: string;
+  provider: HelpdeskProvider;
+  external_id: string | null;
+  external_url: string | null;
+  external_status: HelpdeskStatus | null;
+  sync_status: HelpdeskSyncStatus;
+  attempts: number | null;
+  last_error: string | null;
+  last_synced_at: string | Date | null;
+}
+
+interface TicketRow {
+  id: number;
+  ticket_id: string;
+  discord_user_id: string;
+  discord_username: string | null;
+  issue_type: EscalationTicket['issueType'];
+  issue_category: string | null;
+  urgency_level: EscalationTicket['urgencyLevel'];
+  conversation_summary: string | null;
+  conversation_context: string | EscalationContext | null;
+  status: string;
+  thread_id: string | null;
+  channel: string | null;
+  language: string | null;
+  handoff_summary: string | HandoffSummary | null;
+}
+
+const SYNC_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+const MAX_EXPORT_ATTEMPTS = 5;
+const MAX_TRANSCRIPT_ENTRIES = 200;
+const RESOLVED_STATUSES = ['resolved', 'closed'];
+const CLOSED_HELPDESK_STATUSES: HelpdeskStatus[] = ['solved', 'closed'];
+
+const LINK_COLUMNS = `
+  l.id, l.ticket_id AS ticket_db_id, t.ticket_id, t.status AS ticket_status, l.provider,
+  l.external_id, l.external_url, l.external_status, l.sync_status, l.attempts, l.last_error, l.last_synced_at
+`;
+
+function toLink(row: LinkRow): HelpdeskLink {
+  return {
+    ticketId: row.ticket_id,
+    provider: row.provider,
+    externalId: row.external_id,
+    externalUrl: row.external_url,
+    externalStatus: row.external_status,
+    syncStatus: row.sync_status,
+    attempts: Number(row.attempts ?? 0),
+    lastError: row.last_error,
+    lastSyncedAt: row.last_synced_at ? parseTimestamp(row.last_synced_at) : null,
+  };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export class HelpdeskSyncService {
+  private connector: Promise<HelpdeskConnector | null>;
+  private syncInterval: NodeJS.Timeout | null = null;
+
+  constructor(connector?: HelpdeskConnector | null, private db: Database = getDb()) {
+    this.connector = connector !== undefined
+      ? Promise.resolve(connector)
+      : createHelpdeskConnector().catch((error) => {
+        logger.error({ error }, 'Helpdesk connector not available, tickets stay in the agent desk');
+        return null;
+      });
+  }
+
+  async getConnector(): Promise<HelpdeskConnector | null> {
+    return this.connector;
+  }
+
+  /**
+   * Create the helpdesk ticket for an escalation ticket. Never throws: a
+   * failure is recorded on the link and retried by syncAll()
+   */
+  async exportTicket(ticketId: string): Promise<HelpdeskResult<HelpdeskLink>> {
+    const connector = await this.connector;
+    if (!connector) {
+      return { success: false, error: 'No helpdesk configured', code: 'not_configured' };
+    }
+
+    try {
+      const ticket = await this.db.get<TicketRow>('SELECT * FROM escalation_tickets WHERE ticket_id = ?', [ticketId]);
+      if (!ticket) {
+        return { success: false, error: `Ticket ${ticketId} not found`, code: 'not_found' };
+      }
+
+      const existing = await this.getLink(ticketId, connector.provider);
+      if (existing?.syncStatus === 'exported') {
+        return { success: true, data: existing };
+      }
+
+      await this.db.run(`
+        INSERT INTO helpdesk_links (ticket_id, provider, sync_status, attempts)
+        VALUES (?, ?, 'pending', 1)
+        ON CONFLICT (ticket_id, provider) DO UPDATE SET
+          attempts = helpdesk_links.attempts + 1,
+          updated_at = ${this.db.sql.now()}
+      `, [ticket.id, connector.provider]);
+
+      try {
+        const ref = await connector.createTicket(await this.buildExport(ticket));
+
+        await this.db.run(`
+          UPDATE helpdesk_links
+          SET external_id = ?, external_url = ?, external_status = ?, sync_status = 'exported',
+            last_error = NULL, last_synced_at = ${this.db.sql.now()}, updated_at = ${this.db.sql.now()}
+          WHERE ticket_id = ? AND provider = ?
+        `, [ref.externalId, ref.url, ref.status, ticket.id, connector.provider]);
+        await this.addNote(ticket.id, `Exported to ${connector.provider}: ${ref.url}`);
+
+        logger.info({ ticketId, provider: connector.provider, externalId: ref.externalId }, 'Exported escalation ticket to helpdesk');
+      } catch (error) {
+        await this.db.run(`
+          UPDATE helpdesk_links
+          SET sync_status = 'failed', last_error = ?, updated_at = ${this.db.sql.now()}
+          WHERE ticket_id = ? AND provider = ?
+        `, [errorMessage(error), ticket.id, connector.provider]);
+
+        logger.warn({ error, ticketId, provider: connector.provider }, 'Helpdesk export failed, will retry');
+        return { success: false, error: errorMessage(error), code: 'failed' };
+      }
+
+      return { success: true, data: (await this.getLink(ticketId, connector.provider))! };
+    } catch (error) {
+      logger.error({ error, ticketId }, 'Error exporting ticket to helpdesk');
+      return { success: false, error: errorMessage(error), code: 'failed' };
+    }
+  }
+
+  /**
+   * Apply a helpdesk status to the linked escalation ticket: solved / closed
+   * resolves it, open / pending / in progress reopens a resolved one
+   */
+  async applyStatusChange(change: HelpdeskStatusChange, provider?: HelpdeskProvider): Promise<HelpdeskResult<StatusChangeOutcome>> {
+    const source = provider ?? (await this.connector)?.provider;
+    if (!source) {
+      return { success: false, error: 'No helpdesk configured', code: 'not_configured' };
+    }
+
+    const link = await this.db.get<LinkRow>(`
+      SELECT ${LINK_COLUMNS}
+      FROM helpdesk_links l JOIN escalation_tickets t ON t.id = l.ticket_id
+      WHERE l.provider = ? AND l.external_id = ?
+    `, [source, change.externalId]);
+    if (!link) {
+      return { success: false, error: `No escalation ticket linked to ${source} ticket ${change.externalId}`, code: 'not_found' };
+    }
+
+    // Recorded first, so resolving below doesn't push the status back to the helpdesk
+    await this.db.run(`
+      UPDATE helpdesk_links
+      SET external_status = ?, last_synced_at = ${this.db.sql.now()}, updated_at = ${this.db.sql.now()}
+      WHERE id = ?
+    `, [change.status, link.id]);
+
+    const closedThere = CLOSED_HELPDESK_STATUSES.includes(change.status);
+    const resolvedHere = RESOLVED_STATUSES.includes(link.ticket_status);
+    let action: StatusChangeOutcome['action'] = 'none';
+
+    if (closedThere && !resolvedHere) {
+      const by = change.assignee ? ` by ${change.assignee}` : '';
+      // Loaded on demand: escalationService pushes its resolutions through this service
+      const { escalationService } = await import('./escalationService');
+      await escalationService.resolveTicket(link.ticket_id, `Resolved in ${source}${by} (ticket ${change.externalId})`);
+      action = 'resolved';
+    } else if (!closedThere && resolvedHere) {
+      await this.db.run(`
+        UPDATE escalation_tickets
+        SET status = CASE WHEN assigned_to IS NULL THEN 'open' ELSE 'assigned' END,
+          resolved_at = NULL, resolution_time_seconds = NULL
+        WHERE id = ?
+      `, [link.ticket_db_id]);
+      await this.addNote(link.ticket_db_id, `Reopened in ${source} (ticket ${change.externalId})`);
+      action = 'reopened';
+    }
+
+    if (action !== 'none') {
+      logger.info({ ticketId: link.ticket_id, provider: source, externalId: change.externalId, status: change.status, action }, 'Applied helpdesk status');
+    }
+    return { success: true, data: { ticketId: link.ticket_id, status: change.status, action } };
+  }
+
+  /**
+   * The escalation ticket was resolved here: solve the helpdesk ticket.
+   * Never throws; a failure is retried by syncAll()
+   */
+  async onTicketResolved(ticketId: string, resolutionNote?: string): Promise<void> {
+    const connector = await this.connector;
+    if (!connector) return;
+
+    const link = await this.getLink(ticketId, connector.provider).catch(() => null);
+    if (!link?.externalId || (link.externalStatus && CLOSED_HELPDESK_STATUSES.includes(link.externalStatus))) return;
+
+    await this.pushResolution(connector, ticketId, link.externalId, resolutionNote);
+  }
+
+  /**
+   * Retry failed exports, poll the status of open helpdesk tickets and
+   * solve the ones resolved here that didn't make it to the helpdesk
+   */
+  async syncAll(): Promise<HelpdeskSyncSummary> {
+    const summary: HelpdeskSyncSummary = { exported: 0, exportFailures: 0, statusChecks: 0, statusChanges: 0, pushedResolutions: 0 };
+    const connector = await this.connector;
+    if (!connector) return summary;
+
+    const { rows: unexported } = await this.db.query<LinkRow>(`
+      SELECT ${LINK_COLUMNS}
+      FROM helpdesk_links l JOIN escalation_tickets t ON t.id = l.ticket_id
+      WHERE l.provider = ? AND l.sync_status <> 'exported' AND l.attempts < ?
+      ORDER BY l.id
+    `, [connector.provider, MAX_EXPORT_ATTEMPTS]);
+
+    for (const row of unexported) {
+      const result = await this.exportTicket(row.ticket_id);
+      if (result.success) summary.exported++;
+      else summary.exportFailures++;
+    }
+
+    const { rows: linked } = await this.db.query<LinkRow>(`
+      SELECT ${LINK_COLUMNS}
+      FROM helpdesk_links l JOIN escalation_tickets t ON t.id = l.ticket_id
+      WHERE l.provider = ? AND l.sync_status = 'exported'
+        AND (l.external_status IS NULL OR l.external_status NOT IN ('solved', 'closed')
+          OR t.status NOT IN ('resolved', 'closed'))
+      ORDER BY l.id
+    `, [connector.provider]);
+
+    for (const row of linked) {
+      const resolvedHere = RESOLVED_STATUSES.includes(row.ticket_status);
+      const closedThere = row.external_status !== null && CLOSED_HELPDESK_STATUSES.includes(row.external_status);
+
+      // Resolved here while the helpdesk still had it open
+      if (resolvedHere && !closedThere && row.external_status !== null) {
+        if (await this.pushResolution(connector, row.ticket_id, row.external_id!)) summary.pushedResolutions++;
+        continue;
+      }
+
+      try {
+        summary.statusChecks++;
+        const status = await connector.getStatus(row.external_id!);
+        if (status !== row.external_status || closedThere !== resolvedHere) {
+          const result = await this.applyStatusChange({ externalId: row.external_id!, status }, connector.provider);
+          if (result.data && result.data.action !== 'none') summary.statusChanges++;
+        }
+      } catch (error) {
+        logger.warn({ error, ticketId: row.ticket_id, externalId: row.external_id }, 'Could not read helpdesk ticket status');
+      }
+    }
+
+    if (summary.exported || summary.exportFailures || summary.statusChanges || summary.pushedResolutions) {
+      logger.info({ ...summary, provider: connector.provider }, 'Helpdesk sync finished');
+    }
+    return summary;
+  }
+
+  async getLink(ticketId: string, provider?: HelpdeskProvider): Promise<HelpdeskLink | null> {
+    const row = await this.db.get<LinkRow>(`
+      SELECT ${LINK_COLUMNS}
+      FROM helpdesk_links l JOIN escalation_tickets t ON t.id = l.ticket_id
+      WHERE t.ticket_id = ?${provider ? ' AND l.provider = ?' : ''}
+      ORDER BY l.id DESC
+    `, provider ? [ticketId, provider] : [ticketId]);
+    return row ? toLink(row) : null;
+  }
+
+  /**
+   * Links that haven't made it to the helpdesk, or all of them
+   */
+  async listLinks(options: { syncStatus?: HelpdeskSyncStatus; limit?: number } = {}): Promise<HelpdeskLink[]> {
+    const { rows } = await this.db.query<LinkRow>(`
+      SELECT ${LINK_COLUMNS}
+      FROM helpdesk_links l JOIN escalation_tickets t ON t.id = l.ticket_id
+      ${options.syncStatus ? 'WHERE l.sync_status = ?' : ''}
+      ORDER BY l.id DESC
+      LIMIT ${Math.min(Math.max(options.limit ?? 50, 1), 500)}
+    `, options.syncStatus ? [options.syncStatus] : []);
+    return rows.map(toLink);
+  }
+
+  startSync(intervalMs: number = Number(process.env.HELPDESK_SYNC_INTERVAL_MS) || SYNC_INTERVAL_MS): void {
+    if (this.syncInterval) return;
+
+    this.syncInterval = setInterval(() => {
+      this.syncAll().catch((error) => {
+        logger.error({ error }, 'Helpdesk sync failed');
+      });
+    }, intervalMs);
+    this.syncInterval.unref();
+  }
+
+  stopSync(): void {
+    if (this.syncInterval) {
+      clearInterval(this.syncInterval);
+      this.syncInterval = null;
+    }
+  }
+
+  private async pushResolution(connector: HelpdeskConnector, ticketId: string, externalId: string, note?: string): Promise<boolean> {
+    try {
+      await connector.setStatus(externalId, 'solved', note ? `Resolved in the agent desk: ${note}` : 'Resolved in the agent desk');
+      await this.db.run(`
+        UPDATE helpdesk_links
+        SET external_status = 'solved', last_error = NULL, last_synced_at = ${this.db.sql.now()}, updated_at = ${this.db.sql.now()}
+        WHERE provider = ? AND external_id = ?
+      `, [connector.provider, externalId]);
+      logger.info({ ticketId, provider: connector.provider, externalId }, 'Solved helpdesk ticket');
+      return true;
+    } catch (error) {
+      await this.db.run(`
+        UPDATE helpdesk_links SET last_error = ?, updated_at = ${this.db.sql.now()}
+        WHERE provider = ? AND external_id = ?
+      `, [errorMessage(error), connector.provider, externalId]).catch(() => undefined);
+      logger.warn({ error, ticketId, externalId }, 'Could not solve helpdesk ticket, will retry');
+      return false;
+    }
+  }
+
+  private async buildExport(ticket: TicketRow): Promise<HelpdeskTicketExport> {
+    const context = parseJsonColumn<EscalationContext | null>(ticket.conversation_context, null);
+    const handoff = parseJsonColumn<HandoffSummary | null>(ticket.handoff_summary, null);
+    const identifiers = extractIdentifiers(context);
+    const stationIds = new Set([...identifiers.stationIds, ...(handoff?.stationIds ?? [])]);
+    const sessionIds = new Set([...identifiers.sessionIds, ...(handoff?.sessionIds ?? [])]);
+
+    let transcript: HelpdeskTicketExport['transcript'] = [];
+    if (ticket.thread_id) {
+      const { rows } = await this.db.query<{ role: string; author: string | null; content: string; created_at: string | Date }>(`
+        SELECT role, author, content, created_at FROM conversation_transcript
+        WHERE thread_id = ? AND (internal IS NULL OR internal = ${this.db.sql.bool(false)})
+        ORDER BY id DESC
+        LIMIT ${MAX_TRANSCRIPT_ENTRIES}
+      `, [ticket.thread_id]);
+      transcript = rows.reverse().map((row) => ({
+        role: row.role,
+        author: row.role === 'user' ? ticket.discord_username : row.author,
+        content: row.content,
+        createdAt: parseTimestamp(row.created_at).toISOString(),
+      }));
+    }
+    // Conversations from before the transcript was kept
+    if (transcript.length === 0 && context?.messages) {
+      transcript = context.messages.slice(-MAX_TRANSCRIPT_ENTRIES).map((message) => ({
+        role: message.role === 'assistant' ? 'bot' : message.role,
+        author: message.role === 'user' ? ticket.discord_username : null,
+        content: message.content,
+        createdAt: message.timestamp ? new Date(message.timestamp).toISOString() : null,
+      }));
+    }
+
+    const category = ticket.issue_category ? ` / ${ticket.issue_category}` : '';
+    return {
+      ticketId: ticket.ticket_id,
+      subject: `[${ticket.ticket_id}] ${ticket.issue_type}${category} - ${ticket.discord_username || ticket.discord_user_id}`,
+      summary: ticket.conversation_summary ?? '',
+      transcript,
+      urgencyLevel: ticket.urgency_level,
+      issueType: ticket.issue_type,
+      issueCategory: ticket.issue_category,
+      language: ticket.language,
+      requester: { id: ticket.discord_user_id, name: ticket.discord_username || ticket.discord_user_id },
+      stationIds: [...stationIds],
+      sessionIds: [...sessionIds],
+      threadId: ticket.thread_id,
+      channel: ticket.channel,
+    };
+  }
+
+  private async addNote(ticketDbId: number, text: string): Promise<void> {
+    await this.db.run(`
+      INSERT INTO escalation_notes (ticket_id, note_type, note_text, author)
+      VALUES (?, 'helpdesk', ?, 'system')
+    `, [ticketDbId, text]);
+  }
+}
+
+// Singleton instance
+let helpdeskSyncInstance: HelpdeskSyncService | null = null;
+
+export function getHelpdeskSync(): HelpdeskSyncService {
+  if (!helpdeskSyncInstance) {
+    helpdeskSyncInstance = new HelpdeskSyncService();
+  }
+  return helpdeskSyncInstance;
+}
+
+/**
+ * Replace the helpdesk sync (tests, or another helpdesk configuration)
+ */
+export function setHelpdeskSync(sync: HelpdeskSyncService | null): void {
+  helpdeskSyncInstance = sync;
+}
@@ -0,0 +1,118 @@
+import {
+  basicAuth,
+  formatTicketBody,
+  helpdeskRequest,
+  ticketTags,
+  type HeaderReader,
+  type HelpdeskConfig,
+  type HelpdeskConnector,
+  type HelpdeskStatus,
+  type HelpdeskStatusChange,
+  type HelpdeskTicketExport,
+  type HelpdeskTicketRef,
+  type UrgencyLevel,
+} from './helpdeskConnector';
+import { verifyWebhookSignature, type SignatureVerificationResult } from '../utils/webhookSignature';
+
+/**
+ * Jira Service Management
+ *
+ * Customer requests in service desk JIRA_SERVICE_DESK_ID with request type
+ * JIRA_REQUEST_TYPE_ID, authenticated as HELPDESK_EMAIL with an Atlassian
+ * API token. Statuses are read by category (To Do / In Progress / Done),
+ * so custom workflows work as long as they have a transition into Done
+ * and one back to To Do.
+ *
+ * Status webhooks: a Jira webhook for "issue updated" with a secret from
+ * HELPDESK_WEBHOOK_SECRETS, which Jira signs into X-Hub-Signature.
+ */
+
+const PRIORITY_BY_URGENCY: Record<UrgencyLevel, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  critical: 'Highest',
+};
+
+const STATUS_BY_CATEGORY: Record<string, HelpdeskStatus> = {
+  new: 'open',
+  indeterminate: 'in_progress',
+  done: 'solved',
+};
+
+const CATEGORY_BY_STATUS: Record<'open' | 'solved', string> = { open: 'new', solved: 'done' };
+
+function toStatus(category: unknown): HelpdeskStatus | null {
+  return typeof category === 'string' ? STATUS_BY_CATEGORY[category.trim().toLowerCase()] ?? null : null;
+}
+
+export class JiraHelpdeskConnector implements HelpdeskConnector {
+  readonly provider = 'jira' as const;
+
+  constructor(private config: HelpdeskConfig) {
+    if (!config.jiraServiceDeskId || !config.jiraRequestTypeId) {
+      throw new Error('JIRA_SERVICE_DESK_ID and JIRA_REQUEST_TYPE_ID are required for Jira Service Management');
+    }
+  }
+
+  async createTicket(ticket: HelpdeskTicketExport): Promise<HelpdeskTicketRef> {
+    const response = await this.request('POST', '/rest/servicedeskapi/request', {
+      serviceDeskId: this.config.jiraServiceDeskId,
+      requestTypeId: this.config.jiraRequestTypeId,
+      requestFieldValues: {
+        summary: ticket.subject,
+        description: formatTicketBody(ticket),
+        priority: { name: PRIORITY_BY_URGENCY[ticket.urgencyLevel] },
+        labels: [...ticketTags(ticket), ticket.ticketId],
+      },
+    });
+
+    const key = String(response.issueKey);
+    return {
+      externalId: key,
+      url: response._links?.web ?? `${this.config.baseUrl.replace(/\/+$/, '')}/browse/${key}`,
+      status: toStatus(response.currentStatus?.statusCategory) ?? 'open',
+    };
+  }
+
+  async getStatus(externalId: string): Promise<HelpdeskStatus> {
+    const response = await this.request('GET', `/rest/api/3/issue/${encodeURIComponent(externalId)}?fields=status`);
+    const status = toStatus(response.fields?.status?.statusCategory?.key);
+    if (!status) {
+      throw new Error(`Unknown Jira status for ${externalId}: ${response.fields?.status?.name}`);
+    }
+    return status;
+  }
+
+  async setStatus(externalId: string, status: 'solved' | 'open', comment?: string): Promise<void> {
+    const key = encodeURIComponent(externalId);
+    if (comment) {
+      await this.request('POST', `/rest/servicedeskapi/request/${key}/comment`, { body: comment, public: false });
+    }
+
+    const { transitions = [] } = await this.request('GET', `/rest/api/3/issue/${key}/transitions`);
+    const transition = transitions.find((t: any) => t.to?.statusCategory?.key === CATEGORY_BY_STATUS[status]);
+    if (!transition) {
+      throw new Error(`No transition to a ${CATEGORY_BY_STATUS[status]} status for ${externalId}`);
+    }
+    await this.request('POST', `/rest/api/3/issue/${key}/transitions`, { transition: { id: transition.id } });
+  }
+
+  verifyWebhook(rawBody: string, header: HeaderReader, secrets: string[]): SignatureVerificationResult {
+    return verifyWebhookSignature(rawBody, header('x-hub-signature'), secrets);
+  }
+
+  parseWebhook(payload: any): HelpdeskStatusChange | null {
+    const issue = payload?.issue;
+    const status = toStatus(issue?.fields?.status?.statusCategory?.key);
+    if (!issue?.key || !status) return null;
+    return { externalId: String(issue.key), status, assignee: issue.fields.assignee?.displayName ?? null };
+  }
+
+  private request(method: string, path: string, body?: unknown): Promise<any> {
+    return helpdeskRequest(this.config, method, path, {
+      authorization: basicAuth(this.config.email ?? '', this.config.apiToken),
+      body,
+    });
+  }
+}
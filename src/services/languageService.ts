@@ -1,6 +1,6 @@
 import { franc } from 'franc';
 import { logger } from '../utils/logger';
-import { pgPool } from '../mastra/storage';
+import { db } from '../db';
 
 /**
  * Multi-Language Translation Service
@@ -150,7 +150,7 @@ export class MultiLanguageService {
   async getUserLanguage(userId: string, currentText?: string): Promise<SupportedLanguage> {
     try {
       // Check database for saved preference
-      const result = await pgPool.query(
+      const result = await db.query(
         `SELECT language FROM user_language_preferences WHERE user_id = $1`,
         [userId]
       );
@@ -190,10 +190,10 @@ export class MultiLanguageService {
     confidence?: number
   ): Promise<void> {
     try {
-      await pgPool.query(
+      await db.query(
         `
         INSERT INTO user_language_preferences (user_id, language, confidence, last_updated)
-        VALUES ($1, $2, $3, NOW())
+        VALUES ($1, $2, $3, ${db.sql.now()})
         ON CONFLICT (user_id) DO UPDATE SET
           language = EXCLUDED.language,
           confidence = EXCLUDED.confidence,
@@ -0,0 +1,173 @@
+import { getDb, parseJsonColumn, type Database } from '../db';
+import {
+  normalizeFilter,
+  type VectorFilter,
+  type VectorMatch,
+  type VectorNamespace,
+  type VectorPage,
+  type VectorRecord,
+  type VectorStore,
+  type VectorStoreStats,
+} from './vectorStore';
+
+/**
+ * Local Vector Store
+ *
+ * Vectors in the app database (vector_documents, SQLite or Postgres) with an
+ * exact cosine search in process. Metadata filters run in SQL, so only the
+ * matching namespace and filter are scored. Meant for knowledge bases of a
+ * few thousand chunks, not for millions of vectors.
+ */
+
+interface VectorDocumentRow {
+  id: string;
+  content: string;
+  metadata: string | Record<string, unknown> | null;
+  embedding: string;
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function metadataField(metadata: Record<string, unknown>, key: string): string | null {
+  const value = metadata[key];
+  return typeof value === 'string' ? value : null;
+}
+
+export class LocalVectorStore implements VectorStore {
+  readonly backend = 'local' as const;
+
+  constructor(private db: Database = getDb()) {}
+
+  /**
+   * The table comes from migration 043; refuse to mix vector sizes
+   */
+  async initialize(dimensions: number): Promise<void> {
+    const existing = await this.db.get<{ dimensions: number }>(
+      'SELECT dimensions FROM vector_documents WHERE dimensions <> ? LIMIT 1',
+      [dimensions]
+    );
+    if (existing) {
+      throw new Error(`vector_documents has ${existing.dimensions}-dimension vectors, embeddings have ${dimensions}`);
+    }
+  }
+
+  async upsert(namespace: string, records: VectorRecord[]): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      for (const record of records) {
+        await tx.run(`
+          INSERT INTO vector_documents (
+            namespace, id, content, metadata, language, category, manufacturer, embedding, dimensions
+          ) VALUES (?, ?, ?, ${tx.sql.json()}, ?, ?, ?, ?, ?)
+          ON CONFLICT (namespace, id) DO UPDATE SET
+            content = excluded.content,
+            metadata = excluded.metadata,
+            language = excluded.language,
+            category = excluded.category,
+            manufacturer = excluded.manufacturer,
+            embedding = excluded.embedding,
+            dimensions = excluded.dimensions,
+            updated_at = CURRENT_TIMESTAMP
+        `, [
+          namespace,
+          record.id,
+          record.content,
+          JSON.stringify(record.metadata),
+          metadataField(record.metadata, 'language'),
+          metadataField(record.metadata, 'category'),
+          metadataField(record.metadata, 'manufacturer'),
+          JSON.stringify(record.values),
+          record.values.length,
+        ]);
+      }
+    });
+  }
+
+  async query(namespace: string, vector: number[], options: { topK: number; filter?: VectorFilter }): Promise<VectorMatch[]> {
+    const conditions = ['namespace = ?', 'dimensions = ?'];
+    const params: unknown[] = [namespace, vector.length];
+
+    for (const [field, values] of normalizeFilter(options.filter)) {
+      conditions.push(`${field} IN (${values.map(() => '?').join(', ')})`);
+      params.push(...values);
+    }
+
+    const { rows } = await this.db.query<VectorDocumentRow>(
+      `SELECT id, content, metadata, embedding FROM vector_documents WHERE ${conditions.join(' AND ')}`,
+      params
+    );
+
+    return rows
+      .map((row) => {
+        const values = JSON.parse(row.embedding) as number[];
+        return {
+          id: row.id,
+          values,
+          content: row.content,
+          metadata: parseJsonColumn<Record<string, unknown>>(row.metadata, {}),
+          score: cosineSimilarity(vector, values),
+        };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.topK);
+  }
+
+  /**
+   * Pages in id order; the cursor is the last id of the page
+   */
+  async list(namespace: string, options: { cursor?: string; limit?: number } = {}): Promise<VectorPage> {
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+    const { rows } = await this.db.query<VectorDocumentRow>(`
+      SELECT id, content, metadata, embedding FROM vector_documents
+      WHERE namespace = ? AND id > ?
+      ORDER BY id
+      LIMIT ?
+    `, [namespace, options.cursor ?? '', limit]);
+
+    return {
+      records: rows.map((row) => ({
+        id: row.id,
+        values: JSON.parse(row.embedding) as number[],
+        content: row.content,
+        metadata: parseJsonColumn<Record<string, unknown>>(row.metadata, {}),
+      })),
+      cursor: rows.length === limit ? rows[rows.length - 1].id : undefined,
+    };
+  }
+
+  async listNamespaces(): Promise<VectorNamespace[]> {
+    const { rows } = await this.db.query<{ namespace: string; record_count: number | string }>(`
+      SELECT namespace, COUNT(*) AS record_count FROM vector_documents
+      GROUP BY namespace
+      ORDER BY namespace
+    `);
+    return rows.map((row) => ({ name: row.namespace, recordCount: Number(row.record_count) }));
+  }
+
+  async deleteNamespace(namespace: string): Promise<void> {
+    await this.db.run('DELETE FROM vector_documents WHERE namespace = ?', [namespace]);
+  }
+
+  async stats(): Promise<VectorStoreStats> {
+    const namespaces = await this.listNamespaces();
+    const row = await this.db.get<{ dimensions: number | null }>('SELECT MAX(dimensions) AS dimensions FROM vector_documents');
+
+    return {
+      backend: this.backend,
+      dimensions: row?.dimensions ?? null,
+      totalRecords: namespaces.reduce((sum, namespace) => sum + namespace.recordCount, 0),
+      namespaces,
+    };
+  }
+}
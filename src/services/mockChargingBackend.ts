@@ -0,0 +1,267 @@
+import type {
+  BackendResult,
+  ChargingBackend,
+  ChargingSession,
+  ChargingStation,
+  ChargingTariff,
+  ChargingWebhookEvent,
+  RemoteCommandResult,
+  SessionHistoryOptions,
+  StartChargingOptions,
+  StopChargingOptions,
+} from './chargingBackend';
+import type { StationStatus } from './stationMonitoring';
+
+/**
+ * Mock Charging Backend
+ *
+ * Deterministic in-memory ChargingBackend for tests, evals and local
+ * development. State is seeded explicitly, remote commands mutate it the way
+ * a real CPMS would, and every command is recorded for assertions.
+ * Failures can be injected per command type.
+ */
+
+export type MockCommandType = 'startCharging' | 'stopCharging' | 'resetStation' | 'unlockConnector';
+
+export interface MockCommand {
+  type: MockCommandType;
+  stationId: string;
+  options: Record<string, any>;
+  at: Date;
+}
+
+export class MockChargingBackend implements ChargingBackend {
+  readonly displayName = 'Mock CPMS';
+  readonly supportsPolling = true;
+
+  private stations: Map<string, ChargingStation> = new Map();
+  private sessions: ChargingSession[] = [];
+  private tariffs: Map<string, ChargingTariff> = new Map();
+  private failures: Map<MockCommandType, string> = new Map();
+  private nextSessionId = 1;
+  readonly commands: MockCommand[] = [];
+
+  constructor(readonly id: string = 'mock') {}
+
+  /**
+   * Add or replace a station. Missing fields get sensible defaults.
+   */
+  addStation(station: Partial<ChargingStation> & { stationId: string }): ChargingStation {
+    const full: ChargingStation = {
+      stationName: `Station ${station.stationId}`,
+      status: 'Available',
+      connectors: [{ connectorId: 1, type: 'CCS2', status: 'Available', powerKw: 50 }],
+      lastUpdated: new Date(0),
+      ...station,
+      backendId: this.id,
+    };
+
+    this.stations.set(full.stationId, full);
+    return full;
+  }
+
+  setStationStatus(stationId: string, status: StationStatus['status'], errorCode?: string): void {
+    const station = this.requireStation(stationId);
+    station.status = status;
+    station.errorCode = errorCode;
+  }
+
+  addSession(session: Partial<ChargingSession> & { stationId: string }): ChargingSession {
+    const full: ChargingSession = {
+      sessionId: `mock-session-${this.nextSessionId++}`,
+      connectorId: 1,
+      status: 'active',
+      startedAt: new Date(0),
+      ...session,
+    };
+
+    this.sessions.push(full);
+    return full;
+  }
+
+  setTariff(stationId: string, tariff: ChargingTariff): void {
+    this.tariffs.set(stationId, tariff);
+  }
+
+  /**
+   * Make the given command fail with an error until cleared
+   */
+  failCommand(type: MockCommandType, error: string = 'Simulated backend failure'): void {
+    this.failures.set(type, error);
+  }
+
+  clearFailures(): void {
+    this.failures.clear();
+  }
+
+  /**
+   * Drop all state and recorded commands
+   */
+  clear(): void {
+    this.stations.clear();
+    this.sessions = [];
+    this.tariffs.clear();
+    this.failures.clear();
+    this.commands.length = 0;
+    this.nextSessionId = 1;
+  }
+
+  async listStations(): Promise<BackendResult<ChargingStation[]>> {
+    return { success: true, data: [...this.stations.values()].map((s) => ({ ...s })) };
+  }
+
+  async findStation(identifier: string): Promise<BackendResult<ChargingStation>> {
+    const station = this.stations.get(identifier)
+      || [...this.stations.values()].find((s) => s.stationName === identifier);
+
+    if (!station) {
+      return { success: false, error: `Charge point with identifier ${identifier} not found` };
+    }
+    return { success: true, data: { ...station } };
+  }
+
+  async getActiveSessions(stationId?: string): Promise<BackendResult<ChargingSession[]>> {
+    return {
+      success: true,
+      data: this.sessions.filter((s) => s.status === 'active' && (!stationId || s.stationId === stationId)),
+    };
+  }
+
+  async getSessionHistory(options: SessionHistoryOptions = {}): Promise<BackendResult<ChargingSession[]>> {
+    const sessions = this.sessions
+      .filter((s) => (!options.userId || s.userId === options.userId)
+        && (!options.stationId || s.stationId === options.stationId))
+      .slice()
+      .reverse()
+      .slice(0, options.limit || 10);
+
+    return { success: true, data: sessions };
+  }
+
+  async getTariff(stationId: string): Promise<BackendResult<ChargingTariff>> {
+    const tariff = this.tariffs.get(stationId);
+    if (!tariff) {
+      return { success: false, error: `No tariff configured for station ${stationId}` };
+    }
+    return { success: true, data: tariff };
+  }
+
+  async startCharging(stationId: string, options: StartChargingOptions = {}): Promise<BackendResult<RemoteCommandResult>> {
+    const failure = this.record('startCharging', stationId, options);
+    if (failure) return failure;
+
+    const connectorId = options.connectorId || 1;
+    if (this.sessions.some((s) => s.stationId === stationId && s.connectorId === connectorId && s.status === 'active')) {
+      return { success: false, error: 'Connector is already charging' };
+    }
+
+    const session = this.addSession({
+      stationId,
+      connectorId,
+      userId: options.userId,
+      idTag: options.idTag,
+      startedAt: new Date(),
+    });
+    this.setConnectorStatus(stationId, connectorId, 'Charging');
+
+    return { success: true, data: { status: 'Accepted', sessionId: session.sessionId } };
+  }
+
+  async stopCharging(stationId: string, options: StopChargingOptions = {}): Promise<BackendResult<RemoteCommandResult>> {
+    const failure = this.record('stopCharging', stationId, options);
+    if (failure) return failure;
+
+    const session = this.sessions.find((s) => s.stationId === stationId
+      && s.status === 'active'
+      && (!options.sessionId || s.sessionId === options.sessionId)
+      && (options.connectorId === undefined || s.connectorId === options.connectorId));
+
+    if (!session) {
+      return { success: false, error: 'No active charging session found' };
+    }
+
+    session.status = 'completed';
+    session.endedAt = new Date();
+    this.setConnectorStatus(stationId, session.connectorId || 1, 'Available');
+
+    return { success: true, data: { status: 'Accepted', sessionId: session.sessionId } };
+  }
+
+  async resetStation(stationId: string, resetType: 'soft' | 'hard'): Promise<BackendResult<RemoteCommandResult>> {
+    const failure = this.record('resetStation', stationId, { resetType });
+    if (failure) return failure;
+
+    // A reset clears faults and ends running sessions
+    const station = this.requireStation(stationId);
+    for (const session of this.sessions) {
+      if (session.stationId === stationId && session.status === 'active') {
+        session.status = 'failed';
+        session.endedAt = new Date();
+      }
+    }
+    station.status = 'Available';
+    station.errorCode = undefined;
+    station.connectors.forEach((c) => { c.status = 'Available'; });
+
+    return { success: true, data: { status: 'Accepted' } };
+  }
+
+  async unlockConnector(stationId: string, connectorId?: number): Promise<BackendResult<RemoteCommandResult>> {
+    const failure = this.record('unlockConnector', stationId, { connectorId });
+    if (failure) return failure;
+
+    return { success: true, data: { status: 'Unlocked' } };
+  }
+
+  parseWebhookEvent(payload: any): ChargingWebhookEvent | null {
+    if (!payload?.eventType) {
+      return null;
+    }
+
+    return {
+      eventId: payload.eventId,
+      eventType: payload.eventType,
+      stationId: payload.stationId,
+      connectorId: payload.connectorId,
+      sessionId: payload.sessionId,
+      userId: payload.userId,
+      occurredAt: payload.occurredAt ? new Date(payload.occurredAt) : new Date(),
+      data: payload.data || {},
+    };
+  }
+
+  /**
+   * Record a command; returns a failure result if one is injected
+   */
+  private record(type: MockCommandType, stationId: string, options: Record<string, any>): BackendResult<RemoteCommandResult> | null {
+    this.commands.push({ type, stationId, options, at: new Date() });
+
+    const failure = this.failures.get(type);
+    if (failure) {
+      return { success: false, error: failure };
+    }
+    if (!this.stations.has(stationId)) {
+      return { success: false, error: `Charge point with identifier ${stationId} not found` };
+    }
+    return null;
+  }
+
+  private requireStation(stationId: string): ChargingStation {
+    const station = this.stations.get(stationId);
+    if (!station) {
+      throw new Error(`Mock station ${stationId} does not exist`);
+    }
+    return station;
+  }
+
+  private setConnectorStatus(stationId: string, connectorId: number, status: string): void {
+    const station = this.requireStation(stationId);
+    const connector = station.connectors.find((c) => c.connectorId === connectorId);
+    if (connector) {
+      connector.status = status;
+    }
+
+    const statuses = station.connectors.map((c) => c.status);
+    station.status = statuses.includes('Available') ? 'Available' : 'Occupied';
+  }
+}
@@ -0,0 +1,406 @@
+import type { AgentConfig } from '@mastra/core/agent';
+import type { MastraModelConfig } from '@mastra/core/llm';
+import type { RuntimeContext } from '@mastra/core/runtime-context';
+import { logger } from '../utils/logger';
+import { modelRequests } from '../utils/metrics';
+import { AnthropicModelProvider } from './anthropicModelProvider';
+import { OpenAIModelProvider } from './openaiModelProvider';
+import { StubModelProvider } from './stubModelProvider';
+
+/**
+ * Model Provider Registry
+ *
+ * Every LLM call goes through a provider registered here: OpenAI, Azure
+ * OpenAI, Anthropic, any OpenAI-compatible server (vLLM, Ollama, LM Studio)
+ * and a stub for tests. Which models are used is configured per task and per
+ * agent as fallback chains of "providerId/model" references:
+ *
+ *   LLM_TASK_MODELS="chat:openai/gpt-4o,local/llama3.1;embeddings:local/nomic-embed-text"
+ *   LLM_AGENT_MODELS="triage:local/qwen2.5;billing:anthropic/claude-sonnet-4-5,openai/gpt-4o"
+ *
+ * A call tries the chain in order and moves on when a provider errors (or has
+ * no credentials). Agents without their own chain use the chat task's; Mastra
+ * agents get the chain as their model fallback list.
+ *
+ * Agent ids: the specialist ids (charging, billing, ...), triage, edgeControl
+ * and server (production-server.ts).
+ */
+
+export const MODEL_TASKS = ['chat', 'sentiment', 'translation', 'embeddings', 'vision'] as const;
+export type ModelTask = (typeof MODEL_TASKS)[number];
+
+export type ModelProviderKind = 'openai' | 'azure' | 'anthropic' | 'openai-compatible' | 'stub';
+
+export type ModelContentPart = { type: 'text'; text: string } | { type: 'image'; url: string };
+
+export interface ModelMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ModelContentPart[];
+}
+
+export interface CompletionRequest {
+  model: string;
+  messages: ModelMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // Ask for a JSON object reply
+}
+
+export interface CompletionResult {
+  text: string;
+  providerId: string;
+  model: string;
+  usage?: { promptTokens?: number; completionTokens?: number };
+}
+
+export interface EmbeddingRequest {
+  model: string;
+  input: string[];
+  dimensions?: number;
+}
+
+export interface ModelProvider {
+  readonly id: string;
+  readonly kind: ModelProviderKind;
+
+  /** Whether the provider has what it needs to be called (API key, endpoint) */
+  readonly configured: boolean;
+
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+
+  /** Text deltas of a completion */
+  stream(request: CompletionRequest): AsyncIterable<string>;
+
+  embed(request: EmbeddingRequest): Promise<number[][]>;
+
+  /** The model as a Mastra agent model */
+  agentModel(model: string): MastraModelConfig;
+}
+
+export interface ModelRef {
+  providerId: string;
+  model: string;
+}
+
+/**
+ * What a call is for: the agent's chain when it has one, else the task's
+ */
+export interface ModelTarget {
+  task: ModelTask;
+  agent?: string;
+}
+
+export type CompletionInput = Omit<CompletionRequest, 'model'>;
+
+type AgentModelFallbacks = Extract<AgentConfig['model'], unknown[]>;
+
+const DEFAULT_TASK_MODELS: Record<ModelTask, string[]> = {
+  chat: ['openai/gpt-4o'],
+  sentiment: ['openai/gpt-4o-mini'],
+  translation: ['openai/gpt-4o-mini'],
+  embeddings: ['openai/text-embedding-3-large'],
+  vision: ['openai/gpt-4o'],
+};
+
+const DEFAULT_AGENT_MODELS: Record<string, string[]> = {
+  triage: ['openai/gpt-4o-mini'],
+  server: ['openai/gpt-4o-mini'],
+};
+
+const DEFAULT_EMBEDDING_DIMENSIONS = 3072; // text-embedding-3-large
+
+// Retries of one agent model before Mastra moves to the next in the chain
+const AGENT_MODEL_RETRIES = 1;
+
+/**
+ * "providerId/model" (the model may contain slashes, e.g. local/meta-llama/Llama-3.1-8B)
+ */
+export function parseModelRef(ref: string): ModelRef {
+  const slash = ref.indexOf('/');
+  if (slash <= 0 || slash === ref.length - 1) {
+    throw new Error(`Invalid model reference "${ref}" (expected providerId/model)`);
+  }
+  return { providerId: ref.slice(0, slash).trim(), model: ref.slice(slash + 1).trim() };
+}
+
+/**
+ * Chains from a config string: "key:ref,ref;key2:ref"
+ */
+export function parseModelChains(config: string): Record<string, ModelRef[]> {
+  const chains: Record<string, ModelRef[]> = {};
+  for (const entry of config.split(';')) {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) continue;
+
+    const key = entry.slice(0, separator).trim();
+    const refs = entry.slice(separator + 1).split(',').map((ref) => ref.trim()).filter(Boolean);
+    if (key && refs.length > 0) {
+      chains[key] = refs.map(parseModelRef);
+    }
+  }
+  return chains;
+}
+
+function formatRef(ref: ModelRef): string {
+  return `${ref.providerId}/${ref.model}`;
+}
+
+export class ModelProviderRegistry {
+  private providers: Map<string, ModelProvider> = new Map();
+  private taskChains: Map<ModelTask, ModelRef[]> = new Map();
+  private agentChains: Map<string, ModelRef[]> = new Map();
+
+  embeddingDimensions = DEFAULT_EMBEDDING_DIMENSIONS;
+
+  constructor() {
+    this.reset();
+  }
+
+  register(provider: ModelProvider): void {
+    this.providers.set(provider.id, provider);
+    logger.info({ providerId: provider.id, kind: provider.kind, configured: provider.configured }, 'Model provider registered');
+  }
+
+  get(providerId: string): ModelProvider {
+    const provider = this.providers.get(providerId);
+    if (!provider) {
+      throw new Error(`Unknown model provider: ${providerId}`);
+    }
+    return provider;
+  }
+
+  list(): ModelProvider[] {
+    return [...this.providers.values()];
+  }
+
+  setTaskChain(task: ModelTask, refs: Array<string | ModelRef>): void {
+    this.taskChains.set(task, this.toChain(refs));
+  }
+
+  setAgentChain(agentId: string, refs: Array<string | ModelRef>): void {
+    this.agentChains.set(agentId, this.toChain(refs));
+  }
+
+  /**
+   * Load chains from config strings (see parseModelChains). References to
+   * unregistered providers and unknown tasks are skipped with a warning.
+   */
+  loadChains(config: { tasks?: string; agents?: string }): void {
+    for (const [task, refs] of Object.entries(parseModelChains(config.tasks || ''))) {
+      if (!(MODEL_TASKS as readonly string[]).includes(task)) {
+        logger.warn({ task }, 'Ignoring model chain for unknown task');
+        continue;
+      }
+      const chain = this.knownRefs(refs);
+      if (chain.length > 0) this.taskChains.set(task as ModelTask, chain);
+    }
+
+    for (const [agentId, refs] of Object.entries(parseModelChains(config.agents || ''))) {
+      const chain = this.knownRefs(refs);
+      if (chain.length > 0) this.agentChains.set(agentId, chain);
+    }
+  }
+
+  /**
+   * The fallback chain for a target
+   */
+  chain(target: ModelTarget): ModelRef[] {
+    return (target.agent && this.agentChains.get(target.agent)) || this.taskChains.get(target.task) || [];
+  }
+
+  /**
+   * Whether any provider in the target's chain can be called
+   */
+  isConfigured(target: ModelTarget): boolean {
+    return this.chain(target).some((ref) => this.providers.get(ref.providerId)?.configured);
+  }
+
+  async complete(target: ModelTarget, request: CompletionInput): Promise<CompletionResult> {
+    return this.withFallback(target, (provider, model) => provider.complete({ ...request, model }));
+  }
+
+  /**
+   * Stream a completion. A provider that fails before its first delta falls
+   * back to the next one; once text has been sent, errors are thrown.
+   * Returns the "providerId/model" that answered.
+   */
+  async *stream(target: ModelTarget, request: CompletionInput): AsyncGenerator<string, string> {
+    const failures: string[] = [];
+
+    for (const ref of this.callableChain(target)) {
+      const provider = this.get(ref.providerId);
+      let started = false;
+      try {
+        for await (const delta of provider.stream({ ...request, model: ref.model })) {
+          started = true;
+          yield delta;
+        }
+        modelRequests.inc({ provider: provider.id, task: target.task, status: 'success' });
+        return formatRef(ref);
+      } catch (error) {
+        modelRequests.inc({ provider: provider.id, task: target.task, status: 'error' });
+        if (started) throw error;
+        failures.push(this.recordFailure(target, ref, error));
+      }
+    }
+
+    throw new Error(`All model providers failed for ${this.describe(target)}: ${failures.join('; ') || 'none configured'}`);
+  }
+
+  async embed(input: string[]): Promise<number[][]> {
+    return this.withFallback({ task: 'embeddings' }, (provider, model) =>
+      provider.embed({ model, input, dimensions: this.embeddingDimensions })
+    );
+  }
+
+  /**
+   * An agent's chain as a Mastra model fallback list. `override` can replace
+   * the first model per run (e.g. an experiment variant's "providerId/model").
+   */
+  agentModels(agentId: string, override?: (runtimeContext: RuntimeContext) => string | undefined): AgentModelFallbacks {
+    const chain = this.chain({ task: 'chat', agent: agentId });
+    const usable = chain.filter((ref) => this.get(ref.providerId).configured);
+    const refs = usable.length > 0 ? usable : chain.slice(0, 1);
+
+    return refs.map((ref, index) => {
+      const model = this.get(ref.providerId).agentModel(ref.model);
+      return {
+        id: formatRef(ref),
+        model: index === 0 && override
+          ? ({ runtimeContext }: { runtimeContext: RuntimeContext }) => {
+              const replacement = override(runtimeContext);
+              return replacement ? this.resolveAgentModel(replacement) : model;
+            }
+          : model,
+        maxRetries: AGENT_MODEL_RETRIES,
+      };
+    });
+  }
+
+  /**
+   * A "providerId/model" reference as a Mastra agent model
+   */
+  resolveAgentModel(ref: string): MastraModelConfig {
+    const { providerId, model } = parseModelRef(ref);
+    return this.get(providerId).agentModel(model);
+  }
+
+  /**
+   * Remove all providers and go back to the default chains
+   */
+  reset(): void {
+    this.providers.clear();
+    this.taskChains = new Map(MODEL_TASKS.map((task) => [task, DEFAULT_TASK_MODELS[task].map(parseModelRef)]));
+    this.agentChains = new Map(Object.entries(DEFAULT_AGENT_MODELS).map(([agentId, refs]) => [agentId, refs.map(parseModelRef)]));
+    this.embeddingDimensions = DEFAULT_EMBEDDING_DIMENSIONS;
+  }
+
+  private async withFallback<T>(target: ModelTarget, call: (provider: ModelProvider, model: string) => Promise<T>): Promise<T> {
+    const failures: string[] = [];
+
+    for (const ref of this.callableChain(target)) {
+      const provider = this.get(ref.providerId);
+      try {
+        const result = await call(provider, ref.model);
+        modelRequests.inc({ provider: provider.id, task: target.task, status: 'success' });
+        return result;
+      } catch (error) {
+        modelRequests.inc({ provider: provider.id, task: target.task, status: 'error' });
+        failures.push(this.recordFailure(target, ref, error));
+      }
+    }
+
+    throw new Error(`All model providers failed for ${this.describe(target)}: ${failures.join('; ') || 'none configured'}`);
+  }
+
+  /**
+   * The chain without unregistered or unconfigured providers
+   */
+  private callableChain(target: ModelTarget): ModelRef[] {
+    return this.chain(target).filter((ref) => {
+      const provider = this.providers.get(ref.providerId);
+      if (!provider?.configured) {
+        logger.debug({ ...target, model: formatRef(ref) }, 'Skipping unconfigured model provider');
+        return false;
+      }
+      return true;
+    });
+  }
+
+  private recordFailure(target: ModelTarget, ref: ModelRef, error: unknown): string {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn({ ...target, model: formatRef(ref), error: message }, 'Model provider failed, trying next in chain');
+    return `${formatRef(ref)}: ${message}`;
+  }
+
+  private describe(target: ModelTarget): string {
+    return target.agent ? `agent ${target.agent}` : `task ${target.task}`;
+  }
+
+  private toChain(refs: Array<string | ModelRef>): ModelRef[] {
+    const chain = refs.map((ref) => (typeof ref === 'string' ? parseModelRef(ref) : ref));
+    for (const ref of chain) this.get(ref.providerId);
+    return chain;
+  }
+
+  private knownRefs(refs: ModelRef[]): ModelRef[] {
+    return refs.filter((ref) => {
+      if (this.providers.has(ref.providerId)) return true;
+      logger.warn({ model: formatRef(ref) }, 'Ignoring model for unregistered provider');
+      return false;
+    });
+  }
+}
+
+// Singleton instance
+let registryInstance: ModelProviderRegistry | null = null;
+
+export function getModelProviderRegistry(): ModelProviderRegistry {
+  if (!registryInstance) {
+    const env = process.env;
+    registryInstance = new ModelProviderRegistry();
+
+    registryInstance.register(new OpenAIModelProvider({
+      id: 'openai',
+      kind: 'openai',
+      apiKey: env.OPENAI_API_KEY || env.AI_INTEGRATIONS_OPENAI_API_KEY,
+      baseURL: env.OPENAI_BASE_URL || env.AI_INTEGRATIONS_OPENAI_BASE_URL,
+    }));
+
+    if (env.AZURE_OPENAI_ENDPOINT) {
+      registryInstance.register(new OpenAIModelProvider({
+        id: 'azure',
+        kind: 'azure',
+        apiKey: env.AZURE_OPENAI_API_KEY,
+        baseURL: env.AZURE_OPENAI_ENDPOINT,
+        apiVersion: env.AZURE_OPENAI_API_VERSION,
+      }));
+    }
+
+    if (env.ANTHROPIC_API_KEY) {
+      registryInstance.register(new AnthropicModelProvider({ id: 'anthropic', apiKey: env.ANTHROPIC_API_KEY, baseURL: env.ANTHROPIC_BASE_URL }));
+    }
+
+    // Self-hosted OpenAI-compatible server, e.g. http://localhost:11434/v1 (Ollama) or http://vllm:8000/v1
+    if (env.LLM_LOCAL_BASE_URL) {
+      registryInstance.register(new OpenAIModelProvider({
+        id: 'local',
+        kind: 'openai-compatible',
+        apiKey: env.LLM_LOCAL_API_KEY,
+        baseURL: env.LLM_LOCAL_BASE_URL,
+      }));
+    }
+
+    // The stub is only registered when a chain uses it
+    const chains = { tasks: env.LLM_TASK_MODELS || '', agents: env.LLM_AGENT_MODELS || '' };
+    if (/(^|[;:,])\s*stub\//.test(`${chains.tasks};${chains.agents}`)) {
+      registryInstance.register(new StubModelProvider());
+    }
+
+    if (env.LLM_EMBEDDING_DIMENSIONS) {
+      registryInstance.embeddingDimensions = parseInt(env.LLM_EMBEDDING_DIMENSIONS, 10);
+    }
+    registryInstance.loadChains(chains);
+  }
+  return registryInstance;
+}
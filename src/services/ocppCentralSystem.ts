@@ -0,0 +1,974 @@
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer, WebSocket, type RawData } from 'ws';
+import { logger } from '../utils/logger';
+import { generateUUID } from '../utils/idGenerator';
+import { getDb, parseTimestamp, type Database } from '../db';
+import { getStationMonitoring, StationStatus } from './stationMonitoring';
+
+/**
+ * OCPP Central System
+ *
+ * WebSocket endpoint for chargers that connect directly over OCPP-J instead of
+ * through Ampeco. Supports OCPP 1.6-J and 2.0.1:
+ * - Incoming: BootNotification, Heartbeat, StatusNotification, MeterValues,
+ *   Authorize, StartTransaction/StopTransaction (1.6), TransactionEvent (2.0.1)
+ * - Outgoing: RemoteStart/Stop, UnlockConnector, Reset
+ *
+ * Chargers connect to ws://<host>/ocpp/<chargePointId> with subprotocol
+ * `ocpp1.6` or `ocpp2.0.1`. Status and meter data are translated into the
+ * StationStatus shape and fed into StationMonitoringService, so station events
+ * and Discord alerts work the same as for Ampeco stations.
+ *
+ * Chargers authenticate with HTTP Basic auth on the upgrade (OCPP security
+ * profile 1): the username is the charge point id and the password comes from
+ * OCPP_CHARGE_POINT_PASSWORDS (`id:password,...`) or OCPP_SHARED_PASSWORD.
+ * Id tags are checked against rfid_cards; tags sent with a remote start are
+ * accepted for that charge point.
+ */
+
+export type OcppVersion = '1.6' | '2.0.1';
+
+// Subprotocols in order of preference
+export const OCPP_SUBPROTOCOLS: Record<string, OcppVersion> = {
+  'ocpp2.0.1': '2.0.1',
+  'ocpp1.6': '1.6',
+};
+
+// OCPP-J message type ids
+export const OCPP_CALL = 2;
+export const OCPP_CALL_RESULT = 3;
+export const OCPP_CALL_ERROR = 4;
+
+export type OcppCall = [typeof OCPP_CALL, string, string, Record<string, any>];
+export type OcppCallResult = [typeof OCPP_CALL_RESULT, string, Record<string, any>];
+export type OcppCallError = [typeof OCPP_CALL_ERROR, string, string, string, Record<string, any>];
+export type OcppMessage = OcppCall | OcppCallResult | OcppCallError;
+
+export interface OcppConnectorState {
+  connectorId: number;
+  evseId?: number;
+  status: string;
+  errorCode?: string;
+  info?: string;
+  powerKw: number;
+  energyWh?: number;
+  updatedAt: Date;
+}
+
+export interface OcppTransaction {
+  transactionId: string;
+  chargePointId: string;
+  connectorId: number;
+  idTag?: string;
+  meterStart?: number;
+  meterStop?: number;
+  startedAt: Date;
+  stoppedAt?: Date;
+  stopReason?: string;
+}
+
+export interface OcppChargePoint {
+  id: string;
+  version: OcppVersion;
+  connected: boolean;
+  vendor?: string;
+  model?: string;
+  firmwareVersion?: string;
+  connectedAt: Date;
+  lastSeen: Date;
+  connectors: Map<number, OcppConnectorState>;
+}
+
+export type OcppAuthorizationStatus = 'Accepted' | 'Blocked' | 'Expired' | 'Invalid';
+
+export interface OcppCentralSystemOptions {
+  db?: Database;
+  passwords?: Record<string, string>; // per charge point id
+  sharedPassword?: string; // for charge points without their own password
+  allowUnauthenticated?: boolean; // local development only
+}
+
+export interface OcppCommandResult {
+  success: boolean;
+  status?: string;
+  data?: any;
+  error?: string;
+}
+
+interface PendingCall {
+  chargePointId: string;
+  action: string;
+  resolve: (payload: Record<string, any>) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+// Connector statuses that mean a vehicle is plugged in / using the connector
+const OCCUPIED_STATUSES = new Set([
+  'Occupied', 'Preparing', 'Charging', 'SuspendedEV', 'SuspendedEVSE', 'Finishing', 'Reserved',
+]);
+
+export class OcppCentralSystem extends EventEmitter {
+  private wss: WebSocketServer;
+  private chargePoints: Map<string, OcppChargePoint> = new Map();
+  private sockets: Map<string, WebSocket> = new Map();
+  private pendingCalls: Map<string, PendingCall> = new Map();
+  private transactions: Map<string, OcppTransaction> = new Map();
+  private remoteStartTags: Map<string, number> = new Map(); // chargePointId:idTag -> expiry
+  // Only correlates a 2.0.1 RequestStartTransaction with its TransactionEvent
+  private nextRemoteStartId = 1;
+  private readonly HEARTBEAT_INTERVAL_S = 300; // 5 minutes
+  private readonly CALL_TIMEOUT_MS = 30000; // 30 seconds
+  private readonly REMOTE_START_TTL_MS = 5 * 60 * 1000; // 5 minutes
+  private readonly FINISHED_TRANSACTION_RETENTION_MS = 24 * 60 * 60 * 1000; // 24 hours
+  private readonly MAX_FINISHED_TRANSACTIONS = 500;
+
+  constructor(
+    private readonly path: string = '/ocpp',
+    private readonly options: OcppCentralSystemOptions = {}
+  ) {
+    super();
+
+    if (!this.hasCredentials()) {
+      logger.warn(
+        options.allowUnauthenticated
+          ? 'OCPP charge point authentication is disabled'
+          : 'No OCPP charge point passwords configured; all charger connections will be refused'
+      );
+    }
+
+    this.wss = new WebSocketServer({
+      noServer: true,
+      handleProtocols: (protocols) => {
+        for (const protocol of Object.keys(OCPP_SUBPROTOCOLS)) {
+          if (protocols.has(protocol)) {
+            return protocol;
+          }
+        }
+        return false;
+      },
+    });
+
+    logger.info({ path }, 'OcppCentralSystem initialized');
+  }
+
+  /**
+   * Attach to an HTTP server and accept OCPP upgrades on `<path>/<chargePointId>`
+   */
+  attach(server: Server): void {
+    server.on('upgrade', (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const chargePointId = this.parseChargePointId(request.url);
+      if (!chargePointId) {
+        return; // Not an OCPP upgrade; leave it for other handlers
+      }
+
+      // Refuse before the upgrade so an impostor never replaces the real charger's socket
+      if (!this.isAuthorized(chargePointId, request.headers.authorization)) {
+        logger.warn({ chargePointId, remoteAddress: request.socket.remoteAddress }, 'OCPP connection rejected: bad credentials');
+        socket.write('HTTP/1.1 401 Unauthorized\r\nWWW-Authenticate: Basic realm="OCPP"\r\nConnection: close\r\n\r\n');
+        socket.destroy();
+        return;
+      }
+
+      this.wss.handleUpgrade(request, socket, head, (ws) => {
+        this.handleConnection(ws, chargePointId);
+      });
+    });
+  }
+
+  /**
+   * Close all charge point connections
+   */
+  async close(): Promise<void> {
+    for (const socket of this.sockets.values()) {
+      socket.close(1001, 'Central system shutting down');
+    }
+    await new Promise<void>((resolve) => this.wss.close(() => resolve()));
+    logger.info('OCPP central system stopped');
+  }
+
+  private get db(): Database {
+    return this.options.db || getDb();
+  }
+
+  private hasCredentials(): boolean {
+    return Boolean(this.options.sharedPassword) || Object.keys(this.options.passwords || {}).length > 0;
+  }
+
+  /**
+   * Check the Basic auth header of an upgrade (username = charge point id)
+   */
+  private isAuthorized(chargePointId: string, header?: string): boolean {
+    if (!this.hasCredentials()) {
+      return this.options.allowUnauthenticated === true;
+    }
+
+    const expected = this.options.passwords?.[chargePointId] ?? this.options.sharedPassword;
+    if (!expected || !header?.startsWith('Basic ')) {
+      return false;
+    }
+
+    const decoded = Buffer.from(header.substring(6), 'base64').toString('utf8');
+    const separator = decoded.indexOf(':');
+    if (separator === -1 || decoded.substring(0, separator) !== chargePointId) {
+      return false;
+    }
+
+    // Compare digests so the check takes the same time for any password length
+    const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+    return crypto.timingSafeEqual(digest(decoded.substring(separator + 1)), digest(expected));
+  }
+
+  /**
+   * Extract the charge point id from an upgrade URL
+   */
+  private parseChargePointId(url?: string): string | null {
+    if (!url) return null;
+
+    const pathname = url.split('?')[0];
+    if (!pathname.startsWith(`${this.path}/`)) {
+      return null;
+    }
+
+    const id = decodeURIComponent(pathname.substring(this.path.length + 1));
+    return id && !id.includes('/') ? id : null;
+  }
+
+  /**
+   * Register a newly connected charge point
+   */
+  private handleConnection(ws: WebSocket, chargePointId: string): void {
+    const version = OCPP_SUBPROTOCOLS[ws.protocol] || '1.6';
+
+    // A reconnect replaces the old socket but keeps known connector state
+    const previousSocket = this.sockets.get(chargePointId);
+    if (previousSocket && previousSocket !== ws) {
+      previousSocket.close(1000, 'Replaced by new connection');
+    }
+
+    const existing = this.chargePoints.get(chargePointId);
+    const chargePoint: OcppChargePoint = {
+      id: chargePointId,
+      version,
+      connected: true,
+      vendor: existing?.vendor,
+      model: existing?.model,
+      firmwareVersion: existing?.firmwareVersion,
+      connectedAt: new Date(),
+      lastSeen: new Date(),
+      connectors: existing?.connectors || new Map(),
+    };
+
+    this.chargePoints.set(chargePointId, chargePoint);
+    this.sockets.set(chargePointId, ws);
+
+    logger.info({ chargePointId, version }, 'OCPP charge point connected');
+    this.emit('connected', chargePoint);
+
+    ws.on('message', (data) => {
+      this.handleMessage(chargePoint, ws, data).catch((error) => {
+        logger.error({ error, chargePointId }, 'Failed to handle OCPP message');
+      });
+    });
+
+    ws.on('close', () => {
+      if (this.sockets.get(chargePointId) !== ws) {
+        return; // Superseded by a newer connection
+      }
+
+      this.sockets.delete(chargePointId);
+      chargePoint.connected = false;
+      this.rejectPendingCalls(chargePointId, 'Charge point disconnected');
+
+      logger.warn({ chargePointId }, 'OCPP charge point disconnected');
+      this.emit('disconnected', chargePoint);
+      void this.publishStatus(chargePoint);
+    });
+
+    ws.on('error', (error) => {
+      logger.error({ error, chargePointId }, 'OCPP socket error');
+    });
+  }
+
+  /**
+   * Parse and route an incoming OCPP-J frame
+   */
+  private async handleMessage(chargePoint: OcppChargePoint, ws: WebSocket, data: RawData): Promise<void> {
+    chargePoint.lastSeen = new Date();
+
+    let message: OcppMessage;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      logger.warn({ chargePointId: chargePoint.id }, 'Received malformed OCPP frame');
+      return;
+    }
+
+    if (!Array.isArray(message) || typeof message[1] !== 'string') {
+      logger.warn({ chargePointId: chargePoint.id, message }, 'Received invalid OCPP frame');
+      return;
+    }
+
+    switch (message[0]) {
+      case OCPP_CALL: {
+        const [, uniqueId, action, payload] = message;
+        await this.handleCall(chargePoint, ws, uniqueId, action, payload || {});
+        break;
+      }
+
+      case OCPP_CALL_RESULT: {
+        const [, uniqueId, payload] = message;
+        const pending = this.pendingCalls.get(uniqueId);
+        if (pending) {
+          clearTimeout(pending.timer);
+          this.pendingCalls.delete(uniqueId);
+          pending.resolve(payload || {});
+        }
+        break;
+      }
+
+      case OCPP_CALL_ERROR: {
+        const [, uniqueId, errorCode, errorDescription] = message;
+        const pending = this.pendingCalls.get(uniqueId);
+        if (pending) {
+          clearTimeout(pending.timer);
+          this.pendingCalls.delete(uniqueId);
+          pending.reject(new Error(`${pending.action} failed: ${errorCode} ${errorDescription || ''}`.trim()));
+        }
+        break;
+      }
+
+      default:
+        logger.warn({ chargePointId: chargePoint.id, messageType: message[0] }, 'Unknown OCPP message type');
+    }
+  }
+
+  /**
+   * Handle a CALL from the charge point and send the CALLRESULT / CALLERROR
+   */
+  private async handleCall(
+    chargePoint: OcppChargePoint,
+    ws: WebSocket,
+    uniqueId: string,
+    action: string,
+    payload: Record<string, any>
+  ): Promise<void> {
+    logger.debug({ chargePointId: chargePoint.id, action }, 'OCPP call received');
+
+    try {
+      const response = await this.dispatchCall(chargePoint, action, payload);
+
+      if (response === null) {
+        this.send(ws, [OCPP_CALL_ERROR, uniqueId, 'NotImplemented', `Action ${action} is not supported`, {}]);
+        return;
+      }
+
+      this.send(ws, [OCPP_CALL_RESULT, uniqueId, response]);
+    } catch (error) {
+      logger.error({ error, chargePointId: chargePoint.id, action }, 'OCPP call handler error');
+      this.send(ws, [
+        OCPP_CALL_ERROR,
+        uniqueId,
+        'InternalError',
+        error instanceof Error ? error.message : 'Unknown error',
+        {},
+      ]);
+    }
+  }
+
+  /**
+   * Route an incoming action to its handler. Returns null for unsupported actions.
+   */
+  private async dispatchCall(
+    chargePoint: OcppChargePoint,
+    action: string,
+    payload: Record<string, any>
+  ): Promise<Record<string, any> | null> {
+    switch (action) {
+      case 'BootNotification':
+        return this.handleBootNotification(chargePoint, payload);
+
+      case 'Heartbeat':
+        return { currentTime: new Date().toISOString() };
+
+      case 'StatusNotification':
+        await this.handleStatusNotification(chargePoint, payload);
+        return {};
+
+      case 'MeterValues':
+        await this.handleMeterValues(chargePoint, payload);
+        return {};
+
+      case 'Authorize': {
+        const status = await this.authorizeIdTag(chargePoint, chargePoint.version === '1.6' ? payload.idTag : payload.idToken?.idToken);
+        return chargePoint.version === '1.6' ? { idTagInfo: { status } } : { idTokenInfo: { status } };
+      }
+
+      case 'StartTransaction':
+        return this.handleStartTransaction(chargePoint, payload);
+
+      case 'StopTransaction':
+        return this.handleStopTransaction(chargePoint, payload);
+
+      case 'TransactionEvent':
+        return this.handleTransactionEvent(chargePoint, payload);
+
+      default:
+        return null;
+    }
+  }
+
+  private handleBootNotification(chargePoint: OcppChargePoint, payload: Record<string, any>): Record<string, any> {
+    if (chargePoint.version === '1.6') {
+      chargePoint.vendor = payload.chargePointVendor;
+      chargePoint.model = payload.chargePointModel;
+      chargePoint.firmwareVersion = payload.firmwareVersion;
+    } else {
+      chargePoint.vendor = payload.chargingStation?.vendorName;
+      chargePoint.model = payload.chargingStation?.model;
+      chargePoint.firmwareVersion = payload.chargingStation?.firmwareVersion;
+    }
+
+    logger.info({
+      chargePointId: chargePoint.id,
+      vendor: chargePoint.vendor,
+      model: chargePoint.model,
+    }, 'OCPP BootNotification accepted');
+
+    this.emit('boot', chargePoint);
+
+    return {
+      status: 'Accepted',
+      currentTime: new Date().toISOString(),
+      interval: this.HEARTBEAT_INTERVAL_S,
+    };
+  }
+
+  private async handleStatusNotification(chargePoint: OcppChargePoint, payload: Record<string, any>): Promise<void> {
+    // 1.6: { connectorId, status, errorCode, info }
+    // 2.0.1: { evseId, connectorId, connectorStatus }
+    const is16 = chargePoint.version === '1.6';
+    const key = is16 ? Number(payload.connectorId) : Number(payload.evseId);
+    const connector = this.getConnector(chargePoint, key);
+
+    connector.status = is16 ? payload.status : payload.connectorStatus;
+    connector.errorCode = is16 && payload.errorCode !== 'NoError' ? payload.errorCode : undefined;
+    connector.info = payload.info;
+    connector.updatedAt = new Date();
+    if (!is16) {
+      connector.evseId = Number(payload.evseId);
+      connector.connectorId = Number(payload.connectorId);
+    }
+
+    await this.publishStatus(chargePoint);
+  }
+
+  private async handleMeterValues(chargePoint: OcppChargePoint, payload: Record<string, any>): Promise<void> {
+    const key = chargePoint.version === '1.6' ? Number(payload.connectorId) : Number(payload.evseId);
+    this.applyMeterValues(this.getConnector(chargePoint, key), payload.meterValue || []);
+    await this.publishStatus(chargePoint);
+  }
+
+  private async handleStartTransaction(chargePoint: OcppChargePoint, payload: Record<string, any>): Promise<Record<string, any>> {
+    const status = await this.authorizeIdTag(chargePoint, payload.idTag, true);
+    const startedAt = payload.timestamp ? new Date(payload.timestamp) : new Date();
+
+    // The charger needs a transaction id even when the tag is refused; it stops the transaction itself
+    const inserted = await this.db.get<{ id: number }>(`
+      INSERT INTO ocpp_transactions (charge_point_id, connector_id, id_tag, meter_start, started_at)
+      VALUES (?, ?, ?, ?, ?)
+      RETURNING id
+    `, [chargePoint.id, Number(payload.connectorId), payload.idTag ?? null, payload.meterStart ?? null, startedAt.toISOString()]);
+    const transactionId = Number(inserted!.id);
+
+    const transaction: OcppTransaction = {
+      transactionId: String(transactionId),
+      chargePointId: chargePoint.id,
+      connectorId: Number(payload.connectorId),
+      idTag: payload.idTag,
+      meterStart: payload.meterStart,
+      startedAt,
+    };
+
+    this.transactions.set(this.transactionKey(chargePoint.id, transaction.transactionId), transaction);
+    this.emit('transaction_started', transaction);
+
+    logger.info({ chargePointId: chargePoint.id, transactionId, idTagStatus: status }, 'OCPP transaction started');
+
+    return { transactionId, idTagInfo: { status } };
+  }
+
+  private async handleStopTransaction(chargePoint: OcppChargePoint, payload: Record<string, any>): Promise<Record<string, any>> {
+    const transaction = this.transactions.get(this.transactionKey(chargePoint.id, String(payload.transactionId)))
+      || await this.loadTransaction(chargePoint.id, String(payload.transactionId));
+
+    if (transaction) {
+      transaction.meterStop = payload.meterStop;
+      transaction.stoppedAt = payload.timestamp ? new Date(payload.timestamp) : new Date();
+      transaction.stopReason = payload.reason || 'Local';
+
+      await this.db.run(`
+        UPDATE ocpp_transactions SET meter_stop = ?, stopped_at = ?, stop_reason = ?
+        WHERE id = ? AND charge_point_id = ?
+      `, [transaction.meterStop ?? null, transaction.stoppedAt.toISOString(), transaction.stopReason, Number(transaction.transactionId), chargePoint.id]);
+
+      this.getConnector(chargePoint, transaction.connectorId).powerKw = 0;
+      this.emit('transaction_stopped', transaction);
+      this.pruneTransactions();
+
+      logger.info({ chargePointId: chargePoint.id, transactionId: payload.transactionId }, 'OCPP transaction stopped');
+    } else {
+      logger.warn({ chargePointId: chargePoint.id, transactionId: payload.transactionId }, 'StopTransaction for unknown transaction');
+    }
+
+    // The id tag is optional here; it's the card presented to stop the session
+    return payload.idTag ? { idTagInfo: { status: await this.authorizeIdTag(chargePoint, payload.idTag) } } : {};
+  }
+
+  /**
+   * Rebuild a 1.6 transaction started before the last restart
+   */
+  private async loadTransaction(chargePointId: string, transactionId: string): Promise<OcppTransaction | null> {
+    const id = Number(transactionId);
+    if (!Number.isInteger(id)) return null;
+
+    const row = await this.db.get<any>(
+      `SELECT * FROM ocpp_transactions WHERE id = ? AND charge_point_id = ?`,
+      [id, chargePointId]
+    );
+    if (!row) return null;
+
+    const transaction: OcppTransaction = {
+      transactionId,
+      chargePointId,
+      connectorId: Number(row.connector_id),
+      idTag: row.id_tag ?? undefined,
+      meterStart: row.meter_start ?? undefined,
+      startedAt: parseTimestamp(row.started_at),
+    };
+    this.transactions.set(this.transactionKey(chargePointId, transactionId), transaction);
+    return transaction;
+  }
+
+  private async handleTransactionEvent(chargePoint: OcppChargePoint, payload: Record<string, any>): Promise<Record<string, any>> {
+    const transactionId = String(payload.transactionInfo?.transactionId);
+    const key = this.transactionKey(chargePoint.id, transactionId);
+    const evseId = Number(payload.evse?.id ?? this.transactions.get(key)?.connectorId ?? 0);
+    let idTokenStatus: OcppAuthorizationStatus | undefined;
+
+    if (payload.meterValue && evseId) {
+      this.applyMeterValues(this.getConnector(chargePoint, evseId), payload.meterValue);
+    }
+
+    switch (payload.eventType) {
+      case 'Started': {
+        if (payload.idToken?.idToken) {
+          idTokenStatus = await this.authorizeIdTag(chargePoint, payload.idToken.idToken, true);
+        }
+        const transaction: OcppTransaction = {
+          transactionId,
+          chargePointId: chargePoint.id,
+          connectorId: evseId,
+          idTag: payload.idToken?.idToken,
+          startedAt: payload.timestamp ? new Date(payload.timestamp) : new Date(),
+        };
+        this.transactions.set(key, transaction);
+        this.emit('transaction_started', transaction);
+        logger.info({ chargePointId: chargePoint.id, transactionId }, 'OCPP transaction started');
+        break;
+      }
+
+      case 'Ended': {
+        const transaction = this.transactions.get(key);
+        if (transaction) {
+          transaction.stoppedAt = payload.timestamp ? new Date(payload.timestamp) : new Date();
+          transaction.stopReason = payload.transactionInfo?.stoppedReason || 'Local';
+          this.getConnector(chargePoint, transaction.connectorId).powerKw = 0;
+          this.emit('transaction_stopped', transaction);
+          this.pruneTransactions();
+          logger.info({ chargePointId: chargePoint.id, transactionId }, 'OCPP transaction stopped');
+        }
+        break;
+      }
+    }
+
+    await this.publishStatus(chargePoint);
+
+    if (!payload.idToken?.idToken) {
+      return {};
+    }
+    return { idTokenInfo: { status: idTokenStatus ?? await this.authorizeIdTag(chargePoint, payload.idToken.idToken) } };
+  }
+
+  /**
+   * Check an id tag: tags of a pending remote start are accepted, anything
+   * else must be an active, unexpired card in rfid_cards
+   */
+  private async authorizeIdTag(chargePoint: OcppChargePoint, idTag: unknown, consumeRemoteStart = false): Promise<OcppAuthorizationStatus> {
+    if (typeof idTag !== 'string' || !idTag) {
+      return 'Invalid';
+    }
+
+    const remoteKey = `${chargePoint.id}:${idTag}`;
+    const remoteExpiry = this.remoteStartTags.get(remoteKey);
+    if (remoteExpiry !== undefined) {
+      if (remoteExpiry > Date.now()) {
+        if (consumeRemoteStart) this.remoteStartTags.delete(remoteKey);
+        return 'Accepted';
+      }
+      this.remoteStartTags.delete(remoteKey);
+    }
+
+    const card = await this.db.get<{ status: string; expiry_date: string | null }>(
+      `SELECT status, expiry_date FROM rfid_cards WHERE card_id = ?`,
+      [idTag]
+    );
+
+    let status: OcppAuthorizationStatus;
+    if (!card) {
+      status = 'Invalid';
+    } else if (card.status === 'blocked' || card.status === 'lost') {
+      status = 'Blocked';
+    } else if (card.status === 'expired' || (card.expiry_date && parseTimestamp(card.expiry_date).getTime() < Date.now())) {
+      status = 'Expired';
+    } else {
+      status = 'Accepted';
+    }
+
+    if (status !== 'Accepted') {
+      logger.warn({ chargePointId: chargePoint.id, idTag, status }, 'OCPP id tag refused');
+    }
+    return status;
+  }
+
+  /**
+   * Drop finished transactions past the retention window, keeping at most
+   * MAX_FINISHED_TRANSACTIONS in memory (running ones are always kept)
+   */
+  private pruneTransactions(): void {
+    const cutoff = Date.now() - this.FINISHED_TRANSACTION_RETENTION_MS;
+    const finished = [...this.transactions.entries()]
+      .filter(([, t]) => t.stoppedAt)
+      .sort(([, a], [, b]) => b.stoppedAt!.getTime() - a.stoppedAt!.getTime());
+
+    finished.forEach(([key, transaction], index) => {
+      if (index >= this.MAX_FINISHED_TRANSACTIONS || transaction.stoppedAt!.getTime() < cutoff) {
+        this.transactions.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Extract power and energy readings from OCPP meter values
+   */
+  private applyMeterValues(connector: OcppConnectorState, meterValues: any[]): void {
+    for (const meterValue of meterValues) {
+      for (const sample of meterValue.sampledValue || []) {
+        const value = parseFloat(sample.value);
+        if (Number.isNaN(value)) continue;
+
+        // 2.0.1 puts the unit under unitOfMeasure
+        const unit = sample.unit || sample.unitOfMeasure?.unit;
+        const measurand = sample.measurand || 'Energy.Active.Import.Register';
+
+        if (measurand === 'Power.Active.Import') {
+          connector.powerKw = unit === 'kW' ? value : value / 1000;
+        } else if (measurand === 'Energy.Active.Import.Register') {
+          connector.energyWh = unit === 'kWh' ? value * 1000 : value;
+        }
+      }
+    }
+    connector.updatedAt = new Date();
+  }
+
+  private getConnector(chargePoint: OcppChargePoint, key: number): OcppConnectorState {
+    let connector = chargePoint.connectors.get(key);
+    if (!connector) {
+      connector = {
+        connectorId: key,
+        status: 'Unknown',
+        powerKw: 0,
+        updatedAt: new Date(),
+      };
+      chargePoint.connectors.set(key, connector);
+    }
+    return connector;
+  }
+
+  private transactionKey(chargePointId: string, transactionId: string): string {
+    return `${chargePointId}:${transactionId}`;
+  }
+
+  /**
+   * Translate charge point state into the shared StationStatus shape
+   */
+  toStationStatus(chargePoint: OcppChargePoint): StationStatus {
+    // Connector 0 (1.6) describes the whole charge point
+    const stationLevel = chargePoint.connectors.get(0);
+    const connectors = [...chargePoint.connectors.values()].filter((c) => c.connectorId !== 0 || c.evseId);
+    const faulted = [stationLevel, ...connectors].find((c) => c?.status === 'Faulted' || c?.errorCode);
+
+    let status: StationStatus['status'];
+    if (!chargePoint.connected) {
+      status = 'Offline';
+    } else if (faulted?.status === 'Faulted') {
+      status = 'Faulted';
+    } else if (stationLevel?.status === 'Unavailable') {
+      status = 'Unavailable';
+    } else if (connectors.some((c) => c.status === 'Available')) {
+      status = 'Available';
+    } else if (connectors.some((c) => OCCUPIED_STATUSES.has(c.status))) {
+      status = 'Occupied';
+    } else {
+      status = 'Unavailable';
+    }
+
+    return {
+      stationId: chargePoint.id,
+      stationName: chargePoint.model ? `${chargePoint.vendor || ''} ${chargePoint.model}`.trim() : chargePoint.id,
+      status,
+      connectors: connectors.map((c) => ({
+        connectorId: c.evseId ?? c.connectorId,
+        type: 'Unknown',
+        status: c.status,
+        powerKw: c.powerKw,
+      })),
+      lastUpdated: chargePoint.lastSeen,
+      errorCode: faulted?.errorCode,
+      errorMessage: faulted?.info,
+    };
+  }
+
+  /**
+   * Push the latest status into station monitoring
+   */
+  private async publishStatus(chargePoint: OcppChargePoint): Promise<void> {
+    const status = this.toStationStatus(chargePoint);
+    this.emit('station_status', status);
+
+    try {
+      await getStationMonitoring().ingestStationStatus(status);
+    } catch (error) {
+      logger.error({ error, chargePointId: chargePoint.id }, 'Failed to publish OCPP station status');
+    }
+  }
+
+  private send(ws: WebSocket, message: OcppMessage): void {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  }
+
+  /**
+   * Send a CALL to a charge point and wait for its CALLRESULT
+   */
+  sendCall(chargePointId: string, action: string, payload: Record<string, any>): Promise<Record<string, any>> {
+    const ws = this.sockets.get(chargePointId);
+    if (!ws || ws.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new Error(`Charge point ${chargePointId} is not connected`));
+    }
+
+    const uniqueId = generateUUID();
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingCalls.delete(uniqueId);
+        reject(new Error(`${action} timed out after ${this.CALL_TIMEOUT_MS / 1000}s`));
+      }, this.CALL_TIMEOUT_MS);
+
+      this.pendingCalls.set(uniqueId, { chargePointId, action, resolve, reject, timer });
+      this.send(ws, [OCPP_CALL, uniqueId, action, payload]);
+
+      logger.debug({ chargePointId, action, uniqueId }, 'OCPP call sent');
+    });
+  }
+
+  private rejectPendingCalls(chargePointId: string, reason: string): void {
+    for (const [uniqueId, pending] of this.pendingCalls) {
+      if (pending.chargePointId !== chargePointId) continue;
+
+      clearTimeout(pending.timer);
+      this.pendingCalls.delete(uniqueId);
+      pending.reject(new Error(`${pending.action}: ${reason}`));
+    }
+  }
+
+  /**
+   * Run a remote command and normalize the response to { success, status }
+   */
+  private async runCommand(
+    chargePointId: string,
+    action: string,
+    payload: Record<string, any>,
+    successStatuses: string[]
+  ): Promise<OcppCommandResult> {
+    try {
+      const response = await this.sendCall(chargePointId, action, payload);
+      const success = successStatuses.includes(response.status);
+
+      logger.info({ chargePointId, action, status: response.status }, 'OCPP command completed');
+
+      return {
+        success,
+        status: response.status,
+        data: response,
+        error: success ? undefined : `${action} returned ${response.status}`,
+      };
+    } catch (error) {
+      logger.error({ error, chargePointId, action }, 'OCPP command failed');
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Reset a charge point (soft = software restart, hard = power cycle)
+   */
+  async reset(chargePointId: string, resetType: 'soft' | 'hard' = 'soft'): Promise<OcppCommandResult> {
+    const chargePoint = this.chargePoints.get(chargePointId);
+    if (!chargePoint) {
+      return { success: false, error: `Charge point ${chargePointId} is not known` };
+    }
+
+    const payload = chargePoint.version === '1.6'
+      ? { type: resetType === 'soft' ? 'Soft' : 'Hard' }
+      : { type: resetType === 'soft' ? 'OnIdle' : 'Immediate' };
+
+    return this.runCommand(chargePointId, 'Reset', payload, ['Accepted', 'Scheduled']);
+  }
+
+  /**
+   * Unlock a connector (connector id for 1.6, EVSE id for 2.0.1)
+   */
+  async unlockConnector(chargePointId: string, connectorId: number): Promise<OcppCommandResult> {
+    const chargePoint = this.chargePoints.get(chargePointId);
+    if (!chargePoint) {
+      return { success: false, error: `Charge point ${chargePointId} is not known` };
+    }
+
+    const payload = chargePoint.version === '1.6'
+      ? { connectorId }
+      : { evseId: connectorId, connectorId: chargePoint.connectors.get(connectorId)?.connectorId ?? 1 };
+
+    return this.runCommand(chargePointId, 'UnlockConnector', payload, ['Unlocked']);
+  }
+
+  /**
+   * Ask the charge point to start a transaction for an id tag
+   */
+  async remoteStartTransaction(chargePointId: string, connectorId: number, idTag: string): Promise<OcppCommandResult> {
+    const chargePoint = this.chargePoints.get(chargePointId);
+    if (!chargePoint) {
+      return { success: false, error: `Charge point ${chargePointId} is not known` };
+    }
+
+    // The charger authorizes the tag with us before starting; it was chosen by us, so accept it
+    this.remoteStartTags.set(`${chargePointId}:${idTag}`, Date.now() + this.REMOTE_START_TTL_MS);
+
+    if (chargePoint.version === '1.6') {
+      return this.runCommand(chargePointId, 'RemoteStartTransaction', { connectorId, idTag }, ['Accepted']);
+    }
+
+    return this.runCommand(chargePointId, 'RequestStartTransaction', {
+      evseId: connectorId,
+      remoteStartId: this.nextRemoteStartId++,
+      idToken: { idToken: idTag, type: 'Central' },
+    }, ['Accepted']);
+  }
+
+  /**
+   * Ask the charge point to stop a running transaction
+   */
+  async remoteStopTransaction(chargePointId: string, transactionId: string): Promise<OcppCommandResult> {
+    const chargePoint = this.chargePoints.get(chargePointId);
+    if (!chargePoint) {
+      return { success: false, error: `Charge point ${chargePointId} is not known` };
+    }
+
+    if (chargePoint.version === '1.6') {
+      return this.runCommand(chargePointId, 'RemoteStopTransaction', { transactionId: Number(transactionId) }, ['Accepted']);
+    }
+
+    return this.runCommand(chargePointId, 'RequestStopTransaction', { transactionId }, ['Accepted']);
+  }
+
+  /**
+   * Check whether a charge point is currently connected
+   */
+  isConnected(chargePointId: string): boolean {
+    return this.chargePoints.get(chargePointId)?.connected === true;
+  }
+
+  /**
+   * Get a known charge point (connected or not)
+   */
+  getChargePoint(chargePointId: string): OcppChargePoint | null {
+    return this.chargePoints.get(chargePointId) || null;
+  }
+
+  /**
+   * List all known charge points
+   */
+  listChargePoints(): OcppChargePoint[] {
+    return [...this.chargePoints.values()];
+  }
+
+  /**
+   * Get the station status of a directly connected charge point
+   */
+  getStationStatus(chargePointId: string): StationStatus | null {
+    const chargePoint = this.chargePoints.get(chargePointId);
+    return chargePoint ? this.toStationStatus(chargePoint) : null;
+  }
+
+  /**
+   * Get all known transactions (running and finished), newest first
+   */
+  getTransactions(chargePointId?: string): OcppTransaction[] {
+    return [...this.transactions.values()]
+      .filter((t) => !chargePointId || t.chargePointId === chargePointId)
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+  }
+
+  /**
+   * Get running transactions, optionally for a single charge point
+   */
+  getActiveTransactions(chargePointId?: string): OcppTransaction[] {
+    return [...this.transactions.values()].filter(
+      (t) => !t.stoppedAt && (!chargePointId || t.chargePointId === chargePointId)
+    );
+  }
+}
+
+// Singleton instance
+let centralSystemInstance: OcppCentralSystem | null = null;
+
+/**
+ * Parse OCPP_CHARGE_POINT_PASSWORDS (`id:password,id:password`)
+ */
+function parseChargePointPasswords(value?: string): Record<string, string> {
+  const passwords: Record<string, string> = {};
+  for (const entry of (value || '').split(',')) {
+    const separator = entry.indexOf(':');
+    if (separator > 0) {
+      passwords[entry.substring(0, separator).trim()] = entry.substring(separator + 1).trim();
+    }
+  }
+  return passwords;
+}
+
+export function getOcppCentralSystem(): OcppCentralSystem {
+  if (!centralSystemInstance) {
+    centralSystemInstance = new OcppCentralSystem(process.env.OCPP_PATH || '/ocpp', {
+      passwords: parseChargePointPasswords(process.env.OCPP_CHARGE_POINT_PASSWORDS),
+      sharedPassword: process.env.OCPP_SHARED_PASSWORD || undefined,
+      allowUnauthenticated: process.env.OCPP_ALLOW_UNAUTHENTICATED === 'true',
+    });
+  }
+  return centralSystemInstance;
+}
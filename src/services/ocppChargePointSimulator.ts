@@ -0,0 +1,372 @@
+import { EventEmitter } from 'events';
+import { WebSocket } from 'ws';
+import { logger } from '../utils/logger';
+import { generateUUID } from '../utils/idGenerator';
+import {
+  OcppVersion,
+  OcppMessage,
+  OCPP_CALL,
+  OCPP_CALL_RESULT,
+  OCPP_CALL_ERROR,
+} from './ocppCentralSystem';
+
+/**
+ * OCPP Charge Point Simulator
+ *
+ * Minimal OCPP-J charge point for local development and manual testing of the
+ * central system. Speaks 1.6 or 2.0.1, boots, reports connector status and
+ * answers Reset, UnlockConnector and RemoteStart/Stop (RequestStart/Stop in
+ * 2.0.1) like a real charger would, including the follow-up transaction
+ * messages.
+ */
+
+export interface ChargePointSimulatorOptions {
+  url: string; // e.g. ws://localhost:3000/ocpp
+  chargePointId: string;
+  password?: string; // Basic auth password for the central system
+  version?: OcppVersion;
+  connectors?: number;
+  vendor?: string;
+  model?: string;
+  powerKw?: number;
+}
+
+interface SimulatedTransaction {
+  transactionId: string;
+  connectorId: number;
+  idTag: string;
+  meterStart: number;
+}
+
+export class OcppChargePointSimulator extends EventEmitter {
+  private ws: WebSocket | null = null;
+  private pending: Map<string, { resolve: (payload: any) => void; reject: (error: Error) => void }> = new Map();
+  private transactions: Map<number, SimulatedTransaction> = new Map();
+  private meterWh = 0;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private readonly version: OcppVersion;
+  private readonly connectors: number;
+  private readonly powerKw: number;
+
+  constructor(private readonly options: ChargePointSimulatorOptions) {
+    super();
+    this.version = options.version || '1.6';
+    this.connectors = options.connectors || 2;
+    this.powerKw = options.powerKw || 22;
+  }
+
+  /**
+   * Connect, send BootNotification and report all connectors Available
+   */
+  async connect(): Promise<void> {
+    const subprotocol = this.version === '1.6' ? 'ocpp1.6' : 'ocpp2.0.1';
+    const url = `${this.options.url.replace(/\/$/, '')}/${encodeURIComponent(this.options.chargePointId)}`;
+
+    const headers: Record<string, string> = {};
+    if (this.options.password !== undefined) {
+      const credentials = `${this.options.chargePointId}:${this.options.password}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    this.ws = new WebSocket(url, subprotocol, { headers });
+
+    await new Promise<void>((resolve, reject) => {
+      this.ws!.once('open', () => resolve());
+      this.ws!.once('error', reject);
+    });
+
+    this.ws.on('message', (data) => {
+      this.handleMessage(data.toString()).catch((error) => {
+        logger.error({ error }, 'Simulator failed to handle message');
+      });
+    });
+
+    this.ws.on('close', () => {
+      this.stopHeartbeat();
+      this.emit('disconnected');
+    });
+
+    const boot = await this.call('BootNotification', this.version === '1.6'
+      ? {
+          chargePointVendor: this.options.vendor || 'EdgeSim',
+          chargePointModel: this.options.model || 'SimCharger',
+          firmwareVersion: '1.0.0',
+        }
+      : {
+          reason: 'PowerUp',
+          chargingStation: {
+            vendorName: this.options.vendor || 'EdgeSim',
+            model: this.options.model || 'SimCharger',
+            firmwareVersion: '1.0.0',
+          },
+        });
+
+    logger.info({ chargePointId: this.options.chargePointId, status: boot.status }, 'Simulator booted');
+
+    if (boot.interval) {
+      this.heartbeatTimer = setInterval(() => {
+        this.call('Heartbeat', {}).catch(() => undefined);
+      }, boot.interval * 1000);
+      this.heartbeatTimer.unref();
+    }
+
+    for (let connectorId = 1; connectorId <= this.connectors; connectorId++) {
+      await this.sendStatus(connectorId, 'Available');
+    }
+  }
+
+  /**
+   * Close the connection
+   */
+  disconnect(): void {
+    this.stopHeartbeat();
+    this.ws?.close();
+    this.ws = null;
+  }
+
+  /**
+   * Report a connector status (1.6 status names; mapped for 2.0.1)
+   */
+  async sendStatus(connectorId: number, status: string, errorCode: string = 'NoError'): Promise<void> {
+    if (this.version === '1.6') {
+      await this.call('StatusNotification', {
+        connectorId,
+        status,
+        errorCode,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    await this.call('StatusNotification', {
+      timestamp: new Date().toISOString(),
+      connectorStatus: ['Preparing', 'Charging', 'SuspendedEV', 'SuspendedEVSE', 'Finishing'].includes(status)
+        ? 'Occupied'
+        : status,
+      evseId: connectorId,
+      connectorId: 1,
+    });
+  }
+
+  /**
+   * Start a transaction on a connector. Like a real charger, a transaction
+   * whose id tag the central system refuses is stopped again right away.
+   */
+  async startTransaction(connectorId: number, idTag: string): Promise<string> {
+    await this.sendStatus(connectorId, 'Preparing');
+
+    let transactionId: string;
+    let idTagStatus: string | undefined;
+    if (this.version === '1.6') {
+      const response = await this.call('StartTransaction', {
+        connectorId,
+        idTag,
+        meterStart: Math.round(this.meterWh),
+        timestamp: new Date().toISOString(),
+      });
+      transactionId = String(response.transactionId);
+      idTagStatus = response.idTagInfo?.status;
+    } else {
+      transactionId = generateUUID();
+      const response = await this.call('TransactionEvent', {
+        eventType: 'Started',
+        timestamp: new Date().toISOString(),
+        triggerReason: 'Authorized',
+        seqNo: 0,
+        transactionInfo: { transactionId },
+        idToken: { idToken: idTag, type: 'ISO14443' },
+        evse: { id: connectorId, connectorId: 1 },
+      });
+      idTagStatus = response.idTokenInfo?.status;
+    }
+
+    this.transactions.set(connectorId, {
+      transactionId,
+      connectorId,
+      idTag,
+      meterStart: Math.round(this.meterWh),
+    });
+
+    if (idTagStatus !== 'Accepted') {
+      await this.stopTransaction(connectorId, 'DeAuthorized');
+      throw new Error(`Id tag ${idTag} was not accepted (${idTagStatus})`);
+    }
+
+    await this.sendStatus(connectorId, 'Charging');
+    await this.sendMeterValues(connectorId);
+
+    return transactionId;
+  }
+
+  /**
+   * Stop the transaction running on a connector
+   */
+  async stopTransaction(connectorId: number, reason: string = 'Local'): Promise<void> {
+    const transaction = this.transactions.get(connectorId);
+    if (!transaction) {
+      return;
+    }
+
+    // Pretend a few minutes of charging happened
+    this.meterWh += this.powerKw * 1000 * (5 / 60);
+
+    if (this.version === '1.6') {
+      await this.call('StopTransaction', {
+        transactionId: Number(transaction.transactionId),
+        idTag: transaction.idTag,
+        meterStop: Math.round(this.meterWh),
+        timestamp: new Date().toISOString(),
+        reason,
+      });
+    } else {
+      await this.call('TransactionEvent', {
+        eventType: 'Ended',
+        timestamp: new Date().toISOString(),
+        triggerReason: reason === 'Remote' ? 'RemoteStop' : 'StopAuthorized',
+        seqNo: 1,
+        transactionInfo: { transactionId: transaction.transactionId, stoppedReason: reason },
+        evse: { id: connectorId, connectorId: 1 },
+      });
+    }
+
+    this.transactions.delete(connectorId);
+    await this.sendStatus(connectorId, 'Finishing');
+    await this.sendStatus(connectorId, 'Available');
+  }
+
+  /**
+   * Send a power + energy meter sample for a connector
+   */
+  async sendMeterValues(connectorId: number): Promise<void> {
+    const charging = this.transactions.has(connectorId);
+    const sampledValue = [
+      { value: String(charging ? this.powerKw * 1000 : 0), measurand: 'Power.Active.Import', unit: 'W' },
+      { value: String(Math.round(this.meterWh)), measurand: 'Energy.Active.Import.Register', unit: 'Wh' },
+    ];
+    const meterValue = [{ timestamp: new Date().toISOString(), sampledValue }];
+
+    if (this.version === '1.6') {
+      await this.call('MeterValues', {
+        connectorId,
+        transactionId: charging ? Number(this.transactions.get(connectorId)!.transactionId) : undefined,
+        meterValue,
+      });
+    } else {
+      await this.call('MeterValues', { evseId: connectorId, meterValue });
+    }
+  }
+
+  /**
+   * Report a connector fault
+   */
+  async fault(connectorId: number, errorCode: string = 'GroundFailure'): Promise<void> {
+    await this.sendStatus(connectorId, 'Faulted', errorCode);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * Send a CALL to the central system and wait for the result
+   */
+  private call(action: string, payload: Record<string, any>): Promise<any> {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new Error('Simulator is not connected'));
+    }
+
+    const uniqueId = generateUUID();
+    return new Promise((resolve, reject) => {
+      this.pending.set(uniqueId, { resolve, reject });
+      this.ws!.send(JSON.stringify([OCPP_CALL, uniqueId, action, payload]));
+    });
+  }
+
+  private reply(message: OcppMessage): void {
+    this.ws?.send(JSON.stringify(message));
+  }
+
+  private async handleMessage(raw: string): Promise<void> {
+    const message = JSON.parse(raw) as OcppMessage;
+
+    if (message[0] === OCPP_CALL_RESULT || message[0] === OCPP_CALL_ERROR) {
+      const pending = this.pending.get(message[1]);
+      if (!pending) return;
+      this.pending.delete(message[1]);
+
+      if (message[0] === OCPP_CALL_RESULT) {
+        pending.resolve(message[2]);
+      } else {
+        pending.reject(new Error(`${message[2]}: ${message[3]}`));
+      }
+      return;
+    }
+
+    const [, uniqueId, action, payload] = message;
+    this.emit('command', action, payload);
+    logger.info({ chargePointId: this.options.chargePointId, action, payload }, 'Simulator received command');
+
+    switch (action) {
+      case 'Reset': {
+        this.reply([OCPP_CALL_RESULT, uniqueId, { status: 'Accepted' }]);
+        // Simulate a reboot: drop running transactions and come back Available
+        setTimeout(() => {
+          void (async () => {
+            for (const connectorId of [...this.transactions.keys()]) {
+              await this.stopTransaction(connectorId, this.version === '1.6' ? 'SoftReset' : 'ImmediateReset');
+            }
+            for (let connectorId = 1; connectorId <= this.connectors; connectorId++) {
+              await this.sendStatus(connectorId, 'Available');
+            }
+          })().catch(() => undefined);
+        }, 100);
+        break;
+      }
+
+      case 'UnlockConnector': {
+        const connectorId = this.version === '1.6' ? payload.connectorId : payload.evseId;
+        const valid = connectorId >= 1 && connectorId <= this.connectors;
+        this.reply([OCPP_CALL_RESULT, uniqueId, {
+          status: valid ? 'Unlocked' : (this.version === '1.6' ? 'NotSupported' : 'UnknownConnector'),
+        }]);
+        break;
+      }
+
+      case 'RemoteStartTransaction':
+      case 'RequestStartTransaction': {
+        const connectorId = (this.version === '1.6' ? payload.connectorId : payload.evseId) || 1;
+        const idTag = this.version === '1.6' ? payload.idTag : payload.idToken?.idToken;
+        const busy = this.transactions.has(connectorId);
+
+        this.reply([OCPP_CALL_RESULT, uniqueId, { status: busy ? 'Rejected' : 'Accepted' }]);
+        if (!busy) {
+          setTimeout(() => {
+            this.startTransaction(connectorId, idTag).catch(() => undefined);
+          }, 100);
+        }
+        break;
+      }
+
+      case 'RemoteStopTransaction':
+      case 'RequestStopTransaction': {
+        const transaction = [...this.transactions.values()].find(
+          (t) => t.transactionId === String(payload.transactionId)
+        );
+
+        this.reply([OCPP_CALL_RESULT, uniqueId, { status: transaction ? 'Accepted' : 'Rejected' }]);
+        if (transaction) {
+          setTimeout(() => {
+            this.stopTransaction(transaction.connectorId, 'Remote').catch(() => undefined);
+          }, 100);
+        }
+        break;
+      }
+
+      default:
+        this.reply([OCPP_CALL_ERROR, uniqueId, 'NotImplemented', `Simulator does not support ${action}`, {}]);
+    }
+  }
+}
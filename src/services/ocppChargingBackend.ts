@@ -0,0 +1,138 @@
+import { getOcppCentralSystem, OcppCommandResult, OcppTransaction } from './ocppCentralSystem';
+import type {
+  BackendResult,
+  ChargingBackend,
+  ChargingSession,
+  ChargingStation,
+  ChargingTariff,
+  ChargingWebhookEvent,
+  RemoteCommandResult,
+  SessionHistoryOptions,
+  StartChargingOptions,
+  StopChargingOptions,
+} from './chargingBackend';
+
+/**
+ * OCPP Charging Backend
+ * ChargingBackend implementation for chargers connected directly to our
+ * OCPP central system. Status is pushed by the chargers, so this backend is
+ * not polled; tariffs are not part of OCPP and are not available here.
+ */
+
+export class OcppChargingBackend implements ChargingBackend {
+  readonly id = 'ocpp';
+  readonly displayName = 'OCPP';
+  readonly supportsPolling = false;
+
+  async listStations(): Promise<BackendResult<ChargingStation[]>> {
+    const centralSystem = getOcppCentralSystem();
+
+    return {
+      success: true,
+      data: centralSystem.listChargePoints().map((chargePoint) => ({
+        ...centralSystem.toStationStatus(chargePoint),
+        backendId: this.id,
+      })),
+    };
+  }
+
+  async findStation(identifier: string): Promise<BackendResult<ChargingStation>> {
+    const status = getOcppCentralSystem().getStationStatus(identifier);
+
+    if (!status) {
+      return { success: false, error: `Charge point ${identifier} is not connected to the OCPP central system` };
+    }
+
+    return { success: true, data: { ...status, backendId: this.id } };
+  }
+
+  async getActiveSessions(stationId?: string): Promise<BackendResult<ChargingSession[]>> {
+    return {
+      success: true,
+      data: getOcppCentralSystem().getActiveTransactions(stationId).map((t) => this.toSession(t)),
+    };
+  }
+
+  async getSessionHistory(options: SessionHistoryOptions = {}): Promise<BackendResult<ChargingSession[]>> {
+    // Transactions carry the id tag rather than a user id
+    const sessions = getOcppCentralSystem()
+      .getTransactions(options.stationId)
+      .filter((t) => !options.userId || t.idTag === options.userId)
+      .slice(0, options.limit || 10)
+      .map((t) => this.toSession(t));
+
+    return { success: true, data: sessions };
+  }
+
+  async getTariff(_stationId: string): Promise<BackendResult<ChargingTariff>> {
+    return { success: false, error: 'Tariff information is not available for directly connected chargers' };
+  }
+
+  async startCharging(stationId: string, options: StartChargingOptions = {}): Promise<BackendResult<RemoteCommandResult>> {
+    const idTag = options.idTag || options.userId;
+    if (!idTag) {
+      return { success: false, error: 'An RFID tag or user id is required to start charging' };
+    }
+
+    return this.toCommandResult(
+      await getOcppCentralSystem().remoteStartTransaction(stationId, options.connectorId || 1, idTag)
+    );
+  }
+
+  async stopCharging(stationId: string, options: StopChargingOptions = {}): Promise<BackendResult<RemoteCommandResult>> {
+    const transactions = getOcppCentralSystem()
+      .getActiveTransactions(stationId)
+      .filter((t) => (!options.sessionId || t.transactionId === options.sessionId)
+        && (options.connectorId === undefined || t.connectorId === options.connectorId));
+
+    if (transactions.length === 0) {
+      return { success: false, error: 'No active charging session found' };
+    }
+    if (transactions.length > 1) {
+      return { success: false, error: 'Multiple active sessions, specify the connector' };
+    }
+
+    const result = await getOcppCentralSystem().remoteStopTransaction(stationId, transactions[0].transactionId);
+    return this.toCommandResult(result, transactions[0].transactionId);
+  }
+
+  async resetStation(stationId: string, resetType: 'soft' | 'hard'): Promise<BackendResult<RemoteCommandResult>> {
+    return this.toCommandResult(await getOcppCentralSystem().reset(stationId, resetType));
+  }
+
+  async unlockConnector(stationId: string, connectorId?: number): Promise<BackendResult<RemoteCommandResult>> {
+    return this.toCommandResult(await getOcppCentralSystem().unlockConnector(stationId, connectorId || 1));
+  }
+
+  parseWebhookEvent(_payload: any): ChargingWebhookEvent | null {
+    // OCPP chargers push over the WebSocket connection, not webhooks
+    return null;
+  }
+
+  private toSession(transaction: OcppTransaction): ChargingSession {
+    const chargePoint = getOcppCentralSystem().getChargePoint(transaction.chargePointId);
+    const connector = chargePoint?.connectors.get(transaction.connectorId);
+    const energyWh = transaction.meterStop !== undefined && transaction.meterStart !== undefined
+      ? transaction.meterStop - transaction.meterStart
+      : undefined;
+
+    return {
+      sessionId: transaction.transactionId,
+      stationId: transaction.chargePointId,
+      connectorId: transaction.connectorId,
+      idTag: transaction.idTag,
+      status: transaction.stoppedAt ? 'completed' : 'active',
+      startedAt: transaction.startedAt,
+      endedAt: transaction.stoppedAt,
+      energyKwh: energyWh !== undefined ? energyWh / 1000 : undefined,
+      powerKw: transaction.stoppedAt ? undefined : connector?.powerKw,
+    };
+  }
+
+  private toCommandResult(result: OcppCommandResult, sessionId?: string): BackendResult<RemoteCommandResult> {
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: { status: result.status, sessionId } };
+  }
+}
@@ -0,0 +1,148 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import type { MastraModelConfig } from '@mastra/core/llm';
+import type {
+  CompletionRequest,
+  CompletionResult,
+  EmbeddingRequest,
+  ModelMessage,
+  ModelProvider,
+  ModelProviderKind,
+} from './modelProvider';
+
+/**
+ * OpenAI Model Provider
+ *
+ * OpenAI's API and everything that speaks it: Azure OpenAI (models are
+ * deployment names) and self-hosted OpenAI-compatible servers such as vLLM,
+ * Ollama or LM Studio (baseURL, API key usually not needed).
+ */
+
+export interface OpenAIModelProviderConfig {
+  id: string;
+  kind: Extract<ModelProviderKind, 'openai' | 'azure' | 'openai-compatible'>;
+  apiKey?: string;
+  baseURL?: string; // Azure: the resource endpoint, https://<resource>.openai.azure.com
+  apiVersion?: string; // Azure only
+}
+
+const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+
+function toOpenAIMessages(messages: ModelMessage[]): OpenAI.Chat.ChatCompletionMessageParam[] {
+  return messages.map((message) => {
+    if (typeof message.content === 'string' || message.role !== 'user') {
+      const text = typeof message.content === 'string'
+        ? message.content
+        : message.content.map((part) => (part.type === 'text' ? part.text : '')).join('');
+      return { role: message.role, content: text };
+    }
+
+    return {
+      role: 'user',
+      content: message.content.map((part) =>
+        part.type === 'text'
+          ? { type: 'text' as const, text: part.text }
+          : { type: 'image_url' as const, image_url: { url: part.url } }
+      ),
+    };
+  });
+}
+
+export class OpenAIModelProvider implements ModelProvider {
+  readonly id: string;
+  readonly kind: OpenAIModelProviderConfig['kind'];
+  readonly configured: boolean;
+
+  private openai: OpenAI | null = null;
+
+  constructor(private readonly config: OpenAIModelProviderConfig) {
+    this.id = config.id;
+    this.kind = config.kind;
+    this.configured = config.kind === 'openai-compatible'
+      ? Boolean(config.baseURL)
+      : Boolean(config.apiKey && (config.kind === 'openai' || config.baseURL));
+  }
+
+  /**
+   * The SDK client, created on first use (the constructor throws without a key)
+   */
+  private get client(): OpenAI {
+    if (!this.openai) {
+      const { kind, apiKey, baseURL, apiVersion } = this.config;
+      this.openai = kind === 'azure'
+        ? new AzureOpenAI({ endpoint: baseURL, apiKey, apiVersion: apiVersion || DEFAULT_AZURE_API_VERSION })
+        : new OpenAI({
+            // Local servers accept any key, but the client requires one
+            apiKey: apiKey || (kind === 'openai-compatible' ? 'not-needed' : undefined),
+            baseURL,
+          });
+    }
+    return this.openai;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const response = await this.client.chat.completions.create({
+      model: request.model,
+      messages: toOpenAIMessages(request.messages),
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      response_format: request.json ? { type: 'json_object' } : undefined,
+    });
+
+    return {
+      text: response.choices[0]?.message?.content || '',
+      providerId: this.id,
+      model: request.model,
+      usage: {
+        promptTokens: response.usage?.prompt_tokens,
+        completionTokens: response.usage?.completion_tokens,
+      },
+    };
+  }
+
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    const stream = await this.client.chat.completions.create({
+      model: request.model,
+      messages: toOpenAIMessages(request.messages),
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      stream: true,
+    });
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) yield delta;
+    }
+  }
+
+  async embed(request: EmbeddingRequest): Promise<number[][]> {
+    const response = await this.client.embeddings.create({
+      model: request.model,
+      input: request.input,
+      // Only OpenAI's own text-embedding-3 models can shorten their vectors
+      dimensions: this.kind === 'openai-compatible' ? undefined : request.dimensions,
+    });
+    return response.data.sort((a, b) => a.index - b.index).map((item) => item.embedding);
+  }
+
+  agentModel(model: string): MastraModelConfig {
+    const { apiKey, baseURL } = this.config;
+
+    switch (this.kind) {
+      case 'openai':
+        return baseURL ? { id: `openai/${model}`, url: baseURL, apiKey } : { id: `openai/${model}`, apiKey };
+
+      case 'azure':
+        // Azure's v1 API is OpenAI-compatible with the deployment as the model
+        return {
+          providerId: this.id,
+          modelId: model,
+          url: `${baseURL!.replace(/\/+$/, '')}/openai/v1`,
+          apiKey,
+          headers: apiKey ? { 'api-key': apiKey } : undefined,
+        };
+
+      case 'openai-compatible':
+        return { providerId: this.id, modelId: model, url: baseURL, apiKey: apiKey || 'not-needed' };
+    }
+  }
+}
@@ -0,0 +1,182 @@
+import { Pinecone, type RecordMetadata } from '@pinecone-database/pinecone';
+import {
+  normalizeFilter,
+  type VectorFilter,
+  type VectorMatch,
+  type VectorNamespace,
+  type VectorPage,
+  type VectorRecord,
+  type VectorStore,
+  type VectorStoreStats,
+} from './vectorStore';
+import { logger } from '../utils/logger';
+
+/**
+ * Pinecone Vector Store
+ *
+ * Serverless index PINECONE_INDEX_NAME, created on initialize() in
+ * PINECONE_CLOUD / PINECONE_REGION. The text is kept in the "text" metadata
+ * field, as LangChain's PineconeStore does, so existing indexes stay readable.
+ */
+
+const TEXT_KEY = 'text';
+const UPSERT_BATCH_SIZE = 100;
+const INDEX_READY_ATTEMPTS = 30;
+
+/**
+ * Pinecone metadata only holds strings, numbers, booleans and string lists
+ */
+function toPineconeMetadata(record: VectorRecord): RecordMetadata {
+  const metadata: RecordMetadata = { [TEXT_KEY]: record.content };
+  for (const [key, value] of Object.entries(record.metadata)) {
+    if (value === null || value === undefined || key === TEXT_KEY) continue;
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      metadata[key] = value;
+    } else if (Array.isArray(value) && value.every((item) => typeof item === 'string')) {
+      metadata[key] = value;
+    } else {
+      metadata[key] = JSON.stringify(value);
+    }
+  }
+  return metadata;
+}
+
+function fromPineconeMetadata(metadata: RecordMetadata | undefined): { content: string; metadata: Record<string, unknown> } {
+  const { [TEXT_KEY]: text, ...rest } = metadata ?? {};
+  return { content: typeof text === 'string' ? text : '', metadata: rest };
+}
+
+function toPineconeFilter(filter?: VectorFilter): object | undefined {
+  const fields = normalizeFilter(filter);
+  if (fields.length === 0) return undefined;
+  return Object.fromEntries(fields.map(([field, values]) => [field, { $in: values }]));
+}
+
+export class PineconeVectorStore implements VectorStore {
+  readonly backend = 'pinecone' as const;
+
+  private pinecone: Pinecone;
+  private indexName: string;
+
+  constructor(options: { apiKey?: string; indexName?: string } = {}) {
+    this.pinecone = new Pinecone({
+      apiKey: options.apiKey ?? process.env.PINECONE_API_KEY ?? '',
+    });
+    this.indexName = options.indexName ?? (process.env.PINECONE_INDEX_NAME || 'edge-control-kb');
+  }
+
+  /**
+   * Initialize Pinecone index (create if doesn't exist)
+   */
+  async initialize(dimensions: number): Promise<void> {
+    const indexList = await this.pinecone.listIndexes();
+    const existing = indexList.indexes?.find((index) => index.name === this.indexName);
+
+    if (existing) {
+      if (existing.dimension && existing.dimension !== dimensions) {
+        throw new Error(`Pinecone index ${this.indexName} has ${existing.dimension} dimensions, embeddings have ${dimensions}`);
+      }
+      logger.info({ indexName: this.indexName }, 'Pinecone index already exists');
+      return;
+    }
+
+    logger.info({ indexName: this.indexName, dimensions }, 'Creating Pinecone index...');
+    await this.pinecone.createIndex({
+      name: this.indexName,
+      dimension: dimensions,
+      metric: 'cosine',
+      spec: {
+        serverless: {
+          cloud: (process.env.PINECONE_CLOUD || 'aws') as 'aws' | 'gcp' | 'azure',
+          region: process.env.PINECONE_REGION || 'us-east-1',
+        },
+      },
+    });
+
+    await this.waitForIndexReady();
+    logger.info({ indexName: this.indexName }, 'Pinecone index created');
+  }
+
+  async upsert(namespace: string, records: VectorRecord[]): Promise<void> {
+    const index = this.pinecone.Index(this.indexName).namespace(namespace);
+
+    for (let start = 0; start < records.length; start += UPSERT_BATCH_SIZE) {
+      await index.upsert(records.slice(start, start + UPSERT_BATCH_SIZE).map((record) => ({
+        id: record.id,
+        values: record.values,
+        metadata: toPineconeMetadata(record),
+      })));
+    }
+  }
+
+  async query(namespace: string, vector: number[], options: { topK: number; filter?: VectorFilter }): Promise<VectorMatch[]> {
+    const response = await this.pinecone.Index(this.indexName).namespace(namespace).query({
+      vector,
+      topK: options.topK,
+      filter: toPineconeFilter(options.filter),
+      includeMetadata: true,
+    });
+
+    return (response.matches ?? []).map((match) => ({
+      id: match.id,
+      values: match.values ?? [],
+      score: match.score ?? 0,
+      ...fromPineconeMetadata(match.metadata),
+    }));
+  }
+
+  async list(namespace: string, options: { cursor?: string; limit?: number } = {}): Promise<VectorPage> {
+    const index = this.pinecone.Index(this.indexName).namespace(namespace);
+    const page = await index.listPaginated({ limit: options.limit, paginationToken: options.cursor });
+    const ids = (page.vectors ?? []).map((vector) => vector.id).filter((id): id is string => Boolean(id));
+
+    if (ids.length === 0) {
+      return { records: [] };
+    }
+
+    const fetched = await index.fetch(ids);
+    const records = Object.values(fetched.records).map((record) => ({
+      id: record.id,
+      values: record.values ?? [],
+      ...fromPineconeMetadata(record.metadata),
+    }));
+
+    return { records, cursor: page.pagination?.next };
+  }
+
+  async listNamespaces(): Promise<VectorNamespace[]> {
+    const stats = await this.pinecone.Index(this.indexName).describeIndexStats();
+    return Object.entries(stats.namespaces ?? {}).map(([name, summary]) => ({ name, recordCount: summary.recordCount ?? 0 }));
+  }
+
+  async deleteNamespace(namespace: string): Promise<void> {
+    await this.pinecone.Index(this.indexName).namespace(namespace).deleteAll();
+  }
+
+  async stats(): Promise<VectorStoreStats> {
+    const stats = await this.pinecone.Index(this.indexName).describeIndexStats();
+    return {
+      backend: this.backend,
+      dimensions: stats.dimension ?? null,
+      totalRecords: stats.totalRecordCount ?? 0,
+      namespaces: Object.entries(stats.namespaces ?? {}).map(([name, summary]) => ({ name, recordCount: summary.recordCount ?? 0 })),
+    };
+  }
+
+  /**
+   * Wait for Pinecone index to be ready
+   */
+  private async waitForIndexReady(): Promise<void> {
+    for (let attempt = 0; attempt < INDEX_READY_ATTEMPTS; attempt++) {
+      try {
+        const description = await this.pinecone.describeIndex(this.indexName);
+        if (description.status?.ready) return;
+      } catch (error) {
+        // Index not ready yet
+      }
+      await new Promise((resolve) => setTimeout(resolve, 2000));
+    }
+
+    throw new Error('Timeout waiting for Pinecone index to be ready');
+  }
+}
@@ -10,13 +10,9 @@
  * - Proactive user notifications
  */
 
-import { Pool } from 'pg';
+import { db } from '../db';
 import { generateId } from '../utils/idGenerator';
-import logger from '../utils/logger';
-
-const pool = new Pool({
-  connectionString: process.env.DATABASE_URL
-});
+import { logger } from '../utils/logger';
 
 // Types
 export interface SessionData {
@@ -126,7 +122,7 @@ export class PredictiveDetectionService {
       };
       
     } catch (error) {
-      logger.error('Error predicting session outcome:', error);
+      logger.error({ error }, 'Error predicting session outcome');
       throw error;
     }
   }
@@ -452,7 +448,7 @@ export class PredictiveDetectionService {
       return anomalies;
       
     } catch (error) {
-      logger.error('Error detecting anomalies:', error);
+      logger.error({ error }, 'Error detecting anomalies');
       return [];
     }
   }
@@ -547,7 +543,7 @@ export class PredictiveDetectionService {
     try {
       const notificationId = `NOTIF-${generateId()}`;
       
-      await pool.query(`
+      await db.query(`
         INSERT INTO proactive_notifications (
           notification_id, discord_user_id, notification_type,
           title, message, priority, triggered_by, trigger_data
@@ -568,7 +564,7 @@ export class PredictiveDetectionService {
       return notificationId;
       
     } catch (error) {
-      logger.error('Error sending proactive notification:', error);
+      logger.error({ error }, 'Error sending proactive notification');
       throw error;
     }
   }
@@ -578,13 +574,13 @@ export class PredictiveDetectionService {
    */
   private async getUserBehaviorPatterns(userId: string): Promise<any> {
     try {
-      const result = await pool.query(`
+      const result = await db.query(`
         SELECT * FROM user_behavior_patterns WHERE discord_user_id = $1
       `, [userId]);
       
       return result.rows[0] || null;
     } catch (error) {
-      logger.error('Error getting user patterns:', error);
+      logger.error({ error }, 'Error getting user patterns');
       return null;
     }
   }
@@ -594,7 +590,7 @@ export class PredictiveDetectionService {
    */
   private async savePrediction(sessionId: string, userId: string, prediction: any): Promise<void> {
     try {
-      await pool.query(`
+      await db.query(`
         INSERT INTO session_predictions (
           session_id, discord_user_id,
           escalation_probability, failure_probability, fraud_probability,
@@ -623,7 +619,7 @@ export class PredictiveDetectionService {
         prediction.confidenceScore
       ]);
     } catch (error) {
-      logger.error('Error saving prediction:', error);
+      logger.error({ error }, 'Error saving prediction');
     }
   }
   
@@ -634,7 +630,7 @@ export class PredictiveDetectionService {
     try {
       const eventId = `ANOM-${generateId()}`;
       
-      await pool.query(`
+      await db.query(`
         INSERT INTO anomaly_events (
           event_id, discord_user_id, session_id,
           anomaly_type, severity, description, deviation_score
@@ -649,7 +645,7 @@ export class PredictiveDetectionService {
         anomaly.deviationScore
       ]);
     } catch (error) {
-      logger.error('Error saving anomaly:', error);
+      logger.error({ error }, 'Error saving anomaly');
     }
   }
   
@@ -658,12 +654,12 @@ export class PredictiveDetectionService {
    */
   async getHighRiskUsers(limit: number = 20): Promise<any[]> {
     try {
-      const result = await pool.query(`
+      const result = await db.query(`
         SELECT * FROM high_risk_users LIMIT $1
       `, [limit]);
       return result.rows;
     } catch (error) {
-      logger.error('Error getting high-risk users:', error);
+      logger.error({ error }, 'Error getting high-risk users');
       return [];
     }
   }
@@ -673,12 +669,12 @@ export class PredictiveDetectionService {
    */
   async getActiveAnomalies(limit: number = 50): Promise<any[]> {
     try {
-      const result = await pool.query(`
+      const result = await db.query(`
         SELECT * FROM active_anomalies LIMIT $1
       `, [limit]);
       return result.rows;
     } catch (error) {
-      logger.error('Error getting active anomalies:', error);
+      logger.error({ error }, 'Error getting active anomalies');
       return [];
     }
   }
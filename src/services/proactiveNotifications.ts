@@ -83,6 +83,14 @@ export class ProactiveNotificationService {
     }
   }
 
+  /**
+   * Send an alert to the alerts channel for events that don't come from
+   * station monitoring (e.g. webhook faults). Returns false if not delivered.
+   */
+  async sendAlert(event: StationEvent): Promise<boolean> {
+    return this.sendNotification(event);
+  }
+
   /**
    * Check for unnotified events in database
    */
@@ -114,14 +122,14 @@ export class ProactiveNotificationService {
   /**
    * Send Discord notification
    */
-  private async sendNotification(event: StationEvent, eventId?: number): Promise<void> {
+  private async sendNotification(event: StationEvent, eventId?: number): Promise<boolean> {
     try {
       if (!this.discordClient || !this.notificationChannelId) {
         logger.warn('Discord client or channel not configured', {
           hasClient: !!this.discordClient,
           hasChannel: !!this.notificationChannelId,
         });
-        return;
+        return false;
       }
 
       const channel = await this.discordClient.channels.fetch(
@@ -132,7 +140,7 @@ export class ProactiveNotificationService {
         logger.error('Invalid notification channel', {
           channelId: this.notificationChannelId,
         });
-        return;
+        return false;
       }
 
       // Create embed based on severity
@@ -152,8 +160,10 @@ export class ProactiveNotificationService {
         eventType: event.eventType,
         eventId,
       });
+      return true;
     } catch (error) {
       logger.error('Failed to send notification', { error, event });
+      return false;
     }
   }
 
@@ -8,14 +8,12 @@
  * - A/B testing framework for prompt optimization
  * - Tool effectiveness tracking
  * - Pattern recognition
+ * - Driver's CSAT survey rating as the satisfaction score when there is one
  */
 
-import { Pool } from 'pg';
-import logger from '../utils/logger';
-
-const pool = new Pool({
-  connectionString: process.env.DATABASE_URL
-});
+import { db } from '../db';
+import { logger } from '../utils/logger';
+import { getExperimentService } from './experimentService';
 
 // Types
 export interface ConversationData {
@@ -36,6 +34,7 @@ export interface ConversationData {
   conversationEnd: Date;
   promptVariant?: string;
   experimentId?: string;
+  csatRating?: number; // 1-5 from the CSAT survey, looked up by conversation id when missing
 }
 
 export interface QualityScore {
@@ -63,6 +62,8 @@ export class QualityScoringService {
   async scoreConversation(data: ConversationData): Promise<QualityScore> {
     try {
       logger.info(`Scoring conversation ${data.conversationId}`);
+      data = await this.withExperiment(data);
+      data = await this.withSurveyRating(data);
       
       // Calculate component scores
       const resolutionScore = this.calculateResolutionScore(data);
@@ -115,6 +116,7 @@ export class QualityScoringService {
       // Update A/B test metrics if applicable
       if (data.experimentId && data.promptVariant) {
         await this.updateABTestMetrics(data.experimentId, data.promptVariant, overallScore);
+        await this.recordExperimentOutcomes(data, overallScore);
       }
       
       return {
@@ -132,7 +134,7 @@ export class QualityScoringService {
       };
       
     } catch (error) {
-      logger.error('Error scoring conversation:', error);
+      logger.error({ error }, 'Error scoring conversation');
       throw error;
     }
   }
@@ -292,6 +294,11 @@ export class QualityScoringService {
    * Overall customer satisfaction indicators
    */
   private calculateSatisfactionScore(data: ConversationData): number {
+    // The driver told us
+    if (data.csatRating !== undefined) {
+      return this.surveyRatingScore(data.csatRating);
+    }
+
     let score = 60; // Neutral base
     
     // Issue resolved is major satisfaction driver
@@ -323,6 +330,45 @@ export class QualityScoringService {
     return Math.max(0, Math.min(100, score));
   }
   
+  /**
+   * CSAT rating (1-5) on the 0-100 scale
+   */
+  private surveyRatingScore(rating: number): number {
+    return Math.max(0, Math.min(100, (rating - 1) * 25));
+  }
+
+  /**
+   * Use a survey answer that came in after the conversation was scored:
+   * the satisfaction score becomes the rating and the overall score and
+   * grade follow. Returns false when the conversation wasn't scored.
+   */
+  async applySurveyRating(conversationId: string, rating: number): Promise<boolean> {
+    try {
+      const row = await db.get<{ overall_score: number; satisfaction_score: number | null }>(
+        'SELECT overall_score, satisfaction_score FROM conversation_quality_scores WHERE conversation_id = ?',
+        [conversationId]
+      );
+      if (!row) return false;
+
+      const satisfactionScore = this.surveyRatingScore(rating);
+      const overallScore = Math.max(0, Math.min(100, Math.round(
+        Number(row.overall_score) + (satisfactionScore - Number(row.satisfaction_score ?? 0)) * 0.10
+      )));
+
+      await db.run(`
+        UPDATE conversation_quality_scores
+        SET satisfaction_score = ?, overall_score = ?, quality_grade = ?, scored_at = ${db.sql.now()}
+        WHERE conversation_id = ?
+      `, [satisfactionScore, overallScore, this.getQualityGrade(overallScore), conversationId]);
+
+      logger.info({ conversationId, rating, overallScore }, 'Quality score updated with CSAT rating');
+      return true;
+    } catch (error) {
+      logger.error({ error, conversationId }, 'Error applying CSAT rating to quality score');
+      return false;
+    }
+  }
+
   /**
    * Get quality grade from overall score
    */
@@ -416,7 +462,7 @@ export class QualityScoringService {
         m.sentiment === 'negative' || m.sentiment === 'frustrated' || m.sentiment === 'angry'
       ).length;
       
-      await pool.query(`
+      await db.query(`
         INSERT INTO conversation_quality_scores (
           conversation_id, discord_user_id, discord_username,
           overall_score, quality_grade,
@@ -441,7 +487,7 @@ export class QualityScoringService {
           is_low_quality = EXCLUDED.is_low_quality,
           quality_issues = EXCLUDED.quality_issues,
           improvement_suggestions = EXCLUDED.improvement_suggestions,
-          scored_at = NOW()
+          scored_at = ${db.sql.now()}
       `, [
         data.conversationId, data.userId, data.username,
         score.overallScore, score.qualityGrade,
@@ -468,7 +514,7 @@ export class QualityScoringService {
       logger.info(`Quality score saved: ${data.conversationId} = ${score.overallScore} (${score.qualityGrade})`);
       
     } catch (error) {
-      logger.error('Error saving quality score:', error);
+      logger.error({ error }, 'Error saving quality score');
       throw error;
     }
   }
@@ -500,52 +546,85 @@ export class QualityScoringService {
     try {
       const today = new Date().toISOString().split('T')[0];
       
-      await pool.query(`
+      await db.query(`
         INSERT INTO quality_analytics (
           date, total_conversations, scored_conversations,
           grade_distribution, avg_overall_score
         )
-        VALUES ($1, 1, 1, $2::jsonb, $3)
+        VALUES ($1, 1, 1, ${db.sql.json('$2')}, $3)
         ON CONFLICT (date) DO UPDATE SET
           total_conversations = quality_analytics.total_conversations + 1,
           scored_conversations = quality_analytics.scored_conversations + 1,
-          grade_distribution = jsonb_set(
-            COALESCE(quality_analytics.grade_distribution, '{}'::jsonb),
-            ARRAY[$4],
-            (COALESCE((quality_analytics.grade_distribution->$4)::int, 0) + 1)::text::jsonb
-          ),
+          grade_distribution = ${db.sql.jsonIncrement('quality_analytics.grade_distribution', ['$4'])},
           avg_overall_score = (
             (quality_analytics.avg_overall_score * quality_analytics.scored_conversations + $3) / 
             (quality_analytics.scored_conversations + 1)
           ),
-          updated_at = NOW()
+          updated_at = ${db.sql.now()}
       `, [today, JSON.stringify({ [grade]: 1 }), score, grade]);
       
     } catch (error) {
-      logger.error('Error updating quality analytics:', error);
+      logger.error({ error }, 'Error updating quality analytics');
     }
   }
   
+  /**
+   * Attribute a conversation that ran in an experiment to its variant
+   */
+  private async withExperiment(data: ConversationData): Promise<ConversationData> {
+    if (data.experimentId) return data;
+    try {
+      const [exposure] = await getExperimentService().getExposures(data.conversationId);
+      return exposure ? { ...data, experimentId: exposure.experimentId, promptVariant: exposure.variantId } : data;
+    } catch (error) {
+      logger.error({ error }, 'Error loading experiment exposure');
+      return data;
+    }
+  }
+
+  /**
+   * The conversation's CSAT survey answer, if the driver gave one
+   */
+  private async withSurveyRating(data: ConversationData): Promise<ConversationData> {
+    if (data.csatRating !== undefined) return data;
+    try {
+      const survey = await db.get<{ rating: number }>(
+        `SELECT rating FROM csat_surveys WHERE thread_id = ? AND status = 'answered'`,
+        [data.conversationId]
+      );
+      return survey ? { ...data, csatRating: Number(survey.rating) } : data;
+    } catch (error) {
+      logger.error({ error }, 'Error loading CSAT survey rating');
+      return data;
+    }
+  }
+
+  /**
+   * Experiment outcomes of a scored conversation
+   */
+  private async recordExperimentOutcomes(data: ConversationData, score: number): Promise<void> {
+    const experiments = getExperimentService();
+    await experiments.recordOutcome({ threadId: data.conversationId, metric: 'overall_score', value: score });
+    await experiments.recordOutcome({ threadId: data.conversationId, metric: 'resolved', value: data.issueResolved ? 1 : 0 });
+    await experiments.recordOutcome({ threadId: data.conversationId, metric: 'escalated', value: data.escalated ? 1 : 0 });
+  }
+
   /**
    * Update A/B test metrics
    */
   private async updateABTestMetrics(experimentId: string, variant: string, score: number): Promise<void> {
     try {
-      await pool.query(`
+      await db.query(`
         UPDATE ab_test_experiments
         SET 
           total_conversations = total_conversations + 1,
-          metrics_by_variant = jsonb_set(
-            COALESCE(metrics_by_variant, '{}'::jsonb),
-            ARRAY[$2, 'count'],
-            (COALESCE((metrics_by_variant->$2->>'count')::int, 0) + 1)::text::jsonb
-          ),
-          updated_at = NOW()
+          metrics_by_variant = ${db.sql.jsonIncrement('metrics_by_variant', ['$2', "'count'"])},
+          updated_at = ${db.sql.now()}
         WHERE experiment_id = $1
       `, [experimentId, variant]);
       
     } catch (error) {
-      logger.error('Error updating A/B test metrics:', error);
+      logger.error({ error }, 'Error updating A/B test metrics');
     }
   }
   
@@ -554,14 +633,14 @@ export class QualityScoringService {
    */
   async getAnalytics(days: number = 7): Promise<any[]> {
     try {
-      const result = await pool.query(`
+      const result = await db.query(`
         SELECT * FROM quality_analytics
-        WHERE date >= CURRENT_DATE - INTERVAL '${days} days'
+        WHERE date >= ${db.sql.daysAgoDate(days)}
         ORDER BY date DESC
       `);
       return result.rows;
     } catch (error) {
-      logger.error('Error getting quality analytics:', error);
+      logger.error({ error }, 'Error getting quality analytics');
       return [];
     }
   }
@@ -571,13 +650,13 @@ export class QualityScoringService {
    */
   async getLowQualityConversations(limit: number = 20): Promise<any[]> {
     try {
-      const result = await pool.query(`
+      const result = await db.query(`
         SELECT * FROM low_quality_conversations
         LIMIT $1
       `, [limit]);
       return result.rows;
     } catch (error) {
-      logger.error('Error getting low-quality conversations:', error);
+      logger.error({ error }, 'Error getting low-quality conversations');
       return [];
     }
   }
@@ -587,10 +666,10 @@ export class QualityScoringService {
    */
   async getToolEffectiveness(): Promise<any[]> {
     try {
-      const result = await pool.query('SELECT * FROM tool_effectiveness_summary');
+      const result = await db.query('SELECT * FROM tool_effectiveness_summary');
       return result.rows;
     } catch (error) {
-      logger.error('Error getting tool effectiveness:', error);
+      logger.error({ error }, 'Error getting tool effectiveness');
       return [];
     }
   }
@@ -10,15 +10,13 @@
  * - Image enhancement for better OCR
  */
 
-import { Pool } from 'pg';
+import { db } from '../db';
 import { generateId } from '../utils/idGenerator';
-import logger from '../utils/logger';
+import { logger } from '../utils/logger';
 import OpenAI from 'openai';
+import { getModelProviderRegistry } from './modelProvider';
 
-const pool = new Pool({
-  connectionString: process.env.DATABASE_URL
-});
-
+// Whisper is OpenAI-only; image analysis goes through the vision task's models
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY
 });
@@ -78,7 +76,7 @@ export class RichMediaService {
       const storageKey = `media/${userId}/${mediaId}`;
       
       // Save to database
-      await pool.query(`
+      await db.query(`
         INSERT INTO media_files (
           media_id, discord_user_id, session_id,
           file_type, mime_type, original_filename, file_size_bytes,
@@ -110,7 +108,7 @@ export class RichMediaService {
       };
       
     } catch (error) {
-      logger.error('Error uploading media:', error);
+      logger.error({ error }, 'Error uploading media');
       throw error;
     }
   }
@@ -141,7 +139,7 @@ export class RichMediaService {
       };
       
       // Save OCR results
-      await pool.query(`
+      await db.query(`
         INSERT INTO ocr_results (
           media_id, engine, language, confidence,
           raw_text, processed_text, error_codes
@@ -157,13 +155,13 @@ export class RichMediaService {
       ]);
       
       // Update media file status
-      await pool.query(`
+      await db.query(`
         UPDATE media_files
         SET processing_status = 'completed',
             ocr_text = $2,
             extracted_data = $3,
             confidence_score = $4,
-            processed_at = NOW()
+            processed_at = ${db.sql.now()}
         WHERE media_id = $1
       `, [mediaId, result.processedText, JSON.stringify({ errorCodes }), result.confidence]);
       
@@ -172,10 +170,10 @@ export class RichMediaService {
       return result;
       
     } catch (error) {
-      logger.error('Error performing OCR:', error);
+      logger.error({ error }, 'Error performing OCR');
       
       // Mark as failed
-      await pool.query(`
+      await db.query(`
         UPDATE media_files
         SET processing_status = 'failed'
         WHERE media_id = $1
@@ -217,7 +215,7 @@ export class RichMediaService {
       };
       
       // Save transcription results
-      await pool.query(`
+      await db.query(`
         INSERT INTO voice_transcriptions (
           media_id, engine, model, language, confidence,
           full_transcript, segments, duration_seconds
@@ -234,13 +232,13 @@ export class RichMediaService {
       ]);
       
       // Update media file status
-      await pool.query(`
+      await db.query(`
         UPDATE media_files
         SET processing_status = 'completed',
             transcription = $2,
             duration_seconds = $3,
             language_detected = $4,
-            processed_at = NOW()
+            processed_at = ${db.sql.now()}
         WHERE media_id = $1
       `, [mediaId, result.fullTranscript, result.duration, result.language]);
       
@@ -249,10 +247,10 @@ export class RichMediaService {
       return result;
       
     } catch (error) {
-      logger.error('Error transcribing audio:', error);
+      logger.error({ error }, 'Error transcribing audio');
       
       // Mark as failed
-      await pool.query(`
+      await db.query(`
         UPDATE media_files
         SET processing_status = 'failed'
         WHERE media_id = $1
@@ -263,15 +261,14 @@ export class RichMediaService {
   }
   
   /**
-   * Analyze image using GPT-4V
+   * Analyze image with the vision task's model
    * (This leverages the existing analyzeStationImageTool functionality)
    */
   async analyzeImage(mediaId: string, imageUrl: string, context?: string): Promise<any> {
     try {
-      logger.info(`Analyzing image ${mediaId} with GPT-4V`);
+      logger.info(`Analyzing image ${mediaId}`);
       
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4o',
+      const response = await getModelProviderRegistry().complete({ task: 'vision' }, {
         messages: [
           {
             role: 'user',
@@ -281,19 +278,19 @@ export class RichMediaService {
                 text: context || 'Analyze this image from an EV charging station. Identify any error codes, screen messages, or visible issues.'
               },
               {
-                type: 'image_url',
-                image_url: { url: imageUrl }
+                type: 'image',
+                url: imageUrl
               }
             ]
           }
         ],
-        max_tokens: 500
+        maxTokens: 500
       });
       
-      const analysis = response.choices[0].message.content;
+      const analysis = response.text;
       
       // Update media file with analysis
-      await pool.query(`
+      await db.query(`
         UPDATE media_files
         SET analysis_results = $2
         WHERE media_id = $1
@@ -302,7 +299,7 @@ export class RichMediaService {
       return { mediaId, analysis };
       
     } catch (error) {
-      logger.error('Error analyzing image:', error);
+      logger.error({ error }, 'Error analyzing image');
       throw error;
     }
   }
@@ -356,13 +353,13 @@ export class RichMediaService {
         priority = 4; // Lower priority, more complex
       }
       
-      await pool.query(`
+      await db.query(`
         INSERT INTO media_processing_queue (media_id, task_type, priority)
         VALUES ($1, $2, $3)
       `, [mediaId, taskType, priority]);
       
     } catch (error) {
-      logger.error('Error queuing media for processing:', error);
+      logger.error({ error }, 'Error queuing media for processing');
     }
   }
   
@@ -371,13 +368,13 @@ export class RichMediaService {
    */
   async getMediaFile(mediaId: string): Promise<any> {
     try {
-      const result = await pool.query(`
+      const result = await db.query(`
         SELECT * FROM media_files WHERE media_id = $1
       `, [mediaId]);
       
       return result.rows[0] || null;
     } catch (error) {
-      logger.error('Error getting media file:', error);
+      logger.error({ error }, 'Error getting media file');
       return null;
     }
   }
@@ -387,13 +384,13 @@ export class RichMediaService {
    */
   async getOCRResults(mediaId: string): Promise<any> {
     try {
-      const result = await pool.query(`
+      const result = await db.query(`
         SELECT * FROM ocr_results WHERE media_id = $1
       `, [mediaId]);
       
       return result.rows[0] || null;
     } catch (error) {
-      logger.error('Error getting OCR results:', error);
+      logger.error({ error }, 'Error getting OCR results');
       return null;
     }
   }
@@ -403,13 +400,13 @@ export class RichMediaService {
    */
   async getTranscription(mediaId: string): Promise<any> {
     try {
-      const result = await pool.query(`
+      const result = await db.query(`
         SELECT * FROM voice_transcriptions WHERE media_id = $1
       `, [mediaId]);
       
       return result.rows[0] || null;
     } catch (error) {
-      logger.error('Error getting transcription:', error);
+      logger.error({ error }, 'Error getting transcription');
       return null;
     }
   }
@@ -419,13 +416,13 @@ export class RichMediaService {
    */
   async getRecentUploads(limit: number = 20): Promise<any[]> {
     try {
-      const result = await pool.query(`
+      const result = await db.query(`
         SELECT * FROM recent_media_uploads LIMIT $1
       `, [limit]);
       
       return result.rows;
     } catch (error) {
-      logger.error('Error getting recent uploads:', error);
+      logger.error({ error }, 'Error getting recent uploads');
       return [];
     }
   }
@@ -435,10 +432,10 @@ export class RichMediaService {
    */
   async getQueueStatus(): Promise<any[]> {
     try {
-      const result = await pool.query('SELECT * FROM processing_queue_status');
+      const result = await db.query('SELECT * FROM processing_queue_status');
       return result.rows;
     } catch (error) {
-      logger.error('Error getting queue status:', error);
+      logger.error({ error }, 'Error getting queue status');
       return [];
     }
   }
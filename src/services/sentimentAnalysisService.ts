@@ -10,7 +10,7 @@
  * - Response tone recommendations
  */
 
-import type { D1Database } from '@cloudflare/workers-types';
+import { parseJsonColumn, type Database } from '../db';
 
 // ============================================================================
 // Types
@@ -36,6 +36,9 @@ export interface ConversationSentimentTrajectory {
   escalation_risk_score: number;
   negative_streak_count: number;
   early_warning_triggered: boolean;
+  initial_sentiment?: string | null;
+  current_sentiment?: string | null;
+  dominant_emotion?: string | null;
 }
 
 // ============================================================================
@@ -79,7 +82,7 @@ const EMOTION_KEYWORDS = {
 // ============================================================================
 
 export class SentimentAnalysisService {
-  constructor(private db: D1Database) {}
+  constructor(private db: Database) {}
 
   /**
    * Analyze sentiment of a user message
@@ -93,16 +96,13 @@ export class SentimentAnalysisService {
     const startTime = Date.now();
     
     // Get previous message sentiment for context
-    const previousMessage = await this.db
-      .prepare(`
-        SELECT sentiment_label, compound_score
-        FROM message_sentiments
-        WHERE conversation_id = ?
-        ORDER BY created_at DESC
-        LIMIT 1
-      `)
-      .bind(conversationId)
-      .first<{ sentiment_label: string; compound_score: number }>();
+    const previousMessage = await this.db.get<{ sentiment_label: string; compound_score: number }>(`
+      SELECT sentiment_label, compound_score
+      FROM message_sentiments
+      WHERE conversation_id = ?
+      ORDER BY created_at DESC
+      LIMIT 1
+    `, [conversationId]);
     
     // Perform sentiment analysis
     const analysis = this.analyzeSentiment(messageText);
@@ -136,41 +136,38 @@ export class SentimentAnalysisService {
     const analysisTime = Date.now() - startTime;
     
     // Store sentiment analysis
-    await this.db
-      .prepare(`
-        INSERT INTO message_sentiments (
-          conversation_id, message_id, user_id, message_text, message_length, word_count,
-          sentiment_label, positive_score, negative_score, neutral_score, compound_score,
-          primary_emotion, emotion_confidence,
-          is_first_message, previous_sentiment, sentiment_change,
-          suggested_tone, urgency_level, escalation_recommended, escalation_reason,
-          analysis_model, analysis_time_ms
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'vader', ?)
-      `)
-      .bind(
-        conversationId,
-        messageId,
-        userId,
-        messageText,
-        messageText.length,
-        messageText.split(/\s+/).length,
-        analysis.sentiment_label,
-        analysis.positive_score,
-        analysis.negative_score,
-        analysis.neutral_score,
-        analysis.compound_score,
-        emotion?.emotion || null,
-        emotion?.confidence || null,
-        isFirstMessage ? 1 : 0,
-        previousMessage?.sentiment_label || null,
-        sentimentChange,
-        toneAndUrgency.tone,
-        toneAndUrgency.urgency,
-        escalation.recommended ? 1 : 0,
-        escalation.reason || null,
-        analysisTime
-      )
-      .run();
+    await this.db.run(`
+      INSERT INTO message_sentiments (
+        conversation_id, message_id, user_id, message_text, message_length, word_count,
+        sentiment_label, positive_score, negative_score, neutral_score, compound_score,
+        primary_emotion, emotion_confidence,
+        is_first_message, previous_sentiment, sentiment_change,
+        suggested_tone, urgency_level, escalation_recommended, escalation_reason,
+        analysis_model, analysis_time_ms
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'vader', ?)
+    `, [
+      conversationId,
+      messageId,
+      userId,
+      messageText,
+      messageText.length,
+      messageText.split(/\s+/).length,
+      analysis.sentiment_label,
+      analysis.positive_score,
+      analysis.negative_score,
+      analysis.neutral_score,
+      analysis.compound_score,
+      emotion?.emotion || null,
+      emotion?.confidence || null,
+      isFirstMessage,
+      previousMessage?.sentiment_label || null,
+      sentimentChange,
+      toneAndUrgency.tone,
+      toneAndUrgency.urgency,
+      escalation.recommended,
+      escalation.reason || null,
+      analysisTime,
+    ]);
     
     // Update conversation trajectory
     await this.updateConversationTrajectory(conversationId, userId);
@@ -357,17 +354,17 @@ export class SentimentAnalysisService {
     emotion: { emotion: string; confidence: number } | null
   ): Promise<{ recommended: boolean; reason?: string }> {
     // Get current trajectory
-    const trajectory = await this.db
-      .prepare('SELECT negative_streak_count, escalation_risk_score FROM conversation_sentiment_trajectory WHERE conversation_id = ?')
-      .bind(conversationId)
-      .first<{ negative_streak_count: number; escalation_risk_score: number }>();
+    const trajectory = await this.db.get<{ negative_streak_count: number; escalation_risk_score: number }>(
+      'SELECT negative_streak_count, escalation_risk_score FROM conversation_sentiment_trajectory WHERE conversation_id = ?',
+      [conversationId]
+    );
     
     // Get active escalation rules
-    const rules = await this.db
-      .prepare('SELECT * FROM sentiment_escalation_rules WHERE is_active = 1 ORDER BY priority DESC')
-      .all<any>();
+    const rules = await this.db.query<any>(
+      `SELECT * FROM sentiment_escalation_rules WHERE is_active = ${this.db.sql.bool(true)} ORDER BY priority DESC`
+    );
     
-    for (const rule of rules.results || []) {
+    for (const rule of rules.rows) {
       // Check negative streak
       if (rule.negative_streak_threshold && trajectory) {
         if (trajectory.negative_streak_count >= rule.negative_streak_threshold) {
@@ -390,7 +387,7 @@ export class SentimentAnalysisService {
       
       // Check specific emotions
       if (rule.specific_emotions && emotion) {
-        const targetEmotions: string[] = JSON.parse(rule.specific_emotions);
+        const targetEmotions = parseJsonColumn<string[]>(rule.specific_emotions, []);
         if (targetEmotions.includes(emotion.emotion) && emotion.confidence > 0.6) {
           return {
             recommended: true,
@@ -411,21 +408,18 @@ export class SentimentAnalysisService {
     userId?: string
   ): Promise<void> {
     // Get all messages for this conversation
-    const messages = await this.db
-      .prepare(`
-        SELECT sentiment_label, compound_score, primary_emotion, created_at
-        FROM message_sentiments
-        WHERE conversation_id = ?
-        ORDER BY created_at ASC
-      `)
-      .bind(conversationId)
-      .all<any>();
-    
-    if (!messages.results || messages.results.length === 0) {
+    const messages = await this.db.query<any>(`
+      SELECT sentiment_label, compound_score, primary_emotion, created_at
+      FROM message_sentiments
+      WHERE conversation_id = ?
+      ORDER BY created_at ASC
+    `, [conversationId]);
+    
+    if (messages.rows.length === 0) {
       return;
     }
     
-    const messageList = messages.results;
+    const messageList = messages.rows;
     const firstMessage = messageList[0];
     const lastMessage = messageList[messageList.length - 1];
     
@@ -501,73 +495,70 @@ export class SentimentAnalysisService {
     const earlyWarningTriggered = escalationRiskScore > 0.7 || currentStreak >= 3;
     
     // Upsert trajectory
-    await this.db
-      .prepare(`
-        INSERT INTO conversation_sentiment_trajectory (
-          conversation_id, user_id, initial_sentiment, current_sentiment, sentiment_trend,
-          avg_positive_score, avg_negative_score, avg_compound_score,
-          sentiment_volatility, negative_streak_count, max_negative_streak,
-          emotion_sequence, dominant_emotion,
-          escalation_risk_score, early_warning_triggered, early_warning_at,
-          total_messages, positive_messages, negative_messages, neutral_messages,
-          first_message_at, last_message_at, updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
-        ON CONFLICT (conversation_id) DO UPDATE SET
-          current_sentiment = excluded.current_sentiment,
-          sentiment_trend = excluded.sentiment_trend,
-          avg_positive_score = excluded.avg_positive_score,
-          avg_negative_score = excluded.avg_negative_score,
-          avg_compound_score = excluded.avg_compound_score,
-          sentiment_volatility = excluded.sentiment_volatility,
-          negative_streak_count = excluded.negative_streak_count,
-          max_negative_streak = excluded.max_negative_streak,
-          emotion_sequence = excluded.emotion_sequence,
-          dominant_emotion = excluded.dominant_emotion,
-          escalation_risk_score = excluded.escalation_risk_score,
-          early_warning_triggered = excluded.early_warning_triggered,
-          early_warning_at = CASE WHEN excluded.early_warning_triggered = 1 AND conversation_sentiment_trajectory.early_warning_triggered = 0 THEN CURRENT_TIMESTAMP ELSE conversation_sentiment_trajectory.early_warning_at END,
-          total_messages = excluded.total_messages,
-          positive_messages = excluded.positive_messages,
-          negative_messages = excluded.negative_messages,
-          neutral_messages = excluded.neutral_messages,
-          last_message_at = excluded.last_message_at,
-          updated_at = CURRENT_TIMESTAMP
-      `)
-      .bind(
-        conversationId,
-        userId,
-        firstMessage.sentiment_label,
-        lastMessage.sentiment_label,
-        trend,
-        avgPositive,
-        avgNegative,
-        avgCompound,
-        volatility,
-        currentStreak,
-        maxStreak,
-        JSON.stringify(emotionSequence),
-        dominantEmotion,
-        escalationRiskScore,
-        earlyWarningTriggered ? 1 : 0,
-        earlyWarningTriggered ? new Date().toISOString() : null,
-        messageList.length,
-        counts.positive,
-        counts.negative,
-        counts.neutral,
-        firstMessage.created_at,
-        lastMessage.created_at
-      )
-      .run();
+    await this.db.run(`
+      INSERT INTO conversation_sentiment_trajectory (
+        conversation_id, user_id, initial_sentiment, current_sentiment, sentiment_trend,
+        avg_positive_score, avg_negative_score, avg_compound_score,
+        sentiment_volatility, negative_streak_count, max_negative_streak,
+        emotion_sequence, dominant_emotion,
+        escalation_risk_score, early_warning_triggered, early_warning_at,
+        total_messages, positive_messages, negative_messages, neutral_messages,
+        first_message_at, last_message_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT (conversation_id) DO UPDATE SET
+        current_sentiment = excluded.current_sentiment,
+        sentiment_trend = excluded.sentiment_trend,
+        avg_positive_score = excluded.avg_positive_score,
+        avg_negative_score = excluded.avg_negative_score,
+        avg_compound_score = excluded.avg_compound_score,
+        sentiment_volatility = excluded.sentiment_volatility,
+        negative_streak_count = excluded.negative_streak_count,
+        max_negative_streak = excluded.max_negative_streak,
+        emotion_sequence = excluded.emotion_sequence,
+        dominant_emotion = excluded.dominant_emotion,
+        escalation_risk_score = excluded.escalation_risk_score,
+        early_warning_triggered = excluded.early_warning_triggered,
+        early_warning_at = CASE WHEN excluded.early_warning_triggered = ${this.db.sql.bool(true)} AND conversation_sentiment_trajectory.early_warning_triggered = ${this.db.sql.bool(false)} THEN CURRENT_TIMESTAMP ELSE conversation_sentiment_trajectory.early_warning_at END,
+        total_messages = excluded.total_messages,
+        positive_messages = excluded.positive_messages,
+        negative_messages = excluded.negative_messages,
+        neutral_messages = excluded.neutral_messages,
+        last_message_at = excluded.last_message_at,
+        updated_at = CURRENT_TIMESTAMP
+    `, [
+      conversationId,
+      userId,
+      firstMessage.sentiment_label,
+      lastMessage.sentiment_label,
+      trend,
+      avgPositive,
+      avgNegative,
+      avgCompound,
+      volatility,
+      currentStreak,
+      maxStreak,
+      JSON.stringify(emotionSequence),
+      dominantEmotion,
+      escalationRiskScore,
+      earlyWarningTriggered,
+      earlyWarningTriggered ? new Date() : null,
+      messageList.length,
+      counts.positive,
+      counts.negative,
+      counts.neutral,
+      firstMessage.created_at,
+      lastMessage.created_at,
+    ]);
   }
 
   /**
    * Get conversation sentiment trajectory
    */
   async getConversationTrajectory(conversationId: string): Promise<ConversationSentimentTrajectory | null> {
-    const result = await this.db
-      .prepare('SELECT * FROM conversation_sentiment_trajectory WHERE conversation_id = ?')
-      .bind(conversationId)
-      .first<any>();
+    const result = await this.db.get<any>(
+      'SELECT * FROM conversation_sentiment_trajectory WHERE conversation_id = ?',
+      [conversationId]
+    );
     
     if (!result) {
       return null;
@@ -578,7 +569,10 @@ export class SentimentAnalysisService {
       sentiment_trend: result.sentiment_trend,
       escalation_risk_score: result.escalation_risk_score,
       negative_streak_count: result.negative_streak_count,
-      early_warning_triggered: !!result.early_warning_triggered
+      early_warning_triggered: !!result.early_warning_triggered,
+      initial_sentiment: result.initial_sentiment ?? null,
+      current_sentiment: result.current_sentiment ?? null,
+      dominant_emotion: result.dominant_emotion ?? null
     };
   }
 
@@ -586,24 +580,18 @@ export class SentimentAnalysisService {
    * Get high-risk conversations
    */
   async getHighRiskConversations(limit: number = 20): Promise<any[]> {
-    const result = await this.db
-      .prepare('SELECT * FROM v_high_risk_conversations LIMIT ?')
-      .bind(limit)
-      .all();
+    const result = await this.db.query('SELECT * FROM v_high_risk_conversations LIMIT ?', [limit]);
     
-    return result.results || [];
+    return result.rows;
   }
 
   /**
    * Get sentiment trends
    */
   async getSentimentTrends(days: number = 7): Promise<any[]> {
-    const result = await this.db
-      .prepare('SELECT * FROM v_sentiment_trends_7d LIMIT ?')
-      .bind(days)
-      .all();
+    const result = await this.db.query('SELECT * FROM v_sentiment_trends_7d LIMIT ?', [days]);
     
-    return result.results || [];
+    return result.rows;
   }
 
   /**
@@ -613,25 +601,22 @@ export class SentimentAnalysisService {
     sentiment: string,
     urgency: string
   ): Promise<string | null> {
-    const result = await this.db
-      .prepare(`
-        SELECT template_text
-        FROM sentiment_response_templates
-        WHERE target_sentiment = ?
-          AND urgency_level = ?
-          AND is_active = 1
-        ORDER BY priority DESC, last_used_at ASC
-        LIMIT 1
-      `)
-      .bind(sentiment, urgency)
-      .first<{ template_text: string }>();
+    const result = await this.db.get<{ template_text: string }>(`
+      SELECT template_text
+      FROM sentiment_response_templates
+      WHERE target_sentiment = ?
+        AND urgency_level = ?
+        AND is_active = ${this.db.sql.bool(true)}
+      ORDER BY priority DESC, last_used_at ASC
+      LIMIT 1
+    `, [sentiment, urgency]);
     
     if (result) {
       // Update last_used_at
-      await this.db
-        .prepare('UPDATE sentiment_response_templates SET last_used_at = CURRENT_TIMESTAMP WHERE template_text = ?')
-        .bind(result.template_text)
-        .run();
+      await this.db.run(
+        'UPDATE sentiment_response_templates SET last_used_at = CURRENT_TIMESTAMP WHERE template_text = ?',
+        [result.template_text]
+      );
     }
     
     return result?.template_text || null;
@@ -641,9 +626,11 @@ export class SentimentAnalysisService {
    * Aggregate daily sentiment analytics
    */
   async aggregateDailyAnalytics(date: string): Promise<void> {
-    await this.db
-      .prepare(`
-        INSERT OR REPLACE INTO sentiment_analytics_daily (
+    // Re-running a day replaces its row
+    await this.db.transaction(async (tx) => {
+      await tx.run('DELETE FROM sentiment_analytics_daily WHERE date = ?', [date]);
+      await tx.run(`
+        INSERT INTO sentiment_analytics_daily (
           date, total_messages, positive_messages, negative_messages, neutral_messages,
           avg_positive_score, avg_negative_score, avg_compound_score,
           total_conversations, conversations_with_escalation, avg_negative_streak
@@ -658,13 +645,12 @@ export class SentimentAnalysisService {
           AVG(CASE WHEN compound_score < 0 THEN ABS(compound_score) ELSE 0 END) as avg_negative_score,
           AVG(compound_score) as avg_compound_score,
           COUNT(DISTINCT conversation_id) as total_conversations,
-          SUM(CASE WHEN escalation_recommended = 1 THEN 1 ELSE 0 END) as conversations_with_escalation,
+          SUM(CASE WHEN escalation_recommended = ${tx.sql.bool(true)} THEN 1 ELSE 0 END) as conversations_with_escalation,
           AVG(CASE WHEN sentiment_label = 'negative' THEN 1 ELSE 0 END) as avg_negative_streak
         FROM message_sentiments
         WHERE DATE(created_at) = ?
         GROUP BY DATE(created_at)
-      `)
-      .bind(date)
-      .run();
+      `, [date]);
+    });
   }
 }
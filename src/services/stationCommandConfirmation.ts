@@ -0,0 +1,474 @@
+import { getDb, parseJsonColumn, parseTimestamp, type Database } from '../db';
+import { hasRole, type ToolRole } from '../mastra/toolPermissions';
+import { logger } from '../utils/logger';
+import { generateUUID } from '../utils/idGenerator';
+import type { SupportedLanguage } from './languageService';
+import type { BackendResult, ChargingBackendRegistry, RemoteCommandResult } from './chargingBackend';
+
+/**
+ * Station Command Confirmation
+ *
+ * Reset, stop and unlock interrupt a charger (and possibly someone else's
+ * session), so the agent never sends them on its own. The tool only
+ * proposes the command: this service stores a pending action with a
+ * plain-language summary, the channel shows it to the user (Discord
+ * buttons, a `confirm` event on the web chat stream) and the command
+ * reaches the CPMS only when the user confirms it.
+ *
+ * - Pending actions expire after CONFIRMATION_TTL_SECONDS
+ * - Each station/command pair has a cooldown between executions
+ * - station_command_actions records who approved or rejected what, and
+ *   each decision is also written to security_audit_log
+ */
+
+export type StationCommand = 'reset' | 'stop' | 'unlock';
+export type StationActionStatus = 'pending' | 'confirmed' | 'executed' | 'failed' | 'rejected' | 'expired';
+
+export interface StationCommandParams {
+  resetType?: 'soft' | 'hard';
+  connectorId?: number;
+  reason?: string;
+}
+
+export interface StationCommandRequest {
+  command: StationCommand;
+  stationId: string;
+  params?: StationCommandParams;
+  requestedBy: string | null;
+  threadId: string | null;
+  channel: string | null;
+  language?: SupportedLanguage;
+}
+
+export interface StationActionApprover {
+  userId?: string | null;
+  threadId?: string | null;
+  channel: string; // discord, web
+  role?: ToolRole;
+}
+
+export interface StationAction {
+  actionId: string;
+  command: StationCommand;
+  stationId: string;
+  params: StationCommandParams;
+  summary: string;
+  status: StationActionStatus;
+  requestedBy: string | null;
+  threadId: string | null;
+  channel: string | null;
+  decidedBy: string | null;
+  decidedVia: string | null;
+  decidedAt: Date | null;
+  executedAt: Date | null;
+  result: RemoteCommandResult | null;
+  error: string | null;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export type StationActionErrorCode = 'not_found' | 'forbidden' | 'already_decided' | 'expired' | 'cooldown' | 'command_failed';
+
+export interface StationActionResult {
+  success: boolean;
+  data?: StationAction;
+  error?: string;
+  code?: StationActionErrorCode;
+  cooldownSeconds?: number; // Seconds left when refused for a cooldown
+}
+
+export interface StationCommandDeps {
+  db: Database;
+  registry: ChargingBackendRegistry;
+}
+
+interface StationActionRow {
+  action_id: string;
+  command: StationCommand;
+  station_id: string;
+  params: string | null;
+  summary: string;
+  status: StationActionStatus;
+  requested_by: string | null;
+  thread_id: string | null;
+  channel: string | null;
+  decided_by: string | null;
+  decided_via: string | null;
+  decided_at: string | Date | null;
+  executed_at: string | Date | null;
+  result: string | null;
+  error: string | null;
+  expires_at: string | Date;
+  created_at: string | Date;
+}
+
+// Custom id prefix for the Discord buttons: station_action_<confirm|cancel>_<actionId>
+export const STATION_ACTION_PREFIX = 'station_action_';
+
+// How long the user has to confirm a proposed command
+export const CONFIRMATION_TTL_SECONDS = 5 * 60;
+
+// Minimum time between two executions of the same command on one station
+export const COMMAND_COOLDOWN_SECONDS: Record<StationCommand, number> = {
+  reset: 5 * 60,
+  stop: 60,
+  unlock: 30,
+};
+
+type Strings = {
+  softReset: (station: string) => string;
+  hardReset: (station: string) => string;
+  stop: (station: string, connector?: number) => string;
+  unlock: (station: string, connector: number) => string;
+  confirmLabel: string;
+  cancelLabel: string;
+};
+
+const STRINGS: Record<SupportedLanguage, Strings> = {
+  he: {
+    softReset: (s) => `אתחול רך של העמדה ${s}: תוכנת העמדה תופעל מחדש (30-60 שניות). טעינה פעילה בעמדה תיעצר.`,
+    hardReset: (s) => `אתחול קשיח של העמדה ${s}: העמדה תכובה ותודלק מחדש (2-3 דקות). כל טעינה פעילה בעמדה תיעצר.`,
+    stop: (s, c) => `עצירת הטעינה בעמדה ${s}${c ? `, שקע ${c}` : ''}. הרכב יפסיק להיטען וניתן יהיה לנתק את הכבל.`,
+    unlock: (s, c) => `שחרור הכבל בשקע ${c} בעמדה ${s}. אם הרכב עדיין נטען, הטעינה עלולה להיעצר.`,
+    confirmLabel: '✅ אישור',
+    cancelLabel: '✖️ ביטול',
+  },
+  en: {
+    softReset: (s) => `Soft reset of station ${s}: the station software restarts (30-60 seconds). Any active session on it stops.`,
+    hardReset: (s) => `Hard reset of station ${s}: the station is power-cycled (2-3 minutes). Any active session on it stops.`,
+    stop: (s, c) => `Stop charging at station ${s}${c ? `, connector ${c}` : ''}. The car stops charging and the cable can be unplugged.`,
+    unlock: (s, c) => `Unlock the cable on connector ${c} at station ${s}. If the car is still charging, the session may stop.`,
+    confirmLabel: '✅ Confirm',
+    cancelLabel: '✖️ Cancel',
+  },
+  ru: {
+    softReset: (s) => `Мягкая перезагрузка станции ${s}: программа станции перезапустится (30-60 секунд). Активная зарядка на ней остановится.`,
+    hardReset: (s) => `Жёсткая перезагрузка станции ${s}: питание станции будет отключено и включено (2-3 минуты). Любая активная зарядка на ней остановится.`,
+    stop: (s, c) => `Остановка зарядки на станции ${s}${c ? `, коннектор ${c}` : ''}. Автомобиль перестанет заряжаться, кабель можно будет отключить.`,
+    unlock: (s, c) => `Разблокировка кабеля на коннекторе ${c} станции ${s}. Если автомобиль ещё заряжается, зарядка может остановиться.`,
+    confirmLabel: '✅ Подтвердить',
+    cancelLabel: '✖️ Отмена',
+  },
+  ar: {
+    softReset: (s) => `إعادة تشغيل برمجية للمحطة ${s}: سيُعاد تشغيل برنامج المحطة (30-60 ثانية). ستتوقف أي جلسة شحن نشطة عليها.`,
+    hardReset: (s) => `إعادة تشغيل كاملة للمحطة ${s}: سيتم فصل الطاقة عن المحطة وإعادتها (2-3 دقائق). ستتوقف أي جلسة شحن نشطة عليها.`,
+    stop: (s, c) => `إيقاف الشحن في المحطة ${s}${c ? `، الموصل ${c}` : ''}. ستتوقف السيارة عن الشحن ويمكن فصل الكابل.`,
+    unlock: (s, c) => `تحرير الكابل في الموصل ${c} في المحطة ${s}. إذا كانت السيارة لا تزال تشحن، فقد تتوقف الجلسة.`,
+    confirmLabel: '✅ تأكيد',
+    cancelLabel: '✖️ إلغاء',
+  },
+};
+
+export function getConfirmationLabels(language: SupportedLanguage = 'en'): { confirm: string; cancel: string } {
+  const strings = STRINGS[language] || STRINGS.en;
+  return { confirm: strings.confirmLabel, cancel: strings.cancelLabel };
+}
+
+/**
+ * Who decided, for the audit trail: the user id, or the conversation when
+ * the caller has no identity (a web request without the chat cookie)
+ */
+function approverId(approver: StationActionApprover): string | null {
+  return approver.userId ?? (approver.threadId ? `thread:${approver.threadId}` : null);
+}
+
+function toAction(row: StationActionRow): StationAction {
+  return {
+    actionId: row.action_id,
+    command: row.command,
+    stationId: row.station_id,
+    params: parseJsonColumn<StationCommandParams>(row.params, {}),
+    summary: row.summary,
+    status: row.status,
+    requestedBy: row.requested_by,
+    threadId: row.thread_id,
+    channel: row.channel,
+    decidedBy: row.decided_by,
+    decidedVia: row.decided_via,
+    decidedAt: row.decided_at ? parseTimestamp(row.decided_at) : null,
+    executedAt: row.executed_at ? parseTimestamp(row.executed_at) : null,
+    result: parseJsonColumn<RemoteCommandResult | null>(row.result, null),
+    error: row.error,
+    expiresAt: parseTimestamp(row.expires_at),
+    createdAt: parseTimestamp(row.created_at),
+  };
+}
+
+export class StationCommandConfirmationService {
+  constructor(private readonly deps: StationCommandDeps) {}
+
+  /**
+   * Store a command for the user to confirm. Nothing is sent to the station.
+   */
+  async propose(request: StationCommandRequest): Promise<StationActionResult> {
+    const findResult = await this.deps.registry.findStation(request.stationId);
+    if (!findResult.success || !findResult.data) {
+      return { success: false, error: findResult.error || 'Station not found', code: 'not_found' };
+    }
+
+    const { station } = findResult.data;
+    const params: StationCommandParams = { ...request.params };
+    if (request.command === 'reset') {
+      params.resetType = params.resetType || 'soft';
+    }
+    if (request.command === 'unlock' && params.connectorId === undefined) {
+      params.connectorId = station.connectors[0]?.connectorId ?? 1;
+    }
+
+    const cooldownSeconds = await this.cooldownRemaining(request.command, station.stationId);
+    if (cooldownSeconds > 0) {
+      return {
+        success: false,
+        error: `A ${request.command} was sent to station ${station.stationId} recently; try again in ${cooldownSeconds} seconds`,
+        code: 'cooldown',
+        cooldownSeconds,
+      };
+    }
+
+    const strings = STRINGS[request.language || 'en'] || STRINGS.en;
+    const name = station.stationName && station.stationName !== station.stationId
+      ? `${station.stationName} (${station.stationId})`
+      : station.stationId;
+    const summary = request.command === 'reset'
+      ? (params.resetType === 'hard' ? strings.hardReset(name) : strings.softReset(name))
+      : request.command === 'stop'
+        ? strings.stop(name, params.connectorId)
+        : strings.unlock(name, params.connectorId ?? 1);
+
+    const actionId = generateUUID();
+    const { db } = this.deps;
+
+    await db.transaction(async (tx) => {
+      // A new proposal replaces the thread's earlier one for the same command and station
+      if (request.threadId) {
+        await tx.run(`
+          UPDATE station_command_actions SET status = 'expired', updated_at = CURRENT_TIMESTAMP
+          WHERE thread_id = ? AND station_id = ? AND command = ? AND status = 'pending'
+        `, [request.threadId, station.stationId, request.command]);
+      }
+
+      await tx.run(`
+        INSERT INTO station_command_actions (
+          action_id, command, station_id, params, summary, requested_by, thread_id, channel, expires_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ${db.sql.fromNow(CONFIRMATION_TTL_SECONDS, 'seconds')})
+      `, [
+        actionId,
+        request.command,
+        station.stationId,
+        JSON.stringify(params),
+        summary,
+        request.requestedBy,
+        request.threadId,
+        request.channel,
+      ]);
+    });
+
+    logger.info(
+      { actionId, command: request.command, stationId: station.stationId, threadId: request.threadId },
+      'Station command proposed'
+    );
+
+    const action = await this.getAction(actionId);
+    return action ? { success: true, data: action } : { success: false, error: 'Failed to store the pending action' };
+  }
+
+  /**
+   * Run a pending command after the user confirmed it
+   */
+  async confirm(actionId: string, approver: StationActionApprover): Promise<StationActionResult> {
+    const check = await this.checkDecision(actionId, approver);
+    if (!check.success || !check.data) {
+      return check;
+    }
+
+    const action = check.data;
+    const cooldownSeconds = await this.cooldownRemaining(action.command, action.stationId);
+    if (cooldownSeconds > 0) {
+      return {
+        success: false,
+        error: `A ${action.command} was sent to station ${action.stationId} recently; try again in ${cooldownSeconds} seconds`,
+        code: 'cooldown',
+        cooldownSeconds,
+      };
+    }
+
+    // Claim the action so a double click or a second channel can't run it twice
+    const claimed = await this.deps.db.run(`
+      UPDATE station_command_actions
+      SET status = 'confirmed', decided_by = ?, decided_via = ?, decided_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE action_id = ? AND status = 'pending'
+    `, [approverId(approver), approver.channel, actionId]);
+
+    if (claimed.changes === 0) {
+      return { success: false, error: 'This action was already handled', code: 'already_decided' };
+    }
+
+    let result: BackendResult<RemoteCommandResult>;
+    try {
+      result = await this.execute(action);
+    } catch (error) {
+      result = { success: false, error: error instanceof Error ? error.message : 'Unknown error occurred' };
+    }
+
+    await this.deps.db.run(`
+      UPDATE station_command_actions
+      SET status = ?, executed_at = CURRENT_TIMESTAMP, result = ?, error = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE action_id = ?
+    `, [
+      result.success ? 'executed' : 'failed',
+      result.data ? JSON.stringify(result.data) : null,
+      result.success ? null : result.error || 'Command failed',
+      actionId,
+    ]);
+
+    await this.audit(action, approver, result.success ? 'confirmed: executed' : `confirmed: failed (${result.error || 'unknown error'})`);
+
+    logger.info(
+      { actionId, command: action.command, stationId: action.stationId, approvedBy: approver.userId, via: approver.channel, success: result.success },
+      'Station command confirmed'
+    );
+
+    const updated = await this.getAction(actionId);
+    return result.success
+      ? { success: true, data: updated || action }
+      : { success: false, data: updated || action, error: result.error || 'Command failed', code: 'command_failed' };
+  }
+
+  /**
+   * Drop a pending command the user declined
+   */
+  async reject(actionId: string, approver: StationActionApprover): Promise<StationActionResult> {
+    const check = await this.checkDecision(actionId, approver);
+    if (!check.success || !check.data) {
+      return check;
+    }
+
+    const updated = await this.deps.db.run(`
+      UPDATE station_command_actions
+      SET status = 'rejected', decided_by = ?, decided_via = ?, decided_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE action_id = ? AND status = 'pending'
+    `, [approverId(approver), approver.channel, actionId]);
+
+    if (updated.changes === 0) {
+      return { success: false, error: 'This action was already handled', code: 'already_decided' };
+    }
+
+    await this.audit(check.data, approver, 'rejected');
+    logger.info({ actionId, rejectedBy: approver.userId, via: approver.channel }, 'Station command rejected');
+
+    const action = await this.getAction(actionId);
+    return { success: true, data: action || check.data };
+  }
+
+  async getAction(actionId: string): Promise<StationAction | null> {
+    const row = await this.deps.db.get<StationActionRow>(
+      'SELECT * FROM station_command_actions WHERE action_id = ?',
+      [actionId]
+    );
+    return row ? toAction(row) : null;
+  }
+
+  /**
+   * Unexpired pending actions for a conversation, oldest first
+   */
+  async listPending(threadId: string): Promise<StationAction[]> {
+    const { rows } = await this.deps.db.query<StationActionRow>(`
+      SELECT * FROM station_command_actions
+      WHERE thread_id = ? AND status = 'pending' AND expires_at > ${this.deps.db.sql.now()}
+      ORDER BY created_at ASC
+    `, [threadId]);
+    return rows.map(toAction);
+  }
+
+  /**
+   * Seconds until the station accepts this command again (0 = now)
+   */
+  async cooldownRemaining(command: StationCommand, stationId: string): Promise<number> {
+    const cooldown = COMMAND_COOLDOWN_SECONDS[command];
+    const row = await this.deps.db.get<{ executed_at: string | Date }>(`
+      SELECT executed_at FROM station_command_actions
+      WHERE station_id = ? AND command = ? AND status = 'executed'
+        AND executed_at > ${this.deps.db.sql.ago(cooldown, 'seconds')}
+      ORDER BY executed_at DESC
+      LIMIT 1
+    `, [stationId, command]);
+
+    if (!row) return 0;
+    const elapsed = (Date.now() - parseTimestamp(row.executed_at).getTime()) / 1000;
+    return Math.max(1, Math.ceil(cooldown - elapsed));
+  }
+
+  /**
+   * Load a pending action and check the approver may decide it: the user
+   * who asked for it, or support staff
+   */
+  private async checkDecision(actionId: string, approver: StationActionApprover): Promise<StationActionResult> {
+    const action = await this.getAction(actionId);
+    if (!action) {
+      return { success: false, error: 'Action not found', code: 'not_found' };
+    }
+
+    const isRequester = !!approver.userId && approver.userId === action.requestedBy;
+    const isStaff = !!approver.role && hasRole(approver.role, 'support_agent');
+    if (!isRequester && !isStaff) {
+      await this.audit(action, approver, 'denied: not the requesting user');
+      return { success: false, error: 'Only the user who asked for this command can confirm it', code: 'forbidden' };
+    }
+
+    if (action.status !== 'pending') {
+      return { success: false, data: action, error: `This action is already ${action.status}`, code: 'already_decided' };
+    }
+
+    if (action.expiresAt.getTime() <= Date.now()) {
+      await this.deps.db.run(`
+        UPDATE station_command_actions SET status = 'expired', updated_at = CURRENT_TIMESTAMP
+        WHERE action_id = ? AND status = 'pending'
+      `, [actionId]);
+      return {
+        success: false,
+        data: { ...action, status: 'expired' },
+        error: 'This action expired; ask again to get a new confirmation',
+        code: 'expired',
+      };
+    }
+
+    return { success: true, data: action };
+  }
+
+  private async execute(action: StationAction): Promise<BackendResult<RemoteCommandResult>> {
+    const backend = this.deps.registry.resolve(action.stationId);
+    switch (action.command) {
+      case 'reset':
+        return backend.resetStation(action.stationId, action.params.resetType || 'soft');
+      case 'stop':
+        return backend.stopCharging(action.stationId, { connectorId: action.params.connectorId, reason: action.params.reason });
+      case 'unlock':
+        return backend.unlockConnector(action.stationId, action.params.connectorId);
+    }
+  }
+
+  private async audit(action: StationAction, approver: StationActionApprover, result: string): Promise<void> {
+    try {
+      await this.deps.db.run(
+        `INSERT INTO security_audit_log (user_id, action, resource, result) VALUES (?, 'station_command', ?, ?)`,
+        [approverId(approver), `station:${action.stationId}:${action.command}:${action.actionId}`, `${result} via ${approver.channel}`]
+      );
+    } catch (error) {
+      logger.error({ error, actionId: action.actionId }, 'Failed to write station command to audit log');
+    }
+  }
+}
+
+// Singleton instance
+let confirmationInstance: StationCommandConfirmationService | null = null;
+
+export async function getStationCommandConfirmations(): Promise<StationCommandConfirmationService> {
+  if (!confirmationInstance) {
+    const { getChargingBackendRegistry } = await import('./chargingBackend');
+    confirmationInstance = new StationCommandConfirmationService({
+      db: getDb(),
+      registry: getChargingBackendRegistry(),
+    });
+  }
+  return confirmationInstance;
+}
@@ -1,13 +1,14 @@
 import { EventEmitter } from 'events';
 import { logger } from '../utils/logger';
-import { pgPool } from '../mastra/storage';
-import { ampecoApiCall } from '../mastra/utils/ampecoUtils';
+import { db } from '../db';
+import { getChargingBackendRegistry, ChargingStation } from './chargingBackend';
 
 /**
  * Real-Time Station Monitoring Service
  * 
  * Monitors station status in real-time using:
- * 1. Polling Ampeco API every 30 seconds
+ * 1. Polling every pollable charging backend (Ampeco, ...) every 30 seconds
+ *    (directly connected OCPP chargers push through ingestStationStatus)
  * 2. Caching status in PostgreSQL
  * 3. Detecting status changes and generating events
  * 4. Proactive Discord notifications for critical issues
@@ -75,9 +76,7 @@ export class StationMonitoringService extends EventEmitter {
       await this.pollStations();
     }, this.POLL_INTERVAL_MS);
 
-    logger.info('Station monitoring service started', {
-      pollInterval: `${this.POLL_INTERVAL_MS / 1000}s`,
-    });
+    logger.info({ pollInterval: `${this.POLL_INTERVAL_MS / 1000}s` }, 'Station monitoring service started');
   }
 
   /**
@@ -93,107 +92,74 @@ export class StationMonitoringService extends EventEmitter {
   }
 
   /**
-   * Poll all stations from Ampeco API
+   * Poll all stations from every backend that supports polling
    */
   private async pollStations(): Promise<void> {
-    try {
-      logger.debug('Polling stations...');
-
-      // Fetch all stations from Ampeco
-      const response = await ampecoApiCall('/charging-stations', 'GET');
-
-      if (!response || !response.data) {
-        logger.warn('No station data received from Ampeco');
-        return;
-      }
-
-      const stations = response.data;
-      logger.debug('Fetched stations', { count: stations.length });
-
-      // Process each station
-      for (const station of stations) {
-        await this.processStation(station);
+    const registry = getChargingBackendRegistry();
+
+    for (const backend of registry.list().filter((b) => b.supportsPolling)) {
+      try {
+        logger.debug({ backendId: backend.id }, 'Polling stations...');
+
+        const response = await backend.listStations();
+
+        if (!response.success || !response.data) {
+          logger.warn({ backendId: backend.id, error: response.error }, 'No station data received');
+          continue;
+        }
+
+        const stations = response.data;
+        logger.debug({ backendId: backend.id, count: stations.length }, 'Fetched stations');
+
+        // Process each station
+        for (const station of stations) {
+          registry.routeStation(station.stationId, backend.id);
+          await this.processStation(station);
+        }
+
+        logger.debug({
+          backendId: backend.id,
+          stationsProcessed: stations.length,
+        }, 'Station polling complete');
+      } catch (error) {
+        logger.error({ error, backendId: backend.id }, 'Failed to poll stations');
       }
-
-      logger.debug('Station polling complete', {
-        stationsProcessed: stations.length,
-      });
-    } catch (error) {
-      logger.error('Failed to poll stations', { error });
     }
   }
 
   /**
    * Process individual station status
    */
-  private async processStation(stationData: any): Promise<void> {
+  private async processStation(station: ChargingStation): Promise<void> {
     try {
-      const stationId = stationData.id?.toString();
-      if (!stationId) {
-        logger.warn('Station missing ID', { stationData });
+      if (!station.stationId) {
+        logger.warn({ station }, 'Station missing ID');
         return;
       }
 
-      // Parse station status
-      const status: StationStatus = {
-        stationId,
-        stationName: stationData.name || `Station ${stationId}`,
-        status: this.mapStatus(stationData.status),
-        statusCode: stationData.status_code,
-        connectors: this.parseConnectors(stationData.connectors || []),
-        location: stationData.location ? {
-          latitude: stationData.location.latitude,
-          longitude: stationData.location.longitude,
-          address: stationData.location.address,
-        } : undefined,
-        lastUpdated: new Date(),
-        errorCode: stationData.error_code,
-        errorMessage: stationData.error_message,
-      };
-
-      // Check for status changes
-      const previousStatus = this.stationCache.get(stationId);
-      if (previousStatus) {
-        await this.detectStatusChanges(previousStatus, status);
-      }
-
-      // Update cache
-      this.stationCache.set(stationId, status);
-
-      // Save to database
-      await this.saveStationStatus(status);
+      await this.ingestStationStatus({ ...station, lastUpdated: new Date() });
 
     } catch (error) {
-      logger.error('Failed to process station', { error, stationData });
+      logger.error({ error, station }, 'Failed to process station');
     }
   }
 
   /**
-   * Map Ampeco status to our standard format
+   * Ingest a station status from any source (Ampeco polling, OCPP, ...)
+   * Detects changes against the cached status, then caches and persists it
    */
-  private mapStatus(status: string): StationStatus['status'] {
-    const statusMap: Record<string, StationStatus['status']> = {
-      'Available': 'Available',
-      'Occupied': 'Occupied',
-      'Charging': 'Occupied',
-      'Faulted': 'Faulted',
-      'Unavailable': 'Unavailable',
-      'Offline': 'Offline',
-    };
-
-    return statusMap[status] || 'Unavailable';
-  }
+  async ingestStationStatus(status: StationStatus): Promise<void> {
+    // Check for status changes
+    const previousStatus = this.stationCache.get(status.stationId);
+    if (previousStatus) {
+      await this.detectStatusChanges(previousStatus, status);
+    }
 
-  /**
-   * Parse connector information
-   */
-  private parseConnectors(connectors: any[]): StationStatus['connectors'] {
-    return connectors.map((c) => ({
-      connectorId: c.id || c.connector_id,
-      type: c.type || c.connector_type || 'Unknown',
-      status: c.status || 'Unknown',
-      powerKw: c.power_kw || c.max_power || 0,
-    }));
+    // Update cache
+    this.stationCache.set(status.stationId, status);
+
+    // Save to database
+    await this.saveStationStatus(status);
   }
 
   /**
@@ -205,11 +171,11 @@ export class StationMonitoringService extends EventEmitter {
   ): Promise<void> {
     // Status changed
     if (previous.status !== current.status) {
-      logger.info('Station status changed', {
+      logger.info({
         stationId: current.stationId,
         from: previous.status,
         to: current.status,
-      });
+      }, 'Station status changed');
 
       // Went offline
       if (current.status === 'Offline' && previous.status !== 'Offline') {
@@ -268,7 +234,7 @@ export class StationMonitoringService extends EventEmitter {
    */
   private async saveStationStatus(status: StationStatus): Promise<void> {
     try {
-      await pgPool.query(
+      await db.query(
         `
         INSERT INTO station_status_cache (
           station_id, station_name, status, status_code,
@@ -308,7 +274,7 @@ export class StationMonitoringService extends EventEmitter {
       );
 
       // Save to history
-      await pgPool.query(
+      await db.query(
         `
         INSERT INTO station_status_history (
           station_id, status, status_code, error_code, error_message, timestamp
@@ -324,7 +290,7 @@ export class StationMonitoringService extends EventEmitter {
         ]
       );
     } catch (error) {
-      logger.error('Failed to save station status', { error, status });
+      logger.error({ error, status }, 'Failed to save station status');
     }
   }
 
@@ -333,7 +299,7 @@ export class StationMonitoringService extends EventEmitter {
    */
   private async createEvent(event: StationEvent): Promise<void> {
     try {
-      await pgPool.query(
+      await db.query(
         `
         INSERT INTO station_events (
           station_id, event_type, severity, message, metadata
@@ -351,13 +317,13 @@ export class StationMonitoringService extends EventEmitter {
       // Emit event for listeners (Discord bot, analytics, etc.)
       this.emit('station_event', event);
 
-      logger.info('Station event created', {
+      logger.info({
         stationId: event.stationId,
         eventType: event.eventType,
         severity: event.severity,
-      });
+      }, 'Station event created');
     } catch (error) {
-      logger.error('Failed to create station event', { error, event });
+      logger.error({ error, event }, 'Failed to create station event');
     }
   }
 
@@ -373,7 +339,7 @@ export class StationMonitoringService extends EventEmitter {
 
     // Fallback to database
     try {
-      const result = await pgPool.query(
+      const result = await db.query(
         `SELECT * FROM station_status_cache WHERE station_id = $1`,
         [stationId]
       );
@@ -399,7 +365,7 @@ export class StationMonitoringService extends EventEmitter {
         errorMessage: row.current_error_message,
       };
     } catch (error) {
-      logger.error('Failed to get station status', { error, stationId });
+      logger.error({ error, stationId }, 'Failed to get station status');
       return null;
     }
   }
@@ -409,7 +375,7 @@ export class StationMonitoringService extends EventEmitter {
    */
   async getStationsByStatus(status: StationStatus['status']): Promise<StationStatus[]> {
     try {
-      const result = await pgPool.query(
+      const result = await db.query(
         `SELECT * FROM station_status_cache WHERE status = $1 ORDER BY last_updated DESC`,
         [status]
       );
@@ -430,7 +396,7 @@ export class StationMonitoringService extends EventEmitter {
         errorMessage: row.current_error_message,
       }));
     } catch (error) {
-      logger.error('Failed to get stations by status', { error, status });
+      logger.error({ error, status }, 'Failed to get stations by status');
       return [];
     }
   }
@@ -440,7 +406,7 @@ export class StationMonitoringService extends EventEmitter {
    */
   async getUnnotifiedEvents(): Promise<any[]> {
     try {
-      const result = await pgPool.query(
+      const result = await db.query(
         `
         SELECT e.*, s.station_name
         FROM station_events e
@@ -453,7 +419,7 @@ export class StationMonitoringService extends EventEmitter {
 
       return result.rows;
     } catch (error) {
-      logger.error('Failed to get unnotified events', { error });
+      logger.error({ error }, 'Failed to get unnotified events');
       return [];
     }
   }
@@ -463,16 +429,16 @@ export class StationMonitoringService extends EventEmitter {
    */
   async markEventNotified(eventId: number, channelId: string): Promise<void> {
     try {
-      await pgPool.query(
+      await db.query(
         `
         UPDATE station_events
-        SET notified = TRUE, notified_at = NOW(), notification_channel_id = $2
+        SET notified = TRUE, notified_at = ${db.sql.now()}, notification_channel_id = $2
         WHERE id = $1
         `,
         [eventId, channelId]
       );
     } catch (error) {
-      logger.error('Failed to mark event as notified', { error, eventId });
+      logger.error({ error, eventId }, 'Failed to mark event as notified');
     }
   }
 }
@@ -0,0 +1,166 @@
+import { createHash } from 'crypto';
+import type { LanguageModelV1, LanguageModelV1CallOptions, LanguageModelV1StreamPart } from 'ai';
+import type { CompletionRequest, CompletionResult, EmbeddingRequest, ModelMessage, ModelProvider } from './modelProvider';
+
+/**
+ * Stub Model Provider
+ *
+ * Deterministic in-memory ModelProvider for tests, evals and local
+ * development without API keys. Replies come from a queue (reply()) or a
+ * responder function, embeddings are stable pseudo-random unit vectors of the
+ * text, and every call is recorded for assertions. Failures can be injected
+ * to exercise fallback chains. Agents get it as an AI SDK v1 model.
+ */
+
+export type StubResponder = (request: CompletionRequest) => string;
+
+export interface StubCall {
+  type: 'complete' | 'stream' | 'embed' | 'agent';
+  model: string;
+  messages?: ModelMessage[];
+  input?: string[];
+  at: Date;
+}
+
+const DEFAULT_EMBEDDING_DIMENSIONS = 64;
+
+/**
+ * Stable unit vector for a text (mulberry32 seeded from its hash)
+ */
+function embedText(text: string, dimensions: number): number[] {
+  let seed = createHash('sha256').update(text).digest().readUInt32BE(0);
+  const next = () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296 - 0.5;
+  };
+
+  const vector = Array.from({ length: dimensions }, next);
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map((value) => value / norm);
+}
+
+/**
+ * An AI SDK prompt as provider-neutral messages (tool messages are dropped)
+ */
+function fromPrompt(prompt: LanguageModelV1CallOptions['prompt']): ModelMessage[] {
+  const messages: ModelMessage[] = [];
+  for (const message of prompt) {
+    if (message.role === 'system') {
+      messages.push({ role: 'system', content: message.content });
+    } else if (message.role === 'user' || message.role === 'assistant') {
+      const text = (message.content as Array<{ type: string; text?: string }>)
+        .map((part) => (part.type === 'text' ? part.text : ''))
+        .join('');
+      messages.push({ role: message.role, content: text });
+    }
+  }
+  return messages;
+}
+
+export class StubModelProvider implements ModelProvider {
+  readonly kind = 'stub' as const;
+  readonly configured = true;
+  readonly calls: StubCall[] = [];
+
+  private replies: string[] = [];
+  private responder: StubResponder = (request) => `Stub reply (${request.model})`;
+  private failuresLeft = 0;
+  private failureMessage = 'Stub provider failure';
+
+  constructor(readonly id: string = 'stub') {}
+
+  /**
+   * Queue replies, used in order before the responder
+   */
+  reply(...texts: string[]): this {
+    this.replies.push(...texts);
+    return this;
+  }
+
+  respondWith(responder: StubResponder): this {
+    this.responder = responder;
+    return this;
+  }
+
+  /**
+   * Make the next `times` calls throw
+   */
+  fail(times: number = Infinity, message?: string): this {
+    this.failuresLeft = times;
+    if (message) this.failureMessage = message;
+    return this;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const text = this.next('complete', request);
+    return { text, providerId: this.id, model: request.model, usage: { promptTokens: 0, completionTokens: text.length } };
+  }
+
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    const text = this.next('stream', request);
+    for (const word of text.match(/\S+\s*/g) || []) {
+      yield word;
+    }
+  }
+
+  async embed(request: EmbeddingRequest): Promise<number[][]> {
+    this.record({ type: 'embed', model: request.model, input: request.input });
+    this.throwIfFailing();
+    return request.input.map((text) => embedText(text, request.dimensions ?? DEFAULT_EMBEDDING_DIMENSIONS));
+  }
+
+  agentModel(model: string): LanguageModelV1 {
+    const reply = (options: LanguageModelV1CallOptions) => this.next('agent', { model, messages: fromPrompt(options.prompt) });
+    const rawCall = { rawPrompt: null, rawSettings: {} };
+
+    return {
+      specificationVersion: 'v1',
+      provider: this.id,
+      modelId: model,
+      defaultObjectGenerationMode: 'json',
+      async doGenerate(options) {
+        const text = reply(options);
+        return { text, finishReason: 'stop', usage: { promptTokens: 0, completionTokens: text.length }, rawCall };
+      },
+      async doStream(options) {
+        const text = reply(options);
+        const stream = new ReadableStream<LanguageModelV1StreamPart>({
+          start(controller) {
+            controller.enqueue({ type: 'text-delta', textDelta: text });
+            controller.enqueue({ type: 'finish', finishReason: 'stop', usage: { promptTokens: 0, completionTokens: text.length } });
+            controller.close();
+          },
+        });
+        return { stream, rawCall };
+      },
+    };
+  }
+
+  /**
+   * Clear replies, failures and recorded calls
+   */
+  reset(): void {
+    this.replies = [];
+    this.failuresLeft = 0;
+    this.calls.length = 0;
+  }
+
+  private next(type: StubCall['type'], request: Pick<CompletionRequest, 'model' | 'messages'>): string {
+    this.record({ type, model: request.model, messages: request.messages });
+    this.throwIfFailing();
+    return this.replies.shift() ?? this.responder(request as CompletionRequest);
+  }
+
+  private record(call: Omit<StubCall, 'at'>): void {
+    this.calls.push({ ...call, at: new Date() });
+  }
+
+  private throwIfFailing(): void {
+    if (this.failuresLeft > 0) {
+      this.failuresLeft--;
+      throw new Error(this.failureMessage);
+    }
+  }
+}
@@ -0,0 +1,606 @@
+import { z } from 'zod';
+import { getDb, parseJsonColumn, parseTimestamp, type Database } from '../db';
+import type { EscalationTicket } from './escalationService';
+import type { SupportedLanguage } from './languageService';
+import { logger } from '../utils/logger';
+
+/**
+ * Ticket Routing
+ *
+ * Skills-based assignment of escalation tickets and their SLA clocks.
+ *
+ * A new ticket goes to the support agent who is active, on shift, speaks
+ * the driver's language, has the skill for the issue type and has room
+ * (max_open_tickets); among those, the one with the fewest open tickets.
+ * When nobody has the skill, any agent who speaks the language gets it;
+ * when nobody speaks it, the ticket waits in the agent desk queue.
+ *
+ * sla_policies sets a first-response and a resolution clock per urgency,
+ * both counted from escalation. The SLA monitor warns the desk at
+ * warn_at_percent of a clock and re-escalates at reescalate_at_percent:
+ * one urgency level up and, if nobody is working the ticket yet, another
+ * agent. Alerts go to DESK_ALERTS_CHANNEL_ID (default
+ * DISCORD_ALERTS_CHANNEL_ID) and into the ticket's notes and transcript.
+ */
+
+export type IssueType = EscalationTicket['issueType'];
+export type UrgencyLevel = EscalationTicket['urgencyLevel'];
+export type SlaClock = 'first_response' | 'resolution';
+export type SlaEvent = 'warning' | 'reescalated' | 'breached';
+
+export const ISSUE_TYPES = ['technical', 'billing', 'account', 'general'] as const;
+export const URGENCY_LEVELS = ['low', 'medium', 'high', 'critical'] as const;
+const AGENT_LANGUAGES = ['he', 'en', 'ru', 'ar'] as const;
+
+// Lowest priority score of each urgency (see EscalationService.calculateUrgency)
+const URGENCY_SCORES: Record<UrgencyLevel, number> = { low: 0, medium: 40, high: 60, critical: 80 };
+
+const OPEN_STATUSES = ['open', 'assigned', 'in_progress'];
+const SLA_CHECK_INTERVAL_MS = 60 * 1000; // 1 minute
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'must be HH:MM');
+
+const shiftSchema = z.object({
+  days: z.array(z.number().int().min(0).max(6)).min(1), // 0 = Sunday
+  start: timeSchema,
+  end: timeSchema,
+});
+
+export const supportAgentSchema = z.object({
+  agent: z.string().trim().min(1).max(100),
+  displayName: z.string().trim().max(200).optional(),
+  languages: z.array(z.enum(AGENT_LANGUAGES)).min(1),
+  skills: z.array(z.enum(ISSUE_TYPES)).min(1),
+  shifts: z.array(shiftSchema).nullable().optional(), // Null or empty: always on
+  timezone: z.string().refine(isTimeZone, 'unknown time zone').default('Asia/Jerusalem'),
+  maxOpenTickets: z.number().int().min(1).max(100).default(5),
+  active: z.boolean().default(true),
+});
+
+export const slaPolicySchema = z.object({
+  firstResponseMinutes: z.number().int().min(1),
+  resolutionMinutes: z.number().int().min(1),
+  warnAtPercent: z.number().int().min(1).max(100).default(75),
+  reescalateAtPercent: z.number().int().min(1).max(100).default(90),
+}).refine((policy) => policy.warnAtPercent <= policy.reescalateAtPercent, {
+  message: 'warnAtPercent must not be above reescalateAtPercent',
+});
+
+export type AgentShift = z.infer<typeof shiftSchema>;
+export type SupportAgentInput = z.input<typeof supportAgentSchema>;
+
+export interface SupportAgent extends z.infer<typeof supportAgentSchema> {
+  openTickets: number;
+  onShift: boolean;
+  lastAssignedAt: string | null;
+}
+
+export interface SlaPolicy extends z.infer<typeof slaPolicySchema> {
+  urgencyLevel: UrgencyLevel;
+}
+
+export interface RoutingResult<T = unknown> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: 'not_found' | 'invalid';
+}
+
+/**
+ * What a ticket needs an agent for
+ */
+export interface RoutableTicket {
+  id: number;
+  ticketId: string;
+  issueType: IssueType;
+  urgencyLevel: UrgencyLevel;
+  language?: SupportedLanguage | null;
+}
+
+export interface AgentChoice {
+  agent: string;
+  openTickets: number;
+  reason: string;
+}
+
+export interface SlaCheckResult {
+  checked: number;
+  warnings: number;
+  reescalations: number;
+  breaches: number;
+}
+
+/**
+ * Posts a message for the support team
+ */
+export type DeskAlertSender = (message: string) => Promise<void>;
+
+interface SupportAgentRow {
+  agent: string;
+  display_name: string | null;
+  languages: string | string[];
+  skills: string | string[];
+  shifts: string | AgentShift[] | null;
+  timezone: string | null;
+  max_open_tickets: number | null;
+  active: boolean | number | null;
+  last_assigned_at: string | Date | null;
+}
+
+interface SlaPolicyRow {
+  urgency_level: UrgencyLevel;
+  first_response_minutes: number;
+  resolution_minutes: number;
+  warn_at_percent: number | null;
+  reescalate_at_percent: number | null;
+}
+
+interface SlaTicketRow {
+  id: number;
+  ticket_id: string;
+  thread_id: string | null;
+  issue_type: IssueType;
+  urgency_level: UrgencyLevel;
+  priority_score: number | null;
+  status: string;
+  assigned_to: string | null;
+  language: SupportedLanguage | null;
+  escalated_at: string | Date;
+  first_response_due_at: string | Date | null;
+  resolution_due_at: string | Date | null;
+  first_response_at: string | Date | null;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function isTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether `now` falls in one of the shifts, read in the agent's time zone.
+ * A shift that ends before it starts runs past midnight into the next day.
+ */
+export function isOnShift(shifts: AgentShift[] | null | undefined, timezone: string, now: Date = new Date()): boolean {
+  if (!shifts || shifts.length === 0) return true;
+
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone, weekday: 'short', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' })
+      .formatToParts(now)
+      .map((part) => [part.type, part.value])
+  );
+  const day = WEEKDAYS.indexOf(parts.weekday);
+  const minutes = Number(parts.hour) * 60 + Number(parts.minute);
+
+  return shifts.some((shift) => {
+    const start = toMinutes(shift.start);
+    const end = toMinutes(shift.end);
+    if (start <= end) {
+      return shift.days.includes(day) && minutes >= start && minutes < end;
+    }
+    return (shift.days.includes(day) && minutes >= start) || (shift.days.includes((day + 6) % 7) && minutes < end);
+  });
+}
+
+function nextUrgency(level: UrgencyLevel): UrgencyLevel {
+  return URGENCY_LEVELS[Math.min(URGENCY_LEVELS.indexOf(level) + 1, URGENCY_LEVELS.length - 1)];
+}
+
+function toPolicy(row: SlaPolicyRow): SlaPolicy {
+  return {
+    urgencyLevel: row.urgency_level,
+    firstResponseMinutes: Number(row.first_response_minutes),
+    resolutionMinutes: Number(row.resolution_minutes),
+    warnAtPercent: Number(row.warn_at_percent ?? 75),
+    reescalateAtPercent: Number(row.reescalate_at_percent ?? 90),
+  };
+}
+
+async function sendDeskAlert(message: string): Promise<void> {
+  const channelId = process.env.DESK_ALERTS_CHANNEL_ID || process.env.DISCORD_ALERTS_CHANNEL_ID;
+  if (!channelId) {
+    logger.warn({ message }, 'No desk alerts channel configured');
+    return;
+  }
+
+  // Loaded on demand so the routing doesn't pull in the Discord client
+  const { discordClient } = await import('../triggers/discordTriggers');
+  if (!discordClient.isReady()) {
+    throw new Error('Discord client is not ready');
+  }
+  const channel = await discordClient.channels.fetch(channelId);
+  if (!channel?.isSendable()) {
+    throw new Error(`Discord channel ${channelId} cannot receive messages`);
+  }
+  await channel.send(message);
+}
+
+export class TicketRoutingService {
+  private monitorInterval: NodeJS.Timeout | null = null;
+
+  constructor(
+    private db: Database = getDb(),
+    private alert: DeskAlertSender = sendDeskAlert
+  ) {}
+
+  /**
+   * Support agents with their current load
+   */
+  async listAgents(now: Date = new Date()): Promise<SupportAgent[]> {
+    const [{ rows }, load] = await Promise.all([
+      this.db.query<SupportAgentRow>('SELECT * FROM support_agents ORDER BY agent'),
+      this.openTicketCounts(),
+    ]);
+
+    return rows.map((row) => {
+      const shifts = parseJsonColumn<AgentShift[] | null>(row.shifts, null);
+      const timezone = row.timezone || 'Asia/Jerusalem';
+      return {
+        agent: row.agent,
+        displayName: row.display_name ?? undefined,
+        languages: parseJsonColumn<SupportAgent['languages']>(row.languages, []),
+        skills: parseJsonColumn<SupportAgent['skills']>(row.skills, []),
+        shifts,
+        timezone,
+        maxOpenTickets: Number(row.max_open_tickets ?? 5),
+        active: Boolean(row.active),
+        openTickets: load.get(row.agent) ?? 0,
+        onShift: isOnShift(shifts, timezone, now),
+        lastAssignedAt: row.last_assigned_at ? parseTimestamp(row.last_assigned_at).toISOString() : null,
+      };
+    });
+  }
+
+  /**
+   * Create or replace a support agent's profile
+   */
+  async saveAgent(input: unknown): Promise<RoutingResult<SupportAgent>> {
+    const parsed = supportAgentSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; '), code: 'invalid' };
+    }
+    const agent = parsed.data;
+
+    await this.db.run(`
+      INSERT INTO support_agents (agent, display_name, languages, skills, shifts, timezone, max_open_tickets, active)
+      VALUES (?, ?, ${this.db.sql.json()}, ${this.db.sql.json()}, ${this.db.sql.json()}, ?, ?, ${this.db.sql.bool(agent.active)})
+      ON CONFLICT (agent) DO UPDATE SET
+        display_name = excluded.display_name,
+        languages = excluded.languages,
+        skills = excluded.skills,
+        shifts = excluded.shifts,
+        timezone = excluded.timezone,
+        max_open_tickets = excluded.max_open_tickets,
+        active = excluded.active,
+        updated_at = CURRENT_TIMESTAMP
+    `, [
+      agent.agent,
+      agent.displayName ?? null,
+      JSON.stringify(agent.languages),
+      JSON.stringify(agent.skills),
+      agent.shifts?.length ? JSON.stringify(agent.shifts) : null,
+      agent.timezone,
+      agent.maxOpenTickets,
+    ]);
+
+    logger.info({ agent: agent.agent, languages: agent.languages, skills: agent.skills }, 'Support agent saved');
+    const saved = (await this.listAgents()).find((candidate) => candidate.agent === agent.agent);
+    return { success: true, data: saved };
+  }
+
+  async removeAgent(agent: string): Promise<RoutingResult> {
+    const { changes } = await this.db.run('DELETE FROM support_agents WHERE agent = ?', [agent]);
+    if (changes === 0) {
+      return { success: false, error: `Support agent ${agent} not found`, code: 'not_found' };
+    }
+    logger.info({ agent }, 'Support agent removed');
+    return { success: true };
+  }
+
+  async listPolicies(): Promise<SlaPolicy[]> {
+    const { rows } = await this.db.query<SlaPolicyRow>('SELECT * FROM sla_policies');
+    return rows
+      .map(toPolicy)
+      .sort((a, b) => URGENCY_LEVELS.indexOf(b.urgencyLevel) - URGENCY_LEVELS.indexOf(a.urgencyLevel));
+  }
+
+  /**
+   * Change the SLA of an urgency level; applies to tickets escalated from now on
+   */
+  async savePolicy(urgencyLevel: string, input: unknown): Promise<RoutingResult<SlaPolicy>> {
+    if (!(URGENCY_LEVELS as readonly string[]).includes(urgencyLevel)) {
+      return { success: false, error: `urgency must be one of ${URGENCY_LEVELS.join(', ')}`, code: 'invalid' };
+    }
+    const parsed = slaPolicySchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: parsed.error.issues.map((issue) => `${issue.path.join('.') || 'body'}: ${issue.message}`).join('; '), code: 'invalid' };
+    }
+    const policy = parsed.data;
+
+    await this.db.run(`
+      INSERT INTO sla_policies (urgency_level, first_response_minutes, resolution_minutes, warn_at_percent, reescalate_at_percent)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (urgency_level) DO UPDATE SET
+        first_response_minutes = excluded.first_response_minutes,
+        resolution_minutes = excluded.resolution_minutes,
+        warn_at_percent = excluded.warn_at_percent,
+        reescalate_at_percent = excluded.reescalate_at_percent,
+        updated_at = CURRENT_TIMESTAMP
+    `, [urgencyLevel, policy.firstResponseMinutes, policy.resolutionMinutes, policy.warnAtPercent, policy.reescalateAtPercent]);
+
+    logger.info({ urgencyLevel, ...policy }, 'SLA policy saved');
+    return { success: true, data: { urgencyLevel: urgencyLevel as UrgencyLevel, ...policy } };
+  }
+
+  /**
+   * Start the SLA clocks of a new ticket and assign it. Never throws: a
+   * ticket that couldn't be routed still waits in the desk queue.
+   */
+  async routeNewTicket(ticket: RoutableTicket): Promise<AgentChoice | null> {
+    try {
+      await this.startSlaClocks(ticket.id, ticket.urgencyLevel);
+      return await this.autoAssign(ticket);
+    } catch (error) {
+      logger.error({ error, ticketId: ticket.ticketId }, 'Failed to route escalation ticket');
+      return null;
+    }
+  }
+
+  async startSlaClocks(ticketDbId: number, urgencyLevel: UrgencyLevel): Promise<void> {
+    const row = await this.db.get<SlaPolicyRow>('SELECT * FROM sla_policies WHERE urgency_level = ?', [urgencyLevel]);
+    if (!row) {
+      logger.warn({ urgencyLevel }, 'No SLA policy for urgency');
+      return;
+    }
+
+    const policy = toPolicy(row);
+    await this.db.run(`
+      UPDATE escalation_tickets
+      SET first_response_due_at = ${this.db.sql.fromNowBy('?', 'minutes')},
+        resolution_due_at = ${this.db.sql.fromNowBy('?', 'minutes')}
+      WHERE id = ?
+    `, [policy.firstResponseMinutes, policy.resolutionMinutes, ticketDbId]);
+  }
+
+  /**
+   * Assign a ticket to the best available agent; null leaves it in the queue
+   */
+  async autoAssign(ticket: RoutableTicket, options: { exclude?: string[] } = {}): Promise<AgentChoice | null> {
+    const choice = this.chooseAgent(await this.listAgents(), ticket, options.exclude ?? []);
+    if (!choice) {
+      logger.warn({ ticketId: ticket.ticketId, language: ticket.language, issueType: ticket.issueType }, 'No support agent available for ticket');
+      return null;
+    }
+
+    await this.db.run(`
+      UPDATE escalation_tickets
+      SET assigned_to = ?, status = 'assigned', assigned_at = ${this.db.sql.now()}
+      WHERE id = ?
+    `, [choice.agent, ticket.id]);
+    await this.db.run(`UPDATE support_agents SET last_assigned_at = ${this.db.sql.now()} WHERE agent = ?`, [choice.agent]);
+    await this.addNote(ticket.id, `Assigned to ${choice.agent}: ${choice.reason}`);
+
+    logger.info({ ticketId: ticket.ticketId, agent: choice.agent, reason: choice.reason }, 'Escalation ticket auto-assigned');
+    return choice;
+  }
+
+  /**
+   * Stop the first-response clock when a human agent first replies
+   */
+  async recordFirstResponse(ticketId: string): Promise<void> {
+    try {
+      await this.db.run(`
+        UPDATE escalation_tickets SET first_response_at = ${this.db.sql.now()}
+        WHERE ticket_id = ? AND first_response_at IS NULL
+      `, [ticketId]);
+    } catch (error) {
+      logger.error({ error, ticketId }, 'Failed to record first response');
+    }
+  }
+
+  /**
+   * Warn about, re-escalate and report breaches of open tickets' SLA clocks
+   */
+  async checkSlas(now: Date = new Date()): Promise<SlaCheckResult> {
+    const result: SlaCheckResult = { checked: 0, warnings: 0, reescalations: 0, breaches: 0 };
+    const policies = new Map((await this.listPolicies()).map((policy) => [policy.urgencyLevel, policy]));
+
+    const { rows } = await this.db.query<SlaTicketRow>(`
+      SELECT id, ticket_id, thread_id, issue_type, urgency_level, priority_score, status, assigned_to, language,
+        escalated_at, first_response_due_at, resolution_due_at, first_response_at
+      FROM escalation_tickets
+      WHERE status IN (${OPEN_STATUSES.map(() => '?').join(', ')})
+        AND resolution_due_at IS NOT NULL
+    `, OPEN_STATUSES);
+
+    for (const ticket of rows) {
+      result.checked++;
+      const clocks: Array<[SlaClock, string | Date | null]> = [
+        ['first_response', ticket.first_response_at ? null : ticket.first_response_due_at],
+        ['resolution', ticket.resolution_due_at],
+      ];
+
+      for (const [clock, dueAt] of clocks) {
+        if (!dueAt) continue;
+        const policy = policies.get(ticket.urgency_level);
+        const start = parseTimestamp(ticket.escalated_at).getTime();
+        const due = parseTimestamp(dueAt).getTime();
+        const percent = due > start ? ((now.getTime() - start) / (due - start)) * 100 : 100;
+
+        try {
+          if (percent >= (policy?.reescalateAtPercent ?? 90)) {
+            if (await this.recordSlaEvent(ticket, clock, 'reescalated')) {
+              await this.reescalate(ticket, clock, dueAt);
+              result.reescalations++;
+            }
+          } else if (percent >= (policy?.warnAtPercent ?? 75)) {
+            if (await this.recordSlaEvent(ticket, clock, 'warning')) {
+              await this.notify(ticket, `⏰ SLA warning: ${ticket.ticket_id} (${ticket.urgency_level}) is due for ${clock.replace('_', ' ')} at ${parseTimestamp(dueAt).toISOString()}${ticket.assigned_to ? `, assigned to ${ticket.assigned_to}` : ', unassigned'}`);
+              result.warnings++;
+            }
+          }
+
+          if (percent >= 100 && await this.recordSlaEvent(ticket, clock, 'breached')) {
+            await this.notify(ticket, `🚨 SLA breached: ${ticket.ticket_id} (${ticket.urgency_level}) missed its ${clock.replace('_', ' ')} deadline${ticket.assigned_to ? `, assigned to ${ticket.assigned_to}` : ''}`);
+            result.breaches++;
+          }
+        } catch (error) {
+          logger.error({ error, ticketId: ticket.ticket_id, clock }, 'SLA check failed for ticket');
+        }
+      }
+    }
+
+    if (result.warnings || result.reescalations || result.breaches) {
+      logger.info(result, 'SLA check completed');
+    }
+    return result;
+  }
+
+  /**
+   * Run the SLA check periodically
+   */
+  startSlaMonitor(intervalMs: number = SLA_CHECK_INTERVAL_MS): void {
+    if (this.monitorInterval) return;
+
+    this.monitorInterval = setInterval(() => {
+      this.checkSlas().catch((error) => {
+        logger.error({ error }, 'SLA check failed');
+      });
+    }, intervalMs);
+    this.monitorInterval.unref();
+  }
+
+  stopSlaMonitor(): void {
+    if (this.monitorInterval) {
+      clearInterval(this.monitorInterval);
+      this.monitorInterval = null;
+    }
+  }
+
+  /**
+   * Available agents for a ticket, best first: skill match, then fewest
+   * open tickets, then longest since their last assignment
+   */
+  private chooseAgent(agents: SupportAgent[], ticket: RoutableTicket, exclude: string[]): AgentChoice | null {
+    const available = agents.filter((agent) =>
+      agent.active &&
+      agent.onShift &&
+      agent.openTickets < agent.maxOpenTickets &&
+      !exclude.includes(agent.agent) &&
+      (!ticket.language || agent.languages.includes(ticket.language))
+    );
+    const skilled = available.filter((agent) => agent.skills.includes(ticket.issueType));
+    const pool = skilled.length > 0 ? skilled : available;
+
+    const [best] = pool.sort((a, b) =>
+      a.openTickets - b.openTickets ||
+      (a.lastAssignedAt ?? '').localeCompare(b.lastAssignedAt ?? '')
+    );
+    if (!best) return null;
+
+    const reasons = [
+      ticket.language ? `speaks ${ticket.language}` : null,
+      skilled.length > 0 ? `${ticket.issueType} skill` : `no ${ticket.issueType} agent available`,
+      `${best.openTickets}/${best.maxOpenTickets} open tickets`,
+    ];
+    return { agent: best.agent, openTickets: best.openTickets, reason: reasons.filter(Boolean).join(', ') };
+  }
+
+  /**
+   * Raise the urgency and, if nobody is working on it yet, give the ticket
+   * to another agent
+   */
+  private async reescalate(ticket: SlaTicketRow, clock: SlaClock, dueAt: string | Date): Promise<void> {
+    const urgency = nextUrgency(ticket.urgency_level);
+    const priorityScore = Math.max(Number(ticket.priority_score ?? 0), URGENCY_SCORES[urgency]);
+
+    await this.db.run(`
+      UPDATE escalation_tickets
+      SET urgency_level = ?, priority_score = ?, reescalation_count = COALESCE(reescalation_count, 0) + 1
+      WHERE id = ?
+    `, [urgency, priorityScore, ticket.id]);
+
+    let reassigned: AgentChoice | null = null;
+    if (ticket.status !== 'in_progress') {
+      reassigned = await this.autoAssign(
+        { id: ticket.id, ticketId: ticket.ticket_id, issueType: ticket.issue_type, urgencyLevel: urgency, language: ticket.language },
+        { exclude: ticket.assigned_to ? [ticket.assigned_to] : [] }
+      );
+    }
+
+    const owner = reassigned
+      ? `reassigned from ${ticket.assigned_to ?? 'the queue'} to ${reassigned.agent}`
+      : ticket.assigned_to ? `still with ${ticket.assigned_to}` : 'no agent available';
+    await this.notify(
+      ticket,
+      `🔺 Re-escalated ${ticket.ticket_id} to ${urgency}: ${clock.replace('_', ' ')} due at ${parseTimestamp(dueAt).toISOString()}, ${owner}`
+    );
+    logger.warn({ ticketId: ticket.ticket_id, clock, urgency, reassignedTo: reassigned?.agent }, 'Escalation ticket re-escalated');
+  }
+
+  /**
+   * Log an SLA event once per ticket and clock; false when already logged
+   */
+  private async recordSlaEvent(ticket: SlaTicketRow, clock: SlaClock, event: SlaEvent): Promise<boolean> {
+    const { changes } = await this.db.run(`
+      INSERT INTO sla_events (ticket_id, clock, event, urgency_level, assigned_to)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (ticket_id, clock, event) DO NOTHING
+    `, [ticket.id, clock, event, ticket.urgency_level, ticket.assigned_to]);
+    return changes > 0;
+  }
+
+  /**
+   * Tell the support team: ticket notes, the desk transcript and the alerts channel
+   */
+  private async notify(ticket: SlaTicketRow, message: string): Promise<void> {
+    await this.addNote(ticket.id, message, 'sla');
+
+    if (ticket.thread_id) {
+      const { getAgentDesk } = await import('./agentDesk');
+      await getAgentDesk().recordMessage({ threadId: ticket.thread_id, role: 'system', content: message, internal: true });
+    }
+
+    try {
+      await this.alert(message);
+    } catch (error) {
+      logger.error({ error, ticketId: ticket.ticket_id }, 'Failed to send desk alert');
+    }
+  }
+
+  private async addNote(ticketDbId: number, text: string, noteType: string = 'internal'): Promise<void> {
+    await this.db.run(`
+      INSERT INTO escalation_notes (ticket_id, note_type, note_text, author)
+      VALUES (?, ?, ?, 'system')
+    `, [ticketDbId, noteType, text]);
+  }
+
+  private async openTicketCounts(): Promise<Map<string, number>> {
+    const { rows } = await this.db.query<{ assigned_to: string; open_tickets: number | string }>(`
+      SELECT assigned_to, COUNT(*) AS open_tickets FROM escalation_tickets
+      WHERE status IN ('assigned', 'in_progress') AND assigned_to IS NOT NULL
+      GROUP BY assigned_to
+    `);
+    return new Map(rows.map((row) => [row.assigned_to, Number(row.open_tickets)]));
+  }
+}
+
+// Singleton instance
+let ticketRoutingInstance: TicketRoutingService | null = null;
+
+export function getTicketRouting(): TicketRoutingService {
+  if (!ticketRoutingInstance) {
+    ticketRoutingInstance = new TicketRoutingService();
+  }
+  return ticketRoutingInstance;
+}
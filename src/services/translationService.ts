@@ -1,11 +1,7 @@
 import { franc } from 'franc';
-import { OpenAI } from 'openai';
 import NodeCache from 'node-cache';
 import { logger } from '../utils/logger.js';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { getModelProviderRegistry } from './modelProvider';
 
 // Cache translations for 1 hour (reduces API costs)
 const translationCache = new NodeCache({ stdTTL: 3600 });
@@ -158,8 +154,7 @@ export async function translateText(
       ar: 'Arabic',
     };
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini', // Cost-effective for translations
+    const response = await getModelProviderRegistry().complete({ task: 'translation' }, {
       messages: [
         {
           role: 'system',
@@ -184,7 +179,7 @@ Translate naturally but accurately - this is customer support communication.`,
       temperature: 0.3, // Lower temperature for consistent translations
     });
 
-    const translatedText = response.choices[0]?.message?.content?.trim() || text;
+    const translatedText = response.text.trim() || text;
 
     // Cache the result
     translationCache.set(cacheKey, translatedText);
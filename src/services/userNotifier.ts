@@ -0,0 +1,115 @@
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle } from 'discord.js';
+import { discordClient } from '../triggers/discordTriggers';
+import { db, parseJsonColumn } from '../db';
+import { logger } from '../utils/logger';
+import { getLanguageService, SupportedLanguage } from './languageService';
+
+/**
+ * User Notifier
+ *
+ * Delivers outbound messages (receipts, outreach) to a user's own channel.
+ * Charging backends identify users by their CPMS user id; the Discord
+ * account is linked through user_profiles.preferences.discordUserId.
+ * Users without a linked channel are skipped and logged.
+ */
+
+export interface UserRecipient {
+  userId: string;
+  discordUserId: string;
+  language: SupportedLanguage;
+}
+
+export interface DeliveryResult {
+  delivered: boolean;
+  channel?: 'discord';
+  channelId?: string; // DM channel, used to continue the conversation thread
+  messageId?: string;
+  error?: string;
+}
+
+/**
+ * Quick-reply action rendered as a button on channels that support it
+ */
+export interface MessageAction {
+  id: string;
+  label: string;
+  style?: 'primary' | 'secondary' | 'success' | 'danger';
+}
+
+const BUTTON_STYLES: Record<NonNullable<MessageAction['style']>, ButtonStyle> = {
+  primary: ButtonStyle.Primary,
+  secondary: ButtonStyle.Secondary,
+  success: ButtonStyle.Success,
+  danger: ButtonStyle.Danger,
+};
+
+export class UserNotifier {
+  /**
+   * Resolve where and in which language to reach a user
+   */
+  async resolveRecipient(userId: string): Promise<UserRecipient | null> {
+    try {
+      const profile = await db.get<{ user_id: string; preferred_language?: string; preferences?: string }>(
+        `SELECT user_id, preferred_language, preferences FROM user_profiles WHERE user_id = ?`,
+        [userId]
+      );
+
+      const preferences = parseJsonColumn<Record<string, any>>(profile?.preferences, {});
+      const discordUserId: string | undefined = preferences.discordUserId;
+
+      if (!discordUserId) {
+        logger.debug({ userId }, 'No linked Discord account for user');
+        return null;
+      }
+
+      const language = await getLanguageService().getUserLanguage(discordUserId);
+
+      return { userId, discordUserId, language };
+    } catch (error) {
+      logger.error({ error, userId }, 'Failed to resolve message recipient');
+      return null;
+    }
+  }
+
+  /**
+   * Send a direct message to a recipient
+   */
+  async sendDirectMessage(
+    recipient: UserRecipient,
+    content: string,
+    actions: MessageAction[] = []
+  ): Promise<DeliveryResult> {
+    try {
+      if (!discordClient.isReady()) {
+        return { delivered: false, error: 'Discord client is not ready' };
+      }
+
+      const components = actions.length > 0
+        ? [
+            new ActionRowBuilder<ButtonBuilder>().addComponents(
+              actions.map((action) =>
+                new ButtonBuilder()
+                  .setCustomId(action.id)
+                  .setLabel(action.label)
+                  .setStyle(BUTTON_STYLES[action.style || 'secondary'])
+              )
+            ),
+          ]
+        : [];
+
+      const user = await discordClient.users.fetch(recipient.discordUserId);
+      const message = await user.send({ content, components });
+
+      logger.info({ userId: recipient.userId, discordUserId: recipient.discordUserId }, 'Direct message sent');
+      return { delivered: true, channel: 'discord', channelId: message.channelId, messageId: message.id };
+    } catch (error) {
+      logger.error({ error, userId: recipient.userId }, 'Failed to send direct message');
+      return {
+        delivered: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+}
+
+export const userNotifier = new UserNotifier();
@@ -1,133 +1,241 @@
-import { Pinecone } from '@pinecone-database/pinecone';
-import { OpenAIEmbeddings } from '@langchain/openai';
-import { PineconeStore } from '@langchain/pinecone';
+import { createHash } from 'crypto';
 import { Document } from '@langchain/core/documents';
+import { Embeddings } from '@langchain/core/embeddings';
+import { getModelProviderRegistry } from './modelProvider';
 import { logger } from '../utils/logger';
 
 /**
- * Vector Store Service using Pinecone
- * 
- * Provides semantic search capabilities for the knowledge base
- * using OpenAI embeddings and Pinecone vector database.
+ * Vector Store Service
+ *
+ * Provides semantic search capabilities for the knowledge base using the
+ * embeddings task's models (see modelProvider) and a vector store backend:
+ * - pinecone: Pinecone serverless index (PINECONE_API_KEY)
+ * - local: the app database (vector_documents), for dev machines and
+ *   air-gapped deployments
+ *
+ * VECTOR_STORE_BACKEND picks the backend; by default Pinecone when it has an
+ * API key, otherwise local. Documents live in namespaces and can be filtered
+ * by language, category and manufacturer. copyVectorStore() moves an index
+ * between backends without re-embedding (npm run vector-store -- migrate).
  */
 
+export type VectorStoreBackend = 'pinecone' | 'local';
+
+export const VECTOR_FILTER_FIELDS = ['language', 'category', 'manufacturer'] as const;
+export type VectorFilterField = (typeof VECTOR_FILTER_FIELDS)[number];
+
+/**
+ * Metadata filter: every given field must match one of its values
+ */
+export type VectorFilter = Partial<Record<VectorFilterField, string | string[]>>;
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  content: string;
+  metadata: Record<string, unknown>;
+}
+
+export interface VectorMatch extends VectorRecord {
+  score: number; // Cosine similarity
+}
+
+export interface VectorNamespace {
+  name: string;
+  recordCount: number;
+}
+
+export interface VectorStoreStats {
+  backend: VectorStoreBackend;
+  dimensions: number | null;
+  totalRecords: number;
+  namespaces: VectorNamespace[];
+}
+
+export interface VectorPage {
+  records: VectorRecord[];
+  cursor?: string; // Undefined on the last page
+}
+
+export interface VectorStore {
+  readonly backend: VectorStoreBackend;
+
+  /** Create the index / check the table for vectors of this size */
+  initialize(dimensions: number): Promise<void>;
+
+  /** Insert or replace records by id */
+  upsert(namespace: string, records: VectorRecord[]): Promise<void>;
+
+  query(namespace: string, vector: number[], options: { topK: number; filter?: VectorFilter }): Promise<VectorMatch[]>;
+
+  /** Page through a namespace with its vectors (for copying) */
+  list(namespace: string, options?: { cursor?: string; limit?: number }): Promise<VectorPage>;
+
+  listNamespaces(): Promise<VectorNamespace[]>;
+  deleteNamespace(namespace: string): Promise<void>;
+  stats(): Promise<VectorStoreStats>;
+}
+
+export interface SearchOptions {
+  namespace?: string;
+  filter?: VectorFilter;
+}
+
+export interface CopyResult {
+  namespaces: VectorNamespace[]; // Records copied per namespace
+  totalRecords: number;
+}
+
+/**
+ * LangChain embeddings backed by the model provider registry
+ */
+class RegistryEmbeddings extends Embeddings {
+  constructor() {
+    super({});
+  }
+
+  embedDocuments(documents: string[]): Promise<number[][]> {
+    return getModelProviderRegistry().embed(documents);
+  }
+
+  async embedQuery(document: string): Promise<number[]> {
+    const [embedding] = await getModelProviderRegistry().embed([document]);
+    return embedding;
+  }
+}
+
+const EMBEDDING_BATCH_SIZE = 100;
+const COPY_BATCH_SIZE = 100;
+
+/**
+ * Stable id for a document, so ingesting the same content again replaces it
+ */
+export function documentId(document: Document): string {
+  return createHash('sha256')
+    .update(`${document.metadata?.source ?? ''}\n${document.pageContent}`)
+    .digest('hex')
+    .slice(0, 32);
+}
+
+/**
+ * The filter's values as lists, without empty fields
+ */
+export function normalizeFilter(filter?: VectorFilter): Array<[VectorFilterField, string[]]> {
+  return VECTOR_FILTER_FIELDS
+    .map((field): [VectorFilterField, string[]] => {
+      const value = filter?.[field];
+      return [field, value === undefined ? [] : Array.isArray(value) ? value : [value]];
+    })
+    .filter(([, values]) => values.length > 0);
+}
+
+export function resolveVectorStoreBackend(env: NodeJS.ProcessEnv = process.env): VectorStoreBackend {
+  const backend = env.VECTOR_STORE_BACKEND;
+  if (backend === 'pinecone' || backend === 'local') return backend;
+  if (backend) {
+    throw new Error(`Unknown VECTOR_STORE_BACKEND: ${backend} (expected pinecone or local)`);
+  }
+  return env.PINECONE_API_KEY ? 'pinecone' : 'local';
+}
+
+export async function createVectorStore(backend: VectorStoreBackend = resolveVectorStoreBackend()): Promise<VectorStore> {
+  // Loaded on demand so the local backend works without the Pinecone client
+  if (backend === 'pinecone') {
+    const { PineconeVectorStore } = await import('./pineconeVectorStore');
+    return new PineconeVectorStore();
+  }
+  const { LocalVectorStore } = await import('./localVectorStore');
+  return new LocalVectorStore();
+}
+
+/**
+ * Copy namespaces (default: all) from one backend to another. Vectors are
+ * copied as they are, so both sides must use the same embeddings model.
+ */
+export async function copyVectorStore(
+  source: VectorStore,
+  target: VectorStore,
+  options: { namespaces?: string[]; clear?: boolean; batchSize?: number } = {}
+): Promise<CopyResult> {
+  const sourceStats = await source.stats();
+  if (sourceStats.dimensions) {
+    await target.initialize(sourceStats.dimensions);
+  }
+
+  const names = options.namespaces ?? sourceStats.namespaces.map((namespace) => namespace.name);
+  const copied: VectorNamespace[] = [];
+
+  for (const name of names) {
+    if (options.clear) {
+      await target.deleteNamespace(name);
+    }
+
+    let recordCount = 0;
+    let cursor: string | undefined;
+    do {
+      const page = await source.list(name, { cursor, limit: options.batchSize ?? COPY_BATCH_SIZE });
+      if (page.records.length > 0) {
+        await target.upsert(name, page.records);
+        recordCount += page.records.length;
+      }
+      cursor = page.cursor;
+    } while (cursor);
+
+    copied.push({ name, recordCount });
+    logger.info({ from: source.backend, to: target.backend, namespace: name, recordCount }, 'Vector namespace copied');
+  }
+
+  return { namespaces: copied, totalRecords: copied.reduce((sum, namespace) => sum + namespace.recordCount, 0) };
+}
+
 export class VectorStoreService {
-  private pinecone: Pinecone;
-  private embeddings: OpenAIEmbeddings;
-  private indexName: string;
+  private embeddings: Embeddings;
   private namespace: string;
+  private store: Promise<VectorStore>;
 
-  constructor() {
-    // Initialize Pinecone client
-    this.pinecone = new Pinecone({
-      apiKey: process.env.PINECONE_API_KEY || '',
-    });
-
-    // Initialize OpenAI embeddings
-    this.embeddings = new OpenAIEmbeddings({
-      openAIApiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
-      modelName: 'text-embedding-3-large', // 3072 dimensions, best quality
-    });
-
-    this.indexName = process.env.PINECONE_INDEX_NAME || 'edge-control-kb';
+  constructor(store?: VectorStore | Promise<VectorStore>, embeddings?: Embeddings) {
+    this.store = Promise.resolve(store ?? createVectorStore());
+    this.embeddings = embeddings ?? new RegistryEmbeddings();
     this.namespace = process.env.PINECONE_NAMESPACE || 'default';
 
-    logger.info('VectorStoreService initialized', {
-      indexName: this.indexName,
-      namespace: this.namespace,
-    });
+    logger.info({ namespace: this.namespace }, 'VectorStoreService initialized');
   }
 
-  /**
-   * Initialize Pinecone index (create if doesn't exist)
-   */
-  async initialize(): Promise<void> {
-    try {
-      const indexList = await this.pinecone.listIndexes();
-      const indexExists = indexList.indexes?.some(
-        (index) => index.name === this.indexName
-      );
-
-      if (!indexExists) {
-        logger.info('Creating Pinecone index...', { indexName: this.indexName });
-        
-        await this.pinecone.createIndex({
-          name: this.indexName,
-          dimension: 3072, // text-embedding-3-large dimension
-          metric: 'cosine',
-          spec: {
-            serverless: {
-              cloud: 'aws',
-              region: 'us-east-1',
-            },
-          },
-        });
-
-        logger.info('Pinecone index created', { indexName: this.indexName });
-        
-        // Wait for index to be ready
-        await this.waitForIndexReady();
-      } else {
-        logger.info('Pinecone index already exists', { indexName: this.indexName });
-      }
-    } catch (error) {
-      logger.error('Failed to initialize Pinecone index', { error });
-      throw error;
-    }
+  async getBackend(): Promise<VectorStore> {
+    return this.store;
   }
 
   /**
-   * Wait for Pinecone index to be ready
+   * Prepare the backend (creates the Pinecone index if it doesn't exist)
    */
-  private async waitForIndexReady(): Promise<void> {
-    logger.info('Waiting for index to be ready...');
-    let attempts = 0;
-    const maxAttempts = 30;
-
-    while (attempts < maxAttempts) {
-      try {
-        const index = this.pinecone.Index(this.indexName);
-        const stats = await index.describeIndexStats();
-        
-        if (stats) {
-          logger.info('Index is ready', { stats });
-          return;
-        }
-      } catch (error) {
-        // Index not ready yet
-      }
-
-      attempts++;
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-    }
-
-    throw new Error('Timeout waiting for Pinecone index to be ready');
+  async initialize(): Promise<void> {
+    const store = await this.store;
+    await store.initialize(getModelProviderRegistry().embeddingDimensions);
+    logger.info({ backend: store.backend }, 'Vector store initialized');
   }
 
   /**
    * Add documents to vector store
    */
-  async addDocuments(documents: Document[]): Promise<void> {
+  async addDocuments(documents: Document[], namespace: string = this.namespace): Promise<void> {
     try {
-      const index = this.pinecone.Index(this.indexName);
-
-      const vectorStore = await PineconeStore.fromDocuments(
-        documents,
-        this.embeddings,
-        {
-          pineconeIndex: index,
-          namespace: this.namespace,
-        }
-      );
-
-      logger.info('Documents added to vector store', {
-        count: documents.length,
-        namespace: this.namespace,
-      });
-
-      return;
+      const store = await this.store;
+
+      for (let start = 0; start < documents.length; start += EMBEDDING_BATCH_SIZE) {
+        const batch = documents.slice(start, start + EMBEDDING_BATCH_SIZE);
+        const vectors = await this.embeddings.embedDocuments(batch.map((document) => document.pageContent));
+
+        await store.upsert(namespace, batch.map((document, index) => ({
+          id: documentId(document),
+          values: vectors[index],
+          content: document.pageContent,
+          metadata: document.metadata ?? {},
+        })));
+      }
+
+      logger.info({ backend: store.backend, count: documents.length, namespace }, 'Documents added to vector store');
     } catch (error) {
-      logger.error('Failed to add documents', { error });
+      logger.error({ error, namespace }, 'Failed to add documents');
       throw error;
     }
   }
@@ -135,31 +243,9 @@ export class VectorStoreService {
   /**
    * Semantic search for relevant documents
    */
-  async search(query: string, topK: number = 5): Promise<Document[]> {
-    try {
-      const index = this.pinecone.Index(this.indexName);
-
-      const vectorStore = await PineconeStore.fromExistingIndex(
-        this.embeddings,
-        {
-          pineconeIndex: index,
-          namespace: this.namespace,
-        }
-      );
-
-      // Perform similarity search
-      const results = await vectorStore.similaritySearch(query, topK);
-
-      logger.info('Semantic search completed', {
-        query,
-        resultsCount: results.length,
-      });
-
-      return results;
-    } catch (error) {
-      logger.error('Semantic search failed', { error, query });
-      throw error;
-    }
+  async search(query: string, topK: number = 5, options: SearchOptions = {}): Promise<Document[]> {
+    const results = await this.searchWithScores(query, topK, options);
+    return results.map(([document]) => document);
   }
 
   /**
@@ -167,46 +253,51 @@ export class VectorStoreService {
    */
   async searchWithScores(
     query: string,
-    topK: number = 5
+    topK: number = 5,
+    options: SearchOptions = {}
   ): Promise<[Document, number][]> {
-    try {
-      const index = this.pinecone.Index(this.indexName);
-
-      const vectorStore = await PineconeStore.fromExistingIndex(
-        this.embeddings,
-        {
-          pineconeIndex: index,
-          namespace: this.namespace,
-        }
-      );
+    const namespace = options.namespace ?? this.namespace;
 
-      // Perform similarity search with scores
-      const results = await vectorStore.similaritySearchWithScore(query, topK);
+    try {
+      const store = await this.store;
+      const vector = await this.embeddings.embedQuery(query);
+      const matches = await store.query(namespace, vector, { topK, filter: options.filter });
 
-      logger.info('Semantic search with scores completed', {
+      logger.info({
+        backend: store.backend,
         query,
-        resultsCount: results.length,
-        scores: results.map(([_, score]) => score),
-      });
-
-      return results;
+        namespace,
+        filter: options.filter,
+        resultsCount: matches.length,
+        scores: matches.map((match) => match.score),
+      }, 'Semantic search completed');
+
+      return matches.map((match) => [
+        new Document({ id: match.id, pageContent: match.content, metadata: match.metadata }),
+        match.score,
+      ]);
     } catch (error) {
-      logger.error('Semantic search with scores failed', { error, query });
+      logger.error({ error, query, namespace }, 'Semantic search failed');
       throw error;
     }
   }
 
+  async listNamespaces(): Promise<VectorNamespace[]> {
+    const store = await this.store;
+    return store.listNamespaces();
+  }
+
   /**
    * Delete all documents from namespace
    */
-  async deleteNamespace(): Promise<void> {
+  async deleteNamespace(namespace: string = this.namespace): Promise<void> {
     try {
-      const index = this.pinecone.Index(this.indexName);
-      await index.namespace(this.namespace).deleteAll();
+      const store = await this.store;
+      await store.deleteNamespace(namespace);
 
-      logger.info('Namespace cleared', { namespace: this.namespace });
+      logger.info({ backend: store.backend, namespace }, 'Namespace cleared');
     } catch (error) {
-      logger.error('Failed to delete namespace', { error });
+      logger.error({ error, namespace }, 'Failed to delete namespace');
       throw error;
     }
   }
@@ -214,17 +305,9 @@ export class VectorStoreService {
   /**
    * Get index statistics
    */
-  async getStats() {
-    try {
-      const index = this.pinecone.Index(this.indexName);
-      const stats = await index.describeIndexStats();
-
-      logger.info('Index stats retrieved', { stats });
-      return stats;
-    } catch (error) {
-      logger.error('Failed to get index stats', { error });
-      throw error;
-    }
+  async getStats(): Promise<VectorStoreStats> {
+    const store = await this.store;
+    return store.stats();
   }
 }
 
@@ -3,13 +3,9 @@
  * EV model database, compatibility checks, charging rate calculations
  */
 
-import { Pool } from 'pg';
+import { db } from '../db';
 import { generateId } from '../utils/idGenerator';
-import logger from '../utils/logger';
-
-const pool = new Pool({
-  connectionString: process.env.DATABASE_URL
-});
+import { logger } from '../utils/logger';
 
 // Types
 export interface EVModel {
@@ -59,7 +55,7 @@ export class VehicleCompatibilityService {
     try {
       const searchPattern = `%${query.toLowerCase()}%`;
       
-      const result = await pool.query(`
+      const result = await db.query(`
         SELECT 
           vehicle_id as "vehicleId",
           make, model, year, trim,
@@ -79,7 +75,7 @@ export class VehicleCompatibilityService {
       return result.rows;
       
     } catch (error) {
-      logger.error('Error searching EV models:', error);
+      logger.error({ error }, 'Error searching EV models');
       return [];
     }
   }
@@ -89,7 +85,7 @@ export class VehicleCompatibilityService {
    */
   async getEVModel(vehicleId: string): Promise<EVModel | null> {
     try {
-      const result = await pool.query(`
+      const result = await db.query(`
         SELECT 
           vehicle_id as "vehicleId",
           make, model, year, trim,
@@ -106,7 +102,7 @@ export class VehicleCompatibilityService {
       return result.rows[0] || null;
       
     } catch (error) {
-      logger.error('Error getting EV model:', error);
+      logger.error({ error }, 'Error getting EV model');
       return null;
     }
   }
@@ -130,7 +126,7 @@ export class VehicleCompatibilityService {
       }
       
       // Get charger details (from existing charger_models table)
-      const chargerResult = await pool.query(`
+      const chargerResult = await db.query(`
         SELECT 
           charger_model_id, manufacturer, model_name,
           ac_power_kw, dc_power_kw, connector_types
@@ -220,7 +216,7 @@ export class VehicleCompatibilityService {
       };
       
       // Log check
-      await pool.query(`
+      await db.query(`
         INSERT INTO compatibility_checks (
           check_id, vehicle_id, charger_model_id, session_id, discord_user_id,
           is_compatible, compatibility_score, ac_compatible, dc_compatible,
@@ -242,7 +238,7 @@ export class VehicleCompatibilityService {
       return result;
       
     } catch (error) {
-      logger.error('Error checking compatibility:', error);
+      logger.error({ error }, 'Error checking compatibility');
       return this.createIncompatibleResult('Error checking compatibility');
     }
   }
@@ -254,7 +250,7 @@ export class VehicleCompatibilityService {
     try {
       if (!vehicleConnector || !chargerConnector) return false;
       
-      const result = await pool.query(`
+      const result = await db.query(`
         SELECT is_compatible
         FROM connector_compatibility
         WHERE vehicle_connector = $1 AND charger_connector = $2
@@ -263,7 +259,7 @@ export class VehicleCompatibilityService {
       return result.rows[0]?.is_compatible || false;
       
     } catch (error) {
-      logger.error('Error checking connector compatibility:', error);
+      logger.error({ error }, 'Error checking connector compatibility');
       return false;
     }
   }
@@ -273,7 +269,7 @@ export class VehicleCompatibilityService {
    */
   async getOEMQuirks(make: string, model?: string, year?: number): Promise<OEMQuirk[]> {
     try {
-      const result = await pool.query(`
+      const result = await db.query(`
         SELECT 
           make, title, description, severity, workaround, recommendation
         FROM oem_charging_quirks
@@ -288,7 +284,7 @@ export class VehicleCompatibilityService {
       return result.rows;
       
     } catch (error) {
-      logger.error('Error getting OEM quirks:', error);
+      logger.error({ error }, 'Error getting OEM quirks');
       return [];
     }
   }
@@ -327,14 +323,14 @@ export class VehicleCompatibilityService {
    */
   async getPopularEVModels(limit: number = 20): Promise<any[]> {
     try {
-      const result = await pool.query(`
+      const result = await db.query(`
         SELECT * FROM popular_ev_models LIMIT $1
       `, [limit]);
       
       return result.rows;
       
     } catch (error) {
-      logger.error('Error getting popular EV models:', error);
+      logger.error({ error }, 'Error getting popular EV models');
       return [];
     }
   }
@@ -344,7 +340,7 @@ export class VehicleCompatibilityService {
    */
   async getCompatibilityStats(): Promise<any[]> {
     try {
-      const result = await pool.query(`
+      const result = await db.query(`
         SELECT * FROM compatibility_check_stats
         ORDER BY date DESC
         LIMIT 30
@@ -353,7 +349,7 @@ export class VehicleCompatibilityService {
       return result.rows;
       
     } catch (error) {
-      logger.error('Error getting compatibility stats:', error);
+      logger.error({ error }, 'Error getting compatibility stats');
       return [];
     }
   }
@@ -0,0 +1,415 @@
+import { getDb, type Database } from '../db';
+import { logger } from '../utils/logger';
+import { generateUUID } from '../utils/idGenerator';
+import type { SupportedLanguage } from './languageService';
+import type { StationEvent } from './stationMonitoring';
+import type { AnomalyResult, SessionData } from './predictiveDetectionService';
+import type { DeliveryResult, UserRecipient } from './userNotifier';
+import type { ChargeFailure, OutreachSummary, OutreachTrigger } from './chargeFailureOutreach';
+
+/**
+ * Webhook Event Handlers
+ *
+ * Typed pipeline that turns charging webhook events into actions:
+ * - session.stopped      → receipt to the user's channel
+ * - chargepoint.faulted  → maintenance_alerts row + Discord alerts channel ping
+ *                          + outreach to drivers charging there
+ * - session.failed       → predictive anomaly detection + outreach to the driver
+ * - authorization.failed → cross-reference with rfid_cards / rfid_usage_log
+ *
+ * Side effects go through WebhookHandlerDeps so each handler can be run
+ * against recorded payloads with fakes (see tests/test-webhook-handlers.ts).
+ */
+
+/**
+ * Ampeco Webhook Event payload
+ */
+export interface AmpecoWebhookEvent {
+  id?: string; // Ampeco's event id (routes/webhooks fills in the idempotency key when missing)
+  notification: string;
+  chargePointId?: number;
+  evseId?: number;
+  sessionId?: string;
+  userId?: number | string;
+  data?: any;
+  timestamp?: string;
+}
+
+export interface WebhookHandlerResult {
+  action: string;
+  details?: Record<string, any>;
+}
+
+export interface WebhookHandlerDeps {
+  db: Database;
+  resolveRecipient(userId: string): Promise<UserRecipient | null>;
+  sendDirectMessage(recipient: UserRecipient, content: string): Promise<DeliveryResult>;
+  sendStationAlert(event: StationEvent): Promise<boolean>;
+  detectAnomalies(data: SessionData): Promise<AnomalyResult[]>;
+  reachOutAboutFailure(failure: ChargeFailure): Promise<OutreachSummary>;
+}
+
+export type WebhookEventHandler = (
+  event: AmpecoWebhookEvent,
+  deps: WebhookHandlerDeps
+) => Promise<WebhookHandlerResult>;
+
+// Denials of the same card within 24h before we flag it
+const REPEATED_DENIAL_THRESHOLD = 3;
+
+const RECEIPT_TEMPLATES: Record<SupportedLanguage, (r: Record<string, string>) => string> = {
+  he: (r) => `🧾 **קבלה על טעינה**\nעמדה: ${r.station}\nמשך: ${r.duration}\nאנרגיה: ${r.energy}\nעלות: ${r.cost}\nמזהה הפעלה: ${r.sessionId}\nתודה שטענת עם Edge Control!`,
+  en: (r) => `🧾 **Charging receipt**\nStation: ${r.station}\nDuration: ${r.duration}\nEnergy: ${r.energy}\nCost: ${r.cost}\nSession ID: ${r.sessionId}\nThank you for charging with Edge Control!`,
+  ru: (r) => `🧾 **Чек за зарядку**\nСтанция: ${r.station}\nДлительность: ${r.duration}\nЭнергия: ${r.energy}\nСтоимость: ${r.cost}\nID сессии: ${r.sessionId}\nСпасибо, что заряжаетесь с Edge Control!`,
+  ar: (r) => `🧾 **إيصال الشحن**\nالمحطة: ${r.station}\nالمدة: ${r.duration}\nالطاقة: ${r.energy}\nالتكلفة: ${r.cost}\nرقم الجلسة: ${r.sessionId}\nشكراً لشحنك مع Edge Control!`,
+};
+
+/**
+ * Build the receipt text for a stopped session in the given language
+ */
+export function formatReceipt(event: AmpecoWebhookEvent, language: SupportedLanguage): string {
+  const data = event.data || {};
+  const energyKwh = data.energy ?? data.energyConsumed ?? data.kwh;
+  const cost = data.amount ?? data.cost ?? data.totalAmount;
+  const start = data.startedAt || data.startTime;
+  const end = data.stoppedAt || data.endTime || event.timestamp;
+
+  let duration = '-';
+  if (start && end) {
+    const minutes = Math.max(0, Math.round((new Date(end).getTime() - new Date(start).getTime()) / 60000));
+    duration = `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  }
+
+  return RECEIPT_TEMPLATES[language]({
+    station: String(data.chargePointName || data.stationName || event.chargePointId || '-'),
+    duration,
+    energy: energyKwh !== undefined ? `${Number(energyKwh).toFixed(2)} kWh` : '-',
+    cost: cost !== undefined ? `${Number(cost).toFixed(2)} ${data.currency || 'ILS'}` : '-',
+    sessionId: String(event.sessionId || data.sessionId || '-'),
+  });
+}
+
+/**
+ * Describe a failure webhook for the outreach service
+ */
+export function toChargeFailure(event: AmpecoWebhookEvent, trigger: OutreachTrigger): ChargeFailure {
+  const data = event.data || {};
+  const userId = event.userId ?? data.userId;
+
+  return {
+    trigger,
+    eventId: event.id,
+    stationId: String(event.chargePointId),
+    connectorId: event.evseId,
+    sessionId: event.sessionId || data.sessionId,
+    userId: userId !== undefined ? String(userId) : undefined,
+    idTag: data.idTag || data.rfid || data.authorizationId,
+    userEmail: data.userEmail || data.email,
+    reason: data.reason || data.failureReason || data.errorCode || data.error_code,
+    occurredAt: event.timestamp ? new Date(event.timestamp) : new Date(),
+  };
+}
+
+/**
+ * Run outreach without failing the webhook; outreach rows dedupe replays
+ */
+async function reachOut(
+  event: AmpecoWebhookEvent,
+  trigger: OutreachTrigger,
+  deps: WebhookHandlerDeps
+): Promise<Record<string, any>> {
+  try {
+    const summary = await deps.reachOutAboutFailure(toChargeFailure(event, trigger));
+    return {
+      contacted: summary.contacted,
+      owners: summary.owners,
+      statuses: summary.attempts.map((a) => a.status),
+    };
+  } catch (error) {
+    logger.error({ error, eventType: event.notification, chargePointId: event.chargePointId }, 'Charge failure outreach failed');
+    return { error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * session.stopped → receipt to the user's channel
+ */
+export const handleSessionStopped: WebhookEventHandler = async (event, deps) => {
+  const userId = event.userId ?? event.data?.userId;
+  if (!userId) {
+    return { action: 'receipt_skipped', details: { reason: 'no_user' } };
+  }
+
+  const recipient = await deps.resolveRecipient(String(userId));
+  if (!recipient) {
+    return { action: 'receipt_skipped', details: { reason: 'no_channel', userId: String(userId) } };
+  }
+
+  const receipt = formatReceipt(event, recipient.language);
+  const delivery = await deps.sendDirectMessage(recipient, receipt);
+
+  if (!delivery.delivered) {
+    // Throwing marks the webhook row failed so it can be replayed
+    throw new Error(`Receipt delivery failed: ${delivery.error || 'unknown error'}`);
+  }
+
+  return {
+    action: 'receipt_sent',
+    details: { userId: recipient.userId, channel: delivery.channel, language: recipient.language },
+  };
+};
+
+/**
+ * chargepoint.faulted → maintenance alert + Discord alerts channel
+ */
+export const handleChargePointFaulted: WebhookEventHandler = async (event, deps) => {
+  const stationId = event.chargePointId?.toString();
+  if (!stationId) {
+    throw new Error('chargepoint.faulted event without chargePointId');
+  }
+
+  const connectorId = event.evseId?.toString() || null;
+  const errorCode = event.data?.errorCode || event.data?.error_code;
+  const errorMessage = event.data?.errorMessage || event.data?.info || event.data?.vendorErrorCode;
+
+  // One open fault alert per station/connector; repeated fault webhooks don't stack up
+  const existing = await deps.db.get<{ alert_id: string }>(`
+    SELECT alert_id FROM maintenance_alerts
+    WHERE station_id = ? AND COALESCE(connector_id, '') = COALESCE(?, '')
+      AND alert_type = 'fault' AND status IN ('pending', 'acknowledged', 'scheduled')
+  `, [stationId, connectorId]);
+
+  if (existing) {
+    return { action: 'maintenance_alert_exists', details: { alertId: existing.alert_id, stationId } };
+  }
+
+  const alertId = generateUUID();
+  const description = errorCode
+    ? `Charge point reported fault ${errorCode}${errorMessage ? `: ${errorMessage}` : ''}`
+    : 'Charge point reported a fault';
+
+  await deps.db.run(`
+    INSERT INTO maintenance_alerts (
+      alert_id, station_id, connector_id, alert_type, severity, title, description,
+      recommended_action, notification_channels
+    ) VALUES (?, ?, ?, 'fault', 'critical', ?, ?, 'inspect', ?)
+  `, [
+    alertId,
+    stationId,
+    connectorId,
+    `Station ${stationId} faulted`,
+    description,
+    JSON.stringify(['discord']),
+  ]);
+
+  const notified = await deps.sendStationAlert({
+    stationId,
+    eventType: 'error',
+    severity: 'critical',
+    message: description,
+    metadata: { errorCode, errorMessage, connectorId, alertId, source: 'webhook' },
+  });
+
+  if (notified) {
+    await deps.db.run(`
+      UPDATE maintenance_alerts
+      SET notification_sent = ${deps.db.sql.bool(true)}, notification_sent_at = CURRENT_TIMESTAMP
+      WHERE alert_id = ?
+    `, [alertId]);
+  }
+
+  const outreach = await reachOut(event, 'chargepoint.faulted', deps);
+
+  return { action: 'maintenance_alert_created', details: { alertId, stationId, notified, outreach } };
+};
+
+/**
+ * session.failed → predictive anomaly detection
+ */
+export const handleSessionFailed: WebhookEventHandler = async (event, deps) => {
+  const userId = event.userId ?? event.data?.userId;
+  const outreach = event.chargePointId !== undefined
+    ? await reachOut(event, 'session.failed', deps)
+    : { skipped: 'no_station' };
+
+  if (!userId) {
+    return { action: 'anomaly_check_skipped', details: { reason: 'no_user', outreach } };
+  }
+
+  const now = event.timestamp ? new Date(event.timestamp) : new Date();
+  const reason = event.data?.reason || event.data?.failureReason || 'unknown';
+
+  const anomalies = await deps.detectAnomalies({
+    sessionId: String(event.sessionId || event.id || `webhook-${now.getTime()}`),
+    userId: String(userId),
+    messages: [],
+    toolsUsed: [],
+    errorsEncountered: [String(reason)],
+    stationsAccessed: event.chargePointId ? [event.chargePointId.toString()] : [],
+    actionsPerformed: ['session.failed'],
+    sessionStart: event.data?.startedAt ? new Date(event.data.startedAt) : now,
+    currentTime: now,
+  });
+
+  return {
+    action: 'anomalies_checked',
+    details: {
+      userId: String(userId),
+      reason,
+      anomalies: anomalies.map((a) => ({ type: a.anomalyType, severity: a.severity })),
+      outreach,
+    },
+  };
+};
+
+/**
+ * authorization.failed → cross-reference the card with rfid_cards / rfid_usage_log
+ */
+export const handleAuthorizationFailed: WebhookEventHandler = async (event, deps) => {
+  const idTag = event.data?.idTag || event.data?.rfid || event.data?.authorizationId;
+  if (!idTag) {
+    return { action: 'rfid_check_skipped', details: { reason: 'no_id_tag' } };
+  }
+
+  const card = await deps.db.get<{ card_id: string; status: string; expiry_date?: string; user_id?: number }>(
+    `SELECT card_id, status, expiry_date, user_id FROM rfid_cards WHERE card_id = ?`,
+    [idTag]
+  );
+
+  if (!card) {
+    return { action: 'rfid_cross_referenced', details: { idTag, diagnosis: 'unknown_card' } };
+  }
+
+  // Record the denial (rfid_usage_log references rfid_cards, so only for known
+  // cards), once per webhook event so retries and replays don't count again
+  await deps.db.run(`
+    INSERT INTO rfid_usage_log (card_id, charge_point_id, evse_id, session_id, action, success, error_message, webhook_event_id)
+    VALUES (?, ?, ?, ?, 'denied', ${deps.db.sql.bool(false)}, ?, ?)
+    ON CONFLICT (webhook_event_id) DO NOTHING
+  `, [
+    card.card_id,
+    event.chargePointId || null,
+    event.evseId || null,
+    event.sessionId || null,
+    event.data?.reason || 'authorization.failed webhook',
+    event.id || null,
+  ]);
+
+  const usage = await deps.db.get<{ recent_denials: number | string | null; last_success: string | null }>(`
+    SELECT
+      SUM(CASE WHEN action = 'denied' AND timestamp > ${deps.db.sql.ago(24, 'hours')} THEN 1 ELSE 0 END) as recent_denials,
+      MAX(CASE WHEN success = ${deps.db.sql.bool(true)} THEN timestamp END) as last_success
+    FROM rfid_usage_log
+    WHERE card_id = ?
+  `, [card.card_id]);
+
+  const recentDenials = Number(usage?.recent_denials || 0);
+
+  let diagnosis: string;
+  if (card.status !== 'active') {
+    diagnosis = `card_${card.status}`;
+  } else if (card.expiry_date && new Date(card.expiry_date) < new Date()) {
+    diagnosis = 'card_expired';
+  } else if (recentDenials >= REPEATED_DENIAL_THRESHOLD) {
+    diagnosis = 'repeated_denials';
+  } else {
+    // Card looks fine on our side; likely a backend or charger issue
+    diagnosis = 'active_card_rejected';
+  }
+
+  if (diagnosis === 'repeated_denials') {
+    logger.warn({ idTag, recentDenials, chargePointId: event.chargePointId }, 'RFID card repeatedly denied');
+  }
+
+  return {
+    action: 'rfid_cross_referenced',
+    details: {
+      idTag,
+      diagnosis,
+      cardStatus: card.status,
+      userId: card.user_id,
+      recentDenials,
+      lastSuccessfulUse: usage?.last_success ?? null,
+    },
+  };
+};
+
+/**
+ * Log-only handler for events we record but don't act on yet
+ */
+const logOnly = (action: string): WebhookEventHandler => async (event) => {
+  logger.info({ eventType: event.notification, chargePointId: event.chargePointId }, 'Webhook event logged');
+  return { action };
+};
+
+export const webhookEventHandlers: Record<string, WebhookEventHandler> = {
+  'session.started': logOnly('session_started_logged'),
+  'session.stopped': handleSessionStopped,
+  'session.failed': handleSessionFailed,
+  'chargepoint.status_changed': logOnly('status_change_logged'),
+  'chargepoint.faulted': handleChargePointFaulted,
+  'connector.plugged': logOnly('update_status'),
+  'connector.unplugged': logOnly('update_status'),
+  'authorization.failed': handleAuthorizationFailed,
+};
+
+/**
+ * Default dependencies wired to the real services
+ * (loaded lazily so recorded-payload tests don't need Discord or Postgres)
+ */
+export async function createDefaultWebhookHandlerDeps(): Promise<WebhookHandlerDeps> {
+  const [
+    { userNotifier },
+    { getNotificationService },
+    { predictiveDetectionService },
+    { getChargeFailureOutreach },
+  ] = await Promise.all([
+    import('./userNotifier'),
+    import('./proactiveNotifications'),
+    import('./predictiveDetectionService'),
+    import('./chargeFailureOutreach'),
+  ]);
+
+  return {
+    db: getDb(),
+    resolveRecipient: (userId) => userNotifier.resolveRecipient(userId),
+    sendDirectMessage: (recipient, content) => userNotifier.sendDirectMessage(recipient, content),
+    sendStationAlert: async (event) => {
+      const notificationService = getNotificationService();
+      if (!notificationService) {
+        logger.warn({ stationId: event.stationId }, 'Notification service not running, alert not sent');
+        return false;
+      }
+      return notificationService.sendAlert(event);
+    },
+    detectAnomalies: (data) => predictiveDetectionService.detectAnomalies(data),
+    reachOutAboutFailure: async (failure) => (await getChargeFailureOutreach()).reachOut(failure),
+  };
+}
+
+/**
+ * Run an event through its handler
+ */
+export async function dispatchWebhookEvent(
+  event: AmpecoWebhookEvent,
+  deps?: WebhookHandlerDeps
+): Promise<{ success: boolean; action?: string; details?: Record<string, any>; error?: string }> {
+  const handler = webhookEventHandlers[event.notification];
+
+  if (!handler) {
+    logger.debug({ event }, 'Unhandled event type');
+    return { success: true, action: 'log_only' };
+  }
+
+  try {
+    const result = await handler(event, deps || await createDefaultWebhookHandlerDeps());
+    logger.info({ eventType: event.notification, action: result.action }, 'Webhook event handled');
+    return { success: true, ...result };
+  } catch (error) {
+    logger.error({ error, event }, 'Error processing webhook event');
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
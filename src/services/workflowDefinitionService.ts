@@ -0,0 +1,351 @@
+import { db, Database, parseJsonColumn } from '../db';
+import { logger } from '../utils/logger';
+import { DIAGNOSTIC_WORKFLOWS, DiagnosticWorkflow } from '../workflows/diagnosticFlows';
+import { validateWorkflowDefinition, WorkflowValidationResult } from '../workflows/workflowValidator';
+
+/**
+ * Workflow Definition Service
+ *
+ * Authored diagnostic workflows, stored as JSON with versioning:
+ * - Every edit lives in workflow_definition_versions (one open draft per workflow)
+ * - Publishing validates the draft, archives the previous published version
+ *   and updates the workflow_definitions head row
+ * - A published version overrides the built-in workflow with the same id
+ *
+ * Sessions pin the version they started on (context.workflowVersion), so
+ * publishing a new version doesn't change the steps under an in-flight flow.
+ */
+
+export type WorkflowVersionStatus = 'draft' | 'published' | 'archived';
+
+export interface WorkflowVersion {
+  workflowId: string;
+  version: number;
+  status: WorkflowVersionStatus;
+  definition: DiagnosticWorkflow;
+  validation?: WorkflowValidationResult;
+  changeNote?: string;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+  publishedBy?: string;
+  publishedAt?: string;
+}
+
+export interface WorkflowSummary {
+  workflowId: string;
+  name: DiagnosticWorkflow['name'];
+  category: DiagnosticWorkflow['category'];
+  builtin: boolean;
+  publishedVersion: number | null;
+  draftVersion: number | null;
+}
+
+export interface ResolvedWorkflow {
+  workflow: DiagnosticWorkflow;
+  version: number | null; // null = built-in definition
+}
+
+export interface WorkflowDefinitionResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: 'not_found' | 'conflict' | 'invalid';
+  validation?: WorkflowValidationResult;
+}
+
+interface VersionRow {
+  workflow_id: string;
+  version: number;
+  status: WorkflowVersionStatus;
+  definition: string;
+  validation: string | null;
+  change_note: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  published_by: string | null;
+  published_at: string | null;
+}
+
+export class WorkflowDefinitionService {
+  /**
+   * Built-in and authored workflows with their published/draft versions
+   */
+  async listWorkflows(): Promise<WorkflowSummary[]> {
+    const { rows } = await db.query<Pick<VersionRow, 'workflow_id' | 'version' | 'status' | 'definition'>>(`
+      SELECT workflow_id, version, status, definition
+      FROM workflow_definition_versions
+      WHERE status IN ('draft', 'published')
+      ORDER BY workflow_id, version
+    `);
+
+    const summaries = new Map<string, WorkflowSummary>();
+
+    for (const workflow of DIAGNOSTIC_WORKFLOWS) {
+      summaries.set(workflow.id, {
+        workflowId: workflow.id,
+        name: workflow.name,
+        category: workflow.category,
+        builtin: true,
+        publishedVersion: null,
+        draftVersion: null,
+      });
+    }
+
+    for (const row of rows) {
+      const definition = parseJsonColumn(row.definition, null as any) as DiagnosticWorkflow;
+      const summary = summaries.get(row.workflow_id) || {
+        workflowId: row.workflow_id,
+        name: definition.name,
+        category: definition.category,
+        builtin: false,
+        publishedVersion: null,
+        draftVersion: null,
+      };
+
+      if (row.status === 'published') {
+        summary.publishedVersion = row.version;
+        summary.name = definition.name;
+        summary.category = definition.category;
+      } else {
+        summary.draftVersion = row.version;
+      }
+      summaries.set(row.workflow_id, summary);
+    }
+
+    return [...summaries.values()];
+  }
+
+  /**
+   * All stored versions of a workflow, newest first
+   */
+  async listVersions(workflowId: string): Promise<WorkflowVersion[]> {
+    const { rows } = await db.query<VersionRow>(`
+      SELECT * FROM workflow_definition_versions WHERE workflow_id = ? ORDER BY version DESC
+    `, [workflowId]);
+
+    return rows.map((row) => this.rowToVersion(row));
+  }
+
+  async getVersion(workflowId: string, version: number, database: Database = db): Promise<WorkflowVersion | null> {
+    const row = await database.get<VersionRow>(`
+      SELECT * FROM workflow_definition_versions WHERE workflow_id = ? AND version = ?
+    `, [workflowId, version]);
+
+    return row ? this.rowToVersion(row) : null;
+  }
+
+  /**
+   * Create or update the open draft of a workflow. Drafts may be invalid;
+   * the validation result is stored and returned so authors can iterate.
+   */
+  async saveDraft(
+    definition: DiagnosticWorkflow,
+    options: { author?: string; changeNote?: string; expectedWorkflowId?: string } = {}
+  ): Promise<WorkflowDefinitionResult<WorkflowVersion>> {
+    const validation = validateWorkflowDefinition(definition);
+    const workflowId = definition?.id;
+
+    if (!workflowId || typeof workflowId !== 'string') {
+      return { success: false, code: 'invalid', error: 'Workflow definition needs an id', validation };
+    }
+    if (options.expectedWorkflowId && options.expectedWorkflowId !== workflowId) {
+      return { success: false, code: 'invalid', error: `Definition id "${workflowId}" does not match "${options.expectedWorkflowId}"`, validation };
+    }
+
+    const saved = await db.transaction(async (tx) => {
+      const draft = await tx.get<{ version: number }>(`
+        SELECT version FROM workflow_definition_versions WHERE workflow_id = ? AND status = 'draft'
+      `, [workflowId]);
+
+      if (draft) {
+        await tx.run(`
+          UPDATE workflow_definition_versions
+          SET definition = ?, validation = ?, change_note = COALESCE(?, change_note),
+              created_by = COALESCE(created_by, ?), updated_at = CURRENT_TIMESTAMP
+          WHERE workflow_id = ? AND version = ?
+        `, [
+          JSON.stringify(definition),
+          JSON.stringify(validation),
+          options.changeNote || null,
+          options.author || null,
+          workflowId,
+          draft.version,
+        ]);
+      } else {
+        const latest = await tx.get<{ version: number | null }>(`
+          SELECT MAX(version) as version FROM workflow_definition_versions WHERE workflow_id = ?
+        `, [workflowId]);
+
+        await tx.run(`
+          INSERT INTO workflow_definition_versions (workflow_id, version, status, definition, validation, change_note, created_by)
+          VALUES (?, ?, 'draft', ?, ?, ?, ?)
+        `, [
+          workflowId,
+          (latest?.version || 0) + 1,
+          JSON.stringify(definition),
+          JSON.stringify(validation),
+          options.changeNote || null,
+          options.author || null,
+        ]);
+      }
+
+      return (await tx.get<VersionRow>(`
+        SELECT * FROM workflow_definition_versions WHERE workflow_id = ? AND status = 'draft'
+      `, [workflowId]))!;
+    });
+
+    logger.info({ workflowId, version: saved.version, valid: validation.valid }, 'Workflow draft saved');
+    return { success: true, data: this.rowToVersion(saved), validation };
+  }
+
+  /**
+   * Delete the open draft
+   */
+  async discardDraft(workflowId: string): Promise<WorkflowDefinitionResult> {
+    const result = await db.run(`
+      DELETE FROM workflow_definition_versions WHERE workflow_id = ? AND status = 'draft'
+    `, [workflowId]);
+
+    if (result.changes === 0) {
+      return { success: false, code: 'not_found', error: `No draft for workflow ${workflowId}` };
+    }
+    return { success: true };
+  }
+
+  /**
+   * Publish a draft. It must pass validation; the previously published
+   * version is archived.
+   */
+  async publish(workflowId: string, version: number, publishedBy?: string): Promise<WorkflowDefinitionResult<WorkflowVersion>> {
+    const target = await this.getVersion(workflowId, version);
+    if (!target) {
+      return { success: false, code: 'not_found', error: `Workflow ${workflowId} v${version} not found` };
+    }
+    if (target.status !== 'draft') {
+      return { success: false, code: 'conflict', error: `Only drafts can be published (v${version} is ${target.status})` };
+    }
+
+    // Re-validate: the tool list or condition language may have changed since the draft was saved
+    const validation = validateWorkflowDefinition(target.definition);
+    if (!validation.valid) {
+      await db.run(`
+        UPDATE workflow_definition_versions SET validation = ? WHERE workflow_id = ? AND version = ?
+      `, [JSON.stringify(validation), workflowId, version]);
+      return { success: false, code: 'invalid', error: 'Workflow has validation errors', validation };
+    }
+
+    const definition = target.definition;
+    const published = await db.transaction(async (tx) => {
+      await tx.run(`
+        UPDATE workflow_definition_versions SET status = 'archived', updated_at = CURRENT_TIMESTAMP
+        WHERE workflow_id = ? AND status = 'published'
+      `, [workflowId]);
+
+      await tx.run(`
+        UPDATE workflow_definition_versions
+        SET status = 'published', validation = ?, published_by = ?, published_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+        WHERE workflow_id = ? AND version = ?
+      `, [JSON.stringify(validation), publishedBy || null, workflowId, version]);
+
+      await tx.run(`
+        INSERT INTO workflow_definitions (workflow_id, name, description, category, steps, is_active, version)
+        VALUES (?, ?, ?, ?, ?, ${tx.sql.bool(true)}, ?)
+        ON CONFLICT(workflow_id) DO UPDATE SET
+          name = excluded.name,
+          description = excluded.description,
+          category = excluded.category,
+          steps = excluded.steps,
+          is_active = excluded.is_active,
+          version = excluded.version
+      `, [
+        workflowId,
+        definition.name.en,
+        definition.description.en,
+        definition.category,
+        JSON.stringify(definition.steps),
+        version,
+      ]);
+
+      return (await this.getVersion(workflowId, version, tx))!;
+    });
+
+    logger.info({ workflowId, version, publishedBy }, 'Workflow published');
+    return { success: true, data: published, validation };
+  }
+
+  /**
+   * The workflow a new session should use: the published version, or the built-in.
+   * With a version, returns that exact version (for sessions pinned to it).
+   */
+  async resolveWorkflow(workflowId: string, version?: number | null): Promise<ResolvedWorkflow | null> {
+    try {
+      const row = version
+        ? await db.get<{ version: number; definition: string }>(`
+            SELECT version, definition FROM workflow_definition_versions WHERE workflow_id = ? AND version = ?
+          `, [workflowId, version])
+        : await db.get<{ version: number; definition: string }>(`
+            SELECT version, definition FROM workflow_definition_versions WHERE workflow_id = ? AND status = 'published'
+          `, [workflowId]);
+
+      if (row) {
+        return { workflow: parseJsonColumn(row.definition, null as any), version: row.version };
+      }
+    } catch (error) {
+      // Authoring tables not migrated yet - built-ins still work
+      logger.debug({ error, workflowId }, 'Authored workflows unavailable');
+    }
+
+    const builtin = DIAGNOSTIC_WORKFLOWS.find((w) => w.id === workflowId);
+    return builtin ? { workflow: builtin, version: null } : null;
+  }
+
+  /**
+   * Every workflow new sessions can start (published versions override built-ins)
+   */
+  async getPublishedWorkflows(): Promise<DiagnosticWorkflow[]> {
+    const workflows = new Map(DIAGNOSTIC_WORKFLOWS.map((w) => [w.id, w]));
+
+    try {
+      const { rows } = await db.query<{ definition: string }>(`
+        SELECT definition FROM workflow_definition_versions WHERE status = 'published'
+      `);
+
+      for (const row of rows) {
+        const workflow = parseJsonColumn(row.definition, null as any) as DiagnosticWorkflow;
+        workflows.set(workflow.id, workflow);
+      }
+    } catch (error) {
+      logger.debug({ error }, 'Authored workflows unavailable');
+    }
+
+    return [...workflows.values()];
+  }
+
+  private rowToVersion(row: VersionRow): WorkflowVersion {
+    return {
+      workflowId: row.workflow_id,
+      version: row.version,
+      status: row.status,
+      definition: parseJsonColumn(row.definition, null as any),
+      validation: parseJsonColumn(row.validation, undefined),
+      changeNote: row.change_note || undefined,
+      createdBy: row.created_by || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      publishedBy: row.published_by || undefined,
+      publishedAt: row.published_at || undefined,
+    };
+  }
+}
+
+// Singleton instance
+let definitionServiceInstance: WorkflowDefinitionService | null = null;
+
+export function getWorkflowDefinitionService(): WorkflowDefinitionService {
+  if (!definitionServiceInstance) {
+    definitionServiceInstance = new WorkflowDefinitionService();
+  }
+  return definitionServiceInstance;
+}
@@ -1,6 +1,11 @@
 import { DiagnosticWorkflow, WorkflowStep } from '../workflows/diagnosticFlows.js';
 import { logger } from '../utils/logger.js';
-import { db } from '../db/index.js';
+import { db, parseJsonColumn, parseTimestamp } from '../db/index.js';
+import crypto from 'crypto';
+import { compileCondition, CompiledCondition, getConditionVariables } from '../workflows/conditionLanguage.js';
+import { applyToolRun, WorkflowToolExecutor, WorkflowToolRun } from '../workflows/workflowTools.js';
+import { getWorkflowToolExecutor } from '../mastra/tools/workflowToolRegistry.js';
+import { createToolRuntimeContext } from '../mastra/toolContext.js';
 
 export interface WorkflowSession {
   id: string;
@@ -16,18 +21,100 @@ export interface WorkflowSession {
     timestamp: Date;
     userInput?: string;
     toolResult?: any;
+    toolRun?: Omit<WorkflowToolRun, 'result'>; // Set when the engine ran the step's toolCall
     nextStepId?: string;
   }[];
   escalationReason?: string;
   resolution?: string;
+  channel?: string; // Channel the user was last active on (discord, web, ...)
+  resumeCode?: string; // Short code to pick the session up from another channel
+  version: number; // Optimistic concurrency token, bumped on every save
+  updatedAt?: Date;
+}
+
+// Multilingual replies mapped to the canonical keywords conditions compare against
+const ANSWER_KEYWORDS: Record<string, string[]> = {
+  yes: ['yes', 'yeah', 'yep', 'y', 'כן', 'да', 'نعم'],
+  no: ['no', 'nope', 'n', 'לא', 'нет', 'لا'],
+  green: ['green', 'ירוק', 'ירוקה', 'зелен', 'أخضر'],
+  red: ['red', 'אדום', 'אדומה', 'красн', 'أحمر'],
+  off: ['off', 'כבוי', 'כבויה', 'выключ', 'не горит', 'مطفأ'],
+  worked: ['worked', 'works', 'working', 'עבד', 'עובד', 'עובדת', 'работает', 'заработал', 'اشتغل', 'يعمل'],
+  failed: ['failed', "didn't work", 'not working', 'לא עבד', 'לא עובד', 'не работает', 'не заработал', 'لم يعمل', 'لا يعمل'],
+};
+
+/**
+ * Normalize a reply to a canonical keyword (yes, no, green, ...) when it
+ * matches exactly one group, so `answer === "yes"` works in every language.
+ * Otherwise the lowercased reply is returned unchanged.
+ */
+export function normalizeAnswer(userInput: string): string {
+  const text = userInput.toLowerCase().trim();
+  const padded = ` ${text.replace(/[.,!?;:()"]/g, ' ')} `;
+
+  // Phrases ("didn't work") are matched before their single words ("no")
+  const matches = Object.entries(ANSWER_KEYWORDS)
+    .filter(([, synonyms]) => synonyms.some((synonym) =>
+      synonym.includes(' ') || synonym.length >= 5
+        ? padded.includes(synonym)
+        : padded.includes(` ${synonym} `)
+    ))
+    .map(([keyword]) => keyword);
+
+  const specific = matches.includes('failed') ? matches.filter((m) => m !== 'no' && m !== 'worked') : matches;
+  return specific.length === 1 ? specific[0] : text;
+}
+
+/**
+ * Thrown when a session was advanced by another worker since it was loaded
+ */
+export class WorkflowConflictError extends Error {
+  constructor(readonly sessionId: string) {
+    super(`Workflow session was modified concurrently: ${sessionId}`);
+    this.name = 'WorkflowConflictError';
+  }
+}
+
+// Active sessions idle longer than this are abandoned by the sweep
+const SESSION_TTL_MS = (Number(process.env.WORKFLOW_SESSION_TTL_HOURS) || 24) * 60 * 60 * 1000;
+// Cached sessions idle longer than this are dropped from memory (they stay in the database)
+const CACHE_IDLE_MS = 15 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+// Guard against tool steps that branch back into each other
+const MAX_CHAINED_TOOL_STEPS = 10;
+const TERMINAL_STEP_TYPES = new Set(['resolution', 'escalation']);
+
+// No 0/O/1/I so codes survive being read out or retyped
+const RESUME_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+function generateResumeCode(length: number = 8): string {
+  return Array.from(crypto.randomBytes(length), (byte) => RESUME_CODE_ALPHABET[byte % RESUME_CODE_ALPHABET.length]).join('');
 }
 
 /**
  * Workflow Engine
- * Manages execution of diagnostic workflows with context tracking and analytics
+ * Manages execution of diagnostic workflows with context tracking and analytics.
+ *
+ * workflow_sessions is the source of truth; activeSessions is only a cache.
+ * Sessions are rehydrated on demand, so a restart or another worker can pick
+ * up a half-finished flow. Every save checks and bumps `version`, so two
+ * workers can't both advance the same step. Input is always applied to a
+ * fresh copy of the row, and each tool step is claimed with a versioned save
+ * before its tool runs, so a worker that lost the race fails before any side
+ * effect instead of at its final save.
+ *
+ * Steps with a toolCall are executed by the engine as soon as the flow
+ * reaches them: params are templated from the context, the result is stored
+ * in stepHistory and context.tools, and the step branches on it right away.
+ * Sessions started with context.dryRun (or WORKFLOW_TOOLS_DRY_RUN) record the
+ * calls without executing them.
  */
 export class WorkflowEngine {
   private activeSessions: Map<string, WorkflowSession> = new Map();
+  private compiledConditions: Map<string, CompiledCondition> = new Map();
+  private sweepInterval: NodeJS.Timeout | null = null;
+
+  constructor(private toolExecutor: WorkflowToolExecutor) {}
 
   /**
    * Start a new diagnostic workflow session
@@ -35,7 +122,8 @@ export class WorkflowEngine {
   async startWorkflow(
     userId: string,
     workflow: DiagnosticWorkflow,
-    initialContext: Record<string, any> = {}
+    initialContext: Record<string, any> = {},
+    channel?: string
   ): Promise<WorkflowSession> {
     const sessionId = `wf_${userId}_${workflow.id}_${Date.now()}`;
     
@@ -48,18 +136,29 @@ export class WorkflowEngine {
       status: 'active',
       context: initialContext,
       stepHistory: [],
+      channel,
+      resumeCode: generateResumeCode(),
+      version: 0,
     };
 
-    this.activeSessions.set(sessionId, session);
-
     // Save to database
-    await this.saveSessionToDb(session);
+    await this.insertSession(session);
+    this.activeSessions.set(sessionId, session);
 
-    logger.info('Workflow started', {
+    logger.info({
       sessionId,
       userId,
       workflowId: workflow.id,
-    });
+    }, 'Workflow started');
+
+    // A workflow may open with a check (e.g. the user's active session)
+    if (workflow.steps[0].toolCall) {
+      const { nextStepId } = await this.runToolSteps(session, workflow, workflow.steps[0].id, initialContext.initialMessage ?? '');
+      if (nextStepId) {
+        this.enterStep(session, workflow, nextStepId);
+      }
+      await this.saveSession(session);
+    }
 
     return session;
   }
@@ -84,11 +183,16 @@ export class WorkflowEngine {
     currentStep: WorkflowStep | null;
     shouldEscalate: boolean;
     escalationReason?: string;
+    toolRuns: WorkflowToolRun[];
   }> {
-    const session = this.activeSessions.get(sessionId);
+    // Never advance the cached copy: another worker may have moved the flow on
+    const session = await this.loadSession(sessionId);
     if (!session) {
       throw new Error(`Workflow session not found: ${sessionId}`);
     }
+    if (session.status !== 'active') {
+      throw new Error(`Workflow session is ${session.status}: ${sessionId}`);
+    }
 
     const currentStep = this.getCurrentStep(session, workflow);
     if (!currentStep) {
@@ -103,230 +207,510 @@ export class WorkflowEngine {
       session.context = { ...session.context, ...toolResults };
     }
 
-    // Record step in history
-    session.stepHistory.push({
-      stepId: currentStep.id,
-      timestamp: new Date(),
-      userInput,
-      toolResult: toolResults,
-    });
-
-    // Determine next step based on conditions
-    const nextStepId = await this.determineNextStep(
-      currentStep,
-      session.context,
-      userInput
-    );
+    let nextStepId: string | null;
+    let toolRuns: WorkflowToolRun[] = [];
+
+    if (currentStep.toolCall && !toolResults) {
+      // Session is parked on a tool step that hasn't run (chain limit, or saved before steps ran automatically)
+      ({ nextStepId, toolRuns } = await this.runToolSteps(session, workflow, currentStep.id, userInput));
+    } else {
+      // Determine next step based on conditions
+      nextStepId = await this.determineNextStep(
+        currentStep,
+        session.context,
+        userInput,
+        workflow
+      );
+
+      // Record step in history
+      session.stepHistory.push({
+        stepId: currentStep.id,
+        timestamp: new Date(),
+        userInput,
+        toolResult: toolResults,
+        nextStepId: nextStepId || undefined,
+      });
+
+      // Run any tool steps the answer leads into and follow their branches
+      if (nextStepId) {
+        ({ nextStepId, toolRuns } = await this.runToolSteps(session, workflow, nextStepId, userInput));
+      }
+    }
 
     if (nextStepId) {
-      session.currentStepId = nextStepId;
-      
-      // Check if next step is escalation
-      const nextStep = workflow.steps.find(s => s.id === nextStepId);
+      const nextStep = this.enterStep(session, workflow, nextStepId);
+
       if (nextStep?.type === 'escalation') {
-        session.status = 'escalated';
-        session.completedAt = new Date();
-        session.escalationReason = nextStep.escalationTrigger?.reason;
-        
-        await this.saveSessionToDb(session);
+        await this.saveSession(session);
         
         return {
           session,
           currentStep: nextStep,
           shouldEscalate: true,
-          escalationReason: nextStep.escalationTrigger?.reason,
+          escalationReason: nextStep?.escalationTrigger?.reason,
+          toolRuns,
         };
       }
-
-      // Check if next step is resolution
-      if (nextStep?.type === 'resolution') {
-        session.status = 'completed';
-        session.completedAt = new Date();
-        session.resolution = nextStep.content.en; // Store resolution
-        
-        await this.saveSessionToDb(session);
-        await this.trackWorkflowSuccess(workflow, session);
-      }
     } else {
       // No next step found - workflow stuck
-      logger.warn('Workflow stuck - no next step determined', {
+      logger.warn({
         sessionId,
         currentStepId: currentStep.id,
         userInput,
-      });
+      }, 'Workflow stuck - no next step determined');
     }
 
     // Update session in database
-    await this.saveSessionToDb(session);
+    await this.saveSession(session);
+
+    if (this.getCurrentStep(session, workflow)?.type === 'resolution') {
+      await this.trackWorkflowSuccess(workflow, session);
+    }
 
     return {
       session,
       currentStep: workflow.steps.find(s => s.id === session.currentStepId) || null,
       shouldEscalate: false,
+      toolRuns,
     };
   }
 
   /**
-   * Determine next step based on conditions
+   * Move the session to a step, closing it on a resolution or escalation
+   */
+  private enterStep(session: WorkflowSession, workflow: DiagnosticWorkflow, stepId: string): WorkflowStep | null {
+    session.currentStepId = stepId;
+    const step = workflow.steps.find(s => s.id === stepId) || null;
+
+    if (step?.type === 'escalation') {
+      session.status = 'escalated';
+      session.completedAt = new Date();
+      session.escalationReason = step.escalationTrigger?.reason;
+    } else if (step?.type === 'resolution') {
+      session.status = 'completed';
+      session.completedAt = new Date();
+      session.resolution = step.content.en; // Store resolution
+    }
+
+    return step;
+  }
+
+  /**
+   * Execute tool steps starting at stepId, branching on each result, until
+   * the flow reaches a step that needs the user (or a resolution/escalation).
+   * Returns the step the session should move to.
+   */
+  private async runToolSteps(
+    session: WorkflowSession,
+    workflow: DiagnosticWorkflow,
+    stepId: string,
+    userInput: string
+  ): Promise<{ nextStepId: string | null; toolRuns: WorkflowToolRun[] }> {
+    const toolRuns: WorkflowToolRun[] = [];
+    let nextStepId: string | null = stepId;
+
+    while (nextStepId && toolRuns.length < MAX_CHAINED_TOOL_STEPS) {
+      const step = workflow.steps.find(s => s.id === nextStepId);
+      if (!step?.toolCall || TERMINAL_STEP_TYPES.has(step.type)) {
+        break;
+      }
+
+      await this.claimStep(session, step.id);
+
+      const run = await this.toolExecutor.run(step.toolCall, {
+        context: session.context,
+        userInput,
+        dryRun: session.context.dryRun === true ? true : undefined,
+        runId: session.id,
+        runtimeContext: createToolRuntimeContext({ userId: session.userId, channel: session.channel }),
+      });
+      toolRuns.push(run);
+
+      session.context = applyToolRun(session.context, step.toolCall, run);
+
+      const followingStepId = await this.determineNextStep(step, session.context, userInput, workflow);
+      const { result, ...toolRun } = run;
+      session.stepHistory.push({
+        stepId: step.id,
+        timestamp: new Date(),
+        toolResult: result,
+        toolRun,
+        nextStepId: followingStepId || undefined,
+      });
+
+      logger.info(
+        { sessionId: session.id, stepId: step.id, toolName: run.toolName, status: run.status, attempts: run.attempts, durationMs: run.durationMs },
+        'Workflow tool step executed'
+      );
+
+      nextStepId = followingStepId;
+    }
+
+    if (nextStepId && toolRuns.length >= MAX_CHAINED_TOOL_STEPS) {
+      logger.warn({ sessionId: session.id, stepId: nextStepId }, 'Workflow tool chain limit reached');
+    }
+
+    return { nextStepId, toolRuns };
+  }
+
+  /**
+   * Determine next step based on conditions.
+   * Conditions are checked in order; an unconditional entry acts as the default.
    */
   private async determineNextStep(
     currentStep: WorkflowStep,
     context: Record<string, any>,
-    userInput: string
+    userInput: string,
+    workflow: DiagnosticWorkflow
   ): Promise<string | null> {
     if (!currentStep.nextSteps || currentStep.nextSteps.length === 0) {
       return null;
     }
 
-    // If only one next step and no condition, return it
-    if (currentStep.nextSteps.length === 1 && !currentStep.nextSteps[0].condition) {
-      return currentStep.nextSteps[0].nextStepId;
-    }
+    const scope = this.buildConditionScope(context, userInput);
 
-    // Evaluate conditions
     for (const nextStep of currentStep.nextSteps) {
       if (!nextStep.condition) {
         continue;
       }
 
       try {
-        // Simple condition evaluation
-        // In production, use a proper expression evaluator or decision engine
-        const condition = nextStep.condition
-          .replace(/answer/g, `"${userInput.toLowerCase()}"`)
-          .replace(/status/g, `"${context.status || ''}"`)
-          .replace(/power/g, context.power || 0)
-          .replace(/userId/g, `"${context.userId || ''}"`)
-          .replace(/session\.userId/g, `"${context.session?.userId || ''}"`);
-
-        // Very basic evaluation - in production use a safe evaluator
-        if (this.evaluateCondition(condition, context, userInput)) {
+        if (this.compile(nextStep.condition, workflow).evaluate(scope)) {
           return nextStep.nextStepId;
         }
       } catch (error) {
-        logger.error('Error evaluating condition', {
-          condition: nextStep.condition,
-          error,
-        });
+        logger.error(
+          { workflowId: workflow.id, stepId: currentStep.id, condition: nextStep.condition, error },
+          'Error evaluating workflow condition'
+        );
       }
     }
 
-    // If no condition matched, return first next step
-    return currentStep.nextSteps[0]?.nextStepId || null;
+    const fallback = currentStep.nextSteps.find((next) => !next.condition) || currentStep.nextSteps[0];
+    return fallback?.nextStepId || null;
   }
 
   /**
-   * Simple condition evaluator
-   * In production, use a proper expression evaluator library
+   * Compile a condition once per workflow (already validated at load time)
    */
-  private evaluateCondition(
-    condition: string,
-    context: Record<string, any>,
-    userInput: string
-  ): boolean {
-    const answer = userInput.toLowerCase();
-    
-    // Handle common patterns
-    if (condition.includes('answer === "yes"')) {
-      return answer.includes('yes') || answer.includes('כן') || answer.includes('да') || answer.includes('نعم');
+  private compile(condition: string, workflow: DiagnosticWorkflow): CompiledCondition {
+    const key = `${workflow.id}\u0000${condition}`;
+    let compiled = this.compiledConditions.get(key);
+    if (!compiled) {
+      compiled = compileCondition(condition, getConditionVariables(workflow));
+      this.compiledConditions.set(key, compiled);
     }
-    if (condition.includes('answer === "no"')) {
-      return answer.includes('no') || answer.includes('לא') || answer.includes('нет') || answer.includes('لا');
-    }
-    if (condition.includes('answer.includes("green")')) {
-      return answer.includes('green') || answer.includes('ירוק') || answer.includes('зелен') || answer.includes('أخضر');
-    }
-    if (condition.includes('answer.includes("red")')) {
-      return answer.includes('red') || answer.includes('אדום') || answer.includes('красн') || answer.includes('أحمر');
-    }
-    if (condition.includes('status === "offline"')) {
-      return context.status === 'offline' || context.status === 'unavailable';
-    }
-    if (condition.includes('status === "available"')) {
-      return context.status === 'available' || context.status === 'online';
+    return compiled;
+  }
+
+  /**
+   * Variables visible to branch conditions
+   */
+  private buildConditionScope(context: Record<string, any>, userInput: string): Record<string, any> {
+    return {
+      ...context,
+      answer: normalizeAnswer(userInput),
+      answerText: userInput.toLowerCase(),
+      userId: context.userId ?? null,
+      tools: context.tools ?? {},
+    };
+  }
+
+  /**
+   * Get a session from the cache or the database
+   */
+  async getSession(sessionId: string): Promise<WorkflowSession | null> {
+    const cached = this.activeSessions.get(sessionId);
+    if (cached) {
+      return cached;
     }
-    if (condition.includes('status === "occupied"')) {
-      return context.status === 'occupied' || context.status === 'charging';
+    return this.loadSession(sessionId);
+  }
+
+  /**
+   * Read a session from the database and refresh the cache with it
+   */
+  private async loadSession(sessionId: string): Promise<WorkflowSession | null> {
+    const result = await db.query(`SELECT * FROM workflow_sessions WHERE id = $1`, [sessionId]);
+    if (result.rows.length === 0) {
+      this.activeSessions.delete(sessionId);
+      return null;
     }
-    if (condition.includes('power < 10')) {
-      return (context.power || 0) < 10;
+
+    const session = this.rowToSession(result.rows[0]);
+    if (session.status === 'active') {
+      this.activeSessions.set(session.id, session);
+    } else {
+      this.activeSessions.delete(session.id);
     }
-    if (condition.includes('power >= 10 && power < 20')) {
-      const power = context.power || 0;
-      return power >= 10 && power < 20;
+    return session;
+  }
+
+  /**
+   * Get active workflow session for a user, from any channel
+   */
+  async getActiveSession(userId: string, channel?: string): Promise<WorkflowSession | null> {
+    const result = await db.query(
+      `SELECT * FROM workflow_sessions
+       WHERE user_id = $1 AND status = 'active'
+       ORDER BY updated_at DESC
+       LIMIT 1`,
+      [userId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
     }
-    if (condition.includes('power >= 20')) {
-      return (context.power || 0) >= 20;
+
+    const session = this.rowToSession(result.rows[0]);
+    this.activeSessions.set(session.id, session);
+
+    if (channel && session.channel !== channel) {
+      await this.switchChannel(session, channel);
     }
+    return session;
+  }
+
+  /**
+   * A user's most recent workflow session in any status, e.g. the one that
+   * escalated. `since` ignores sessions last touched before it.
+   */
+  async getLatestSession(userId: string, since?: Date): Promise<WorkflowSession | null> {
+    const result = await db.query(
+      `SELECT * FROM workflow_sessions
+       WHERE user_id = $1${since ? ' AND updated_at >= $2' : ''}
+       ORDER BY updated_at DESC
+       LIMIT 1`,
+      since ? [userId, since] : [userId]
+    );
 
-    return false;
+    return result.rows.length > 0 ? this.rowToSession(result.rows[0]) : null;
   }
 
   /**
-   * Get active workflow session for a user
+   * Pick up an interrupted session from another channel using its resume code.
+   * The session moves to the new identity so later lookups by user find it.
    */
-  getActiveSession(userId: string): WorkflowSession | null {
-    for (const [, session] of this.activeSessions) {
-      if (session.userId === userId && session.status === 'active') {
-        return session;
-      }
+  async resumeWithCode(resumeCode: string, userId: string, channel?: string): Promise<WorkflowSession | null> {
+    const result = await db.query(
+      `SELECT * FROM workflow_sessions WHERE resume_code = $1 AND status = 'active'`,
+      [resumeCode.trim().toUpperCase()]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
     }
-    return null;
+
+    const session = this.rowToSession(result.rows[0]);
+
+    // A user can only have one active flow; the resumed one wins
+    const current = await this.getActiveSession(userId);
+    if (current && current.id !== session.id) {
+      await this.abandonWorkflow(current.id);
+    }
+
+    const previousUserId = session.userId;
+    session.context.previousUserIds = [...new Set([...(session.context.previousUserIds || []), previousUserId])]
+      .filter((id) => id !== userId);
+    session.userId = userId;
+    session.channel = channel || session.channel;
+
+    await this.saveSession(session);
+    this.activeSessions.set(session.id, session);
+
+    logger.info({ sessionId: session.id, previousUserId, userId, channel }, 'Workflow resumed from another channel');
+    return session;
   }
 
   /**
    * Abandon a workflow session
    */
   async abandonWorkflow(sessionId: string): Promise<void> {
-    const session = this.activeSessions.get(sessionId);
-    if (session) {
+    const session = await this.getSession(sessionId);
+    if (session && session.status === 'active') {
       session.status = 'abandoned';
       session.completedAt = new Date();
-      await this.saveSessionToDb(session);
+      await this.saveSession(session);
       this.activeSessions.delete(sessionId);
       
-      logger.info('Workflow abandoned', { sessionId });
+      logger.info({ sessionId }, 'Workflow abandoned');
     }
   }
 
   /**
-   * Save session to database
+   * Abandon sessions idle past the TTL and drop idle sessions from the cache.
+   * Safe to run on every worker: the update only matches still-active rows.
    */
-  private async saveSessionToDb(session: WorkflowSession): Promise<void> {
+  async sweepExpiredSessions(now: Date = new Date()): Promise<number> {
+    for (const [id, session] of this.activeSessions) {
+      const lastActivity = (session.updatedAt || session.startedAt).getTime();
+      if (session.status !== 'active' || now.getTime() - lastActivity > CACHE_IDLE_MS) {
+        this.activeSessions.delete(id);
+      }
+    }
+
     try {
-      await db.query(
-        `INSERT INTO workflow_sessions 
-         (id, user_id, workflow_id, current_step_id, status, context, step_history, 
-          escalation_reason, resolution, started_at, completed_at, updated_at)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW())
-         ON CONFLICT (id) DO UPDATE SET
-           current_step_id = $4,
-           status = $5,
-           context = $6,
-           step_history = $7,
-           escalation_reason = $8,
-           resolution = $9,
-           completed_at = $11,
-           updated_at = NOW()`,
-        [
-          session.id,
-          session.userId,
-          session.workflowId,
-          session.currentStepId,
-          session.status,
-          JSON.stringify(session.context),
-          JSON.stringify(session.stepHistory),
-          session.escalationReason,
-          session.resolution,
-          session.startedAt,
-          session.completedAt,
-        ]
+      const result = await db.query(
+        `UPDATE workflow_sessions
+         SET status = 'abandoned', completed_at = $1, updated_at = $1, version = version + 1
+         WHERE status = 'active' AND updated_at < $2
+         RETURNING id, workflow_id, started_at, step_history`,
+        [now, new Date(now.getTime() - SESSION_TTL_MS)]
       );
+
+      for (const row of result.rows) {
+        const stepsTaken = parseJsonColumn(row.step_history, []).length;
+        await db.query(
+          `INSERT INTO workflow_analytics (workflow_id, success, duration_seconds, steps_taken, completed_at)
+           VALUES ($1, false, $2, $3, $4)`,
+          [row.workflow_id, Math.round((now.getTime() - parseTimestamp(row.started_at).getTime()) / 1000), stepsTaken, now]
+        );
+      }
+
+      if (result.rows.length > 0) {
+        logger.info({ abandoned: result.rows.length }, 'Expired workflow sessions abandoned');
+      }
+      return result.rows.length;
     } catch (error) {
-      logger.error('Failed to save workflow session to database', error);
+      logger.error({ error }, 'Failed to sweep expired workflow sessions');
+      return 0;
+    }
+  }
+
+  /**
+   * Run the expiry sweep periodically
+   */
+  startSweeper(intervalMs: number = SWEEP_INTERVAL_MS): void {
+    if (this.sweepInterval) return;
+
+    this.sweepInterval = setInterval(() => {
+      this.sweepExpiredSessions().catch((error) => {
+        logger.error({ error }, 'Workflow session sweep failed');
+      });
+    }, intervalMs);
+    this.sweepInterval.unref();
+  }
+
+  stopSweeper(): void {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = null;
+    }
+  }
+
+  private async switchChannel(session: WorkflowSession, channel: string): Promise<void> {
+    const previousChannel = session.channel;
+    session.channel = channel;
+    await this.saveSession(session);
+    logger.info({ sessionId: session.id, previousChannel, channel }, 'Workflow continued on another channel');
+  }
+
+  /**
+   * Insert a new session row
+   */
+  private async insertSession(session: WorkflowSession): Promise<void> {
+    await db.query(
+      `INSERT INTO workflow_sessions
+       (id, user_id, workflow_id, current_step_id, status, context, step_history,
+        channel, resume_code, version, started_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 0, $10, ${db.sql.now()})`,
+      [
+        session.id,
+        session.userId,
+        session.workflowId,
+        session.currentStepId,
+        session.status,
+        JSON.stringify(session.context),
+        JSON.stringify(session.stepHistory),
+        session.channel || null,
+        session.resumeCode || null,
+        session.startedAt,
+      ]
+    );
+    session.updatedAt = new Date();
+  }
+
+  /**
+   * Move the session onto a tool step and save it before the tool runs.
+   * Throws WorkflowConflictError if another worker advanced it first.
+   */
+  private async claimStep(session: WorkflowSession, stepId: string): Promise<void> {
+    session.currentStepId = stepId;
+    await this.saveSession(session);
+  }
+
+  /**
+   * Save session to database if nobody else saved it since we loaded it
+   */
+  private async saveSession(session: WorkflowSession): Promise<void> {
+    const result = await db.query(
+      `UPDATE workflow_sessions SET
+         user_id = $3,
+         current_step_id = $4,
+         status = $5,
+         context = $6,
+         step_history = $7,
+         escalation_reason = $8,
+         resolution = $9,
+         completed_at = $10,
+         channel = $11,
+         version = version + 1,
+         updated_at = ${db.sql.now()}
+       WHERE id = $1 AND version = $2
+       RETURNING version, updated_at`,
+      [
+        session.id,
+        session.version,
+        session.userId,
+        session.currentStepId,
+        session.status,
+        JSON.stringify(session.context),
+        JSON.stringify(session.stepHistory),
+        session.escalationReason || null,
+        session.resolution || null,
+        session.completedAt || null,
+        session.channel || null,
+      ]
+    );
+
+    if (result.rows.length === 0) {
+      // Our copy is stale; drop it so the next call rehydrates
+      this.activeSessions.delete(session.id);
+      logger.warn({ sessionId: session.id, version: session.version }, 'Workflow session version conflict');
+      throw new WorkflowConflictError(session.id);
+    }
+
+    session.version = result.rows[0].version;
+    session.updatedAt = parseTimestamp(result.rows[0].updated_at);
+
+    if (session.status !== 'active') {
+      this.activeSessions.delete(session.id);
     }
   }
 
+  private rowToSession(row: any): WorkflowSession {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      workflowId: row.workflow_id,
+      currentStepId: row.current_step_id,
+      startedAt: parseTimestamp(row.started_at),
+      completedAt: row.completed_at ? parseTimestamp(row.completed_at) : undefined,
+      status: row.status,
+      context: parseJsonColumn(row.context, {}),
+      stepHistory: parseJsonColumn<any[]>(row.step_history, []).map((entry) => ({
+        ...entry,
+        timestamp: parseTimestamp(entry.timestamp),
+      })),
+      escalationReason: row.escalation_reason || undefined,
+      resolution: row.resolution || undefined,
+      channel: row.channel || undefined,
+      resumeCode: row.resume_code || undefined,
+      version: Number(row.version) || 0,
+      updatedAt: row.updated_at ? parseTimestamp(row.updated_at) : undefined,
+    };
+  }
+
   /**
    * Track workflow success for analytics
    */
@@ -342,7 +726,7 @@ export class WorkflowEngine {
       await db.query(
         `INSERT INTO workflow_analytics 
          (workflow_id, success, duration_seconds, steps_taken, completed_at)
-         VALUES ($1, $2, $3, $4, NOW())`,
+         VALUES ($1, $2, $3, $4, ${db.sql.now()})`,
         [
           workflow.id,
           session.status === 'completed',
@@ -351,14 +735,14 @@ export class WorkflowEngine {
         ]
       );
 
-      logger.info('Workflow analytics tracked', {
+      logger.info({
         workflowId: workflow.id,
         success: session.status === 'completed',
         duration,
         stepsTaken: session.stepHistory.length,
-      });
+      }, 'Workflow analytics tracked');
     } catch (error) {
-      logger.error('Failed to track workflow analytics', error);
+      logger.error({ error }, 'Failed to track workflow analytics');
     }
   }
 
@@ -391,7 +775,7 @@ export class WorkflowEngine {
         avgSteps: parseFloat(row.avg_steps) || 0,
       };
     } catch (error) {
-      logger.error('Failed to get workflow analytics', error);
+      logger.error({ error }, 'Failed to get workflow analytics');
       return {
         totalExecutions: 0,
         successRate: 0,
@@ -437,4 +821,4 @@ export class WorkflowEngine {
 }
 
 // Singleton instance
-export const workflowEngine = new WorkflowEngine();
+export const workflowEngine = new WorkflowEngine(getWorkflowToolExecutor());
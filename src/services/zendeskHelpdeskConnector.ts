@@ -0,0 +1,147 @@
+import crypto from 'crypto';
+import {
+  basicAuth,
+  formatTicketBody,
+  helpdeskRequest,
+  ticketTags,
+  type HeaderReader,
+  type HelpdeskConfig,
+  type HelpdeskConnector,
+  type HelpdeskStatus,
+  type HelpdeskStatusChange,
+  type HelpdeskTicketExport,
+  type HelpdeskTicketRef,
+  type UrgencyLevel,
+} from './helpdeskConnector';
+import type { SignatureVerificationResult } from '../utils/webhookSignature';
+
+/**
+ * Zendesk Support
+ *
+ * Tickets API v2 with an API token (HELPDESK_EMAIL/token:HELPDESK_API_TOKEN).
+ * The escalation id goes into the ticket's external_id.
+ *
+ * Status webhooks: a Zendesk webhook signed with its signing secret
+ * (HELPDESK_WEBHOOK_SECRETS), either subscribed to the
+ * zen:event-type:ticket.status_changed event or called by a trigger with
+ * the body {"ticket": {"id": "{{ticket.id}}", "status": "{{ticket.status}}",
+ * "assignee": "{{ticket.assignee.name}}"}}. Deliveries signed more than
+ * 5 minutes from now are rejected.
+ */
+
+// How far a webhook's signed timestamp may be from now; older deliveries are
+// rejected so a captured webhook can't be replayed later
+const WEBHOOK_TOLERANCE_MS = 5 * 60 * 1000;
+
+const PRIORITY_BY_URGENCY: Record<UrgencyLevel, string> = {
+  low: 'low',
+  medium: 'normal',
+  high: 'high',
+  critical: 'urgent',
+};
+
+const STATUS_MAP: Record<string, HelpdeskStatus> = {
+  new: 'open',
+  open: 'open',
+  pending: 'pending',
+  hold: 'pending',
+  'on-hold': 'pending',
+  solved: 'solved',
+  closed: 'closed',
+};
+
+function toStatus(status: unknown): HelpdeskStatus | null {
+  return typeof status === 'string' ? STATUS_MAP[status.trim().toLowerCase()] ?? null : null;
+}
+
+export class ZendeskHelpdeskConnector implements HelpdeskConnector {
+  readonly provider = 'zendesk' as const;
+
+  constructor(private config: HelpdeskConfig) {}
+
+  async createTicket(ticket: HelpdeskTicketExport): Promise<HelpdeskTicketRef> {
+    const response = await this.request('POST', '/api/v2/tickets.json', {
+      ticket: {
+        subject: ticket.subject,
+        comment: { body: formatTicketBody(ticket), public: false },
+        priority: PRIORITY_BY_URGENCY[ticket.urgencyLevel],
+        type: 'incident',
+        external_id: ticket.ticketId,
+        tags: ticketTags(ticket),
+      },
+    });
+
+    const id = String(response.ticket.id);
+    return {
+      externalId: id,
+      url: `${this.config.baseUrl.replace(/\/+$/, '')}/agent/tickets/${id}`,
+      status: toStatus(response.ticket.status) ?? 'open',
+    };
+  }
+
+  async getStatus(externalId: string): Promise<HelpdeskStatus> {
+    const response = await this.request('GET', `/api/v2/tickets/${encodeURIComponent(externalId)}.json`);
+    const status = toStatus(response.ticket?.status);
+    if (!status) {
+      throw new Error(`Unknown Zendesk status for ticket ${externalId}: ${response.ticket?.status}`);
+    }
+    return status;
+  }
+
+  async setStatus(externalId: string, status: 'solved' | 'open', comment?: string): Promise<void> {
+    await this.request('PUT', `/api/v2/tickets/${encodeURIComponent(externalId)}.json`, {
+      ticket: {
+        status,
+        ...(comment ? { comment: { body: comment, public: false } } : {}),
+      },
+    });
+  }
+
+  /**
+   * base64 HMAC-SHA256 of timestamp + body, with the timestamp within
+   * WEBHOOK_TOLERANCE_MS of now
+   */
+  verifyWebhook(rawBody: string, header: HeaderReader, secrets: string[]): SignatureVerificationResult {
+    const signature = header('x-zendesk-webhook-signature');
+    const timestamp = header('x-zendesk-webhook-signature-timestamp');
+    if (!signature || !timestamp) {
+      return { valid: false, error: 'Missing signature' };
+    }
+
+    const signedAt = Date.parse(timestamp);
+    if (Number.isNaN(signedAt) || Math.abs(Date.now() - signedAt) > WEBHOOK_TOLERANCE_MS) {
+      return { valid: false, error: 'Signature timestamp outside the allowed window' };
+    }
+
+    const received = Buffer.from(signature, 'base64');
+    for (let i = 0; i < secrets.length; i++) {
+      const expected = crypto.createHmac('sha256', secrets[i]).update(timestamp + rawBody, 'utf8').digest();
+      if (received.length === expected.length && crypto.timingSafeEqual(received, expected)) {
+        return { valid: true, secretIndex: i };
+      }
+    }
+    return { valid: false, error: 'Signature mismatch' };
+  }
+
+  parseWebhook(payload: any): HelpdeskStatusChange | null {
+    // Event subscription
+    if (typeof payload?.type === 'string' && payload.type.startsWith('zen:event-type:ticket.')) {
+      const status = toStatus(payload.event?.current ?? payload.detail?.status);
+      const id = payload.detail?.id;
+      return status && id ? { externalId: String(id), status } : null;
+    }
+
+    // Trigger with a JSON body
+    const status = toStatus(payload?.ticket?.status);
+    const id = payload?.ticket?.id;
+    if (!status || !id) return null;
+    return { externalId: String(id), status, assignee: payload.ticket.assignee || null };
+  }
+
+  private request(method: string, path: string, body?: unknown): Promise<any> {
+    return helpdeskRequest(this.config, method, path, {
+      authorization: basicAuth(`${this.config.email ?? ''}/token`, this.config.apiToken),
+      body,
+    });
+  }
+}
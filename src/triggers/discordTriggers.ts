@@ -1,4 +1,16 @@
-import { Client, GatewayIntentBits, Events, Message, Interaction } from 'discord.js';
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  Client,
+  Events,
+  GatewayIntentBits,
+  Interaction,
+  Message,
+  ModalBuilder,
+  TextInputBuilder,
+  TextInputStyle,
+} from 'discord.js';
 import { checkRateLimit, isGreeting, updateSessionActivity, isSessionExpired } from '../mastra/utils/ampecoUtils';
 import { enqueueMessage } from '../utils/messageQueue';
 import { initializeNotificationService, stopNotificationService } from '../services/proactiveNotifications';
@@ -6,6 +18,10 @@ import { logger } from '../utils/logger';
 import { messagesProcessed, rateLimitViolations } from '../utils/metrics';
 import { detectLanguage } from '../mastra/utils/ampecoUtils';
 import { getFallbackResponse } from '../utils/fallbackHandler';
+import { getChargeFailureOutreach, OUTREACH_ACTION_PREFIX, OutreachActionType } from '../services/chargeFailureOutreach';
+import { getStationCommandConfirmations, STATION_ACTION_PREFIX } from '../services/stationCommandConfirmation';
+import { resolveCallerRole } from '../mastra/toolPermissions';
+import { CSAT_ACTION_PREFIX, getCsatSurveys, getSurveyStrings, MAX_COMMENT_LENGTH } from '../services/csatSurvey';
 
 // Duplicate message prevention
 const processedMessages = new Set<string>();
@@ -114,13 +130,89 @@ export async function startDiscordBot() {
     // Handle button interactions
     discordClient.on(Events.InteractionCreate, async (interaction: Interaction) => {
       try {
+        // CSAT survey comment (csat_modal_<surveyId>)
+        if (interaction.isModalSubmit() && interaction.customId.startsWith(`${CSAT_ACTION_PREFIX}modal_`)) {
+          const surveyId = interaction.customId.slice(`${CSAT_ACTION_PREFIX}modal_`.length);
+          const surveys = getCsatSurveys();
+          const result = await surveys.addComment(surveyId, interaction.fields.getTextInputValue('comment'), {
+            channel: 'discord',
+            userId: interaction.user.id,
+          });
+
+          await interaction.reply({
+            content: result.success ? getSurveyStrings(result.data!.language).thanksComment : `❌ ${result.error}`,
+            ephemeral: true,
+          });
+          if (result.success) {
+            await interaction.message?.edit({ components: [] }).catch(() => undefined);
+          }
+
+          logger.info({ userId: interaction.user.id, surveyId, success: result.success }, '⭐ CSAT comment handled');
+          return;
+        }
+
         if (!interaction.isButton()) return;
 
         const buttonId = interaction.customId;
         const userId = interaction.user.id;
         const channelId = interaction.channelId;
 
-        // Handle rating buttons
+        // Handle CSAT survey buttons (csat_rate_<1-5>_<surveyId>, csat_comment_<surveyId>)
+        if (buttonId.startsWith(CSAT_ACTION_PREFIX)) {
+          const [action, ...rest] = buttonId.slice(CSAT_ACTION_PREFIX.length).split('_');
+          const surveys = getCsatSurveys();
+
+          if (action === 'comment') {
+            const survey = await surveys.getSurvey(rest.join('_'));
+            const strings = getSurveyStrings(survey?.language);
+            await interaction.showModal(
+              new ModalBuilder()
+                .setCustomId(`${CSAT_ACTION_PREFIX}modal_${rest.join('_')}`)
+                .setTitle(strings.commentButton)
+                .addComponents(
+                  new ActionRowBuilder<TextInputBuilder>().addComponents(
+                    new TextInputBuilder()
+                      .setCustomId('comment')
+                      .setLabel(strings.commentPrompt)
+                      .setStyle(TextInputStyle.Paragraph)
+                      .setMaxLength(MAX_COMMENT_LENGTH)
+                      .setRequired(true)
+                  )
+                )
+            );
+            return;
+          }
+
+          const [rating, ...idParts] = rest;
+          const surveyId = idParts.join('_');
+          const result = await surveys.submitResponse(surveyId, { rating: Number(rating) }, { channel: 'discord', userId });
+
+          if (result.success) {
+            const strings = getSurveyStrings(result.data!.language);
+            await interaction.update({
+              content: `${strings.question}\n${strings.thanks} (${rating}⭐)`,
+              components: [
+                new ActionRowBuilder<ButtonBuilder>().addComponents(
+                  new ButtonBuilder()
+                    .setCustomId(`${CSAT_ACTION_PREFIX}comment_${surveyId}`)
+                    .setLabel(strings.commentButton)
+                    .setStyle(ButtonStyle.Secondary)
+                ),
+              ],
+            });
+          } else {
+            await interaction.reply({ content: `❌ ${result.error}`, ephemeral: true });
+            // The buttons are spent once the survey is answered or gone
+            if (result.code === 'already_answered' || result.code === 'expired' || result.code === 'not_found') {
+              await interaction.message.edit({ components: [] }).catch(() => undefined);
+            }
+          }
+
+          logger.info({ userId, surveyId, rating, success: result.success, code: result.code }, '⭐ CSAT rating handled');
+          return;
+        }
+
+        // Rating buttons on replies sent before CSAT surveys
         if (buttonId.startsWith('rating_')) {
           const rating = buttonId.replace('rating_', '');
           await interaction.reply({
@@ -132,6 +224,55 @@ export async function startDiscordBot() {
           return;
         }
 
+        // Handle charge failure outreach buttons (outreach_<action>_<outreachId>)
+        if (buttonId.startsWith(OUTREACH_ACTION_PREFIX)) {
+          const [action, ...idParts] = buttonId.slice(OUTREACH_ACTION_PREFIX.length).split('_');
+          await interaction.deferReply();
+
+          const outreach = await getChargeFailureOutreach();
+          const result = await outreach.handleAction(idParts.join('_'), action as OutreachActionType, userId);
+          await interaction.editReply({ content: result.message });
+
+          // Charging was restarted from this message: don't offer it again
+          if (result.closed) {
+            await interaction.message.edit({ components: [] }).catch(() => undefined);
+          }
+
+          logger.info({ userId, action, success: result.success }, '🔌 Outreach action handled');
+          return;
+        }
+
+        // Handle station command confirmations (station_action_<confirm|cancel>_<actionId>)
+        if (buttonId.startsWith(STATION_ACTION_PREFIX)) {
+          const [decision, ...idParts] = buttonId.slice(STATION_ACTION_PREFIX.length).split('_');
+          const actionId = idParts.join('_');
+          await interaction.deferReply();
+
+          const confirmations = await getStationCommandConfirmations();
+          const approver = { userId, channel: 'discord', role: await resolveCallerRole({ userId }) };
+          const result = decision === 'confirm'
+            ? await confirmations.confirm(actionId, approver)
+            : await confirmations.reject(actionId, approver);
+
+          let content: string;
+          if (result.success) {
+            content = decision === 'confirm'
+              ? '✅ הפקודה נשלחה לעמדה.\nThe command was sent to the station.'
+              : '✖️ הפקודה בוטלה.\nThe command was cancelled.';
+          } else {
+            content = `❌ ${result.error}`;
+          }
+          await interaction.editReply({ content });
+
+          // The buttons are spent once the action is decided (or gone)
+          if (result.code !== 'forbidden' && result.code !== 'cooldown') {
+            await interaction.message.edit({ components: [] }).catch(() => undefined);
+          }
+
+          logger.info({ userId, actionId, decision, success: result.success, code: result.code }, '🔌 Station action handled');
+          return;
+        }
+
         // Handle human agent button
         if (buttonId === 'human_agent') {
           await interaction.reply({
@@ -159,11 +300,15 @@ export async function startDiscordBot() {
           });
 
           logger.info({ userId, channelId }, '✅ Chat ended');
+
+          if (channelId) {
+            await getCsatSurveys().onConversationEnded({ channelId, userId });
+          }
           return;
         }
       } catch (error) {
         logger.error({ error, userId: interaction.user.id }, 'Error handling interaction');
-        if (interaction.isButton() && !interaction.replied) {
+        if ((interaction.isButton() || interaction.isModalSubmit()) && !interaction.replied && !interaction.deferred) {
           await interaction.reply({
             content: '❌ שגיאה בעיבוד הלחיצה. אנא נסה שוב.',
             ephemeral: true,
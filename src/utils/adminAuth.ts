@@ -0,0 +1,40 @@
+/**
+ * Admin API Authentication
+ * Middleware for admin-only endpoints (Authorization: Bearer <ADMIN_API_TOKEN>)
+ */
+
+import crypto from 'crypto';
+import type { Context, Next } from 'hono';
+import { logger } from './logger';
+
+/**
+ * Whether an Authorization header carries the admin API token
+ */
+export function isAdminAuthorization(authorization: string | undefined | null): boolean {
+  const adminToken = process.env.ADMIN_API_TOKEN;
+  if (!adminToken || !authorization) {
+    return false;
+  }
+
+  const provided = authorization.replace(/^Bearer\s+/i, '');
+  const expected = Buffer.from(adminToken);
+  const received = Buffer.from(provided);
+
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
+
+/**
+ * Require the admin API token
+ */
+export async function requireAdmin(c: Context, next: Next) {
+  if (!process.env.ADMIN_API_TOKEN) {
+    logger.warn('Admin endpoint called but ADMIN_API_TOKEN is not configured');
+    return c.json({ success: false, error: 'Admin API is not configured' }, 503);
+  }
+
+  if (!isAdminAuthorization(c.req.header('authorization'))) {
+    return c.json({ success: false, error: 'Unauthorized' }, 401);
+  }
+
+  await next();
+}
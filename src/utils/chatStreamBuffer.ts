@@ -0,0 +1,229 @@
+import { EventEmitter } from 'events';
+import { logger } from './logger';
+
+/**
+ * Chat Stream Buffer
+ * Keeps the SSE events of the most recent agent run per thread so a client
+ * that drops its connection can reconnect and resume from the last event id.
+ *
+ * Event ids have the form `<runId>:<seq>`. Writers pass the runId they got
+ * from startRun: once a newer run replaces theirs (the user sent another
+ * message) their appends are dropped and their generation is aborted.
+ */
+
+// How long a finished run stays available for resume
+const RUN_RETENTION_MS = 5 * 60 * 1000; // 5 minutes
+
+// Hard cap on buffered events per run (text deltas are small but numerous).
+// Past it text deltas and tool progress are no longer buffered, but the
+// events that end a run still are, so a resumed client learns how it ended.
+// Connected clients are unaffected: subscribers get every event.
+const MAX_EVENTS_PER_RUN = 5000;
+
+// Events that are buffered even past MAX_EVENTS_PER_RUN
+const ALWAYS_BUFFERED_EVENTS = new Set(['confirm', 'usage', 'completion', 'error']);
+
+export interface BufferedChatEvent {
+  id: string;
+  seq: number;
+  event: string;
+  data: Record<string, any>;
+}
+
+interface ChatRun {
+  runId: string;
+  threadId: string;
+  events: BufferedChatEvent[];
+  nextSeq: number;
+  truncated: boolean;
+  done: boolean;
+  startedAt: number;
+  finishedAt?: number;
+  emitter: EventEmitter;
+  abortController: AbortController;
+}
+
+class ChatStreamBuffer {
+  private runs: Map<string, ChatRun> = new Map();
+
+  /**
+   * Start a new run for a thread, replacing any previous run. An unfinished
+   * previous run is finished and its signal aborted.
+   */
+  startRun(threadId: string): { runId: string; signal: AbortSignal } {
+    const previous = this.runs.get(threadId);
+    if (previous && !previous.done) {
+      logger.warn({ threadId, runId: previous.runId }, 'Replacing unfinished chat run');
+      this.finishRun(threadId, previous.runId);
+      previous.abortController.abort();
+    }
+
+    const runId = `run-${Date.now().toString(36)}${Math.random().toString(36).substring(2, 6)}`;
+    const emitter = new EventEmitter();
+    emitter.setMaxListeners(20);
+
+    const abortController = new AbortController();
+    this.runs.set(threadId, {
+      runId,
+      threadId,
+      events: [],
+      nextSeq: 1,
+      truncated: false,
+      done: false,
+      startedAt: Date.now(),
+      emitter,
+      abortController,
+    });
+
+    return { runId, signal: abortController.signal };
+  }
+
+  /**
+   * The thread's run with this id, if it is still the current one and running
+   */
+  private activeRun(threadId: string, runId: string): ChatRun | null {
+    const run = this.runs.get(threadId);
+    return run && run.runId === runId && !run.done ? run : null;
+  }
+
+  /**
+   * Append an event to a run and notify live subscribers.
+   * No-op once the run is finished or a newer run replaced it.
+   */
+  append(threadId: string, runId: string, event: string, data: Record<string, any>): BufferedChatEvent | null {
+    const run = this.activeRun(threadId, runId);
+    if (!run) {
+      return null;
+    }
+
+    const seq = run.nextSeq++;
+    const buffered: BufferedChatEvent = {
+      id: `${run.runId}:${seq}`,
+      seq,
+      event,
+      data,
+    };
+
+    if (run.events.length < MAX_EVENTS_PER_RUN || ALWAYS_BUFFERED_EVENTS.has(event)) {
+      run.events.push(buffered);
+    } else if (!run.truncated) {
+      run.truncated = true;
+      logger.warn({ threadId, runId: run.runId }, 'Chat run exceeded buffer size, later deltas are not kept for resume');
+    }
+
+    run.emitter.emit('event', buffered);
+    return buffered;
+  }
+
+  /**
+   * Mark a run as finished. No-op if a newer run already replaced it.
+   */
+  finishRun(threadId: string, runId: string): void {
+    const run = this.activeRun(threadId, runId);
+    if (!run) {
+      return;
+    }
+
+    run.done = true;
+    run.finishedAt = Date.now();
+    run.emitter.emit('done');
+    run.emitter.removeAllListeners();
+  }
+
+  /**
+   * Get buffered events after the given event id.
+   * An id from an older run (or no id) replays the current run from the start.
+   */
+  getEventsAfter(threadId: string, lastEventId?: string | null): BufferedChatEvent[] {
+    const run = this.runs.get(threadId);
+    if (!run) {
+      return [];
+    }
+
+    const { runId, seq } = parseEventId(lastEventId);
+    if (runId !== run.runId) {
+      return [...run.events];
+    }
+
+    return run.events.filter((e) => e.seq > seq);
+  }
+
+  /**
+   * Subscribe to live events of the thread's current run, including those
+   * past the buffer cap. onDone fires when the run finishes or is replaced.
+   * Returns an unsubscribe function, or null if there is no active run.
+   */
+  subscribe(
+    threadId: string,
+    onEvent: (event: BufferedChatEvent) => void,
+    onDone: () => void
+  ): (() => void) | null {
+    const run = this.runs.get(threadId);
+    if (!run || run.done) {
+      return null;
+    }
+
+    run.emitter.on('event', onEvent);
+    run.emitter.once('done', onDone);
+
+    return () => {
+      run.emitter.off('event', onEvent);
+      run.emitter.off('done', onDone);
+    };
+  }
+
+  /**
+   * Get run status for a thread
+   */
+  getRunStatus(threadId: string): { runId: string; done: boolean; eventCount: number } | null {
+    const run = this.runs.get(threadId);
+    if (!run) {
+      return null;
+    }
+    return { runId: run.runId, done: run.done, eventCount: run.events.length };
+  }
+
+  /**
+   * Drop finished runs past their retention window
+   */
+  cleanup(): void {
+    const now = Date.now();
+    let clearedCount = 0;
+
+    for (const [threadId, run] of this.runs.entries()) {
+      if (run.done && run.finishedAt && now - run.finishedAt > RUN_RETENTION_MS) {
+        this.runs.delete(threadId);
+        clearedCount++;
+      }
+    }
+
+    if (clearedCount > 0) {
+      logger.debug({ clearedCount }, 'Cleared finished chat runs');
+    }
+  }
+}
+
+/**
+ * Parse an SSE event id of the form `<runId>:<seq>`
+ */
+export function parseEventId(eventId?: string | null): { runId: string | null; seq: number } {
+  if (!eventId) {
+    return { runId: null, seq: 0 };
+  }
+
+  const separator = eventId.lastIndexOf(':');
+  if (separator === -1) {
+    return { runId: null, seq: 0 };
+  }
+
+  const seq = parseInt(eventId.substring(separator + 1));
+  return {
+    runId: eventId.substring(0, separator),
+    seq: Number.isNaN(seq) ? 0 : seq,
+  };
+}
+
+export const chatStreamBuffer = new ChatStreamBuffer();
+
+// Run cleanup every minute
+setInterval(() => chatStreamBuffer.cleanup(), 60 * 1000).unref();
@@ -66,10 +66,10 @@ I'll be happy to help as soon as the system is back online!`,
 };
 
 /**
- * Get fallback response in appropriate language
+ * Get fallback response in appropriate language (Hebrew when detection gave 'unknown')
  */
-export function getFallbackResponse(language: 'he' | 'en' | 'ru' | 'ar' = 'he'): string {
-  return FALLBACK_RESPONSES[language] || FALLBACK_RESPONSES.he;
+export function getFallbackResponse(language: 'he' | 'en' | 'ru' | 'ar' | 'unknown' = 'he'): string {
+  return language === 'unknown' ? FALLBACK_RESPONSES.he : FALLBACK_RESPONSES[language];
 }
 
 /**
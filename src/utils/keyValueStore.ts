@@ -0,0 +1,87 @@
+/**
+ * Key-Value Store
+ * The small slice of a Cloudflare KV namespace the cache layer uses, so a KV
+ * binding can be passed straight in, plus an in-process implementation for
+ * the Node server.
+ */
+
+export interface KeyValueStore {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+// Upper bound on entries kept in memory; the oldest are dropped first
+const MAX_ENTRIES = 10000;
+
+interface StoredValue {
+  value: string;
+  expiresAt: number | null;
+}
+
+export class MemoryKeyValueStore implements KeyValueStore {
+  private entries: Map<string, StoredValue> = new Map();
+
+  constructor(private maxEntries: number = MAX_ENTRIES) {}
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async put(key: string, value: string, options: { expirationTtl?: number } = {}): Promise<void> {
+    // Re-inserting moves the key to the end, so eviction stays oldest-first
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      expiresAt: options.expirationTtl ? Date.now() + options.expirationTtl * 1000 : null,
+    });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Drop expired entries
+   */
+  cleanup(): number {
+    const now = Date.now();
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt !== null && entry.expiresAt <= now) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+// Singleton instance
+let storeInstance: MemoryKeyValueStore | null = null;
+
+export function getKeyValueStore(): MemoryKeyValueStore {
+  if (!storeInstance) {
+    storeInstance = new MemoryKeyValueStore();
+    setInterval(() => storeInstance?.cleanup(), 60 * 1000).unref();
+  }
+  return storeInstance;
+}
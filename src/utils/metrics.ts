@@ -93,3 +93,11 @@ export const cacheMisses = new client.Counter({
   labelNames: ['cache_type'],
   registers: [register],
 });
+
+// LLM provider calls (errors move on to the next model in the chain)
+export const modelRequests = new client.Counter({
+  name: 'llm_requests_total',
+  help: 'LLM provider requests',
+  labelNames: ['provider', 'task', 'status'],
+  registers: [register],
+});
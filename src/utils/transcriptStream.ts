@@ -0,0 +1,62 @@
+import type { SSEStreamingApi } from 'hono/streaming';
+import { getAgentDesk, type TranscriptEntry } from '../services/agentDesk';
+
+/**
+ * Transcript Stream
+ * Forwards a conversation's transcript to an SSE stream: the entries after
+ * `afterId` first, then live ones until the client disconnects. Event ids
+ * are transcript ids, so Last-Event-ID resumes where the client left off.
+ *
+ * The driver view only carries what the driver should see: the human
+ * agent's replies and the takeover / release notices.
+ */
+export async function pipeTranscriptToStream(
+  stream: SSEStreamingApi,
+  threadId: string,
+  options: { afterId?: number; driverView?: boolean } = {}
+): Promise<void> {
+  const desk = getAgentDesk();
+  const pending: TranscriptEntry[] = [];
+  let cursor = options.afterId ?? 0;
+  let wake: (() => void) | null = null;
+
+  const visible = (entry: TranscriptEntry) =>
+    !options.driverView || (!entry.internal && (entry.role === 'agent' || entry.role === 'system'));
+
+  const write = async (entry: TranscriptEntry) => {
+    if (entry.id <= cursor) return;
+    cursor = entry.id;
+    if (!visible(entry)) return;
+    await stream.writeSSE({ id: String(entry.id), event: 'transcript', data: JSON.stringify(entry) });
+  };
+
+  // Subscribe before reading the backlog so nothing recorded in between is lost
+  const unsubscribe = desk.subscribe(threadId, (entry) => {
+    pending.push(entry);
+    wake?.();
+  });
+  stream.onAbort(() => wake?.());
+
+  try {
+    for (const entry of await desk.getTranscript(threadId, { afterId: cursor, includeInternal: !options.driverView })) {
+      await write(entry);
+    }
+
+    while (!stream.aborted) {
+      while (pending.length > 0) {
+        await write(pending.shift()!);
+      }
+      if (stream.aborted) return;
+
+      await new Promise<void>((resolve) => {
+        wake = () => {
+          wake = null;
+          resolve();
+        };
+        if (pending.length > 0 || stream.aborted) wake();
+      });
+    }
+  } finally {
+    unsubscribe();
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Web Chat Identity
+ * Web chat users are anonymous, so the browser gets a random client key in
+ * an HttpOnly cookie on its first message and every later request carries
+ * it. The user id is derived from that key: it stays the same across
+ * messages and threads, and only the browser that started a thread can act
+ * on it (confirm a station command, answer its survey).
+ */
+
+import crypto from 'crypto';
+import type { Context } from 'hono';
+import { getCookie, setCookie } from 'hono/cookie';
+
+const COOKIE_NAME = 'ec_chat_client';
+const COOKIE_MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+const CLIENT_KEY_PATTERN = /^[A-Za-z0-9_-]{32,64}$/;
+const WEB_USER_ID_PATTERN = /^web-[0-9a-f]{24}$/;
+
+function webUserId(clientKey: string): string {
+  return `web-${crypto.createHash('sha256').update(clientKey).digest('hex').slice(0, 24)}`;
+}
+
+/**
+ * Whether a stored user id is a web chat identity (older web chat turns
+ * were stored with a new id per message)
+ */
+export function isWebUserId(userId: string | null | undefined): boolean {
+  return typeof userId === 'string' && WEB_USER_ID_PATTERN.test(userId);
+}
+
+/**
+ * The caller's web user id, or null when the request has no client cookie
+ */
+export function getWebUserId(c: Context): string | null {
+  const clientKey = getCookie(c, COOKIE_NAME);
+  return clientKey && CLIENT_KEY_PATTERN.test(clientKey) ? webUserId(clientKey) : null;
+}
+
+/**
+ * The caller's web user id, issuing a client cookie first if there isn't one
+ */
+export function resolveWebUserId(c: Context): string {
+  const existing = getWebUserId(c);
+  if (existing) {
+    return existing;
+  }
+
+  const clientKey = crypto.randomBytes(24).toString('base64url');
+  setCookie(c, COOKIE_NAME, clientKey, {
+    path: '/api/chat',
+    httpOnly: true,
+    sameSite: 'Lax',
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: COOKIE_MAX_AGE_SECONDS,
+  });
+  return webUserId(clientKey);
+}
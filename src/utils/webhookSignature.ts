@@ -0,0 +1,59 @@
+/**
+ * Webhook Signature Verification
+ * HMAC-SHA256 over the raw request body, checked against a list of secrets
+ * so a new secret can be rolled out before the old one is retired.
+ */
+
+import crypto from 'crypto';
+
+export interface SignatureVerificationResult {
+  valid: boolean;
+  secretIndex?: number; // Which configured secret matched (0 = current)
+  error?: string;
+}
+
+/**
+ * Parse a comma-separated secret list (current secret first)
+ */
+export function parseSecrets(value?: string): string[] {
+  return (value || '')
+    .split(',')
+    .map((secret) => secret.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Compute the hex HMAC-SHA256 signature of a payload
+ */
+export function signPayload(rawBody: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(rawBody, 'utf8').digest('hex');
+}
+
+/**
+ * Verify a signature header of the form `sha256=<hex>` or `<hex>`
+ */
+export function verifyWebhookSignature(
+  rawBody: string,
+  signatureHeader: string | undefined | null,
+  secrets: string[]
+): SignatureVerificationResult {
+  if (!signatureHeader) {
+    return { valid: false, error: 'Missing signature' };
+  }
+
+  const signature = signatureHeader.trim().replace(/^sha256=/i, '').toLowerCase();
+  if (!/^[0-9a-f]{64}$/.test(signature)) {
+    return { valid: false, error: 'Malformed signature' };
+  }
+
+  const received = Buffer.from(signature, 'hex');
+
+  for (let i = 0; i < secrets.length; i++) {
+    const expected = Buffer.from(signPayload(rawBody, secrets[i]), 'hex');
+    if (crypto.timingSafeEqual(received, expected)) {
+      return { valid: true, secretIndex: i };
+    }
+  }
+
+  return { valid: false, error: 'Signature mismatch' };
+}
@@ -0,0 +1,937 @@
+/**
+ * Workflow Condition Language
+ * Small, sandboxed expression language for WorkflowStep.nextSteps[].condition.
+ * Conditions are parsed into an AST and interpreted - never passed to eval -
+ * and type-checked against the variables a workflow declares, so a typo in a
+ * branch fails at load time instead of in front of a customer.
+ *
+ * Grammar (lowest to highest precedence):
+ *   expr       := or
+ *   or         := and ( '||' and )*
+ *   and        := not ( '&&' not )*
+ *   not        := '!' not | comparison
+ *   comparison := postfix [ ( '===' | '!==' | '==' | '!=' | '<' | '<=' | '>' | '>=' ) postfix
+ *                         | 'in' postfix
+ *                         | 'matches' REGEX ]
+ *   postfix    := primary ( '.' IDENT [ '(' args ')' ] | '[' expr ']' )*
+ *   primary    := NUMBER [ '..' NUMBER ] | STRING | 'true' | 'false' | 'null'
+ *               | IDENT [ '(' args ')' ] | '(' expr ')' | '[' [ expr ( ',' expr )* ] ']'
+ *
+ * Semantics:
+ * - `==` and `===` are the same strict equality (no type coercion); likewise `!=` / `!==`
+ * - `x in [a, b]` list membership, `x in "text"` substring, `x in 10..20` inclusive numeric range
+ * - `s matches /re/i` regex test (flags i, m, s, u only)
+ * - Methods: string/list `.includes(x)`, string `.startsWith(x)` / `.endsWith(x)`, `.length`
+ * - Functions: lower(s), upper(s), len(s | list)
+ * - Missing variables and fields evaluate to null; ordering comparisons with null are false
+ */
+
+import type { DiagnosticWorkflow } from './diagnosticFlows';
+
+export type ConditionType =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'null'
+  | 'any'
+  | 'regex'
+  | 'range'
+  | { kind: 'list'; of: ConditionType }
+  | { kind: 'object'; fields: Record<string, ConditionType> };
+
+/**
+ * JSON-friendly variable declaration used by workflows:
+ * 'string' | 'number' | 'boolean' | 'any', nested objects, and one-element arrays for lists
+ * e.g. { status: 'string', session: { userId: 'string' }, tags: ['string'] }
+ */
+export type VariableDeclaration =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'any'
+  | VariableDeclaration[]
+  | { [field: string]: VariableDeclaration };
+
+export type VariableDeclarations = Record<string, VariableDeclaration>;
+
+type Node =
+  | { type: 'literal'; value: string | number | boolean | null; pos: number }
+  | { type: 'regex'; value: RegExp; pos: number }
+  | { type: 'range'; min: number; max: number; pos: number }
+  | { type: 'list'; items: Node[]; pos: number }
+  | { type: 'identifier'; name: string; pos: number }
+  | { type: 'member'; object: Node; property: string; pos: number }
+  | { type: 'index'; object: Node; index: Node; pos: number }
+  | { type: 'call'; callee: string; target?: Node; args: Node[]; pos: number }
+  | { type: 'unary'; operator: '!'; operand: Node; pos: number }
+  | { type: 'binary'; operator: string; left: Node; right: Node; pos: number };
+
+type Token =
+  | { kind: 'number'; value: number; pos: number }
+  | { kind: 'string'; value: string; pos: number }
+  | { kind: 'regex'; value: RegExp; pos: number }
+  | { kind: 'identifier'; value: string; pos: number }
+  | { kind: 'operator'; value: string; pos: number }
+  | { kind: 'eof'; value: ''; pos: number };
+
+const MAX_SOURCE_LENGTH = 500;
+const MAX_DEPTH = 32;
+const MAX_MATCH_INPUT = 1000; // Regex input is truncated to keep matching cheap
+const ALLOWED_REGEX_FLAGS = /^[imsu]*$/;
+
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '..', '<', '>', '!', '(', ')', '[', ']', ',', '.'];
+const KEYWORDS = new Set(['true', 'false', 'null', 'in', 'matches']);
+
+/**
+ * Syntax, type and runtime errors, with the position in the source
+ */
+export class ConditionError extends Error {
+  constructor(
+    readonly kind: 'syntax' | 'type' | 'runtime',
+    readonly detail: string,
+    readonly source: string,
+    readonly position?: number
+  ) {
+    super(ConditionError.format(kind, detail, source, position));
+    this.name = 'ConditionError';
+  }
+
+  private static format(kind: string, detail: string, source: string, position?: number): string {
+    const header = `${kind[0].toUpperCase()}${kind.slice(1)} error in condition: ${detail}`;
+    if (position === undefined) {
+      return `${header}\n  ${source}`;
+    }
+    return `${header}\n  ${source}\n  ${' '.repeat(position)}^`;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Lexer
+// ---------------------------------------------------------------------------
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const fail = (detail: string, pos: number = i): never => {
+    throw new ConditionError('syntax', detail, source, pos);
+  };
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // Numbers (a leading '-' only where a value is expected)
+    const previous = tokens[tokens.length - 1];
+    const expectsValue = !previous || (previous.kind === 'operator' && ![')', ']'].includes(previous.value))
+      || (previous.kind === 'identifier' && KEYWORDS.has(previous.value) && previous.value !== 'true'
+        && previous.value !== 'false' && previous.value !== 'null');
+    if (/[0-9]/.test(ch) || (ch === '-' && expectsValue && /[0-9]/.test(source[i + 1] || ''))) {
+      const match = /^-?\d+(\.\d+)?/.exec(source.slice(i))!;
+      // "10..20" is a range, not the number "10."
+      tokens.push({ kind: 'number', value: Number(match[0]), pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === '\\') {
+          const next = source[i + 1];
+          if (next === undefined) fail('Unterminated string', start);
+          value += next === 'n' ? '\n' : next === 't' ? '\t' : next;
+          i += 2;
+        } else {
+          value += source[i++];
+        }
+      }
+      if (i >= source.length) fail('Unterminated string', start);
+      i++;
+      tokens.push({ kind: 'string', value, pos: start });
+      continue;
+    }
+
+    // Regex literals are only allowed right after `matches`
+    if (ch === '/' && previous?.kind === 'identifier' && previous.value === 'matches') {
+      const start = i;
+      let body = '';
+      let inClass = false;
+      i++;
+      while (i < source.length && (source[i] !== '/' || inClass)) {
+        if (source[i] === '\\') {
+          body += source[i] + (source[i + 1] ?? '');
+          i += 2;
+          continue;
+        }
+        if (source[i] === '[') inClass = true;
+        if (source[i] === ']') inClass = false;
+        body += source[i++];
+      }
+      if (i >= source.length) fail('Unterminated regex', start);
+      i++;
+      const flags = /^[a-z]*/.exec(source.slice(i))![0];
+      i += flags.length;
+
+      if (!ALLOWED_REGEX_FLAGS.test(flags)) fail(`Unsupported regex flags "${flags}" (allowed: i, m, s, u)`, start);
+      try {
+        tokens.push({ kind: 'regex', value: new RegExp(body, flags), pos: start });
+      } catch (error) {
+        fail(`Invalid regex: ${error instanceof Error ? error.message : String(error)}`, start);
+      }
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(ch)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(i))!;
+      tokens.push({ kind: 'identifier', value: match[0], pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, i));
+    if (operator) {
+      tokens.push({ kind: 'operator', value: operator, pos: i });
+      i += operator.length;
+      continue;
+    }
+
+    fail(`Unexpected character "${ch}"`);
+  }
+
+  tokens.push({ kind: 'eof', value: '', pos: source.length });
+  return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private readonly tokens: Token[], private readonly source: string) {}
+
+  parse(): Node {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.kind !== 'eof') {
+      this.fail(`Unexpected ${this.describe(token)}`, token.pos);
+    }
+    return node;
+  }
+
+  private parseOr(): Node {
+    let left = this.parseAnd();
+    while (this.matchOperator('||')) {
+      const pos = this.previous().pos;
+      left = { type: 'binary', operator: '||', left, right: this.parseAnd(), pos };
+    }
+    return left;
+  }
+
+  private parseAnd(): Node {
+    let left = this.parseNot();
+    while (this.matchOperator('&&')) {
+      const pos = this.previous().pos;
+      left = { type: 'binary', operator: '&&', left, right: this.parseNot(), pos };
+    }
+    return left;
+  }
+
+  private parseNot(): Node {
+    if (this.matchOperator('!')) {
+      const pos = this.previous().pos;
+      return this.nested(() => ({ type: 'unary', operator: '!', operand: this.parseNot(), pos }));
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Node {
+    const left = this.parsePostfix();
+    const token = this.peek();
+
+    if (token.kind === 'operator' && ['===', '!==', '==', '!=', '<', '<=', '>', '>='].includes(token.value)) {
+      this.index++;
+      // == and != are aliases of the strict forms
+      const operator = token.value === '==' ? '===' : token.value === '!=' ? '!==' : token.value;
+      return { type: 'binary', operator, left, right: this.parsePostfix(), pos: token.pos };
+    }
+
+    if (token.kind === 'identifier' && token.value === 'in') {
+      this.index++;
+      return { type: 'binary', operator: 'in', left, right: this.parsePostfix(), pos: token.pos };
+    }
+
+    if (token.kind === 'identifier' && token.value === 'matches') {
+      this.index++;
+      const regex = this.peek();
+      if (regex.kind !== 'regex') {
+        this.fail(`Expected a regex literal like /pattern/i after "matches", found ${this.describe(regex)}`, regex.pos);
+      }
+      this.index++;
+      return {
+        type: 'binary',
+        operator: 'matches',
+        left,
+        right: { type: 'regex', value: (regex as { value: RegExp }).value, pos: regex.pos },
+        pos: token.pos,
+      };
+    }
+
+    return left;
+  }
+
+  private parsePostfix(): Node {
+    let node = this.parsePrimary();
+
+    for (;;) {
+      if (this.matchOperator('.')) {
+        const name = this.expectIdentifier('property name');
+        if (this.matchOperator('(')) {
+          node = { type: 'call', callee: name.value, target: node, args: this.parseArgs(), pos: name.pos };
+        } else {
+          node = { type: 'member', object: node, property: name.value, pos: name.pos };
+        }
+      } else if (this.matchOperator('[')) {
+        const pos = this.previous().pos;
+        const index = this.nested(() => this.parseOr());
+        this.expectOperator(']');
+        node = { type: 'index', object: node, index, pos };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): Node {
+    const token = this.peek();
+
+    if (token.kind === 'number') {
+      this.index++;
+      if (this.matchOperator('..')) {
+        const max = this.peek();
+        if (max.kind !== 'number') {
+          this.fail(`Expected a number after "..", found ${this.describe(max)}`, max.pos);
+        }
+        this.index++;
+        const maxValue = (max as { value: number }).value;
+        if (maxValue < token.value) {
+          this.fail(`Empty range ${token.value}..${maxValue}`, token.pos);
+        }
+        return { type: 'range', min: token.value, max: maxValue, pos: token.pos };
+      }
+      return { type: 'literal', value: token.value, pos: token.pos };
+    }
+
+    if (token.kind === 'string') {
+      this.index++;
+      return { type: 'literal', value: token.value, pos: token.pos };
+    }
+
+    if (token.kind === 'identifier') {
+      this.index++;
+      if (token.value === 'true' || token.value === 'false') {
+        return { type: 'literal', value: token.value === 'true', pos: token.pos };
+      }
+      if (token.value === 'null') {
+        return { type: 'literal', value: null, pos: token.pos };
+      }
+      if (KEYWORDS.has(token.value)) {
+        this.fail(`Unexpected keyword "${token.value}"`, token.pos);
+      }
+      if (this.matchOperator('(')) {
+        return { type: 'call', callee: token.value, args: this.parseArgs(), pos: token.pos };
+      }
+      return { type: 'identifier', name: token.value, pos: token.pos };
+    }
+
+    if (token.kind === 'operator' && token.value === '(') {
+      this.index++;
+      const node = this.nested(() => this.parseOr());
+      this.expectOperator(')');
+      return node;
+    }
+
+    if (token.kind === 'operator' && token.value === '[') {
+      this.index++;
+      const items: Node[] = [];
+      if (!this.matchOperator(']')) {
+        do {
+          items.push(this.nested(() => this.parseOr()));
+        } while (this.matchOperator(','));
+        this.expectOperator(']');
+      }
+      return { type: 'list', items, pos: token.pos };
+    }
+
+    if (token.kind === 'regex') {
+      this.fail('Regex literals can only be used after "matches"', token.pos);
+    }
+
+    return this.fail(token.kind === 'eof' ? 'Unexpected end of condition' : `Unexpected ${this.describe(token)}`, token.pos);
+  }
+
+  private parseArgs(): Node[] {
+    const args: Node[] = [];
+    if (this.matchOperator(')')) return args;
+    do {
+      args.push(this.nested(() => this.parseOr()));
+    } while (this.matchOperator(','));
+    this.expectOperator(')');
+    return args;
+  }
+
+  private nested<T>(parse: () => T): T {
+    if (++this.depth > MAX_DEPTH) {
+      this.fail('Condition is nested too deeply', this.peek().pos);
+    }
+    try {
+      return parse();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private previous(): Token {
+    return this.tokens[this.index - 1];
+  }
+
+  private matchOperator(value: string): boolean {
+    const token = this.peek();
+    if (token.kind === 'operator' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectOperator(value: string): void {
+    if (!this.matchOperator(value)) {
+      const token = this.peek();
+      this.fail(`Expected "${value}", found ${this.describe(token)}`, token.pos);
+    }
+  }
+
+  private expectIdentifier(what: string): Token & { kind: 'identifier' } {
+    const token = this.peek();
+    if (token.kind !== 'identifier') {
+      this.fail(`Expected ${what}, found ${this.describe(token)}`, token.pos);
+    }
+    this.index++;
+    return token as Token & { kind: 'identifier' };
+  }
+
+  private describe(token: Token): string {
+    switch (token.kind) {
+      case 'eof': return 'end of condition';
+      case 'string': return `string "${token.value}"`;
+      case 'regex': return `regex ${token.value}`;
+      default: return `"${token.value}"`;
+    }
+  }
+
+  private fail(detail: string, position: number): never {
+    throw new ConditionError('syntax', detail, this.source, position);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Type checker
+// ---------------------------------------------------------------------------
+
+/**
+ * Convert a workflow's JSON variable declarations into condition types
+ */
+export function toConditionType(declaration: VariableDeclaration): ConditionType {
+  if (typeof declaration === 'string') {
+    if (!['string', 'number', 'boolean', 'any'].includes(declaration)) {
+      throw new Error(`Unknown variable type "${declaration}" (expected string, number, boolean or any)`);
+    }
+    return declaration as ConditionType;
+  }
+  if (Array.isArray(declaration)) {
+    if (declaration.length !== 1) {
+      throw new Error('List declarations take exactly one element type, e.g. ["string"]');
+    }
+    return { kind: 'list', of: toConditionType(declaration[0]) };
+  }
+  return {
+    kind: 'object',
+    fields: Object.fromEntries(Object.entries(declaration).map(([name, field]) => [name, toConditionType(field)])),
+  };
+}
+
+function typeName(type: ConditionType): string {
+  if (typeof type === 'string') return type;
+  if (type.kind === 'list') return `list of ${typeName(type.of)}`;
+  return 'object';
+}
+
+function isAny(type: ConditionType): boolean {
+  return type === 'any';
+}
+
+function isType(type: ConditionType, expected: 'string' | 'number' | 'boolean'): boolean {
+  return type === expected || type === 'any';
+}
+
+function isList(type: ConditionType): type is { kind: 'list'; of: ConditionType } {
+  return typeof type === 'object' && type.kind === 'list';
+}
+
+function comparable(a: ConditionType, b: ConditionType): boolean {
+  if (isAny(a) || isAny(b) || a === 'null' || b === 'null') return true;
+  if (typeof a === 'string' || typeof b === 'string') return a === b;
+  if (a.kind === 'list' && b.kind === 'list') return comparable(a.of, b.of);
+  return a.kind === b.kind;
+}
+
+/**
+ * Closest name by edit distance, for "did you mean" hints
+ */
+function suggest(name: string, candidates: string[]): string {
+  let best: { candidate: string; distance: number } | null = null;
+
+  for (const candidate of candidates) {
+    const d: number[][] = Array.from({ length: name.length + 1 }, (_, i) => [i, ...Array(candidate.length).fill(0)]);
+    for (let j = 1; j <= candidate.length; j++) d[0][j] = j;
+    for (let i = 1; i <= name.length; i++) {
+      for (let j = 1; j <= candidate.length; j++) {
+        d[i][j] = Math.min(
+          d[i - 1][j] + 1,
+          d[i][j - 1] + 1,
+          d[i - 1][j - 1] + (name[i - 1].toLowerCase() === candidate[j - 1].toLowerCase() ? 0 : 1)
+        );
+      }
+    }
+    const distance = d[name.length][candidate.length];
+    if (distance <= Math.max(2, Math.floor(name.length / 3)) && (!best || distance < best.distance)) {
+      best = { candidate, distance };
+    }
+  }
+
+  return best ? ` Did you mean "${best.candidate}"?` : '';
+}
+
+class TypeChecker {
+  constructor(private readonly variables: Record<string, ConditionType>, private readonly source: string) {}
+
+  check(node: Node): ConditionType {
+    switch (node.type) {
+      case 'literal':
+        return node.value === null ? 'null' : (typeof node.value as 'string' | 'number' | 'boolean');
+
+      case 'regex':
+        return 'regex';
+
+      case 'range':
+        return 'range';
+
+      case 'list': {
+        const types = node.items.map((item) => this.check(item));
+        const first = types.find((t) => t !== 'null') || 'any';
+        types.forEach((t, i) => {
+          if (!comparable(first, t)) {
+            this.fail(`List items must share one type, found ${typeName(first)} and ${typeName(t)}`, node.items[i].pos);
+          }
+        });
+        return { kind: 'list', of: first };
+      }
+
+      case 'identifier': {
+        const type = this.variables[node.name];
+        if (!type) {
+          const names = Object.keys(this.variables);
+          this.fail(`Unknown variable "${node.name}".${suggest(node.name, names)} Declared: ${names.join(', ') || 'none'}`, node.pos);
+        }
+        return type;
+      }
+
+      case 'member': {
+        const objectType = this.check(node.object);
+        if (isAny(objectType)) return 'any';
+        if (node.property === 'length' && (objectType === 'string' || isList(objectType))) return 'number';
+        if (typeof objectType === 'object' && objectType.kind === 'object') {
+          const field = objectType.fields[node.property];
+          if (!field) {
+            const names = Object.keys(objectType.fields);
+            this.fail(`Unknown field "${node.property}".${suggest(node.property, names)} Declared fields: ${names.join(', ')}`, node.pos);
+          }
+          return field;
+        }
+        return this.fail(`Cannot read "${node.property}" of ${typeName(objectType)}`, node.pos);
+      }
+
+      case 'index': {
+        const objectType = this.check(node.object);
+        const indexType = this.check(node.index);
+        if (isAny(objectType)) return 'any';
+        if (isList(objectType)) {
+          if (!isType(indexType, 'number')) this.fail(`List index must be a number, found ${typeName(indexType)}`, node.index.pos);
+          return objectType.of;
+        }
+        if (typeof objectType === 'object' && objectType.kind === 'object') {
+          if (!isType(indexType, 'string')) this.fail(`Field name must be a string, found ${typeName(indexType)}`, node.index.pos);
+          return 'any';
+        }
+        return this.fail(`Cannot index ${typeName(objectType)}`, node.pos);
+      }
+
+      case 'call':
+        return node.target ? this.checkMethod(node) : this.checkFunction(node);
+
+      case 'unary': {
+        const operand = this.check(node.operand);
+        if (!isType(operand, 'boolean')) this.fail(`"!" expects a boolean, found ${typeName(operand)}`, node.pos);
+        return 'boolean';
+      }
+
+      case 'binary':
+        return this.checkBinary(node);
+    }
+  }
+
+  private checkBinary(node: Node & { type: 'binary' }): ConditionType {
+    const left = this.check(node.left);
+    const right = this.check(node.right);
+
+    switch (node.operator) {
+      case '&&':
+      case '||':
+        if (!isType(left, 'boolean')) this.fail(`"${node.operator}" expects booleans, found ${typeName(left)}`, node.left.pos);
+        if (!isType(right, 'boolean')) this.fail(`"${node.operator}" expects booleans, found ${typeName(right)}`, node.right.pos);
+        return 'boolean';
+
+      case '===':
+      case '!==':
+        if (!comparable(left, right)) {
+          this.fail(`Cannot compare ${typeName(left)} with ${typeName(right)}`, node.pos);
+        }
+        return 'boolean';
+
+      case '<':
+      case '<=':
+      case '>':
+      case '>=': {
+        const ok = (isType(left, 'number') && isType(right, 'number')) || (isType(left, 'string') && isType(right, 'string'));
+        if (!ok) this.fail(`"${node.operator}" needs two numbers or two strings, found ${typeName(left)} and ${typeName(right)}`, node.pos);
+        return 'boolean';
+      }
+
+      case 'in':
+        if (right === 'range') {
+          if (!isType(left, 'number')) this.fail(`Range membership needs a number, found ${typeName(left)}`, node.left.pos);
+        } else if (isList(right)) {
+          if (!comparable(left, right.of)) this.fail(`Cannot look for ${typeName(left)} in ${typeName(right)}`, node.pos);
+        } else if (right === 'string') {
+          if (!isType(left, 'string')) this.fail(`Substring check needs a string, found ${typeName(left)}`, node.left.pos);
+        } else if (!isAny(right)) {
+          this.fail(`"in" expects a list, string or range, found ${typeName(right)}`, node.right.pos);
+        }
+        return 'boolean';
+
+      case 'matches':
+        if (!isType(left, 'string')) this.fail(`"matches" needs a string, found ${typeName(left)}`, node.left.pos);
+        return 'boolean';
+    }
+
+    return this.fail(`Unknown operator "${node.operator}"`, node.pos);
+  }
+
+  private checkMethod(node: Node & { type: 'call' }): ConditionType {
+    const target = this.check(node.target!);
+    const args = node.args.map((arg) => this.check(arg));
+
+    const expectArgs = (count: number) => {
+      if (args.length !== count) this.fail(`.${node.callee}() takes ${count} argument(s), got ${args.length}`, node.pos);
+    };
+
+    if (node.callee === 'includes') {
+      expectArgs(1);
+      if (isAny(target)) return 'boolean';
+      if (target === 'string') {
+        if (!isType(args[0], 'string')) this.fail(`.includes() on a string needs a string, found ${typeName(args[0])}`, node.args[0].pos);
+        return 'boolean';
+      }
+      if (isList(target)) {
+        if (!comparable(target.of, args[0])) this.fail(`Cannot look for ${typeName(args[0])} in ${typeName(target)}`, node.args[0].pos);
+        return 'boolean';
+      }
+    }
+
+    if (node.callee === 'startsWith' || node.callee === 'endsWith') {
+      expectArgs(1);
+      if (isType(target, 'string')) {
+        if (!isType(args[0], 'string')) this.fail(`.${node.callee}() needs a string, found ${typeName(args[0])}`, node.args[0].pos);
+        return 'boolean';
+      }
+    }
+
+    if (!['includes', 'startsWith', 'endsWith'].includes(node.callee)) {
+      return this.fail(`Unknown method ".${node.callee}()" (available: includes, startsWith, endsWith)`, node.pos);
+    }
+    return this.fail(`.${node.callee}() is not available on ${typeName(target)}`, node.pos);
+  }
+
+  private checkFunction(node: Node & { type: 'call' }): ConditionType {
+    const args = node.args.map((arg) => this.check(arg));
+    if (args.length !== 1) {
+      this.fail(`${node.callee}() takes 1 argument, got ${args.length}`, node.pos);
+    }
+
+    switch (node.callee) {
+      case 'lower':
+      case 'upper':
+        if (!isType(args[0], 'string') && args[0] !== 'null') this.fail(`${node.callee}() needs a string, found ${typeName(args[0])}`, node.args[0].pos);
+        return 'string';
+      case 'len':
+        if (!isType(args[0], 'string') && !isList(args[0]) && args[0] !== 'null') {
+          this.fail(`len() needs a string or list, found ${typeName(args[0])}`, node.args[0].pos);
+        }
+        return 'number';
+    }
+
+    return this.fail(`Unknown function "${node.callee}()"${suggest(node.callee, ['lower', 'upper', 'len'])} Available: lower, upper, len`, node.pos);
+  }
+
+  private fail(detail: string, position: number): never {
+    throw new ConditionError('type', detail, this.source, position);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Evaluator
+// ---------------------------------------------------------------------------
+
+function readProperty(value: any, property: string): any {
+  if (value === null || value === undefined) return null;
+  if (property === 'length' && (typeof value === 'string' || Array.isArray(value))) return value.length;
+  // Own, plain data only - no prototype or accessor lookups
+  if (typeof value !== 'object' || !Object.prototype.hasOwnProperty.call(value, property)) return null;
+  const result = value[property];
+  return typeof result === 'function' ? null : result ?? null;
+}
+
+function strictEquals(a: any, b: any): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => strictEquals(item, b[i]));
+  }
+  return a === b;
+}
+
+function evaluate(node: Node, scope: Record<string, any>): any {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'regex':
+      return node.value;
+
+    case 'range':
+      return node;
+
+    case 'list':
+      return node.items.map((item) => evaluate(item, scope));
+
+    case 'identifier':
+      return Object.prototype.hasOwnProperty.call(scope, node.name) ? scope[node.name] ?? null : null;
+
+    case 'member':
+      return readProperty(evaluate(node.object, scope), node.property);
+
+    case 'index': {
+      const object = evaluate(node.object, scope);
+      const index = evaluate(node.index, scope);
+      if (Array.isArray(object) && typeof index === 'number') return object[index] ?? null;
+      return typeof index === 'string' ? readProperty(object, index) : null;
+    }
+
+    case 'call': {
+      const args = node.args.map((arg) => evaluate(arg, scope));
+      if (node.target) {
+        const target = evaluate(node.target, scope);
+        if (typeof target === 'string' && typeof args[0] === 'string') {
+          if (node.callee === 'includes') return target.includes(args[0]);
+          if (node.callee === 'startsWith') return target.startsWith(args[0]);
+          if (node.callee === 'endsWith') return target.endsWith(args[0]);
+        }
+        if (Array.isArray(target) && node.callee === 'includes') {
+          return target.some((item) => strictEquals(item, args[0]));
+        }
+        return false;
+      }
+      const [arg] = args;
+      if (node.callee === 'lower') return typeof arg === 'string' ? arg.toLowerCase() : null;
+      if (node.callee === 'upper') return typeof arg === 'string' ? arg.toUpperCase() : null;
+      if (node.callee === 'len') return typeof arg === 'string' || Array.isArray(arg) ? arg.length : 0;
+      return null;
+    }
+
+    case 'unary':
+      return evaluate(node.operand, scope) !== true;
+
+    case 'binary': {
+      // Short-circuit boolean operators
+      if (node.operator === '&&') return evaluate(node.left, scope) === true && evaluate(node.right, scope) === true;
+      if (node.operator === '||') return evaluate(node.left, scope) === true || evaluate(node.right, scope) === true;
+
+      const left = evaluate(node.left, scope);
+      const right = evaluate(node.right, scope);
+
+      switch (node.operator) {
+        case '===': return strictEquals(left, right);
+        case '!==': return !strictEquals(left, right);
+        case '<':
+        case '<=':
+        case '>':
+        case '>=': {
+          const ordered = (typeof left === 'number' && typeof right === 'number')
+            || (typeof left === 'string' && typeof right === 'string');
+          if (!ordered) return false;
+          if (node.operator === '<') return left < right;
+          if (node.operator === '<=') return left <= right;
+          if (node.operator === '>') return left > right;
+          return left >= right;
+        }
+        case 'in':
+          if (right && right.type === 'range') return typeof left === 'number' && left >= right.min && left <= right.max;
+          if (Array.isArray(right)) return right.some((item) => strictEquals(item, left));
+          if (typeof right === 'string') return typeof left === 'string' && right.includes(left);
+          return false;
+        case 'matches':
+          if (typeof left !== 'string') return false;
+          (right as RegExp).lastIndex = 0;
+          return (right as RegExp).test(left.slice(0, MAX_MATCH_INPUT));
+      }
+      return false;
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export interface CompiledCondition {
+  source: string;
+  /** Evaluate against a scope of variables; anything but `true` is false */
+  evaluate(scope: Record<string, any>): boolean;
+}
+
+/**
+ * Parse a condition (syntax only)
+ */
+function parse(source: string): Node {
+  if (source.length > MAX_SOURCE_LENGTH) {
+    throw new ConditionError('syntax', `Condition is longer than ${MAX_SOURCE_LENGTH} characters`, source.slice(0, 60) + '…');
+  }
+  if (!source.trim()) {
+    throw new ConditionError('syntax', 'Condition is empty', source);
+  }
+  return new Parser(tokenize(source), source).parse();
+}
+
+/**
+ * Parse and type-check a condition against declared variables.
+ * Throws ConditionError on the first problem.
+ */
+export function compileCondition(source: string, variables: VariableDeclarations): CompiledCondition {
+  const ast = parse(source);
+  const types = Object.fromEntries(Object.entries(variables).map(([name, decl]) => [name, toConditionType(decl)]));
+  const resultType = new TypeChecker(types, source).check(ast);
+
+  if (!isType(resultType, 'boolean')) {
+    throw new ConditionError('type', `Condition must be a boolean, found ${typeName(resultType)}`, source, 0);
+  }
+
+  return {
+    source,
+    evaluate: (scope) => evaluate(ast, scope) === true,
+  };
+}
+
+/**
+ * Validate a condition, returning the error instead of throwing
+ */
+export function checkCondition(source: string, variables: VariableDeclarations): ConditionError | null {
+  try {
+    compileCondition(source, variables);
+    return null;
+  } catch (error) {
+    if (error instanceof ConditionError) return error;
+    return new ConditionError('type', error instanceof Error ? error.message : String(error), source);
+  }
+}
+
+/**
+ * Variables available to every condition; workflows declare the rest
+ * in DiagnosticWorkflow.contextVariables
+ */
+export const BUILTIN_CONDITION_VARIABLES: VariableDeclarations = {
+  answer: 'string', // User's reply, normalized to a canonical keyword (yes, no, green, ...) when it matches one
+  answerText: 'string', // User's reply, lowercased
+  userId: 'string',
+  tools: 'any', // Tool results by tool name
+};
+
+export interface WorkflowConditionIssue {
+  workflowId: string;
+  stepId: string;
+  nextStepId: string;
+  condition: string;
+  error: ConditionError;
+}
+
+/**
+ * All variables a workflow's conditions can reference
+ */
+export function getConditionVariables(workflow: Pick<DiagnosticWorkflow, 'contextVariables'>): VariableDeclarations {
+  return { ...BUILTIN_CONDITION_VARIABLES, ...(workflow.contextVariables || {}) };
+}
+
+/**
+ * Type-check every branch condition in a workflow
+ */
+export function validateWorkflowConditions(workflow: DiagnosticWorkflow): WorkflowConditionIssue[] {
+  const variables = getConditionVariables(workflow);
+  const issues: WorkflowConditionIssue[] = [];
+
+  for (const step of workflow.steps) {
+    for (const next of step.nextSteps || []) {
+      if (!next.condition) continue;
+
+      const error = checkCondition(next.condition, variables);
+      if (error) {
+        issues.push({ workflowId: workflow.id, stepId: step.id, nextStepId: next.nextStepId, condition: next.condition, error });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Throw if any workflow has an invalid condition (used at load time)
+ */
+export function assertValidWorkflowConditions(workflows: DiagnosticWorkflow[]): void {
+  const issues = workflows.flatMap((workflow) => validateWorkflowConditions(workflow));
+
+  if (issues.length > 0) {
+    const details = issues
+      .map((issue) => `[${issue.workflowId} / ${issue.stepId} → ${issue.nextStepId}] ${issue.error.message}`)
+      .join('\n');
+    throw new Error(`Invalid workflow conditions:\n${details}`);
+  }
+}
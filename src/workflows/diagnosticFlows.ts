@@ -3,6 +3,9 @@
  * Decision trees for common EV charging issues with step-by-step troubleshooting
  */
 
+import { assertValidWorkflowConditions, VariableDeclarations } from './conditionLanguage';
+import type { WorkflowToolCall } from './workflowTools';
+
 export interface WorkflowStep {
   id: string;
   type: 'question' | 'action' | 'check' | 'resolution' | 'escalation';
@@ -18,13 +21,11 @@ export interface WorkflowStep {
   // For resolution: successful outcome
   // For escalation: when to hand off to human
   nextSteps?: {
-    condition?: string; // e.g., "answer === 'yes'", "status === 'offline'"
+    condition?: string; // Condition language, see conditionLanguage.ts. e.g. 'answer === "yes"', 'lower(status) in ["offline", "unavailable"]'
     nextStepId: string;
   }[];
-  toolCall?: {
-    toolName: string;
-    params: Record<string, any>;
-  };
+  // Run by the engine when the flow reaches the step; see workflowTools.ts
+  toolCall?: WorkflowToolCall;
   escalationTrigger?: {
     reason: string;
     urgency: 'low' | 'medium' | 'high' | 'critical';
@@ -55,6 +56,9 @@ export interface DiagnosticWorkflow {
   steps: WorkflowStep[];
   category: 'charging' | 'payment' | 'technical' | 'app' | 'account';
   priority: 'high' | 'medium' | 'low';
+  // Context variables branch conditions may use, on top of the built-ins
+  // (answer, answerText, userId, tools)
+  contextVariables?: VariableDeclarations;
 }
 
 /**
@@ -88,6 +92,12 @@ export const chargingWontStartWorkflow: DiagnosticWorkflow = {
   successRate: 0.85,
   category: 'charging',
   priority: 'high',
+  contextVariables: {
+    status: 'string',
+    session: { userId: 'string', status: 'string' },
+    resetAction: { success: 'boolean', status: 'string', actionId: 'string' },
+    resetSuccess: 'boolean',
+  },
   steps: [
     {
       id: 'step1-empathy',
@@ -125,14 +135,15 @@ export const chargingWontStartWorkflow: DiagnosticWorkflow = {
         ar: 'لحظة، أتحقق من حالة المحطة...',
       },
       toolCall: {
-        toolName: 'ampecoStationStatus',
+        toolName: 'stationStatus',
         params: { stationId: '{userInput}' },
+        assign: { stationId: 'stationId', status: 'status' },
       },
       nextSteps: [
-        { condition: 'status === "offline"', nextStepId: 'step4a-station-offline' },
-        { condition: 'status === "available"', nextStepId: 'step4b-station-available' },
-        { condition: 'status === "occupied"', nextStepId: 'step4c-station-occupied' },
-        { condition: 'status === "error"', nextStepId: 'step4d-station-error' },
+        { condition: 'lower(status) in ["offline", "unavailable"]', nextStepId: 'step4a-station-offline' },
+        { condition: 'lower(status) in ["available", "online"]', nextStepId: 'step4b-station-available' },
+        { condition: 'lower(status) in ["occupied", "charging"]', nextStepId: 'step4c-station-occupied' },
+        { condition: 'lower(status) in ["error", "faulted"]', nextStepId: 'step4d-station-error' },
       ],
     },
     {
@@ -173,8 +184,9 @@ export const chargingWontStartWorkflow: DiagnosticWorkflow = {
         ar: 'أرى أن المحطة قيد الاستخدام بالفعل. هل هذه جلسة الشحن الخاصة بك؟',
       },
       toolCall: {
-        toolName: 'ampecoActiveSession',
-        params: { stationId: '{userInput}' },
+        toolName: 'activeSession',
+        params: { stationId: '{stationId}' },
+        assign: { session: '$' },
       },
       nextSteps: [
         { condition: 'session.userId === userId', nextStepId: 'step6-already-charging' },
@@ -185,20 +197,51 @@ export const chargingWontStartWorkflow: DiagnosticWorkflow = {
       id: 'step4d-station-error',
       type: 'action',
       content: {
-        he: 'אני רואה שיש שגיאה בעמדה. תן לי רגע לנסות לאפס אותה...',
-        en: 'I see there\'s an error on the station. Let me try to reset it...',
-        ru: 'Я вижу ошибку на станции. Позвольте мне попытаться сбросить ее...',
-        ar: 'أرى أن هناك خطأ في المحطة. دعني أحاول إعادة تعيينها...',
+        he: 'אני רואה שיש שגיאה בעמדה. אתחול מרחוק בדרך כלל פותר את זה...',
+        en: 'I see there\'s an error on the station. A remote reset usually fixes this...',
+        ru: 'Я вижу ошибку на станции. Обычно это исправляет удаленный сброс...',
+        ar: 'أرى أن هناك خطأ في المحطة. عادةً ما تحل إعادة التعيين عن بُعد هذه المشكلة...',
       },
+      // Only proposes the reset; the user confirms it on the request itself, never through the workflow
       toolCall: {
-        toolName: 'ampecoResetStation',
-        params: { stationId: '{userInput}' },
+        toolName: 'resetStation',
+        params: { stationId: '{stationId}' },
+        assign: { resetAction: '$' },
+        dryRunResult: { success: true, status: 'pending_confirmation', actionId: 'dry-run' },
+      },
+      nextSteps: [
+        { condition: 'resetAction.status === "pending_confirmation"', nextStepId: 'step4e-confirm-reset' },
+        { nextStepId: 'step9-reset-failed' },
+      ],
+    },
+    {
+      id: 'step4e-confirm-reset',
+      type: 'question',
+      content: {
+        he: 'הכנתי בקשת איפוס לעמדה: היא תופעל מחדש (30-60 שניות) וכל טעינה פעילה בה תיעצר. האיפוס יישלח רק אחרי שתלחץ "אישור" בבקשה. אחרי שהעמדה עולה, נסה להתחיל טעינה שוב - האם היא טוענת עכשיו?',
+        en: 'I\'ve prepared a reset request for the station: it restarts (30-60 seconds) and any active session on it stops. The reset is only sent once you press Confirm on the request. After the station is back up, try starting the charge again - is it charging now?',
+        ru: 'Я подготовил запрос на сброс станции: она перезапустится (30-60 секунд), и любая активная зарядка на ней остановится. Сброс будет отправлен только после того, как вы нажмете «Подтвердить» в запросе. Когда станция снова заработает, попробуйте начать зарядку еще раз - зарядка идет?',
+        ar: 'لقد جهزت طلب إعادة تعيين للمحطة: ستُعاد تشغيلها (30-60 ثانية) وستتوقف أي جلسة شحن نشطة عليها. لن تُرسل إعادة التعيين إلا بعد الضغط على "تأكيد" في الطلب. بعد عودة المحطة للعمل، حاول بدء الشحن مرة أخرى - هل يتم الشحن الآن؟',
       },
       nextSteps: [
-        { condition: 'resetSuccess === true', nextStepId: 'step8-reset-success' },
-        { condition: 'resetSuccess === false', nextStepId: 'step9-reset-failed' },
+        { condition: 'answer === "yes"', nextStepId: 'step8-reset-success' },
+        { condition: 'answer === "no"', nextStepId: 'step4f-reset-not-resolved' },
       ],
     },
+    {
+      id: 'step4f-reset-not-resolved',
+      type: 'escalation',
+      content: {
+        he: 'בסדר, העמדה עדיין לא עובדת. אני מעביר אותך לנציג אנושי שיבדוק את התקלה.',
+        en: 'OK, the station still isn\'t working. I\'m connecting you to a human agent who will look into the fault.',
+        ru: 'Хорошо, станция все еще не работает. Я соединяю вас с оператором, который разберется с неисправностью.',
+        ar: 'حسنًا، المحطة لا تزال لا تعمل. أقوم بتوصيلك بوكيل بشري سيفحص العطل.',
+      },
+      escalationTrigger: {
+        reason: 'Station error - not cleared by a remote reset (declined or ineffective)',
+        urgency: 'medium',
+      },
+    },
     {
       id: 'step5a-cable-connected',
       type: 'question',
@@ -248,10 +291,10 @@ export const chargingWontStartWorkflow: DiagnosticWorkflow = {
       id: 'step8-reset-success',
       type: 'resolution',
       content: {
-        he: 'מצוין! איפסתי את העמדה. תנסה עכשיו לחבר את הכבל ולהתחיל טעינה. זה אמור לעבוד עכשיו.',
-        en: 'Great! I\'ve reset the station. Try connecting the cable and starting charging now. It should work now.',
-        ru: 'Отлично! Я сбросил станцию. Попробуйте подключить кабель и начать зарядку сейчас. Теперь должно работать.',
-        ar: 'رائع! لقد قمت بإعادة تعيين المحطة. حاول توصيل الكابل وبدء الشحن الآن. يجب أن يعمل الآن.',
+        he: 'מצוין! האיפוס פתר את התקלה. טעינה נעימה!',
+        en: 'Great! The reset cleared the fault. Enjoy your charge!',
+        ru: 'Отлично! Сброс устранил неисправность. Приятной зарядки!',
+        ar: 'رائع! لقد أصلحت إعادة التعيين العطل. شحن ممتع!',
       },
     },
     {
@@ -319,8 +362,9 @@ export const chargingWontStartWorkflow: DiagnosticWorkflow = {
         ar: 'دعني أتحقق من بدء الشحن في النظام...',
       },
       toolCall: {
-        toolName: 'ampecoActiveSession',
-        params: { userId: '{userId}' },
+        toolName: 'activeSession',
+        params: {}, // Tools run as the session's user, see workflowEngine
+        assign: { session: '$' },
       },
       nextSteps: [
         { condition: 'session.status === "active"', nextStepId: 'step18-charging-active' },
@@ -433,6 +477,9 @@ export const slowChargingWorkflow: DiagnosticWorkflow = {
   successRate: 0.78,
   category: 'charging',
   priority: 'medium',
+  contextVariables: {
+    power: 'number',
+  },
   steps: [
     {
       id: 'slow-step1',
@@ -457,8 +504,9 @@ export const slowChargingWorkflow: DiagnosticWorkflow = {
         ar: 'دعني أتحقق من حالة المحطة وسيارتك...',
       },
       toolCall: {
-        toolName: 'ampecoActiveSession',
-        params: { userId: '{userId}' },
+        toolName: 'activeSession',
+        params: {},
+        assign: { power: 'powerKw' },
       },
       nextSteps: [
         { condition: 'power < 10', nextStepId: 'slow-step3-very-slow' },
@@ -510,7 +558,7 @@ export const slowChargingWorkflow: DiagnosticWorkflow = {
       },
       toolCall: {
         toolName: 'semanticSearch',
-        params: { query: 'max charging speed {vehicle}' },
+        params: { query: 'max charging speed {userInput}' }, // The reply to "What vehicle do you have?"
       },
       nextSteps: [
         { nextStepId: 'slow-step7-explain-limit' },
@@ -573,9 +621,9 @@ export const paymentIssueWorkflow: DiagnosticWorkflow = {
         ar: 'أنا هنا للمساعدة في مشكلة الدفع. ماذا حدث بالضبط؟',
       },
       nextSteps: [
-        { condition: 'issue.includes("declined")', nextStepId: 'pay-step2-declined' },
-        { condition: 'issue.includes("overcharged") || issue.includes("wrong amount")', nextStepId: 'pay-step3-overcharged' },
-        { condition: 'issue.includes("refund")', nextStepId: 'pay-step4-refund' },
+        { condition: 'answerText matches /declin|נדח|отклон|رفض/i', nextStepId: 'pay-step2-declined' },
+        { condition: 'answerText matches /overcharg|wrong amount|יותר מדי|סכום שגוי|переплат|неправильн|مبلغ خاطئ|زائد/i', nextStepId: 'pay-step3-overcharged' },
+        { condition: 'answerText matches /refund|החזר|возврат|استرداد/i', nextStepId: 'pay-step4-refund' },
       ],
     },
     {
@@ -598,8 +646,8 @@ export const paymentIssueWorkflow: DiagnosticWorkflow = {
         ar: 'أتحقق من سجلك...',
       },
       toolCall: {
-        toolName: 'ampecoSessionHistory',
-        params: { userId: '{userId}' },
+        toolName: 'sessionHistory',
+        params: {},
       },
       nextSteps: [
         { nextStepId: 'pay-step5-explain-charge' },
@@ -638,3 +686,6 @@ export const DIAGNOSTIC_WORKFLOWS: DiagnosticWorkflow[] = [
   slowChargingWorkflow,
   paymentIssueWorkflow,
 ];
+
+// Fail fast on a broken branch condition rather than mid-conversation
+assertValidWorkflowConditions(DIAGNOSTIC_WORKFLOWS);
@@ -0,0 +1,311 @@
+/**
+ * Workflow Tools
+ * Agent tools a workflow step may reference in toolCall.toolName, and the
+ * executor the engine uses to run them.
+ * Names are the agent's tool keys (see edgeControlAgent tools). stopCharging,
+ * resetStation and unlockConnector only propose a command: the user confirms
+ * it on the request itself (button or chat), never through a workflow step.
+ *
+ * Params are templated from the session context: "{stationId}" or
+ * "{tools.stationStatus.status}" resolve to context values and
+ * "{userInput}" to the reply being processed. A param that is exactly one
+ * placeholder keeps the value's type; placeholders inside longer strings are
+ * interpolated.
+ */
+
+import type { RuntimeContext } from '@mastra/core/runtime-context';
+import { logger } from '../utils/logger';
+
+export const WORKFLOW_TOOL_NAMES = [
+  // Charging backend
+  'stationStatus',
+  'activeSession',
+  'sessionHistory',
+  'stationTariff',
+  'startCharging',
+  'stopCharging',
+  'resetStation',
+  'unlockConnector',
+
+  // Knowledge base and charger database
+  'semanticSearch',
+  'lookupErrorCode',
+  'searchTroubleshooting',
+  'getChargerSpecs',
+  'checkVehicleCompatibility',
+] as const;
+
+export type WorkflowToolName = typeof WORKFLOW_TOOL_NAMES[number];
+
+/**
+ * Tools without side effects. Only these are retried: a timed-out call isn't
+ * cancelled, so retrying startCharging could send a second remote start.
+ */
+export const READ_ONLY_WORKFLOW_TOOLS: readonly WorkflowToolName[] = [
+  'stationStatus',
+  'activeSession',
+  'sessionHistory',
+  'stationTariff',
+  'semanticSearch',
+  'lookupErrorCode',
+  'searchTroubleshooting',
+  'getChargerSpecs',
+  'checkVehicleCompatibility',
+];
+
+export function isWorkflowTool(toolName: string): toolName is WorkflowToolName {
+  return (WORKFLOW_TOOL_NAMES as readonly string[]).includes(toolName);
+}
+
+export function isReadOnlyWorkflowTool(toolName: string): boolean {
+  return (READ_ONLY_WORKFLOW_TOOLS as readonly string[]).includes(toolName);
+}
+
+/**
+ * A step's toolCall as declared in a workflow definition
+ */
+export interface WorkflowToolCall {
+  toolName: string;
+  params: Record<string, any>;
+  assign?: Record<string, string>; // Context variable → path in the result ("$" = whole result)
+  timeoutMs?: number;
+  retries?: number; // Extra attempts after a thrown error or timeout (read-only tools only)
+  dryRunResult?: Record<string, any>; // Result used instead of calling the tool in dry-run mode
+}
+
+/**
+ * The subset of a Mastra tool the executor needs
+ */
+export interface WorkflowExecutableTool {
+  inputSchema?: { safeParse(input: unknown): { success: boolean; data?: any; error?: { message: string } } };
+  execute?: (context: any, options?: any) => Promise<any>;
+}
+
+export type WorkflowToolRunStatus = 'success' | 'failed' | 'timeout' | 'invalid_params' | 'dry_run';
+
+/**
+ * Audit record of one tool execution, stored in the session's stepHistory
+ */
+export interface WorkflowToolRun {
+  toolName: string;
+  params: Record<string, any>;
+  status: WorkflowToolRunStatus;
+  result: any;
+  error?: string;
+  attempts: number;
+  durationMs: number;
+  dryRun: boolean;
+}
+
+export interface WorkflowToolRunOptions {
+  context: Record<string, any>;
+  userInput?: string;
+  dryRun?: boolean;
+  runId?: string;
+  runtimeContext?: RuntimeContext; // Tool services for the session's user (see mastra/toolContext)
+}
+
+const PLACEHOLDER = /\{([a-zA-Z_][\w.]*)\}/g;
+const SINGLE_PLACEHOLDER = /^\{([a-zA-Z_][\w.]*)\}$/;
+
+export const DEFAULT_TOOL_TIMEOUT_MS = 15000;
+export const DEFAULT_TOOL_RETRIES = 1; // For read-only tools; others always run once
+const RETRY_DELAY_MS = 500;
+
+/**
+ * Read a dotted path ("session.userId") from a value; "$" or "" is the value itself
+ */
+export function getPath(value: any, path: string): any {
+  if (!path || path === '$') return value;
+  return path.split('.').reduce((current, key) => (current === null || current === undefined ? undefined : current[key]), value);
+}
+
+/**
+ * Fill "{placeholders}" in toolCall params from the session context.
+ * Throws if a placeholder has no value, so a tool never runs with a literal "{stationId}".
+ */
+export function renderToolParams(
+  params: Record<string, any>,
+  context: Record<string, any>,
+  userInput?: string
+): Record<string, any> {
+  const scope = { ...context, userInput: userInput ?? context.lastUserInput };
+
+  const lookup = (name: string) => {
+    const value = getPath(scope, name);
+    if (value === undefined || value === null || value === '') {
+      throw new Error(`No value for {${name}}`);
+    }
+    return value;
+  };
+
+  const render = (value: any): any => {
+    if (typeof value === 'string') {
+      const single = value.match(SINGLE_PLACEHOLDER);
+      if (single) {
+        const resolved = lookup(single[1]);
+        return typeof resolved === 'string' ? resolved.trim() : resolved;
+      }
+      return value.replace(PLACEHOLDER, (_, name: string) => String(lookup(name)));
+    }
+    if (Array.isArray(value)) {
+      return value.map(render);
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, nested]) => [key, render(nested)]));
+    }
+    return value;
+  };
+
+  return render(params);
+}
+
+/**
+ * Context updates for a finished run: the raw result under tools.<toolName>
+ * plus any variables the step assigns from it
+ */
+export function applyToolRun(
+  context: Record<string, any>,
+  toolCall: WorkflowToolCall,
+  run: WorkflowToolRun
+): Record<string, any> {
+  const updated: Record<string, any> = {
+    ...context,
+    tools: { ...(context.tools || {}), [toolCall.toolName]: run.result },
+  };
+
+  for (const [variable, path] of Object.entries(toolCall.assign || {})) {
+    const value = getPath(run.result, path);
+    if (value !== undefined) {
+      updated[variable] = value;
+    }
+  }
+
+  return updated;
+}
+
+export class WorkflowToolTimeoutError extends Error {
+  constructor(readonly toolName: string, readonly timeoutMs: number) {
+    super(`Tool ${toolName} timed out after ${timeoutMs}ms`);
+    this.name = 'WorkflowToolTimeoutError';
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, toolName: string): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new WorkflowToolTimeoutError(toolName, timeoutMs)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Workflow Tool Executor
+ * Runs a step's toolCall with templated params, a timeout and retries.
+ * Never throws: every outcome is returned as a WorkflowToolRun so the
+ * engine can record it and branch on it (tools.<name>.success is false on failure).
+ *
+ * Tools report business failures as { success: false } - those are returned
+ * as-is and not retried. Only thrown errors and timeouts of read-only tools
+ * are retried; a tool with side effects runs at most once.
+ */
+export class WorkflowToolExecutor {
+  constructor(
+    private tools: Record<string, WorkflowExecutableTool>,
+    private defaults: { timeoutMs?: number; retries?: number; dryRun?: boolean } = {}
+  ) {}
+
+  hasTool(toolName: string): boolean {
+    return Boolean(this.tools[toolName]?.execute);
+  }
+
+  async run(toolCall: WorkflowToolCall, options: WorkflowToolRunOptions): Promise<WorkflowToolRun> {
+    const startedAt = Date.now();
+    const dryRun = options.dryRun ?? this.defaults.dryRun ?? false;
+    const base = { toolName: toolCall.toolName, dryRun };
+
+    let params: Record<string, any>;
+    try {
+      params = renderToolParams(toolCall.params, options.context, options.userInput);
+    } catch (error) {
+      return this.failure(base, toolCall.params, 'invalid_params', error, 0, startedAt);
+    }
+
+    const tool = this.tools[toolCall.toolName];
+    if (!tool?.execute) {
+      return this.failure(base, params, 'failed', new Error(`Unknown workflow tool: ${toolCall.toolName}`), 0, startedAt);
+    }
+
+    let input = params;
+    if (tool.inputSchema) {
+      const parsed = tool.inputSchema.safeParse(params);
+      if (!parsed.success) {
+        return this.failure(base, params, 'invalid_params', new Error(parsed.error?.message || 'Invalid params'), 0, startedAt);
+      }
+      input = parsed.data;
+    }
+
+    if (dryRun) {
+      const result = toolCall.dryRunResult ?? { success: true, dryRun: true };
+      logger.info({ toolName: toolCall.toolName, params: input }, 'Workflow tool dry run');
+      return { ...base, params: input, status: 'dry_run', result, attempts: 0, durationMs: Date.now() - startedAt };
+    }
+
+    const timeoutMs = toolCall.timeoutMs ?? this.defaults.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS;
+    const retries = isReadOnlyWorkflowTool(toolCall.toolName)
+      ? toolCall.retries ?? this.defaults.retries ?? DEFAULT_TOOL_RETRIES
+      : 0;
+    const maxAttempts = 1 + Math.max(0, retries);
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        const result = await withTimeout(
+          tool.execute({ context: input, runId: options.runId, runtimeContext: options.runtimeContext }, { toolCallId: `${options.runId || 'workflow'}:${toolCall.toolName}:${attempt}`, messages: [] }),
+          timeoutMs,
+          toolCall.toolName
+        );
+
+        const succeeded = !(result && typeof result === 'object' && result.success === false);
+        return {
+          ...base,
+          params: input,
+          status: succeeded ? 'success' : 'failed',
+          result,
+          error: succeeded ? undefined : result.error,
+          attempts: attempt,
+          durationMs: Date.now() - startedAt,
+        };
+      } catch (error) {
+        lastError = error;
+        logger.warn({ toolName: toolCall.toolName, attempt, maxAttempts, error }, 'Workflow tool attempt failed');
+        if (attempt < maxAttempts) {
+          await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS * attempt));
+        }
+      }
+    }
+
+    const status = lastError instanceof WorkflowToolTimeoutError ? 'timeout' : 'failed';
+    return this.failure(base, input, status, lastError, maxAttempts, startedAt);
+  }
+
+  private failure(
+    base: { toolName: string; dryRun: boolean },
+    params: Record<string, any>,
+    status: WorkflowToolRunStatus,
+    error: unknown,
+    attempts: number,
+    startedAt: number
+  ): WorkflowToolRun {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      ...base,
+      params,
+      status,
+      result: { success: false, error: message },
+      error: message,
+      attempts,
+      durationMs: Date.now() - startedAt,
+    };
+  }
+}
@@ -0,0 +1,317 @@
+/**
+ * Workflow Validator
+ * Static checks for authored diagnostic workflows before they can be published:
+ * - Shape (zod schema)
+ * - Missing translations (he/en/ru/ar) in name, description and step content
+ * - Duplicate step ids and dangling nextStepIds
+ * - Steps unreachable from the first step
+ * - Cycles without an exit to a resolution or escalation
+ * - Unknown toolCall.toolName, retries on tools with side effects
+ * - Branch conditions (condition language type-check)
+ */
+
+import { z } from 'zod';
+import type { DiagnosticWorkflow } from './diagnosticFlows';
+import { toConditionType, validateWorkflowConditions } from './conditionLanguage';
+import { isReadOnlyWorkflowTool, WORKFLOW_TOOL_NAMES } from './workflowTools';
+
+export const WORKFLOW_LANGUAGES = ['he', 'en', 'ru', 'ar'] as const;
+
+export type ValidationIssueCode =
+  | 'invalid_shape'
+  | 'missing_translation'
+  | 'duplicate_step'
+  | 'dangling_next_step'
+  | 'unreachable_step'
+  | 'cycle_without_exit'
+  | 'dead_end'
+  | 'unknown_tool'
+  | 'unsafe_retries'
+  | 'invalid_condition'
+  | 'invalid_variables';
+
+export interface ValidationIssue {
+  code: ValidationIssueCode;
+  severity: 'error' | 'warning';
+  message: string;
+  stepId?: string;
+  path?: string;
+}
+
+export interface WorkflowValidationResult {
+  valid: boolean; // No errors (warnings allowed)
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+// Translations are checked separately so every missing language is reported
+const translatedText = z.record(z.string());
+
+const workflowStepSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(['question', 'action', 'check', 'resolution', 'escalation']),
+  content: translatedText,
+  nextSteps: z.array(z.object({
+    condition: z.string().optional(),
+    nextStepId: z.string().min(1),
+  })).optional(),
+  toolCall: z.object({
+    toolName: z.string().min(1),
+    params: z.record(z.any()),
+    assign: z.record(z.string()).optional(),
+    timeoutMs: z.number().int().positive().max(120000).optional(),
+    retries: z.number().int().min(0).max(5).optional(),
+    dryRunResult: z.record(z.any()).optional(),
+  }).optional(),
+  escalationTrigger: z.object({
+    reason: z.string(),
+    urgency: z.enum(['low', 'medium', 'high', 'critical']),
+  }).optional(),
+  analytics: z.object({
+    successRate: z.number().optional(),
+    avgTimeToComplete: z.number().optional(),
+  }).optional(),
+});
+
+export const workflowDefinitionSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'Workflow id must be lowercase letters, digits and dashes'),
+  name: translatedText,
+  description: translatedText,
+  triggers: z.array(z.string()),
+  estimatedTime: z.number().nonnegative(),
+  successRate: z.number().min(0).max(1),
+  steps: z.array(workflowStepSchema).min(1),
+  category: z.enum(['charging', 'payment', 'technical', 'app', 'account']),
+  priority: z.enum(['high', 'medium', 'low']),
+  contextVariables: z.record(z.any()).optional(),
+});
+
+const TERMINAL_STEP_TYPES = new Set(['resolution', 'escalation']);
+
+function checkTranslations(
+  text: Record<string, string> | undefined,
+  path: string,
+  issues: ValidationIssue[],
+  stepId?: string
+): void {
+  for (const language of WORKFLOW_LANGUAGES) {
+    if (!text?.[language]?.trim()) {
+      issues.push({
+        code: 'missing_translation',
+        severity: 'error',
+        message: `Missing ${language} translation for ${path}`,
+        stepId,
+        path: `${path}.${language}`,
+      });
+    }
+  }
+}
+
+/**
+ * Strongly connected components (Tarjan), used to find closed cycles
+ */
+function stronglyConnectedComponents(nodes: string[], edges: Map<string, string[]>): string[][] {
+  let index = 0;
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+
+  const visit = (node: string) => {
+    indices.set(node, index);
+    lowLinks.set(node, index);
+    index++;
+    stack.push(node);
+    onStack.add(node);
+
+    for (const next of edges.get(node) || []) {
+      if (!indices.has(next)) {
+        visit(next);
+        lowLinks.set(node, Math.min(lowLinks.get(node)!, lowLinks.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLinks.set(node, Math.min(lowLinks.get(node)!, indices.get(next)!));
+      }
+    }
+
+    if (lowLinks.get(node) === indices.get(node)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== node);
+      components.push(component);
+    }
+  };
+
+  for (const node of nodes) {
+    if (!indices.has(node)) visit(node);
+  }
+  return components;
+}
+
+/**
+ * Validate a workflow definition (typically authored JSON)
+ */
+export function validateWorkflowDefinition(
+  definition: unknown,
+  options: { knownToolNames?: readonly string[] } = {}
+): WorkflowValidationResult {
+  const issues: ValidationIssue[] = [];
+  const knownToolNames = options.knownToolNames || WORKFLOW_TOOL_NAMES;
+
+  const parsed = workflowDefinitionSchema.safeParse(definition);
+  if (!parsed.success) {
+    return {
+      valid: false,
+      errors: parsed.error.issues.map((issue) => ({
+        code: 'invalid_shape' as const,
+        severity: 'error' as const,
+        message: issue.message,
+        path: issue.path.join('.'),
+      })),
+      warnings: [],
+    };
+  }
+
+  const workflow = parsed.data as DiagnosticWorkflow;
+
+  checkTranslations(workflow.name, 'name', issues);
+  checkTranslations(workflow.description, 'description', issues);
+
+  // Step ids
+  const steps = new Map<string, DiagnosticWorkflow['steps'][number]>();
+  for (const step of workflow.steps) {
+    if (steps.has(step.id)) {
+      issues.push({ code: 'duplicate_step', severity: 'error', message: `Duplicate step id "${step.id}"`, stepId: step.id });
+    }
+    steps.set(step.id, step);
+  }
+
+  // Per-step checks and the step graph
+  const edges = new Map<string, string[]>();
+  for (const step of workflow.steps) {
+    checkTranslations(step.content, `steps.${step.id}.content`, issues, step.id);
+
+    const targets: string[] = [];
+    for (const next of step.nextSteps || []) {
+      if (!steps.has(next.nextStepId)) {
+        issues.push({
+          code: 'dangling_next_step',
+          severity: 'error',
+          message: `Step "${step.id}" points to missing step "${next.nextStepId}"`,
+          stepId: step.id,
+        });
+      } else {
+        targets.push(next.nextStepId);
+      }
+    }
+    edges.set(step.id, targets);
+
+    if (step.toolCall && !knownToolNames.includes(step.toolCall.toolName)) {
+      issues.push({
+        code: 'unknown_tool',
+        severity: 'error',
+        message: `Step "${step.id}" calls unknown tool "${step.toolCall.toolName}"`,
+        stepId: step.id,
+        path: `steps.${step.id}.toolCall.toolName`,
+      });
+    }
+
+    if (step.toolCall?.retries && !isReadOnlyWorkflowTool(step.toolCall.toolName)) {
+      issues.push({
+        code: 'unsafe_retries',
+        severity: 'warning',
+        message: `Step "${step.id}" sets retries on ${step.toolCall.toolName}, which has side effects and is never retried`,
+        stepId: step.id,
+        path: `steps.${step.id}.toolCall.retries`,
+      });
+    }
+
+    if (!TERMINAL_STEP_TYPES.has(step.type) && targets.length === 0 && (step.nextSteps || []).length === 0) {
+      issues.push({
+        code: 'dead_end',
+        severity: 'warning',
+        message: `Step "${step.id}" (${step.type}) has no next steps and is not a resolution or escalation`,
+        stepId: step.id,
+      });
+    }
+  }
+
+  // Reachability from the first step
+  const reachable = new Set<string>();
+  const queue = [workflow.steps[0].id];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (reachable.has(id)) continue;
+    reachable.add(id);
+    queue.push(...(edges.get(id) || []));
+  }
+  for (const step of workflow.steps) {
+    if (!reachable.has(step.id)) {
+      issues.push({
+        code: 'unreachable_step',
+        severity: 'error',
+        message: `Step "${step.id}" can't be reached from the first step "${workflow.steps[0].id}"`,
+        stepId: step.id,
+      });
+    }
+  }
+
+  // A cycle is only a problem if nothing in it leads out of it
+  for (const component of stronglyConnectedComponents([...steps.keys()], edges)) {
+    const members = new Set(component);
+    const isCycle = component.length > 1 || (edges.get(component[0]) || []).includes(component[0]);
+    if (!isCycle) continue;
+
+    const hasExit = component.some((id) =>
+      TERMINAL_STEP_TYPES.has(steps.get(id)!.type)
+      || (edges.get(id) || []).some((next) => !members.has(next))
+    );
+
+    if (!hasExit) {
+      issues.push({
+        code: 'cycle_without_exit',
+        severity: 'error',
+        message: `Steps ${component.map((id) => `"${id}"`).join(', ')} loop with no way out to a resolution or escalation`,
+        stepId: component[0],
+      });
+    }
+  }
+
+  // Declared context variables and branch conditions
+  let variablesValid = true;
+  for (const [name, declaration] of Object.entries(workflow.contextVariables || {})) {
+    try {
+      toConditionType(declaration);
+    } catch (error) {
+      variablesValid = false;
+      issues.push({
+        code: 'invalid_variables',
+        severity: 'error',
+        message: `Context variable "${name}": ${error instanceof Error ? error.message : String(error)}`,
+        path: `contextVariables.${name}`,
+      });
+    }
+  }
+
+  if (variablesValid) {
+    for (const issue of validateWorkflowConditions(workflow)) {
+      issues.push({
+        code: 'invalid_condition',
+        severity: 'error',
+        message: `Step "${issue.stepId}" → "${issue.nextStepId}": ${issue.error.message}`,
+        stepId: issue.stepId,
+      });
+    }
+  }
+
+  const errors = issues.filter((issue) => issue.severity === 'error');
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings: issues.filter((issue) => issue.severity === 'warning'),
+  };
+}
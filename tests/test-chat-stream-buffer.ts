@@ -0,0 +1,92 @@
+#!/usr/bin/env tsx
+/**
+ * Chat Stream Buffer Test
+ * Replays and resumes web chat runs from the buffer the SSE endpoints read:
+ * resume after a Last-Event-ID, a newer message superseding a running turn,
+ * and the per-run event cap, which never limits what live subscribers get
+ */
+
+import type { BufferedChatEvent } from '../src/utils/chatStreamBuffer';
+
+let failures = 0;
+function check(label: string, condition: boolean, detail?: any) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+  } else {
+    failures++;
+    console.log(`  ❌ ${label}`, detail ?? '');
+  }
+}
+
+const seqs = (events: BufferedChatEvent[]) => events.map((e) => e.seq).join();
+
+async function runTests() {
+  const { chatStreamBuffer, parseEventId } = await import('../src/utils/chatStreamBuffer');
+
+  console.log('\n🧪 replay and resume');
+  const { runId } = chatStreamBuffer.startRun('thread-resume');
+  chatStreamBuffer.append('thread-resume', runId, 'connection', { type: 'connected', runId });
+  chatStreamBuffer.append('thread-resume', runId, 'message', { type: 'text-delta', delta: 'Hel' });
+  const seen = chatStreamBuffer.append('thread-resume', runId, 'message', { type: 'text-delta', delta: 'lo' });
+
+  const live: string[] = [];
+  let liveDone = false;
+  chatStreamBuffer.subscribe('thread-resume', (e) => live.push(e.id), () => { liveDone = true; });
+  chatStreamBuffer.append('thread-resume', runId, 'message', { type: 'text-delta', delta: '!' });
+  chatStreamBuffer.append('thread-resume', runId, 'completion', { type: 'done', threadId: 'thread-resume' });
+  chatStreamBuffer.finishRun('thread-resume', runId);
+
+  check('event ids carry the run and sequence', parseEventId(seen?.id).runId === runId && parseEventId(seen?.id).seq === 3, seen);
+  const resumed = chatStreamBuffer.getEventsAfter('thread-resume', seen?.id);
+  check('resume replays only the events after Last-Event-ID', seqs(resumed) === '4,5', resumed);
+  check('no id replays the whole run', chatStreamBuffer.getEventsAfter('thread-resume', null).length === 5);
+  check('an id from another run replays the whole run', chatStreamBuffer.getEventsAfter('thread-resume', 'run-old:2').length === 5);
+  check('live subscribers get events and the end of the run', live.length === 2 && liveDone, live);
+  check('finished run stays available for resume', chatStreamBuffer.getRunStatus('thread-resume')?.done === true);
+  check('append after finish is dropped', chatStreamBuffer.append('thread-resume', runId, 'message', { type: 'text-delta', delta: 'late' }) === null);
+
+  console.log('\n🧪 superseded run');
+  const first = chatStreamBuffer.startRun('thread-superseded');
+  chatStreamBuffer.append('thread-superseded', first.runId, 'message', { type: 'text-delta', delta: 'first' });
+  const second = chatStreamBuffer.startRun('thread-superseded');
+  check('the superseded generation is aborted', first.signal.aborted && !second.signal.aborted);
+
+  const stale = chatStreamBuffer.append('thread-superseded', first.runId, 'message', { type: 'text-delta', delta: 'stale' });
+  chatStreamBuffer.finishRun('thread-superseded', first.runId);
+  check('stale append is dropped', stale === null);
+  check('stale finish leaves the new run running', chatStreamBuffer.getRunStatus('thread-superseded')?.runId === second.runId && !chatStreamBuffer.getRunStatus('thread-superseded')?.done);
+
+  chatStreamBuffer.append('thread-superseded', second.runId, 'message', { type: 'text-delta', delta: 'second' });
+  const events = chatStreamBuffer.getEventsAfter('thread-superseded', null);
+  check('new run only has its own events', events.length === 1 && events[0].data.delta === 'second' && events[0].seq === 1, events);
+  chatStreamBuffer.finishRun('thread-superseded', second.runId);
+
+  console.log('\n🧪 event cap');
+  const long = chatStreamBuffer.startRun('thread-long');
+  const liveLong: BufferedChatEvent[] = [];
+  chatStreamBuffer.subscribe('thread-long', (e) => liveLong.push(e), () => {});
+  for (let i = 0; i < 5100; i++) {
+    chatStreamBuffer.append('thread-long', long.runId, 'message', { type: 'text-delta', delta: 'x' });
+  }
+  chatStreamBuffer.append('thread-long', long.runId, 'usage', { type: 'usage', totalTokens: 5100 });
+  chatStreamBuffer.append('thread-long', long.runId, 'completion', { type: 'done', threadId: 'thread-long' });
+  chatStreamBuffer.finishRun('thread-long', long.runId);
+
+  const capped = chatStreamBuffer.getEventsAfter('thread-long', null);
+  check('deltas past the cap are not buffered', capped.filter((e) => e.event === 'message').length === 5000, capped.length);
+  check('usage and completion are kept past the cap', capped.slice(-2).map((e) => e.event).join() === 'usage,completion', capped.slice(-2));
+  const tail = chatStreamBuffer.getEventsAfter('thread-long', `${long.runId}:4000`);
+  check('live subscribers get every delta past the cap',
+    liveLong.filter((e) => e.event === 'message').length === 5100 && liveLong.every((e) => e.data.type), liveLong.length);
+  check('resume from before the cap still reaches the end', tail[tail.length - 1]?.data.type === 'done' && tail[tail.length - 1]?.seq === 5102, tail.length);
+}
+
+runTests().then(() => {
+  console.log('\n================================================');
+  console.log(failures === 0 ? '✅ All chat stream buffer checks passed' : `❌ ${failures} check(s) failed`);
+  console.log('================================================\n');
+  process.exit(failures === 0 ? 0 : 1);
+}).catch(error => {
+  console.error('\n\n❌ Test failed:', error);
+  process.exit(1);
+});
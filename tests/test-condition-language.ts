@@ -0,0 +1,112 @@
+#!/usr/bin/env tsx
+/**
+ * Condition Language Test
+ * Parses, type-checks and evaluates workflow branch conditions: syntax
+ * errors, type errors against the declared variables, `in` with lists,
+ * strings and ranges, regex matches, and workflows with a bad condition
+ * rejected when they are loaded
+ */
+
+import type { VariableDeclarations } from '../src/workflows/conditionLanguage';
+import type { DiagnosticWorkflow } from '../src/workflows/diagnosticFlows';
+
+let failures = 0;
+function check(label: string, condition: boolean, detail?: any) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+  } else {
+    failures++;
+    console.log(`  ❌ ${label}`, detail ?? '');
+  }
+}
+
+const VARIABLES: VariableDeclarations = {
+  status: 'string',
+  power: 'number',
+  charging: 'boolean',
+  session: { userId: 'string', energyKwh: 'number' },
+  tags: ['string'],
+};
+
+async function runTests() {
+  const { checkCondition, compileCondition, getConditionVariables, assertValidWorkflowConditions } = await import('../src/workflows/conditionLanguage');
+
+  const error = (source: string) => checkCondition(source, VARIABLES);
+  const evaluate = (source: string, scope: Record<string, any>) => compileCondition(source, VARIABLES).evaluate(scope);
+
+  console.log('\n🧪 parse errors');
+  for (const source of ['status ==', 'status === "Faulted" &&', '(power > 1', '"a" + "b"', '']) {
+    check(`${JSON.stringify(source)} is a syntax error`, error(source)?.kind === 'syntax', error(source)?.message);
+  }
+  check('regex flags outside i, m, s, u are rejected', error('status matches /fault/g')?.kind === 'syntax');
+  check('overlong condition is rejected', error(`power > ${'1'.repeat(600)}`)?.kind === 'syntax');
+  check('error message points at the position', Boolean(error('status === "x" &&')?.message.includes('^')), error('status === "x" &&')?.message);
+
+  console.log('\n🧪 type errors');
+  const typo = error('statsu === "Faulted"');
+  check('unknown variable suggests the declared one', typo?.kind === 'type' && typo.detail.includes('Did you mean "status"'), typo?.detail);
+  const field = error('session.user === "dana"');
+  check('unknown field suggests the declared one', field?.kind === 'type' && field.detail.includes('"userId"'), field?.detail);
+  check('comparing a string with a number', error('status === 1')?.kind === 'type');
+  check('ordering a number against a string', error('power > "high"')?.kind === 'type');
+  check('condition must be a boolean', error('status')?.detail.includes('must be a boolean') === true);
+  check('substring check on a number', error('power in "abc"')?.kind === 'type');
+  check('unknown function', error('eval("status")')?.kind === 'type');
+  check('builtin variables need no declaration',
+    checkCondition('answer === "yes" && tools.stationStatus.success === true', getConditionVariables({ contextVariables: VARIABLES })) === null);
+
+  console.log('\n🧪 evaluation');
+  check('list membership', evaluate('status in ["Faulted", "Unavailable"]', { status: 'Unavailable' }));
+  check('list membership is strict', !evaluate('status in ["Faulted"]', { status: 'faulted' }));
+  check('substring', evaluate('"Fault" in status', { status: 'EVSEFault' }));
+  check('range includes both ends', evaluate('power in 7..22', { power: 7 }) && evaluate('power in 7..22', { power: 22 }));
+  check('range excludes values outside', !evaluate('power in 7..22', { power: 22.5 }));
+  check('case-insensitive regex', evaluate('status matches /^fault/i', { status: 'FAULTED' }));
+  check('regex without a match', !evaluate('status matches /^fault/i', { status: 'Available' }));
+  check('nested fields, methods and functions',
+    evaluate('session.energyKwh >= 5 && tags.includes("vip") && len(tags) === 2 && lower(status) === "charging"',
+      { session: { energyKwh: 12.5 }, tags: ['vip', 'fleet'], status: 'Charging' }));
+  check('missing variables are null and never match', !evaluate('power > 5', {}) && !evaluate('status matches /x/', {}));
+  check('equality does not coerce', !evaluate('charging === true', { charging: 'true' }));
+
+  console.log('\n🧪 load time');
+  const text = (value: string) => ({ he: value, en: value, ru: value, ar: value });
+  const workflow = (condition: string): DiagnosticWorkflow => ({
+    id: 'test-flow',
+    name: text('Test'),
+    description: text('Test'),
+    triggers: ['test'],
+    estimatedTime: 1,
+    successRate: 1,
+    category: 'charging',
+    priority: 'low',
+    contextVariables: { status: 'string' },
+    steps: [
+      { id: 'ask', type: 'question', content: text('Question'), nextSteps: [{ condition, nextStepId: 'done' }] },
+      { id: 'done', type: 'resolution', content: text('Done') },
+    ],
+  });
+
+  const rejected = (() => {
+    try {
+      assertValidWorkflowConditions([workflow('status === "Faulted"'), workflow('staus === "Faulted"')]);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  })();
+  check('workflow with a bad condition is rejected', rejected?.includes('[test-flow / ask → done]') === true, rejected);
+
+  const shipped = await import('../src/workflows/diagnosticFlows').then(() => null, (error) => error);
+  check('shipped workflows load', shipped === null, shipped);
+}
+
+runTests().then(() => {
+  console.log('\n================================================');
+  console.log(failures === 0 ? '✅ All condition language checks passed' : `❌ ${failures} check(s) failed`);
+  console.log('================================================\n');
+  process.exit(failures === 0 ? 0 : 1);
+}).catch(error => {
+  console.error('\n\n❌ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,97 @@
+#!/usr/bin/env tsx
+/**
+ * CSAT Survey Test
+ * Requests surveys for web chat and Discord conversations with an in-memory
+ * database: the per-driver fatigue window keyed on the driver's identity,
+ * web conversations without a web chat identity, and who may answer a web
+ * survey
+ */
+
+// Use a throwaway in-memory database for everything that uses the shared db
+process.env.DATABASE_URL = ':memory:';
+
+import type { CsatConfig } from '../src/services/csatSurvey';
+
+let failures = 0;
+function check(label: string, condition: boolean, detail?: any) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+  } else {
+    failures++;
+    console.log(`  ❌ ${label}`, detail ?? '');
+  }
+}
+
+async function runTests() {
+  const { getDb } = await import('../src/db');
+  const { Migrator } = await import('../src/db/migrator');
+  const { CsatSurveyService } = await import('../src/services/csatSurvey');
+
+  const db = getDb();
+  await new Migrator(db).up();
+
+  const config: CsatConfig = { enabled: true, idleMinutes: 30, responseHours: 48, maxSurveysPerUser: 2, fatigueDays: 30 };
+  const surveys = new CsatSurveyService(db, config, async () => 'message-1');
+
+  const driver = 'web-0123456789abcdef01234567';
+  const otherBrowser = 'web-fedcba9876543210fedcba98';
+  let threads = 0;
+  const webConversation = async (userId: string | null) => {
+    const threadId = `thread-${++threads}`;
+    await db.run(
+      `INSERT INTO conversation_transcript (thread_id, channel, user_id, role, content) VALUES (?, 'web', ?, 'user', 'hello')`,
+      [threadId, userId]
+    );
+    return surveys.requestSurvey({ threadId, trigger: 'idle', language: 'en' });
+  };
+
+  console.log('\n🧪 fatigue window');
+  const first = await webConversation(driver);
+  const second = await webConversation(driver);
+  const third = await webConversation(driver);
+  check('survey carries the driver identity from the transcript', first.success && first.data?.userId === driver, first);
+  check('second survey within the window is sent', second.success, second);
+  check('third survey within the window is skipped', !third.success && third.code === 'fatigue', third);
+  const skipped = await db.get<{ status: string }>(`SELECT status FROM csat_surveys WHERE thread_id = ?`, [`thread-${threads}`]);
+  check('skipped survey is recorded', skipped?.status === 'skipped', skipped);
+  check('another web driver is not limited', (await webConversation(otherBrowser)).success);
+
+  await db.run(`UPDATE csat_surveys SET created_at = ${db.sql.ago(31, 'days')} WHERE thread_id IN ('thread-1', 'thread-2')`);
+  check('surveys older than the window no longer count', (await webConversation(driver)).success);
+
+  console.log('\n🧪 web conversations without an identity');
+  const legacy = await webConversation('user-1760000000000');
+  check('per-message web user id is not stored', legacy.success && legacy.data?.userId === null, legacy.data);
+  const legacyAgain = await webConversation('user-1760000000000');
+  check('and never counts towards fatigue', legacyAgain.success, legacyAgain);
+
+  console.log('\n🧪 discord drivers');
+  for (let i = 0; i < 2; i++) {
+    await surveys.requestSurvey({ threadId: `discord-${i}`, trigger: 'resolved', channel: 'discord', channelId: 'channel-1', userId: '4242', language: 'he' });
+  }
+  const discordThird = await surveys.requestSurvey({ threadId: 'discord-2', trigger: 'resolved', channel: 'discord', channelId: 'channel-1', userId: '4242', language: 'he' });
+  check('discord driver is limited by user id', !discordThird.success && discordThird.code === 'fatigue', discordThird);
+
+  console.log('\n🧪 answering a web survey');
+  const survey = first.data!;
+  const stranger = await surveys.submitResponse(survey.surveyId, { rating: 1 }, { channel: 'web', threadId: survey.threadId, userId: otherBrowser });
+  check('another browser with the thread id is refused', !stranger.success && stranger.code === 'forbidden', stranger);
+  const noCookie = await surveys.submitResponse(survey.surveyId, { rating: 1 }, { channel: 'web', threadId: survey.threadId, userId: null });
+  check('a caller without an identity is refused', !noCookie.success && noCookie.code === 'forbidden', noCookie);
+  const owner = await surveys.submitResponse(survey.surveyId, { rating: 5, comment: 'Quick fix' }, { channel: 'web', threadId: survey.threadId, userId: driver });
+  check('the driver can answer', owner.success && owner.data?.rating === 5, owner);
+
+  const anonymous = legacy.data!;
+  const anonymousAnswer = await surveys.submitResponse(anonymous.surveyId, { rating: 4 }, { channel: 'web', threadId: anonymous.threadId, userId: null });
+  check('a survey without an identity is answered from its conversation', anonymousAnswer.success, anonymousAnswer);
+}
+
+runTests().then(() => {
+  console.log('\n================================================');
+  console.log(failures === 0 ? '✅ All CSAT survey checks passed' : `❌ ${failures} check(s) failed`);
+  console.log('================================================\n');
+  process.exit(failures === 0 ? 0 : 1);
+}).catch(error => {
+  console.error('\n\n❌ Test failed:', error);
+  process.exit(1);
+});
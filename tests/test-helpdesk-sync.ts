@@ -0,0 +1,184 @@
+#!/usr/bin/env tsx
+/**
+ * Helpdesk Sync Test
+ * Exports escalation tickets to the fake Zendesk, Freshdesk and Jira Service
+ * Management servers and checks the status sync both ways: helpdesk webhooks
+ * and polling resolve / reopen the escalation ticket, resolving it here
+ * solves the helpdesk ticket, failed exports are retried, and forged or
+ * replayed webhooks are rejected
+ */
+
+// Use a throwaway in-memory database for everything that uses the shared db
+process.env.DATABASE_URL = ':memory:';
+process.env.HELPDESK_WEBHOOK_SECRETS = 'whsec-current,whsec-previous';
+
+import crypto from 'crypto';
+import type { AddressInfo } from 'net';
+import type { EscalationContext, EscalationTrigger } from '../src/services/escalationService';
+import type { HelpdeskProvider } from '../src/services/helpdeskConnector';
+
+let failures = 0;
+function check(label: string, condition: boolean, detail?: any) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+  } else {
+    failures++;
+    console.log(`  ❌ ${label}`, detail ?? '');
+  }
+}
+
+const EXPECTED_PRIORITY: Record<HelpdeskProvider, Record<string, string | number>> = {
+  zendesk: { low: 'low', medium: 'normal', high: 'high', critical: 'urgent' },
+  freshdesk: { low: 1, medium: 2, high: 3, critical: 4 },
+  jira: { low: 'Low', medium: 'Medium', high: 'High', critical: 'Highest' },
+};
+
+function escalationContext(threadId: string): EscalationContext {
+  return {
+    userId: 'discord-4242',
+    username: 'dana',
+    messages: [
+      { role: 'user', content: 'The charger at Haifa stopped in the middle of charging', timestamp: new Date() },
+      { role: 'assistant', content: 'I restarted the session, is it charging now?', timestamp: new Date() },
+      { role: 'user', content: 'No, still stuck. I need a human', timestamp: new Date() },
+    ],
+    conversationDuration: 600,
+    stationsInvolved: ['HFA-0042'],
+    errorsEncountered: ['EVDisconnected'],
+    actionsTaken: ['restart_session'],
+    sentimentHistory: [],
+    technicalDetails: { sessionId: 'SESS-98765', connector: { stationId: 'HFA-0042', connectorId: 2 } },
+    threadId,
+    channel: 'web',
+  };
+}
+
+const TRIGGERS: EscalationTrigger[] = [{ type: 'explicit_request', details: {}, confidence: 1 }];
+
+async function runTests() {
+  const { serve } = await import('@hono/node-server');
+  const { getDb } = await import('../src/db');
+  const { Migrator } = await import('../src/db/migrator');
+  const { escalationService } = await import('../src/services/escalationService');
+  const { getAgentDesk } = await import('../src/services/agentDesk');
+  const { createHelpdeskConnector } = await import('../src/services/helpdeskConnector');
+  const { HelpdeskSyncService, setHelpdeskSync } = await import('../src/services/helpdeskSync');
+  const { FakeHelpdeskServer } = await import('../src/services/fakeHelpdeskServer');
+  const { default: helpdeskApp } = await import('../src/routes/helpdesk');
+
+  const db = getDb();
+  await new Migrator(db).up();
+
+  // The helpdesk webhook endpoint, for the fake servers to call
+  const app = serve({ fetch: helpdeskApp.fetch, port: 0, hostname: '127.0.0.1' });
+  await new Promise((resolve) => app.once('listening', resolve));
+  const appUrl = `http://127.0.0.1:${(app.address() as AddressInfo).port}`;
+
+  const ticketStatus = async (ticketId: string) =>
+    (await db.get<{ status: string }>('SELECT status FROM escalation_tickets WHERE ticket_id = ?', [ticketId]))?.status;
+
+  for (const provider of ['zendesk', 'freshdesk', 'jira'] as const) {
+    console.log(`\n🎫 ${provider}`);
+
+    const fake = new FakeHelpdeskServer({ provider, webhookUrl: `${appUrl}/webhooks/${provider}`, webhookSecret: 'whsec-previous' });
+    const connector = await createHelpdeskConnector(provider, {
+      baseUrl: await fake.start(),
+      apiToken: 'test-token',
+      email: 'bot@example.com',
+      jiraServiceDeskId: '1',
+      jiraRequestTypeId: '10',
+    });
+    const sync = new HelpdeskSyncService(connector, db);
+    setHelpdeskSync(sync);
+
+    // Export on escalation
+    const threadId = `web-${provider}-thread`;
+    await getAgentDesk().recordMessage({ threadId, channel: 'web', userId: 'discord-4242', role: 'user', content: 'The charger at Haifa stopped' });
+    await getAgentDesk().recordMessage({ threadId, channel: 'web', role: 'bot', author: 'technical', content: 'Let me check the session' });
+    await getAgentDesk().recordMessage({ threadId, channel: 'web', role: 'note', author: 'maya', content: 'Internal: customer is a VIP', internal: true });
+
+    const ticket = await escalationService.createTicket(escalationContext(threadId), TRIGGERS);
+    const link = await sync.getLink(ticket.ticketId);
+    const exported = link?.externalId ? fake.tickets.get(link.externalId) : undefined;
+    check('ticket exported on escalation', link?.syncStatus === 'exported' && Boolean(exported), link);
+    check('urgency mapped to helpdesk priority', exported?.priority === EXPECTED_PRIORITY[provider][ticket.urgencyLevel], { urgency: ticket.urgencyLevel, priority: exported?.priority });
+    check('summary, station and session ids in the ticket', Boolean(
+      exported?.body.includes(ticket.conversationSummary.split('\n')[0]) &&
+      exported.body.includes('HFA-0042') &&
+      exported.body.includes('SESS-98765')
+    ), exported?.body);
+    check('transcript without internal notes', Boolean(exported?.body.includes('Let me check the session') && !exported.body.includes('VIP')), exported?.body);
+    check('escalation id on the ticket', Boolean(exported && JSON.stringify(exported.request).includes(ticket.ticketId)), exported?.request);
+
+    const again = await sync.exportTicket(ticket.ticketId);
+    check('exporting again keeps the one helpdesk ticket', again.success && fake.tickets.size === 1, again);
+
+    // Helpdesk → escalation ticket
+    let response = await fake.setStatus(link!.externalId!, 'solved', { assignee: 'Noa' });
+    check('webhook signed with the previous secret accepted', response?.status === 200, response?.status);
+    check('solved in the helpdesk resolves the escalation', await ticketStatus(ticket.ticketId) === 'resolved');
+
+    response = await fake.setStatus(link!.externalId!, 'open');
+    check('reopened in the helpdesk reopens the escalation', response?.status === 200 && await ticketStatus(ticket.ticketId) !== 'resolved');
+
+    const forged = await fetch(`${appUrl}/webhooks/${provider}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-helpdesk-token': 'nope', 'x-hub-signature': `sha256=${'0'.repeat(64)}` },
+      body: JSON.stringify({ ticket: { id: link!.externalId, status: 'solved' } }),
+    });
+    check('unsigned webhook rejected', forged.status === 401 && await ticketStatus(ticket.ticketId) !== 'resolved', forged.status);
+
+    if (provider === 'zendesk') {
+      // A captured delivery, correctly signed but from 10 minutes ago
+      const body = JSON.stringify({ ticket: { id: link!.externalId, status: 'solved' } });
+      const timestamp = new Date(Date.now() - 10 * 60 * 1000).toISOString();
+      const replayed = await fetch(`${appUrl}/webhooks/${provider}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-zendesk-webhook-signature-timestamp': timestamp,
+          'x-zendesk-webhook-signature': crypto.createHmac('sha256', 'whsec-current').update(timestamp + body).digest('base64'),
+        },
+        body,
+      });
+      check('replayed webhook with an old timestamp rejected', replayed.status === 401 && await ticketStatus(ticket.ticketId) !== 'resolved', replayed.status);
+    }
+
+    // Escalation ticket → helpdesk
+    await escalationService.resolveTicket(ticket.ticketId, 'Replaced the connector cable');
+    const solved = fake.tickets.get(link!.externalId!);
+    check('resolving here solves the helpdesk ticket', solved?.status === 'solved' && solved.comments.some((c) => c.includes('Replaced the connector cable')), solved);
+
+    // Polling picks up changes the webhooks missed
+    const second = await escalationService.createTicket(escalationContext(`${threadId}-2`), TRIGGERS);
+    const secondLink = await sync.getLink(second.ticketId);
+    await fake.setStatus(secondLink!.externalId!, 'closed', { notify: false });
+    const summary = await sync.syncAll();
+    check('polling resolves tickets closed in the helpdesk', summary.statusChanges === 1 && await ticketStatus(second.ticketId) === 'resolved', summary);
+
+    // Failed exports are retried
+    fake.failNext(1);
+    const third = await escalationService.createTicket(escalationContext(`${threadId}-3`), TRIGGERS);
+    const failed = await sync.getLink(third.ticketId);
+    check('failed export recorded', failed?.syncStatus === 'failed' && Boolean(failed.lastError?.includes('503')), failed);
+
+    const retried = await sync.syncAll();
+    const retriedLink = await sync.getLink(third.ticketId);
+    check('sync job retries the export', retried.exported === 1 && retriedLink?.syncStatus === 'exported' && retriedLink.attempts === 2, { retried, retriedLink });
+
+    await fake.stop();
+  }
+
+  setHelpdeskSync(null);
+  app.close();
+}
+
+runTests().then(() => {
+  console.log('\n================================================');
+  console.log(failures === 0 ? '✅ All helpdesk sync checks passed' : `❌ ${failures} check(s) failed`);
+  console.log('================================================\n');
+  process.exit(failures === 0 ? 0 : 1);
+}).catch(error => {
+  console.error('\n\n❌ Test failed:', error);
+  process.exit(1);
+});
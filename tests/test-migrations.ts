@@ -0,0 +1,92 @@
+#!/usr/bin/env tsx
+/**
+ * Migration Test
+ * Runs every migration up, back down to 013 and up again on an in-memory
+ * SQLite database, and on Postgres when TEST_POSTGRES_URL points at an empty
+ * database: the migrated schema, rolling back a single migration, and drift
+ * detection when an applied file changes
+ */
+
+import type { Database } from '../src/db';
+
+let failures = 0;
+function check(label: string, condition: boolean, detail?: any) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+  } else {
+    failures++;
+    console.log(`  ❌ ${label}`, detail ?? '');
+  }
+}
+
+async function tableExists(db: Database, table: string): Promise<boolean> {
+  const row = db.dialect === 'postgres'
+    ? await db.get<{ name: string | null }>(`SELECT to_regclass(?)::text AS name`, [table])
+    : await db.get<{ name: string }>(`SELECT name FROM sqlite_master WHERE type IN ('table', 'view') AND name = ?`, [table]);
+  return Boolean(row?.name);
+}
+
+async function runDialect(db: Database) {
+  const { Migrator, MigrationError } = await import('../src/db/migrator');
+  const migrator = new Migrator(db);
+  const total = migrator.migrations().length;
+  const latest = migrator.migrations()[total - 1].version;
+
+  console.log(`\n🧪 ${db.dialect}: up`);
+  const up = await migrator.up();
+  check('every migration applies', up.steps.length === total, up.steps.length);
+  check('nothing left pending', (await migrator.status()).every((status) => status.state === 'applied'));
+  for (const table of ['escalation_tickets', 'media_processing_queue', 'fraud_detection_events', 'fraud_risk_events', 'ocpp_transactions']) {
+    check(`${table} exists`, await tableExists(db, table));
+  }
+  check('views from 017 and 019 exist',
+    await tableExists(db, 'processing_queue_status') && await tableExists(db, 'compatible_vehicle_charger_pairs'));
+  await db.run(`INSERT INTO fraud_risk_events (event_id, user_id, event_type, risk_score) VALUES ('risk-1', 'user-1', 'velocity', 0.4)`);
+  check('fraud checks can record a risk event', (await db.get(`SELECT event_id FROM fraud_risk_events WHERE event_id = 'risk-1'`)) !== null);
+
+  console.log(`\n🧪 ${db.dialect}: down`);
+  const step = await migrator.down();
+  check('one step rolls back the latest migration', step.steps.length === 1 && step.steps[0].version === latest, step.steps.map((s) => s.version));
+  check('and it is pending again', (await migrator.status()).find((status) => status.version === latest)?.state === 'pending');
+  await migrator.up();
+
+  const after013 = migrator.migrations().filter((migration) => migration.version > '013').length;
+  const down = await migrator.down({ to: '013' });
+  check('everything after 013 rolls back', down.steps.length === after013, down.steps.length);
+  check('rolled back tables are gone', !(await tableExists(db, 'escalation_tickets')) && !(await tableExists(db, 'fraud_risk_events')));
+
+  const again = await migrator.up();
+  check('and applies again', again.steps.length === after013, again.steps.length);
+
+  console.log(`\n🧪 ${db.dialect}: drift`);
+  await db.run(`UPDATE schema_migrations SET checksum = 'edited' WHERE version = '014'`);
+  check('status reports the drifted migration', (await migrator.status()).find((status) => status.version === '014')?.state === 'drifted');
+  const refused = await migrator.down().then(() => null, (error) => error);
+  check('down refuses to run with drift', refused instanceof MigrationError, refused);
+}
+
+async function runTests() {
+  const { createDatabase } = await import('../src/db');
+
+  const sqlite = createDatabase({ driver: 'sqlite', url: ':memory:' });
+  await runDialect(sqlite);
+  await sqlite.close();
+
+  if (process.env.TEST_POSTGRES_URL) {
+    const postgres = createDatabase({ driver: 'postgres', url: process.env.TEST_POSTGRES_URL });
+    await runDialect(postgres);
+    await postgres.close();
+  } else {
+    console.log('\n⏭️  postgres: skipped (set TEST_POSTGRES_URL to an empty database)');
+  }
+}
+
+runTests().then(() => {
+  console.log('\n================================================');
+  console.log(failures === 0 ? '✅ All migration checks passed' : `❌ ${failures} check(s) failed`);
+  console.log('================================================\n');
+  process.exit(failures === 0 ? 0 : 1);
+}).catch(error => {
+  console.error('\n\n❌ Test failed:', error);
+  process.exit(1);
+});
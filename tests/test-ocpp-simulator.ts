@@ -0,0 +1,179 @@
+#!/usr/bin/env tsx
+/**
+ * OCPP Simulator Test
+ * Runs the central system on a local HTTP server with an in-memory database
+ * and connects simulated chargers to it, including the simulate-ocpp script
+ * as a child process: Basic auth on connect, id tag checks, transaction ids
+ * that survive a restart, and remote commands round-tripping to the charger
+ */
+
+// Use a throwaway in-memory database for everything that uses the shared db
+process.env.DATABASE_URL = ':memory:';
+
+import type { OcppCentralSystem, OcppTransaction } from '../src/services/ocppCentralSystem';
+import { spawn } from 'child_process';
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+let failures = 0;
+function check(label: string, condition: boolean, detail?: any) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+  } else {
+    failures++;
+    console.log(`  ❌ ${label}`, detail ?? '');
+  }
+}
+
+/**
+ * Resolve with the first event matching `predicate`, or null after the timeout
+ */
+function waitFor<T>(emitter: OcppCentralSystem, event: string, predicate: (value: T) => boolean, timeoutMs = 10000): Promise<T | null> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      emitter.off(event, listener);
+      resolve(null);
+    }, timeoutMs);
+    const listener = (value: T) => {
+      if (!predicate(value)) return;
+      clearTimeout(timer);
+      emitter.off(event, listener);
+      resolve(value);
+    };
+    emitter.on(event, listener);
+  });
+}
+
+async function runTests() {
+  const { getDb } = await import('../src/db');
+  const { Migrator } = await import('../src/db/migrator');
+  const { OcppCentralSystem } = await import('../src/services/ocppCentralSystem');
+  const { OcppChargePointSimulator } = await import('../src/services/ocppChargePointSimulator');
+
+  const db = getDb();
+  await new Migrator(db).up();
+  await db.run(`INSERT INTO rfid_cards (card_id, status) VALUES ('SIMTAG01', 'active'), ('BLOCKED01', 'blocked')`);
+  await db.run(`INSERT INTO rfid_cards (card_id, status, expiry_date) VALUES ('OLD01', 'active', ${db.sql.ago(1, 'days')})`);
+
+  const options = { db, passwords: { 'SIM-SCRIPT': 'script-pass' }, sharedPassword: 'shared-pass' };
+  const startCentralSystem = async (port = 0) => {
+    const server = http.createServer();
+    const centralSystem = new OcppCentralSystem('/ocpp', options);
+    centralSystem.attach(server);
+    await new Promise<void>((resolve) => server.listen(port, '127.0.0.1', resolve));
+    return { server, centralSystem, port: (server.address() as AddressInfo).port };
+  };
+  const stopCentralSystem = async ({ server, centralSystem }: { server: http.Server; centralSystem: OcppCentralSystem }) => {
+    await centralSystem.close();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  };
+
+  let current = await startCentralSystem();
+  const url = `ws://127.0.0.1:${current.port}/ocpp`;
+  const connectError = async (simulator: InstanceType<typeof OcppChargePointSimulator>) => {
+    try {
+      await simulator.connect();
+      simulator.disconnect();
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  };
+
+  console.log('\n🧪 charge point authentication');
+  const noPassword = await connectError(new OcppChargePointSimulator({ url, chargePointId: 'CP-1' }));
+  check('connection without credentials is refused', noPassword?.includes('401') === true, noPassword);
+  const ownPasswordElsewhere = await connectError(new OcppChargePointSimulator({ url, chargePointId: 'CP-1', password: 'script-pass' }));
+  check("another charger's password is refused", ownPasswordElsewhere?.includes('401') === true, ownPasswordElsewhere);
+
+  const charger = new OcppChargePointSimulator({ url, chargePointId: 'CP-1', password: 'shared-pass' });
+  let chargerDropped = false;
+  charger.on('disconnected', () => { chargerDropped = true; });
+  await charger.connect();
+  check('charger with the shared password connects', current.centralSystem.isConnected('CP-1'));
+
+  const impostor = await connectError(new OcppChargePointSimulator({ url, chargePointId: 'CP-1', password: 'guessed' }));
+  await new Promise((resolve) => setTimeout(resolve, 100));
+  check('impostor with a wrong password is refused', impostor?.includes('401') === true, impostor);
+  check('real charger stays connected', !chargerDropped && current.centralSystem.isConnected('CP-1'));
+
+  console.log('\n🧪 id tags');
+  const refusal = async (idTag: string) => {
+    try {
+      await charger.startTransaction(2, idTag);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  };
+  check('unknown tag is Invalid', (await refusal('NOPE'))?.includes('(Invalid)') === true);
+  check('blocked card is Blocked', (await refusal('BLOCKED01'))?.includes('(Blocked)') === true);
+  check('card past its expiry date is Expired', (await refusal('OLD01'))?.includes('(Expired)') === true);
+  check('refused transactions are stopped by the charger', current.centralSystem.getActiveTransactions('CP-1').length === 0,
+    current.centralSystem.getActiveTransactions('CP-1'));
+
+  const transactionId = await charger.startTransaction(1, 'SIMTAG01');
+  check('active card starts charging', current.centralSystem.getActiveTransactions('CP-1')[0]?.transactionId === transactionId);
+
+  const started = waitFor<OcppTransaction>(current.centralSystem, 'transaction_started', (t) => t.idTag === 'web-user-1');
+  const remoteStart = await current.centralSystem.remoteStartTransaction('CP-1', 2, 'web-user-1');
+  check('remote start with a non-card tag is accepted', remoteStart.success && (await started) !== null, remoteStart);
+
+  console.log('\n🧪 restart');
+  const stored = await db.get<{ maxId: number }>(`SELECT MAX(id) AS maxId FROM ocpp_transactions`);
+  check('transactions are stored with the id sent to the charger', Number(stored?.maxId) >= Number(transactionId), stored);
+
+  await stopCentralSystem(current);
+  current = await startCentralSystem(current.port);
+  await charger.connect();
+
+  const stopped = waitFor<OcppTransaction>(current.centralSystem, 'transaction_stopped', (t) => t.transactionId === transactionId);
+  await charger.stopTransaction(1);
+  const stoppedTransaction = await stopped;
+  check('stop after a restart finds the transaction', stoppedTransaction?.idTag === 'SIMTAG01', stoppedTransaction);
+  const stopRow = await db.get<{ stop_reason: string }>(`SELECT stop_reason FROM ocpp_transactions WHERE id = ?`, [Number(transactionId)]);
+  check('stop is persisted', stopRow?.stop_reason === 'Local', stopRow);
+
+  const nextId = await charger.startTransaction(1, 'SIMTAG01');
+  check('transaction ids keep increasing after a restart', Number(nextId) > Number(stored?.maxId), { nextId, stored });
+  await charger.stopTransaction(1);
+  charger.disconnect();
+
+  console.log('\n🧪 simulate-ocpp script');
+  const scriptStarted = waitFor<OcppTransaction>(current.centralSystem, 'transaction_started', (t) => t.chargePointId === 'SIM-SCRIPT', 60000);
+  const script = spawn('npx', [
+    'tsx', 'src/scripts/ocppSimulator.ts',
+    `--url=${url}`, '--id=SIM-SCRIPT', '--password=script-pass', '--idtag=SIMTAG01',
+  ], { env: { ...process.env, LOG_LEVEL: 'error' }, stdio: ['ignore', 'ignore', 'inherit'] });
+  const scriptExit = new Promise<number | null>((resolve) => script.on('exit', (code) => resolve(code)));
+
+  const scriptTransaction = await scriptStarted;
+  check('script connects with its own password and starts charging', scriptTransaction?.idTag === 'SIMTAG01', scriptTransaction);
+
+  if (scriptTransaction) {
+    const unlock = await current.centralSystem.unlockConnector('SIM-SCRIPT', 2);
+    check('unlock round-trips to the script', unlock.success && unlock.status === 'Unlocked', unlock);
+
+    const resetStop = waitFor<OcppTransaction>(current.centralSystem, 'transaction_stopped', (t) => t.chargePointId === 'SIM-SCRIPT');
+    const reset = await current.centralSystem.reset('SIM-SCRIPT');
+    check('reset is accepted', reset.success, reset);
+    const resetTransaction = await resetStop;
+    check('reset stops the running transaction', resetTransaction?.stopReason === 'SoftReset', resetTransaction);
+  }
+
+  await stopCentralSystem(current);
+  const timeout = setTimeout(() => script.kill(), 10000);
+  const exitCode = await scriptExit;
+  clearTimeout(timeout);
+  check('script exits cleanly when the central system goes away', exitCode === 0, exitCode);
+}
+
+runTests().then(() => {
+  console.log('\n================================================');
+  console.log(failures === 0 ? '✅ All OCPP simulator checks passed' : `❌ ${failures} check(s) failed`);
+  console.log('================================================\n');
+  process.exit(failures === 0 ? 0 : 1);
+}).catch(error => {
+  console.error('\n\n❌ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,103 @@
+#!/usr/bin/env tsx
+/**
+ * Station Command Confirmation Test
+ * Proposes reset / unlock commands against the mock charging backend with
+ * an in-memory database and checks who may confirm them, that a confirmed
+ * action runs once, and that expired actions are refused
+ */
+
+// Use a throwaway in-memory database for everything that uses the shared db
+process.env.DATABASE_URL = ':memory:';
+
+import type { StationActionApprover } from '../src/services/stationCommandConfirmation';
+
+let failures = 0;
+function check(label: string, condition: boolean, detail?: any) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+  } else {
+    failures++;
+    console.log(`  ❌ ${label}`, detail ?? '');
+  }
+}
+
+async function runTests() {
+  const { getDb } = await import('../src/db');
+  const { Migrator } = await import('../src/db/migrator');
+  const { StationCommandConfirmationService } = await import('../src/services/stationCommandConfirmation');
+  const { ChargingBackendRegistry } = await import('../src/services/chargingBackend');
+  const { MockChargingBackend } = await import('../src/services/mockChargingBackend');
+  const { WORKFLOW_TOOL_NAMES } = await import('../src/workflows/workflowTools');
+
+  const db = getDb();
+  await new Migrator(db).up();
+
+  const registry = new ChargingBackendRegistry();
+  const mock = new MockChargingBackend();
+  registry.register(mock);
+  mock.addStation({ stationId: '41', stationName: 'Haifa Port 41' });
+  mock.addStation({ stationId: '42', stationName: 'Haifa Grand Canyon' });
+
+  const confirmations = new StationCommandConfirmationService({ db, registry });
+  const owner: StationActionApprover = { userId: 'web-owner', threadId: 'thread-1', channel: 'web' };
+  const sends = (type: string) => mock.commands.filter((c) => c.type === type).length;
+
+  console.log('\n🧪 propose');
+  const proposed = await confirmations.propose({
+    command: 'reset',
+    stationId: '41',
+    requestedBy: 'web-owner',
+    threadId: 'thread-1',
+    channel: 'web',
+  });
+  const resetId = proposed.data?.actionId ?? '';
+  check('reset stored as pending', proposed.success && proposed.data?.status === 'pending', proposed);
+  check('nothing sent to the station yet', mock.commands.length === 0, mock.commands);
+  check('pending action listed for the thread', (await confirmations.listPending('thread-1')).some((a) => a.actionId === resetId));
+  check('workflows cannot confirm commands', !(WORKFLOW_TOOL_NAMES as readonly string[]).includes('confirmStationAction'));
+
+  console.log('\n🧪 who may decide');
+  const sameThread = await confirmations.confirm(resetId, { userId: 'web-someone-else', threadId: 'thread-1', channel: 'web' });
+  check('another user in the same thread is refused', !sameThread.success && sameThread.code === 'forbidden', sameThread);
+  const anonymous = await confirmations.confirm(resetId, { userId: null, threadId: 'thread-1', channel: 'web' });
+  check('a caller without an identity is refused', !anonymous.success && anonymous.code === 'forbidden', anonymous);
+  check('refusals sent nothing', mock.commands.length === 0, mock.commands);
+
+  console.log('\n🧪 single use');
+  const confirmed = await confirmations.confirm(resetId, owner);
+  check('owner confirmation sends the reset', confirmed.success && confirmed.data?.status === 'executed' && sends('resetStation') === 1, confirmed);
+  const again = await confirmations.confirm(resetId, owner);
+  check('second confirm is refused', !again.success && again.code === 'already_decided', again);
+  const rejectAfter = await confirmations.reject(resetId, owner);
+  check('reject after confirm is refused', !rejectAfter.success && rejectAfter.code === 'already_decided', rejectAfter);
+  check('reset sent exactly once', sends('resetStation') === 1, mock.commands);
+
+  const cooldown = await confirmations.propose({ command: 'reset', stationId: '41', requestedBy: 'web-owner', threadId: 'thread-1', channel: 'web' });
+  check('new reset on the same station waits for the cooldown', !cooldown.success && cooldown.code === 'cooldown' && (cooldown.cooldownSeconds ?? 0) > 0, cooldown);
+
+  console.log('\n🧪 expiry');
+  const unlock = await confirmations.propose({ command: 'unlock', stationId: '42', requestedBy: 'web-owner', threadId: 'thread-1', channel: 'web' });
+  const unlockId = unlock.data?.actionId ?? '';
+  await db.run(`UPDATE station_command_actions SET expires_at = ${db.sql.ago(1, 'minutes')} WHERE action_id = ?`, [unlockId]);
+  check('expired action is no longer listed', !(await confirmations.listPending('thread-1')).some((a) => a.actionId === unlockId));
+  const expired = await confirmations.confirm(unlockId, owner);
+  check('confirming an expired action is refused', !expired.success && expired.code === 'expired', expired);
+  check('expired unlock sent nothing', sends('unlockConnector') === 0, mock.commands);
+  const afterExpiry = await confirmations.confirm(unlockId, owner);
+  check('expired action stays expired', !afterExpiry.success && afterExpiry.code === 'already_decided' && afterExpiry.data?.status === 'expired', afterExpiry);
+
+  console.log('\n🧪 support staff');
+  const staffUnlock = await confirmations.propose({ command: 'unlock', stationId: '42', params: { connectorId: 2 }, requestedBy: 'web-owner', threadId: 'thread-1', channel: 'web' });
+  const staff = await confirmations.confirm(staffUnlock.data?.actionId ?? '', { userId: 'discord-42', channel: 'discord', role: 'support_agent' });
+  check('support staff can confirm for the user', staff.success && sends('unlockConnector') === 1, staff);
+}
+
+runTests().then(() => {
+  console.log('\n================================================');
+  console.log(failures === 0 ? '✅ All station command checks passed' : `❌ ${failures} check(s) failed`);
+  console.log('================================================\n');
+  process.exit(failures === 0 ? 0 : 1);
+}).catch(error => {
+  console.error('\n\n❌ Test failed:', error);
+  process.exit(1);
+});
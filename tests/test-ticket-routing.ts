@@ -0,0 +1,139 @@
+#!/usr/bin/env tsx
+/**
+ * Ticket Routing Test
+ * Routes escalation tickets to support agents and runs the SLA monitor
+ * against an in-memory database: assignment by language, skill and load,
+ * the queue when nobody fits, SLA warnings, re-escalation to another agent,
+ * breaches, and the first-response clock stopping on a reply
+ */
+
+// Use a throwaway in-memory database for everything that uses the shared db
+process.env.DATABASE_URL = ':memory:';
+
+import type { IssueType, RoutableTicket, UrgencyLevel } from '../src/services/ticketRouting';
+
+let failures = 0;
+function check(label: string, condition: boolean, detail?: any) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+  } else {
+    failures++;
+    console.log(`  ❌ ${label}`, detail ?? '');
+  }
+}
+
+async function runTests() {
+  const { getDb, parseTimestamp } = await import('../src/db');
+  const { Migrator } = await import('../src/db/migrator');
+  const { TicketRoutingService, isOnShift } = await import('../src/services/ticketRouting');
+
+  const db = getDb();
+  await new Migrator(db).up();
+
+  const alerts: string[] = [];
+  const routing = new TicketRoutingService(db, async (message) => { alerts.push(message); });
+
+  let tickets = 0;
+  const newTicket = async (issueType: IssueType, urgencyLevel: UrgencyLevel, language: 'he' | 'en' | 'ru'): Promise<RoutableTicket> => {
+    const ticketId = `ESC-TEST-${++tickets}`;
+    const row = await db.get<{ id: number }>(`
+      INSERT INTO escalation_tickets (ticket_id, discord_user_id, issue_type, urgency_level, status, language)
+      VALUES (?, 'driver-1', ?, ?, 'open', ?)
+      RETURNING id
+    `, [ticketId, issueType, urgencyLevel, language]);
+    return { id: Number(row!.id), ticketId, issueType, urgencyLevel, language };
+  };
+  const ticketRow = (ticket: RoutableTicket) => db.get<{
+    status: string;
+    assigned_to: string | null;
+    urgency_level: string;
+    priority_score: number;
+    reescalation_count: number;
+    escalated_at: string;
+    first_response_due_at: string | null;
+    resolution_due_at: string | null;
+  }>('SELECT * FROM escalation_tickets WHERE id = ?', [ticket.id]);
+  const slaEvents = async (ticket: RoutableTicket) =>
+    (await db.query<{ clock: string; event: string }>('SELECT clock, event FROM sla_events WHERE ticket_id = ? ORDER BY id', [ticket.id]))
+      .rows.map((row) => `${row.clock}:${row.event}`);
+
+  console.log('\n🧪 agent profiles');
+  const invalid = await routing.saveAgent({ agent: 'pierre', languages: ['fr'], skills: ['technical'] });
+  check('unsupported language is rejected', !invalid.success && invalid.code === 'invalid', invalid);
+  await routing.saveAgent({ agent: 'dana', languages: ['he', 'en'], skills: ['technical'] });
+  await routing.saveAgent({ agent: 'omer', languages: ['he'], skills: ['technical'], maxOpenTickets: 1 });
+  await routing.saveAgent({ agent: 'rina', languages: ['he'], skills: ['technical'], active: false });
+  const sam = await routing.saveAgent({ agent: 'sam', languages: ['en'], skills: ['billing', 'general'] });
+  check('agent is saved with defaults', sam.success && sam.data?.maxOpenTickets === 5 && sam.data.onShift, sam.data);
+
+  const overnight = [{ days: [0], start: '22:00', end: '06:00' }];
+  check('overnight shift runs into the next morning', isOnShift(overnight, 'UTC', new Date('2026-10-19T03:00:00Z')));
+  check('and ends at its end time', !isOnShift(overnight, 'UTC', new Date('2026-10-19T07:00:00Z')));
+
+  console.log('\n🧪 assignment');
+  const first = await newTicket('technical', 'low', 'he');
+  const firstChoice = await routing.routeNewTicket(first);
+  check('ticket goes to a skilled agent who speaks the language', firstChoice?.agent === 'dana', firstChoice);
+  const firstRow = await ticketRow(first);
+  check('ticket is assigned', firstRow?.status === 'assigned' && firstRow.assigned_to === 'dana', firstRow);
+  check('SLA clocks are started', Boolean(firstRow?.first_response_due_at && firstRow.resolution_due_at), firstRow);
+
+  const urgent = await newTicket('technical', 'high', 'he');
+  check('next ticket goes to the agent with fewer open tickets', (await routing.routeNewTicket(urgent))?.agent === 'omer');
+
+  const third = await newTicket('technical', 'low', 'he');
+  check('agent at max_open_tickets gets no more', (await routing.routeNewTicket(third))?.agent === 'dana');
+
+  const billing = await newTicket('billing', 'low', 'en');
+  const billingChoice = await routing.routeNewTicket(billing);
+  check('billing ticket goes to the billing agent', billingChoice?.agent === 'sam' && billingChoice.reason.includes('billing skill'), billingChoice);
+
+  const russian = await newTicket('general', 'low', 'ru');
+  check('nobody speaks the language: ticket waits in the queue', (await routing.routeNewTicket(russian)) === null);
+  check('and stays open', (await ticketRow(russian))?.status === 'open');
+  check('inactive agent never gets a ticket', (await routing.listAgents()).find((agent) => agent.agent === 'rina')?.openTickets === 0);
+
+  console.log('\n🧪 SLA clocks');
+  // high: first response within 60 minutes, warn at 75%, re-escalate at 90%
+  const escalatedAt = parseTimestamp((await ticketRow(urgent))!.escalated_at).getTime();
+  const minutesIn = (minutes: number) => new Date(escalatedAt + minutes * 60 * 1000);
+
+  const early = await routing.checkSlas(minutesIn(30));
+  check('nothing happens halfway through', early.warnings === 0 && early.reescalations === 0 && early.breaches === 0, early);
+
+  const warned = await routing.checkSlas(minutesIn(50));
+  check('warning at 75% of the first-response clock', warned.warnings === 1 && (await slaEvents(urgent)).join() === 'first_response:warning', warned);
+  check('desk is alerted', alerts.some((alert) => alert.includes('SLA warning') && alert.includes(urgent.ticketId)), alerts);
+  check('warning is sent once', (await routing.checkSlas(minutesIn(51))).warnings === 0);
+
+  const reescalated = await routing.checkSlas(minutesIn(55));
+  const urgentRow = await ticketRow(urgent);
+  check('re-escalated at 90%', reescalated.reescalations === 1, reescalated);
+  check('urgency goes up one level', urgentRow?.urgency_level === 'critical' && urgentRow.priority_score >= 80 && urgentRow.reescalation_count === 1, urgentRow);
+  check('ticket moves to another agent', urgentRow?.assigned_to === 'dana', urgentRow);
+  check('desk is told who has it', alerts.some((alert) => alert.includes('Re-escalated') && alert.includes('reassigned from omer to dana')), alerts);
+
+  const breached = await routing.checkSlas(minutesIn(61));
+  check('missed deadline is a breach', breached.breaches === 1 && breached.reescalations === 0, breached);
+  check('each event is logged once', (await slaEvents(urgent)).join() === 'first_response:warning,first_response:reescalated,first_response:breached',
+    await slaEvents(urgent));
+  const notes = await db.get<{ count: number }>(`SELECT COUNT(*) AS count FROM escalation_notes WHERE ticket_id = ? AND note_type = 'sla'`, [urgent.id]);
+  check('events are noted on the ticket', Number(notes?.count) === 3, notes);
+
+  console.log('\n🧪 first response');
+  // low: first response within 1440 minutes
+  await routing.recordFirstResponse(first.ticketId);
+  await routing.checkSlas(minutesIn(1100));
+  check('a reply stops the first-response clock', (await slaEvents(first)).length === 0, await slaEvents(first));
+  check('tickets without a reply are warned', (await slaEvents(third)).join() === 'first_response:warning', await slaEvents(third));
+}
+
+runTests().then(() => {
+  console.log('\n================================================');
+  console.log(failures === 0 ? '✅ All ticket routing checks passed' : `❌ ${failures} check(s) failed`);
+  console.log('================================================\n');
+  process.exit(failures === 0 ? 0 : 1);
+}).catch(error => {
+  console.error('\n\n❌ Test failed:', error);
+  process.exit(1);
+});
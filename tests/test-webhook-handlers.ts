@@ -0,0 +1,170 @@
+#!/usr/bin/env tsx
+/**
+ * Webhook Event Handler Test
+ * Runs recorded Ampeco webhook payloads through the handler pipeline with
+ * an in-memory database and fake Discord / predictive-detection dependencies,
+ * then drives charge failure outreach against the mock charging backend
+ */
+
+// Use a throwaway in-memory database for everything that uses the shared db
+process.env.DATABASE_URL = ':memory:';
+
+import fs from 'fs';
+import path from 'path';
+import type { WebhookHandlerDeps, AmpecoWebhookEvent } from '../src/services/webhookEventHandlers';
+
+const FIXTURES_DIR = path.join(process.cwd(), 'tests/fixtures/ampeco-webhooks');
+
+function loadFixture(name: string): AmpecoWebhookEvent {
+  return JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, name), 'utf8'));
+}
+
+let failures = 0;
+function check(label: string, condition: boolean, detail?: any) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+  } else {
+    failures++;
+    console.log(`  ❌ ${label}`, detail ?? '');
+  }
+}
+
+async function runTests() {
+  const { getDb } = await import('../src/db');
+  const { Migrator } = await import('../src/db/migrator');
+  const { dispatchWebhookEvent, toChargeFailure } = await import('../src/services/webhookEventHandlers');
+  const { ChargeFailureOutreachService } = await import('../src/services/chargeFailureOutreach');
+  const { ChargingBackendRegistry } = await import('../src/services/chargingBackend');
+  const { MockChargingBackend } = await import('../src/services/mockChargingBackend');
+
+  const db = getDb();
+  await new Migrator(db).up();
+  await db.run(`INSERT INTO rfid_cards (card_id, user_id, status) VALUES (?, ?, 'blocked')`, ['04A2B3C4D5E680', 9012]);
+
+  const sent: Array<{ to: string; content: string }> = [];
+  const alerts: any[] = [];
+  const anomalyChecks: any[] = [];
+  const outreachRequests: any[] = [];
+
+  const deps: WebhookHandlerDeps = {
+    db,
+    resolveRecipient: async (userId) => (userId === '9012'
+      ? { userId, discordUserId: '998877665544332211', language: 'he' }
+      : null),
+    sendDirectMessage: async (recipient, content) => {
+      sent.push({ to: recipient.discordUserId, content });
+      return { delivered: true, channel: 'discord' };
+    },
+    sendStationAlert: async (event) => {
+      alerts.push(event);
+      return true;
+    },
+    detectAnomalies: async (data) => {
+      anomalyChecks.push(data);
+      return [];
+    },
+    reachOutAboutFailure: async (failure) => {
+      outreachRequests.push(failure);
+      return { contacted: 0, owners: 0, attempts: [] };
+    },
+  };
+
+  console.log('\n🧪 session.stopped');
+  let result = await dispatchWebhookEvent(loadFixture('session-stopped.json'), deps);
+  check('receipt sent', result.action === 'receipt_sent', result);
+  check('receipt in Hebrew with cost', sent[0]?.content.includes('קבלה') && sent[0]?.content.includes('66.98 ILS'), sent[0]);
+
+  console.log('\n🧪 chargepoint.faulted');
+  result = await dispatchWebhookEvent(loadFixture('chargepoint-faulted.json'), deps);
+  check('maintenance alert created', result.action === 'maintenance_alert_created', result);
+  check('Discord alert sent', alerts.length === 1 && alerts[0].severity === 'critical', alerts);
+  result = await dispatchWebhookEvent(loadFixture('chargepoint-faulted.json'), deps);
+  check('repeat fault reuses open alert', result.action === 'maintenance_alert_exists', result);
+  const alertCount = await db.get<{ count: number }>(`SELECT COUNT(*) as count FROM maintenance_alerts`);
+  check('one alert row', alertCount?.count === 1, alertCount);
+
+  console.log('\n🧪 session.failed');
+  result = await dispatchWebhookEvent(loadFixture('session-failed.json'), deps);
+  check('anomaly detection ran', result.action === 'anomalies_checked' && anomalyChecks.length === 1, result);
+  check('failure reason passed through', anomalyChecks[0]?.errorsEncountered[0] === 'EVCommunicationError', anomalyChecks[0]);
+  check('outreach requested for failed session and fault', outreachRequests.map((f) => f.trigger).join(',') === 'chargepoint.faulted,session.failed', outreachRequests);
+
+  console.log('\n🧪 authorization.failed');
+  result = await dispatchWebhookEvent(loadFixture('authorization-failed.json'), deps);
+  check('blocked card diagnosed', result.details?.diagnosis === 'card_blocked', result);
+  const denials = await db.get<{ count: number }>(`SELECT COUNT(*) as count FROM rfid_usage_log WHERE action = 'denied'`);
+  check('denial logged', denials?.count === 1, denials);
+  result = await dispatchWebhookEvent(loadFixture('authorization-failed.json'), deps);
+  const replayedDenials = await db.get<{ count: number }>(`SELECT COUNT(*) as count FROM rfid_usage_log WHERE action = 'denied'`);
+  check('replayed event is not logged again', replayedDenials?.count === 1 && result.details?.recentDenials === 1, { replayedDenials, result });
+
+  console.log('\n🧪 charge failure outreach');
+  const registry = new ChargingBackendRegistry();
+  const mock = new MockChargingBackend();
+  registry.register(mock);
+  mock.addStation({ stationId: '41', stationName: 'Haifa Port 41', location: { latitude: 32.82, longitude: 34.99, address: 'Haifa' } });
+  mock.addStation({ stationId: '42', stationName: 'Haifa Grand Canyon', location: { latitude: 32.79, longitude: 35.01, address: 'Haifa' } });
+  mock.addStation({ stationId: '77', stationName: 'Eilat Marina', location: { latitude: 29.55, longitude: 34.95, address: 'Eilat' } });
+  mock.addStation({ stationId: '35', stationName: 'Tel Aviv Port 35' });
+  mock.addSession({ stationId: '35', connectorId: 34, idTag: 'CARD-EMAIL-ONLY' });
+
+  await db.run(`INSERT INTO rfid_cards (card_id, user_email, status) VALUES (?, ?, 'active')`, ['CARD-EMAIL-ONLY', 'dana@example.com']);
+  await db.run(`INSERT INTO user_profiles (user_id, email) VALUES (?, ?)`, ['5550', 'dana@example.com']);
+
+  const outreachSent: Array<{ to: string; content: string; actions: string[] }> = [];
+  const threads: string[] = [];
+  const outreach = new ChargeFailureOutreachService({
+    db,
+    registry,
+    resolveRecipient: async (userId) => ({
+      userId,
+      discordUserId: `discord-${userId}`,
+      language: userId === '9012' ? 'he' : 'en',
+    }),
+    sendDirectMessage: async (recipient, content, actions = []) => {
+      outreachSent.push({ to: recipient.discordUserId, content, actions: actions.map((a) => a.id) });
+      return { delivered: true, channel: 'discord', channelId: 'dm-1' };
+    },
+    onThreadOpened: (threadId) => threads.push(threadId),
+  });
+
+  let summary = await outreach.reachOut(toChargeFailure(loadFixture('session-failed.json'), 'session.failed'));
+  check('failed session owner contacted', summary.contacted === 1 && summary.attempts[0].source === 'event', summary);
+  check('outreach in Hebrew with restart + nearby', outreachSent[0]?.content.includes('הופסקה') && outreachSent[0]?.actions.length === 2, outreachSent[0]);
+  check('thread opened for the DM', threads[0] === 'discord-dm-1-discord-9012', threads);
+
+  summary = await outreach.reachOut(toChargeFailure(loadFixture('session-failed.json'), 'session.failed'));
+  check('replayed failure not re-sent', summary.attempts[0]?.status === 'exists' && outreachSent.length === 1, summary);
+
+  summary = await outreach.reachOut(toChargeFailure(loadFixture('chargepoint-faulted.json'), 'chargepoint.faulted'));
+  check('fault owner resolved via RFID card e-mail', summary.attempts[0]?.userId === '5550' && summary.attempts[0]?.source === 'user_profile', summary);
+  check('faulted charger offers only nearby', outreachSent[1]?.actions.length === 1 && outreachSent[1]?.actions[0].startsWith('outreach_nearby_'), outreachSent[1]);
+
+  const failedOutreachId = outreachSent[0].actions[0].replace('outreach_restart_', '');
+  const denied = await outreach.handleAction(failedOutreachId, 'restart', 'someone-else');
+  check('other users cannot act on outreach', !denied.success, denied);
+
+  const [restarted, doubleClick] = await Promise.all([
+    outreach.handleAction(failedOutreachId, 'restart', 'discord-9012'),
+    outreach.handleAction(failedOutreachId, 'restart', 'discord-9012'),
+  ]);
+  check('restart starts charging on the same connector', restarted.success && mock.commands.some((c) => c.type === 'startCharging' && c.stationId === '41' && c.options.connectorId === 52), mock.commands);
+  check('restart closes the outreach', restarted.closed === true, restarted);
+  check('a second restart click is refused', !doubleClick.success && doubleClick.closed === true, doubleClick);
+  check('charging started only once', mock.commands.filter((c) => c.type === 'startCharging').length === 1, mock.commands);
+
+  const nearby = await outreach.handleAction(failedOutreachId, 'nearby', 'discord-9012');
+  check('nearest available station listed first', nearby.message.split('\n')[1]?.includes('Haifa Grand Canyon'), nearby.message);
+  const status = await db.get<{ status: string }>(`SELECT status FROM charge_failure_outreach WHERE outreach_id = ?`, [failedOutreachId]);
+  check('nearby lookup keeps the restarted status', status?.status === 'restarted', status);
+}
+
+runTests().then(() => {
+  console.log('\n================================================');
+  console.log(failures === 0 ? '✅ All webhook handler checks passed' : `❌ ${failures} check(s) failed`);
+  console.log('================================================\n');
+  process.exit(failures === 0 ? 0 : 1);
+}).catch(error => {
+  console.error('\n\n❌ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,144 @@
+#!/usr/bin/env tsx
+/**
+ * Webhook Ingest Test
+ * Posts signed Ampeco webhooks to the webhook routes with an in-memory
+ * database and test event handlers: signature checks with secret rotation,
+ * idempotent retries (including two deliveries racing), the processing
+ * lease, and admin replay skipping events still in flight
+ */
+
+// Use a throwaway in-memory database for everything that uses the shared db
+process.env.DATABASE_URL = ':memory:';
+process.env.AMPECO_WEBHOOK_SECRETS = 'whsec-current,whsec-previous';
+process.env.ADMIN_API_TOKEN = 'admin-test-token';
+
+import type { AmpecoWebhookEvent } from '../src/services/webhookEventHandlers';
+
+let failures = 0;
+function check(label: string, condition: boolean, detail?: any) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+  } else {
+    failures++;
+    console.log(`  ❌ ${label}`, detail ?? '');
+  }
+}
+
+async function runTests() {
+  const { getDb } = await import('../src/db');
+  const { Migrator } = await import('../src/db/migrator');
+  const { signPayload } = await import('../src/utils/webhookSignature');
+  const { webhookEventHandlers } = await import('../src/services/webhookEventHandlers');
+  const { default: webhookApp } = await import('../src/routes/webhooks');
+
+  const db = getDb();
+  await new Migrator(db).up();
+
+  // Test handlers: count calls, fail on demand, or hold until released
+  const calls: Record<string, number> = {};
+  let failNext = false;
+  let release: (() => void) | null = null;
+  const count = (event: AmpecoWebhookEvent) => {
+    calls[event.id as string] = (calls[event.id as string] || 0) + 1;
+  };
+  webhookEventHandlers['test.counted'] = async (event) => {
+    count(event);
+    if (failNext) {
+      failNext = false;
+      throw new Error('Handler failed');
+    }
+    return { action: 'counted' };
+  };
+  webhookEventHandlers['test.held'] = async (event) => {
+    count(event);
+    await new Promise<void>((resolve) => { release = resolve; });
+    return { action: 'held' };
+  };
+
+  const deliver = (event: Record<string, any>, secret = 'whsec-current', signature?: string) => {
+    const body = JSON.stringify(event);
+    return webhookApp.request('/ampeco', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'x-ampeco-signature': signature ?? `sha256=${signPayload(body, secret)}` },
+      body,
+    });
+  };
+  const replay = (body: Record<string, any>) => webhookApp.request('/ampeco/replay', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', authorization: 'Bearer admin-test-token' },
+    body: JSON.stringify(body),
+  });
+  const rowFor = (eventId: string) => db.get<{ id: number; status: string; attempts: number }>(
+    `SELECT id, status, attempts FROM ampeco_webhook_events WHERE idempotency_key = ?`,
+    [`event:${eventId}`]
+  );
+
+  console.log('\n🧪 signature');
+  const unsigned = await deliver({ id: 'evt-sig', notification: 'test.counted' }, 'whsec-current', '');
+  check('missing signature is rejected', unsigned.status === 401, unsigned.status);
+  const forged = await deliver({ id: 'evt-sig', notification: 'test.counted' }, 'whsec-attacker');
+  check('signature with an unknown secret is rejected', forged.status === 401, forged.status);
+  const previous = await deliver({ id: 'evt-sig', notification: 'test.counted' }, 'whsec-previous');
+  check('previous secret is still accepted', previous.status === 200 && calls['evt-sig'] === 1, await previous.json());
+
+  console.log('\n🧪 idempotency');
+  const first = await deliver({ id: 'evt-1', notification: 'test.counted' });
+  const retry = await deliver({ id: 'evt-1', notification: 'test.counted' });
+  const retryBody = await retry.json();
+  check('first delivery is processed', first.status === 200 && (await first.json()).status === 'processed');
+  check('retry of a processed event is a duplicate', retry.status === 200 && retryBody.duplicate === true, retryBody);
+  check('handler ran once', calls['evt-1'] === 1, calls);
+
+  failNext = true;
+  const failed = await deliver({ id: 'evt-2', notification: 'test.counted' });
+  check('handler error returns 500 so Ampeco retries', failed.status === 500 && (await rowFor('evt-2'))?.status === 'failed', failed.status);
+  const retried = await deliver({ id: 'evt-2', notification: 'test.counted' });
+  check('retry of a failed event reprocesses it', retried.status === 200 && calls['evt-2'] === 2 && (await rowFor('evt-2'))?.status === 'processed', calls);
+
+  console.log('\n🧪 concurrent deliveries');
+  const racing = await Promise.all([
+    deliver({ id: 'evt-3', notification: 'test.counted' }),
+    deliver({ id: 'evt-3', notification: 'test.counted' }),
+  ]);
+  const racingBodies = await Promise.all(racing.map((r) => r.json()));
+  check('both deliveries succeed', racing.every((r) => r.status === 200), racingBodies);
+  check('exactly one is reported as a duplicate', racingBodies.filter((b) => b.duplicate).length === 1, racingBodies);
+  check('handler ran once for the race', calls['evt-3'] === 1, calls);
+
+  console.log('\n🧪 processing lease');
+  const held = deliver({ id: 'evt-4', notification: 'test.held' });
+  while (!release) await new Promise((resolve) => setTimeout(resolve, 5));
+  const whileHeld = await deliver({ id: 'evt-4', notification: 'test.held' });
+  const whileHeldBody = await whileHeld.json();
+  check('retry during processing is a duplicate', whileHeld.status === 200 && whileHeldBody.duplicate && whileHeldBody.status === 'processing', whileHeldBody);
+
+  const replayHeld = await (await replay({ ids: [(await rowFor('evt-4'))!.id] })).json();
+  check('replay skips an event still being processed', replayHeld.skipped === 1 && replayHeld.results[0]?.status === 'skipped', replayHeld);
+  check('handler not run again while held', calls['evt-4'] === 1, calls);
+  (release as unknown as () => void)();
+  check('held delivery finishes', (await held).status === 200 && (await rowFor('evt-4'))?.status === 'processed');
+
+  // A process that died mid-handler leaves the row 'processing'
+  const stuck = await rowFor('evt-1');
+  await db.run(`
+    UPDATE ampeco_webhook_events SET status = 'processing', processing_started_at = ${db.sql.ago(1, 'hours')} WHERE id = ?
+  `, [stuck!.id]);
+  const takeover = await deliver({ id: 'evt-1', notification: 'test.counted' });
+  check('retry takes over an expired lease', takeover.status === 200 && !(await takeover.json()).duplicate && calls['evt-1'] === 2, calls);
+
+  console.log('\n🧪 replay');
+  const reprocessed = await (await replay({ ids: [(await rowFor('evt-1'))!.id] })).json();
+  check('admin replay reprocesses a processed event', reprocessed.succeeded === 1 && calls['evt-1'] === 3, reprocessed);
+  const unauthorized = await webhookApp.request('/ampeco/replay', { method: 'POST', body: JSON.stringify({ status: 'failed' }) });
+  check('replay requires the admin token', unauthorized.status === 401, unauthorized.status);
+}
+
+runTests().then(() => {
+  console.log('\n================================================');
+  console.log(failures === 0 ? '✅ All webhook ingest checks passed' : `❌ ${failures} check(s) failed`);
+  console.log('================================================\n');
+  process.exit(failures === 0 ? 0 : 1);
+}).catch(error => {
+  console.error('\n\n❌ Test failed:', error);
+  process.exit(1);
+});
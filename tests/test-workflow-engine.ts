@@ -0,0 +1,104 @@
+#!/usr/bin/env tsx
+/**
+ * Workflow Engine Test
+ * Runs a diagnostic workflow on two engines sharing an in-memory database,
+ * as two workers would: a worker with a stale cached session re-reads it
+ * before advancing, and of two workers answering the same step at once only
+ * one runs the step's tool - the other gets a WorkflowConflictError first
+ */
+
+// Use a throwaway in-memory database for everything that uses the shared db
+process.env.DATABASE_URL = ':memory:';
+
+import type { DiagnosticWorkflow } from '../src/workflows/diagnosticFlows';
+
+let failures = 0;
+function check(label: string, condition: boolean, detail?: any) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+  } else {
+    failures++;
+    console.log(`  ❌ ${label}`, detail ?? '');
+  }
+}
+
+const text = (value: string) => ({ he: value, en: value, ru: value, ar: value });
+
+const WORKFLOW: DiagnosticWorkflow = {
+  id: 'remote-start',
+  name: text('Remote start'),
+  description: text('Starts charging when the driver confirms'),
+  triggers: ['start'],
+  estimatedTime: 1,
+  successRate: 1,
+  category: 'charging',
+  priority: 'medium',
+  contextVariables: { stationId: 'string' },
+  steps: [
+    { id: 'confirm', type: 'question', content: text('Start charging?'), nextSteps: [{ condition: 'answer === "yes"', nextStepId: 'start' }] },
+    {
+      id: 'start',
+      type: 'action',
+      content: text('Starting'),
+      toolCall: { toolName: 'startCharging', params: { stationId: '{stationId}' } },
+      nextSteps: [{ nextStepId: 'done' }],
+    },
+    { id: 'done', type: 'resolution', content: text('Charging started') },
+  ],
+};
+
+async function runTests() {
+  const { getDb } = await import('../src/db');
+  const { Migrator } = await import('../src/db/migrator');
+  const { WorkflowEngine, WorkflowConflictError } = await import('../src/services/workflowEngine');
+  const { WorkflowToolExecutor } = await import('../src/workflows/workflowTools');
+
+  await new Migrator(getDb()).up();
+
+  let starts = 0;
+  const executor = new WorkflowToolExecutor({
+    startCharging: {
+      execute: async () => {
+        starts++;
+        return { success: true };
+      },
+    },
+  });
+  const workerA = new WorkflowEngine(executor);
+  const workerB = new WorkflowEngine(executor);
+
+  console.log('\n🧪 stale cache');
+  const first = await workerA.startWorkflow('driver-1', WORKFLOW, { stationId: 'EC-TLV-001' });
+  await workerB.getSession(first.id); // B caches the session at the question
+  const advanced = await workerA.processUserInput(first.id, WORKFLOW, 'yes');
+  check('first worker starts charging and resolves', advanced.session.status === 'completed' && starts === 1, advanced.session);
+
+  const stale = await workerB.processUserInput(first.id, WORKFLOW, 'yes').then(() => null, (error) => error);
+  check('stale worker sees the resolved session', stale instanceof Error && /completed/.test(stale.message), stale);
+  check('and does not start charging again', starts === 1, starts);
+
+  console.log('\n🧪 concurrent answers');
+  const second = await workerA.startWorkflow('driver-2', WORKFLOW, { stationId: 'EC-TLV-002' });
+  const answers = await Promise.allSettled([
+    workerA.processUserInput(second.id, WORKFLOW, 'yes'),
+    workerB.processUserInput(second.id, WORKFLOW, 'yes'),
+  ]);
+  const conflicts = answers.filter((answer) => answer.status === 'rejected' && answer.reason instanceof WorkflowConflictError);
+  check('one worker advances the step', answers.filter((answer) => answer.status === 'fulfilled').length === 1, answers);
+  check('the other gets a conflict', conflicts.length === 1, answers);
+  check('the tool runs once', starts === 2, starts);
+
+  const saved = await new WorkflowEngine(executor).getSession(second.id);
+  check('saved session is resolved with one start in its history',
+    saved?.status === 'completed' && saved.stepHistory.filter((entry) => entry.stepId === 'start').length === 1, saved);
+}
+
+runTests().then(() => {
+  console.log('\n================================================');
+  console.log(failures === 0 ? '✅ All workflow engine checks passed' : `❌ ${failures} check(s) failed`);
+  console.log('================================================\n');
+  process.exit(failures === 0 ? 0 : 1);
+}).catch(error => {
+  console.error('\n\n❌ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,161 @@
+#!/usr/bin/env tsx
+/**
+ * Workflow Validator Test
+ * Validates authored workflow definitions: a valid workflow and the shipped
+ * ones pass, and each authoring mistake is reported with its step -
+ * unreachable steps, dangling and duplicate step ids, missing translations,
+ * cycles with no exit, unknown tools, retries on tools with side effects and
+ * bad branch conditions
+ */
+
+let failures = 0;
+function check(label: string, condition: boolean, detail?: any) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+  } else {
+    failures++;
+    console.log(`  ❌ ${label}`, detail ?? '');
+  }
+}
+
+const text = (value: string) => ({ he: `${value} (he)`, en: value, ru: `${value} (ru)`, ar: `${value} (ar)` });
+
+/**
+ * A valid workflow: check the station, ask, then resolve or escalate
+ */
+function baseWorkflow(): any {
+  return {
+    id: 'station-check',
+    name: text('Station check'),
+    description: text('Checks the station and asks the driver'),
+    triggers: ['station'],
+    estimatedTime: 3,
+    successRate: 0.8,
+    category: 'charging',
+    priority: 'medium',
+    contextVariables: { stationId: 'string' },
+    steps: [
+      {
+        id: 'check',
+        type: 'check',
+        content: text('Checking the station'),
+        toolCall: { toolName: 'stationStatus', params: { stationId: '{stationId}' } },
+        nextSteps: [{ nextStepId: 'ask' }],
+      },
+      {
+        id: 'ask',
+        type: 'question',
+        content: text('Is it charging now?'),
+        nextSteps: [
+          { condition: 'answer === "yes"', nextStepId: 'done' },
+          { condition: 'answer === "no"', nextStepId: 'escalate' },
+        ],
+      },
+      { id: 'done', type: 'resolution', content: text('Glad it works') },
+      { id: 'escalate', type: 'escalation', content: text('Passing you to an agent'), escalationTrigger: { reason: 'still_failing', urgency: 'medium' } },
+    ],
+  };
+}
+
+async function runTests() {
+  const { validateWorkflowDefinition } = await import('../src/workflows/workflowValidator');
+  const { DIAGNOSTIC_WORKFLOWS } = await import('../src/workflows/diagnosticFlows');
+
+  const issues = (mutate: (workflow: any) => void) => {
+    const workflow = baseWorkflow();
+    mutate(workflow);
+    const result = validateWorkflowDefinition(workflow);
+    return [...result.errors, ...result.warnings];
+  };
+  const has = (found: Array<{ code: string; stepId?: string }>, code: string, stepId?: string) =>
+    found.some((issue) => issue.code === code && (stepId === undefined || issue.stepId === stepId));
+
+  console.log('\n🧪 valid workflows');
+  const valid = validateWorkflowDefinition(baseWorkflow());
+  check('valid workflow has no issues', valid.valid && valid.errors.length === 0 && valid.warnings.length === 0, valid);
+  const shipped = DIAGNOSTIC_WORKFLOWS
+    .map((workflow) => ({ id: workflow.id, errors: validateWorkflowDefinition(workflow).errors }))
+    .filter((result) => result.errors.length > 0);
+  check('shipped workflows are valid', shipped.length === 0, shipped);
+
+  console.log('\n🧪 shape');
+  const shape = validateWorkflowDefinition({ ...baseWorkflow(), id: 'Station Check', steps: [] });
+  check('bad id and empty steps are shape errors', !shape.valid && shape.errors.every((issue) => issue.code === 'invalid_shape') && shape.errors.length === 2, shape.errors);
+
+  console.log('\n🧪 step graph');
+  const unreachable = issues((workflow) => {
+    workflow.steps.push({ id: 'orphan', type: 'resolution', content: text('Never shown') });
+  });
+  check('unreachable step', has(unreachable, 'unreachable_step', 'orphan'), unreachable);
+
+  const dangling = issues((workflow) => {
+    workflow.steps[1].nextSteps[1].nextStepId = 'escalte';
+  });
+  check('dangling next step id', has(dangling, 'dangling_next_step', 'ask'), dangling);
+  check('and the step it should have reached is unreachable', has(dangling, 'unreachable_step', 'escalate'));
+
+  const duplicate = issues((workflow) => {
+    workflow.steps.push({ ...workflow.steps[2] });
+  });
+  check('duplicate step id', has(duplicate, 'duplicate_step', 'done'), duplicate);
+
+  const closedLoop = issues((workflow) => {
+    workflow.steps[1].nextSteps = [{ condition: 'answer === "no"', nextStepId: 'retry' }];
+    workflow.steps.push({ id: 'retry', type: 'action', content: text('Replug the cable'), nextSteps: [{ nextStepId: 'ask' }] });
+  });
+  check('cycle with no exit', has(closedLoop, 'cycle_without_exit'), closedLoop);
+
+  const loopWithExit = issues((workflow) => {
+    workflow.steps[1].nextSteps.push({ condition: 'answer === "retry"', nextStepId: 'retry' });
+    workflow.steps.push({ id: 'retry', type: 'action', content: text('Replug the cable'), nextSteps: [{ nextStepId: 'ask' }] });
+  });
+  check('cycle with a way out is fine', !has(loopWithExit, 'cycle_without_exit'), loopWithExit);
+
+  const deadEnd = issues((workflow) => {
+    delete workflow.steps[1].nextSteps;
+  });
+  check('question without next steps is a dead-end warning', has(deadEnd, 'dead_end', 'ask'));
+
+  console.log('\n🧪 translations');
+  const missing = issues((workflow) => {
+    delete workflow.name.ar;
+    workflow.steps[1].content.ru = '  ';
+  });
+  check('missing workflow name translation', has(missing, 'missing_translation') && missing.some((issue: any) => issue.path === 'name.ar'), missing);
+  check('blank step translation', missing.some((issue: any) => issue.path === 'steps.ask.content.ru' && issue.stepId === 'ask'), missing);
+
+  console.log('\n🧪 tools');
+  const unknownTool = issues((workflow) => {
+    workflow.steps[0].toolCall.toolName = 'stationStatuss';
+  });
+  check('unknown tool', has(unknownTool, 'unknown_tool', 'check'), unknownTool);
+  const custom = validateWorkflowDefinition(baseWorkflow(), { knownToolNames: ['lookupErrorCode'] });
+  check('known tools can be narrowed', custom.errors.some((issue) => issue.code === 'unknown_tool'), custom.errors);
+
+  const retries = validateWorkflowDefinition((() => {
+    const workflow = baseWorkflow();
+    workflow.steps[0].toolCall = { toolName: 'startCharging', params: { stationId: '{stationId}' }, retries: 2 };
+    return workflow;
+  })());
+  check('retries on a tool with side effects is a warning', retries.valid && retries.warnings.some((issue) => issue.code === 'unsafe_retries'), retries);
+
+  console.log('\n🧪 conditions');
+  const badCondition = issues((workflow) => {
+    workflow.steps[1].nextSteps[0].condition = 'stationid === "EC-1"';
+  });
+  check('condition with an undeclared variable', has(badCondition, 'invalid_condition', 'ask'), badCondition);
+  const badVariables = issues((workflow) => {
+    workflow.contextVariables = { stationId: 'text' };
+  });
+  check('bad variable declaration', has(badVariables, 'invalid_variables'), badVariables);
+}
+
+runTests().then(() => {
+  console.log('\n================================================');
+  console.log(failures === 0 ? '✅ All workflow validator checks passed' : `❌ ${failures} check(s) failed`);
+  console.log('================================================\n');
+  process.exit(failures === 0 ? 0 : 1);
+}).catch(error => {
+  console.error('\n\n❌ Test failed:', error);
+  process.exit(1);
+});